@@ -2,6 +2,7 @@ const { handleCors } = require('../../utils/cors');
 const { validateApiAccess } = require('../../utils/auth');
 const { rateLimiter, getRateLimitHeaders } = require('../../utils/rateLimiter');
 const { logger } = require('../../utils/logger');
+const { calculatePerplexityCost } = require('./shared/perplexity-cost');
 
 const PERPLEXITY_API_KEY = process.env.PERPLEXITY_API_KEY;
 
@@ -243,7 +244,14 @@ ${includeCompetitors ? `
       }
     };
 
-    return normalizedInfo;
+    return {
+      companyInfo: normalizedInfo,
+      usage: {
+        model: responseData.model || 'sonar-pro',
+        tokensUsed: responseData.usage?.total_tokens || 0,
+        estimatedCost: calculatePerplexityCost(responseData.usage)
+      }
+    };
   } catch (error) {
     logger.error('Failed to extract company info with Perplexity', { 
       error: error.message,
@@ -338,7 +346,7 @@ const handler = async (event, context) => {
     });
 
     // Perplexity APIを使用して企業情報を抽出
-    const companyInfo = await extractCompanyInfoWithPerplexity(
+    const { companyInfo, usage } = await extractCompanyInfoWithPerplexity(
       companyName, 
       companyWebsite,
       { includeFinancials, includeESG, includeCompetitors }
@@ -366,7 +374,8 @@ const handler = async (event, context) => {
         metadata: {
           processingTime,
           timestamp: new Date().toISOString(),
-          source: 'perplexity'
+          source: 'perplexity',
+          ...usage
         }
       })
     };
@@ -2,6 +2,7 @@ const { handleCors } = require('../../utils/cors');
 const { validateApiAccess } = require('../../utils/auth');
 const { rateLimiter, getRateLimitHeaders } = require('../../utils/rateLimiter');
 const { logger } = require('../../utils/logger');
+const { calculatePerplexityCost } = require('./shared/perplexity-cost');
 
 const PERPLEXITY_API_KEY = process.env.PERPLEXITY_API_KEY;
 
@@ -128,7 +129,14 @@ ${additionalInfo ? `追加情報: ${additionalInfo}` : ''}
       success: true
     });
     
-    return sanitizedData;
+    return {
+      mvvData: sanitizedData,
+      usage: {
+        model: result.model || 'sonar-pro',
+        tokensUsed: result.usage?.total_tokens || 0,
+        estimatedCost: calculatePerplexityCost(result.usage)
+      }
+    };
 
   } catch (error) {
     const processingTime = Date.now() - startTime;
@@ -243,7 +251,7 @@ exports.handler = async (event, context) => {
     });
 
     // Extract MVV using Perplexity API
-    const mvvData = await searchCompanyMVV(companyName, companyWebsite, companyDescription);
+    const { mvvData, usage } = await searchCompanyMVV(companyName, companyWebsite, companyDescription);
     
     logger.debug(`Perplexity MVV extraction completed for ${companyName}`, {
       companyId,
@@ -267,7 +275,8 @@ exports.handler = async (event, context) => {
         metadata: {
           processingTime: totalProcessingTime,
           timestamp: new Date().toISOString(),
-          source: 'perplexity'
+          source: 'perplexity',
+          ...usage
         }
       })
     };
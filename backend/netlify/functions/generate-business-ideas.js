@@ -21,6 +21,7 @@ const usageTracker = new UsageTracker();
  * - 簡易リーンキャンバス
  * - MVV適合度分析
  * - コスト最適化（キャッシュ、トークン最適化）
+ * - 既存アイデアの改良（refinement: 改良元のリーンキャンバスと改善提案をコンテキストに追加）
  */
 exports.handler = async (event, context) => {
   // Handle CORS preflight
@@ -62,7 +63,8 @@ exports.handler = async (event, context) => {
     const { 
       companyData, 
       analysisParams = {}, 
-      options = {} 
+      options = {},
+      refinement
     } = requestBody;
 
     // 入力検証
@@ -81,6 +83,7 @@ exports.handler = async (event, context) => {
       companyId: companyData.id, 
       companyName: companyData.name,
       analysisParams, 
+      isRefinement: !!refinement,
       user: authResult.user?.username 
     });
 
@@ -110,7 +113,7 @@ exports.handler = async (event, context) => {
 
     // AI分析実行
     const startTime = Date.now();
-    const analysisResult = await generateBusinessIdeas(companyData, analysisParams, options);
+    const analysisResult = await generateBusinessIdeas(companyData, analysisParams, options, refinement);
     const processingTime = Date.now() - startTime;
 
     // サーバーサイドキャッシュは使用しない（Netlify Functions stateless + creative content）
@@ -174,7 +177,7 @@ exports.handler = async (event, context) => {
 /**
  * ビジネスアイデア生成（Phase α版）
  */
-async function generateBusinessIdeas(companyData, analysisParams, options) {
+async function generateBusinessIdeas(companyData, analysisParams, options, refinement) {
   const maxIdeas = options.maxIdeas || 1; // Phase α+: デフォルト1案（質重視）
   
   // 段階的分析プロンプト（Phase α+）
@@ -253,7 +256,8 @@ async function generateBusinessIdeas(companyData, analysisParams, options) {
   const userPrompt = optimizePrompt({
     company: companyData,
     analysisParams,
-    maxIdeas
+    maxIdeas,
+    refinement
   });
 
   try {
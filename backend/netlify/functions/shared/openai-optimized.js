@@ -13,21 +13,26 @@ const { logger } = require('../../../utils/logger');
 /**
  * プロンプト最適化（トークン効率重視）
  */
-function optimizePrompt({ company, analysisParams, maxIdeas }) {
+function optimizePrompt({ company, analysisParams, maxIdeas, refinement }) {
   // 企業データの要約（トークン節約）
   const companySummary = createCompanySummary(company);
   
   // 分析パラメータの構造化
   const analysisContext = formatAnalysisParams(analysisParams);
   
+  // 既存アイデアの改良時は改良元と改善提案をコンテキストとして追加
+  const refinementContext = refinement && refinement.baseIdea
+    ? `\n\n${formatRefinementContext(refinement)}\n`
+    : '';
+  
   // 効率的なプロンプト構築
   const prompt = `
 ## 企業情報
 ${companySummary}
 
 ## 分析要求
-${analysisContext}
-最大${maxIdeas}案のビジネスアイデアを生成してください。
+${analysisContext}${refinementContext}
+${refinementContext ? `改良元アイデアを改善した${maxIdeas}案のビジネスアイデアを生成してください。` : `最大${maxIdeas}案のビジネスアイデアを生成してください。`}
 
 ## 出力要件
 - 必ずJSON形式
@@ -166,6 +171,54 @@ function formatAnalysisParams(analysisParams) {
   return parts.length > 0 ? parts.join('\n') : '**分析条件**: 一般的なビジネス機会を探索';
 }
 
+/**
+ * 改良元アイデアと改善提案のフォーマット
+ */
+function formatRefinementContext(refinement) {
+  const { baseIdea, improvementSuggestions, instructions } = refinement;
+  const canvas = baseIdea.leanCanvas || {};
+  const list = (value) => Array.isArray(value) ? value.join('、') : (value || '未設定');
+
+  const parts = [
+    '## 改良元アイデア',
+    `**タイトル**: ${baseIdea.title}`,
+    `**概要**: ${baseIdea.description}`,
+    '**リーンキャンバス**:',
+    `- 顧客セグメント: ${list(canvas.targetCustomers)}`,
+    `- アーリーアダプター: ${list(canvas.earlyAdopters)}`,
+    `- 課題: ${list(canvas.problem)}`,
+    `- 既存の代替品: ${list(canvas.existingAlternatives)}`,
+    `- 独自の価値提案: ${list(canvas.valueProposition)}`,
+    `- ソリューション: ${list(canvas.solution)}`,
+    `- チャネル: ${list(canvas.channels)}`,
+    `- 収益の流れ: ${list(canvas.revenueStreams)}`,
+    `- 主要指標: ${list(canvas.keyMetrics)}`,
+    `- コスト構造: ${list(canvas.costStructure)}`,
+    `- 圧倒的な優位性: ${list(canvas.unfairAdvantage)}`
+  ];
+
+  if (improvementSuggestions) {
+    parts.push('', '## 検証で得られた改善提案');
+    parts.push(typeof improvementSuggestions === 'string'
+      ? improvementSuggestions
+      : JSON.stringify(improvementSuggestions, null, 2));
+  }
+
+  if (instructions) {
+    parts.push('', '## 追加の改良指示', instructions);
+  }
+
+  parts.push(
+    '',
+    '## 改良方針',
+    '- 改良元アイデアの中核となる価値とMVVとの結びつきは維持する',
+    '- 改善提案で指摘された弱点を解消するよう、リーンキャンバスの該当ブロックを具体的に修正する',
+    '- 変更しないブロックも省略せず、完全なリーンキャンバスを出力する'
+  );
+
+  return parts.join('\n');
+}
+
 /**
  * 構造化レスポンス解析
  */
@@ -0,0 +1,39 @@
+/**
+ * Perplexity API利用コスト計算
+ *
+ * Perplexity 呼び出しのコスト計算をこのモジュールに集約する
+ * アイデア検証は usageTracker の日次・月次上限がこの概算を前提にしているため、従来の単価のまま計算する
+ */
+
+// sonar-pro pricing (参考値)
+const INPUT_COST_PER_1M = 3.0; // $3.0/1M tokens
+const OUTPUT_COST_PER_1M = 15.0; // $15.0/1M tokens
+
+// アイデア検証の概算単価（入出力の区別なし）
+const VERIFICATION_COST_PER_1M = 1.0; // $1.0/1M tokens (概算)
+
+/**
+ * MVV抽出・企業情報抽出のコスト
+ */
+function calculatePerplexityCost(usage) {
+  if (!usage) return 0;
+
+  const inputCost = ((usage.prompt_tokens || 0) / 1000000) * INPUT_COST_PER_1M;
+  const outputCost = ((usage.completion_tokens || 0) / 1000000) * OUTPUT_COST_PER_1M;
+
+  return inputCost + outputCost;
+}
+
+/**
+ * アイデア検証のコスト
+ */
+function calculateVerificationPerplexityCost(usage) {
+  if (!usage) return 0;
+
+  return ((usage.total_tokens || 0) / 1000000) * VERIFICATION_COST_PER_1M;
+}
+
+module.exports = {
+  calculatePerplexityCost,
+  calculateVerificationPerplexityCost
+};
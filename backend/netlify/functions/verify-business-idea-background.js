@@ -4,6 +4,7 @@ const { handleCors, corsHeaders } = require('../../utils/cors');
 const { validateApiAccess } = require('../../utils/auth');
 const { logger } = require('../../utils/logger');
 const { UsageTracker } = require('./usage-tracker');
+const { calculateVerificationPerplexityCost } = require('./shared/perplexity-cost');
 
 /**
  * Background Function for Business Idea Verification (Phase ε.1.3)
@@ -844,7 +845,7 @@ async function performMarketValidation(originalIdea, companyData, verificationLe
     const parsedData = JSON.parse(jsonContent);
     
     const tokens = response.usage.total_tokens;
-    const cost = calculatePerplexityCost(response.usage);
+    const cost = calculateVerificationPerplexityCost(response.usage);
     
     return {
       data: parsedData,
@@ -950,7 +951,7 @@ ${industrySpecific.keyQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}
     return {
       data: parsedData,
       tokens: response.usage.total_tokens,
-      cost: calculatePerplexityCost(response.usage)
+      cost: calculateVerificationPerplexityCost(response.usage)
     };
   } catch (error) {
     logger.error('Industry analysis error', { 
@@ -1136,7 +1137,7 @@ ${industrySpecific.additionalPoints.slice(0, 2).map((point, i) => `- ${point}`).
     return {
       data: parsedData,
       tokens: response.usage.total_tokens,
-      cost: calculatePerplexityCost(response.usage)
+      cost: calculateVerificationPerplexityCost(response.usage)
     };
   } catch (error) {
     logger.error('Competitive analysis error', { 
@@ -1297,16 +1298,6 @@ function calculateOpenAICost(usage) {
   return inputCost + outputCost;
 }
 
-/**
- * Perplexity API利用コスト計算
- */
-function calculatePerplexityCost(usage) {
-  // Perplexity pricing (参考値)
-  const costPer1M = 1.0; // $1.0/1M tokens (概算)
-  
-  return (usage.total_tokens / 1000000) * costPer1M;
-}
-
 /**
  * ★ 新規追加: Webhook通知関数
  * Background Function完了時にwebhook-task-completeに通知
@@ -3,6 +3,7 @@ const { handleCors, corsHeaders } = require('../../utils/cors');
 const { validateApiAccess } = require('../../utils/auth');
 const { logger } = require('../../utils/logger');
 const { UsageTracker } = require('./usage-tracker');
+const { calculateVerificationPerplexityCost } = require('./shared/perplexity-cost');
 
 // OpenAI クライアント初期化
 const openai = new OpenAI({
@@ -559,7 +560,7 @@ ${industrySpecific.keyQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}
     return {
       data: parsedData,
       tokens: response.usage.total_tokens,
-      cost: calculatePerplexityCost(response.usage)
+      cost: calculateVerificationPerplexityCost(response.usage)
     };
   } catch (error) {
     logger.error('Industry analysis error', {
@@ -709,7 +710,7 @@ ${industrySpecific.additionalPoints.slice(0, 2).map((point, i) => `- ${point}`).
     return {
       data: parsedData,
       tokens: response.usage.total_tokens,
-      cost: calculatePerplexityCost(response.usage)
+      cost: calculateVerificationPerplexityCost(response.usage)
     };
   } catch (error) {
     logger.error('Competitive analysis error', error);
@@ -869,14 +870,4 @@ function calculateOpenAICost(usage) {
   const outputCost = (usage.completion_tokens / 1000000) * outputCostPer1M;
   
   return inputCost + outputCost;
-}
-
-/**
- * Perplexity API利用コスト計算
- */
-function calculatePerplexityCost(usage) {
-  // Perplexity pricing (参考値)
-  const costPer1M = 1.0; // $1.0/1M tokens (概算)
-  
-  return (usage.total_tokens / 1000000) * costPer1M;
 }
\ No newline at end of file
@@ -5,10 +5,20 @@ import { useCompanyStore } from '../../stores/companyStore';
 import { useMVVStore } from '../../stores/mvvStore';
 import { 
   exportBackup, 
-  importBackupFromFile, 
+  getBackupHistory,
+  previewRestore,
+  readBackupFile,
+  resolveBackupChain,
+  restoreFromBackupChain,
   type BackupData,
+  type BackupMode,
+  type ConflictResolution,
+  type RestorePreview,
+  type RestoreResolutions,
   type RestoreResult 
 } from '../../services/backupRestore';
+import { validatePassphrase } from '../../services/backupCrypto';
+import { RestorePreviewPanel } from './RestorePreviewPanel';
 import { 
   Download, 
   Upload, 
@@ -22,52 +32,113 @@ import {
   Brain,
   Target,
   Lightbulb,
-  Building2
+  Building2,
+  Layers,
+  GitCompare,
+  Lock
 } from 'lucide-react';
 
+const BACKUP_MODE_LABELS: Record<BackupMode, string> = {
+  full: 'フル',
+  differential: '差分',
+  incremental: '増分'
+};
+
+interface PassphrasePromptState {
+  fileName: string;
+  previousError?: string;
+  resolve: (passphrase: string | null) => void;
+}
+
 export const BackupRestorePanel: React.FC = () => {
-  const [isExporting, setIsExporting] = useState(false);
+  const [isExporting, setIsExporting] = useState<BackupMode | null>(null);
+  const [backupHistory, setBackupHistory] = useState(() => getBackupHistory());
   const [isImporting, setIsImporting] = useState(false);
   const [showRestoreModal, setShowRestoreModal] = useState(false);
   const [backupPreview, setBackupPreview] = useState<BackupData | null>(null);
+  const [backupChain, setBackupChain] = useState<BackupData[]>([]);
+  const [restorePreview, setRestorePreview] = useState<RestorePreview | null>(null);
+  const [resolutions, setResolutions] = useState<RestoreResolutions>({});
   const [restoreResult, setRestoreResult] = useState<RestoreResult | null>(null);
+  const [encryptBackup, setEncryptBackup] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportPassphraseConfirm, setExportPassphraseConfirm] = useState('');
+  const [passphrasePrompt, setPassphrasePrompt] = useState<PassphrasePromptState | null>(null);
+  const [promptPassphrase, setPromptPassphrase] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const { loadCompanies } = useCompanyStore();
   const { loadMVVData } = useMVVStore();
   const { success, error: showError } = useNotification();
 
-  const handleExport = async () => {
+  const latestBackup = backupHistory[backupHistory.length - 1];
+  const hasFullBackup = backupHistory.some(manifest => manifest.mode === 'full');
+
+  const passphraseError = encryptBackup
+    ? validatePassphrase(exportPassphrase) ??
+      (exportPassphrase !== exportPassphraseConfirm ? 'パスフレーズが一致しません' : null)
+    : null;
+
+  const handleExport = async (mode: BackupMode) => {
+    if (passphraseError) {
+      showError('パスフレーズエラー', passphraseError);
+      return;
+    }
+
     try {
-      setIsExporting(true);
-      await exportBackup();
-      success('バックアップ完了', 'データのエクスポートが完了しました');
+      setIsExporting(mode);
+      await exportBackup(mode, { passphrase: encryptBackup ? exportPassphrase : undefined });
+      setBackupHistory(getBackupHistory());
+      success(
+        'バックアップ完了',
+        `${BACKUP_MODE_LABELS[mode]}バックアップ${encryptBackup ? '（暗号化）' : ''}のエクスポートが完了しました`
+      );
     } catch (error) {
       showError('エクスポートエラー', error instanceof Error ? error.message : 'エクスポートに失敗しました');
     } finally {
-      setIsExporting(false);
+      setIsExporting(null);
     }
   };
 
+  // 暗号化ファイルの読み込み時にモーダルでパスフレーズを入力してもらう
+  const requestPassphrase = (fileName: string, previousError?: string) =>
+    new Promise<string | null>(resolve => {
+      setPromptPassphrase('');
+      setPassphrasePrompt({ fileName, previousError, resolve });
+    });
+
+  const closePassphrasePrompt = (passphrase: string | null) => {
+    passphrasePrompt?.resolve(passphrase);
+    setPassphrasePrompt(null);
+    setPromptPassphrase('');
+  };
+
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(event.target.files || []);
+    if (files.length === 0) return;
 
     try {
       setIsImporting(true);
       
       // Preview backup contents
-      const text = await file.text();
-      const data = JSON.parse(text);
-      
-      if (!data.version || !data.companies || !data.mvvData) {
-        throw new Error('Invalid backup file format');
+      const backups: BackupData[] = [];
+      for (const file of files) {
+        backups.push(await readBackupFile(file, requestPassphrase));
       }
+
+      // 増分・差分はフルバックアップからのチェーンが揃っている必要がある
+      const chain = resolveBackupChain(backups);
+
+      // 書き込み前にローカルデータと突合したドライラン結果を表示（競合はローカル維持が既定）
+      const preview = await previewRestore(chain);
       
-      setBackupPreview(data);
+      setBackupChain(chain);
+      setRestorePreview(preview);
+      setResolutions({});
+      setBackupPreview(chain[0]);
       setShowRestoreModal(true);
     } catch (error) {
-      showError('ファイルエラー', 'バックアップファイルの読み込みに失敗しました');
+      showError('ファイルエラー', error instanceof Error ? error.message : 'バックアップファイルの読み込みに失敗しました');
     } finally {
       setIsImporting(false);
       // Reset file input
@@ -82,7 +153,7 @@ export const BackupRestorePanel: React.FC = () => {
 
     try {
       setIsImporting(true);
-      const result = await importBackupFromFile(new File([JSON.stringify(backupPreview)], 'backup.json'));
+      const result = await restoreFromBackupChain(backupChain, resolutions, 'keep-local');
       
       setRestoreResult(result);
       
@@ -105,6 +176,16 @@ export const BackupRestorePanel: React.FC = () => {
   };
 
 
+  const handleResolutionChange = (keys: string[], resolution: ConflictResolution) => {
+    setResolutions(prev => {
+      const next = { ...prev };
+      keys.forEach(key => {
+        next[key] = resolution;
+      });
+      return next;
+    });
+  };
+
   const formatDateTime = (isoString: string) => {
     return new Date(isoString).toLocaleString('ja-JP');
   };
@@ -131,15 +212,16 @@ export const BackupRestorePanel: React.FC = () => {
               バックアップ
             </h3>
             <p className="text-sm text-blue-700 mb-4">
-              全ての企業データ、MVV情報、Embeddings、ビジネスアイデアを一括エクスポート
+              全ての企業データ、MVV情報、Embeddings、ビジネスアイデアを一括エクスポート。
+              差分は直近のフルバックアップ以降、増分は前回のバックアップ以降に変更されたデータのみを含みます。
             </p>
-            <div className="flex space-x-3">
+            <div className="flex flex-wrap gap-3">
               <Button
-                onClick={handleExport}
-                disabled={isExporting}
+                onClick={() => handleExport('full')}
+                disabled={isExporting !== null || passphraseError !== null}
                 className="bg-blue-600 hover:bg-blue-700"
               >
-                {isExporting ? (
+                {isExporting === 'full' ? (
                   <>
                     <Clock className="mr-2 h-4 w-4 animate-spin" />
                     エクスポート中...
@@ -151,7 +233,59 @@ export const BackupRestorePanel: React.FC = () => {
                   </>
                 )}
               </Button>
+              {(['differential', 'incremental'] as const).map(mode => (
+                <Button
+                  key={mode}
+                  variant="outline"
+                  onClick={() => handleExport(mode)}
+                  disabled={isExporting !== null || !hasFullBackup || passphraseError !== null}
+                  loading={isExporting === mode}
+                >
+                  <Layers className="mr-2 h-4 w-4" />
+                  {BACKUP_MODE_LABELS[mode]}バックアップ
+                </Button>
+              ))}
+            </div>
+            <div className="mt-4">
+              <label className="flex items-center text-sm text-blue-900">
+                <input
+                  type="checkbox"
+                  checked={encryptBackup}
+                  onChange={(e) => setEncryptBackup(e.target.checked)}
+                  className="mr-2"
+                />
+                <Lock className="mr-1 h-4 w-4" />
+                パスフレーズで暗号化（AES-GCM）
+              </label>
+              {encryptBackup && (
+                <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <input
+                    type="password"
+                    value={exportPassphrase}
+                    onChange={(e) => setExportPassphrase(e.target.value)}
+                    placeholder="パスフレーズ"
+                    autoComplete="new-password"
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                  <input
+                    type="password"
+                    value={exportPassphraseConfirm}
+                    onChange={(e) => setExportPassphraseConfirm(e.target.value)}
+                    placeholder="パスフレーズ（確認）"
+                    autoComplete="new-password"
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                  <p className={`text-xs sm:col-span-2 ${passphraseError ? 'text-red-600' : 'text-blue-700'}`}>
+                    {passphraseError ?? 'パスフレーズを忘れるとバックアップを復元できません。安全な場所に保管してください。'}
+                  </p>
+                </div>
+              )}
             </div>
+            <p className="text-xs text-blue-700 mt-3">
+              {latestBackup
+                ? `前回のバックアップ: ${formatDateTime(latestBackup.createdAt)}（${BACKUP_MODE_LABELS[latestBackup.mode]} #${latestBackup.sequence}）`
+                : '差分・増分バックアップを作成するには、先にフルバックアップを作成してください'}
+            </p>
           </div>
 
           {/* Restore Section */}
@@ -162,6 +296,7 @@ export const BackupRestorePanel: React.FC = () => {
             </h3>
             <p className="text-sm text-green-700 mb-4">
               バックアップファイルから企業データを復元。ファイル選択後にデータ統計を確認してからリストア実行できます。
+              差分・増分バックアップはフルバックアップと一緒に複数選択してください。
             </p>
             <div className="flex space-x-3">
               <Button
@@ -185,6 +320,7 @@ export const BackupRestorePanel: React.FC = () => {
                 ref={fileInputRef}
                 type="file"
                 accept=".json"
+                multiple
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -200,7 +336,7 @@ export const BackupRestorePanel: React.FC = () => {
                   重要な注意事項
                 </h4>
                 <ul className="text-sm text-yellow-700 space-y-1">
-                  <li>• リストア時は企業名とWebsite URLで突合して上書きします</li>
+                  <li>• リストア時は企業名とWebsite URLで突合し、競合はプレビューで選んだ方法で解決します</li>
                   <li>• Embeddingsデータは貴重なAI処理結果のため、必ず事前にバックアップを取ってください</li>
                   <li>• 大量データの場合、処理に時間がかかる場合があります</li>
                 </ul>
@@ -216,6 +352,9 @@ export const BackupRestorePanel: React.FC = () => {
         onClose={() => {
           setShowRestoreModal(false);
           setBackupPreview(null);
+          setBackupChain([]);
+          setRestorePreview(null);
+          setResolutions({});
           setRestoreResult(null);
         }}
         title={restoreResult ? "リストア結果" : "バックアップ詳細"}
@@ -250,6 +389,10 @@ export const BackupRestorePanel: React.FC = () => {
                   <span className="text-gray-600">新規作成:</span>
                   <span className="ml-2 font-medium text-green-600">{restoreResult.stats.created}</span>
                 </div>
+                <div>
+                  <span className="text-gray-600">スキップ:</span>
+                  <span className="ml-2 font-medium text-gray-600">{restoreResult.stats.skipped}</span>
+                </div>
                 <div>
                   <span className="text-gray-600">エラー:</span>
                   <span className="ml-2 font-medium text-red-600">{restoreResult.stats.errors}</span>
@@ -333,6 +476,28 @@ export const BackupRestorePanel: React.FC = () => {
               </div>
             </div>
 
+            {backupChain.length > 1 && (
+              <div className="bg-indigo-50 rounded-lg p-4">
+                <h4 className="font-medium text-indigo-900 mb-3 flex items-center">
+                  <Layers className="mr-2 h-4 w-4" />
+                  リストアチェーン（{backupChain.length}ファイルを順に適用）
+                </h4>
+                <ol className="space-y-1 text-sm">
+                  {backupChain.map(backup => (
+                    <li key={backup.manifest!.backupId} className="flex justify-between">
+                      <span>
+                        #{backup.manifest!.sequence} {BACKUP_MODE_LABELS[backup.manifest!.mode]}
+                        <span className="text-gray-500 ml-2">{formatDateTime(backup.timestamp)}</span>
+                      </span>
+                      <span className="text-gray-600">
+                        企業 {backup.companies.length} / MVV {backup.mvvData.length} / アイデア {backup.businessIdeas.length}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
             <div className="bg-blue-50 rounded-lg p-4">
               <h4 className="font-medium text-blue-900 mb-3 flex items-center">
                 <Target className="mr-2 h-4 w-4" />
@@ -354,6 +519,13 @@ export const BackupRestorePanel: React.FC = () => {
                   <span className="text-gray-600">Embeddings生成済み:</span>
                   <span className="ml-2 font-medium">{backupPreview.stats.companiesWithEmbeddings}</span>
                 </div>
+                {backupPreview.stats.companiesWithFieldEmbeddings !== undefined && (
+                  <div className="flex items-center">
+                    <Layers className="mr-2 h-4 w-4 text-purple-600" />
+                    <span className="text-gray-600">項目別Embeddings:</span>
+                    <span className="ml-2 font-medium">{backupPreview.stats.companiesWithFieldEmbeddings}</span>
+                  </div>
+                )}
                 <div className="flex items-center">
                   <CheckCircle className="mr-2 h-4 w-4 text-green-600" />
                   <span className="text-gray-600">完全完了:</span>
@@ -417,6 +589,23 @@ export const BackupRestorePanel: React.FC = () => {
               )}
             </div>
 
+            {restorePreview && (
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2 flex items-center">
+                  <GitCompare className="mr-2 h-4 w-4" />
+                  リストアプレビュー
+                </h4>
+                <p className="text-xs text-gray-600 mb-3">
+                  リストア前にローカルデータと突合した結果です。競合レコードは既定でローカルを維持します。
+                </p>
+                <RestorePreviewPanel
+                  preview={restorePreview}
+                  resolutions={resolutions}
+                  onResolutionChange={handleResolutionChange}
+                />
+              </div>
+            )}
+
             <div className="flex justify-end space-x-3">
               <Button
                 variant="outline"
@@ -445,6 +634,50 @@ export const BackupRestorePanel: React.FC = () => {
           </div>
         ) : null}
       </Modal>
+
+      {/* Passphrase Prompt Modal */}
+      <Modal
+        isOpen={passphrasePrompt !== null}
+        onClose={() => closePassphrasePrompt(null)}
+        title="暗号化されたバックアップ"
+        size="sm"
+      >
+        {passphrasePrompt && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              closePassphrasePrompt(promptPassphrase);
+            }}
+            className="space-y-4"
+          >
+            <p className="text-sm text-gray-700">
+              <span className="font-medium">{passphrasePrompt.fileName}</span> は暗号化されています。
+              パスフレーズを入力してください。
+            </p>
+            <input
+              type="password"
+              value={promptPassphrase}
+              onChange={(e) => setPromptPassphrase(e.target.value)}
+              placeholder="パスフレーズ"
+              autoComplete="current-password"
+              autoFocus
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            {passphrasePrompt.previousError && (
+              <p className="text-sm text-red-600">{passphrasePrompt.previousError}</p>
+            )}
+            <div className="flex justify-end space-x-3">
+              <Button type="button" variant="outline" onClick={() => closePassphrasePrompt(null)}>
+                キャンセル
+              </Button>
+              <Button type="submit" disabled={promptPassphrase.length === 0}>
+                <Lock className="mr-2 h-4 w-4" />
+                復号
+              </Button>
+            </div>
+          </form>
+        )}
+      </Modal>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import type {
+  ConflictResolution,
+  RestorePreview,
+  RestorePreviewEntry,
+  RestoreRecordStatus,
+  RestoreRecordType,
+  RestoreResolutions
+} from '../../services/backupRestore';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+interface RestorePreviewPanelProps {
+  preview: RestorePreview;
+  resolutions: RestoreResolutions;
+  onResolutionChange: (keys: string[], resolution: ConflictResolution) => void;
+}
+
+const RECORD_TYPE_LABELS: Record<RestoreRecordType, string> = {
+  companies: '企業',
+  mvvData: 'MVV',
+  companyInfo: '企業情報',
+  businessIdeas: 'アイデア'
+};
+
+const STATUS_LABELS: Record<RestoreRecordStatus, { label: string; className: string }> = {
+  new: { label: '新規', className: 'bg-green-100 text-green-800' },
+  identical: { label: '同一', className: 'bg-gray-100 text-gray-600' },
+  conflict: { label: '競合', className: 'bg-amber-100 text-amber-800' }
+};
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  'keep-local': 'ローカルを維持',
+  'take-backup': 'バックアップを採用',
+  'newest-wins': '新しい方を優先'
+};
+
+const formatTimestamp = (iso?: string) => iso ? new Date(iso).toLocaleString('ja-JP') : '—';
+
+const ConflictRow: React.FC<{
+  entry: RestorePreviewEntry;
+  resolution: ConflictResolution;
+  onChange: (resolution: ConflictResolution) => void;
+}> = ({ entry, resolution, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="px-3 py-2">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center text-sm text-gray-900 min-w-0 text-left"
+        >
+          {expanded ? <ChevronDown className="w-4 h-4 mr-1 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 mr-1 flex-shrink-0" />}
+          <span className="truncate">{entry.label}</span>
+          <span className="ml-2 text-xs text-gray-500 flex-shrink-0">{entry.diffs.length}項目の差分</span>
+        </button>
+        <select
+          value={resolution}
+          onChange={(e) => onChange(e.target.value as ConflictResolution)}
+          className="text-xs border border-gray-300 rounded px-2 py-1 flex-shrink-0"
+        >
+          {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(option => (
+            <option key={option} value={option}>{RESOLUTION_LABELS[option]}</option>
+          ))}
+        </select>
+      </div>
+
+      {expanded && (
+        <div className="mt-2 ml-5">
+          <div className="text-xs text-gray-500 mb-1">
+            ローカル更新: {formatTimestamp(entry.localTimestamp)} / バックアップ: {formatTimestamp(entry.backupTimestamp)}
+          </div>
+          <table className="w-full text-xs border border-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-2 py-1 text-left font-medium text-gray-700 w-1/5">項目</th>
+                <th className="px-2 py-1 text-left font-medium text-gray-700">ローカル</th>
+                <th className="px-2 py-1 text-left font-medium text-gray-700">バックアップ</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {entry.diffs.map(diff => (
+                <tr key={diff.field} className="align-top">
+                  <td className="px-2 py-1 font-mono text-gray-600">{diff.field}</td>
+                  <td className="px-2 py-1 text-red-800 bg-red-50 break-all whitespace-pre-wrap">{diff.local || '（なし）'}</td>
+                  <td className="px-2 py-1 text-green-800 bg-green-50 break-all whitespace-pre-wrap">{diff.backup || '（なし）'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * リストアのドライラン結果（新規・同一・競合）と競合の解決方法の選択
+ */
+export const RestorePreviewPanel: React.FC<RestorePreviewPanelProps> = ({
+  preview,
+  resolutions,
+  onResolutionChange
+}) => {
+  const [selectedType, setSelectedType] = useState<RestoreRecordType>('companies');
+  const [statusFilter, setStatusFilter] = useState<RestoreRecordStatus | 'all'>('conflict');
+
+  const visibleEntries = useMemo(() => preview.entries.filter(entry =>
+    entry.type === selectedType && (statusFilter === 'all' || entry.status === statusFilter)
+  ), [preview.entries, selectedType, statusFilter]);
+
+  const visibleConflictKeys = visibleEntries
+    .filter(entry => entry.status === 'conflict')
+    .map(entry => entry.key);
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      {/* Record type tabs */}
+      <div className="flex border-b border-gray-200">
+        {(Object.keys(RECORD_TYPE_LABELS) as RestoreRecordType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => setSelectedType(type)}
+            className={`flex-1 px-3 py-2 text-sm ${
+              selectedType === type ? 'border-b-2 border-blue-500 text-blue-600 font-medium' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {RECORD_TYPE_LABELS[type]}
+            {preview.counts[type].conflict > 0 && (
+              <span className="ml-1 text-xs text-amber-700">({preview.counts[type].conflict})</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Status summary & filter */}
+      <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-gray-50 text-xs">
+        <div className="flex items-center gap-2">
+          {(['all', 'conflict', 'new', 'identical'] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-2 py-0.5 rounded-full ${
+                statusFilter === status ? 'ring-2 ring-blue-400' : ''
+              } ${status === 'all' ? 'bg-white text-gray-700' : STATUS_LABELS[status].className}`}
+            >
+              {status === 'all'
+                ? `すべて ${preview.entries.filter(e => e.type === selectedType).length}`
+                : `${STATUS_LABELS[status].label} ${preview.counts[selectedType][status]}`}
+            </button>
+          ))}
+        </div>
+        {visibleConflictKeys.length > 0 && (
+          <div className="flex items-center gap-1">
+            <span className="text-gray-600">表示中の競合を一括:</span>
+            {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+              <button
+                key={resolution}
+                onClick={() => onResolutionChange(visibleConflictKeys, resolution)}
+                className="px-2 py-0.5 border border-gray-300 rounded bg-white hover:bg-gray-100"
+              >
+                {RESOLUTION_LABELS[resolution]}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Entries */}
+      <div className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+        {visibleEntries.length === 0 ? (
+          <div className="px-3 py-6 text-center text-sm text-gray-500">該当するレコードはありません</div>
+        ) : (
+          visibleEntries.map(entry => entry.status === 'conflict' ? (
+            <ConflictRow
+              key={entry.key}
+              entry={entry}
+              resolution={resolutions[entry.key] ?? 'keep-local'}
+              onChange={(resolution) => onResolutionChange([entry.key], resolution)}
+            />
+          ) : (
+            <div key={entry.key} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span className="truncate text-gray-900">{entry.label}</span>
+              <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${STATUS_LABELS[entry.status].className}`}>
+                {STATUS_LABELS[entry.status].label}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -4,11 +4,14 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { Button, ProgressBar, LoadingSpinner } from '../common';
+import { Button, ProgressBar, LoadingSpinner, CostEstimateDialog } from '../common';
 import { Database, Download, AlertCircle, CheckCircle, Play, Square, RefreshCw } from 'lucide-react';
 import { bulkCompanyInfoExtractor, type BulkExtractionProgress, type BulkExtractionResult } from '../../services/bulkCompanyInfoExtractor';
 import { companyInfoAnalyzer, type CompanyInfoAnalytics } from '../../services/companyInfoAnalyzer';
+import { companyInfoMigrationService } from '../../services/dataMigration';
+import type { PlannedJob } from '../../services/costEstimator';
 import { useNotification } from '../../hooks/useNotification';
+import { useCostEstimate } from '../../hooks/useCostEstimate';
 
 export const BulkCompanyInfoExtractor: React.FC = () => {
   const [analytics, setAnalytics] = useState<CompanyInfoAnalytics | null>(null);
@@ -19,6 +22,7 @@ export const BulkCompanyInfoExtractor: React.FC = () => {
   const [showDetails, setShowDetails] = useState(false);
   
   const { success, error, info } = useNotification();
+  const costEstimate = useCostEstimate();
 
   // 初期分析の実行
   useEffect(() => {
@@ -44,6 +48,31 @@ export const BulkCompanyInfoExtractor: React.FC = () => {
     }
   };
 
+  // 開始前に見積もりを表示
+  const requestStart = async () => {
+    if (!analytics || analytics.missingCompanyInfo === 0) {
+      info('抽出が必要な企業がありません');
+      return;
+    }
+
+    try {
+      const companies = await companyInfoAnalyzer.getCompaniesNeedingCompanyInfo();
+      const jobs: PlannedJob[] = companies.map(company => ({
+        provider: 'perplexity',
+        calls: [{ operation: 'extract-company-info', request: companyInfoMigrationService.buildExtractionRequest(company) }]
+      }));
+      costEstimate.requestEstimate(jobs);
+    } catch (err) {
+      console.error('見積もり対象の取得エラー:', err);
+      error('抽出対象の企業を取得できませんでした');
+    }
+  };
+
+  const confirmStart = () => {
+    costEstimate.close();
+    startBulkExtraction();
+  };
+
   const startBulkExtraction = async () => {
     if (!analytics || analytics.missingCompanyInfo === 0) {
       info('抽出が必要な企業がありません');
@@ -249,7 +278,7 @@ export const BulkCompanyInfoExtractor: React.FC = () => {
           <div className="flex justify-center">
             {analytics.missingCompanyInfo > 0 ? (
               <Button
-                onClick={isExtracting ? stopExtraction : startBulkExtraction}
+                onClick={isExtracting ? stopExtraction : requestStart}
                 disabled={isAnalyzing}
                 className={isExtracting ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}
               >
@@ -368,6 +397,16 @@ export const BulkCompanyInfoExtractor: React.FC = () => {
           )}
         </div>
       )}
+
+      <CostEstimateDialog
+        isOpen={costEstimate.isOpen}
+        title={`一括企業情報抽出の見積もり（${analytics?.missingCompanyInfo ?? 0}社）`}
+        estimate={costEstimate.estimate}
+        isEstimating={costEstimate.isEstimating}
+        error={costEstimate.error}
+        onConfirm={confirmStart}
+        onCancel={costEstimate.close}
+      />
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,34 +1,63 @@
-import React, { useState, useCallback } from 'react';
-import Papa from 'papaparse';
-import type { CompanyImportData } from '../../types';
+import React, { useState, useCallback, useMemo } from 'react';
+import type { Company, CompanyImportData } from '../../types';
 import { Button, Modal } from '../common';
-import { validateCSVHeaders, sanitizeInput } from '../../utils/validators';
-import { CONSTANTS } from '../../utils/constants';
-import { Upload, Download, AlertCircle, CheckCircle } from 'lucide-react';
+import {
+  companyImportService,
+  suggestMapping,
+  ENCODING_LABELS,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  REQUIRED_IMPORT_FIELDS,
+  type ColumnMapping,
+  type ImportEncoding,
+  type ImportMappingTemplate,
+  type ImportPreview,
+  type ImportRowStatus,
+  type ImportTable
+} from '../../services/companyImport';
+import { Upload, Download, AlertCircle, CheckCircle, ArrowLeft, ArrowRight, Save, Trash2 } from 'lucide-react';
 
 interface CSVImporterProps {
   isOpen: boolean;
   onClose: () => void;
-  onImport: (companies: CompanyImportData[]) => Promise<{ 
-    imported: number; 
-    skipped: number; 
-    duplicates: Array<{ name: string; website: string }> 
+  onImport: (companies: CompanyImportData[]) => Promise<{
+    imported: number;
+    skipped: number;
+    duplicates: Array<{ name: string; website: string }>
   }>;
+  existingCompanies: Company[];
   loading?: boolean;
 }
 
+type WizardStep = 'upload' | 'mapping' | 'preview';
+type PreviewFilter = 'all' | ImportRowStatus;
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  new: { label: '新規', className: 'bg-green-100 text-green-700' },
+  duplicate: { label: '重複', className: 'bg-yellow-100 text-yellow-800' },
+  invalid: { label: '不正', className: 'bg-red-100 text-red-700' }
+};
+
+const MAX_PREVIEW_ROWS = 200;
+const SAMPLE_ROWS = 3;
+
 export const CSVImporter: React.FC<CSVImporterProps> = ({
   isOpen,
   onClose,
   onImport,
+  existingCompanies,
   loading = false
 }) => {
+  const [step, setStep] = useState<WizardStep>('upload');
   const [dragActive, setDragActive] = useState(false);
-  const [parseResult, setParseResult] = useState<{
-    data: CompanyImportData[];
-    errors: string[];
-    warnings: string[];
-  } | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [encodingOverride, setEncodingOverride] = useState<ImportEncoding | 'auto'>('auto');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [templates, setTemplates] = useState<ImportMappingTemplate[]>(() => companyImportService.getTemplates());
+  const [templateName, setTemplateName] = useState('');
+  const [previewFilter, setPreviewFilter] = useState<PreviewFilter>('all');
+  const [readError, setReadError] = useState<string | null>(null);
   const [importResult, setImportResult] = useState<{
     imported: number;
     skipped: number;
@@ -48,88 +77,29 @@ export const CSVImporter: React.FC<CSVImporterProps> = ({
     URL.revokeObjectURL(link.href);
   }, []);
 
-  const processCSV = useCallback((file: File) => {
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      encoding: 'UTF-8',
-      complete: (results) => {
-        const errors: string[] = [];
-        const warnings: string[] = [];
-        const validData: CompanyImportData[] = [];
-
-        // Check headers
-        const headers = results.meta.fields || [];
-        if (!validateCSVHeaders(headers)) {
-          errors.push('CSVファイルに必要なヘッダー（name, website, category）が含まれていません');
-          setParseResult({ data: [], errors, warnings });
-          return;
-        }
-
-        // Process data
-        results.data.forEach((row: any, index: number) => {
-          const rowNum = index + 2; // +2 for header and 0-based index
-          
-          const name = sanitizeInput(row.name || '').trim();
-          const website = sanitizeInput(row.website || '').trim();
-          const category = sanitizeInput(row.category || '').trim();
-          const notes = row.notes ? sanitizeInput(row.notes).trim() : undefined;
-
-          // Validate required fields
-          if (!name) {
-            errors.push(`行 ${rowNum}: 企業名が空です`);
-            return;
-          }
-          if (!website) {
-            errors.push(`行 ${rowNum}: ウェブサイトが空です`);
-            return;
-          }
-          if (!category) {
-            errors.push(`行 ${rowNum}: カテゴリーが空です`);
-            return;
-          }
-
-          // Validate URL format
-          try {
-            new URL(website);
-          } catch {
-            errors.push(`行 ${rowNum}: 無効なURL形式です - ${website}`);
-            return;
-          }
-
-          // Validate category
-          if (!CONSTANTS.COMPANY_CATEGORIES.includes(category as any)) {
-            warnings.push(`行 ${rowNum}: 未知のカテゴリー「${category}」が使用されています`);
-          }
-
-          // Check for duplicates in current import
-          const duplicate = validData.find(item => 
-            item.name === name || item.website === website
-          );
-          if (duplicate) {
-            warnings.push(`行 ${rowNum}: 重複する企業です - ${name}`);
-          }
-
-          validData.push({
-            name,
-            website,
-            category,
-            notes
-          });
-        });
-
-        setParseResult({ data: validData, errors, warnings });
-      },
-      error: (error) => {
-        setParseResult({
-          data: [],
-          errors: [`CSVファイルの解析に失敗しました: ${error.message}`],
-          warnings: []
-        });
+  const readFile = useCallback(async (target: File, encoding: ImportEncoding | 'auto') => {
+    setReadError(null);
+    try {
+      const result = await companyImportService.readFile(target, encoding === 'auto' ? undefined : encoding);
+      if (result.headers.length === 0 || result.rows.length === 0) {
+        setReadError('ヘッダー行とデータ行を含むファイルを選択してください');
+        return;
       }
-    });
+      setFile(target);
+      setTable(result);
+      // 同じ列構成のファイルを読み直した場合は対応付けを引き継ぐ
+      setMapping(prev => prev && IMPORT_FIELDS.every(field => !prev[field] || result.headers.includes(prev[field]!))
+        ? prev
+        : suggestMapping(result.headers));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Import file read failed:', error);
+      setReadError(error instanceof Error ? error.message : 'ファイルの読み込みに失敗しました');
+    }
   }, []);
 
+  const isSupportedFile = (target: File) => /\.(csv|xlsx)$/i.test(target.name) || target.type === 'text/csv';
+
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -145,223 +115,418 @@ export const CSVImporter: React.FC<CSVImporterProps> = ({
     e.stopPropagation();
     setDragActive(false);
 
-    const files = Array.from(e.dataTransfer.files);
-    const csvFile = files.find(file => file.type === 'text/csv' || file.name.endsWith('.csv'));
-    
-    if (csvFile) {
-      processCSV(csvFile);
+    const dropped = Array.from(e.dataTransfer.files).find(isSupportedFile);
+    if (dropped) {
+      readFile(dropped, encodingOverride);
     } else {
-      setParseResult({
-        data: [],
-        errors: ['CSVファイルを選択してください'],
-        warnings: []
-      });
+      setReadError('CSVまたはExcel（.xlsx）ファイルを選択してください');
     }
-  }, [processCSV]);
+  }, [readFile, encodingOverride]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      processCSV(file);
+    const selected = e.target.files?.[0];
+    if (selected) {
+      readFile(selected, encodingOverride);
+    }
+    e.target.value = '';
+  }, [readFile, encodingOverride]);
+
+  const handleEncodingChange = (encoding: ImportEncoding | 'auto') => {
+    setEncodingOverride(encoding);
+    if (file && table?.sourceType === 'csv') {
+      readFile(file, encoding);
     }
-  }, [processCSV]);
+  };
+
+  const handleSaveTemplate = () => {
+    if (!mapping || !templateName.trim()) return;
+    setTemplates(companyImportService.saveTemplate(templateName.trim(), mapping));
+    setTemplateName('');
+  };
+
+  const handleApplyTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (template && table) {
+      setMapping(companyImportService.applyTemplate(template, table.headers));
+    }
+  };
+
+  const preview: ImportPreview | null = useMemo(() => {
+    if (step !== 'preview' || !table || !mapping) return null;
+    return companyImportService.buildPreview(table, mapping, existingCompanies);
+  }, [step, table, mapping, existingCompanies]);
+
+  const filteredRows = preview
+    ? preview.rows.filter(row => previewFilter === 'all' || row.status === previewFilter)
+    : [];
+  const mappingComplete = !!mapping && REQUIRED_IMPORT_FIELDS.every(field => !!mapping[field]);
+
+  const cellValue = (row: string[], field: keyof CompanyImportData) => {
+    const header = mapping?.[field];
+    const index = header && table ? table.headers.indexOf(header) : -1;
+    return index >= 0 ? row[index] : '';
+  };
 
   const handleImport = async () => {
-    if (parseResult?.data.length) {
-      try {
-        const result = await onImport(parseResult.data);
-        setImportResult(result);
-        setParseResult(null);
-      } catch (error) {
-        console.error('Import failed:', error);
-      }
+    if (!preview || preview.counts.new === 0) return;
+    try {
+      const result = await onImport(preview.rows.filter(row => row.status === 'new').map(row => row.data));
+      setImportResult(result);
+    } catch (error) {
+      console.error('Import failed:', error);
     }
   };
 
   const handleClose = () => {
-    setParseResult(null);
+    setStep('upload');
+    setFile(null);
+    setTable(null);
+    setMapping(null);
+    setReadError(null);
+    setPreviewFilter('all');
     setImportResult(null);
     onClose();
   };
 
-  return (
-    <Modal
-      isOpen={isOpen}
-      onClose={handleClose}
-      title="CSV一括インポート"
-      size="lg"
-    >
-      <div className="space-y-4">
-        {/* Template Download */}
-        <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
-          <div className="flex items-center justify-between">
-            <div>
-              <h4 className="text-sm font-medium text-blue-900">CSVテンプレート</h4>
-              <p className="text-sm text-blue-700 mt-1">
-                正しい形式でファイルを作成するためのテンプレートをダウンロードできます
-              </p>
-            </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={downloadTemplate}
-            >
-              <Download className="w-4 h-4 mr-2" />
-              テンプレート
-            </Button>
+  const renderUpload = () => (
+    <>
+      {/* Template Download */}
+      <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-sm font-medium text-blue-900">CSVテンプレート</h4>
+            <p className="text-sm text-blue-700 mt-1">
+              列名が異なるファイル（「会社名」「URL」など）も次の画面で項目を対応付けて取り込めます
+            </p>
           </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={downloadTemplate}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            テンプレート
+          </Button>
+        </div>
+      </div>
+
+      {/* File Upload Area */}
+      <div
+        className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+          dragActive
+            ? 'border-blue-400 bg-blue-50'
+            : 'border-gray-300 hover:border-gray-400'
+        }`}
+        onDragEnter={handleDrag}
+        onDragLeave={handleDrag}
+        onDragOver={handleDrag}
+        onDrop={handleDrop}
+      >
+        <Upload className="mx-auto h-12 w-12 text-gray-400" />
+        <div className="mt-4">
+          <label htmlFor="csv-upload" className="cursor-pointer">
+            <span className="text-sm font-medium text-blue-600 hover:text-blue-500">
+              ファイルを選択
+            </span>
+            <span className="text-sm text-gray-600"> またはドラッグ&ドロップ</span>
+            <input
+              id="csv-upload"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileInput}
+              className="sr-only"
+            />
+          </label>
         </div>
+        <p className="text-xs text-gray-500 mt-2">CSV（UTF-8・Shift_JIS・EUC-JP）とExcel（.xlsx）に対応</p>
+      </div>
 
-        {/* File Upload Area */}
-        <div
-          className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
-            dragActive 
-              ? 'border-blue-400 bg-blue-50' 
-              : 'border-gray-300 hover:border-gray-400'
-          }`}
-          onDragEnter={handleDrag}
-          onDragLeave={handleDrag}
-          onDragOver={handleDrag}
-          onDrop={handleDrop}
+      <label className="flex items-center justify-end text-sm text-gray-700">
+        CSVの文字コード
+        <select
+          value={encodingOverride}
+          onChange={(e) => setEncodingOverride(e.target.value as ImportEncoding | 'auto')}
+          className="ml-2 px-2 py-1 border border-gray-300 rounded-md text-sm"
         >
-          <Upload className="mx-auto h-12 w-12 text-gray-400" />
-          <div className="mt-4">
-            <label htmlFor="csv-upload" className="cursor-pointer">
-              <span className="text-sm font-medium text-blue-600 hover:text-blue-500">
-                ファイルを選択
+          <option value="auto">自動判定</option>
+          {(Object.keys(ENCODING_LABELS) as ImportEncoding[]).map(encoding => (
+            <option key={encoding} value={encoding}>{ENCODING_LABELS[encoding]}</option>
+          ))}
+        </select>
+      </label>
+    </>
+  );
+
+  const renderMapping = () => table && mapping && (
+    <>
+      <div className="flex items-center justify-between text-sm text-gray-700">
+        <div>
+          <span className="font-medium">{table.fileName}</span>
+          <span className="ml-2 text-gray-500">
+            {table.rows.length}行・{table.headers.length}列
+            {table.sheetName && `（シート: ${table.sheetName}）`}
+          </span>
+        </div>
+        {table.sourceType === 'csv' && (
+          <label className="flex items-center">
+            文字コード
+            <select
+              value={encodingOverride === 'auto' ? table.encoding : encodingOverride}
+              onChange={(e) => handleEncodingChange(e.target.value as ImportEncoding)}
+              className="ml-2 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              {(Object.keys(ENCODING_LABELS) as ImportEncoding[]).map(encoding => (
+                <option key={encoding} value={encoding}>
+                  {ENCODING_LABELS[encoding]}{encodingOverride === 'auto' && encoding === table.encoding ? '（自動判定）' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {/* 列の対応付け */}
+      <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+        {IMPORT_FIELDS.map(field => (
+          <div key={field} className="flex items-center justify-between px-3 py-2 text-sm">
+            <span className="text-gray-900 w-28">
+              {IMPORT_FIELD_LABELS[field]}
+              {REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-500 ml-1">*</span>}
+            </span>
+            <select
+              value={mapping[field] ?? ''}
+              onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || null })}
+              className="flex-1 mx-3 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">（取り込まない）</option>
+              {table.headers.map(header => (
+                <option key={header} value={header}>{header}</option>
+              ))}
+            </select>
+            <span className="w-48 text-xs text-gray-500 truncate">
+              {table.rows.slice(0, SAMPLE_ROWS).map(row => cellValue(row, field)).filter(Boolean).join(' / ') || '—'}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* 対応付けテンプレート */}
+      <div className="bg-gray-50 rounded-md p-3 space-y-2 text-sm">
+        <div className="font-medium text-gray-700">対応付けテンプレート</div>
+        {templates.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {templates.map(template => (
+              <span key={template.id} className="inline-flex items-center bg-white border border-gray-200 rounded-md">
+                <button
+                  onClick={() => handleApplyTemplate(template.id)}
+                  className="px-2 py-1 text-xs text-blue-700 hover:bg-blue-50"
+                >
+                  {template.name}
+                </button>
+                <button
+                  onClick={() => setTemplates(companyImportService.deleteTemplate(template.id))}
+                  className="px-1 py-1 text-gray-400 hover:text-red-600"
+                  title="テンプレートを削除"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
               </span>
-              <span className="text-sm text-gray-600"> またはドラッグ&ドロップ</span>
-              <input
-                id="csv-upload"
-                type="file"
-                accept=".csv"
-                onChange={handleFileInput}
-                className="sr-only"
-              />
-            </label>
+            ))}
           </div>
-          <p className="text-xs text-gray-500 mt-2">CSV形式のファイルのみ対応</p>
+        )}
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder="テンプレート名（例: 社内リストExcel）"
+            className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          />
+          <Button variant="outline" size="sm" onClick={handleSaveTemplate} disabled={!templateName.trim()}>
+            <Save className="w-4 h-4 mr-1" />
+            保存
+          </Button>
         </div>
+      </div>
+    </>
+  );
 
-        {/* Parse Results */}
-        {parseResult && (
-          <div className="space-y-3">
-            {/* Errors */}
-            {parseResult.errors.length > 0 && (
-              <div className="bg-red-50 border border-red-200 rounded-md p-3">
-                <div className="flex items-center mb-2">
-                  <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
-                  <h4 className="text-sm font-medium text-red-900">エラー</h4>
-                </div>
-                <ul className="text-sm text-red-700 space-y-1">
-                  {parseResult.errors.map((error, index) => (
-                    <li key={index}>• {error}</li>
-                  ))}
-                </ul>
-              </div>
-            )}
+  const renderPreview = () => preview && (
+    <>
+      <div className="flex flex-wrap gap-2 text-sm">
+        {(['all', 'new', 'duplicate', 'invalid'] as const).map(filter => (
+          <button
+            key={filter}
+            onClick={() => setPreviewFilter(filter)}
+            className={`px-3 py-1 rounded-md ${previewFilter === filter ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+          >
+            {filter === 'all' ? `すべて ${preview.rows.length}` : `${STATUS_STYLES[filter].label} ${preview.counts[filter]}`}
+          </button>
+        ))}
+      </div>
 
-            {/* Warnings */}
-            {parseResult.warnings.length > 0 && (
-              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
-                <div className="flex items-center mb-2">
-                  <AlertCircle className="w-5 h-5 text-yellow-600 mr-2" />
-                  <h4 className="text-sm font-medium text-yellow-900">警告</h4>
-                </div>
-                <ul className="text-sm text-yellow-700 space-y-1">
-                  {parseResult.warnings.map((warning, index) => (
-                    <li key={index}>• {warning}</li>
-                  ))}
-                </ul>
-              </div>
-            )}
+      <div className="border border-gray-200 rounded-md max-h-80 overflow-y-auto">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50 text-gray-500 sticky top-0">
+            <tr>
+              <th className="px-2 py-2 text-left font-medium">行</th>
+              <th className="px-2 py-2 text-left font-medium">状態</th>
+              <th className="px-2 py-2 text-left font-medium">企業名 / ウェブサイト</th>
+              <th className="px-2 py-2 text-left font-medium">詳細</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {filteredRows.slice(0, MAX_PREVIEW_ROWS).map(row => (
+              <tr key={row.rowNumber}>
+                <td className="px-2 py-1.5 text-gray-500">{row.rowNumber}</td>
+                <td className="px-2 py-1.5">
+                  <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[row.status].className}`}>
+                    {STATUS_STYLES[row.status].label}
+                  </span>
+                </td>
+                <td className="px-2 py-1.5">
+                  <div className="text-gray-900">{row.data.name || '—'}</div>
+                  <div className="text-gray-500 truncate max-w-xs">{row.data.website || '—'}</div>
+                </td>
+                <td className="px-2 py-1.5 text-gray-600">
+                  {row.errors.map(message => <div key={message} className="text-red-600">{message}</div>)}
+                  {row.duplicateOf && (
+                    <div>
+                      {row.duplicateOf.source === 'existing' ? '登録済み' : `${row.duplicateOf.rowNumber}行目`}の「{row.duplicateOf.name}」と
+                      {row.duplicateOf.reason === 'domain'
+                        ? 'ドメインが一致'
+                        : `企業名が類似（${Math.round(row.duplicateOf.nameSimilarity * 100)}%）`}
+                    </div>
+                  )}
+                  {row.warnings.map(message => <div key={message} className="text-yellow-700">{message}</div>)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filteredRows.length > MAX_PREVIEW_ROWS && (
+          <div className="px-2 py-1.5 text-center text-xs text-gray-500">
+            他 {filteredRows.length - MAX_PREVIEW_ROWS} 行
+          </div>
+        )}
+      </div>
 
-            {/* Success */}
-            {parseResult.data.length > 0 && parseResult.errors.length === 0 && (
-              <div className="bg-green-50 border border-green-200 rounded-md p-3">
-                <div className="flex items-center">
-                  <CheckCircle className="w-5 h-5 text-green-600 mr-2" />
-                  <h4 className="text-sm font-medium text-green-900">
-                    {parseResult.data.length}件の企業データを読み込みました
-                  </h4>
-                </div>
-                
-                {/* Preview */}
-                <div className="mt-3 max-h-40 overflow-y-auto">
-                  <div className="text-xs text-green-700 space-y-1">
-                    {parseResult.data.slice(0, 5).map((company, index) => (
-                      <div key={index} className="flex justify-between">
-                        <span>{company.name}</span>
-                        <span className="text-green-600">{company.category}</span>
-                      </div>
-                    ))}
-                    {parseResult.data.length > 5 && (
-                      <div className="text-center text-green-600 font-medium">
-                        他 {parseResult.data.length - 5} 件...
-                      </div>
-                    )}
+      <p className="text-xs text-gray-500">
+        新規の行だけを取り込みます。重複・不正の行はスキップされます。
+      </p>
+    </>
+  );
+
+  const renderResult = () => importResult && (
+    <div className="space-y-3">
+      <div className="bg-green-50 border border-green-200 rounded-md p-3">
+        <div className="flex items-center mb-2">
+          <CheckCircle className="w-5 h-5 text-green-600 mr-2" />
+          <h4 className="text-sm font-medium text-green-900">インポート完了</h4>
+        </div>
+        <div className="text-sm text-green-700 space-y-1">
+          <div>✅ {importResult.imported}件の企業をインポートしました</div>
+          {preview && preview.counts.duplicate + preview.counts.invalid > 0 && (
+            <div>⚠️ プレビューで重複{preview.counts.duplicate}件・不正{preview.counts.invalid}件をスキップしました</div>
+          )}
+          {importResult.skipped > 0 && (
+            <div>⚠️ {importResult.skipped}件の企業をスキップしました（重複のため）</div>
+          )}
+        </div>
+
+        {/* Duplicate Details */}
+        {importResult.duplicates.length > 0 && (
+          <div className="mt-3">
+            <h5 className="text-xs font-medium text-green-800 mb-2">スキップされた企業（重複）:</h5>
+            <div className="max-h-32 overflow-y-auto bg-green-100 rounded p-2">
+              <div className="text-xs text-green-700 space-y-1">
+                {importResult.duplicates.map((duplicate, index) => (
+                  <div key={index} className="flex justify-between">
+                    <span className="font-medium">{duplicate.name}</span>
+                    <span className="text-green-600 truncate ml-2">{duplicate.website}</span>
                   </div>
-                </div>
+                ))}
               </div>
-            )}
+            </div>
           </div>
         )}
+      </div>
+    </div>
+  );
 
-        {/* Import Results */}
-        {importResult && (
-          <div className="space-y-3">
-            <div className="bg-green-50 border border-green-200 rounded-md p-3">
-              <div className="flex items-center mb-2">
-                <CheckCircle className="w-5 h-5 text-green-600 mr-2" />
-                <h4 className="text-sm font-medium text-green-900">インポート完了</h4>
-              </div>
-              <div className="text-sm text-green-700 space-y-1">
-                <div>✅ {importResult.imported}件の企業をインポートしました</div>
-                {importResult.skipped > 0 && (
-                  <div>⚠️ {importResult.skipped}件の企業をスキップしました（重複のため）</div>
-                )}
-              </div>
-              
-              {/* Duplicate Details */}
-              {importResult.duplicates.length > 0 && (
-                <div className="mt-3">
-                  <h5 className="text-xs font-medium text-green-800 mb-2">スキップされた企業（重複）:</h5>
-                  <div className="max-h-32 overflow-y-auto bg-green-100 rounded p-2">
-                    <div className="text-xs text-green-700 space-y-1">
-                      {importResult.duplicates.map((duplicate, index) => (
-                        <div key={index} className="flex justify-between">
-                          <span className="font-medium">{duplicate.name}</span>
-                          <span className="text-green-600 truncate ml-2">{duplicate.website}</span>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                </div>
-              )}
-            </div>
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="CSV・Excel一括インポート"
+      size="lg"
+    >
+      <div className="space-y-4">
+        {!importResult && (
+          <div className="flex items-center text-xs text-gray-500 space-x-2">
+            {(['upload', 'mapping', 'preview'] as const).map((wizardStep, index) => (
+              <span key={wizardStep} className={step === wizardStep ? 'text-blue-600 font-medium' : ''}>
+                {index + 1}. {wizardStep === 'upload' ? 'ファイル選択' : wizardStep === 'mapping' ? '列の対応付け' : '取り込み内容の確認'}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {readError && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3 flex items-center text-sm text-red-700">
+            <AlertCircle className="w-5 h-5 text-red-600 mr-2 flex-shrink-0" />
+            {readError}
           </div>
         )}
 
+        {importResult ? renderResult() : (
+          <>
+            {step === 'upload' && renderUpload()}
+            {step === 'mapping' && renderMapping()}
+            {step === 'preview' && renderPreview()}
+          </>
+        )}
+
         {/* Actions */}
-        <div className="flex justify-end space-x-3 pt-4">
-          <Button
-            variant="outline"
-            onClick={handleClose}
-            disabled={loading}
-          >
-            {importResult ? '閉じる' : 'キャンセル'}
-          </Button>
-          {!importResult && (
+        <div className="flex justify-between pt-4">
+          <div>
+            {!importResult && step !== 'upload' && (
+              <Button
+                variant="outline"
+                onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+                disabled={loading}
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                戻る
+              </Button>
+            )}
+          </div>
+          <div className="flex space-x-3">
             <Button
-              onClick={handleImport}
-              loading={loading}
-              disabled={loading || !parseResult?.data.length || parseResult.errors.length > 0}
+              variant="outline"
+              onClick={handleClose}
+              disabled={loading}
             >
-              {parseResult?.data.length || 0}件をインポート
+              {importResult ? '閉じる' : 'キャンセル'}
             </Button>
-          )}
+            {!importResult && step === 'mapping' && (
+              <Button onClick={() => setStep('preview')} disabled={!mappingComplete}>
+                確認へ
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            )}
+            {!importResult && step === 'preview' && (
+              <Button
+                onClick={handleImport}
+                loading={loading}
+                disabled={loading || !preview?.counts.new}
+              >
+                新規{preview?.counts.new || 0}件をインポート
+              </Button>
+            )}
+          </div>
         </div>
       </div>
     </Modal>
   );
-};
\ No newline at end of file
+};
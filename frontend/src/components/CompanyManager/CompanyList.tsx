@@ -3,10 +3,13 @@ import type { Company, CompanyStatus } from '../../types';
 import { CompanyCard } from './CompanyCard';
 import { CompanyForm } from './CompanyForm';
 import { CSVImporter } from './CSVImporter';
+import { DuplicateFinder } from './DuplicateFinder';
 // 一時的なマイグレーション機能（開発時のみ表示）
 import { CompanyInfoMigrationPanel } from './CompanyInfoMigrationPanel';
 import { Button, LoadingSpinner } from '../common';
 import { useCompanyStore } from '../../stores/companyStore';
+import { useMVVStore } from '../../stores/mvvStore';
+import type { MergeSelection } from '../../services/companyDeduplication';
 import { useNotification } from '../../hooks/useNotification';
 import { CONSTANTS } from '../../utils/constants';
 import { companyProcessor } from '../../services/companyProcessor';
@@ -22,7 +25,8 @@ import {
   RotateCcw,
   CheckCircle2,
   AlertCircle,
-  Database
+  Database,
+  GitMerge
 } from 'lucide-react';
 
 type ViewMode = 'grid' | 'list';
@@ -38,6 +42,7 @@ export const CompanyList: React.FC = () => {
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
   const [showCompanyForm, setShowCompanyForm] = useState(false);
   const [showCSVImporter, setShowCSVImporter] = useState(false);
+  const [showDuplicateFinder, setShowDuplicateFinder] = useState(false);
   const [editingCompany, setEditingCompany] = useState<Company | undefined>();
   // 一時的なマイグレーションパネル表示状態
   const [showMigrationPanel, setShowMigrationPanel] = useState(false);
@@ -54,8 +59,10 @@ export const CompanyList: React.FC = () => {
     updateCompany,
     deleteCompany,
     deleteAllCompanies,
+    mergeCompanies,
     clearError
   } = useCompanyStore();
+  const { loadMVVData } = useMVVStore();
 
   const { success, error: showError } = useNotification();
 
@@ -215,6 +222,21 @@ export const CompanyList: React.FC = () => {
     }
   };
 
+  const handleMergeCompanies = async (survivorId: string, duplicateId: string, selection: MergeSelection) => {
+    try {
+      const result = await mergeCompanies(survivorId, duplicateId, selection);
+      await loadMVVData();
+      success(
+        '企業を統合しました',
+        `MVV履歴${result.mvvVersions}件・アイデア${result.ideas}件・APIログ${result.apiLogs}件を付け替えました`
+      );
+      return result;
+    } catch (error) {
+      showError('統合に失敗しました', error instanceof Error ? error.message : undefined);
+      throw error;
+    }
+  };
+
   const handleDeleteAll = async () => {
     if (!confirm('全ての企業データを削除しますか？この操作は取り消せません。')) {
       return;
@@ -357,6 +379,16 @@ export const CompanyList: React.FC = () => {
               <span className="sm:hidden">移行</span>
             </Button>
           )}
+          <Button
+            variant="outline"
+            onClick={() => setShowDuplicateFinder(true)}
+            disabled={companies.length < 2}
+            className="w-full sm:w-auto"
+          >
+            <GitMerge className="w-4 h-4 mr-2" />
+            <span className="hidden sm:inline">重複チェック</span>
+            <span className="sm:hidden">重複</span>
+          </Button>
           <Button 
             variant="outline" 
             onClick={exportToCSV}
@@ -597,6 +629,15 @@ export const CompanyList: React.FC = () => {
         isOpen={showCSVImporter}
         onClose={() => setShowCSVImporter(false)}
         onImport={handleImportCompanies}
+        existingCompanies={companies}
+        loading={loading}
+      />
+
+      <DuplicateFinder
+        isOpen={showDuplicateFinder}
+        onClose={() => setShowDuplicateFinder(false)}
+        companies={companies}
+        onMerge={handleMergeCompanies}
         loading={loading}
       />
 
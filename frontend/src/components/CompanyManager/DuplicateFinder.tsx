@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Company, CompanyInfo } from '../../types';
+import { Button, LoadingSpinner, Modal } from '../common';
+import { companyInfoStorage } from '../../services/storage';
+import {
+  companyDeduplicationService,
+  MERGE_FIELD_LABELS,
+  type DuplicateCandidate,
+  type MergeField,
+  type MergeResult,
+  type MergeSelection
+} from '../../services/companyDeduplication';
+import { ArrowLeft, CheckCircle, GitMerge, XCircle } from 'lucide-react';
+
+interface DuplicateFinderProps {
+  isOpen: boolean;
+  onClose: () => void;
+  companies: Company[];
+  onMerge: (survivorId: string, duplicateId: string, selection: MergeSelection) => Promise<MergeResult>;
+  loading?: boolean;
+}
+
+interface MergeDraft {
+  candidate: DuplicateCandidate;
+  survivor: Company;
+  duplicate: Company;
+  infos: Map<string, CompanyInfo | undefined>;
+  selection: MergeSelection;
+}
+
+const MERGE_FIELDS: MergeField[] = ['name', 'website', 'category', 'notes', 'mvv', 'companyInfo'];
+
+// MVVやEmbeddingsを持つ方、同程度なら先に登録された方を統合先の初期値にする
+const completeness = (company: Company) =>
+  (company.embeddings ? 2 : 0) + (company.mission || company.vision || company.values ? 1 : 0);
+
+const pickSurvivor = (a: Company, b: Company): [Company, Company] => {
+  const diff = completeness(b) - completeness(a);
+  if (diff > 0 || (diff === 0 && b.createdAt.getTime() < a.createdAt.getTime())) return [b, a];
+  return [a, b];
+};
+
+const defaultSelection = (survivor: Company, duplicate: Company, infos: Map<string, CompanyInfo | undefined>): MergeSelection => ({
+  name: 'survivor',
+  website: 'survivor',
+  category: !survivor.category && duplicate.category ? 'duplicate' : 'survivor',
+  notes: !survivor.notes && duplicate.notes ? 'duplicate' : 'survivor',
+  mvv: completeness(duplicate) > completeness(survivor) ? 'duplicate' : 'survivor',
+  companyInfo: !infos.get(survivor.id) && infos.get(duplicate.id) ? 'duplicate' : 'survivor'
+});
+
+const describeField = (field: MergeField, company: Company, info: CompanyInfo | undefined): string => {
+  switch (field) {
+    case 'name':
+      return company.name;
+    case 'website':
+      return company.website;
+    case 'category':
+      return company.category || '—';
+    case 'notes':
+      return company.notes || '—';
+    case 'mvv':
+      return company.mission
+        ? `${company.mission}${company.embeddings ? '（Embeddingsあり）' : ''}`
+        : company.embeddings ? 'Embeddingsのみ' : '未抽出';
+    case 'companyInfo':
+      if (!info) return 'なし';
+      return [
+        info.stockCode && `証券コード ${info.stockCode}`,
+        info.employeeCount && `従業員 ${info.employeeCount.toLocaleString()}名`,
+        info.headquartersLocation
+      ].filter(Boolean).join(' / ') || '登録あり';
+  }
+};
+
+export const DuplicateFinder: React.FC<DuplicateFinderProps> = ({
+  isOpen,
+  onClose,
+  companies,
+  onMerge,
+  loading = false
+}) => {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [draft, setDraft] = useState<MergeDraft | null>(null);
+
+  const scan = useCallback(async () => {
+    setScanning(true);
+    try {
+      setCandidates(await companyDeduplicationService.findDuplicates(companies));
+    } catch (error) {
+      console.error('Duplicate scan failed:', error);
+    } finally {
+      setScanning(false);
+    }
+  }, [companies]);
+
+  useEffect(() => {
+    if (isOpen && !draft) {
+      scan();
+    }
+  }, [isOpen, draft, scan]);
+
+  const openMerge = async (candidate: DuplicateCandidate) => {
+    const [survivor, duplicate] = pickSurvivor(candidate.companyA, candidate.companyB);
+    const infos = new Map<string, CompanyInfo | undefined>([
+      [survivor.id, await companyInfoStorage.getByCompanyId(survivor.id)],
+      [duplicate.id, await companyInfoStorage.getByCompanyId(duplicate.id)]
+    ]);
+    setDraft({ candidate, survivor, duplicate, infos, selection: defaultSelection(survivor, duplicate, infos) });
+  };
+
+  const swapSurvivor = () => {
+    if (!draft) return;
+    const { survivor, duplicate, infos } = draft;
+    setDraft({ ...draft, survivor: duplicate, duplicate: survivor, selection: defaultSelection(duplicate, survivor, infos) });
+  };
+
+  const chooseSide = (field: MergeField, companyId: string) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      selection: { ...draft.selection, [field]: companyId === draft.survivor.id ? 'survivor' : 'duplicate' }
+    });
+  };
+
+  const handleDismiss = (candidate: DuplicateCandidate) => {
+    companyDeduplicationService.dismissPair(candidate.key);
+    setCandidates(prev => prev.filter(c => c.key !== candidate.key));
+  };
+
+  const handleMerge = async () => {
+    if (!draft) return;
+    try {
+      await onMerge(draft.survivor.id, draft.duplicate.id, draft.selection);
+      setDraft(null);
+    } catch (error) {
+      console.error('Merge failed:', error);
+    }
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    onClose();
+  };
+
+  const renderSignals = (candidate: DuplicateCandidate) => (
+    <div className="flex flex-wrap gap-1 mt-1 text-xs">
+      {candidate.signals.sameDomain && <span className="px-1.5 py-0.5 rounded bg-blue-100 text-blue-700">ドメイン一致</span>}
+      {candidate.signals.sameStockCode && <span className="px-1.5 py-0.5 rounded bg-purple-100 text-purple-700">証券コード一致</span>}
+      {candidate.signals.nameContained && <span className="px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-800">企業名を包含</span>}
+      <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">
+        企業名 {Math.round(candidate.signals.nameSimilarity * 100)}%
+      </span>
+      {candidate.signals.embeddingSimilarity !== null && (
+        <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">
+          Embeddings {candidate.signals.embeddingSimilarity.toFixed(3)}
+        </span>
+      )}
+    </div>
+  );
+
+  const renderCandidates = () => {
+    if (scanning) {
+      return <div className="flex justify-center py-8"><LoadingSpinner /></div>;
+    }
+    if (candidates.length === 0) {
+      return (
+        <div className="text-center py-8 text-sm text-gray-600">
+          <CheckCircle className="w-8 h-8 text-green-500 mx-auto mb-2" />
+          重複の可能性がある企業は見つかりませんでした
+        </div>
+      );
+    }
+    return (
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md max-h-96 overflow-y-auto">
+        {candidates.map(candidate => (
+          <li key={candidate.key} className="flex items-center justify-between px-3 py-2">
+            <div className="min-w-0">
+              <div className="text-sm text-gray-900 truncate">
+                {candidate.companyA.name} <span className="text-gray-400">⇔</span> {candidate.companyB.name}
+              </div>
+              <div className="text-xs text-gray-500 truncate">
+                {candidate.companyA.website} / {candidate.companyB.website}
+              </div>
+              {renderSignals(candidate)}
+            </div>
+            <div className="flex items-center space-x-2 ml-3 flex-shrink-0">
+              <span className="text-sm font-medium text-gray-700">{Math.round(candidate.score * 100)}</span>
+              <Button size="sm" onClick={() => openMerge(candidate)}>
+                <GitMerge className="w-4 h-4 mr-1" />
+                統合
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleDismiss(candidate)} title="重複ではない">
+                <XCircle className="w-4 h-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const renderMerge = (current: MergeDraft) => {
+    const sides = [current.survivor, current.duplicate];
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <div>
+            統合先: <span className="font-medium text-gray-900">{current.survivor.name}</span>
+            <span className="text-gray-500 ml-2">（{current.duplicate.name} は統合後に削除されます）</span>
+          </div>
+          <Button size="sm" variant="outline" onClick={swapSurvivor}>統合先を入れ替え</Button>
+        </div>
+        {renderSignals(current.candidate)}
+
+        <table className="min-w-full text-sm border border-gray-200 rounded-md">
+          <thead className="bg-gray-50 text-xs text-gray-500">
+            <tr>
+              <th className="px-2 py-2 text-left font-medium w-28">項目</th>
+              <th className="px-2 py-2 text-left font-medium">統合先</th>
+              <th className="px-2 py-2 text-left font-medium">統合元</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {MERGE_FIELDS.map(field => (
+              <tr key={field}>
+                <td className="px-2 py-2 text-gray-700">{MERGE_FIELD_LABELS[field]}</td>
+                {sides.map((company, index) => {
+                  const side = index === 0 ? 'survivor' : 'duplicate';
+                  return (
+                    <td key={company.id} className="px-2 py-2 align-top">
+                      <label className="flex items-start cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`merge-${field}`}
+                          checked={current.selection[field] === side}
+                          onChange={() => chooseSide(field, company.id)}
+                          className="mt-1 mr-2"
+                        />
+                        <span className="text-gray-900 line-clamp-2 break-all">
+                          {describeField(field, company, current.infos.get(company.id))}
+                        </span>
+                      </label>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="text-xs text-gray-500">
+          MVV履歴・処理ログ・ビジネスアイデア・APIログはすべて統合先に付け替えられます。選択しなかった企業詳細情報は削除されます。
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="重複企業の検出・統合"
+      size="xl"
+    >
+      <div className="space-y-4">
+        {draft ? renderMerge(draft) : renderCandidates()}
+
+        <div className="flex justify-between pt-4">
+          <div>
+            {draft && (
+              <Button variant="outline" onClick={() => setDraft(null)} disabled={loading}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                候補一覧
+              </Button>
+            )}
+          </div>
+          <div className="flex space-x-3">
+            <Button variant="outline" onClick={handleClose} disabled={loading}>
+              閉じる
+            </Button>
+            {draft && (
+              <Button onClick={handleMerge} loading={loading} disabled={loading}>
+                <GitMerge className="w-4 h-4 mr-2" />
+                統合する
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
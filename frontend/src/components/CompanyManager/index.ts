@@ -1,4 +1,4 @@
 export { CompanyList } from './CompanyList';
 export { CompanyCard } from './CompanyCard';
 export { CompanyForm } from './CompanyForm';
-export { CSVImporter } from './CSVImporter';
\ No newline at end of file
+export { CSVImporter } from './CSVImporter';export { DuplicateFinder } from './DuplicateFinder';
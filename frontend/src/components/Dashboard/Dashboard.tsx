@@ -1,17 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { CompanyList } from '../CompanyManager';
-import { BatchProcessor, EmbeddingsBatchProcessor, ExtractionQueue, ProcessingStatus, CompanySelector, AddCompanySection } from '../MVVExtractor';
-import { ResultsTable, MVVDisplay } from '../ResultsViewer';
+import { BatchProcessor, EmbeddingsBatchProcessor, CompanySelector, AddCompanySection } from '../MVVExtractor';
+import { ResultsTable, MVVDisplay, MVVHistoryPanel } from '../ResultsViewer';
 import { MVVAnalysisDashboard, BusinessInnovationLab } from '../MVVAnalysis';
 import { BackupRestorePanel } from '../BackupRestore';
-import { Modal, Button, ExcelExportWizard } from '../common';
+import { Modal, Button, ExcelExportWizard, JobQueuePanel, BudgetSettingsPanel } from '../common';
 import { SessionStatus } from '../auth';
 import { useCompanyStore } from '../../stores/companyStore';
 import { useMVVStore } from '../../stores/mvvStore';
 import { useCSVProcessor } from '../../hooks/useCSVProcessor';
 import { useNotification } from '../../hooks/useNotification';
+import { useJobQueue } from '../../hooks/useJobQueue';
+import { useBudget } from '../../hooks/useBudget';
 import type { Company, MVVData, CompanyInfo } from '../../types';
 import { companyInfoStorage } from '../../services/storage';
+import { needsFieldEmbeddingsMigration } from '../../services/dataMigration';
 import { 
   Building2, 
   Brain, 
@@ -20,7 +23,11 @@ import {
   Network,
   Sparkles,
   Database,
-  Lightbulb
+  Lightbulb,
+  History,
+  Activity,
+  Wallet,
+  Layers
 } from 'lucide-react';
 
 type ActiveTab = 'companies' | 'extraction' | 'results' | 'analytics' | 'innovation' | 'backup';
@@ -32,13 +39,21 @@ export const Dashboard: React.FC = () => {
     company: Company;
     mvvData?: MVVData;
   } | null>(null);
+  const [mvvDetailView, setMvvDetailView] = useState<'current' | 'history'>('current');
   const [showExcelWizard, setShowExcelWizard] = useState(false);
   const [companyInfoMap, setCompanyInfoMap] = useState<Map<string, CompanyInfo>>(new Map());
+  const [showJobQueue, setShowJobQueue] = useState(false);
+  const [showBudget, setShowBudget] = useState(false);
 
   const { companies, loadCompanies } = useCompanyStore();
   const { mvvDataMap, loadMVVData } = useMVVStore();
   const { exportCombinedData } = useCSVProcessor();
   const { success } = useNotification();
+  const { jobs: schedulerJobs } = useJobQueue();
+  const activeJobCount = schedulerJobs.filter(job =>
+    job.status === 'queued' || job.status === 'running' || job.status === 'retrying'
+  ).length;
+  const { level: budgetLevel } = useBudget();
 
   // Load companies and MVV data on component mount
   useEffect(() => {
@@ -85,6 +100,7 @@ export const Dashboard: React.FC = () => {
 
   const handleViewMVVDetails = (company: Company, mvvData?: MVVData) => {
     setViewingMVVData({ company, mvvData });
+    setMvvDetailView('current');
   };
 
   const handleExportResults = () => {
@@ -162,6 +178,7 @@ export const Dashboard: React.FC = () => {
   };
 
   const stats = getTabStats();
+  const fieldMigrationCompanies = companies.filter(needsFieldEmbeddingsMigration);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -182,6 +199,30 @@ export const Dashboard: React.FC = () => {
             <div className="flex flex-col lg:flex-row lg:items-center space-y-4 lg:space-y-0 lg:space-x-6 mt-4 lg:mt-0">
               {/* Session Status */}
               <SessionStatus showDetails={false} />
+
+              {/* AI Job Queue */}
+              <Button variant="outline" size="sm" onClick={() => setShowJobQueue(true)}>
+                <Activity className="w-4 h-4 mr-2" />
+                AIジョブ
+                {activeJobCount > 0 && (
+                  <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    {activeJobCount}
+                  </span>
+                )}
+              </Button>
+
+              {/* AI Budget */}
+              <Button variant="outline" size="sm" onClick={() => setShowBudget(true)}>
+                <Wallet className="w-4 h-4 mr-2" />
+                予算
+                {budgetLevel !== 'ok' && (
+                  <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                    budgetLevel === 'exceeded' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {budgetLevel === 'exceeded' ? '上限' : '警告'}
+                  </span>
+                )}
+              </Button>
               
               {/* Quick Stats */}
               <div className="hidden lg:flex space-x-6 text-sm">
@@ -316,6 +357,31 @@ export const Dashboard: React.FC = () => {
                 )}
               </div>
             )}
+
+            {fieldMigrationCompanies.length > 0 && (
+              <div className="mt-4 bg-gray-50 border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">
+                      項目別Embeddingsの移行
+                    </h3>
+                    <p className="text-sm text-gray-700 mt-1">
+                      {fieldMigrationCompanies.length}件の企業はミッション・ビジョン・バリュー各項目のEmbeddingsが未生成または古くなっています（項目別の類似企業検索に必要です）
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setSelectedCompanies(fieldMigrationCompanies);
+                      setActiveTab('extraction');
+                    }}
+                  >
+                    <Layers className="w-4 h-4 mr-2" />
+                    移行対象を選択
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -349,12 +415,9 @@ export const Dashboard: React.FC = () => {
                 />
               </div>
               <div>
-                <ProcessingStatus />
+                <JobQueuePanel />
               </div>
             </div>
-            <div>
-              <ExtractionQueue />
-            </div>
           </div>
         )}
 
@@ -416,7 +479,33 @@ export const Dashboard: React.FC = () => {
           title="MVV詳細"
           size="xl"
         >
-          {viewingMVVData.mvvData ? (
+          {viewingMVVData.mvvData && (
+            <div className="flex space-x-2 mb-4">
+              <Button
+                variant={mvvDetailView === 'current' ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => setMvvDetailView('current')}
+              >
+                現在のMVV
+              </Button>
+              <Button
+                variant={mvvDetailView === 'history' ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => setMvvDetailView('history')}
+              >
+                <History className="w-4 h-4 mr-1" />
+                バージョン履歴
+              </Button>
+            </div>
+          )}
+          {viewingMVVData.mvvData && mvvDetailView === 'history' ? (
+            <MVVHistoryPanel
+              company={viewingMVVData.company}
+              onVersionActivated={(mvvData) => {
+                setViewingMVVData(prev => prev ? { ...prev, mvvData } : prev);
+              }}
+            />
+          ) : viewingMVVData.mvvData ? (
             <MVVDisplay
               mvvData={viewingMVVData.mvvData}
               companyName={viewingMVVData.company.name}
@@ -436,6 +525,26 @@ export const Dashboard: React.FC = () => {
         </Modal>
       )}
 
+      {/* AI Job Queue Modal */}
+      <Modal
+        isOpen={showJobQueue}
+        onClose={() => setShowJobQueue(false)}
+        title="AIジョブキュー"
+        size="lg"
+      >
+        <JobQueuePanel />
+      </Modal>
+
+      {/* AI Budget Modal */}
+      <Modal
+        isOpen={showBudget}
+        onClose={() => setShowBudget(false)}
+        title="AI利用予算"
+        size="lg"
+      >
+        <BudgetSettingsPanel />
+      </Modal>
+
       {/* Excel Export Wizard Modal */}
       <ExcelExportWizard
         isOpen={showExcelWizard}
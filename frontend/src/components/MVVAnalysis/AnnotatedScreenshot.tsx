@@ -0,0 +1,113 @@
+/**
+ * 注釈付きスクリーンショットの表示
+ * 画像と注釈を同じviewBoxのSVGに描き、表示サイズが変わっても位置がずれないようにする
+ */
+
+import React, { forwardRef } from 'react';
+import type { AnalysisScreenshot } from '../../services/screenshotCapture';
+import {
+  annotationFontSize,
+  annotationStrokeWidth,
+  arrowHeadPoints,
+  REDACTION_COLOR,
+  type ScreenshotAnnotation
+} from '../../services/screenshotAnnotation';
+
+interface AnnotatedScreenshotProps {
+  screenshot: AnalysisScreenshot;
+  annotations?: ScreenshotAnnotation[];
+  selectedId?: string | null;
+  onAnnotationPointerDown?: (annotation: ScreenshotAnnotation, e: React.PointerEvent) => void;
+  className?: string;
+  svgProps?: React.SVGProps<SVGSVGElement>;
+}
+
+// SVGではテキスト幅を測れないため、全角1文字=1em・半角=0.6emで概算する
+const estimateTextWidth = (text: string, fontSize: number): number =>
+  Array.from(text).reduce((sum, char) => sum + (char.charCodeAt(0) > 0xff ? 1 : 0.6), 0) * fontSize;
+
+export const AnnotatedScreenshot = forwardRef<SVGSVGElement, AnnotatedScreenshotProps>(({
+  screenshot,
+  annotations = screenshot.annotations || [],
+  selectedId,
+  onAnnotationPointerDown,
+  className,
+  svgProps
+}, ref) => {
+  const { width, height } = screenshot;
+  const stroke = annotationStrokeWidth(width, height);
+  const fontSize = annotationFontSize(width, height);
+  const ordered = [
+    ...annotations.filter(a => a.type !== 'redact'),
+    ...annotations.filter(a => a.type === 'redact')
+  ];
+
+  const renderAnnotation = (annotation: ScreenshotAnnotation) => {
+    const x1 = annotation.x1 * width;
+    const y1 = annotation.y1 * height;
+    const x2 = annotation.x2 * width;
+    const y2 = annotation.y2 * height;
+    const rect = { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+
+    switch (annotation.type) {
+      case 'redact':
+        return <rect {...rect} fill={REDACTION_COLOR} />;
+      case 'box':
+        return <rect {...rect} fill="none" stroke={annotation.color} strokeWidth={stroke} />;
+      case 'arrow':
+        return (
+          <>
+            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={annotation.color} strokeWidth={stroke} strokeLinecap="round" />
+            <polygon
+              points={arrowHeadPoints(x1, y1, x2, y2, stroke * 5).map(point => point.join(',')).join(' ')}
+              fill={annotation.color}
+            />
+          </>
+        );
+      case 'text': {
+        const text = annotation.text || '';
+        const padding = fontSize * 0.4;
+        return (
+          <>
+            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={annotation.color} strokeWidth={stroke} strokeLinecap="round" />
+            <circle cx={x1} cy={y1} r={stroke * 1.5} fill={annotation.color} />
+            <rect
+              x={x2 - padding}
+              y={y2 - fontSize / 2 - padding}
+              width={estimateTextWidth(text, fontSize) + padding * 2}
+              height={fontSize + padding * 2}
+              fill={annotation.color}
+            />
+            <text x={x2} y={y2} fill="#ffffff" fontSize={fontSize} fontWeight="bold" dominantBaseline="middle">
+              {text}
+            </text>
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <svg
+      ref={ref}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      className={className}
+      {...svgProps}
+    >
+      <image href={screenshot.dataUrl} x={0} y={0} width={width} height={height} />
+      {ordered.map(annotation => (
+        <g
+          key={annotation.id}
+          onPointerDown={onAnnotationPointerDown ? (e) => onAnnotationPointerDown(annotation, e) : undefined}
+          style={onAnnotationPointerDown ? { cursor: 'pointer' } : undefined}
+          opacity={selectedId === annotation.id ? 0.7 : 1}
+        >
+          {renderAnnotation(annotation)}
+        </g>
+      ))}
+    </svg>
+  );
+});
+
+AnnotatedScreenshot.displayName = 'AnnotatedScreenshot';
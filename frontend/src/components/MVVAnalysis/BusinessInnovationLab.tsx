@@ -8,13 +8,18 @@ import {
   CheckCircle,
   Database,
   FileSpreadsheet,
-  RefreshCw
+  RefreshCw,
+  Sparkles,
+  BarChart3
 } from 'lucide-react';
 import { ideaStorageService, type StoredBusinessIdea } from '../../services/ideaStorage';
+import { buildRefinementRequest, createLineageFields, type IdeaRefinementRequest } from '../../services/ideaLineage';
 import { apiLoggerService } from '../../services/apiLogger';
+import { budgetService } from '../../services/budgetService';
 import { IdeaExportWizard } from './IdeaExportWizard';
 import { SavedIdeasPanel } from './SavedIdeasPanel';
 import { IdeaDetailModal } from './IdeaDetailModal';
+import { IdeaPortfolioBoard } from './IdeaPortfolioBoard';
 import { LeanCanvas } from './LeanCanvas';
 import { IdeaGenerationDialog } from './IdeaGenerationDialog';
 import { useAsyncTask } from '../../hooks/useAsyncTask';
@@ -131,6 +136,7 @@ export const BusinessInnovationLab: React.FC = () => {
   const [savedIdeas, setSavedIdeas] = useState<StoredBusinessIdea[]>([]);
   const [isLoadingIdeas, setIsLoadingIdeas] = useState(false);
   const [showSavedIdeasPanel, setShowSavedIdeasPanel] = useState(false);
+  const [showPortfolioBoard, setShowPortfolioBoard] = useState(false);
   const [selectedIdeaForDetail, setSelectedIdeaForDetail] = useState<StoredBusinessIdea | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [savedIdeasRefreshKey, setSavedIdeasRefreshKey] = useState(0);
@@ -323,7 +329,18 @@ export const BusinessInnovationLab: React.FC = () => {
   };
 
   // アイデア生成の実際の処理（会社とパラメータを直接受け取る）
-  const executeIdeaGeneration = async (company: any, params: AnalysisParams) => {
+  // refineFrom 指定時は既存アイデアの改良版として生成し、系譜を記録する
+  const executeIdeaGeneration = async (
+    company: any,
+    params: AnalysisParams,
+    refineFrom?: { parent: StoredBusinessIdea; refinement: IdeaRefinementRequest }
+  ) => {
+    const budgetCheck = budgetService.checkBudget('generate-ideas');
+    if (!budgetCheck.allowed) {
+      setError(`${budgetCheck.message}。予算設定を見直してください。`);
+      return;
+    }
+
     setIsGenerating(true);
     setError(null);
     setProgress(0);
@@ -360,7 +377,8 @@ export const BusinessInnovationLab: React.FC = () => {
         analysisParams: params,
         options: {
           maxIdeas: maxIdeas // ユーザー選択
-        }
+        },
+        refinement: refineFrom?.refinement
       };
       const headers = {
         'Content-Type': 'application/json',
@@ -467,7 +485,8 @@ export const BusinessInnovationLab: React.FC = () => {
                   modelUsed: result.data.metadata?.model || 'unknown',
                   cacheLevel: result.data.metadata?.cacheLevel,
                   apiLogId: logId // APIログとの紐づけ
-                }
+                },
+                ...(refineFrom ? createLineageFields(refineFrom.parent, refineFrom.refinement) : {})
               };
               
               await ideaStorageService.saveIdea(storedIdea);
@@ -504,6 +523,35 @@ export const BusinessInnovationLab: React.FC = () => {
     }
   };
 
+  // アイデア改良: 既存のリーンキャンバスと検証の改善提案をコンテキストに次の世代を生成
+  const handleRefineIdea = async (idea: StoredBusinessIdea, instructions?: string) => {
+    const company = companies.find(c => c.id === idea.companyId);
+    if (!company) {
+      setError(`企業「${idea.companyName}」が見つかりません。企業データを確認してください。`);
+      return;
+    }
+
+    const params: AnalysisParams = {
+      ...idea.analysisParams,
+      techPreferences: idea.analysisParams.techPreferences || {
+        preferred: [],
+        avoided: []
+      },
+      riskTolerance: idea.analysisParams.riskTolerance || 'moderate',
+      revenueExpectation: idea.analysisParams.revenueExpectation || 'medium-term'
+    };
+
+    setSelectedCompanyId(idea.companyId);
+    setAnalysisParams(params);
+    handleCloseDetailModal();
+    setShowSavedIdeasPanel(false);
+
+    await executeIdeaGeneration(company, params, {
+      parent: idea,
+      refinement: buildRefinementRequest(idea, instructions)
+    });
+  };
+
   // アイデア復元機能
   const handleRestoreIdea = async (idea: StoredBusinessIdea) => {
     try {
@@ -999,6 +1047,20 @@ export const BusinessInnovationLab: React.FC = () => {
                       </button>
                     </div>
                     
+                    {(() => {
+                      const savedIdea = savedIdeas.find(saved => saved.id === getCorrespondingIdeaId(idea));
+                      return savedIdea && (
+                        <button
+                          onClick={() => handleRefineIdea(savedIdea)}
+                          disabled={isGenerating}
+                          title="リーンキャンバスと検証の改善提案をもとに改良版を生成"
+                          className="flex items-center px-4 py-2 text-sm bg-gradient-to-r from-indigo-100 to-indigo-200 text-indigo-700 rounded-lg hover:from-indigo-200 hover:to-indigo-300 hover:text-indigo-800 transition-all duration-200 shadow-sm hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <Sparkles className="h-4 w-4 mr-2" />
+                          改良
+                        </button>
+                      );
+                    })()}
                     <button
                       onClick={() => handleSaveIdea(idea)}
                       className="flex items-center px-4 py-2 text-sm bg-gradient-to-r from-gray-100 to-gray-200 text-gray-700 rounded-lg hover:from-blue-100 hover:to-blue-200 hover:text-blue-700 transition-all duration-200 shadow-sm hover:shadow-md"
@@ -1492,6 +1554,20 @@ export const BusinessInnovationLab: React.FC = () => {
               )}
             </button>
             
+            <button
+              onClick={() => setShowPortfolioBoard(true)}
+              disabled={savedIdeas.length === 0 || isLoadingIdeas}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-all duration-200 shadow-sm ${
+                savedIdeas.length > 0 && !isLoadingIdeas
+                  ? 'bg-white text-purple-700 hover:bg-purple-50 border border-purple-200'
+                  : 'bg-gray-100 text-gray-400 border border-gray-200 cursor-not-allowed'
+              }`}
+              title="保存済みアイデアを重み付きスコアで比較・ランキング"
+            >
+              <BarChart3 className="w-4 h-4" />
+              <span className="text-sm font-medium">ポートフォリオ</span>
+            </button>
+            
             <button
               onClick={() => setShowExportWizard(true)}
               disabled={savedIdeas.length === 0 || isLoadingIdeas}
@@ -1555,12 +1631,26 @@ export const BusinessInnovationLab: React.FC = () => {
 
       {/* アイデア管理画面 */}
 
+      {/* ポートフォリオボード */}
+      <IdeaPortfolioBoard
+        isOpen={showPortfolioBoard}
+        ideas={savedIdeas}
+        onClose={() => setShowPortfolioBoard(false)}
+        onViewDetails={(idea) => {
+          setSelectedIdeaForDetail(idea);
+          setShowDetailModal(true);
+        }}
+      />
+
       {/* アイデア詳細モーダル */}
       <IdeaDetailModal
         isOpen={showDetailModal}
         idea={selectedIdeaForDetail}
         onClose={handleCloseDetailModal}
         onToggleStar={handleToggleStar}
+        onSelectVersion={setSelectedIdeaForDetail}
+        onRefine={handleRefineIdea}
+        isRefining={isGenerating}
       />
 
       {/* Excel出力ウィザード */}
@@ -1,18 +1,25 @@
-import React, { useMemo, useState, useRef } from 'react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
 import { useAnalysisStore } from '../../stores/analysisStore';
-import { LoadingSpinner } from '../common';
-import { Target, ZoomIn, ZoomOut, RotateCcw, Info } from 'lucide-react';
-import { calculateEmbeddingSimilarity } from '../../services/similarityCalculator';
-
-interface CompanyPosition {
-  id: string;
-  name: string;
-  category: string;
-  x: number;
-  y: number;
-  uniquenessScore: number;
-  clusterGroup: number;
-}
+import { LoadingSpinner, ProgressBar } from '../common';
+import { Target, ZoomIn, ZoomOut, RotateCcw, Info, Pin } from 'lucide-react';
+import { analysisComputeService, toComputeCompany, type ComputeCallbacks } from '../../services/analysisComputeService';
+import {
+  type CompanyPosition,
+  type ComputePhase,
+  type PositioningResult
+} from '../../services/analysisCompute';
+import {
+  NOISE_CLUSTER_ID,
+  type ClusteringMethod,
+  type ClusteringOptions,
+  type ClusteringResult
+} from '../../services/mvvClustering';
+import { PROJECTION_METHOD_LABELS, type ProjectionMethod } from '../../services/mvvProjection';
+import { getLayoutDatasetKey, positioningLayoutService } from '../../services/positioningLayout';
+import { conceptAxisService, type ConceptPosition } from '../../services/conceptAxes';
+import { useAnalysisCompute } from '../../hooks/useAnalysisCompute';
+import { ComputeProgressBanner } from './ComputeProgressBanner';
+import { ConceptAxisEditor, type ConceptAxes } from './ConceptAxisEditor';
 
 interface ClusterGroup {
   id: number;
@@ -20,9 +27,106 @@ interface ClusterGroup {
   centerX: number;
   centerY: number;
   color: string;
-  category: string;
+  label: string;
+  categories?: Array<{ category: string; count: number }>; // 発見クラスターに含まれる業界
 }
 
+type ColorMode = 'category' | 'cluster';
+type AxisMode = 'projection' | 'concept';
+
+const COMPUTE_PHASES: ComputePhase[] = ['similarity', 'projection'];
+const CLUSTERING_PHASES: ComputePhase[] = ['similarity', 'clustering'];
+const FALLBACK_PHASES: ComputePhase[] = ['similarity'];
+
+const CLUSTER_COLORS = [
+  '#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6',
+  '#EC4899', '#14B8A6', '#F97316', '#6366F1', '#84CC16'
+];
+const NOISE_COLOR = '#9CA3AF';
+
+const CLUSTERING_METHOD_LABELS: Record<ClusteringMethod, string> = {
+  kmeans: 'k-means（シルエット係数でk自動選択）',
+  density: '密度ベース（HDBSCAN方式）'
+};
+
+// 概念軸の座標（類似度の差）を、0を中心に保ったまま表示範囲[-80, 80]へ拡大する（SVGのyは下向き）
+const toConceptDisplayPositions = (conceptPositions: ConceptPosition[]): Map<string, { x: number; y: number }> => {
+  const maxX = Math.max(1e-6, ...conceptPositions.map(pos => Math.abs(pos.x)));
+  const maxY = Math.max(1e-6, ...conceptPositions.map(pos => Math.abs(pos.y)));
+  return new Map(conceptPositions.map(pos => [pos.id, { x: (pos.x / maxX) * 80, y: -(pos.y / maxY) * 80 }]));
+};
+
+const groupCenter = (positions: CompanyPosition[]) => ({
+  centerX: positions.reduce((sum, pos) => sum + pos.x, 0) / positions.length,
+  centerY: positions.reduce((sum, pos) => sum + pos.y, 0) / positions.length
+});
+
+// カテゴリ別クラスタリング
+const performCategoryClustering = (positions: CompanyPosition[]): ClusterGroup[] => {
+  const categoryMap = new Map<string, CompanyPosition[]>();
+
+  positions.forEach(pos => {
+    if (!categoryMap.has(pos.category)) {
+      categoryMap.set(pos.category, []);
+    }
+    categoryMap.get(pos.category)!.push(pos);
+  });
+
+  const clusters: ClusterGroup[] = [];
+
+  categoryMap.forEach((categoryPositions, category) => {
+    const clusterId = clusters.length;
+    categoryPositions.forEach(pos => {
+      pos.clusterGroup = clusterId;
+    });
+
+    clusters.push({
+      id: clusterId,
+      companies: categoryPositions,
+      ...groupCenter(categoryPositions),
+      color: CLUSTER_COLORS[clusterId % CLUSTER_COLORS.length],
+      label: category
+    });
+  });
+
+  return clusters;
+};
+
+// 埋め込みベクトルから発見したクラスタで色分け（業界をまたぐグループを見るため）
+const applyDiscoveredClusters = (positions: CompanyPosition[], result: ClusteringResult): ClusterGroup[] => {
+  positions.forEach(pos => {
+    pos.clusterGroup = result.labels[pos.id] ?? NOISE_CLUSTER_ID;
+  });
+
+  const clusters: ClusterGroup[] = result.clusters
+    .map(cluster => {
+      const members = positions.filter(pos => pos.clusterGroup === cluster.id);
+      return { cluster, members };
+    })
+    .filter(({ members }) => members.length > 0)
+    .map(({ cluster, members }) => ({
+      id: cluster.id,
+      companies: members,
+      ...groupCenter(members),
+      color: CLUSTER_COLORS[cluster.id % CLUSTER_COLORS.length],
+      label: cluster.keywords.length > 0 ? cluster.keywords.join('・') : `クラスター${cluster.id + 1}`,
+      categories: cluster.categories
+    }));
+
+  const noise = positions.filter(pos => pos.clusterGroup === NOISE_CLUSTER_ID);
+  if (noise.length > 0) {
+    clusters.push({
+      id: NOISE_CLUSTER_ID,
+      companies: noise,
+      ...groupCenter(noise),
+      color: NOISE_COLOR,
+      label: 'どのクラスターにも属さない企業'
+    });
+  }
+
+  return clusters;
+};
+
 export const CompetitivePositioningMap: React.FC = () => {
   const { data, isLoading } = useAnalysisStore();
   const [selectedCompany, setSelectedCompany] = useState<CompanyPosition | null>(null);
@@ -32,214 +136,171 @@ export const CompetitivePositioningMap: React.FC = () => {
   const [viewBox, setViewBox] = useState({ x: -100, y: -100, width: 200, height: 200 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0, viewBoxX: 0, viewBoxY: 0 });
+  const [colorMode, setColorMode] = useState<ColorMode>('category');
+  const [clusteringMethod, setClusteringMethod] = useState<ClusteringMethod>('kmeans');
+  const [clusterCount, setClusterCount] = useState<ClusteringOptions['k']>('auto');
+  const [minClusterSize, setMinClusterSize] = useState(3);
+  const [projectionMethod, setProjectionMethod] = useState<ProjectionMethod>('mds');
+  const [projectionSeed, setProjectionSeed] = useState(42);
+  const [pinnedMode, setPinnedMode] = useState(false);
+  const [axisMode, setAxisMode] = useState<AxisMode>('projection');
+  const [conceptAxes, setConceptAxes] = useState<ConceptAxes | null>(() => conceptAxisService.getActivePreset());
+  const [conceptPositions, setConceptPositions] = useState<ConceptPosition[] | null>(null);
+  const [conceptError, setConceptError] = useState<string | null>(null);
   const svgRef = useRef<SVGSVGElement>(null);
 
-  // 簡易MDS実装（安定化版）
-  const performMDS = (distanceMatrix: number[][], companies: any[]): CompanyPosition[] => {
-    const n = companies.length;
-    const positions: CompanyPosition[] = [];
-
-    // データ検証
-    if (n === 0 || !distanceMatrix || distanceMatrix.length !== n) {
-      console.warn('Invalid data for MDS calculation');
-      return [];
-    }
-
-    // 初期配置（円形、決定論的、スケール調整）
-    for (let i = 0; i < n; i++) {
-      const angle = (2 * Math.PI * i) / n;
-      const radius = 10 + (i % 3) * 5; // より小さな初期半径
-      positions.push({
-        id: companies[i].id,
-        name: companies[i].name,
-        category: companies[i].category || '未分類',
-        x: radius * Math.cos(angle),
-        y: radius * Math.sin(angle),
-        uniquenessScore: 0,
-        clusterGroup: 0
-      });
-    }
-
-    // ストレス最小化（安定化版）
-    const iterations = 30; // 反復回数を減らして発散防止
-    const learningRate = 0.05; // 学習率を下げて安定化
-    const minDistance = 0.1; // 最小距離制限
-
-    for (let iter = 0; iter < iterations; iter++) {
-      for (let i = 0; i < n; i++) {
-        let forceX = 0;
-        let forceY = 0;
+  // 埋め込みベクトルを持つ企業のみ対象
+  const validCompanies = useMemo(() => {
+    if (!data || !data.companies) return null;
 
-        for (let j = 0; j < n; j++) {
-          if (i === j) continue;
-
-          const dx = positions[i].x - positions[j].x;
-          const dy = positions[i].y - positions[j].y;
-          const currentDistance = Math.max(minDistance, Math.sqrt(dx * dx + dy * dy));
-          const targetDistance = Math.max(minDistance, distanceMatrix[i][j] * 50); // スケール調整
-
-          // NaN/Infinity チェック
-          if (!isFinite(currentDistance) || !isFinite(targetDistance) || currentDistance === 0) {
-            continue;
-          }
-
-          const force = (currentDistance - targetDistance) / currentDistance;
-          const dampedForce = Math.max(-0.1, Math.min(0.1, force)); // より強い力の制限
-
-          forceX += dampedForce * dx * learningRate;
-          forceY += dampedForce * dy * learningRate;
-        }
-
-        // NaN/Infinity チェック
-        if (isFinite(forceX) && isFinite(forceY)) {
-          positions[i].x -= forceX;
-          positions[i].y -= forceY;
-          
-          // 座標の境界制限（発散防止）
-          const maxCoord = 200;
-          positions[i].x = Math.max(-maxCoord, Math.min(maxCoord, positions[i].x));
-          positions[i].y = Math.max(-maxCoord, Math.min(maxCoord, positions[i].y));
-        }
-      }
-    }
+    const companies = data.companies
+      .filter(company => company.embeddings && Array.isArray(company.embeddings) && company.embeddings.length > 0)
+      .map(toComputeCompany);
+    console.log(`🎯 埋め込みベクトルを持つ企業: ${companies.length}/${data.companies.length}社`);
+    return companies;
+  }, [data]);
 
-    // 最終的な座標正規化
-    const allX = positions.map(p => p.x).filter(x => isFinite(x));
-    const allY = positions.map(p => p.y).filter(y => isFinite(y));
-    
-    if (allX.length === 0 || allY.length === 0) {
-      // 全て無効な座標の場合は単純な円形配置にフォールバック
-      console.warn('⚠️ MDS座標が無効 - 円形配置にフォールバック');
-      return companies.map((company, index) => {
-        const angle = (2 * Math.PI * index) / companies.length;
-        const radius = 50;
-        return {
-          id: company.id,
-          name: company.name,
-          category: company.category || '未分類',
-          x: radius * Math.cos(angle),
-          y: radius * Math.sin(angle),
-          uniquenessScore: 0,
-          clusterGroup: 0
-        };
-      });
-    }
+  // 固定レイアウトは投影手法・埋め込みモデル（次元）・企業構成が同じデータセットごとに保存する
+  const layoutCompanyIds = useMemo(() => (validCompanies ?? []).map(company => company.id), [validCompanies]);
+  const layoutDatasetKey = getLayoutDatasetKey(
+    projectionMethod,
+    validCompanies?.[0]?.embeddings?.length ?? 0,
+    layoutCompanyIds
+  );
 
-    // 座標を[-80, 80]の範囲に正規化
-    const minX = Math.min(...allX);
-    const maxX = Math.max(...allX);
-    const minY = Math.min(...allY);
-    const maxY = Math.max(...allY);
-    
-    const rangeX = maxX - minX;
-    const rangeY = maxY - minY;
-    
-    if (rangeX > 0 && rangeY > 0) {
-      positions.forEach(pos => {
-        if (isFinite(pos.x) && isFinite(pos.y)) {
-          pos.x = ((pos.x - minX) / rangeX - 0.5) * 160; // [-80, 80]
-          pos.y = ((pos.y - minY) / rangeY - 0.5) * 160; // [-80, 80]
-        }
+  // 類似度マトリックスと投影はWorkerで計算し、反復途中の配置を順次表示する
+  // 完了した配置は保存し、固定レイアウトでは保存済みの座標を既存企業にそのまま使う
+  const startCompute = useMemo(() => {
+    if (!validCompanies || validCompanies.length < 3) return null;
+    return (callbacks: ComputeCallbacks<PositioningResult>) => {
+      console.log(`📊 ${validCompanies.length}社でポジショニング分析実行中...`);
+      const storedLayout = pinnedMode ? positioningLayoutService.getLayout(layoutDatasetKey, layoutCompanyIds) : null;
+      const handle = analysisComputeService.computePositioning(
+        validCompanies,
+        { method: projectionMethod, seed: projectionSeed, pinnedPositions: storedLayout?.positions },
+        callbacks
+      );
+      handle.promise
+        .then(computed => {
+          positioningLayoutService.saveLayout(layoutDatasetKey, projectionMethod, projectionSeed, computed.positions, pinnedMode);
+        })
+        .catch(() => {
+          // キャンセル・エラーは useAnalysisCompute 側で扱う
+        });
+      return handle;
+    };
+  }, [validCompanies, projectionMethod, projectionSeed, pinnedMode, layoutDatasetKey, layoutCompanyIds]);
+
+  const { result, progress, status, cancel, restart } = useAnalysisCompute(startCompute, COMPUTE_PHASES);
+
+  // 概念アンカー軸: アンカーを埋め込みベクトル化し、各企業を2つのアンカーとの類似度の差で配置する
+  useEffect(() => {
+    if (axisMode !== 'concept' || !conceptAxes || !validCompanies || validCompanies.length < 3) return;
+
+    let active = true;
+    setConceptPositions(null);
+    setConceptError(null);
+    conceptAxisService.computeConceptPositions(validCompanies, conceptAxes)
+      .then(computed => {
+        if (active) setConceptPositions(computed);
+      })
+      .catch(err => {
+        console.error('Concept axis projection failed:', err);
+        if (active) setConceptError(err instanceof Error ? err.message : 'アンカーの埋め込みベクトル生成に失敗しました');
       });
-    }
-
-    console.log('📐 正規化後の座標範囲:', {
-      x: [Math.min(...positions.map(p => p.x)), Math.max(...positions.map(p => p.x))],
-      y: [Math.min(...positions.map(p => p.y)), Math.max(...positions.map(p => p.y))]
-    });
-
-    return positions;
-  };
-
-  // カテゴリ別クラスタリング
-  const performCategoryClustering = (positions: CompanyPosition[]): ClusterGroup[] => {
-    const categoryMap = new Map<string, CompanyPosition[]>();
-    
-    positions.forEach(pos => {
-      if (!categoryMap.has(pos.category)) {
-        categoryMap.set(pos.category, []);
-      }
-      categoryMap.get(pos.category)!.push(pos);
-    });
-
-    const colors = [
-      '#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6',
-      '#EC4899', '#14B8A6', '#F97316', '#6366F1', '#84CC16'
-    ];
 
-    const clusters: ClusterGroup[] = [];
-    let colorIndex = 0;
+    return () => {
+      active = false;
+    };
+  }, [axisMode, conceptAxes, validCompanies]);
 
-    categoryMap.forEach((categoryPositions, category) => {
-      const centerX = categoryPositions.reduce((sum, pos) => sum + pos.x, 0) / categoryPositions.length;
-      const centerY = categoryPositions.reduce((sum, pos) => sum + pos.y, 0) / categoryPositions.length;
-      
-      const clusterId = clusters.length;
-      categoryPositions.forEach(pos => {
-        pos.clusterGroup = clusterId;
-      });
+  const conceptPositionMap = useMemo(
+    () => new Map((conceptPositions ?? []).map(pos => [pos.id, pos])),
+    [conceptPositions]
+  );
 
-      clusters.push({
-        id: clusterId,
-        companies: categoryPositions,
-        centerX,
-        centerY,
-        color: colors[colorIndex % colors.length],
-        category
-      });
-      
-      colorIndex++;
-    });
+  const storedLayout = useMemo(
+    () => (status === 'completed' ? positioningLayoutService.getLayout(layoutDatasetKey) : null),
+    [layoutDatasetKey, status]
+  );
 
-    return clusters;
+  const handleResetLayout = () => {
+    positioningLayoutService.clearLayout(layoutDatasetKey);
+    restart();
   };
 
+  // クラスタ色分け選択時のみ、埋め込みベクトルのクラスタリングをWorkerで実行
+  const startClustering = useMemo(() => {
+    if (colorMode !== 'cluster' || !validCompanies || validCompanies.length < 3) return null;
+    return (callbacks: ComputeCallbacks<ClusteringResult>) =>
+      analysisComputeService.computeClusters(
+        validCompanies,
+        { method: clusteringMethod, k: clusterCount, minClusterSize },
+        callbacks
+      );
+  }, [colorMode, validCompanies, clusteringMethod, clusterCount, minClusterSize]);
+
+  const {
+    result: clusteringResult,
+    progress: clusteringProgress,
+    status: clusteringStatus,
+    cancel: cancelClustering,
+    restart: restartClustering
+  } = useAnalysisCompute(startClustering, CLUSTERING_PHASES);
+
+  // 埋め込みベクトルが不足する場合のフォールバック対象（MVVテキストを持つ企業）
+  const fallbackCompanies = useMemo(() => {
+    if (!data?.companies || !validCompanies || validCompanies.length >= 3) return null;
+    return data.companies
+      .filter(company => company.mission || company.vision || company.values)
+      .map(toComputeCompany);
+  }, [data, validCompanies]);
+
+  // フォールバックの独自性に使うテキスト類似度もWorkerで計算する
+  const startFallback = useMemo(() => {
+    if (!fallbackCompanies || fallbackCompanies.length < 3) return null;
+    return (callbacks: ComputeCallbacks<number[][]>) =>
+      analysisComputeService.computeSimilarityMatrix(fallbackCompanies, 'text', callbacks);
+  }, [fallbackCompanies]);
+
+  const {
+    result: fallbackSimilarity,
+    progress: fallbackProgress,
+    status: fallbackStatus
+  } = useAnalysisCompute(startFallback, FALLBACK_PHASES);
+
   const { positions, clusters, loading } = useMemo(() => {
-    if (!data || !data.companies) {
+    if (!data || !data.companies || !validCompanies) {
       return { positions: [], clusters: [], loading: true };
     }
 
-    console.log('🔄 競合ポジショニングマップ計算開始...');
-    const startTime = performance.now();
-
-    // データの詳細をデバッグ
-    console.log('📊 企業データ:', {
-      totalCompanies: data.companies.length,
-      sampleCompany: data.companies[0],
-      hasEmbeddings: data.companies.map(c => ({
-        name: c.name,
-        hasEmbeddings: !!(c.embeddings && Array.isArray(c.embeddings) && c.embeddings.length > 0)
-      })).slice(0, 5)
-    });
-
-    // 埋め込みベクトルを持つ企業のみフィルター
-    const validCompanies = data.companies.filter(company => 
-      company.embeddings && Array.isArray(company.embeddings) && company.embeddings.length > 0
-    );
-
-    console.log(`🎯 埋め込みベクトルを持つ企業: ${validCompanies.length}/${data.companies.length}社`);
-
-    // 埋め込みベクトルがない場合のフォールバック: MVVテキストベースのダミー位置生成
+    // 埋め込みベクトルがない場合のフォールバック: MVVテキストベースの仮配置
     if (validCompanies.length < 3) {
       console.log('⚠️ 埋め込みベクトル不足 - MVVテキストベースのフォールバック実行');
-      
-      const companiesWithMVV = data.companies.filter(company => 
-        company.mission || company.vision || company.values
-      );
 
-      if (companiesWithMVV.length < 3) {
+      if (!fallbackCompanies || fallbackCompanies.length < 3) {
         console.log('❌ MVVデータも不足 - 表示できません');
         return { positions: [], clusters: [], loading: false };
       }
 
-      // テキスト長ベースの簡易ポジショニング
-      const textBasedPositions = companiesWithMVV.map((company, index) => {
+      if (!fallbackSimilarity) {
+        return { positions: [], clusters: [], loading: fallbackStatus === 'idle' || fallbackStatus === 'computing' };
+      }
+
+      // 独自性は形態素解析キーワードのJaccard類似度から算出（他社との平均類似度の逆数）
+      const textSimilarity = fallbackSimilarity;
+      const textUniqueness = textSimilarity.map((row, i) =>
+        1 - row.reduce((sum, sim, j) => (i === j ? sum : sum + sim), 0) / (row.length - 1)
+      );
+
+      // 仮配置: 座標は類似度を反映しない（円周上に並べ、半径にテキスト長を使うだけ）
+      const textBasedPositions = fallbackCompanies.map((company, index) => {
         const missionLength = (company.mission || '').length;
         const visionLength = (company.vision || '').length;
-        const valuesLength = (company.values || '').length;
+        const valuesLength = (Array.isArray(company.values) ? company.values.join('') : company.values || '').length;
         
         // テキスト長を座標に変換（正規化）
-        const angle = (2 * Math.PI * index) / companiesWithMVV.length;
+        const angle = (2 * Math.PI * index) / fallbackCompanies.length;
         const radius = 30 + ((missionLength + visionLength + valuesLength) % 50);
         
         return {
@@ -248,7 +309,7 @@ export const CompetitivePositioningMap: React.FC = () => {
           category: company.category || '未分類',
           x: radius * Math.cos(angle),
           y: radius * Math.sin(angle),
-          uniquenessScore: Math.random() * 0.5 + 0.3, // 暫定的なランダムスコア
+          uniquenessScore: textUniqueness[index],
           clusterGroup: index % 5
         };
       });
@@ -263,57 +324,32 @@ export const CompetitivePositioningMap: React.FC = () => {
       };
     }
 
-    console.log(`📊 ${validCompanies.length}社でポジショニング分析実行中...`);
-
-    // 類似度マトリックス計算
-    const similarityMatrix: number[][] = Array(validCompanies.length)
-      .fill(null)
-      .map(() => Array(validCompanies.length).fill(0));
-
-    for (let i = 0; i < validCompanies.length; i++) {
-      for (let j = i + 1; j < validCompanies.length; j++) {
-        const similarity = calculateEmbeddingSimilarity(
-          validCompanies[i].embeddings!,
-          validCompanies[j].embeddings!
-        );
-        similarityMatrix[i][j] = similarity;
-        similarityMatrix[j][i] = similarity;
-      }
-      similarityMatrix[i][i] = 1.0;
+    if (!result) {
+      return { positions: [], clusters: [], loading: status === 'idle' || status === 'computing' };
     }
 
-    // 距離マトリックスに変換（1 - similarity）
-    const distanceMatrix = similarityMatrix.map(row => 
-      row.map(sim => Math.max(0.001, 1 - sim)) // 0除算を避けるため最小値設定
-    );
-
-    // 多次元尺度法（MDS）による2次元配置
-    const positions = performMDS(distanceMatrix, validCompanies);
-
-    // 独自性スコア計算
-    const positionsWithUniqueness = positions.map((pos, index) => {
-      const similarities = similarityMatrix[index].filter((_, i) => i !== index);
-      const avgSimilarity = similarities.reduce((sum, sim) => sum + sim, 0) / similarities.length;
-      return {
-        ...pos,
-        uniquenessScore: 1 - avgSimilarity
-      };
-    });
-
-    // カテゴリ別クラスタリング
-    const clusters = performCategoryClustering(positionsWithUniqueness);
-
-    const endTime = performance.now();
-    console.log(`✅ ポジショニングマップ計算完了: ${Math.round(endTime - startTime)}ms`);
-    console.log('📍 計算されたポジション (先頭5件):', positionsWithUniqueness.slice(0, 5));
-    console.log('🎨 クラスター情報:', clusters);
+    // クラスタ番号を書き込むためコピーしてから色分け（発見クラスタが未計算の間はカテゴリ別）
+    // 概念軸モードでは投影の座標を概念軸上の座標に置き換える
+    const conceptDisplay = axisMode === 'concept' && conceptPositions ? toConceptDisplayPositions(conceptPositions) : null;
+    const computedPositions = conceptDisplay
+      ? result.positions
+        .filter(pos => conceptDisplay.has(pos.id))
+        .map(pos => ({ ...pos, ...conceptDisplay.get(pos.id)! }))
+      : result.positions.map(pos => ({ ...pos }));
+    const computedClusters = colorMode === 'cluster' && clusteringResult
+      ? applyDiscoveredClusters(computedPositions, clusteringResult)
+      : performCategoryClustering(computedPositions);
+
+    if (result.isFinal) {
+      console.log(`✅ ポジショニングマップ計算完了: ${computedPositions.length}社`);
+    }
 
-    return { 
-      positions: positionsWithUniqueness, 
-      clusters, 
-      loading: false 
+    return {
+      positions: computedPositions,
+      clusters: computedClusters,
+      loading: false
     };
-  }, [data]);
+  }, [data, validCompanies, fallbackCompanies, fallbackSimilarity, fallbackStatus, result, status, colorMode, clusteringResult, axisMode, conceptPositions]);
 
   const handleZoomIn = () => setZoomLevel(prev => Math.min(prev * 1.2, 3));
   const handleZoomOut = () => setZoomLevel(prev => Math.max(prev / 1.2, 0.3));
@@ -361,7 +397,13 @@ export const CompetitivePositioningMap: React.FC = () => {
 
   const filteredClusters = selectedCategory === 'all'
     ? clusters
-    : clusters.filter(cluster => cluster.category === selectedCategory);
+    : clusters.filter(cluster => cluster.companies.some(pos => pos.category === selectedCategory));
+
+  // 埋め込みベクトルが不足するフォールバック表示ではカテゴリ色分けのみ
+  const canCluster = (validCompanies?.length ?? 0) >= 3;
+  const isClusterMode = colorMode === 'cluster' && canCluster && !!clusteringResult;
+  const isConceptMode = axisMode === 'concept' && canCluster && !!conceptAxes && !!conceptPositions;
+  const selectedCluster = selectedCompany ? clusters.find(cluster => cluster.id === selectedCompany.clusterGroup) : undefined;
 
   // 利用可能な業界リスト
   const availableCategories = ['all', ...new Set(positions.map(pos => pos.category))].sort();
@@ -369,14 +411,28 @@ export const CompetitivePositioningMap: React.FC = () => {
   if (isLoading || loading) {
     return (
       <div className="flex items-center justify-center h-64">
-        <div className="text-center">
+        <div className="text-center w-64">
           <LoadingSpinner size="lg" className="mb-4" />
-          <p className="text-gray-600">ポジショニングマップを計算中...</p>
+          <p className="text-gray-600 mb-3">ポジショニングマップを計算中...</p>
+          {status === 'computing' && <ProgressBar value={progress * 100} size="sm" />}
+          {fallbackStatus === 'computing' && <ProgressBar value={fallbackProgress * 100} size="sm" />}
         </div>
       </div>
     );
   }
 
+  if (positions.length === 0 && status === 'cancelled') {
+    return (
+      <ComputeProgressBanner
+        status={status}
+        progress={progress}
+        label="ポジショニングマップ"
+        onCancel={cancel}
+        onRestart={restart}
+      />
+    );
+  }
+
   if (positions.length === 0) {
     const companiesWithMVV = data?.companies?.filter(company => 
       company.mission || company.vision || company.values
@@ -436,6 +492,34 @@ export const CompetitivePositioningMap: React.FC = () => {
         </div>
       </div>
 
+      <ComputeProgressBanner
+        status={status}
+        progress={progress}
+        label="ポジショニングマップ"
+        onCancel={cancel}
+        onRestart={restart}
+      />
+
+      {colorMode === 'cluster' && (
+        <ComputeProgressBanner
+          status={clusteringStatus}
+          progress={clusteringProgress}
+          label="クラスター分析"
+          onCancel={cancelClustering}
+          onRestart={restartClustering}
+        />
+      )}
+
+      {!canCluster && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-start text-sm text-amber-800">
+          <Info className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            仮配置: 埋め込みベクトルを持つ企業が3社未満のため、座標は類似度を反映していません（色分けと独自性スコアのみMVVテキストから算出）。
+            埋め込みベクトルを生成すると類似度ベースのマップになります。
+          </span>
+        </div>
+      )}
+
       {/* フィルターと説明 */}
       <div className="bg-white rounded-lg shadow-sm border p-6">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -453,6 +537,77 @@ export const CompetitivePositioningMap: React.FC = () => {
                 </option>
               ))}
             </select>
+
+            <label className="block text-sm font-medium text-gray-700 mt-4 mb-2">マップの軸:</label>
+            <select
+              value={axisMode}
+              onChange={(e) => setAxisMode(e.target.value as AxisMode)}
+              disabled={!canCluster}
+              className="w-full mb-2 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="projection">類似度の2次元投影</option>
+              <option value="concept">概念アンカー軸（カスタム）</option>
+            </select>
+            {axisMode === 'concept' ? (
+              <>
+                <ConceptAxisEditor onApply={setConceptAxes} />
+                {!conceptPositions && !conceptError && conceptAxes && (
+                  <div className="mt-2 text-xs text-gray-500">アンカーを埋め込みベクトル化しています...</div>
+                )}
+                {conceptError && <div className="mt-2 text-xs text-red-600">{conceptError}</div>}
+              </>
+            ) : (
+              <>
+                <select
+                  value={projectionMethod}
+                  onChange={(e) => setProjectionMethod(e.target.value as ProjectionMethod)}
+                  disabled={!canCluster}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  {(Object.keys(PROJECTION_METHOD_LABELS) as ProjectionMethod[]).map(method => (
+                    <option key={method} value={method}>{PROJECTION_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+                <div className="mt-2 flex items-center space-x-3 text-sm text-gray-700">
+                  <label className="flex items-center">
+                    シード:
+                    <input
+                      type="number"
+                      value={projectionSeed}
+                      onChange={(e) => setProjectionSeed(Math.round(Number(e.target.value)) || 0)}
+                      className="ml-2 w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                  </label>
+                  <label className="flex items-center" title="既存企業の座標を固定し、新しく追加された企業だけを配置します">
+                    <input
+                      type="checkbox"
+                      checked={pinnedMode}
+                      onChange={(e) => setPinnedMode(e.target.checked)}
+                      disabled={!canCluster}
+                      className="mr-1"
+                    />
+                    <Pin className="w-3 h-3 mr-1" />
+                    レイアウトを固定
+                  </label>
+                </div>
+                {pinnedMode && (
+                  <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+                    <span>
+                      {storedLayout
+                        ? `保存済み: ${Object.keys(storedLayout.positions).length}社（${new Date(storedLayout.updatedAt).toLocaleString('ja-JP')}）`
+                        : '保存済みのレイアウトはありません'}
+                    </span>
+                    <button
+                      onClick={handleResetLayout}
+                      disabled={!storedLayout}
+                      className="ml-2 text-purple-600 hover:text-purple-800 disabled:text-gray-400"
+                    >
+                      配置し直す
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
           </div>
           
           <div>
@@ -466,6 +621,64 @@ export const CompetitivePositioningMap: React.FC = () => {
               />
               <span className="text-sm">企業名ラベルを表示</span>
             </label>
+            <div className="mt-3 space-y-2">
+              <select
+                value={colorMode}
+                onChange={(e) => setColorMode(e.target.value as ColorMode)}
+                disabled={!canCluster}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                <option value="category">色分け: 業界カテゴリ</option>
+                <option value="cluster">色分け: MVVクラスター（自動検出）</option>
+              </select>
+              {colorMode === 'cluster' && (
+                <>
+                  <select
+                    value={clusteringMethod}
+                    onChange={(e) => setClusteringMethod(e.target.value as ClusteringMethod)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {(Object.keys(CLUSTERING_METHOD_LABELS) as ClusteringMethod[]).map(method => (
+                      <option key={method} value={method}>{CLUSTERING_METHOD_LABELS[method]}</option>
+                    ))}
+                  </select>
+                  {clusteringMethod === 'kmeans' ? (
+                    <label className="flex items-center text-sm text-gray-700">
+                      クラスター数:
+                      <select
+                        value={clusterCount}
+                        onChange={(e) => setClusterCount(e.target.value === 'auto' ? 'auto' : Number(e.target.value))}
+                        className="ml-2 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      >
+                        <option value="auto">自動</option>
+                        {Array.from({ length: 9 }, (_, i) => i + 2).map(k => (
+                          <option key={k} value={k}>{k}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ) : (
+                    <label className="flex items-center text-sm text-gray-700">
+                      最小クラスターサイズ:
+                      <input
+                        type="number"
+                        min={2}
+                        value={minClusterSize}
+                        onChange={(e) => setMinClusterSize(Math.max(2, Number(e.target.value) || 2))}
+                        className="ml-2 w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      />
+                      社
+                    </label>
+                  )}
+                  {clusteringResult && (
+                    <div className="text-xs text-gray-500">
+                      {clusteringResult.clusters.length}クラスター
+                      {clusteringResult.noiseCount > 0 && ` / 所属なし ${clusteringResult.noiseCount}社`}
+                      {clusteringResult.silhouette !== null && ` / シルエット係数 ${clusteringResult.silhouette.toFixed(2)}`}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
           </div>
           
           <div>
@@ -477,18 +690,40 @@ export const CompetitivePositioningMap: React.FC = () => {
         
         <div className="mt-4 p-4 bg-blue-50 rounded-md">
           <h4 className="font-medium text-blue-900 mb-2">📊 マップの見方</h4>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-blue-800">
-            <div>
-              <strong>X軸:</strong> MVV類似度の第1主成分<br/>
-              <span className="text-xs">← より独特 ｜ より一般的 →</span>
+          {isConceptMode && conceptAxes ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-blue-800">
+              <div>
+                <strong>X軸:</strong> 「{conceptAxes.xAxis.negative}」↔「{conceptAxes.xAxis.positive}」<br/>
+                <span className="text-xs">各アンカーとのコサイン類似度の差（右ほど「{conceptAxes.xAxis.positive}」に近い）</span>
+              </div>
+              <div>
+                <strong>Y軸:</strong> 「{conceptAxes.yAxis.negative}」↔「{conceptAxes.yAxis.positive}」<br/>
+                <span className="text-xs">各アンカーとのコサイン類似度の差（上ほど「{conceptAxes.yAxis.positive}」に近い）</span>
+              </div>
             </div>
-            <div>
-              <strong>Y軸:</strong> MVV類似度の第2主成分<br/>
-              <span className="text-xs">← 伝統的 ｜ 革新的 →</span>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-blue-800">
+              <div>
+                <strong>X軸:</strong> {projectionMethod === 'pca' ? 'MVV埋め込みベクトルの第1主成分' : 'MVV類似度に基づく2次元投影の第1軸'}<br/>
+                <span className="text-xs">← より独特 ｜ より一般的 →</span>
+              </div>
+              <div>
+                <strong>Y軸:</strong> {projectionMethod === 'pca' ? 'MVV埋め込みベクトルの第2主成分' : 'MVV類似度に基づく2次元投影の第2軸'}<br/>
+                <span className="text-xs">← 伝統的 ｜ 革新的 →</span>
+              </div>
             </div>
-          </div>
+          )}
           <p className="text-xs text-blue-700 mt-2">
-            💡 距離が近い企業ほどMVVが類似しています。同じ色の企業は同業界です。
+            {isConceptMode
+              ? '💡 各軸の座標は、企業のMVV埋め込みベクトルと両端のアンカーとのコサイン類似度の差です（表示範囲に合わせて拡大）。'
+              : '💡 距離が近い企業ほどMVVが類似しています。'}
+            {!isConceptMode && (projectionMethod === 'tsne' || projectionMethod === 'umap')
+              ? '近傍関係を重視する手法のため、離れたグループ間の距離はおおよその目安です。'
+              : ''}
+            {!isConceptMode && pinnedMode && '固定レイアウトでは既存企業の位置を保ち、新しい企業は類似企業の近くに配置しています。'}
+            {isClusterMode
+              ? '同じ色の企業は埋め込みベクトルから自動検出した同じMVVクラスターで、ラベルはクラスターに特徴的なキーワードです。'
+              : '同じ色の企業は同業界です。'}
           </p>
         </div>
       </div>
@@ -559,18 +794,18 @@ export const CompetitivePositioningMap: React.FC = () => {
               <line x1={viewBox.x / zoomLevel} y1="0" x2={(viewBox.x + viewBox.width) / zoomLevel} y2="0" stroke="#9CA3AF" strokeWidth="1" />
               <line x1="0" y1={viewBox.y / zoomLevel} x2="0" y2={(viewBox.y + viewBox.height) / zoomLevel} stroke="#9CA3AF" strokeWidth="1" />
 
-              {/* 軸ラベル */}
+              {/* 軸ラベル（概念軸モードではアンカー） */}
               <text x="0" y="-85" className="text-xs" fill="#9CA3AF" textAnchor="middle">
-                革新的・先進的
+                {isConceptMode ? conceptAxes!.yAxis.positive : '革新的・先進的'}
               </text>
               <text x="0" y="95" className="text-xs" fill="#9CA3AF" textAnchor="middle">
-                伝統的・保守的
+                {isConceptMode ? conceptAxes!.yAxis.negative : '伝統的・保守的'}
               </text>
               <text x="-85" y="5" className="text-xs" fill="#9CA3AF" textAnchor="middle" transform="rotate(-90, -85, 5)">
-                独特・差別化
+                {isConceptMode ? conceptAxes!.xAxis.negative : '独特・差別化'}
               </text>
               <text x="85" y="5" className="text-xs" fill="#9CA3AF" textAnchor="middle" transform="rotate(90, 85, 5)">
-                一般的・標準的
+                {isConceptMode ? conceptAxes!.xAxis.positive : '一般的・標準的'}
               </text>
 
               {/* クラスター領域（フィルタ適用） */}
@@ -596,7 +831,7 @@ export const CompetitivePositioningMap: React.FC = () => {
                     fill={cluster.color}
                     fontSize="10"
                   >
-                    {cluster.category}
+                    {cluster.label}
                   </text>
                 </g>
               ))}
@@ -674,6 +909,25 @@ export const CompetitivePositioningMap: React.FC = () => {
                       <span className="font-medium text-gray-700">独自性:</span>
                       <div className="text-gray-900">{(selectedCompany.uniquenessScore * 100).toFixed(1)}%</div>
                     </div>
+                    {isConceptMode && conceptPositionMap.has(selectedCompany.id) && (
+                      <div className="col-span-2">
+                        <span className="font-medium text-gray-700">概念軸スコア:</span>
+                        <div className="text-gray-900 text-xs">
+                          {conceptAxes!.xAxis.positive}: {conceptPositionMap.get(selectedCompany.id)!.x.toFixed(3)}
+                          {' / '}
+                          {conceptAxes!.yAxis.positive}: {conceptPositionMap.get(selectedCompany.id)!.y.toFixed(3)}
+                        </div>
+                      </div>
+                    )}
+                    {isClusterMode && selectedCluster && (
+                      <div className="col-span-2">
+                        <span className="font-medium text-gray-700">MVVクラスター:</span>
+                        <div className="flex items-center text-gray-900">
+                          <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: selectedCluster.color }} />
+                          {selectedCluster.label}
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   {/* MVV表示 */}
@@ -727,20 +981,29 @@ export const CompetitivePositioningMap: React.FC = () => {
           {/* カテゴリ別統計（企業未選択時のみ表示） */}
           {!selectedCompany && (
             <div className="bg-white rounded-lg shadow-sm border p-4">
-              <h4 className="font-semibold text-gray-900 mb-3">カテゴリ別分布</h4>
+              <h4 className="font-semibold text-gray-900 mb-3">{isClusterMode ? 'MVVクラスター' : 'カテゴリ別分布'}</h4>
               <div className="space-y-3">
                 {clusters.map(cluster => (
-                  <div key={cluster.id} className="flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <div
-                        className="w-3 h-3 rounded-full"
-                        style={{ backgroundColor: cluster.color }}
-                      />
-                      <span className="text-sm text-gray-700">{cluster.category}</span>
+                  <div key={cluster.id}>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <div
+                          className="w-3 h-3 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: cluster.color }}
+                        />
+                        <span className="text-sm text-gray-700">{cluster.label}</span>
+                      </div>
+                      <span className="text-sm font-medium text-gray-900 flex-shrink-0">
+                        {cluster.companies.length}社
+                      </span>
                     </div>
-                    <span className="text-sm font-medium text-gray-900">
-                      {cluster.companies.length}社
-                    </span>
+                    {/* 業界をまたぐクラスターかどうかを確認できるよう、含まれる業界を表示 */}
+                    {cluster.categories && (
+                      <div className="ml-5 text-xs text-gray-500">
+                        {cluster.categories.length}業界: {cluster.categories.slice(0, 3).map(c => `${c.category}(${c.count})`).join('、')}
+                        {cluster.categories.length > 3 && ' ほか'}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -755,7 +1018,7 @@ export const CompetitivePositioningMap: React.FC = () => {
               <li>• マウスホイールまたはボタンで拡大/縮小</li>
               <li>• 🖱️ 拡大時はドラッグで移動可能</li>
               <li>• 業界フィルターで業界別表示</li>
-              <li>• 点線円はカテゴリクラスター</li>
+              <li>• 点線円は{isClusterMode ? 'MVVクラスター' : 'カテゴリクラスター'}</li>
               <li>• 距離が近いほど類似度が高い</li>
             </ul>
           </div>
@@ -0,0 +1,221 @@
+/**
+ * 複合語候補の自動検出
+ * 全企業のMVVテキストからPMI・分岐エントロピーで候補を抽出し、辞書への採用・却下を行う
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Check, X, Sparkles, RotateCcw, ChevronDown, ChevronUp } from 'lucide-react';
+import { useAnalysisStore } from '../../stores/analysisStore';
+import { useAnalysisCompute } from '../../hooks/useAnalysisCompute';
+import { useSegmentationDictionary } from '../../hooks/useSegmentationDictionary';
+import { analysisComputeService, toComputeCompany, type ComputeCallbacks } from '../../services/analysisComputeService';
+import { segmentationDictionary, GENERAL_PROFILE_ID } from '../../services/segmentationDictionary';
+import type { ComputePhase } from '../../services/analysisCompute';
+import type { CompoundDiscoveryResult } from '../../services/compoundTermDiscovery';
+import { ComputeProgressBanner } from './ComputeProgressBanner';
+
+const COMPUTE_PHASES: ComputePhase[] = ['discovery'];
+const VISIBLE_CANDIDATES = 50;
+
+interface CompoundTermDiscoveryPanelProps {
+  onError: (message: string) => void;
+}
+
+export const CompoundTermDiscoveryPanel: React.FC<CompoundTermDiscoveryPanelProps> = ({ onError }) => {
+  const { data } = useAnalysisStore();
+  const { profiles, rejectedCompounds } = useSegmentationDictionary();
+  const [targetProfileId, setTargetProfileId] = useState<string>(GENERAL_PROFILE_ID);
+  const [showRejected, setShowRejected] = useState(false);
+
+  // MVVテキストを持つ企業のみ対象（企業データが更新されると再計算される）
+  const corpusCompanies = useMemo(() => {
+    if (!data || !data.companies) return null;
+    return data.companies
+      .filter(company => company.mission || company.vision || company.values)
+      .map(toComputeCompany);
+  }, [data]);
+
+  const startCompute = useMemo(() => {
+    if (!corpusCompanies || corpusCompanies.length === 0) return null;
+    return (callbacks: ComputeCallbacks<CompoundDiscoveryResult>) =>
+      analysisComputeService.computeCompoundCandidates(corpusCompanies, {}, callbacks);
+  }, [corpusCompanies]);
+
+  const { result, progress, status, error, cancel, restart } = useAnalysisCompute(startCompute, COMPUTE_PHASES);
+
+  // 登録済みの複合語・却下済みの候補は表示しない
+  const candidates = useMemo(() => {
+    if (!result) return [];
+    const registered = new Set(profiles.flatMap(profile => profile.compounds));
+    return result.candidates
+      .filter(candidate => !registered.has(candidate.term) && !rejectedCompounds.has(candidate.term))
+      .slice(0, VISIBLE_CANDIDATES);
+  }, [result, profiles, rejectedCompounds]);
+
+  const handleAccept = async (term: string) => {
+    try {
+      await segmentationDictionary.addTerms(targetProfileId, 'compounds', [term]);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '辞書の更新に失敗しました');
+    }
+  };
+
+  const handleReject = async (term: string) => {
+    try {
+      await segmentationDictionary.rejectCompound(term);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '候補の却下に失敗しました');
+    }
+  };
+
+  const handleRestore = async (term: string) => {
+    try {
+      await segmentationDictionary.restoreRejectedCompound(term);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '候補の復元に失敗しました');
+    }
+  };
+
+  if (!corpusCompanies || corpusCompanies.length === 0) {
+    return (
+      <div className="text-sm text-gray-500 py-6 text-center">
+        MVVが登録された企業が無いため、複合語候補を検出できません。
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-600">
+          {corpusCompanies.length}社のMVVから、分割されているが一緒に現れやすい語の並びを検出します
+          {result && `（${result.tokenCount.toLocaleString()}語を解析）`}。
+        </p>
+        <div className="flex items-center space-x-2 text-sm">
+          <label className="text-gray-700">採用先:</label>
+          <select
+            value={targetProfileId}
+            onChange={(e) => setTargetProfileId(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <ComputeProgressBanner
+        status={status}
+        progress={progress}
+        label="複合語候補を検出中"
+        onCancel={cancel}
+        onRestart={restart}
+      />
+
+      {status === 'error' && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          候補の検出に失敗しました: {error}
+        </div>
+      )}
+
+      {status === 'completed' && candidates.length === 0 && (
+        <div className="text-sm text-gray-500 py-6 text-center">
+          新しい複合語候補はありません。
+        </div>
+      )}
+
+      {candidates.length > 0 && (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">候補</th>
+                <th className="px-3 py-2 text-right font-medium">出現</th>
+                <th className="px-3 py-2 text-right font-medium" title="構成語間の自己相互情報量（分割位置ごとの最小値）">PMI</th>
+                <th className="px-3 py-2 text-right font-medium" title="前後に続く語の多様さ（左 / 右）">分岐エントロピー</th>
+                <th className="px-3 py-2 text-left font-medium">企業例</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {candidates.map(candidate => (
+                <tr key={candidate.term} className="hover:bg-gray-50">
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{candidate.term}</div>
+                    <div className="text-xs text-gray-400">{candidate.parts.join(' | ')}</div>
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700 whitespace-nowrap">
+                    {candidate.frequency}回 / {candidate.documentFrequency}社
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">{candidate.pmi.toFixed(1)}</td>
+                  <td className="px-3 py-2 text-right text-gray-700 whitespace-nowrap">
+                    {candidate.leftEntropy.toFixed(1)} / {candidate.rightEntropy.toFixed(1)}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-gray-600">
+                    {candidate.exampleCompanies.map(example => (
+                      <div key={example.companyId} title={example.snippet} className="truncate max-w-xs">
+                        {example.companyName}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => handleAccept(candidate.term)}
+                      className="inline-flex items-center px-2 py-1 text-xs text-green-700 hover:bg-green-50 rounded"
+                    >
+                      <Check className="w-3 h-3 mr-0.5" />
+                      採用
+                    </button>
+                    <button
+                      onClick={() => handleReject(candidate.term)}
+                      className="inline-flex items-center px-2 py-1 text-xs text-gray-500 hover:bg-gray-100 rounded"
+                    >
+                      <X className="w-3 h-3 mr-0.5" />
+                      却下
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {status === 'completed' && (
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span className="flex items-center">
+            <Sparkles className="w-3 h-3 mr-1" />
+            採用した候補は選択中のプロファイルの複合語に追加されます
+          </span>
+          {rejectedCompounds.size > 0 && (
+            <button
+              onClick={() => setShowRejected(!showRejected)}
+              className="flex items-center text-gray-600 hover:text-gray-900"
+            >
+              却下済み {rejectedCompounds.size}件
+              {showRejected ? <ChevronUp className="w-3 h-3 ml-1" /> : <ChevronDown className="w-3 h-3 ml-1" />}
+            </button>
+          )}
+        </div>
+      )}
+
+      {showRejected && rejectedCompounds.size > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {[...rejectedCompounds].map(term => (
+            <span key={term} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">
+              {term}
+              <button
+                onClick={() => handleRestore(term)}
+                className="ml-1 text-gray-400 hover:text-blue-600"
+                title="候補に戻す"
+              >
+                <RotateCcw className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { ProgressBar } from '../common';
+import type { AnalysisComputeStatus } from '../../hooks/useAnalysisCompute';
+import { Cpu, XCircle, RotateCcw } from 'lucide-react';
+
+interface ComputeProgressBannerProps {
+  status: AnalysisComputeStatus;
+  progress: number;
+  label: string;
+  onCancel: () => void;
+  onRestart: () => void;
+}
+
+/**
+ * バックグラウンド計算の進捗表示（途中結果を表示しながら計算を続ける）
+ */
+export const ComputeProgressBanner: React.FC<ComputeProgressBannerProps> = ({
+  status,
+  progress,
+  label,
+  onCancel,
+  onRestart
+}) => {
+  if (status === 'computing') {
+    return (
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center text-sm text-blue-800">
+            <Cpu className="w-4 h-4 mr-2 animate-pulse" />
+            {label}（バックグラウンドで計算中・途中結果を表示しています）
+          </div>
+          <button
+            onClick={onCancel}
+            className="flex items-center text-sm text-blue-700 hover:text-blue-900"
+          >
+            <XCircle className="w-4 h-4 mr-1" />
+            キャンセル
+          </button>
+        </div>
+        <ProgressBar value={progress * 100} size="sm" />
+      </div>
+    );
+  }
+
+  if (status === 'cancelled') {
+    return (
+      <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-center justify-between">
+        <span className="text-sm text-amber-800">
+          計算を中断しました（{Math.round(progress * 100)}%）。表示中の結果は途中結果です。
+        </span>
+        <button
+          onClick={onRestart}
+          className="flex items-center text-sm text-amber-700 hover:text-amber-900"
+        >
+          <RotateCcw className="w-4 h-4 mr-1" />
+          再計算
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+};
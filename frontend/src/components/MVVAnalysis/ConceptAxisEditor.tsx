@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Save, Trash2, Play } from 'lucide-react';
+import {
+  conceptAxisService,
+  isValidConceptAxis,
+  type ConceptAxis,
+  type ConceptAxisPreset
+} from '../../services/conceptAxes';
+
+export type ConceptAxes = Pick<ConceptAxisPreset, 'xAxis' | 'yAxis'>;
+
+interface ConceptAxisEditorProps {
+  onApply: (axes: ConceptAxes) => void;
+}
+
+const AXIS_FIELDS: Array<{ key: keyof ConceptAxes; label: string; negativeLabel: string; positiveLabel: string }> = [
+  { key: 'xAxis', label: 'X軸', negativeLabel: '左端', positiveLabel: '右端' },
+  { key: 'yAxis', label: 'Y軸', negativeLabel: '下端', positiveLabel: '上端' }
+];
+
+/**
+ * 概念アンカー軸の編集とプリセット管理
+ */
+export const ConceptAxisEditor: React.FC<ConceptAxisEditorProps> = ({ onApply }) => {
+  const [presets, setPresets] = useState<ConceptAxisPreset[]>(() => conceptAxisService.getPresets());
+  const [selectedId, setSelectedId] = useState<string | null>(() => conceptAxisService.getActivePreset()?.id ?? null);
+  const [draft, setDraft] = useState<ConceptAxes & { name: string }>(() => {
+    const active = conceptAxisService.getActivePreset();
+    return active
+      ? { name: active.name, xAxis: active.xAxis, yAxis: active.yAxis }
+      : { name: '', xAxis: { negative: '', positive: '' }, yAxis: { negative: '', positive: '' } };
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const canApply = isValidConceptAxis(draft.xAxis) && isValidConceptAxis(draft.yAxis);
+
+  const updateAnchor = (axis: keyof ConceptAxes, end: keyof ConceptAxis, value: string) => {
+    setDraft(prev => ({ ...prev, [axis]: { ...prev[axis], [end]: value } }));
+  };
+
+  const handleSelectPreset = (id: string) => {
+    const preset = presets.find(item => item.id === id);
+    if (!preset) return;
+    setSelectedId(preset.id);
+    setDraft({ name: preset.name, xAxis: preset.xAxis, yAxis: preset.yAxis });
+    setError(null);
+    conceptAxisService.setActivePresetId(preset.id);
+    onApply({ xAxis: preset.xAxis, yAxis: preset.yAxis });
+  };
+
+  const handleSave = (asNew: boolean) => {
+    try {
+      const saved = conceptAxisService.savePreset({ ...draft, id: asNew ? undefined : selectedId ?? undefined });
+      setPresets(conceptAxisService.getPresets());
+      setSelectedId(saved.id);
+      setError(null);
+      conceptAxisService.setActivePresetId(saved.id);
+      onApply({ xAxis: saved.xAxis, yAxis: saved.yAxis });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'プリセットの保存に失敗しました');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selectedId) return;
+    const preset = presets.find(item => item.id === selectedId);
+    if (!preset || !window.confirm(`プリセット「${preset.name}」を削除しますか？`)) return;
+    conceptAxisService.deletePreset(selectedId);
+    setPresets(conceptAxisService.getPresets());
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <select
+          value={selectedId ?? ''}
+          onChange={(e) => handleSelectPreset(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        >
+          <option value="" disabled>プリセットを選択</option>
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleDelete}
+          disabled={!selectedId}
+          className="p-2 text-gray-500 hover:text-red-600 disabled:text-gray-300"
+          title="プリセットを削除"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {AXIS_FIELDS.map(field => (
+        <div key={field.key}>
+          <div className="text-xs font-medium text-gray-600 mb-1">{field.label}</div>
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={draft[field.key].negative}
+              onChange={(e) => updateAnchor(field.key, 'negative', e.target.value)}
+              placeholder={`${field.negativeLabel}のアンカー`}
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+            <span className="text-gray-400">↔</span>
+            <input
+              type="text"
+              value={draft[field.key].positive}
+              onChange={(e) => updateAnchor(field.key, 'positive', e.target.value)}
+              placeholder={`${field.positiveLabel}のアンカー`}
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+        </div>
+      ))}
+
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+        placeholder="プリセット名"
+        className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+      />
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => onApply({ xAxis: draft.xAxis, yAxis: draft.yAxis })}
+          disabled={!canApply}
+          className="inline-flex items-center px-3 py-1 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700 disabled:bg-gray-300"
+        >
+          <Play className="w-3 h-3 mr-1" />
+          適用
+        </button>
+        <button
+          onClick={() => handleSave(false)}
+          disabled={!canApply}
+          className="inline-flex items-center px-3 py-1 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-50 disabled:text-gray-400"
+        >
+          <Save className="w-3 h-3 mr-1" />
+          {selectedId ? '上書き保存' : 'プリセット保存'}
+        </button>
+        {selectedId && (
+          <button
+            onClick={() => handleSave(true)}
+            disabled={!canApply}
+            className="px-3 py-1 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-50 disabled:text-gray-400"
+          >
+            新規保存
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
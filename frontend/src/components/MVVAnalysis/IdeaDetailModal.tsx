@@ -3,7 +3,7 @@
  * BusinessInnovationLabから分離された独立コンポーネント
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { 
   Star, 
   Eye, 
@@ -11,23 +11,34 @@ import {
   Building2, 
   Clock, 
   Tag, 
-  CheckCircle
+  CheckCircle,
+  Sparkles,
+  RefreshCw
 } from 'lucide-react';
 import type { StoredBusinessIdea } from '../../services/ideaStorage';
+import { IdeaVersionTree } from './IdeaVersionTree';
 
 interface IdeaDetailModalProps {
   isOpen: boolean;
   idea: StoredBusinessIdea | null;
   onClose: () => void;
   onToggleStar: (ideaId: string) => void;
+  onSelectVersion: (idea: StoredBusinessIdea) => void;
+  onRefine: (idea: StoredBusinessIdea, instructions: string) => void;
+  isRefining: boolean;
 }
 
 export const IdeaDetailModal: React.FC<IdeaDetailModalProps> = ({
   isOpen,
   idea,
   onClose,
-  onToggleStar
+  onToggleStar,
+  onSelectVersion,
+  onRefine,
+  isRefining
 }) => {
+  const [refineInstructions, setRefineInstructions] = useState('');
+
   if (!isOpen || !idea) return null;
 
   // 背景クリックでモーダルを閉じる
@@ -253,6 +264,45 @@ export const IdeaDetailModal: React.FC<IdeaDetailModalProps> = ({
             </div>
           )}
 
+          {/* バージョンツリー・世代間差分 */}
+          <IdeaVersionTree idea={idea} onSelectVersion={onSelectVersion} />
+
+          {/* アイデアの改良 */}
+          <div className="bg-indigo-50 rounded-lg border border-indigo-200 p-4">
+            <h4 className="text-md font-semibold text-indigo-900 mb-2 flex items-center">
+              <Sparkles className="h-5 w-5 mr-2" />
+              このアイデアを改良
+            </h4>
+            <p className="text-xs text-indigo-800 mb-3">
+              現在のリーンキャンバス{idea.verification?.improvementSuggestions ? 'とAI検証の改善提案' : ''}をもとに、次の世代のアイデアを生成します。
+              {!idea.verification && '（AI検証を実行すると改善提案も反映されます）'}
+            </p>
+            <textarea
+              value={refineInstructions}
+              onChange={(e) => setRefineInstructions(e.target.value)}
+              placeholder="追加の改良指示（任意）例: 収益モデルをサブスクリプション中心に見直す"
+              rows={2}
+              className="w-full px-3 py-2 text-sm border border-indigo-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <div className="flex justify-end mt-2">
+              <button
+                onClick={() => {
+                  onRefine(idea, refineInstructions);
+                  setRefineInstructions('');
+                }}
+                disabled={isRefining}
+                className="flex items-center px-4 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRefining ? (
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Sparkles className="h-4 w-4 mr-2" />
+                )}
+                {isRefining ? '生成中...' : '改良版を生成'}
+              </button>
+            </div>
+          </div>
+
           {/* 生成メタデータ */}
           <div className="bg-gray-50 rounded-lg p-4">
             <h4 className="text-md font-semibold text-gray-900 mb-3">生成情報</h4>
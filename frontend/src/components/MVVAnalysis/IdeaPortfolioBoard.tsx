@@ -0,0 +1,417 @@
+/**
+ * IdeaPortfolioBoard - 保存済みアイデアのポートフォリオ評価ボード
+ * 重み付きスコアによる企業横断ランキング、実装容易性×市場性のバブルチャート、最大4件の比較
+ */
+
+import React, { useMemo, useState } from 'react';
+import { BarChart3, X, Save, Trash2, Eye, CheckCircle, Columns } from 'lucide-react';
+import type { StoredBusinessIdea } from '../../services/ideaStorage';
+import {
+  DEFAULT_PORTFOLIO_WEIGHTS,
+  PORTFOLIO_WEIGHT_LABELS,
+  rankIdeas,
+  getWeightPresets,
+  saveWeightPreset,
+  deleteWeightPreset,
+  type PortfolioWeights,
+  type PortfolioWeightPreset,
+  type ScoredIdea
+} from '../../services/ideaPortfolio';
+
+interface IdeaPortfolioBoardProps {
+  isOpen: boolean;
+  ideas: StoredBusinessIdea[];
+  onClose: () => void;
+  onViewDetails: (idea: StoredBusinessIdea) => void;
+}
+
+const MAX_COMPARE_IDEAS = 4;
+
+// バブルチャートの描画領域（SVG座標）
+const CHART = { width: 560, height: 360, padding: 44 };
+const COMPANY_COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626', '#0891b2', '#db2777', '#65a30d'];
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${(value * 100).toFixed(0)}%`;
+
+export const IdeaPortfolioBoard: React.FC<IdeaPortfolioBoardProps> = ({
+  isOpen,
+  ideas,
+  onClose,
+  onViewDetails
+}) => {
+  const [weights, setWeights] = useState<PortfolioWeights>(DEFAULT_PORTFOLIO_WEIGHTS);
+  const [presets, setPresets] = useState<PortfolioWeightPreset[]>(() => getWeightPresets());
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const ranked = useMemo(
+    () => rankIdeas(verifiedOnly ? ideas.filter(idea => !!idea.verification) : ideas, weights),
+    [ideas, weights, verifiedOnly]
+  );
+
+  const companyColors = useMemo(() => {
+    const colors = new Map<string, string>();
+    ranked.forEach(({ idea }) => {
+      if (!colors.has(idea.companyId)) {
+        colors.set(idea.companyId, COMPANY_COLORS[colors.size % COMPANY_COLORS.length]);
+      }
+    });
+    return colors;
+  }, [ranked]);
+
+  const compared = compareIds
+    .map(id => ranked.find(scored => scored.idea.id === id))
+    .filter((scored): scored is ScoredIdea => !!scored);
+
+  if (!isOpen) return null;
+
+  const toggleCompare = (ideaId: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(ideaId)) return prev.filter(id => id !== ideaId);
+      if (prev.length >= MAX_COMPARE_IDEAS) return prev;
+      return [...prev, ideaId];
+    });
+  };
+
+  const handleWeightChange = (key: keyof PortfolioWeights, value: number) => {
+    setWeights(prev => ({ ...prev, [key]: value }));
+    setSelectedPresetId('');
+  };
+
+  const handleSelectPreset = (presetId: string) => {
+    setSelectedPresetId(presetId);
+    const preset = presets.find(p => p.id === presetId);
+    if (preset) {
+      setWeights(preset.weights);
+      setPresetName(preset.name);
+    } else {
+      setWeights(DEFAULT_PORTFOLIO_WEIGHTS);
+    }
+  };
+
+  const handleSavePreset = () => {
+    try {
+      const next = saveWeightPreset(presetName, weights);
+      setPresets(next);
+      setSelectedPresetId(next.find(p => p.name === presetName.trim())?.id ?? '');
+      setPresetError(null);
+    } catch (error) {
+      setPresetError(error instanceof Error ? error.message : 'プリセットの保存に失敗しました');
+    }
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPresetId) return;
+    setPresets(deleteWeightPreset(selectedPresetId));
+    setSelectedPresetId('');
+    setPresetName('');
+  };
+
+  const toChartX = (value: number) => CHART.padding + value * (CHART.width - CHART.padding * 2);
+  const toChartY = (value: number) => CHART.height - CHART.padding - value * (CHART.height - CHART.padding * 2);
+
+  // 比較表で最も高い値を強調
+  const bestOf = (values: Array<number | null>) => Math.max(...values.map(v => v ?? -1));
+
+  const comparisonRows: Array<{ label: string; values: Array<number | null>; format?: (value: number) => string }> = [
+    { label: '総合スコア', values: compared.map(s => s.score), format: (value) => value.toFixed(1) },
+    { label: PORTFOLIO_WEIGHT_LABELS.mvvAlignment, values: compared.map(s => s.components.mvvAlignment) },
+    { label: PORTFOLIO_WEIGHT_LABELS.implementation, values: compared.map(s => s.components.implementation) },
+    { label: PORTFOLIO_WEIGHT_LABELS.marketPotential, values: compared.map(s => s.components.marketPotential) },
+    { label: PORTFOLIO_WEIGHT_LABELS.confidence, values: compared.map(s => s.components.confidence) }
+  ];
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-500 bg-opacity-60 flex items-center justify-center z-50 p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-xl shadow-2xl max-w-7xl max-h-[90vh] overflow-y-auto w-full relative">
+        {/* ヘッダー */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+          <div className="flex items-center">
+            <BarChart3 className="h-6 w-6 text-blue-600 mr-3" />
+            <h2 className="text-xl font-bold text-gray-900">ポートフォリオボード</h2>
+            <span className="ml-3 text-sm text-gray-500">{ranked.length}件のアイデアを企業横断で評価</span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* 重み設定 */}
+          <div className="bg-gray-50 rounded-lg p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <h3 className="text-md font-semibold text-gray-900">スコアの重み</h3>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <select
+                  value={selectedPresetId}
+                  onChange={(e) => handleSelectPreset(e.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  <option value="">標準</option>
+                  {presets.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="プリセット名"
+                  className="border border-gray-300 rounded px-2 py-1 w-36"
+                />
+                <button
+                  onClick={handleSavePreset}
+                  className="flex items-center px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  保存
+                </button>
+                <button
+                  onClick={handleDeletePreset}
+                  disabled={!selectedPresetId}
+                  className="flex items-center px-3 py-1 border border-gray-300 rounded hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  削除
+                </button>
+              </div>
+            </div>
+            {presetError && <p className="text-xs text-red-600 mb-2">{presetError}</p>}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {(Object.keys(PORTFOLIO_WEIGHT_LABELS) as Array<keyof PortfolioWeights>).map(key => (
+                <label key={key} className="text-sm">
+                  <div className="flex justify-between text-gray-700 mb-1">
+                    <span>{PORTFOLIO_WEIGHT_LABELS[key]}</span>
+                    <span className="font-medium">{weights[key]}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={weights[key]}
+                    onChange={(e) => handleWeightChange(key, Number(e.target.value))}
+                    className="w-full"
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              未検証のアイデアは検証信頼度を除いた重みで正規化して評価します。
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {/* ランキング */}
+            <div className="border border-gray-200 rounded-lg">
+              <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+                <h3 className="text-md font-semibold text-gray-900">ランキング</h3>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={verifiedOnly}
+                    onChange={(e) => setVerifiedOnly(e.target.checked)}
+                    className="mr-2"
+                  />
+                  検証済みのみ
+                </label>
+              </div>
+              <div className="max-h-[420px] overflow-y-auto divide-y divide-gray-100">
+                {ranked.length === 0 ? (
+                  <div className="px-4 py-8 text-center text-sm text-gray-500">対象のアイデアがありません</div>
+                ) : ranked.map(scored => {
+                  const isCompared = compareIds.includes(scored.idea.id);
+                  return (
+                    <div key={scored.idea.id} className={`flex items-center px-4 py-2 text-sm ${isCompared ? 'bg-blue-50' : ''}`}>
+                      <input
+                        type="checkbox"
+                        checked={isCompared}
+                        disabled={!isCompared && compareIds.length >= MAX_COMPARE_IDEAS}
+                        onChange={() => toggleCompare(scored.idea.id)}
+                        className="mr-3"
+                        title={`比較に追加（最大${MAX_COMPARE_IDEAS}件）`}
+                      />
+                      <span className="w-8 text-gray-500 font-medium">#{scored.rank}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center">
+                          <span className="truncate font-medium text-gray-900">{scored.idea.title}</span>
+                          {scored.idea.verification && <CheckCircle className="h-3.5 w-3.5 text-green-600 ml-1 flex-shrink-0" />}
+                        </div>
+                        <div className="flex items-center text-xs text-gray-500">
+                          <span
+                            className="inline-block w-2 h-2 rounded-full mr-1"
+                            style={{ backgroundColor: companyColors.get(scored.idea.companyId) }}
+                          />
+                          <span className="truncate">{scored.idea.companyName}</span>
+                        </div>
+                      </div>
+                      <div className="w-24 ml-2">
+                        <div className="text-right font-bold text-gray-900">{scored.score.toFixed(1)}</div>
+                        <div className="w-full bg-gray-200 rounded-full h-1.5">
+                          <div className="bg-blue-600 h-1.5 rounded-full" style={{ width: `${scored.score}%` }} />
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => onViewDetails(scored.idea)}
+                        className="ml-3 p-1 text-gray-400 hover:text-blue-600"
+                        title="詳細を表示"
+                      >
+                        <Eye className="h-4 w-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* バブルチャート */}
+            <div className="border border-gray-200 rounded-lg p-4">
+              <h3 className="text-md font-semibold text-gray-900 mb-1">実装容易性 × 市場性</h3>
+              <p className="text-xs text-gray-500 mb-2">バブルの大きさは総合スコア。クリックで比較に追加します。</p>
+              <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto">
+                {/* 象限 */}
+                <rect
+                  x={toChartX(0.5)} y={toChartY(1)}
+                  width={toChartX(1) - toChartX(0.5)} height={toChartY(0.5) - toChartY(1)}
+                  fill="#f0fdf4"
+                />
+                <line x1={toChartX(0.5)} y1={toChartY(0)} x2={toChartX(0.5)} y2={toChartY(1)} stroke="#d1d5db" strokeDasharray="4 4" />
+                <line x1={toChartX(0)} y1={toChartY(0.5)} x2={toChartX(1)} y2={toChartY(0.5)} stroke="#d1d5db" strokeDasharray="4 4" />
+                <rect
+                  x={toChartX(0)} y={toChartY(1)}
+                  width={toChartX(1) - toChartX(0)} height={toChartY(0) - toChartY(1)}
+                  fill="none" stroke="#9ca3af"
+                />
+                {[0, 0.25, 0.5, 0.75, 1].map(tick => (
+                  <g key={tick} fontSize={10} fill="#6b7280">
+                    <text x={toChartX(tick)} y={toChartY(0) + 14} textAnchor="middle">{tick * 100}%</text>
+                    <text x={toChartX(0) - 6} y={toChartY(tick) + 3} textAnchor="end">{tick * 100}%</text>
+                  </g>
+                ))}
+                <text x={CHART.width / 2} y={CHART.height - 6} textAnchor="middle" fontSize={11} fill="#374151">実装容易性</text>
+                <text
+                  x={12} y={CHART.height / 2} textAnchor="middle" fontSize={11} fill="#374151"
+                  transform={`rotate(-90 12 ${CHART.height / 2})`}
+                >
+                  市場性
+                </text>
+                <text x={toChartX(1) - 4} y={toChartY(1) + 12} textAnchor="end" fontSize={10} fill="#15803d">有望領域</text>
+
+                {/* スコアの低いものから描画して高スコアを前面に */}
+                {[...ranked].reverse().map(scored => {
+                  const isCompared = compareIds.includes(scored.idea.id);
+                  return (
+                    <circle
+                      key={scored.idea.id}
+                      cx={toChartX(scored.components.implementation)}
+                      cy={toChartY(scored.components.marketPotential)}
+                      r={4 + (scored.score / 100) * 14}
+                      fill={companyColors.get(scored.idea.companyId)}
+                      fillOpacity={isCompared ? 0.85 : 0.45}
+                      stroke={isCompared ? '#1e3a8a' : '#ffffff'}
+                      strokeWidth={isCompared ? 2.5 : 1}
+                      className="cursor-pointer"
+                      onClick={() => toggleCompare(scored.idea.id)}
+                    >
+                      <title>
+                        {`#${scored.rank} ${scored.idea.title}（${scored.idea.companyName}）\nスコア ${scored.score.toFixed(1)} / 実装容易性 ${formatPercent(scored.components.implementation)} / 市場性 ${formatPercent(scored.components.marketPotential)}`}
+                      </title>
+                    </circle>
+                  );
+                })}
+              </svg>
+            </div>
+          </div>
+
+          {/* 比較 */}
+          <div className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-md font-semibold text-gray-900 flex items-center">
+                <Columns className="h-5 w-5 mr-2 text-blue-600" />
+                アイデア比較（{compared.length}/{MAX_COMPARE_IDEAS}）
+              </h3>
+              {compared.length > 0 && (
+                <button onClick={() => setCompareIds([])} className="text-sm text-gray-600 hover:text-gray-900">
+                  選択をクリア
+                </button>
+              )}
+            </div>
+
+            {compared.length === 0 ? (
+              <p className="text-sm text-gray-500">ランキングのチェックボックスまたはバブルをクリックして、最大{MAX_COMPARE_IDEAS}件を比較できます。</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm border border-gray-200 table-fixed">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-700 w-32">項目</th>
+                      {compared.map(scored => (
+                        <th key={scored.idea.id} className="px-3 py-2 text-left font-medium text-gray-900 align-top">
+                          <div className="truncate" title={scored.idea.title}>#{scored.rank} {scored.idea.title}</div>
+                          <div className="text-xs font-normal text-gray-500 truncate">{scored.idea.companyName}</div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {comparisonRows.map(row => {
+                      const best = bestOf(row.values);
+                      return (
+                        <tr key={row.label}>
+                          <td className="px-3 py-2 text-gray-600">{row.label}</td>
+                          {row.values.map((value, index) => (
+                            <td
+                              key={compared[index].idea.id}
+                              className={`px-3 py-2 ${value !== null && value === best && compared.length > 1 ? 'font-bold text-green-700' : 'text-gray-900'}`}
+                            >
+                              {row.format && value !== null ? row.format(value) : formatPercent(value)}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                    <tr>
+                      <td className="px-3 py-2 text-gray-600">検証判定</td>
+                      {compared.map(scored => (
+                        <td key={scored.idea.id} className="px-3 py-2 text-gray-900">
+                          {scored.idea.verification?.overallAssessment?.recommendation?.decision ?? '—'}
+                        </td>
+                      ))}
+                    </tr>
+                    <tr className="align-top">
+                      <td className="px-3 py-2 text-gray-600">独自の価値提案</td>
+                      {compared.map(scored => (
+                        <td key={scored.idea.id} className="px-3 py-2 text-xs text-gray-800">{scored.idea.leanCanvas.valueProposition}</td>
+                      ))}
+                    </tr>
+                    <tr className="align-top">
+                      <td className="px-3 py-2 text-gray-600">顧客セグメント</td>
+                      {compared.map(scored => (
+                        <td key={scored.idea.id} className="px-3 py-2 text-xs text-gray-800">{scored.idea.leanCanvas.targetCustomers.join('、')}</td>
+                      ))}
+                    </tr>
+                    <tr className="align-top">
+                      <td className="px-3 py-2 text-gray-600">収益の流れ</td>
+                      {compared.map(scored => (
+                        <td key={scored.idea.id} className="px-3 py-2 text-xs text-gray-800">{scored.idea.leanCanvas.revenueStreams.join('、')}</td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+/**
+ * IdeaVersionTree - アイデアの系譜ツリーと世代間のリーンキャンバス差分
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitBranch, GitCompare, CheckCircle } from 'lucide-react';
+import { DiffText } from '../common';
+import type { StoredBusinessIdea } from '../../services/ideaStorage';
+import { getIdeaLineage, compareLeanCanvas, type IdeaLineageNode } from '../../services/ideaLineage';
+
+interface IdeaVersionTreeProps {
+  idea: StoredBusinessIdea;
+  onSelectVersion: (idea: StoredBusinessIdea) => void;
+}
+
+const flattenLineage = (nodes: IdeaLineageNode[]): StoredBusinessIdea[] =>
+  nodes.flatMap(node => [node.idea, ...flattenLineage(node.children)]);
+
+export const IdeaVersionTree: React.FC<IdeaVersionTreeProps> = ({ idea, onSelectVersion }) => {
+  const [lineage, setLineage] = useState<IdeaLineageNode[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [compareTargetId, setCompareTargetId] = useState<string | null>(idea.parentIdeaId ?? null);
+
+  useEffect(() => {
+    let active = true;
+    setIsLoading(true);
+    setCompareTargetId(idea.parentIdeaId ?? null);
+
+    getIdeaLineage(idea)
+      .then(nodes => {
+        if (active) setLineage(nodes);
+      })
+      .catch(error => {
+        console.error('Failed to load idea lineage:', error);
+        if (active) setLineage([{ idea, children: [] }]);
+      })
+      .finally(() => {
+        if (active) setIsLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [idea]);
+
+  const versions = useMemo(() => flattenLineage(lineage), [lineage]);
+  const compareTarget = versions.find(version => version.id === compareTargetId && version.id !== idea.id);
+  const canvasDiff = useMemo(
+    () => compareTarget ? compareLeanCanvas(compareTarget.leanCanvas, idea.leanCanvas) : [],
+    [compareTarget, idea.leanCanvas]
+  );
+  const changedBlocks = canvasDiff.filter(block => block.changed);
+  const unchangedBlocks = canvasDiff.filter(block => !block.changed);
+
+  const renderNode = (node: IdeaLineageNode, depth: number): React.ReactNode => {
+    const isCurrent = node.idea.id === idea.id;
+    const isCompareTarget = node.idea.id === compareTarget?.id;
+
+    return (
+      <li key={node.idea.id}>
+        <div
+          className={`flex items-center justify-between rounded-md px-2 py-1.5 text-sm ${
+            isCurrent ? 'bg-blue-100' : isCompareTarget ? 'bg-amber-50' : 'hover:bg-gray-100'
+          }`}
+          style={{ marginLeft: depth * 20 }}
+        >
+          <button
+            onClick={() => !isCurrent && onSelectVersion(node.idea)}
+            className={`flex items-center min-w-0 text-left ${isCurrent ? 'cursor-default' : 'hover:text-blue-700'}`}
+          >
+            {depth > 0 && <span className="text-gray-400 mr-1">└</span>}
+            <span className="text-xs font-medium text-gray-500 mr-2 flex-shrink-0">
+              第{node.idea.generation ?? 1}世代
+            </span>
+            <span className={`truncate ${isCurrent ? 'font-semibold text-blue-900' : 'text-gray-800'}`}>
+              {node.idea.title}
+            </span>
+            {node.idea.verification && <CheckCircle className="h-3.5 w-3.5 text-green-600 ml-1 flex-shrink-0" />}
+          </button>
+          <div className="flex items-center ml-2 flex-shrink-0 text-xs text-gray-500">
+            <span>{new Date(node.idea.createdAt).toLocaleDateString('ja-JP')}</span>
+            {isCurrent ? (
+              <span className="ml-2 px-2 py-0.5 rounded-full bg-blue-600 text-white">表示中</span>
+            ) : (
+              <button
+                onClick={() => setCompareTargetId(isCompareTarget ? null : node.idea.id)}
+                className={`ml-2 px-2 py-0.5 rounded-full border ${
+                  isCompareTarget ? 'border-amber-400 bg-amber-100 text-amber-800' : 'border-gray-300 hover:bg-white'
+                }`}
+              >
+                {isCompareTarget ? '比較中' : '比較'}
+              </button>
+            )}
+          </div>
+        </div>
+        {node.children.length > 0 && (
+          <ul className="mt-1 space-y-1">
+            {node.children.map(child => renderNode(child, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <h4 className="text-md font-semibold text-gray-900 mb-3 flex items-center">
+        <GitBranch className="h-5 w-5 text-indigo-600 mr-2" />
+        バージョンツリー
+        {!isLoading && <span className="ml-2 text-sm font-normal text-gray-500">{versions.length}バージョン</span>}
+      </h4>
+
+      {isLoading ? (
+        <div className="text-sm text-gray-500">読み込み中...</div>
+      ) : (
+        <>
+          <ul className="space-y-1">
+            {lineage.map(node => renderNode(node, 0))}
+          </ul>
+          {versions.length === 1 && (
+            <p className="text-xs text-gray-500 mt-2">
+              改良版はまだありません。「このアイデアを改良」で検証結果の改善提案を反映した次の世代を生成できます。
+            </p>
+          )}
+
+          {idea.refinementContext?.instructions && (
+            <div className="mt-3 text-xs text-gray-600 bg-gray-50 rounded p-2">
+              <span className="font-medium">改良指示:</span> {idea.refinementContext.instructions}
+            </div>
+          )}
+
+          {compareTarget && (
+            <div className="mt-4 border-t border-gray-200 pt-4">
+              <h5 className="text-sm font-semibold text-gray-900 mb-1 flex items-center">
+                <GitCompare className="h-4 w-4 text-amber-600 mr-2" />
+                リーンキャンバスの差分
+              </h5>
+              <p className="text-xs text-gray-500 mb-3">
+                第{compareTarget.generation ?? 1}世代「{compareTarget.title}」→ 表示中のアイデア
+                （{changedBlocks.length}ブロック変更）
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {changedBlocks.map(block => (
+                  <div key={block.key} className="border border-amber-200 rounded-lg p-3">
+                    <div className="text-xs font-semibold text-gray-800 mb-1">{block.label}</div>
+                    {block.kind === 'text' ? (
+                      <p className="text-xs text-gray-800"><DiffText segments={block.segments} /></p>
+                    ) : (
+                      <ul className="space-y-1 text-xs">
+                        {block.entries.map((entry, index) => (
+                          <li key={index} className="flex items-start">
+                            <span className="w-4 flex-shrink-0 text-gray-500">
+                              {entry.type === 'added' ? '+' : entry.type === 'removed' ? '−' : entry.type === 'modified' ? '~' : '・'}
+                            </span>
+                            {entry.type === 'modified' && entry.segments ? (
+                              <DiffText segments={entry.segments} />
+                            ) : entry.type === 'added' ? (
+                              <span className="bg-green-100 text-green-900">{entry.after}</span>
+                            ) : entry.type === 'removed' ? (
+                              <span className="bg-red-100 text-red-900 line-through">{entry.before}</span>
+                            ) : (
+                              <span className="text-gray-800">{entry.after}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {unchangedBlocks.length > 0 && (
+                <p className="text-xs text-gray-500 mt-3">
+                  変更なし: {unchangedBlocks.map(block => block.label).join('、')}
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,8 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useAnalysisStore } from '../../stores/analysisStore';
 import { useCompanyStore } from '../../stores/companyStore';
-import { LoadingSpinner, ErrorBoundary } from '../common';
-import { Search, AlertCircle, RefreshCw, Star, Hash, Target, Award, Cloud, Camera } from 'lucide-react';
+import { LoadingSpinner, ErrorBoundary, Modal } from '../common';
+import { Search, AlertCircle, RefreshCw, Star, Hash, Target, Award, Cloud, Camera, BookOpen } from 'lucide-react';
 import SimilarCompanyFinder from './SimilarCompanyFinder';
 import { UniquenessScoreDashboard } from './UniquenessScoreDashboard';
 import { MVVTrendAnalysis } from './MVVTrendAnalysis';
@@ -10,11 +10,17 @@ import { CompetitivePositioningMap } from './CompetitivePositioningMap';
 import { MVVQualityAssessment } from './MVVQualityAssessment';
 import { WordCloudDashboard } from './WordCloudDashboard';
 import { VisualAnalyticsGallery } from './VisualAnalyticsGallery';
+import { SegmentationDictionaryManager } from './SegmentationDictionaryManager';
+import { ScreenshotSnapshotService } from '../../services/screenshotSnapshot';
+import { useNotification } from '../../hooks/useNotification';
 
 type TabType = 'finder' | 'trends' | 'wordcloud' | 'positioning' | 'uniqueness' | 'quality' | 'gallery';
 
 export const MVVAnalysisDashboard: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabType>('finder');
+  const [showDictionaryManager, setShowDictionaryManager] = useState(false);
+  const [snapshotProgress, setSnapshotProgress] = useState<{ current: number; total: number; screenName: string } | null>(null);
+  const snapshotCheckedDataRef = useRef<unknown>(null);
   
   const { 
     data, 
@@ -25,12 +31,35 @@ export const MVVAnalysisDashboard: React.FC = () => {
   } = useAnalysisStore();
   
   const { loadCompanies } = useCompanyStore();
+  const { info } = useNotification();
 
   useEffect(() => {
     loadAnalysisData();
     loadCompanies(); // 企業管理データも読み込み
   }, [loadAnalysisData, loadCompanies]);
 
+  // スナップショットモード: 分析データの読み込み後、前回からの変化が大きければ分析画面を撮影
+  useEffect(() => {
+    if (isLoading || !data || snapshotCheckedDataRef.current === data) return;
+
+    // タブ描画後に撮影を始める
+    const timer = setTimeout(() => {
+      snapshotCheckedDataRef.current = data;
+      ScreenshotSnapshotService.captureIfChanged(data.companies, (current, total, screenName) => {
+        setSnapshotProgress({ current, total, screenName });
+      })
+        .then(snapshots => {
+          if (snapshots?.length) {
+            info('スナップショット保存', `データの変化を検知し、${snapshots.length}画面を時系列スナップショットとして保存しました`);
+          }
+        })
+        .catch(error => console.error('Snapshot capture failed:', error))
+        .finally(() => setSnapshotProgress(null));
+    }, 1000);
+
+    return () => clearTimeout(timer);
+  }, [data, isLoading, info]);
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -133,6 +162,15 @@ export const MVVAnalysisDashboard: React.FC = () => {
                   データソース: <span className="font-semibold">IndexedDB</span>
                 </div>
                 
+                {/* 形態素解析辞書の管理 */}
+                <button
+                  onClick={() => setShowDictionaryManager(true)}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+                >
+                  <BookOpen className="mr-2 h-4 w-4" />
+                  辞書管理
+                </button>
+
                 {/* データ再読み込みボタン */}
                 <button
                   onClick={() => {
@@ -197,11 +235,29 @@ export const MVVAnalysisDashboard: React.FC = () => {
         </div>
 
 
+        {snapshotProgress && (
+          <div className="bg-blue-50 border-b border-blue-200">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center text-sm text-blue-800">
+              <Camera className="w-4 h-4 mr-2 animate-pulse" />
+              スナップショット撮影中: {snapshotProgress.screenName} ({snapshotProgress.current}/{snapshotProgress.total})
+            </div>
+          </div>
+        )}
+
         {/* コンテンツ */}
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           {renderTabContent()}
         </div>
 
+        <Modal
+          isOpen={showDictionaryManager}
+          onClose={() => setShowDictionaryManager(false)}
+          title="形態素解析辞書の管理"
+          size="xl"
+        >
+          <SegmentationDictionaryManager />
+        </Modal>
+
       </div>
     </ErrorBoundary>
   );
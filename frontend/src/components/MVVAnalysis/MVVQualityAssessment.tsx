@@ -1,8 +1,11 @@
-import React, { useMemo, useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { useAnalysisStore } from '../../stores/analysisStore';
 import { LoadingSpinner } from '../common';
 import { Award, CheckCircle, AlertTriangle, XCircle, BarChart3 } from 'lucide-react';
 import { enhancedSegmentationService } from '../../services/enhancedSegmentationService';
+import { AUTO_PROFILE_ID } from '../../services/segmentationDictionary';
+import { useSegmentationDictionary } from '../../hooks/useSegmentationDictionary';
+import { SegmentationProfileSelect } from './SegmentationProfileSelect';
 
 interface QualityMetrics {
   clarity: number;      // 明確性
@@ -29,24 +32,26 @@ export const MVVQualityAssessment: React.FC = () => {
   const { data, isLoading } = useAnalysisStore();
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [sortBy, setSortBy] = useState<'overall' | 'mission' | 'vision' | 'values'>('overall');
-  const [industryFocus, setIndustryFocus] = useState<'general' | 'healthcare' | 'technology'>('general');
+  const [profileSelection, setProfileSelection] = useState<string>(AUTO_PROFILE_ID);
 
-  // Enhanced segmentation service for better compound word handling
-  const segmentationOptions = useMemo(() => ({
-    preserveCompounds: true,
-    enableCustomRules: true,
-    industryFocus
-  }), [industryFocus]);
+  const { getSegmentationOptions: resolveSegmentationOptions } = useSegmentationDictionary();
+
+  // 企業カテゴリー（JSIC大分類）ごとに辞書プロファイルを選択
+  const getSegmentationOptions = useCallback(
+    (category?: string) => resolveSegmentationOptions(profileSelection, category),
+    [resolveSegmentationOptions, profileSelection]
+  );
 
   // MVVテキストの品質評価（安全化版）
-  const assessMVVText = (text: string, type: 'mission' | 'vision' | 'values'): QualityMetrics => {
+  const assessMVVText = (text: string, type: 'mission' | 'vision' | 'values', category?: string): QualityMetrics => {
     if (!text || typeof text !== 'string' || text.trim().length === 0) {
       return { clarity: 0, specificity: 0, actionability: 0, authenticity: 0, completeness: 0, overall: 0 };
     }
 
     try {
+      const segmentationOptions = getSegmentationOptions(category);
       const segmentationResult = enhancedSegmentationService.segmentWithCompounds(text, segmentationOptions);
-      const words = segmentationResult.segments;
+      const words = enhancedSegmentationService.removeStopWords(segmentationResult.segments, segmentationOptions.profileId);
       if (!Array.isArray(words)) {
         console.warn('Segmenter did not return an array:', words);
         return { clarity: 0, specificity: 0, actionability: 0, authenticity: 0, completeness: 0, overall: 0 };
@@ -234,9 +239,9 @@ export const MVVQualityAssessment: React.FC = () => {
     console.log(`📊 ${validCompanies.length}社で品質評価実行中...`);
 
     const assessments: CompanyAssessment[] = validCompanies.map(company => {
-      const missionMetrics = assessMVVText(company.mission || '', 'mission');
-      const visionMetrics = assessMVVText(company.vision || '', 'vision');
-      const valuesMetrics = assessMVVText(company.values || '', 'values');
+      const missionMetrics = assessMVVText(company.mission || '', 'mission', company.category);
+      const visionMetrics = assessMVVText(company.vision || '', 'vision', company.category);
+      const valuesMetrics = assessMVVText(company.values || '', 'values', company.category);
 
       // 総合評価
       const overall: QualityMetrics = {
@@ -294,7 +299,7 @@ export const MVVQualityAssessment: React.FC = () => {
     console.log(`✅ MVV品質評価完了: ${Math.round(endTime - startTime)}ms`);
 
     return { assessments, categoryStats, loading: false };
-  }, [data, segmentationOptions]);
+  }, [data, getSegmentationOptions]);
 
   const filteredAssessments = useMemo(() => {
     let filtered = assessments;
@@ -394,18 +399,11 @@ export const MVVQualityAssessment: React.FC = () => {
             </select>
           </div>
           
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">業界フォーカス:</label>
-            <select
-              value={industryFocus}
-              onChange={(e) => setIndustryFocus(e.target.value as 'general' | 'healthcare' | 'technology')}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
-            >
-              <option value="general">汎用</option>
-              <option value="healthcare">医療・ヘルスケア</option>
-              <option value="technology">技術・IT</option>
-            </select>
-          </div>
+          <SegmentationProfileSelect
+            value={profileSelection}
+            onChange={setProfileSelection}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
           
           <div className="flex items-end">
             <div className="text-sm text-gray-600">
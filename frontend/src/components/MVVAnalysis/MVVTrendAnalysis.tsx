@@ -1,8 +1,11 @@
-import React, { useMemo, useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { useAnalysisStore } from '../../stores/analysisStore';
 import { LoadingSpinner } from '../common';
 import { Hash, TrendingUp, BarChart3, Filter } from 'lucide-react';
 import { enhancedSegmentationService } from '../../services/enhancedSegmentationService';
+import { AUTO_PROFILE_ID } from '../../services/segmentationDictionary';
+import { useSegmentationDictionary } from '../../hooks/useSegmentationDictionary';
+import { SegmentationProfileSelect } from './SegmentationProfileSelect';
 
 interface KeywordFrequency {
   keyword: string;
@@ -27,23 +30,23 @@ export const MVVTrendAnalysis: React.FC = () => {
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [minFrequency, setMinFrequency] = useState<number>(2);
   const [viewMode, setViewMode] = useState<'ranking' | 'category'>('ranking');
-  const [industryFocus, setIndustryFocus] = useState<'general' | 'healthcare' | 'technology'>('general');
+  const [profileSelection, setProfileSelection] = useState<string>(AUTO_PROFILE_ID);
+  const { getSegmentationOptions: resolveSegmentationOptions } = useSegmentationDictionary();
 
-  // Enhanced segmentation service for better compound word handling
-  const segmentationOptions = useMemo(() => ({
-    preserveCompounds: true,
-    enableCustomRules: true,
-    industryFocus
-  }), [industryFocus]);
+  // 企業カテゴリー（JSIC大分類）ごとに辞書プロファイルを選択
+  const getSegmentationOptions = useCallback(
+    (category?: string) => resolveSegmentationOptions(profileSelection, category),
+    [resolveSegmentationOptions, profileSelection]
+  );
 
   // Helper function to get middle category name for a company
   // TODO: Implement proper companyInfo integration
-  const getCompanyMiddleCategoryName = (companyName: string): string => {
+  const getCompanyMiddleCategoryName = useCallback((companyName: string): string => {
     // For now, return the major category as a fallback
     // This will be enhanced when companyInfo data access is properly implemented
     const hybridCompany = data?.companies?.find(c => c.name === companyName);
     return hybridCompany?.category || '未分類';
-  };
+  }, [data]);
 
   const { keywordAnalysis, categoryTrends, loading } = useMemo(() => {
     if (!data || !data.companies) {
@@ -70,12 +73,12 @@ export const MVVTrendAnalysis: React.FC = () => {
     const processText = (text: string, type: 'mission' | 'vision' | 'values', companyName: string, category: string) => {
       if (!text) return;
 
+      const segmentationOptions = getSegmentationOptions(category);
       const segmentationResult = enhancedSegmentationService.segmentWithCompounds(text, segmentationOptions);
-      const words = segmentationResult.segments;
+      const words = enhancedSegmentationService.removeStopWords(segmentationResult.segments, segmentationOptions.profileId);
       const filteredWords = words.filter((word: string) => {
         // 意味のある単語のみ抽出
         return word.length >= 2 && 
-               !['です', 'ます', 'である', 'として', 'により', 'という', 'こと', 'もの', 'ため', 'など'].includes(word) &&
                !/^[0-9]+$/.test(word) && // 数字のみ除外
                !/^[ぁ-ん]+$/.test(word); // ひらがなのみ除外
       });
@@ -136,6 +139,7 @@ export const MVVTrendAnalysis: React.FC = () => {
           );
 
       const totalWords = categoryCompanies.reduce((sum, company) => {
+        const segmentationOptions = getSegmentationOptions(company.category);
         const missionWords = company.mission ? enhancedSegmentationService.segmentWithCompounds(company.mission, segmentationOptions).segments.length : 0;
         const visionWords = company.vision ? enhancedSegmentationService.segmentWithCompounds(company.vision, segmentationOptions).segments.length : 0;
         const valuesWords = company.values ? enhancedSegmentationService.segmentWithCompounds(company.values, segmentationOptions).segments.length : 0;
@@ -155,7 +159,7 @@ export const MVVTrendAnalysis: React.FC = () => {
     console.log(`✅ キーワードトレンド分析完了: ${Math.round(endTime - startTime)}ms`);
 
     return { keywordAnalysis, categoryTrends, loading: false };
-  }, [data, segmentationOptions, minFrequency, categoryLevel, getCompanyMiddleCategoryName]);
+  }, [data, getSegmentationOptions, minFrequency, categoryLevel, getCompanyMiddleCategoryName]);
 
   const filteredKeywords = useMemo(() => {
     let filtered = keywordAnalysis;
@@ -324,18 +328,7 @@ export const MVVTrendAnalysis: React.FC = () => {
             </select>
           </div>
           
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">業界フォーカス:</label>
-            <select
-              value={industryFocus}
-              onChange={(e) => setIndustryFocus(e.target.value as 'general' | 'healthcare' | 'technology')}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="general">汎用</option>
-              <option value="healthcare">医療・ヘルスケア</option>
-              <option value="technology">技術・IT</option>
-            </select>
-          </div>
+          <SegmentationProfileSelect value={profileSelection} onChange={setProfileSelection} />
           
           <div className="flex items-end">
             <div className="text-sm text-gray-600">
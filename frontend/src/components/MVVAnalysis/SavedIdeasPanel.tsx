@@ -359,6 +359,11 @@ export const SavedIdeasPanel: React.FC<SavedIdeasPanelProps> = ({
                         検証済み
                       </div>
                     )}
+                    {idea.parentIdeaId && (
+                      <div className="bg-indigo-100 text-indigo-700 px-1.5 py-0.5 rounded text-[10px] font-medium" title="改良版">
+                        第{idea.generation ?? 2}世代
+                      </div>
+                    )}
                     {idea.autoSaved && (
                       <div className="bg-green-100 text-green-700 px-1.5 py-0.5 rounded text-[10px] font-medium" title="自動保存済み">
                         Auto
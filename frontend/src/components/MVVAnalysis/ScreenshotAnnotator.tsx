@@ -0,0 +1,223 @@
+/**
+ * スクリーンショット注釈エディタ
+ * ドラッグで矢印・枠・テキスト吹き出し・墨消しを追加し、ベクターのまま保存する
+ */
+
+import React, { useRef, useState } from 'react';
+import { ArrowUpRight, Square, Type, EyeOff, MousePointer, Trash2, Undo2, Save } from 'lucide-react';
+import { Button, Modal } from '../common';
+import { AnnotatedScreenshot } from './AnnotatedScreenshot';
+import type { AnalysisScreenshot } from '../../services/screenshotCapture';
+import {
+  ANNOTATION_COLORS,
+  ANNOTATION_TYPE_LABELS,
+  createAnnotationId,
+  type ScreenshotAnnotation,
+  type ScreenshotAnnotationType
+} from '../../services/screenshotAnnotation';
+
+interface ScreenshotAnnotatorProps {
+  screenshot: AnalysisScreenshot;
+  onClose: () => void;
+  onSave: (annotations: ScreenshotAnnotation[]) => Promise<void>;
+}
+
+type Tool = 'select' | ScreenshotAnnotationType;
+
+const TOOLS: Array<{ id: Tool; label: string; icon: React.ComponentType<{ className?: string }> }> = [
+  { id: 'select', label: '選択', icon: MousePointer },
+  { id: 'arrow', label: ANNOTATION_TYPE_LABELS.arrow, icon: ArrowUpRight },
+  { id: 'box', label: ANNOTATION_TYPE_LABELS.box, icon: Square },
+  { id: 'text', label: ANNOTATION_TYPE_LABELS.text, icon: Type },
+  { id: 'redact', label: ANNOTATION_TYPE_LABELS.redact, icon: EyeOff }
+];
+
+// これより小さいドラッグはクリックとみなす（画像サイズ比）
+const MIN_DRAG = 0.01;
+// クリックだけで置いたテキストは右上に吹き出しをずらす
+const DEFAULT_CALLOUT_OFFSET = 0.06;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export const ScreenshotAnnotator: React.FC<ScreenshotAnnotatorProps> = ({ screenshot, onClose, onSave }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [annotations, setAnnotations] = useState<ScreenshotAnnotation[]>(screenshot.annotations || []);
+  const [tool, setTool] = useState<Tool>('arrow');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [draft, setDraft] = useState<ScreenshotAnnotation | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const selected = annotations.find(a => a.id === selectedId) || null;
+
+  // 画面座標を画像に対する比率へ変換（余白や拡大率はSVGの変換行列で吸収）
+  const toImagePoint = (e: React.PointerEvent): { x: number; y: number } | null => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    return { x: clamp(point.x / screenshot.width), y: clamp(point.y / screenshot.height) };
+  };
+
+  const updateAnnotation = (id: string, updates: Partial<ScreenshotAnnotation>) => {
+    setAnnotations(prev => prev.map(a => (a.id === id ? { ...a, ...updates } : a)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (tool === 'select') {
+      setSelectedId(null);
+      return;
+    }
+    const point = toImagePoint(e);
+    if (!point) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({
+      id: createAnnotationId(),
+      type: tool,
+      x1: point.x,
+      y1: point.y,
+      x2: point.x,
+      y2: point.y,
+      color,
+      text: tool === 'text' ? 'コメント' : undefined
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+    const point = toImagePoint(e);
+    if (point) {
+      setDraft({ ...draft, x2: point.x, y2: point.y });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const dragged = Math.hypot(draft.x2 - draft.x1, draft.y2 - draft.y1) >= MIN_DRAG;
+    if (dragged || draft.type === 'text') {
+      const annotation = dragged ? draft : {
+        ...draft,
+        x2: clamp(draft.x1 + DEFAULT_CALLOUT_OFFSET),
+        y2: clamp(draft.y1 - DEFAULT_CALLOUT_OFFSET)
+      };
+      setAnnotations(prev => [...prev, annotation]);
+      setSelectedId(annotation.id);
+    }
+    setDraft(null);
+  };
+
+  const handleAnnotationPointerDown = (annotation: ScreenshotAnnotation, e: React.PointerEvent) => {
+    if (tool !== 'select') return;
+    e.stopPropagation();
+    setSelectedId(annotation.id);
+  };
+
+  const handleDelete = () => {
+    if (!selectedId) return;
+    setAnnotations(prev => prev.filter(a => a.id !== selectedId));
+    setSelectedId(null);
+  };
+
+  const handleUndo = () => {
+    setAnnotations(prev => prev.slice(0, -1));
+    setSelectedId(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(annotations);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={`注釈の編集: ${screenshot.name}`} size="xl">
+      <div className="space-y-3">
+        {/* ツールバー */}
+        <div className="flex flex-wrap items-center gap-2">
+          {TOOLS.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setTool(id)}
+              className={`flex items-center px-2 py-1 rounded-md text-sm border ${
+                tool === id ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <Icon className="w-4 h-4 mr-1" />
+              {label}
+            </button>
+          ))}
+          <div className="flex items-center space-x-1 ml-2">
+            {ANNOTATION_COLORS.map(option => (
+              <button
+                key={option}
+                onClick={() => {
+                  setColor(option);
+                  if (selected && selected.type !== 'redact') updateAnnotation(selected.id, { color: option });
+                }}
+                className={`w-6 h-6 rounded-full border-2 ${color === option ? 'border-gray-900' : 'border-white'}`}
+                style={{ backgroundColor: option }}
+                title={option}
+              />
+            ))}
+          </div>
+          <div className="ml-auto flex items-center space-x-2">
+            <Button size="sm" variant="outline" onClick={handleUndo} disabled={annotations.length === 0}>
+              <Undo2 className="w-4 h-4 mr-1" />
+              元に戻す
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleDelete} disabled={!selected}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              削除
+            </Button>
+          </div>
+        </div>
+
+        {selected?.type === 'text' && (
+          <input
+            type="text"
+            value={selected.text || ''}
+            onChange={(e) => updateAnnotation(selected.id, { text: e.target.value })}
+            placeholder="吹き出しのテキスト"
+            className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+            autoFocus
+          />
+        )}
+
+        <div className="border border-gray-200 rounded-md bg-gray-50 max-h-[60vh] overflow-auto">
+          <AnnotatedScreenshot
+            ref={svgRef}
+            screenshot={screenshot}
+            annotations={draft ? [...annotations, draft] : annotations}
+            selectedId={selectedId}
+            onAnnotationPointerDown={handleAnnotationPointerDown}
+            className={`w-full h-auto select-none touch-none ${tool === 'select' ? '' : 'cursor-crosshair'}`}
+            svgProps={{
+              onPointerDown: handlePointerDown,
+              onPointerMove: handlePointerMove,
+              onPointerUp: handlePointerUp
+            }}
+          />
+        </div>
+
+        <p className="text-xs text-gray-500">
+          ドラッグで注釈を追加します。テキストは指したい位置から吹き出しを置く位置へドラッグしてください。
+          墨消しは書き出し（PNG・ZIP・Excel・PPTX）時に画像へ焼き込まれ、元の内容は含まれません。
+        </p>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            キャンセル
+          </Button>
+          <Button onClick={handleSave} loading={saving} disabled={saving}>
+            <Save className="w-4 h-4 mr-2" />
+            保存
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
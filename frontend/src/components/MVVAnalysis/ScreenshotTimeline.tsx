@@ -0,0 +1,317 @@
+/**
+ * 分析画面の時系列スナップショット
+ * スナップショットモードの設定と、画面ごとの変化をビフォー・アフターのスライダーで比較する
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Camera, History, Loader2, Trash2 } from 'lucide-react';
+import type { AnalysisScreenshot } from '../../services/screenshotCapture';
+import { ScreenshotStorageService } from '../../services/screenshotStorage';
+import {
+  ScreenshotSnapshotService,
+  countChangedCompanies,
+  type SnapshotModeConfig
+} from '../../services/screenshotSnapshot';
+import { useAnalysisStore } from '../../stores/analysisStore';
+import { useNotification } from '../../hooks/useNotification';
+import { Button } from '../common';
+import { AnnotatedScreenshot } from './AnnotatedScreenshot';
+
+interface ScreenshotTimelineProps {
+  snapshots: AnalysisScreenshot[];
+  tabNames: Record<string, string>;
+}
+
+const formatDateTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const formatDatasetChange = (snapshot: AnalysisScreenshot): string => {
+  if (!snapshot.dataset) return '';
+  const { companyCount, addedCount, removedCount, updatedCount } = snapshot.dataset;
+  const changes = [
+    addedCount > 0 ? `+${addedCount}` : '',
+    removedCount > 0 ? `-${removedCount}` : '',
+    updatedCount > 0 ? `更新${updatedCount}` : ''
+  ].filter(Boolean);
+  return `${companyCount}社${changes.length > 0 ? `（${changes.join(' ')}）` : ''}`;
+};
+
+/**
+ * ビフォー画像を左側だけ表示し、境界線をスライダーで動かして比較する
+ */
+const SnapshotCompareSlider: React.FC<{ before: AnalysisScreenshot; after: AnalysisScreenshot }> = ({ before, after }) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className="space-y-2">
+      <div
+        className="relative w-full bg-white border border-gray-200 rounded-lg overflow-hidden select-none"
+        style={{ aspectRatio: `${after.width} / ${after.height}` }}
+      >
+        <AnnotatedScreenshot screenshot={after} className="absolute inset-0 w-full h-full" />
+        <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+          <AnnotatedScreenshot screenshot={before} className="w-full h-full bg-white" />
+        </div>
+        <div className="absolute top-0 bottom-0 w-0.5 bg-blue-600 pointer-events-none" style={{ left: `${position}%` }} />
+        <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-gray-900/70 text-white text-xs">
+          Before: {formatDateTime(before.timestamp)}
+        </span>
+        <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-blue-600/80 text-white text-xs">
+          After: {formatDateTime(after.timestamp)}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        className="w-full"
+        aria-label="ビフォー・アフターの境界"
+      />
+    </div>
+  );
+};
+
+export const ScreenshotTimeline: React.FC<ScreenshotTimelineProps> = ({ snapshots, tabNames }) => {
+  const [config, setConfig] = useState<SnapshotModeConfig>(() => ScreenshotSnapshotService.getConfig());
+  const [activeTabId, setActiveTabId] = useState<string | null>(null);
+  const [beforeId, setBeforeId] = useState<string | null>(null);
+  const [afterId, setAfterId] = useState<string | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  const companies = useAnalysisStore(state => state.data?.companies);
+  const { success, error: showError } = useNotification();
+
+  // 画面ごとの時系列（古い順）
+  const seriesByTab = useMemo(() => {
+    const groups: Record<string, AnalysisScreenshot[]> = {};
+    snapshots.forEach(snapshot => {
+      (groups[snapshot.tabId] ||= []).push(snapshot);
+    });
+    Object.values(groups).forEach(series => series.sort((a, b) => a.timestamp - b.timestamp));
+    return groups;
+  }, [snapshots]);
+
+  const tabIds = Object.keys(tabNames).filter(tabId => seriesByTab[tabId]?.length);
+  const currentTabId = activeTabId && seriesByTab[activeTabId] ? activeTabId : tabIds[0] ?? null;
+  const series = currentTabId ? seriesByTab[currentTabId] : [];
+
+  // 比較対象は未選択（または別画面の選択）なら最古と最新
+  const before = series.find(snapshot => snapshot.id === beforeId) ?? series[0];
+  const after = series.find(snapshot => snapshot.id === afterId) ?? series[series.length - 1];
+
+  const pendingChanges = companies ? ScreenshotSnapshotService.getPendingChanges(companies) : null;
+
+  const updateConfig = (updates: Partial<SnapshotModeConfig>) => {
+    setConfig(ScreenshotSnapshotService.saveConfig(updates));
+  };
+
+  const toggleTab = (tabId: string, checked: boolean) => {
+    updateConfig({
+      tabIds: checked ? [...config.tabIds, tabId] : config.tabIds.filter(id => id !== tabId)
+    });
+  };
+
+  const handleCaptureNow = async () => {
+    if (!companies || config.tabIds.length === 0) return;
+
+    setIsCapturing(true);
+    try {
+      const saved = await ScreenshotSnapshotService.captureSnapshots(companies);
+      success('スナップショット保存', `${saved.length}画面のスナップショットを保存しました`);
+    } catch (error) {
+      console.error('Snapshot capture failed:', error);
+      showError('撮影エラー', 'スナップショットの撮影に失敗しました');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const handleDelete = async (snapshot: AnalysisScreenshot) => {
+    if (!window.confirm(`${formatDateTime(snapshot.timestamp)} のスナップショットを削除しますか？`)) return;
+
+    try {
+      await ScreenshotStorageService.deleteScreenshot(snapshot.id);
+    } catch (error) {
+      console.error('Snapshot delete failed:', error);
+      showError('削除エラー', 'スナップショットの削除に失敗しました');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* スナップショットモード設定 */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 flex items-center">
+              <History className="w-4 h-4 mr-2 text-blue-600" />
+              スナップショットモード
+            </h3>
+            <p className="text-xs text-gray-500 mt-1">
+              分析データの読み込み時に、前回のスナップショットから企業が一定数以上追加・削除・更新されていれば選択した画面を自動で撮影します
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={config.enabled}
+                onChange={(e) => updateConfig({ enabled: e.target.checked })}
+                className="mr-2"
+              />
+              自動撮影を有効にする
+            </label>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleCaptureNow}
+              disabled={isCapturing || !companies || config.tabIds.length === 0}
+            >
+              {isCapturing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Camera className="w-4 h-4 mr-1" />}
+              今すぐ撮影
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {Object.entries(tabNames).map(([tabId, tabName]) => (
+            <label key={tabId} className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={config.tabIds.includes(tabId)}
+                onChange={(e) => toggleTab(tabId, e.target.checked)}
+                className="mr-1"
+              />
+              {tabName}
+            </label>
+          ))}
+          <label className="flex items-center text-sm text-gray-700 ml-auto">
+            撮影条件: 変化した企業が
+            <input
+              type="number"
+              min={1}
+              value={config.minChangedCompanies}
+              onChange={(e) => updateConfig({ minChangedCompanies: Number(e.target.value) || 1 })}
+              className="w-16 mx-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+            社以上
+          </label>
+        </div>
+
+        {pendingChanges && (
+          <div className="text-xs text-gray-500">
+            前回のスナップショットからの変化: 追加 {pendingChanges.addedCount}社 / 削除 {pendingChanges.removedCount}社 / 更新 {pendingChanges.updatedCount}社
+            （計 {countChangedCompanies(pendingChanges)}社）
+          </div>
+        )}
+      </div>
+
+      {tabIds.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+          <History className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">スナップショットがありません</h3>
+          <p className="text-gray-600">自動撮影を有効にするか「今すぐ撮影」で最初のスナップショットを保存してください</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+          {/* 画面の切り替え */}
+          <div className="flex flex-wrap gap-2">
+            {tabIds.map(tabId => (
+              <Button
+                key={tabId}
+                size="sm"
+                variant={tabId === currentTabId ? 'primary' : 'outline'}
+                onClick={() => setActiveTabId(tabId)}
+              >
+                {tabNames[tabId]}（{seriesByTab[tabId].length}）
+              </Button>
+            ))}
+          </div>
+
+          {before && after && (
+            <>
+              <div className="flex flex-col sm:flex-row gap-3 text-sm">
+                <label className="flex-1 flex items-center gap-2">
+                  <span className="text-gray-600 whitespace-nowrap">Before</span>
+                  <select
+                    value={before.id}
+                    onChange={(e) => setBeforeId(e.target.value)}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded-md"
+                  >
+                    {series.map(snapshot => (
+                      <option key={snapshot.id} value={snapshot.id}>
+                        {formatDateTime(snapshot.timestamp)} {formatDatasetChange(snapshot)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex-1 flex items-center gap-2">
+                  <span className="text-gray-600 whitespace-nowrap">After</span>
+                  <select
+                    value={after.id}
+                    onChange={(e) => setAfterId(e.target.value)}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded-md"
+                  >
+                    {series.map(snapshot => (
+                      <option key={snapshot.id} value={snapshot.id}>
+                        {formatDateTime(snapshot.timestamp)} {formatDatasetChange(snapshot)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              {series.length === 1 && (
+                <p className="text-sm text-gray-500">比較するには2件以上のスナップショットが必要です</p>
+              )}
+              <SnapshotCompareSlider before={before} after={after} />
+            </>
+          )}
+
+          {/* 時系列一覧 */}
+          <div className="flex gap-3 overflow-x-auto pb-2">
+            {series.map(snapshot => (
+              <div
+                key={snapshot.id}
+                className={`flex-shrink-0 w-40 border rounded-md p-2 text-xs ${
+                  snapshot.id === after?.id || snapshot.id === before?.id ? 'border-blue-500' : 'border-gray-200'
+                }`}
+              >
+                <div className="aspect-video bg-gray-50 rounded overflow-hidden mb-1">
+                  <AnnotatedScreenshot screenshot={snapshot} className="w-full h-full" />
+                </div>
+                <div className="text-gray-900">{formatDateTime(snapshot.timestamp)}</div>
+                <div className="text-gray-500">{formatDatasetChange(snapshot)}</div>
+                <div className="flex items-center justify-between mt-1">
+                  <div className="space-x-2">
+                    <button onClick={() => setBeforeId(snapshot.id)} className="text-blue-600 hover:underline">
+                      Before
+                    </button>
+                    <button onClick={() => setAfterId(snapshot.id)} className="text-blue-600 hover:underline">
+                      After
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(snapshot)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="削除"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
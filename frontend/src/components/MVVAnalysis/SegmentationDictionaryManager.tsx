@@ -0,0 +1,356 @@
+/**
+ * 形態素解析辞書の管理
+ * 業種プロファイルごとに複合語・ストップワード・重要語を編集し、JSIC大分類への自動割り当てを設定する
+ */
+
+import React, { useMemo, useState } from 'react';
+import { BookOpen, Plus, Trash2, RotateCcw, X, AlertCircle, Sparkles } from 'lucide-react';
+import { Button } from '../common';
+import { useSegmentationDictionary } from '../../hooks/useSegmentationDictionary';
+import { segmentationDictionary, GENERAL_PROFILE_ID } from '../../services/segmentationDictionary';
+import { enhancedSegmentationService } from '../../services/enhancedSegmentationService';
+import { CONSTANTS } from '../../utils/constants';
+import type { SegmentationDictionaryField, SegmentationProfile } from '../../types/segmentation';
+import { CompoundTermDiscoveryPanel } from './CompoundTermDiscoveryPanel';
+
+const FIELD_LABELS: Record<SegmentationDictionaryField, { title: string; description: string }> = {
+  compounds: { title: '複合語', description: '分割せずに1語として扱う語（例: 社会課題）' },
+  stopWords: { title: 'ストップワード', description: 'キーワード抽出から除外する語' },
+  importantTerms: { title: '重要語', description: '類似度計算で一致時に加点する語' }
+};
+
+const FIELDS: SegmentationDictionaryField[] = ['compounds', 'stopWords', 'importantTerms'];
+
+// 入力欄はカンマ・読点・改行区切りで複数登録できる
+const parseTerms = (input: string): string[] =>
+  input.split(/[,，、\n]/).map(term => term.trim()).filter(term => term.length > 0);
+
+interface TermEditorProps {
+  profile: SegmentationProfile;
+  field: SegmentationDictionaryField;
+  onError: (message: string) => void;
+}
+
+const TermEditor: React.FC<TermEditorProps> = ({ profile, field, onError }) => {
+  const [input, setInput] = useState('');
+  const [filter, setFilter] = useState('');
+  const terms = profile[field];
+  const visibleTerms = filter ? terms.filter(term => term.includes(filter)) : terms;
+
+  const handleAdd = async () => {
+    const newTerms = parseTerms(input);
+    if (newTerms.length === 0) return;
+    try {
+      await segmentationDictionary.addTerms(profile.id, field, newTerms);
+      setInput('');
+    } catch (error) {
+      onError(error instanceof Error ? error.message : '辞書の更新に失敗しました');
+    }
+  };
+
+  const handleRemove = async (term: string) => {
+    try {
+      await segmentationDictionary.removeTerm(profile.id, field, term);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : '辞書の更新に失敗しました');
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-1">
+        <h5 className="text-sm font-medium text-gray-900">
+          {FIELD_LABELS[field].title}
+          <span className="ml-1 text-xs text-gray-500">（{terms.length}語）</span>
+        </h5>
+        {terms.length > 20 && (
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="絞り込み"
+            className="w-32 px-2 py-1 text-xs border border-gray-300 rounded"
+          />
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-2">{FIELD_LABELS[field].description}</p>
+
+      <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto mb-2">
+        {visibleTerms.length === 0 ? (
+          <span className="text-xs text-gray-400">登録なし</span>
+        ) : (
+          visibleTerms.map(term => (
+            <span
+              key={term}
+              className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700"
+            >
+              {term}
+              <button
+                onClick={() => handleRemove(term)}
+                className="ml-1 text-gray-400 hover:text-red-600"
+                title="削除"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))
+        )}
+      </div>
+
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          placeholder="追加する語（カンマ区切りで複数可）"
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <Button size="sm" variant="outline" onClick={handleAdd} disabled={!input.trim()}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const SegmentationDictionaryManager: React.FC = () => {
+  const { profiles } = useSegmentationDictionary();
+  const [view, setView] = useState<'edit' | 'discover'>('edit');
+  const [selectedId, setSelectedId] = useState<string>(GENERAL_PROFILE_ID);
+  const [newProfileName, setNewProfileName] = useState('');
+  const [previewText, setPreviewText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = profiles.find(profile => profile.id === selectedId) ?? profiles[0];
+
+  // 大分類 → 割り当て済みプロファイル名
+  const categoryAssignments = useMemo(() => {
+    const assignments = new Map<string, string>();
+    profiles.forEach(profile => {
+      profile.jsicMajorNames.forEach(name => assignments.set(name, profile.name));
+    });
+    return assignments;
+  }, [profiles]);
+
+  const preview = useMemo(() => {
+    if (!selected || !previewText.trim()) return null;
+    const result = enhancedSegmentationService.segmentWithCompounds(previewText, {
+      preserveCompounds: true,
+      enableCustomRules: true,
+      profileId: selected.id
+    });
+    return {
+      segments: enhancedSegmentationService.removeStopWords(result.segments, selected.id),
+      preservedCompounds: result.preservedCompounds
+    };
+  }, [selected, previewText]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '辞書の更新に失敗しました');
+    }
+  };
+
+  const handleCreate = () => runAction(async () => {
+    const profile = await segmentationDictionary.createProfile({
+      name: newProfileName,
+      copyFromId: selected?.id
+    });
+    setNewProfileName('');
+    setSelectedId(profile.id);
+  });
+
+  const handleToggleCategory = (categoryName: string) => {
+    if (!selected) return;
+    const next = selected.jsicMajorNames.includes(categoryName)
+      ? selected.jsicMajorNames.filter(name => name !== categoryName)
+      : [...selected.jsicMajorNames, categoryName];
+    runAction(() => segmentationDictionary.setJsicMajorNames(selected.id, next));
+  };
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm(`プロファイル「${selected.name}」を削除しますか？`)) return;
+    runAction(async () => {
+      await segmentationDictionary.deleteProfile(selected.id);
+      setSelectedId(GENERAL_PROFILE_ID);
+    });
+  };
+
+  const handleReset = () => {
+    if (!selected || !window.confirm(`プロファイル「${selected.name}」を初期状態に戻しますか？追加した語は失われます。`)) return;
+    runAction(() => segmentationDictionary.resetProfile(selected.id));
+  };
+
+  if (!selected) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        ワードクラウド・トレンド分析・品質評価・類似度計算で使う辞書を編集できます。
+        「汎用」の内容は全プロファイルに共通で適用され、分析画面で「自動」を選ぶと企業のJSIC大分類に割り当てたプロファイルが使われます。
+      </p>
+
+      {error && (
+        <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex space-x-1 border-b border-gray-200">
+        {([
+          { id: 'edit', label: '辞書の編集', icon: BookOpen },
+          { id: 'discover', label: '複合語候補の検出', icon: Sparkles }
+        ] as const).map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setView(tab.id)}
+            className={`flex items-center px-3 py-2 text-sm border-b-2 -mb-px ${
+              view === tab.id
+                ? 'border-blue-500 text-blue-600 font-medium'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <tab.icon className="w-4 h-4 mr-1" />
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {view === 'discover' ? (
+        <CompoundTermDiscoveryPanel onError={setError} />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {/* プロファイル一覧 */}
+          <div className="md:col-span-1 space-y-2">
+            <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {profiles.map(profile => (
+                <li key={profile.id}>
+                  <button
+                    onClick={() => setSelectedId(profile.id)}
+                    className={`w-full text-left px-3 py-2 text-sm ${
+                      profile.id === selected.id ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center">
+                      <BookOpen className="w-4 h-4 mr-1 flex-shrink-0" />
+                      <span className="truncate">{profile.name}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      複合語 {profile.compounds.length}
+                      {profile.jsicMajorNames.length > 0 && ` ・ 業種 ${profile.jsicMajorNames.length}`}
+                      {!profile.builtIn && ' ・ カスタム'}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="space-y-1">
+              <input
+                type="text"
+                value={newProfileName}
+                onChange={(e) => setNewProfileName(e.target.value)}
+                placeholder="新しいプロファイル名"
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <Button size="sm" variant="outline" onClick={handleCreate} disabled={!newProfileName.trim()} className="w-full">
+                <Plus className="w-4 h-4 mr-1" />
+                {selected.id === GENERAL_PROFILE_ID ? '作成' : `「${selected.name}」を複製して作成`}
+              </Button>
+            </div>
+          </div>
+
+          {/* プロファイル編集 */}
+          <div className="md:col-span-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-base font-medium text-gray-900">{selected.name}</h4>
+              <div className="flex space-x-2">
+                {selected.builtIn ? (
+                  <Button size="sm" variant="outline" onClick={handleReset}>
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    初期状態に戻す
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="danger" onClick={handleDelete}>
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    削除
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {selected.id !== GENERAL_PROFILE_ID && (
+              <div className="border border-gray-200 rounded-lg p-3">
+                <h5 className="text-sm font-medium text-gray-900 mb-1">自動選択するJSIC大分類</h5>
+                <p className="text-xs text-gray-500 mb-2">
+                  1つの大分類は1つのプロファイルにのみ割り当てられます（他のプロファイルからは外れます）
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                  {CONSTANTS.COMPANY_CATEGORIES.map(categoryName => {
+                    const assignedTo = categoryAssignments.get(categoryName);
+                    const checked = selected.jsicMajorNames.includes(categoryName);
+                    return (
+                      <label key={categoryName} className="flex items-center text-xs text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={checked}
+                          onChange={() => handleToggleCategory(categoryName)}
+                          className="mr-1"
+                        />
+                        {categoryName}
+                        {assignedTo && !checked && (
+                          <span className="ml-1 text-gray-400">（{assignedTo}）</span>
+                        )}
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {FIELDS.map(field => (
+              <TermEditor key={field} profile={selected} field={field} onError={setError} />
+            ))}
+
+            {/* 分かち書きプレビュー */}
+            <div className="border border-gray-200 rounded-lg p-3">
+              <h5 className="text-sm font-medium text-gray-900 mb-2">分かち書きプレビュー</h5>
+              <textarea
+                value={previewText}
+                onChange={(e) => setPreviewText(e.target.value)}
+                placeholder="MVVの文章を入力すると、このプロファイルでの分割結果を確認できます"
+                rows={2}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {preview && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {preview.segments.map((segment, index) => (
+                    <span
+                      key={`${segment}_${index}`}
+                      className={`px-1.5 py-0.5 rounded text-xs ${
+                        preview.preservedCompounds.includes(segment)
+                          ? 'bg-blue-100 text-blue-800'
+                          : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {segment}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
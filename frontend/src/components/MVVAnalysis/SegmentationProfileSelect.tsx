@@ -0,0 +1,36 @@
+import React from 'react';
+import { useSegmentationDictionary } from '../../hooks/useSegmentationDictionary';
+import { AUTO_PROFILE_ID } from '../../services/segmentationDictionary';
+
+interface SegmentationProfileSelectProps {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+/**
+ * 辞書プロファイルの選択（「自動」は企業ごとにJSIC大分類から選択）
+ */
+export const SegmentationProfileSelect: React.FC<SegmentationProfileSelectProps> = ({
+  value,
+  onChange,
+  className = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+}) => {
+  const { profiles } = useSegmentationDictionary();
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">辞書プロファイル:</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={className}
+      >
+        <option value={AUTO_PROFILE_ID}>自動（JSIC大分類）</option>
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>{profile.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
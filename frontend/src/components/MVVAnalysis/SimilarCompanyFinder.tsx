@@ -7,11 +7,24 @@ import React, { useState } from 'react';
 import { useAnalysisStore } from '../../stores/analysisStore';
 import { Search, Building2, TrendingUp, Eye, ArrowRight, ChevronDown, ChevronUp, Loader2, Info, Copy, X, Pin, FileText } from 'lucide-react';
 import type { HybridCompany } from '../../services/hybridDataLoader';
-import type { CompanyWithSimilarity } from '../../services/similarityCalculator';
+import type { CompanyWithSimilarity, FieldComparisonTarget } from '../../services/similarityCalculator';
 import { SimilarityCalculator } from '../../services/similarityCalculator';
 import { ProgressiveCalculator } from '../../services/progressiveCalculator';
 import { similarityCache } from '../../services/similarityCache';
 import { enhancedSegmentationService } from '../../services/enhancedSegmentationService';
+import { segmentationDictionary } from '../../services/segmentationDictionary';
+import { MVV_FIELDS, MVV_FIELD_LABELS } from '../../services/mvvFieldEmbeddings';
+
+// 比較対象（combined: 統合ベクトル＋形態素解析の複合類似度、それ以外は項目別Embeddingsのみで比較）
+type CompareField = 'combined' | FieldComparisonTarget;
+
+const COMPARE_FIELD_LABELS: Record<CompareField, string> = {
+  combined: 'MVV全体',
+  ...MVV_FIELD_LABELS,
+  valueItems: 'バリュー（項目単位）'
+};
+
+const COMPARE_FIELDS: CompareField[] = ['combined', ...MVV_FIELDS, 'valueItems'];
 
 const SimilarCompanyFinder: React.FC = () => {
   const { 
@@ -27,7 +40,8 @@ const SimilarCompanyFinder: React.FC = () => {
   const [isCalculating, setIsCalculating] = useState(false);
   const [calculationProgress, setCalculationProgress] = useState(0);
   const [pinnedTooltips, setPinnedTooltips] = useState<Set<string>>(new Set());
-  const [industryFocus, _setIndustryFocus] = useState<'general' | 'healthcare' | 'technology'>('general');
+  const [compareField, setCompareField] = useState<CompareField>('combined');
+  const [valueItemIndex, setValueItemIndex] = useState<number | null>(null);
   
   const companies = getFilteredCompanies();
   
@@ -54,6 +68,7 @@ const SimilarCompanyFinder: React.FC = () => {
   const handleCompanySelect = async (company: HybridCompany) => {
     setSelectedCompany(company);
     setSearchTerm('');
+    setValueItemIndex(null);
     setIsCalculating(true);
     setCalculationProgress(0);
     
@@ -88,60 +103,25 @@ const SimilarCompanyFinder: React.FC = () => {
 
   // 形態素解析を使ったテキスト類似度分析 (デバッグ用)
   const analyzeTextSimilarity = (company1: HybridCompany, company2: HybridCompany) => {
-    const calculateWordOverlap = (text1: string, text2: string) => {
-      // 拡張形態素解析サービスを使用
-      const segmentationOptions = {
-        preserveCompounds: true,
-        enableCustomRules: true,
-        industryFocus
-      };
+    // 各企業のJSIC大分類に対応する辞書プロファイルを使用
+    const profileId1 = segmentationDictionary.getProfileIdForCategory(company1.category);
+    const profileId2 = segmentationDictionary.getProfileIdForCategory(company2.category);
+    const importantTerms = new Set([
+      ...segmentationDictionary.getResolvedProfile(profileId1).importantTerms,
+      ...segmentationDictionary.getResolvedProfile(profileId2).importantTerms
+    ]);
 
-      const extractKeywords = (text: string) => {
+    const calculateWordOverlap = (text1: string, text2: string) => {
+      const extractKeywords = (text: string, profileId: string) => {
         // 拡張形態素解析で分かち書き（複合語保持）
-        const segmentationResult = enhancedSegmentationService.segmentWithCompounds(text, segmentationOptions);
+        const segmentationResult = enhancedSegmentationService.segmentWithCompounds(text, {
+          preserveCompounds: true,
+          enableCustomRules: true,
+          profileId
+        });
+        const { stopWords } = segmentationDictionary.getResolvedProfile(profileId);
         const segments = segmentationResult.segments;
         
-        // ストップワード定義
-        const stopWords = new Set([
-          'の', 'に', 'は', 'を', 'が', 'で', 'と', 'て', 'た', 'だ', 'し', 'た', 'り', 'れ', 'る', 'ら',
-          'か', 'も', 'や', 'ば', 'ね', 'な', 'よ', 'な', 'へ', 'や', 'から', 'まで', 'より', 'では',
-          'こと', 'もの', 'ため', 'とき', 'ところ', 'など', 'また', 'さらに', 'そして', 'しかし',
-          'ただし', 'として', 'について', 'において', 'により', 'による', 'です', 'ます', 'である',
-          'した', 'して', 'する', 'され', 'させ', 'られ', 'いる', 'ある', 'なる', 'やっ', 'いっ',
-          'その', 'この', 'それ', 'あの', 'どの', 'すべて', 'わたし', 'わたくし', 'あなた', 'これ'
-        ]);
-        
-        // 重要なビジネス・価値観用語の辞書（業界共通）
-        const importantTerms = new Set([
-          // 一般的な価値観・使命関連
-          '社会', '貢献', '技術', '品質', '安全', '信頼', '価値', '生活', '課題', '解決', 
-          '未来', '革新', '発展', '成長', '向上', '実現', '提供', 'サービス', '商品', '企業', 
-          '事業', '人々', '豊か', '使命', '責任', '尊重', '誠実', '創造', 'イノベーション', 
-          '支援', '改善', '発明', 'グローバル', '国際', '世界', '地域', '地球', '環境', 
-          '持続', '可能', '最高', '最良', '最適', '優秀', '優れた', '高度', '先進', '最新', 
-          '現場', '目指す', '追求', '実現', '貢献', '発展', '向上', '改善', '革新', '創出',
-          
-          // デジタル・IT関連
-          'デジタル', 'AI', 'DX', 'データ', 'テクノロジー', 'プラットフォーム', 'ソリューション',
-          'クラウド', 'システム', 'ネットワーク', 'セキュリティ', 'イノベーション',
-          
-          // 製造・産業関連
-          '製造', '生産', 'ものづくり', '工場', '製品', '素材', '加工', '開発',
-          
-          // 金融・サービス関連
-          '金融', '投資', '資産', 'ファイナンス', 'コンサルティング', 'アドバイザリー',
-          
-          // エネルギー・インフラ関連
-          'エネルギー', '電力', 'インフラ', '建設', '都市', '交通', 'モビリティ',
-          
-          // 小売・消費財関連
-          '顧客', 'カスタマー', '消費者', 'ブランド', 'マーケティング', '流通',
-          
-          // 医療・ヘルスケア関連（既存）
-          '医療', '健康', '患者', '福祉', 'ケア', 'いのち', '生命', '命', '治療', 
-          '診断', '予防', '看護', '介護'
-        ]);
-        
         // フィルタリングとキーワード抽出
         const keywords = segments
           .filter((word: string) => {
@@ -191,8 +171,8 @@ const SimilarCompanyFinder: React.FC = () => {
         return sortedKeywords;
       };
 
-      const words1 = extractKeywords(text1);
-      const words2 = extractKeywords(text2);
+      const words1 = extractKeywords(text1, profileId1);
+      const words2 = extractKeywords(text2, profileId2);
       
       // 形態素解析結果に適した一致判定
       const findMatches = (arr1: string[], arr2: string[]) => {
@@ -625,7 +605,20 @@ const SimilarCompanyFinder: React.FC = () => {
       components: any; 
     };
     isEnhanced?: boolean;
-  })[] = selectedCompany && progressiveResults.length > 0
+    matchedValue?: { source: string; target: string };
+  })[] = selectedCompany && compareField !== 'combined'
+    ? SimilarityCalculator.findSimilarCompaniesByField(
+        selectedCompany,
+        companies,
+        compareField,
+        10,
+        valueItemIndex ?? undefined
+      ).map(match => ({
+        ...match,
+        enhancedData: calculateEnhancedSimilarity(selectedCompany, match.company),
+        isEnhanced: true
+      }))
+    : selectedCompany && progressiveResults.length > 0
     ? progressiveResults.map(result => {
         const enhancedData = calculateEnhancedSimilarity(selectedCompany, result.companyB);
         return {
@@ -838,8 +831,37 @@ const SimilarCompanyFinder: React.FC = () => {
                 類似企業ランキング (リアルタイム計算)
               </h3>
               <p className="text-sm text-gray-600 mt-1">
-                {selectedCompany.name} と最も類似するMVVを持つ企業 (OpenAI Embeddings使用)
+                {selectedCompany.name} と最も類似する{COMPARE_FIELD_LABELS[compareField]}を持つ企業 (OpenAI Embeddings使用)
               </p>
+              <div className="flex flex-wrap items-center gap-3 mt-3 text-sm">
+                <label className="flex items-center gap-2 text-gray-700">
+                  比較する項目
+                  <select
+                    value={compareField}
+                    onChange={(e) => setCompareField(e.target.value as CompareField)}
+                    className="border border-gray-300 rounded-md px-2 py-1"
+                  >
+                    {COMPARE_FIELDS.map(field => (
+                      <option key={field} value={field}>{COMPARE_FIELD_LABELS[field]}</option>
+                    ))}
+                  </select>
+                </label>
+                {compareField === 'valueItems' && (
+                  <label className="flex items-center gap-2 text-gray-700">
+                    バリュー
+                    <select
+                      value={valueItemIndex ?? ''}
+                      onChange={(e) => setValueItemIndex(e.target.value === '' ? null : Number(e.target.value))}
+                      className="border border-gray-300 rounded-md px-2 py-1 max-w-xs"
+                    >
+                      <option value="">いずれかが一致</option>
+                      {(selectedCompany.fieldEmbeddings?.valueItems ?? []).map((item, index) => (
+                        <option key={item.text} value={index}>{item.text}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </div>
             </div>
             
             <div className="p-6">
@@ -877,6 +899,12 @@ const SimilarCompanyFinder: React.FC = () => {
                         </div>
                       </div>
                       
+                      {similar.matchedValue && (
+                        <div className="mb-3 text-sm text-purple-700 bg-purple-50 rounded px-3 py-2">
+                          共通するバリュー: 「{similar.matchedValue.source}」 ↔ 「{similar.matchedValue.target}」
+                        </div>
+                      )}
+
                       {/* 類似度の理由 */}
                       <div className="mb-3">
                         <div className="text-sm text-gray-700 mb-2">
@@ -1026,10 +1054,17 @@ const SimilarCompanyFinder: React.FC = () => {
                 {similarCompanies.length === 0 && selectedCompany && (
                   <div className="text-center py-8 text-gray-500">
                     <div className="mb-2">❌ 類似企業データがありません</div>
-                    <div className="text-sm">
-                      この企業にはEmbeddingsが生成されていないか、<br />
-                      他の企業との比較データがありません。
-                    </div>
+                    {compareField === 'combined' ? (
+                      <div className="text-sm">
+                        この企業にはEmbeddingsが生成されていないか、<br />
+                        他の企業との比較データがありません。
+                      </div>
+                    ) : (
+                      <div className="text-sm">
+                        {COMPARE_FIELD_LABELS[compareField]}の項目別Embeddingsがありません。<br />
+                        Embeddings生成画面で項目別Embeddingsの移行を実行してください。
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -0,0 +1,170 @@
+import React, { useMemo } from 'react';
+import { Search, X, Hash, Layers } from 'lucide-react';
+import { analysisComputeService, type ComputeCallbacks } from '../../services/analysisComputeService';
+import type { ComputeCompany, ComputePhase, UniquenessScore } from '../../services/analysisCompute';
+import type { UniquenessExplanation, UniquenessNeighbor } from '../../services/uniquenessExplanation';
+import { MVV_FIELD_LABELS } from '../../services/mvvFieldEmbeddings';
+import { useAnalysisCompute } from '../../hooks/useAnalysisCompute';
+import { ComputeProgressBanner } from './ComputeProgressBanner';
+
+const EXPLANATION_PHASES: ComputePhase[] = ['explanation'];
+
+interface UniquenessExplanationPanelProps {
+  companies: ComputeCompany[];
+  score: UniquenessScore;
+  onClose: () => void;
+}
+
+const NeighborList: React.FC<{ title: string; neighbors: UniquenessNeighbor[] }> = ({ title, neighbors }) => (
+  <div>
+    <div className="text-sm font-medium text-gray-700 mb-2">{title}</div>
+    {neighbors.length === 0 ? (
+      <div className="text-xs text-gray-400">該当企業なし</div>
+    ) : (
+      <ul className="space-y-1">
+        {neighbors.map(neighbor => (
+          <li key={neighbor.companyId} className="flex items-center justify-between text-sm">
+            <span className="truncate mr-2">
+              {neighbor.companyName}
+              <span className="ml-1 text-xs text-gray-400">{neighbor.category}</span>
+            </span>
+            <span className="font-mono text-gray-600">{(neighbor.similarity * 100).toFixed(1)}%</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/**
+ * 独自性スコアの根拠（ドリルダウン）
+ */
+export const UniquenessExplanationPanel: React.FC<UniquenessExplanationPanelProps> = ({ companies, score, onClose }) => {
+  const startCompute = useMemo(
+    () => (callbacks: ComputeCallbacks<UniquenessExplanation>) =>
+      analysisComputeService.explainUniqueness(companies, score.companyId, {}, callbacks),
+    [companies, score.companyId]
+  );
+
+  const { result, progress, status, error, cancel, restart } = useAnalysisCompute(startCompute, EXPLANATION_PHASES);
+  const zScore = score.detailedScores?.industryZScore;
+  const maxFieldDistance = Math.max(
+    0.01,
+    ...(result?.fieldDistances ?? []).flatMap(breakdown => [breakdown.avgDistance, breakdown.corpusAvgDistance])
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Search className="mr-2 h-5 w-5 text-blue-500" />
+            {score.companyName} の独自性の根拠
+          </h3>
+          <div className="text-sm text-gray-600 mt-1">
+            {score.category} / 独自性スコア {(score.uniquenessScore * 100).toFixed(1)}%
+            {zScore !== undefined && (
+              <span className="ml-2">
+                / 業界内Zスコア <span className="font-mono">{zScore >= 0 ? '+' : ''}{zScore.toFixed(2)}</span>
+                （{zScore >= 0 ? '業界平均より他社と似ていない' : '業界平均より他社と似ている'}）
+              </span>
+            )}
+          </div>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="閉じる">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <ComputeProgressBanner
+        status={status}
+        progress={progress}
+        label="独自性の根拠分析"
+        onCancel={cancel}
+        onRestart={restart}
+      />
+
+      {status === 'error' && <div className="text-sm text-red-600">分析に失敗しました: {error}</div>}
+
+      {result && (
+        <div className="space-y-6">
+          {/* 項目別の距離 */}
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2 flex items-center">
+              <Layers className="mr-2 h-4 w-4 text-purple-500" />
+              距離を生んでいる項目
+            </h4>
+            {result.fieldDistances.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                この企業には項目別の埋め込みベクトルがありません。Embeddingsを再生成すると、ミッション・ビジョン・バリューごとの距離を表示できます。
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {result.fieldDistances.map(breakdown => (
+                  <div key={breakdown.field}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className={breakdown.field === result.drivingField ? 'font-semibold text-purple-700' : 'text-gray-700'}>
+                        {MVV_FIELD_LABELS[breakdown.field]}
+                        {breakdown.field === result.drivingField && ' ★ 主因'}
+                      </span>
+                      <span className="font-mono text-xs text-gray-600">
+                        他社との平均距離 {breakdown.avgDistance.toFixed(3)}（全体平均 {breakdown.corpusAvgDistance.toFixed(3)}、
+                        {breakdown.excessDistance >= 0 ? '+' : ''}{breakdown.excessDistance.toFixed(3)}）
+                      </span>
+                    </div>
+                    <div className="relative h-2 bg-gray-100 rounded">
+                      <div
+                        className={`absolute h-2 rounded ${breakdown.field === result.drivingField ? 'bg-purple-500' : 'bg-blue-400'}`}
+                        style={{ width: `${(breakdown.avgDistance / maxFieldDistance) * 100}%` }}
+                      />
+                      <div
+                        className="absolute h-4 -top-1 w-0.5 bg-gray-700"
+                        style={{ left: `${(breakdown.corpusAvgDistance / maxFieldDistance) * 100}%` }}
+                        title="全体平均"
+                      />
+                    </div>
+                  </div>
+                ))}
+                {!result.drivingField && (
+                  <p className="text-xs text-gray-500">どの項目も全体平均より他社に近く、特定の項目が独自性を生んでいるわけではありません。</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* 近傍・遠方企業 */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <NeighborList title="最も近い企業（全体）" neighbors={result.nearest} />
+            <NeighborList title="最も遠い企業（全体）" neighbors={result.farthest} />
+            <NeighborList title={`最も近い企業（${result.category}）`} neighbors={result.nearestInCategory} />
+            <NeighborList title={`最も遠い企業（${result.category}）`} neighbors={result.farthestInCategory} />
+          </div>
+
+          {/* 珍しいキーワード */}
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2 flex items-center">
+              <Hash className="mr-2 h-4 w-4 text-green-500" />
+              コーパス内で珍しいキーワード（TF-IDF、{result.documentCount}社中）
+            </h4>
+            {result.rareKeywords.length === 0 ? (
+              <p className="text-sm text-gray-500">キーワードを抽出できませんでした</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {result.rareKeywords.map(keyword => (
+                  <span
+                    key={keyword.term}
+                    className="inline-flex items-center px-2 py-1 rounded-full text-sm bg-green-50 text-green-800 border border-green-200"
+                    title={`TF-IDF ${keyword.tfidf.toFixed(3)} / 出現${keyword.count}回`}
+                  >
+                    {keyword.term}
+                    <span className="ml-1 text-xs text-green-600">{keyword.documentFrequency}社</span>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,218 +1,42 @@
 import React, { useMemo, useState } from 'react';
 import { useAnalysisStore } from '../../stores/analysisStore';
-import { LoadingSpinner } from '../common';
+import { LoadingSpinner, ProgressBar } from '../common';
 import { Star, TrendingUp, Award, AlertCircle } from 'lucide-react';
-import { calculateEmbeddingSimilarity } from '../../services/similarityCalculator';
+import { analysisComputeService, toComputeCompany, type ComputeCallbacks } from '../../services/analysisComputeService';
+import type { ComputePhase, UniquenessResult } from '../../services/analysisCompute';
+import { useAnalysisCompute } from '../../hooks/useAnalysisCompute';
+import { ComputeProgressBanner } from './ComputeProgressBanner';
+import { UniquenessExplanationPanel } from './UniquenessExplanationPanel';
 
-interface UniquenessScore {
-  companyId: string;
-  companyName: string;
-  category: string;
-  uniquenessScore: number;
-  avgSimilarity: number;
-  minSimilarity: number;
-  maxSimilarity: number;
-  similarCompaniesCount: number;
-  detailedScores?: {
-    baseUniqueness: number;
-    industryUniqueness: number;
-    crossIndustryUniqueness: number;
-    rarityScore: number;
-    avgSameIndustry: number;
-    avgDifferentIndustry: number;
-    industryZScore: number;
-  };
-}
+const COMPUTE_PHASES: ComputePhase[] = ['similarity'];
 
 export const UniquenessScoreDashboard: React.FC = () => {
   const { data, isLoading } = useAnalysisStore();
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [explainedCompanyId, setExplainedCompanyId] = useState<string | null>(null);
 
-  const { uniquenessScores, categoryStats, loading } = useMemo(() => {
-    if (!data || !data.companies) {
-      return { uniquenessScores: [], categoryStats: {}, loading: true };
-    }
-
-    console.log('🔄 独自性スコア計算開始...');
-    const startTime = performance.now();
-
-    // 埋め込みベクトルを持つ企業のみフィルター
-    const validCompanies = data.companies.filter(company => 
-      company.embeddings && Array.isArray(company.embeddings) && company.embeddings.length > 0
-    );
-
-    if (validCompanies.length === 0) {
-      return { uniquenessScores: [], categoryStats: {}, loading: false };
-    }
-
-    console.log(`📊 ${validCompanies.length}社で独自性分析実行中...`);
-
-    // 対称性を利用した最適化された類似度計算
-    const similarityMatrix: number[][] = Array(validCompanies.length)
-      .fill(null)
-      .map(() => Array(validCompanies.length).fill(0));
-
-    // 上三角行列のみ計算
-    for (let i = 0; i < validCompanies.length; i++) {
-      for (let j = i + 1; j < validCompanies.length; j++) {
-        const similarity = calculateEmbeddingSimilarity(
-          validCompanies[i].embeddings!,
-          validCompanies[j].embeddings!
-        );
-        similarityMatrix[i][j] = similarity;
-        similarityMatrix[j][i] = similarity; // 対称性を利用
-      }
-      similarityMatrix[i][i] = 1.0; // 自分自身は1.0
-    }
-
-    // 業界ごとの類似度統計を事前計算
-    const categorySimStats = new Map<string, { avgSim: number; stdDev: number; count: number }>();
-    
-    validCompanies.forEach((company, index) => {
-      const category = company.category || '未分類';
-      const similarities = similarityMatrix[index].filter((_, i) => i !== index);
-      const avgSim = similarities.reduce((sum, sim) => sum + sim, 0) / similarities.length;
-      
-      if (!categorySimStats.has(category)) {
-        categorySimStats.set(category, { avgSim: 0, stdDev: 0, count: 0 });
-      }
-      
-      const stats = categorySimStats.get(category)!;
-      stats.avgSim += avgSim;
-      stats.count++;
-    });
-    
-    // 業界平均の計算
-    categorySimStats.forEach((stats) => {
-      stats.avgSim /= stats.count;
-    });
-    
-    // 業界標準偏差の計算
-    validCompanies.forEach((company, index) => {
-      const category = company.category || '未分類';
-      const similarities = similarityMatrix[index].filter((_, i) => i !== index);
-      const avgSim = similarities.reduce((sum, sim) => sum + sim, 0) / similarities.length;
-      const stats = categorySimStats.get(category)!;
-      
-      stats.stdDev += Math.pow(avgSim - stats.avgSim, 2);
-    });
-    
-    categorySimStats.forEach((stats) => {
-      stats.stdDev = Math.sqrt(stats.stdDev / stats.count);
-    });
-
-    // 各企業の独自性スコア計算（改善版）
-    const scores: UniquenessScore[] = validCompanies.map((company, index) => {
-      const similarities = similarityMatrix[index].filter((_, i) => i !== index);
-      const avgSimilarity = similarities.reduce((sum, sim) => sum + sim, 0) / similarities.length;
-      const maxSimilarity = Math.max(...similarities);
-      const minSimilarity = Math.min(...similarities);
-      
-      // 業界内・外類似度の分離計算
-      const targetCategory = company.category || '未分類';
-      const sameIndustryIndices = validCompanies
-        .map((c, i) => ({ company: c, index: i }))
-        .filter(({ company: c }) => c.category === targetCategory && c.id !== company.id)
-        .map(({ index }) => index);
-        
-      const differentIndustryIndices = validCompanies
-        .map((c, i) => ({ company: c, index: i }))
-        .filter(({ company: c }) => c.category !== targetCategory)
-        .map(({ index }) => index);
-      
-      const sameIndustrySimilarities = sameIndustryIndices.map(i => similarityMatrix[index][i]);
-      const differentIndustrySimilarities = differentIndustryIndices.map(i => similarityMatrix[index][i]);
-      
-      const avgSameIndustry = sameIndustrySimilarities.length > 0 
-        ? sameIndustrySimilarities.reduce((sum, sim) => sum + sim, 0) / sameIndustrySimilarities.length 
-        : 0;
-      const avgDifferentIndustry = differentIndustrySimilarities.length > 0
-        ? differentIndustrySimilarities.reduce((sum, sim) => sum + sim, 0) / differentIndustrySimilarities.length
-        : 0;
-      
-      // 改善された独自性スコア計算
-      // 1. 基本独自性（全体平均との差）
-      const baseUniqueness = 1 - avgSimilarity;
-      
-      // 2. 業界相対独自性（業界内での立ち位置）
-      const categoryStats = categorySimStats.get(company.category || '未分類');
-      const industryZScore = categoryStats && categoryStats.stdDev > 0
-        ? (categoryStats.avgSim - avgSimilarity) / categoryStats.stdDev
-        : 0;
-      const industryUniqueness = Math.max(0, Math.min(1, (industryZScore + 3) / 6)); // -3σ～+3σを0～1に正規化
-      
-      // 3. クロス業界独自性（業界間類似度から計算）
-      const crossIndustryUniqueness = avgDifferentIndustry > 0 ? 1 - avgDifferentIndustry : 0;
-      
-      // 4. 類似企業希少性（高類似企業の少なさ）
-      const highSimilarityThreshold = 0.75;
-      const highSimilarCompaniesCount = similarities.filter(sim => sim > highSimilarityThreshold).length;
-      const rarityScore = Math.max(0, 1 - (highSimilarCompaniesCount / Math.max(validCompanies.length - 1, 1)));
-      
-      // 総合独自性スコア（重み付き平均）
-      const uniquenessScore = (
-        baseUniqueness * 0.3 +           // 30%: 基本独自性
-        industryUniqueness * 0.4 +       // 40%: 業界相対独自性  
-        crossIndustryUniqueness * 0.2 +  // 20%: クロス業界独自性
-        rarityScore * 0.1                // 10%: 希少性
-      );
-      
-      const similarCompaniesCount = similarities.filter(sim => sim > 0.8).length;
-
-      return {
-        companyId: company.id,
-        companyName: company.name,
-        category: company.category,
-        uniquenessScore: Math.max(0, Math.min(1, uniquenessScore)), // 0-1に正規化
-        avgSimilarity,
-        minSimilarity,
-        maxSimilarity,
-        similarCompaniesCount,
-        // 詳細スコア（デバッグ・分析用）
-        detailedScores: {
-          baseUniqueness,
-          industryUniqueness,
-          crossIndustryUniqueness,
-          rarityScore,
-          avgSameIndustry,
-          avgDifferentIndustry,
-          industryZScore
-        }
-      };
-    });
+  // 埋め込みベクトルを持つ企業のみ対象
+  const validCompanies = useMemo(() => {
+    if (!data || !data.companies) return null;
+    return data.companies
+      .filter(company => company.embeddings && Array.isArray(company.embeddings) && company.embeddings.length > 0)
+      .map(toComputeCompany);
+  }, [data]);
 
-    // カテゴリ別統計
-    const categoryStats = scores.reduce((acc, score) => {
-      const category = score.category;
-      if (!acc[category]) {
-        acc[category] = {
-          count: 0,
-          avgUniqueness: 0,
-          maxUniqueness: 0,
-          minUniqueness: 1
-        };
-      }
-      acc[category].count++;
-      acc[category].avgUniqueness += score.uniquenessScore;
-      acc[category].maxUniqueness = Math.max(acc[category].maxUniqueness, score.uniquenessScore);
-      acc[category].minUniqueness = Math.min(acc[category].minUniqueness, score.uniquenessScore);
-      return acc;
-    }, {} as any);
+  // 類似度マトリックスと独自性スコアはWorkerで計算し、確定した企業から順に表示する
+  const startCompute = useMemo(() => {
+    if (!validCompanies || validCompanies.length === 0) return null;
+    return (callbacks: ComputeCallbacks<UniquenessResult>) => {
+      console.log(`📊 ${validCompanies.length}社で独自性分析実行中...`);
+      return analysisComputeService.computeUniqueness(validCompanies, callbacks);
+    };
+  }, [validCompanies]);
 
-    // 平均独自性スコアを計算
-    Object.keys(categoryStats).forEach(category => {
-      categoryStats[category].avgUniqueness /= categoryStats[category].count;
-    });
+  const { result, progress, status, error, cancel, restart } = useAnalysisCompute(startCompute, COMPUTE_PHASES);
 
-    const endTime = performance.now();
-    console.log(`✅ 独自性スコア計算完了: ${Math.round(endTime - startTime)}ms`);
-
-    return {
-      uniquenessScores: scores.sort((a, b) => b.uniquenessScore - a.uniquenessScore),
-      categoryStats,
-      loading: false
-    };
-  }, [data]);
+  const uniquenessScores = useMemo(() => result?.uniquenessScores ?? [], [result]);
+  const categoryStats = useMemo(() => result?.categoryStats ?? {}, [result]);
+  const loading = !validCompanies || (validCompanies.length > 0 && !result && (status === 'idle' || status === 'computing'));
 
   const filteredScores = useMemo(() => {
     if (selectedCategory === 'all') return uniquenessScores;
@@ -223,17 +47,49 @@ export const UniquenessScoreDashboard: React.FC = () => {
     return ['all', ...Object.keys(categoryStats)];
   }, [categoryStats]);
 
+  const explainedScore = explainedCompanyId
+    ? uniquenessScores.find(score => score.companyId === explainedCompanyId)
+    : undefined;
+
   if (isLoading || loading) {
     return (
       <div className="flex items-center justify-center h-64">
-        <div className="text-center">
+        <div className="text-center w-64">
           <LoadingSpinner size="lg" className="mb-4" />
-          <p className="text-gray-600">独自性スコアを計算中...</p>
+          <p className="text-gray-600 mb-3">独自性スコアを計算中...</p>
+          {status === 'computing' && <ProgressBar value={progress * 100} size="sm" />}
+        </div>
+      </div>
+    );
+  }
+
+  if (status === 'error') {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <AlertCircle className="mx-auto w-16 h-16 text-red-500 mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">独自性スコアの計算に失敗しました</h3>
+          <p className="text-gray-600 mb-4">{error}</p>
+          <button onClick={restart} className="text-blue-600 hover:text-blue-800 text-sm">
+            再計算
+          </button>
         </div>
       </div>
     );
   }
 
+  if (uniquenessScores.length === 0 && status === 'cancelled') {
+    return (
+      <ComputeProgressBanner
+        status={status}
+        progress={progress}
+        label="独自性スコア"
+        onCancel={cancel}
+        onRestart={restart}
+      />
+    );
+  }
+
   if (uniquenessScores.length === 0) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -266,11 +122,21 @@ export const UniquenessScoreDashboard: React.FC = () => {
             </p>
           </div>
           <div className="text-sm text-gray-500">
-            対象企業: {uniquenessScores.length}社
+            対象企業: {result && result.evaluatedCount < result.totalCount
+              ? `${result.evaluatedCount}/${result.totalCount}社`
+              : `${uniquenessScores.length}社`}
           </div>
         </div>
       </div>
 
+      <ComputeProgressBanner
+        status={status}
+        progress={progress}
+        label="独自性スコア"
+        onCancel={cancel}
+        onRestart={restart}
+      />
+
       {/* カテゴリフィルター */}
       <div className="bg-white rounded-lg shadow-sm border p-4">
         <div className="flex items-center space-x-4">
@@ -287,9 +153,30 @@ export const UniquenessScoreDashboard: React.FC = () => {
               </option>
             ))}
           </select>
+
+          <label className="text-sm font-medium text-gray-700">根拠を表示:</label>
+          <select
+            value={explainedCompanyId ?? ''}
+            onChange={(e) => setExplainedCompanyId(e.target.value || null)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">企業を選択</option>
+            {filteredScores.map(score => (
+              <option key={score.companyId} value={score.companyId}>{score.companyName}</option>
+            ))}
+          </select>
         </div>
       </div>
 
+      {/* 選択企業の独自性の根拠 */}
+      {explainedScore && validCompanies && (
+        <UniquenessExplanationPanel
+          companies={validCompanies}
+          score={explainedScore}
+          onClose={() => setExplainedCompanyId(null)}
+        />
+      )}
+
       {/* トップ10独自性企業 */}
       <div className="bg-white rounded-lg shadow-sm border p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
@@ -301,7 +188,9 @@ export const UniquenessScoreDashboard: React.FC = () => {
           {filteredScores.slice(0, 10).map((score, index) => (
             <div
               key={score.companyId}
-              className={`p-4 rounded-lg border-l-4 ${
+              onClick={() => setExplainedCompanyId(score.companyId)}
+              title="クリックで独自性の根拠を表示"
+              className={`p-4 rounded-lg border-l-4 cursor-pointer hover:shadow-md transition-shadow ${
                 index === 0 ? 'border-l-yellow-500 bg-yellow-50' :
                 index === 1 ? 'border-l-gray-400 bg-gray-50' :
                 index === 2 ? 'border-l-amber-600 bg-amber-50' :
@@ -397,7 +286,7 @@ export const UniquenessScoreDashboard: React.FC = () => {
         </h3>
         
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {Object.entries(categoryStats).map(([category, stats]: [string, any]) => (
+          {Object.entries(categoryStats).map(([category, stats]) => (
             <div key={category} className="p-4 border rounded-lg hover:shadow-md transition-shadow">
               <div className="font-semibold text-gray-900 mb-2">{category}</div>
               <div className="space-y-2 text-sm">
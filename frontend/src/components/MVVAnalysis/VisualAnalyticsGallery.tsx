@@ -19,10 +19,20 @@ import {
   Monitor,
   X,
   Database,
-  Trash2
+  Trash2,
+  PenLine,
+  Presentation,
+  ChevronUp,
+  ChevronDown,
+  History
 } from 'lucide-react';
 import { ScreenshotCaptureService, type AnalysisScreenshot } from '../../services/screenshotCapture';
 import { ScreenshotStorageService } from '../../services/screenshotStorage';
+import { renderAnnotatedImage, type ScreenshotAnnotation } from '../../services/screenshotAnnotation';
+import { ScreenshotDeckExporter } from '../../services/screenshotDeckExporter';
+import { AnnotatedScreenshot } from './AnnotatedScreenshot';
+import { ScreenshotAnnotator } from './ScreenshotAnnotator';
+import { ScreenshotTimeline } from './ScreenshotTimeline';
 import { Button } from '../common';
 import { useNotification } from '../../hooks/useNotification';
 
@@ -30,7 +40,7 @@ interface VisualAnalyticsGalleryProps {
   className?: string;
 }
 
-type ViewMode = 'grid' | 'list';
+type ViewMode = 'grid' | 'list' | 'timeline';
 type CaptureStatus = 'idle' | 'capturing' | 'completed' | 'error';
 
 interface TabSelection {
@@ -52,7 +62,7 @@ const TAB_NAMES = {
 } as const;
 
 export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({ className }) => {
-  const [screenshots, setScreenshots] = useState<AnalysisScreenshot[]>([]);
+  const [allScreenshots, setAllScreenshots] = useState<AnalysisScreenshot[]>([]);
   const [captureStatus, setCaptureStatus] = useState<CaptureStatus>('idle');
   const [captureProgress, setCaptureProgress] = useState({ current: 0, total: 0, screenName: '' });
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
@@ -68,9 +78,23 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
     uniqueness: false, // β版はデフォルトでオフ
     quality: false // β版はデフォルトでオフ
   });
+  // スライド出力の対象（選択した順に並ぶ）
+  const [deckSelection, setDeckSelection] = useState<string[]>([]);
+  const [deckTitle, setDeckTitle] = useState('MVV分析レポート');
+  const [includeCoverSlide, setIncludeCoverSlide] = useState(true);
+  const [isExportingDeck, setIsExportingDeck] = useState(false);
+  const [annotatingScreenshot, setAnnotatingScreenshot] = useState<AnalysisScreenshot | null>(null);
   
   const { success, error: showError } = useNotification();
 
+  // 時系列スナップショットは手動キャプチャと分けて表示する
+  const screenshots = allScreenshots.filter(screenshot => screenshot.kind !== 'snapshot');
+  const snapshots = allScreenshots.filter(screenshot => screenshot.kind === 'snapshot');
+
+  const deckScreenshots = deckSelection
+    .map(id => screenshots.find(screenshot => screenshot.id === id))
+    .filter((screenshot): screenshot is AnalysisScreenshot => !!screenshot);
+
   // IndexedDBからスクリーンショットを読み込み
   const loadScreenshots = useCallback(async () => {
     try {
@@ -80,7 +104,7 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
       const loadedScreenshots = await ScreenshotStorageService.getScreenshots();
       const storageUsage = await ScreenshotStorageService.getStorageUsage();
       
-      setScreenshots(loadedScreenshots);
+      setAllScreenshots(loadedScreenshots);
       setStorageInfo(storageUsage);
       
       console.log(`📦 IndexedDBから${loadedScreenshots.length}件のスクリーンショットを読み込み`);
@@ -106,7 +130,7 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
   useEffect(() => {
     const handleStorageUpdate = (updatedScreenshots: AnalysisScreenshot[]) => {
       console.log('🔄 IndexedDBから更新通知:', updatedScreenshots.length);
-      setScreenshots(updatedScreenshots);
+      setAllScreenshots(updatedScreenshots);
     };
 
     ScreenshotStorageService.addListener(handleStorageUpdate);
@@ -218,8 +242,9 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
 
   const handleDownloadSingle = useCallback(async (screenshot: AnalysisScreenshot) => {
     try {
+      const { dataUrl } = await renderAnnotatedImage(screenshot);
       const link = document.createElement('a');
-      link.href = screenshot.dataUrl;
+      link.href = dataUrl;
       link.download = `${screenshot.name}_${new Date(screenshot.timestamp).toISOString().split('T')[0]}.png`;
       link.click();
       
@@ -245,12 +270,12 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
   }, [success, showError]);
 
   const handleClearAll = useCallback(async () => {
-    if (!window.confirm('保存されている全スクリーンショットを削除しますか？')) {
+    if (!window.confirm('保存されている全スクリーンショットを削除しますか？（時系列スナップショットは残ります）')) {
       return;
     }
     
     try {
-      await ScreenshotStorageService.clearAllScreenshots();
+      await ScreenshotStorageService.clearAllScreenshots('manual');
       success('削除完了', '全スクリーンショットを削除しました');
       
       // ストレージ使用量更新
@@ -262,6 +287,51 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
     }
   }, [success, showError]);
 
+  const toggleDeckSelection = useCallback((id: string) => {
+    setDeckSelection(prev => (prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]));
+  }, []);
+
+  const moveDeckItem = useCallback((id: string, offset: -1 | 1) => {
+    setDeckSelection(prev => {
+      const index = prev.indexOf(id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const handleExportDeck = useCallback(async () => {
+    if (deckScreenshots.length === 0) return;
+
+    setIsExportingDeck(true);
+    try {
+      await ScreenshotDeckExporter.exportToPptx(deckScreenshots, {
+        title: deckTitle.trim() || 'MVV分析レポート',
+        includeCoverSlide
+      });
+      success('スライド出力完了', `${deckScreenshots.length}枚のスライドをPPTXで出力しました`);
+    } catch (error) {
+      console.error('Deck export failed:', error);
+      showError('スライド出力エラー', 'PPTXファイルの生成に失敗しました');
+    } finally {
+      setIsExportingDeck(false);
+    }
+  }, [deckScreenshots, deckTitle, includeCoverSlide, success, showError]);
+
+  const handleSaveAnnotations = useCallback(async (screenshot: AnalysisScreenshot, annotations: ScreenshotAnnotation[]) => {
+    try {
+      await ScreenshotStorageService.updateAnnotations(screenshot.id, annotations);
+      setSelectedScreenshot(prev => (prev?.id === screenshot.id ? { ...prev, annotations } : prev));
+      success('注釈を保存しました', `${screenshot.name}: ${annotations.length}件`);
+    } catch (error) {
+      console.error('Annotation save failed:', error);
+      showError('保存エラー', '注釈の保存に失敗しました');
+      throw error;
+    }
+  }, [success, showError]);
+
   const handlePreview = useCallback((screenshot: AnalysisScreenshot) => {
     setSelectedScreenshot(screenshot);
     setShowPreview(true);
@@ -386,13 +456,21 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
                   onClick={() => handlePreview(screenshot)}
                   title="クリックでプレビュー表示"
                 >
-                  <img 
-                    src={screenshot.dataUrl} 
-                    alt={screenshot.name}
-                    className="max-w-full max-h-full object-contain transition-transform duration-200 hover:scale-105"
-                    style={{ backgroundColor: 'white' }}
+                  <AnnotatedScreenshot
+                    screenshot={screenshot}
+                    className="w-full h-full transition-transform duration-200 hover:scale-105"
                   />
                 </div>
+                {/* スライド出力の選択（番号は出力順） */}
+                <label className="absolute top-2 left-2 flex items-center bg-white/90 rounded px-1.5 py-0.5 text-xs text-gray-700 shadow-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={deckSelection.includes(screenshot.id)}
+                    onChange={() => toggleDeckSelection(screenshot.id)}
+                    className="mr-1"
+                  />
+                  {deckSelection.includes(screenshot.id) ? `スライド ${deckSelection.indexOf(screenshot.id) + 1}` : 'スライド'}
+                </label>
                 {/* ホバー時の薄いオーバーレイ - pointer-events-noneで画像クリックを妨げない */}
                 <div className="absolute inset-0 bg-gray-900 opacity-0 group-hover:opacity-5 pointer-events-none transition-opacity duration-200" />
                 {/* プレビューボタンは削除 - 画像クリックでプレビュー表示 */}
@@ -411,6 +489,15 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setAnnotatingScreenshot(screenshot)}
+                    title="注釈を編集"
+                  >
+                    <PenLine className="w-4 h-4" />
+                    {!!screenshot.annotations?.length && <span className="ml-1">{screenshot.annotations.length}</span>}
+                  </Button>
                   <Button
                     size="sm"
                     variant="outline"
@@ -440,17 +527,18 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
           {screenshots.map((screenshot, index) => (
             <div key={screenshot.id} className={`p-4 ${index !== screenshots.length - 1 ? 'border-b border-gray-200' : ''}`}>
               <div className="flex items-center space-x-4">
+                <input
+                  type="checkbox"
+                  checked={deckSelection.includes(screenshot.id)}
+                  onChange={() => toggleDeckSelection(screenshot.id)}
+                  title="スライド出力に含める"
+                />
                 <div 
                   className="w-20 h-12 bg-white rounded overflow-hidden flex-shrink-0 border border-gray-200 cursor-pointer hover:shadow-md transition-shadow"
                   onClick={() => handlePreview(screenshot)}
                   title="クリックでプレビュー表示"
                 >
-                  <img 
-                    src={screenshot.dataUrl} 
-                    alt={screenshot.name}
-                    className="w-full h-full object-contain"
-                    style={{ backgroundColor: '#ffffff' }}
-                  />
+                  <AnnotatedScreenshot screenshot={screenshot} className="w-full h-full" />
                 </div>
                 <div className="flex-1 min-w-0">
                   <h3 className="font-medium text-gray-900 truncate">{screenshot.name}</h3>
@@ -471,6 +559,15 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setAnnotatingScreenshot(screenshot)}
+                    title="注釈を編集"
+                  >
+                    <PenLine className="w-4 h-4" />
+                    {!!screenshot.annotations?.length && <span className="ml-1">{screenshot.annotations.length}</span>}
+                  </Button>
                   <Button
                     size="sm"
                     variant="outline"
@@ -619,11 +716,11 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
       {renderCaptureStatus()}
 
       {/* Controls */}
-      {screenshots.length > 0 && (
+      {(screenshots.length > 0 || snapshots.length > 0 || viewMode === 'timeline') && (
         <div className="bg-white rounded-lg border border-gray-200 p-4">
           <div className="flex items-center justify-between">
             <div className="text-sm text-gray-600">
-              {screenshots.length}件のAI分析画面
+              {viewMode === 'timeline' ? `${snapshots.length}件の時系列スナップショット` : `${screenshots.length}件のAI分析画面`}
             </div>
             <div className="flex items-center space-x-2">
               <Button
@@ -640,13 +737,101 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
               >
                 <List className="w-4 h-4" />
               </Button>
+              <Button
+                size="sm"
+                variant={viewMode === 'timeline' ? 'primary' : 'outline'}
+                onClick={() => setViewMode('timeline')}
+                title="時系列スナップショット"
+              >
+                <History className="w-4 h-4" />
+              </Button>
             </div>
           </div>
         </div>
       )}
 
+      {/* Slide Deck Export */}
+      {deckScreenshots.length > 0 && (
+        <div className="bg-white rounded-lg border border-blue-200 p-4 space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <h3 className="text-sm font-medium text-gray-900 flex items-center">
+              <Presentation className="w-4 h-4 mr-2 text-blue-600" />
+              スライド出力（{deckScreenshots.length}枚）
+            </h3>
+            <input
+              type="text"
+              value={deckTitle}
+              onChange={(e) => setDeckTitle(e.target.value)}
+              placeholder="資料タイトル"
+              className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+            />
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeCoverSlide}
+                onChange={(e) => setIncludeCoverSlide(e.target.checked)}
+                className="mr-1"
+              />
+              表紙を付ける
+            </label>
+            <Button size="sm" variant="outline" onClick={() => setDeckSelection([])}>
+              選択解除
+            </Button>
+            <Button size="sm" onClick={handleExportDeck} disabled={isExportingDeck}>
+              {isExportingDeck ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Download className="w-4 h-4 mr-1" />}
+              PPTX出力
+            </Button>
+          </div>
+          <ol className="divide-y divide-gray-100 border border-gray-100 rounded-md">
+            {deckScreenshots.map((screenshot, index) => (
+              <li key={screenshot.id} className="flex items-center px-3 py-1.5 text-sm">
+                <span className="w-6 text-gray-500">{index + 1}</span>
+                <span className="flex-1 truncate text-gray-900">{screenshot.name}</span>
+                <span className="text-xs text-gray-500 mr-3">{formatTimestamp(screenshot.timestamp)}</span>
+                <button
+                  onClick={() => moveDeckItem(screenshot.id, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                  title="前へ"
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => moveDeckItem(screenshot.id, 1)}
+                  disabled={index === deckScreenshots.length - 1}
+                  className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                  title="後へ"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => toggleDeckSelection(screenshot.id)}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="スライドから外す"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       {/* Screenshot Gallery */}
-      {renderScreenshotGrid()}
+      {viewMode === 'timeline' ? (
+        <ScreenshotTimeline snapshots={snapshots} tabNames={TAB_NAMES} />
+      ) : (
+        renderScreenshotGrid()
+      )}
+
+      {/* Annotation Editor */}
+      {annotatingScreenshot && (
+        <ScreenshotAnnotator
+          screenshot={annotatingScreenshot}
+          onClose={() => setAnnotatingScreenshot(null)}
+          onSave={(annotations) => handleSaveAnnotations(annotatingScreenshot, annotations)}
+        />
+      )}
 
       {/* Preview Modal */}
       {showPreview && selectedScreenshot && (
@@ -662,6 +847,14 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
                 </p>
               </div>
               <div className="flex items-center space-x-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setAnnotatingScreenshot(selectedScreenshot)}
+                >
+                  <PenLine className="w-4 h-4 mr-1" />
+                  注釈
+                </Button>
                 <Button
                   size="sm"
                   onClick={() => handleDownloadSingle(selectedScreenshot)}
@@ -679,9 +872,8 @@ export const VisualAnalyticsGallery: React.FC<VisualAnalyticsGalleryProps> = ({
               </div>
             </div>
             <div className="p-4">
-              <img 
-                src={selectedScreenshot.dataUrl} 
-                alt={selectedScreenshot.name}
+              <AnnotatedScreenshot
+                screenshot={selectedScreenshot}
                 className="w-full h-auto rounded-lg"
               />
               <div className="mt-4 grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
@@ -1,8 +1,11 @@
-import React, { useMemo, useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { useAnalysisStore } from '../../stores/analysisStore';
 import { LoadingSpinner } from '../common';
 import { Cloud, Filter } from 'lucide-react';
 import { enhancedSegmentationService } from '../../services/enhancedSegmentationService';
+import { AUTO_PROFILE_ID } from '../../services/segmentationDictionary';
+import { useSegmentationDictionary } from '../../hooks/useSegmentationDictionary';
+import { SegmentationProfileSelect } from './SegmentationProfileSelect';
 import { WordCloud } from './WordCloud';
 
 interface KeywordFrequency {
@@ -19,7 +22,7 @@ export const WordCloudDashboard: React.FC = () => {
   const [categoryLevel, setCategoryLevel] = useState<'major' | 'middle'>('major');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [minFrequency, setMinFrequency] = useState<number>(2);
-  const [industryFocus, setIndustryFocus] = useState<'general' | 'healthcare' | 'technology'>('general');
+  const [profileSelection, setProfileSelection] = useState<string>(AUTO_PROFILE_ID);
   const [selectedWordDetails, setSelectedWordDetails] = useState<{
     keyword: string;
     companies: Array<{
@@ -29,18 +32,19 @@ export const WordCloudDashboard: React.FC = () => {
     }>;
   } | null>(null);
 
-  // Enhanced segmentation service for better compound word handling
-  const segmentationOptions = useMemo(() => ({
-    preserveCompounds: true,
-    enableCustomRules: true,
-    industryFocus
-  }), [industryFocus]);
+  const { getSegmentationOptions: resolveSegmentationOptions } = useSegmentationDictionary();
+
+  // 企業カテゴリー（JSIC大分類）ごとに辞書プロファイルを選択
+  const getSegmentationOptions = useCallback(
+    (category?: string) => resolveSegmentationOptions(profileSelection, category),
+    [resolveSegmentationOptions, profileSelection]
+  );
 
   // Helper function to get middle category name for a company
-  const getCompanyMiddleCategoryName = (companyName: string): string => {
+  const getCompanyMiddleCategoryName = useCallback((companyName: string): string => {
     const hybridCompany = data?.companies?.find(c => c.name === companyName);
     return hybridCompany?.category || '未分類';
-  };
+  }, [data]);
 
   const { keywordAnalysis, loading } = useMemo(() => {
     if (!data || !data.companies) {
@@ -67,12 +71,12 @@ export const WordCloudDashboard: React.FC = () => {
     const processText = (text: string, type: 'mission' | 'vision' | 'values', companyName: string, category: string) => {
       if (!text) return;
 
+      const segmentationOptions = getSegmentationOptions(category);
       const segmentationResult = enhancedSegmentationService.segmentWithCompounds(text, segmentationOptions);
-      const words = segmentationResult.segments;
+      const words = enhancedSegmentationService.removeStopWords(segmentationResult.segments, segmentationOptions.profileId);
       const filteredWords = words.filter((word: string) => {
         // 意味のある単語のみ抽出
         return word.length >= 2 && 
-               !['です', 'ます', 'である', 'として', 'により', 'という', 'こと', 'もの', 'ため', 'など'].includes(word) &&
                !/^[0-9]+$/.test(word) && // 数字のみ除外
                !/^[ぁ-ん]+$/.test(word) && // ひらがなのみ除外
                !/__COMPOUND_\d+__/.test(word) && // 保護トークンの残存を除外
@@ -118,7 +122,7 @@ export const WordCloudDashboard: React.FC = () => {
     console.log(`✅ ワードクラウド分析完了: ${Math.round(endTime - startTime)}ms`);
 
     return { keywordAnalysis, loading: false };
-  }, [data, segmentationOptions, minFrequency, categoryLevel, getCompanyMiddleCategoryName]);
+  }, [data, getSegmentationOptions, minFrequency]);
 
   const filteredKeywords = useMemo(() => {
     let filtered = keywordAnalysis;
@@ -317,18 +321,11 @@ export const WordCloudDashboard: React.FC = () => {
             </select>
           </div>
           
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">業界フォーカス:</label>
-            <select
-              value={industryFocus}
-              onChange={(e) => setIndustryFocus(e.target.value as 'general' | 'healthcare' | 'technology')}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-            >
-              <option value="general">汎用</option>
-              <option value="healthcare">医療・ヘルスケア</option>
-              <option value="technology">技術・IT</option>
-            </select>
-          </div>
+          <SegmentationProfileSelect
+            value={profileSelection}
+            onChange={setProfileSelection}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
           
           <div className="flex items-end">
             <div className="text-sm text-gray-600">
@@ -7,4 +7,4 @@ export { WordCloudDashboard } from './WordCloudDashboard';
 export { VisualAnalyticsGallery } from './VisualAnalyticsGallery';
 export { BusinessInnovationLab } from './BusinessInnovationLab';
 export { default as SimilarCompanyFinder } from './SimilarCompanyFinder';
-export { WordCloud } from './WordCloud';
\ No newline at end of file
+export { WordCloud } from './WordCloud';export { SegmentationDictionaryManager } from './SegmentationDictionaryManager';
@@ -1,19 +1,39 @@
 import React, { useState, useCallback } from 'react';
 import type { Company, MVVExtractionRequest, MVVData } from '../../types';
-import { Button, ProgressBar } from '../common';
+import { Button, ProgressBar, CostEstimateDialog } from '../common';
 import { useApiClient } from '../../hooks/useApiClient';
 import { useCompanyStore } from '../../stores/companyStore';
-import { useProcessingStore } from '../../stores/processingStore';
 import { useMVVStore } from '../../stores/mvvStore';
 import { useNotification } from '../../hooks/useNotification';
+import { useJobGroup } from '../../hooks/useJobQueue';
+import { useCostEstimate } from '../../hooks/useCostEstimate';
+import { jobScheduler } from '../../services/jobScheduler';
+import { JobCancelledError } from '../../types/jobScheduler';
 import { companyInfoMigrationService } from '../../services/dataMigration';
+import { budgetService } from '../../services/budgetService';
 import { db } from '../../services/storage';
 import { generateCategoryFromIndustryClassification } from '../../types/companyInfo';
 import { CONSTANTS } from '../../utils/constants';
-import { chunk, delay } from '../../utils/helpers';
 import { formatDuration } from '../../utils/formatters';
+import type { PlannedJob } from '../../services/costEstimator';
 import { Play, Pause, Square, RotateCcw } from 'lucide-react';
 
+const buildMVVRequest = (company: Company): MVVExtractionRequest => ({
+  companyId: company.id,
+  companyName: company.name,
+  companyWebsite: company.website,
+  companyDescription: company.notes
+});
+
+const buildCompanyInfoRequest = (company: Company) => ({
+  companyId: company.id,
+  companyName: company.name,
+  companyWebsite: company.website || '',
+  includeFinancials: true,
+  includeESG: false,
+  includeCompetitors: false
+});
+
 interface BatchProcessorProps {
   selectedCompanies: Company[];
   onComplete?: () => void;
@@ -24,118 +44,87 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
   onComplete
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
-  const [shouldStop, setShouldStop] = useState(false);
+  const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
+  const group = useJobGroup(activeGroupId);
   
   const { extractMVVPerplexity, extractCompanyInfo } = useApiClient();
   const { updateCompany } = useCompanyStore();
   const { addMVVData } = useMVVStore();
   const { success, error: showError } = useNotification();
-  
-  const {
-    batchStatus,
-    startBatchProcessing,
-    updateProgress,
-    addToProcessing,
-    removeFromProcessing,
-    markCompleted,
-    markFailed,
-    completeBatchProcessing,
-    resetProcessing
-  } = useProcessingStore();
+  const costEstimate = useCostEstimate();
 
+  // 失敗時は例外を投げ、スケジューラのリトライポリシーに委ねる
   const processCompany = useCallback(async (company: Company) => {
-    try {
-      // Mark company as processing
-      await updateCompany(company.id, { 
-        status: 'processing',
-        lastProcessed: new Date()
-      });
+    // Mark company as processing
+    await updateCompany(company.id, { 
+      status: 'processing',
+      lastProcessed: new Date()
+    });
 
-      const request: MVVExtractionRequest = {
+    const result = await extractMVVPerplexity(buildMVVRequest(company));
+
+    if (result) {
+      // Create MVV data
+      const mvvData: MVVData = {
         companyId: company.id,
-        companyName: company.name,
-        companyWebsite: company.website,
-        companyDescription: company.notes
+        version: 1,
+        mission: result.mission,
+        vision: result.vision,
+        values: result.values,
+        confidenceScores: result.confidence_scores,
+        extractedAt: new Date(),
+        source: 'perplexity',
+        isActive: true,
+        extractedFrom: result.extracted_from
       };
 
-      const result = await extractMVVPerplexity(request);
-
-      if (result) {
-        // Create MVV data
-        const mvvData: MVVData = {
-          companyId: company.id,
-          version: 1,
-          mission: result.mission,
-          vision: result.vision,
-          values: result.values,
-          confidenceScores: result.confidence_scores,
-          extractedAt: new Date(),
-          source: 'perplexity',
-          isActive: true,
-          extractedFrom: result.extracted_from
-        };
-
-        await addMVVData(mvvData);
-
-        // Phase 1 completed (MVV extracted) - Update company
-        await updateCompany(company.id, { 
-          status: 'mvv_extracted',
-          mission: result.mission || undefined,
-          vision: result.vision || undefined,
-          values: Array.isArray(result.values) ? result.values.join(', ') : result.values || undefined,
-          errorMessage: undefined
-        });
+      await addMVVData(mvvData);
 
-        // Phase 2: Automatically extract company information
-        try {
-          console.log(`🏢 ${company.name}: 企業情報抽出を開始...`);
-          
-          const companyInfoRequest = {
-            companyId: company.id,
-            companyName: company.name,
-            companyWebsite: company.website || '',
-            includeFinancials: true,
-            includeESG: false,
-            includeCompetitors: false
-          };
-
-          const companyInfoData = await extractCompanyInfo(companyInfoRequest);
-          
-          if (companyInfoData) {
-            // Save company info to database using migration service
-            await companyInfoMigrationService.extractAndSaveCompanyInfo(company);
-            console.log(`✅ ${company.name}: 企業情報抽出完了`);
-
-            // Phase 3: Category update (if company info extraction succeeded)
-            try {
-              console.log(`🏷️ ${company.name}: カテゴリ自動更新を開始...`);
-              await updateCategoryFromIndustryClassification(company);
-            } catch (categoryError) {
-              // Log category update error but don't fail the overall process
-              console.warn(`⚠️ ${company.name}: カテゴリ更新は失敗しましたが、他の処理は成功しました:`, categoryError);
-            }
-          }
-          
-        } catch (companyInfoError) {
-          // Log company info extraction error but don't fail the MVV process
-          console.warn(`⚠️ ${company.name}: 企業情報抽出は失敗しましたが、MVV抽出は成功しました:`, companyInfoError);
-        }
+      // Phase 1 completed (MVV extracted) - Update company
+      await updateCompany(company.id, { 
+        status: 'mvv_extracted',
+        mission: result.mission || undefined,
+        vision: result.vision || undefined,
+        values: Array.isArray(result.values) ? result.values.join(', ') : result.values || undefined,
+        errorMessage: undefined
+      });
 
+      // Phase 2: Automatically extract company information
+      // ジョブの予算判定は MVV抽出分のみのため、企業情報抽出の呼び出し前にその上限を確認する
+      const companyInfoBudget = budgetService.checkBudget('extract-company-info');
+      if (!companyInfoBudget.allowed) {
+        console.warn(`⚠️ ${company.name}: 予算上限のため企業情報抽出をスキップしました: ${companyInfoBudget.message}`);
         return { success: true };
-      } else {
-        throw new Error('No data returned from API');
       }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      // Mark company as Phase 1 error (MVV extraction error)
-      await updateCompany(company.id, { 
-        status: 'mvv_extraction_error',
-        errorMessage
-      });
 
-      return { success: false, error: errorMessage };
+      try {
+        console.log(`🏢 ${company.name}: 企業情報抽出を開始...`);
+        
+        const companyInfoData = await extractCompanyInfo(buildCompanyInfoRequest(company));
+        
+        if (companyInfoData) {
+          // Save company info to database using migration service
+          await companyInfoMigrationService.extractAndSaveCompanyInfo(company);
+          console.log(`✅ ${company.name}: 企業情報抽出完了`);
+
+          // Phase 3: Category update (if company info extraction succeeded)
+          try {
+            console.log(`🏷️ ${company.name}: カテゴリ自動更新を開始...`);
+            await updateCategoryFromIndustryClassification(company);
+          } catch (categoryError) {
+            // Log category update error but don't fail the overall process
+            console.warn(`⚠️ ${company.name}: カテゴリ更新は失敗しましたが、他の処理は成功しました:`, categoryError);
+          }
+        }
+        
+      } catch (companyInfoError) {
+        // Log company info extraction error but don't fail the MVV process
+        console.warn(`⚠️ ${company.name}: 企業情報抽出は失敗しましたが、MVV抽出は成功しました:`, companyInfoError);
+      }
+
+      return { success: true };
+    } else {
+      throw new Error('No data returned from API');
     }
   }, [extractMVVPerplexity, updateCompany, addMVVData]);
 
@@ -176,89 +165,45 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
       return;
     }
 
+    const groupId = `mvv_batch_${Date.now()}`;
+    setActiveGroupId(groupId);
     setIsProcessing(true);
-    setIsPaused(false);
-    setShouldStop(false);
-    
-    startBatchProcessing(selectedCompanies.map(c => c.id));
-    
+
     const startTime = Date.now();
-    let processed = 0;
-    let succeeded = 0;
-    let failed = 0;
 
     try {
-      // Process companies in batches
-      const batches = chunk(selectedCompanies, CONSTANTS.BATCH_SIZE);
-      
-      for (const batch of batches) {
-        if (shouldStop) break;
-        
-        // Wait if paused
-        while (isPaused && !shouldStop) {
-          await delay(1000);
-        }
-        
-        if (shouldStop) break;
-
-        // Process batch in parallel with staggered start
-        const batchPromises = batch.map(async (company, index) => {
-          if (shouldStop) return { success: false };
-          
-          // Stagger requests to reduce simultaneous load
-          if (index > 0) {
-            await delay(500 * index); // 500ms stagger between requests
-          }
-          
-          addToProcessing(company.id);
-          
-          try {
-            const result = await processCompany(company);
-            return { companyId: company.id, ...result };
-          } finally {
-            removeFromProcessing(company.id);
-          }
-        });
-
-        const batchResults = await Promise.allSettled(batchPromises);
-        
-        // Update progress
-        for (let i = 0; i < batchResults.length; i++) {
-          const result = batchResults[i];
-          const company = batch[i];
-          
-          if (result.status === 'fulfilled') {
-            const { success: isSuccess } = result.value;
-            processed++;
-            
-            if (isSuccess) {
-              succeeded++;
-              markCompleted(company.id);
-            } else {
-              failed++;
-              markFailed(company.id);
+      // 全企業をジョブキューに投入（同時実行数・間隔はスケジューラがプロバイダ単位で制御）
+      const results = await Promise.allSettled(
+        selectedCompanies.map(company =>
+          jobScheduler.submit({
+            kind: 'mvv-extraction',
+            budgetOperation: 'extract-mvv',
+            provider: 'perplexity',
+            label: company.name,
+            groupId,
+            groupLabel: `MVV抽出バッチ（${selectedCompanies.length}社）`,
+            run: () => processCompany(company)
+          }).catch(async error => {
+            if (!(error instanceof JobCancelledError)) {
+              // Mark company as Phase 1 error (MVV extraction error)
+              await updateCompany(company.id, {
+                status: 'mvv_extraction_error',
+                errorMessage: error instanceof Error ? error.message : 'Unknown error'
+              });
             }
-          } else {
-            processed++;
-            failed++;
-            markFailed(company.id);
-          }
-        }
-
-        updateProgress(processed, succeeded, failed);
-
-        // Delay between batches to avoid overwhelming the API
-        if (!shouldStop && batches.indexOf(batch) < batches.length - 1) {
-          await delay(CONSTANTS.PROCESSING_DELAY);
-        }
-      }
-
-      const endTime = Date.now();
-      const duration = endTime - startTime;
-
-      completeBatchProcessing();
-
-      if (!shouldStop) {
+            throw error;
+          })
+        )
+      );
+
+      const succeeded = results.filter(result => result.status === 'fulfilled').length;
+      const cancelled = results.filter(result =>
+        result.status === 'rejected' && result.reason instanceof JobCancelledError
+      ).length;
+      const failed = results.length - succeeded - cancelled;
+      const duration = Date.now() - startTime;
+
+      if (cancelled === 0) {
         success(
           '処理完了',
           `${succeeded}件成功、${failed}件失敗 (処理時間: ${formatDuration(duration)})`
@@ -270,49 +215,58 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
       showError('処理エラー', 'バッチ処理中にエラーが発生しました');
     } finally {
       setIsProcessing(false);
-      setIsPaused(false);
-      setShouldStop(false);
     }
   }, [
     selectedCompanies,
-    shouldStop,
-    isPaused,
-    extractMVVPerplexity,
     processCompany,
-    startBatchProcessing,
-    updateProgress,
-    addToProcessing,
-    removeFromProcessing,
-    markCompleted,
-    markFailed,
-    completeBatchProcessing,
+    updateCompany,
     success,
     showError,
     onComplete
   ]);
 
+  // 開始前に見積もりを表示（1社あたり MVV抽出 → 企業情報抽出 → 企業情報の保存 の順に呼び出す）
+  const requestStart = useCallback(() => {
+    if (selectedCompanies.length === 0) {
+      showError('エラー', '処理する企業が選択されていません');
+      return;
+    }
+
+    const jobs: PlannedJob[] = selectedCompanies.map(company => ({
+      provider: 'perplexity',
+      calls: [
+        { operation: 'extract-mvv', request: buildMVVRequest(company) },
+        { operation: 'extract-company-info', request: buildCompanyInfoRequest(company) },
+        { operation: 'extract-company-info', request: companyInfoMigrationService.buildExtractionRequest(company) }
+      ]
+    }));
+    costEstimate.requestEstimate(jobs);
+  }, [selectedCompanies, showError, costEstimate]);
+
+  const confirmStart = useCallback(() => {
+    costEstimate.close();
+    startProcessing();
+  }, [costEstimate, startProcessing]);
+
   const pauseProcessing = useCallback(() => {
-    setIsPaused(true);
-  }, []);
+    if (activeGroupId) jobScheduler.pauseGroup(activeGroupId);
+  }, [activeGroupId]);
 
   const resumeProcessing = useCallback(() => {
-    setIsPaused(false);
-  }, []);
+    if (activeGroupId) jobScheduler.resumeGroup(activeGroupId);
+  }, [activeGroupId]);
 
   const stopProcessing = useCallback(() => {
-    setShouldStop(true);
-    setIsPaused(false);
-  }, []);
+    if (activeGroupId) jobScheduler.cancelGroup(activeGroupId);
+  }, [activeGroupId]);
 
   const resetProgress = useCallback(() => {
-    resetProcessing();
-    setIsProcessing(false);
-    setIsPaused(false);
-    setShouldStop(false);
-  }, [resetProcessing]);
+    setActiveGroupId(null);
+  }, []);
 
-  const progress = batchStatus.total > 0 ? 
-    (batchStatus.processed / batchStatus.total) * 100 : 0;
+  const isPaused = !!group?.paused;
+  const processed = group ? group.completed + group.failed + group.cancelled : 0;
+  const progress = group && group.total > 0 ? (processed / group.total) * 100 : 0;
 
   return (
     <div className="space-y-4">
@@ -333,7 +287,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
           <div className="flex space-x-2">
             {!isProcessing ? (
               <Button
-                onClick={startProcessing}
+                onClick={requestStart}
                 disabled={selectedCompanies.length === 0}
               >
                 <Play className="w-4 h-4 mr-2" />
@@ -359,7 +313,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
               </>
             )}
             
-            {batchStatus.processed > 0 && !isProcessing && (
+            {group && !isProcessing && (
               <Button variant="outline" onClick={resetProgress}>
                 <RotateCcw className="w-4 h-4 mr-2" />
                 リセット
@@ -368,9 +322,9 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
           </div>
         </div>
 
-        {/* Progress */}
-        {batchStatus.total > 0 && (
-          <div className="space-y-3">
+        {/* Progress（詳細はAIジョブキューに表示） */}
+        {group && (
+          <div className="space-y-2">
             <ProgressBar
               value={progress}
               max={100}
@@ -378,71 +332,36 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
               color={
                 isPaused ? 'yellow' :
                 isProcessing ? 'blue' :
-                batchStatus.failed > 0 ? 'red' : 'green'
+                group.failed > 0 ? 'red' : 'green'
               }
               showPercentage
               label="全体進捗"
             />
-            
-            {/* Statistics */}
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-              <div className="text-center">
-                <div className="text-2xl font-bold text-gray-900">
-                  {batchStatus.total}
-                </div>
-                <div className="text-gray-600">総数</div>
-              </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-blue-600">
-                  {batchStatus.processed}
-                </div>
-                <div className="text-gray-600">処理済み</div>
-              </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-green-600">
-                  {batchStatus.succeeded}
-                </div>
-                <div className="text-gray-600">成功</div>
-              </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-red-600">
-                  {batchStatus.failed}
-                </div>
-                <div className="text-gray-600">失敗</div>
-              </div>
-            </div>
-
-            {/* Status Message */}
             <div className="text-center text-sm text-gray-600">
-              {isPaused && '一時停止中...'}
-              {isProcessing && !isPaused && 'MVV情報を抽出中...'}
-              {!isProcessing && batchStatus.processed > 0 && '処理完了'}
-              {!isProcessing && batchStatus.processed === 0 && '処理待機中'}
+              {processed} / {group.total}件 ・ 成功 {group.completed} ・ 失敗 {group.failed}
+              {isPaused && ' ・ 一時停止中'}
+              {!isProcessing && ' ・ 処理完了'}
             </div>
-
-            {/* Time Information */}
-            {batchStatus.startTime && (
-              <div className="text-center text-xs text-gray-500">
-                開始時刻: {batchStatus.startTime.toLocaleString()}
-                {batchStatus.endTime && (
-                  <span className="ml-4">
-                    処理時間: {formatDuration(
-                      batchStatus.endTime.getTime() - batchStatus.startTime.getTime()
-                    )}
-                  </span>
-                )}
-              </div>
-            )}
           </div>
         )}
       </div>
 
+      <CostEstimateDialog
+        isOpen={costEstimate.isOpen}
+        title={`MVV抽出バッチの見積もり（${selectedCompanies.length}社）`}
+        estimate={costEstimate.estimate}
+        isEstimating={costEstimate.isEstimating}
+        error={costEstimate.error}
+        onConfirm={confirmStart}
+        onCancel={costEstimate.close}
+      />
+
       {/* Instructions */}
       {selectedCompanies.length === 0 && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
           <p className="text-sm text-yellow-700">
             企業管理画面で企業を選択してから、バッチ処理を開始してください。
-            一度に最大{CONSTANTS.BATCH_SIZE}社ずつ並列処理されます。
+            AIジョブキューでPerplexityの同時実行数上限（{CONSTANTS.JOB_SCHEDULER.PROVIDERS.perplexity.CONCURRENCY}件）まで並列処理されます。
           </p>
         </div>
       )}
@@ -1,13 +1,30 @@
 import React, { useState, useCallback } from 'react';
 import type { Company } from '../../types';
-import { Button, ProgressBar } from '../common';
+import { Button, ProgressBar, CostEstimateDialog } from '../common';
 import { useCompanyStore } from '../../stores/companyStore';
-import { useProcessingStore } from '../../stores/processingStore';
 import { useNotification } from '../../hooks/useNotification';
+import { useJobGroup } from '../../hooks/useJobQueue';
+import { useCostEstimate } from '../../hooks/useCostEstimate';
+import { jobScheduler } from '../../services/jobScheduler';
+import { JobCancelledError } from '../../types/jobScheduler';
 import { generateEmbeddings } from '../../services/openai';
+import { generateFieldEmbeddings, listPendingFieldEmbeddingTexts } from '../../services/mvvFieldEmbeddings';
+import { needsFieldEmbeddingsMigration, scheduleFieldEmbeddingsMigration } from '../../services/dataMigration';
 import { mvvStorage } from '../../services/storage';
+import { embeddingsIndex } from '../../services/embeddingsIndex';
 import { formatDuration } from '../../utils/formatters';
-import { Play, Pause, Square, RotateCcw, Sparkles } from 'lucide-react';
+import type { PlannedJob } from '../../services/costEstimator';
+import { Play, Pause, Square, RotateCcw, Sparkles, Layers } from 'lucide-react';
+
+// 企業に保存済みのMVVからEmbeddings入力テキストを組み立てる
+const buildCompanyMVVText = (company: Company): string => [
+  company.mission ? `Mission: ${company.mission}` : '',
+  company.vision ? `Vision: ${company.vision}` : '',
+  company.values ? `Values: ${company.values}` : ''
+].filter(Boolean).join('\n');
+
+// embeddings: 統合＋項目別Embeddingsの生成 / fieldMigration: 既存企業への項目別Embeddingsの追加
+type BatchMode = 'embeddings' | 'fieldMigration';
 
 interface EmbeddingsBatchProcessorProps {
   selectedCompanies: Company[];
@@ -19,23 +36,13 @@ export const EmbeddingsBatchProcessor: React.FC<EmbeddingsBatchProcessorProps> =
   onComplete
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
-  const [shouldStop, setShouldStop] = useState(false);
+  const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
+  const [batchMode, setBatchMode] = useState<BatchMode>('embeddings');
+  const group = useJobGroup(activeGroupId);
   
   const { updateCompany } = useCompanyStore();
   const { success, error: showError } = useNotification();
-  
-  const {
-    batchStatus,
-    startBatchProcessing,
-    updateProgress,
-    addToProcessing,
-    removeFromProcessing,
-    markCompleted,
-    markFailed,
-    completeBatchProcessing,
-    resetProcessing
-  } = useProcessingStore();
+  const costEstimate = useCostEstimate();
 
   // Filter companies that have MVV extracted but no embeddings
   // Include both mvv_extracted and embeddings_generation_error status
@@ -44,95 +51,100 @@ export const EmbeddingsBatchProcessor: React.FC<EmbeddingsBatchProcessorProps> =
     (!company.embeddings || company.embeddings.length === 0)
   );
 
-  const processCompanyEmbeddings = useCallback(async (company: Company, currentShouldStop: () => boolean) => {
-    try {
-      // Check if stop was requested
-      if (currentShouldStop()) {
-        return { success: false, error: 'Processing stopped by user' };
-      }
-
-      // Mark company as processing
-      await updateCompany(company.id, { 
-        status: 'processing',
-        lastProcessed: new Date()
-      });
-
-      // Check again after async operation
-      if (currentShouldStop()) {
-        // Revert status if stopped
-        await updateCompany(company.id, { status: 'mvv_extracted' });
-        return { success: false, error: 'Processing stopped by user' };
-      }
-
-      // Try to get MVV data from company first, then from MVV storage
-      let mvvText = '';
-      
-      if (company.mission || company.vision || company.values) {
-        // Use company-stored MVV data
+  // 統合Embeddingsはあるが、項目別Embeddingsが未生成・古い企業（移行対象）
+  const fieldMigrationCompanies = selectedCompanies.filter(needsFieldEmbeddingsMigration);
+  const targetCompanies = batchMode === 'embeddings' ? mvvExtractedCompanies : fieldMigrationCompanies;
+
+  // 失敗時は例外を投げ、スケジューラのリトライポリシーに委ねる
+  const processCompanyEmbeddings = useCallback(async (company: Company) => {
+    // Mark company as processing
+    await updateCompany(company.id, { 
+      status: 'processing',
+      lastProcessed: new Date()
+    });
+
+    // Try to get MVV data from company first, then from MVV storage
+    let mvvText = '';
+    let fieldSource: Pick<Company, 'mission' | 'vision' | 'values'> = company;
+    
+    if (company.mission || company.vision || company.values) {
+      // Use company-stored MVV data
+      mvvText = buildCompanyMVVText(company);
+    } else {
+      // Fallback: get MVV data from storage
+      const mvvData = await mvvStorage.getActiveByCompanyId(company.id);
+      if (mvvData) {
         mvvText = [
-          company.mission ? `Mission: ${company.mission}` : '',
-          company.vision ? `Vision: ${company.vision}` : '',
-          company.values ? `Values: ${company.values}` : ''
+          mvvData.mission ? `Mission: ${mvvData.mission}` : '',
+          mvvData.vision ? `Vision: ${mvvData.vision}` : '',
+          mvvData.values ? `Values: ${Array.isArray(mvvData.values) ? mvvData.values.join(', ') : mvvData.values}` : ''
         ].filter(Boolean).join('\n');
-      } else {
-        // Fallback: get MVV data from storage
-        const mvvData = await mvvStorage.getActiveByCompanyId(company.id);
-        if (mvvData) {
-          mvvText = [
-            mvvData.mission ? `Mission: ${mvvData.mission}` : '',
-            mvvData.vision ? `Vision: ${mvvData.vision}` : '',
-            mvvData.values ? `Values: ${Array.isArray(mvvData.values) ? mvvData.values.join(', ') : mvvData.values}` : ''
-          ].filter(Boolean).join('\n');
-          
-          // Update company with MVV data for future use
-          await updateCompany(company.id, {
-            mission: mvvData.mission || undefined,
-            vision: mvvData.vision || undefined,
-            values: Array.isArray(mvvData.values) ? mvvData.values.join(', ') : mvvData.values || undefined
-          });
-        }
+        
+        // Update company with MVV data for future use
+        fieldSource = {
+          mission: mvvData.mission || undefined,
+          vision: mvvData.vision || undefined,
+          values: Array.isArray(mvvData.values) ? mvvData.values.join(', ') : mvvData.values || undefined
+        };
+        await updateCompany(company.id, fieldSource);
       }
+    }
 
-      if (!mvvText) {
-        throw new Error('MVV data not found for embeddings generation');
-      }
+    if (!mvvText) {
+      throw new Error('MVV data not found for embeddings generation');
+    }
 
-      // Check if stop was requested before expensive operation
-      if (currentShouldStop()) {
-        await updateCompany(company.id, { status: 'mvv_extracted' });
-        return { success: false, error: 'Processing stopped by user' };
-      }
+    // Generate embeddings (combined vector + per-field vectors for mission / vision / values / each value item)
+    const [embeddings, fieldEmbeddings] = await Promise.all([
+      generateEmbeddings(mvvText),
+      generateFieldEmbeddings(fieldSource)
+    ]);
+
+    // Update company with embeddings and mark as fully completed
+    await updateCompany(company.id, { 
+      status: 'fully_completed',
+      embeddings,
+      fieldEmbeddings,
+      errorMessage: undefined
+    });
+
+    // Incrementally add the new vector to the similarity search index
+    await embeddingsIndex.upsert(company.id, embeddings);
+
+    return { success: true };
+  }, [updateCompany]);
+
+  const startFieldMigration = useCallback(async () => {
+    const groupId = `field_embeddings_migration_${Date.now()}`;
+    setActiveGroupId(groupId);
+    setIsProcessing(true);
 
-      // Generate embeddings
-      const embeddings = await generateEmbeddings(mvvText);
+    const startTime = Date.now();
 
-      // Check if stop was requested after expensive operation
-      if (currentShouldStop()) {
-        await updateCompany(company.id, { status: 'mvv_extracted' });
-        return { success: false, error: 'Processing stopped by user' };
-      }
+    try {
+      // 既存の統合Embeddingsはそのままに、不足している項目別Embeddingsのみ生成する
+      const results = await Promise.allSettled(
+        scheduleFieldEmbeddingsMigration(fieldMigrationCompanies, groupId, updateCompany)
+      );
 
-      // Update company with embeddings and mark as fully completed
-      await updateCompany(company.id, { 
-        status: 'fully_completed',
-        embeddings,
-        errorMessage: undefined
-      });
+      const succeeded = results.filter(result => result.status === 'fulfilled').length;
+      const cancelled = results.filter(result =>
+        result.status === 'rejected' && result.reason instanceof JobCancelledError
+      ).length;
 
-      return { success: true };
+      if (cancelled === 0) {
+        success(
+          '項目別Embeddingsの移行完了',
+          `${succeeded}件成功、${results.length - succeeded}件失敗 (処理時間: ${formatDuration(Date.now() - startTime)})`
+        );
+        onComplete?.();
+      }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Embeddings generation failed';
-      
-      // Mark company as Phase 2 error (Embeddings generation error)
-      // Keep MVV data intact - only mark embeddings generation as failed
-      await updateCompany(company.id, { 
-        status: 'embeddings_generation_error',
-        errorMessage
-      });
-
-      return { success: false, error: errorMessage };
+      showError('処理エラー', '項目別Embeddingsの移行中にエラーが発生しました');
+    } finally {
+      setIsProcessing(false);
     }
-  }, [updateCompany, mvvStorage]);
+  }, [fieldMigrationCompanies, updateCompany, success, showError, onComplete]);
 
   const startProcessing = useCallback(async () => {
     if (mvvExtractedCompanies.length === 0) {
@@ -140,64 +152,44 @@ export const EmbeddingsBatchProcessor: React.FC<EmbeddingsBatchProcessorProps> =
       return;
     }
 
+    const groupId = `embeddings_batch_${Date.now()}`;
+    setActiveGroupId(groupId);
     setIsProcessing(true);
-    setIsPaused(false);
-    setShouldStop(false);
-    
-    startBatchProcessing(mvvExtractedCompanies.map(c => c.id));
-    
+
     const startTime = Date.now();
-    let processed = 0;
-    let succeeded = 0;
-    let failed = 0;
 
     try {
-      // Process companies sequentially to avoid rate limiting
-      for (const company of mvvExtractedCompanies) {
-        if (shouldStop) break;
-        
-        // Wait if paused
-        while (isPaused && !shouldStop) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-        
-        if (shouldStop) break;
-
-        addToProcessing(company.id);
-        
-        try {
-          const result = await processCompanyEmbeddings(company, () => shouldStop);
-          processed++;
-          
-          if (result.success) {
-            succeeded++;
-            markCompleted(company.id);
-          } else {
-            failed++;
-            markFailed(company.id);
-          }
-        } catch (error) {
-          processed++;
-          failed++;
-          markFailed(company.id);
-        } finally {
-          removeFromProcessing(company.id);
-        }
-
-        updateProgress(processed, succeeded, failed);
-
-        // Small delay between requests to avoid overwhelming the API
-        if (!shouldStop && processed < mvvExtractedCompanies.length) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
-
-      const endTime = Date.now();
-      const duration = endTime - startTime;
-
-      completeBatchProcessing();
-
-      if (!shouldStop) {
+      const results = await Promise.allSettled(
+        mvvExtractedCompanies.map(company =>
+          jobScheduler.submit({
+            kind: 'embeddings',
+            provider: 'openai',
+            label: company.name,
+            groupId,
+            groupLabel: `Embeddings生成バッチ（${mvvExtractedCompanies.length}社）`,
+            run: () => processCompanyEmbeddings(company)
+          }).catch(async error => {
+            if (!(error instanceof JobCancelledError)) {
+              // Mark company as Phase 2 error (Embeddings generation error)
+              // Keep MVV data intact - only mark embeddings generation as failed
+              await updateCompany(company.id, { 
+                status: 'embeddings_generation_error',
+                errorMessage: error instanceof Error ? error.message : 'Embeddings generation failed'
+              });
+            }
+            throw error;
+          })
+        )
+      );
+
+      const succeeded = results.filter(result => result.status === 'fulfilled').length;
+      const cancelled = results.filter(result =>
+        result.status === 'rejected' && result.reason instanceof JobCancelledError
+      ).length;
+      const failed = results.length - succeeded - cancelled;
+      const duration = Date.now() - startTime;
+
+      if (cancelled === 0) {
         success(
           'Embeddings処理完了',
           `${succeeded}件成功、${failed}件失敗 (処理時間: ${formatDuration(duration)})`
@@ -209,48 +201,74 @@ export const EmbeddingsBatchProcessor: React.FC<EmbeddingsBatchProcessorProps> =
       showError('処理エラー', 'Embeddings生成中にエラーが発生しました');
     } finally {
       setIsProcessing(false);
-      setIsPaused(false);
-      setShouldStop(false);
     }
   }, [
     mvvExtractedCompanies,
-    shouldStop,
-    isPaused,
     processCompanyEmbeddings,
-    startBatchProcessing,
-    updateProgress,
-    addToProcessing,
-    removeFromProcessing,
-    markCompleted,
-    markFailed,
-    completeBatchProcessing,
+    updateCompany,
     success,
     showError,
     onComplete
   ]);
 
+  // 開始前に見積もりを表示
+  const requestStart = useCallback(() => {
+    if (mvvExtractedCompanies.length === 0) {
+      showError('エラー', 'MVV抽出済み企業が選択されていません');
+      return;
+    }
+
+    const jobs: PlannedJob[] = mvvExtractedCompanies.map(company => ({
+      provider: 'openai',
+      calls: [buildCompanyMVVText(company), ...listPendingFieldEmbeddingTexts(company)].map(inputText => ({
+        operation: 'generate-embeddings' as const,
+        inputText
+      }))
+    }));
+    setBatchMode('embeddings');
+    costEstimate.requestEstimate(jobs);
+  }, [mvvExtractedCompanies, showError, costEstimate]);
+
+  const requestFieldMigration = useCallback(() => {
+    const jobs: PlannedJob[] = fieldMigrationCompanies.map(company => ({
+      provider: 'openai',
+      calls: listPendingFieldEmbeddingTexts(company, company.fieldEmbeddings).map(inputText => ({
+        operation: 'generate-embeddings' as const,
+        inputText
+      }))
+    }));
+    setBatchMode('fieldMigration');
+    costEstimate.requestEstimate(jobs);
+  }, [fieldMigrationCompanies, costEstimate]);
+
+  const confirmStart = useCallback(() => {
+    costEstimate.close();
+    if (batchMode === 'fieldMigration') {
+      startFieldMigration();
+    } else {
+      startProcessing();
+    }
+  }, [costEstimate, batchMode, startFieldMigration, startProcessing]);
+
   const pauseProcessing = useCallback(() => {
-    setIsPaused(true);
-  }, []);
+    if (activeGroupId) jobScheduler.pauseGroup(activeGroupId);
+  }, [activeGroupId]);
 
   const resumeProcessing = useCallback(() => {
-    setIsPaused(false);
-  }, []);
+    if (activeGroupId) jobScheduler.resumeGroup(activeGroupId);
+  }, [activeGroupId]);
 
   const stopProcessing = useCallback(() => {
-    setShouldStop(true);
-    setIsPaused(false);
-  }, []);
+    if (activeGroupId) jobScheduler.cancelGroup(activeGroupId);
+  }, [activeGroupId]);
 
   const resetProgress = useCallback(() => {
-    resetProcessing();
-    setIsProcessing(false);
-    setIsPaused(false);
-    setShouldStop(false);
-  }, [resetProcessing]);
+    setActiveGroupId(null);
+  }, []);
 
-  const progress = batchStatus.total > 0 ? 
-    (batchStatus.processed / batchStatus.total) * 100 : 0;
+  const isPaused = !!group?.paused;
+  const processed = group ? group.completed + group.failed + group.cancelled : 0;
+  const progress = group && group.total > 0 ? (processed / group.total) * 100 : 0;
 
   return (
     <div className="space-y-4">
@@ -271,7 +289,7 @@ export const EmbeddingsBatchProcessor: React.FC<EmbeddingsBatchProcessorProps> =
           <div className="flex space-x-2">
             {!isProcessing ? (
               <Button
-                onClick={startProcessing}
+                onClick={requestStart}
                 disabled={mvvExtractedCompanies.length === 0}
                 className="bg-purple-600 hover:bg-purple-700"
               >
@@ -298,7 +316,7 @@ export const EmbeddingsBatchProcessor: React.FC<EmbeddingsBatchProcessorProps> =
               </>
             )}
             
-            {batchStatus.processed > 0 && !isProcessing && (
+            {group && !isProcessing && (
               <Button variant="outline" onClick={resetProgress}>
                 <RotateCcw className="w-4 h-4 mr-2" />
                 リセット
@@ -307,9 +325,9 @@ export const EmbeddingsBatchProcessor: React.FC<EmbeddingsBatchProcessorProps> =
           </div>
         </div>
 
-        {/* Progress */}
-        {batchStatus.total > 0 && (
-          <div className="space-y-3">
+        {/* Progress（詳細はAIジョブキューに表示） */}
+        {group && (
+          <div className="space-y-2">
             <ProgressBar
               value={progress}
               max={100}
@@ -317,65 +335,54 @@ export const EmbeddingsBatchProcessor: React.FC<EmbeddingsBatchProcessorProps> =
               color={
                 isPaused ? 'yellow' :
                 isProcessing ? 'blue' :
-                batchStatus.failed > 0 ? 'red' : 'green'
+                group.failed > 0 ? 'red' : 'green'
               }
               showPercentage
-              label="Embeddings生成進捗"
+              label={batchMode === 'fieldMigration' ? '項目別Embeddings移行進捗' : 'Embeddings生成進捗'}
             />
-            
-            {/* Statistics */}
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-              <div className="text-center">
-                <div className="text-2xl font-bold text-gray-900">
-                  {batchStatus.total}
-                </div>
-                <div className="text-gray-600">総数</div>
-              </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-purple-600">
-                  {batchStatus.processed}
-                </div>
-                <div className="text-gray-600">処理済み</div>
-              </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-green-600">
-                  {batchStatus.succeeded}
-                </div>
-                <div className="text-gray-600">成功</div>
-              </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-red-600">
-                  {batchStatus.failed}
-                </div>
-                <div className="text-gray-600">失敗</div>
-              </div>
-            </div>
-
-            {/* Status Message */}
             <div className="text-center text-sm text-gray-600">
-              {isPaused && '一時停止中...'}
-              {isProcessing && !isPaused && 'OpenAI Embeddingsを生成中...'}
-              {!isProcessing && batchStatus.processed > 0 && '処理完了'}
-              {!isProcessing && batchStatus.processed === 0 && '処理待機中'}
+              {processed} / {group.total}件 ・ 成功 {group.completed} ・ 失敗 {group.failed}
+              {isPaused && ' ・ 一時停止中'}
+              {!isProcessing && ' ・ 処理完了'}
             </div>
-
-            {/* Time Information */}
-            {batchStatus.startTime && (
-              <div className="text-center text-xs text-gray-500">
-                開始時刻: {batchStatus.startTime.toLocaleString()}
-                {batchStatus.endTime && (
-                  <span className="ml-4">
-                    処理時間: {formatDuration(
-                      batchStatus.endTime.getTime() - batchStatus.startTime.getTime()
-                    )}
-                  </span>
-                )}
-              </div>
-            )}
           </div>
         )}
       </div>
 
+      <CostEstimateDialog
+        isOpen={costEstimate.isOpen}
+        title={`${batchMode === 'fieldMigration' ? '項目別Embeddings移行' : 'Embeddings生成'}の見積もり（${targetCompanies.length}社）`}
+        estimate={costEstimate.estimate}
+        isEstimating={costEstimate.isEstimating}
+        error={costEstimate.error}
+        onConfirm={confirmStart}
+        onCancel={costEstimate.close}
+      />
+
+      {/* 項目別Embeddingsの移行（統合Embeddingsのみを持つ既存企業向け） */}
+      {fieldMigrationCompanies.length > 0 && (
+        <div className="bg-white p-4 rounded-lg border border-gray-200 flex justify-between items-center">
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 flex items-center">
+              <Layers className="w-4 h-4 mr-2 text-purple-500" />
+              項目別Embeddingsの移行
+            </h4>
+            <p className="text-sm text-gray-600 mt-1">
+              {fieldMigrationCompanies.length}社はミッション・ビジョン・バリュー各項目のEmbeddingsが未生成または古くなっています。
+              統合Embeddingsはそのままに、不足分のみ生成します。
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={requestFieldMigration}
+            disabled={isProcessing}
+          >
+            <Play className="w-4 h-4 mr-2" />
+            移行を開始
+          </Button>
+        </div>
+      )}
+
       {/* Instructions */}
       {mvvExtractedCompanies.length === 0 && (
         <div className="bg-purple-50 border border-purple-200 rounded-md p-4">
@@ -1,6 +1,4 @@
 export { BatchProcessor } from './BatchProcessor';
 export { EmbeddingsBatchProcessor } from './EmbeddingsBatchProcessor';
-export { ExtractionQueue } from './ExtractionQueue';
-export { ProcessingStatus } from './ProcessingStatus';
 export { CompanySelector } from './CompanySelector';
 export { AddCompanySection } from './AddCompanySection';
\ No newline at end of file
@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import type { Company, MVVData } from '../../types';
+import { Button, LoadingSpinner, DiffText } from '../common';
+import { useMVVStore } from '../../stores/mvvStore';
+import { useCompanyStore } from '../../stores/companyStore';
+import { useNotification } from '../../hooks/useNotification';
+import { getMVVHistory, compareMVVVersions } from '../../services/mvvHistory';
+import { hasChanges } from '../../utils/textDiff';
+import { formatDate } from '../../utils/formatters';
+import { History, GitCompare, CheckCircle, RotateCcw, Target, TrendingUp, Heart } from 'lucide-react';
+
+interface MVVHistoryPanelProps {
+  company: Company;
+  onVersionActivated?: (mvvData: MVVData) => void;
+}
+
+export const MVVHistoryPanel: React.FC<MVVHistoryPanelProps> = ({
+  company,
+  onVersionActivated
+}) => {
+  const [history, setHistory] = useState<MVVData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+  const [activatingId, setActivatingId] = useState<number | null>(null);
+
+  const { activateVersion } = useMVVStore();
+  const { loadCompanies } = useCompanyStore();
+  const { success, error: showError } = useNotification();
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      const versions = await getMVVHistory(company.id);
+      setHistory(versions);
+
+      // デフォルト: 直前のバージョン → 最新バージョン
+      if (versions.length > 0) {
+        setToId(versions[0].id ?? null);
+        setFromId((versions[1] ?? versions[0]).id ?? null);
+      }
+    } catch (err) {
+      console.error('Failed to load MVV history:', err);
+      showError('履歴の読み込みに失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, [company.id, showError]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const diff = useMemo(() => {
+    const from = history.find(h => h.id === fromId);
+    const to = history.find(h => h.id === toId);
+    if (!from || !to) return null;
+    return compareMVVVersions(from, to);
+  }, [history, fromId, toId]);
+
+  const handleActivate = async (mvvData: MVVData) => {
+    if (!mvvData.id) return;
+    if (!confirm(`バージョン${mvvData.version}を有効化しますか？\n企業のMVV情報が置き換わり、Embeddingsは再生成待ちになります。`)) {
+      return;
+    }
+
+    setActivatingId(mvvData.id);
+    try {
+      const activated = await activateVersion(mvvData.id);
+      await loadCompanies();
+      await loadHistory();
+      success('バージョンを有効化しました', `v${activated.version} が現在のMVVになりました`);
+      onVersionActivated?.(activated);
+    } catch (err) {
+      showError('有効化に失敗しました', err instanceof Error ? err.message : undefined);
+    } finally {
+      setActivatingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <History className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+        このMVVには保存された履歴がありません
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Version List */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 mb-2 flex items-center">
+          <History className="w-4 h-4 mr-2" />
+          バージョン一覧（{history.length}件）
+        </h4>
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {history.map(version => (
+            <div key={version.id} className="flex items-center justify-between px-4 py-3">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-medium text-gray-900">v{version.version}</span>
+                  {version.isActive && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      <CheckCircle className="w-3 h-3 mr-1" />
+                      有効
+                    </span>
+                  )}
+                  <span className="text-xs text-gray-500">{version.source}</span>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {formatDate(version.extractedAt)}
+                </div>
+              </div>
+              {!version.isActive && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleActivate(version)}
+                  loading={activatingId === version.id}
+                  disabled={activatingId !== null}
+                >
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  有効化
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Version Comparison */}
+      {history.length > 1 && (
+        <div className="space-y-4">
+          <h4 className="text-sm font-medium text-gray-900 flex items-center">
+            <GitCompare className="w-4 h-4 mr-2" />
+            バージョン比較
+          </h4>
+          <div className="flex items-center space-x-3 text-sm">
+            <select
+              value={fromId ?? ''}
+              onChange={(e) => setFromId(Number(e.target.value))}
+              className="border border-gray-300 rounded-md px-2 py-1"
+            >
+              {history.map(version => (
+                <option key={version.id} value={version.id}>v{version.version}</option>
+              ))}
+            </select>
+            <span className="text-gray-500">→</span>
+            <select
+              value={toId ?? ''}
+              onChange={(e) => setToId(Number(e.target.value))}
+              className="border border-gray-300 rounded-md px-2 py-1"
+            >
+              {history.map(version => (
+                <option key={version.id} value={version.id}>v{version.version}</option>
+              ))}
+            </select>
+            <span className="text-xs text-gray-500">
+              <span className="bg-green-100 text-green-900 px-1">追加</span>
+              {' / '}
+              <span className="bg-red-100 text-red-900 line-through px-1">削除</span>
+            </span>
+          </div>
+
+          {diff && (
+            <div className="space-y-4">
+              <div className="border border-blue-200 rounded-lg p-4">
+                <div className="flex items-center mb-2">
+                  <Target className="w-4 h-4 text-blue-600 mr-2" />
+                  <span className="text-sm font-medium text-gray-900">Mission</span>
+                  {!hasChanges(diff.mission) && <span className="ml-2 text-xs text-gray-500">変更なし</span>}
+                </div>
+                <p className="text-sm text-gray-800"><DiffText segments={diff.mission} /></p>
+              </div>
+
+              <div className="border border-green-200 rounded-lg p-4">
+                <div className="flex items-center mb-2">
+                  <TrendingUp className="w-4 h-4 text-green-600 mr-2" />
+                  <span className="text-sm font-medium text-gray-900">Vision</span>
+                  {!hasChanges(diff.vision) && <span className="ml-2 text-xs text-gray-500">変更なし</span>}
+                </div>
+                <p className="text-sm text-gray-800"><DiffText segments={diff.vision} /></p>
+              </div>
+
+              <div className="border border-red-200 rounded-lg p-4">
+                <div className="flex items-center mb-2">
+                  <Heart className="w-4 h-4 text-red-600 mr-2" />
+                  <span className="text-sm font-medium text-gray-900">Values</span>
+                </div>
+                {diff.values.length === 0 ? (
+                  <span className="text-sm text-gray-400 italic">（なし）</span>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {diff.values.map((entry, index) => (
+                      <li key={index} className="flex items-start">
+                        <span className="w-5 flex-shrink-0 text-gray-500">
+                          {entry.type === 'added' ? '+' : entry.type === 'removed' ? '−' : entry.type === 'modified' ? '~' : '・'}
+                        </span>
+                        {entry.type === 'modified' && entry.segments ? (
+                          <DiffText segments={entry.segments} />
+                        ) : entry.type === 'added' ? (
+                          <span className="bg-green-100 text-green-900">{entry.after}</span>
+                        ) : entry.type === 'removed' ? (
+                          <span className="bg-red-100 text-red-900 line-through">{entry.before}</span>
+                        ) : (
+                          <span className="text-gray-800">{entry.after}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
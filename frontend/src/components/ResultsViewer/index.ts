@@ -1,2 +1,3 @@
 export { MVVDisplay } from './MVVDisplay';
-export { ResultsTable } from './ResultsTable';
\ No newline at end of file
+export { ResultsTable } from './ResultsTable';
+export { MVVHistoryPanel } from './MVVHistoryPanel';
\ No newline at end of file
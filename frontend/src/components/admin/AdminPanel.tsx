@@ -4,18 +4,19 @@
  */
 
 import React, { useState } from 'react';
-import { X, Shield, Database, Wrench, Activity, AlertTriangle } from 'lucide-react';
+import { X, Shield, Database, Wrench, Activity, AlertTriangle, BarChart3 } from 'lucide-react';
 import { Button } from '../common';
 import { DataDiagnostics } from './DataDiagnostics';
 import { RecoveryTools } from './RecoveryTools';
 import { SystemDiagnostics } from './SystemDiagnostics';
+import { UsageAnalyticsDashboard } from './UsageAnalyticsDashboard';
 
 interface AdminPanelProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-type AdminTab = 'diagnostics' | 'recovery' | 'system';
+type AdminTab = 'diagnostics' | 'recovery' | 'system' | 'usage';
 
 export const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
   const [activeTab, setActiveTab] = useState<AdminTab>('diagnostics');
@@ -40,6 +41,12 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
       label: 'システム診断',
       icon: Activity,
       description: 'API接続・パフォーマンス・ログ確認'
+    },
+    {
+      id: 'usage' as AdminTab,
+      label: 'API利用分析',
+      icon: BarChart3,
+      description: 'コスト・レイテンシ・エラー率の推移'
     }
   ];
 
@@ -51,6 +58,8 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
         return <RecoveryTools />;
       case 'system':
         return <SystemDiagnostics />;
+      case 'usage':
+        return <UsageAnalyticsDashboard />;
       default:
         return null;
     }
@@ -0,0 +1,473 @@
+/**
+ * API利用分析ダッシュボード
+ * 処理種別・モデル別のコスト・トークン・レイテンシ・エラー率の推移と、
+ * コスト上位の企業・アイデア、キャッシュによる節約額を表示する
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { BarChart3, RefreshCw, Download, FileSpreadsheet, Building2, Lightbulb, Database } from 'lucide-react';
+import { Button, LoadingSpinner } from '../common';
+import { useNotification } from '../../hooks/useNotification';
+import {
+  apiUsageAnalyticsService,
+  type UsageAnalytics,
+  type UsageBreakdownRow,
+  type UsageCostRanking,
+  type UsageMetrics,
+  type UsageRangeDays
+} from '../../services/apiUsageAnalytics';
+import { formatUsd } from '../../services/budgetService';
+
+type Dimension = 'operation' | 'model';
+type SeriesMetric = 'cost' | 'tokens' | 'requests';
+
+const CHART = { width: 640, height: 220, paddingLeft: 52, paddingRight: 12, paddingTop: 12, paddingBottom: 28 };
+const SERIES_COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626', '#0891b2', '#db2777', '#65a30d'];
+const LATENCY_COLORS = { p50: '#2563eb', p95: '#d97706', p99: '#dc2626' };
+
+const RANGE_OPTIONS: UsageRangeDays[] = [7, 30, 90];
+const METRIC_LABELS: Record<SeriesMetric, string> = {
+  cost: 'コスト',
+  tokens: 'トークン',
+  requests: 'リクエスト'
+};
+
+const formatMs = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+const formatMetric = (metric: SeriesMetric, value: number) =>
+  metric === 'cost' ? formatUsd(value) : Math.round(value).toLocaleString();
+
+const toChartX = (index: number, count: number) =>
+  CHART.paddingLeft + (count <= 1 ? 0.5 : index / (count - 1)) * (CHART.width - CHART.paddingLeft - CHART.paddingRight);
+const toChartY = (value: number, max: number) =>
+  CHART.height - CHART.paddingBottom - (max > 0 ? value / max : 0) * (CHART.height - CHART.paddingTop - CHART.paddingBottom);
+
+// 日付ラベルは最大8個程度に間引く
+const dateTickStep = (count: number) => Math.max(1, Math.ceil(count / 8));
+
+interface ChartAxesProps {
+  dates: string[];
+  max: number;
+  formatValue: (value: number) => string;
+}
+
+const ChartAxes: React.FC<ChartAxesProps> = ({ dates, max, formatValue }) => {
+  const step = dateTickStep(dates.length);
+  return (
+    <g fontSize={10} fill="#6b7280">
+      {[0, 0.5, 1].map(ratio => (
+        <g key={ratio}>
+          <line
+            x1={CHART.paddingLeft} x2={CHART.width - CHART.paddingRight}
+            y1={toChartY(max * ratio, max)} y2={toChartY(max * ratio, max)}
+            stroke="#e5e7eb"
+          />
+          <text x={CHART.paddingLeft - 6} y={toChartY(max * ratio, max) + 3} textAnchor="end">
+            {formatValue(max * ratio)}
+          </text>
+        </g>
+      ))}
+      {dates.map((date, index) => index % step === 0 && (
+        <text key={date} x={toChartX(index, dates.length)} y={CHART.height - 10} textAnchor="middle">
+          {date.slice(5)}
+        </text>
+      ))}
+    </g>
+  );
+};
+
+interface LineSeries {
+  key: string;
+  label: string;
+  color: string;
+  values: number[];
+}
+
+const LineChart: React.FC<{ dates: string[]; series: LineSeries[]; formatValue: (value: number) => string }> = ({
+  dates,
+  series,
+  formatValue
+}) => {
+  const max = Math.max(0, ...series.flatMap(line => line.values));
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto">
+        <ChartAxes dates={dates} max={max} formatValue={formatValue} />
+        {series.map(line => (
+          <g key={line.key}>
+            <polyline
+              fill="none"
+              stroke={line.color}
+              strokeWidth={2}
+              points={line.values.map((value, index) => `${toChartX(index, dates.length)},${toChartY(value, max)}`).join(' ')}
+            />
+            {line.values.map((value, index) => (
+              <circle key={dates[index]} cx={toChartX(index, dates.length)} cy={toChartY(value, max)} r={2.5} fill={line.color}>
+                <title>{`${dates[index]} ${line.label}: ${formatValue(value)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <ChartLegend items={series} />
+    </div>
+  );
+};
+
+const StackedBarChart: React.FC<{
+  dates: string[];
+  series: LineSeries[];
+  formatValue: (value: number) => string;
+}> = ({ dates, series, formatValue }) => {
+  const totals = dates.map((_, index) => series.reduce((sum, bar) => sum + bar.values[index], 0));
+  const max = Math.max(0, ...totals);
+  const plotWidth = CHART.width - CHART.paddingLeft - CHART.paddingRight;
+  const barWidth = Math.max(2, (plotWidth / Math.max(1, dates.length)) * 0.7);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto">
+        <ChartAxes dates={dates} max={max} formatValue={formatValue} />
+        {dates.map((date, index) => {
+          let offset = 0;
+          return (
+            <g key={date}>
+              {series.map(bar => {
+                const value = bar.values[index];
+                if (value <= 0) return null;
+                const y = toChartY(offset + value, max);
+                const height = toChartY(offset, max) - y;
+                offset += value;
+                return (
+                  <rect
+                    key={bar.key}
+                    x={toChartX(index, dates.length) - barWidth / 2}
+                    y={y}
+                    width={barWidth}
+                    height={height}
+                    fill={bar.color}
+                  >
+                    <title>{`${date} ${bar.label}: ${formatValue(value)}`}</title>
+                  </rect>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+      <ChartLegend items={series} />
+    </div>
+  );
+};
+
+const ChartLegend: React.FC<{ items: Array<{ key: string; label: string; color: string }> }> = ({ items }) => (
+  <div className="flex flex-wrap gap-3 mt-1 text-xs text-gray-600">
+    {items.map(item => (
+      <span key={item.key} className="flex items-center">
+        <span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: item.color }} />
+        {item.label}
+      </span>
+    ))}
+  </div>
+);
+
+const BreakdownTable: React.FC<{ title: string; rows: UsageBreakdownRow[] }> = ({ title, rows }) => (
+  <div className="bg-white rounded-lg shadow-sm border">
+    <div className="px-4 py-3 border-b border-gray-200 text-sm font-semibold text-gray-900">{title}</div>
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-50 text-xs text-gray-500">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">名称</th>
+            <th className="px-3 py-2 text-right font-medium">リクエスト</th>
+            <th className="px-3 py-2 text-right font-medium">エラー率</th>
+            <th className="px-3 py-2 text-right font-medium">コスト</th>
+            <th className="px-3 py-2 text-right font-medium">トークン</th>
+            <th className="px-3 py-2 text-right font-medium">p50</th>
+            <th className="px-3 py-2 text-right font-medium">p95</th>
+            <th className="px-3 py-2 text-right font-medium">p99</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.length === 0 ? (
+            <tr>
+              <td colSpan={8} className="px-3 py-4 text-center text-xs text-gray-500">この期間のログはありません</td>
+            </tr>
+          ) : rows.map(row => (
+            <tr key={row.key}>
+              <td className="px-3 py-2 text-gray-900">{row.label}</td>
+              <td className="px-3 py-2 text-right text-gray-700">{row.requests.toLocaleString()}</td>
+              <td className={`px-3 py-2 text-right ${row.errorRate > 0.1 ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                {formatRate(row.errorRate)}
+              </td>
+              <td className="px-3 py-2 text-right text-gray-700">{formatUsd(row.cost)}</td>
+              <td className="px-3 py-2 text-right text-gray-700">{row.tokens.toLocaleString()}</td>
+              <td className="px-3 py-2 text-right text-gray-700">{formatMs(row.latency.p50)}</td>
+              <td className="px-3 py-2 text-right text-gray-700">{formatMs(row.latency.p95)}</td>
+              <td className="px-3 py-2 text-right text-gray-700">{formatMs(row.latency.p99)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const RankingList: React.FC<{ title: string; icon: React.ReactNode; rankings: UsageCostRanking[] }> = ({
+  title,
+  icon,
+  rankings
+}) => (
+  <div className="bg-white rounded-lg shadow-sm border p-4">
+    <h4 className="text-sm font-semibold text-gray-900 flex items-center mb-3">
+      {icon}
+      {title}
+    </h4>
+    {rankings.length === 0 ? (
+      <p className="text-xs text-gray-500">この期間に紐づくログはありません</p>
+    ) : (
+      <ol className="space-y-2">
+        {rankings.map((ranking, index) => (
+          <li key={ranking.id} className="flex items-center justify-between text-sm">
+            <span className="truncate text-gray-900" title={ranking.id}>
+              <span className="text-gray-400 mr-2">{index + 1}.</span>
+              {ranking.name}
+            </span>
+            <span className="ml-3 whitespace-nowrap text-gray-700">
+              {formatUsd(ranking.cost)}
+              <span className="ml-1 text-xs text-gray-400">（{ranking.requests}回）</span>
+            </span>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+export const UsageAnalyticsDashboard: React.FC = () => {
+  const [rangeDays, setRangeDays] = useState<UsageRangeDays>(30);
+  const [dimension, setDimension] = useState<Dimension>('operation');
+  const [seriesMetric, setSeriesMetric] = useState<SeriesMetric>('cost');
+  const [analytics, setAnalytics] = useState<UsageAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { success, error } = useNotification();
+
+  const loadAnalytics = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setAnalytics(await apiUsageAnalyticsService.getAnalytics(rangeDays));
+    } catch (err) {
+      console.error('API利用分析エラー:', err);
+      error('API利用状況の集計に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rangeDays, error]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const handleExportCSV = () => {
+    if (!analytics) return;
+    apiUsageAnalyticsService.exportToCSV(analytics);
+    success('CSVを出力しました');
+  };
+
+  const handleExportExcel = async () => {
+    if (!analytics) return;
+    setIsExporting(true);
+    try {
+      await apiUsageAnalyticsService.exportToExcel(analytics);
+      success('Excelを出力しました');
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Excel出力に失敗しました');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const daily = analytics?.daily ?? [];
+  const dates = daily.map(point => point.date);
+  const breakdownRows = analytics ? (dimension === 'operation' ? analytics.byOperation : analytics.byModel) : [];
+  const pickMetric = (metrics: UsageMetrics | undefined) => metrics ? metrics[seriesMetric] : 0;
+  const stackedSeries: LineSeries[] = breakdownRows.map((row, index) => ({
+    key: row.key,
+    label: row.label,
+    color: SERIES_COLORS[index % SERIES_COLORS.length],
+    values: daily.map(point =>
+      pickMetric(dimension === 'operation' ? point.byOperation[row.key] : point.byModel[row.key])
+    )
+  }));
+  const latencySeries: LineSeries[] = (['p50', 'p95', 'p99'] as const).map(key => ({
+    key,
+    label: key,
+    color: LATENCY_COLORS[key],
+    values: daily.map(point => point.latency[key])
+  }));
+  const errorRateSeries: LineSeries[] = [{
+    key: 'errorRate',
+    label: 'エラー率',
+    color: '#dc2626',
+    values: daily.map(point => point.errorRate)
+  }];
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1 text-xs rounded-md ${active ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`;
+
+  return (
+    <div className="space-y-6">
+      {/* ヘッダー */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900 flex items-center">
+            <BarChart3 className="mr-3 h-6 w-6 text-blue-500" />
+            API利用分析
+          </h3>
+          <p className="text-gray-600 mt-1">
+            APIログから推定コスト・トークン・レイテンシ・エラー率の推移を集計
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {RANGE_OPTIONS.map(days => (
+            <button key={days} onClick={() => setRangeDays(days)} className={toggleClass(rangeDays === days)}>
+              {days}日
+            </button>
+          ))}
+          <Button variant="outline" size="sm" onClick={loadAnalytics} disabled={isLoading}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            更新
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExportCSV} disabled={!analytics}>
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExportExcel} disabled={!analytics || isExporting}>
+            <FileSpreadsheet className="h-4 w-4 mr-1" />
+            Excel
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && !analytics && (
+        <div className="flex items-center justify-center py-12 text-sm text-gray-600">
+          <LoadingSpinner size="sm" />
+          <span className="ml-2">APIログを集計しています...</span>
+        </div>
+      )}
+
+      {analytics && (
+        <>
+          {/* サマリー */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="p-4 bg-blue-50 rounded-lg">
+              <div className="text-sm text-blue-600">推定コスト</div>
+              <div className="text-2xl font-bold text-blue-900">{formatUsd(analytics.totals.cost)}</div>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <div className="text-sm text-gray-600">トークン / リクエスト</div>
+              <div className="text-lg font-bold text-gray-900">
+                {analytics.totals.tokens.toLocaleString()} / {analytics.totals.requests.toLocaleString()}
+              </div>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <div className="text-sm text-gray-600">レイテンシ p50 / p95 / p99</div>
+              <div className="text-lg font-bold text-gray-900">
+                {formatMs(analytics.totals.latency.p50)} / {formatMs(analytics.totals.latency.p95)} / {formatMs(analytics.totals.latency.p99)}
+              </div>
+            </div>
+            <div className={`p-4 rounded-lg ${analytics.totals.errorRate > 0.1 ? 'bg-red-50' : 'bg-gray-50'}`}>
+              <div className="text-sm text-gray-600">エラー率</div>
+              <div className="text-2xl font-bold text-gray-900">{formatRate(analytics.totals.errorRate)}</div>
+              <div className="text-xs text-gray-500">{analytics.totals.errors}件のエラー</div>
+            </div>
+            <div className="p-4 bg-green-50 rounded-lg">
+              <div className="text-sm text-green-600">キャッシュ節約額</div>
+              <div className="text-2xl font-bold text-green-900">{formatUsd(analytics.cacheSavings.totalSaved)}</div>
+              <div className="text-xs text-green-700">ヒット率 {formatRate(analytics.cacheSavings.hitRate)}（累計）</div>
+            </div>
+          </div>
+
+          {/* 推移（処理種別・モデル別） */}
+          <div className="bg-white rounded-lg shadow-sm border p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-semibold text-gray-900">日別{METRIC_LABELS[seriesMetric]}の推移</h4>
+              <div className="flex items-center space-x-4">
+                <div className="flex space-x-1">
+                  {(Object.keys(METRIC_LABELS) as SeriesMetric[]).map(metric => (
+                    <button key={metric} onClick={() => setSeriesMetric(metric)} className={toggleClass(seriesMetric === metric)}>
+                      {METRIC_LABELS[metric]}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex space-x-1">
+                  <button onClick={() => setDimension('operation')} className={toggleClass(dimension === 'operation')}>処理種別</button>
+                  <button onClick={() => setDimension('model')} className={toggleClass(dimension === 'model')}>モデル</button>
+                </div>
+              </div>
+            </div>
+            <StackedBarChart
+              dates={dates}
+              series={stackedSeries}
+              formatValue={value => formatMetric(seriesMetric, value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <h4 className="text-sm font-semibold text-gray-900 mb-3">レイテンシ（p50 / p95 / p99）</h4>
+              <LineChart dates={dates} series={latencySeries} formatValue={formatMs} />
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <h4 className="text-sm font-semibold text-gray-900 mb-3">エラー率の推移</h4>
+              <LineChart dates={dates} series={errorRateSeries} formatValue={formatRate} />
+            </div>
+          </div>
+
+          <BreakdownTable title="処理種別ごとの内訳" rows={analytics.byOperation} />
+          <BreakdownTable title="モデルごとの内訳" rows={analytics.byModel} />
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <RankingList
+              title="コスト上位の企業"
+              icon={<Building2 className="h-4 w-4 mr-2 text-blue-500" />}
+              rankings={analytics.topCompanies}
+            />
+            <RankingList
+              title="コスト上位のアイデア"
+              icon={<Lightbulb className="h-4 w-4 mr-2 text-yellow-500" />}
+              rankings={analytics.topIdeas}
+            />
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <h4 className="text-sm font-semibold text-gray-900 flex items-center mb-3">
+                <Database className="h-4 w-4 mr-2 text-green-500" />
+                キャッシュによる節約
+              </h4>
+              {analytics.cacheSavings.byType.length === 0 ? (
+                <p className="text-xs text-gray-500">キャッシュエントリはありません</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {analytics.cacheSavings.byType.map(row => (
+                    <li key={row.cacheType} className="flex items-center justify-between">
+                      <span className="text-gray-900">
+                        {row.label}
+                        <span className="ml-1 text-xs text-gray-400">{row.entries}件・{row.hits}ヒット</span>
+                      </span>
+                      <span className="text-green-700">{formatUsd(row.saved)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="mt-3 text-xs text-gray-500">
+                期間内の実コスト {formatUsd(analytics.totals.cost)} に対し、キャッシュが無ければ累計で
+                さらに {formatUsd(analytics.cacheSavings.totalSaved)} かかっていた見込みです。
+              </p>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
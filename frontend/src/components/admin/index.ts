@@ -5,4 +5,5 @@
 export { AdminPanel } from './AdminPanel';
 export { DataDiagnostics } from './DataDiagnostics';
 export { RecoveryTools } from './RecoveryTools';
-export { SystemDiagnostics } from './SystemDiagnostics';
\ No newline at end of file
+export { SystemDiagnostics } from './SystemDiagnostics';
+export { UsageAnalyticsDashboard } from './UsageAnalyticsDashboard';
@@ -0,0 +1,252 @@
+/**
+ * BudgetSettingsPanel - AI利用予算の設定と利用状況
+ * 月間・日次・処理種別ごとの上限と警告しきい値を設定する（空欄は上限なし）
+ */
+
+import React, { useState } from 'react';
+import { Wallet, AlertTriangle, PauseCircle, RefreshCw } from 'lucide-react';
+import { Button } from './Button';
+import { ProgressBar } from './ProgressBar';
+import { useBudget } from '../../hooks/useBudget';
+import {
+  budgetService,
+  BUDGET_OPERATION_LABELS,
+  BUDGET_OPERATION_TYPES,
+  formatUsd
+} from '../../services/budgetService';
+import type { BudgetConfig, BudgetLevel, BudgetOperationType } from '../../types/budget';
+
+interface BudgetDraft {
+  enabled: boolean;
+  monthlyLimit: string;
+  dailyLimit: string;
+  operationLimits: Record<BudgetOperationType, string>;
+  warningThresholds: string;
+}
+
+const LEVEL_COLORS: Record<BudgetLevel, 'green' | 'yellow' | 'red'> = {
+  ok: 'green',
+  warning: 'yellow',
+  exceeded: 'red'
+};
+
+const toInput = (value: number | null): string => value === null ? '' : String(value);
+
+const toDraft = (config: BudgetConfig): BudgetDraft => ({
+  enabled: config.enabled,
+  monthlyLimit: toInput(config.monthlyLimit),
+  dailyLimit: toInput(config.dailyLimit),
+  operationLimits: {
+    'extract-mvv': toInput(config.operationLimits['extract-mvv']),
+    'extract-company-info': toInput(config.operationLimits['extract-company-info']),
+    'generate-ideas': toInput(config.operationLimits['generate-ideas']),
+    'verify-ideas': toInput(config.operationLimits['verify-ideas'])
+  },
+  warningThresholds: config.warningThresholds.join(', ')
+});
+
+const parseLimit = (value: string, label: string): number | null => {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  const parsed = Number(trimmed);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${label}には0以上の金額を入力してください`);
+  }
+  return parsed;
+};
+
+export const BudgetSettingsPanel: React.FC = () => {
+  const status = useBudget();
+  const [draft, setDraft] = useState<BudgetDraft>(() => toDraft(budgetService.getConfig()));
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const updateDraft = (updates: Partial<BudgetDraft>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+    setSaved(false);
+  };
+
+  const handleSave = () => {
+    try {
+      const operationLimits = {} as Record<BudgetOperationType, number | null>;
+      BUDGET_OPERATION_TYPES.forEach(type => {
+        operationLimits[type] = parseLimit(draft.operationLimits[type], BUDGET_OPERATION_LABELS[type]);
+      });
+
+      const warningThresholds = draft.warningThresholds
+        .split(/[,、\s]+/)
+        .filter(value => value.length > 0)
+        .map(Number);
+      if (warningThresholds.some(value => !Number.isFinite(value) || value <= 0 || value >= 100)) {
+        throw new Error('警告しきい値は1〜99の割合（%）をカンマ区切りで入力してください');
+      }
+
+      budgetService.updateConfig({
+        enabled: draft.enabled,
+        monthlyLimit: parseLimit(draft.monthlyLimit, '月間予算'),
+        dailyLimit: parseLimit(draft.dailyLimit, '日次予算'),
+        operationLimits,
+        warningThresholds
+      });
+      setDraft(toDraft(budgetService.getConfig()));
+      setFormError(null);
+      setSaved(true);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : '予算設定の保存に失敗しました');
+    }
+  };
+
+  const inputClass = 'w-28 px-2 py-1 text-sm text-right border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-6">
+      {/* 利用状況 */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-medium text-gray-900 flex items-center">
+            <Wallet className="w-4 h-4 text-blue-600 mr-2" />
+            利用状況（推定コスト）
+          </h4>
+          <button
+            onClick={() => budgetService.refreshSpend()}
+            className="text-xs text-gray-500 hover:text-gray-900 flex items-center"
+          >
+            <RefreshCw className="w-3 h-3 mr-1" />
+            再集計
+          </button>
+        </div>
+
+        {status.queuePaused && (
+          <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 flex items-start">
+            <PauseCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            予算上限に達したため、AIジョブキューを一時停止しています。予算を見直すと待機中のジョブから再開します。
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4 text-sm mb-3">
+          <div className="p-3 bg-gray-50 rounded-md">
+            <div className="text-gray-600">今月</div>
+            <div className="text-xl font-bold text-gray-900">{formatUsd(status.spend.monthly)}</div>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-md">
+            <div className="text-gray-600">今日</div>
+            <div className="text-xl font-bold text-gray-900">{formatUsd(status.spend.daily)}</div>
+          </div>
+        </div>
+
+        {status.scopes.length > 0 ? (
+          <div className="space-y-3">
+            {status.scopes.map(scope => (
+              <div key={scope.scope}>
+                <div className="flex items-center justify-between text-xs mb-1">
+                  <span className="text-gray-700 flex items-center">
+                    {scope.level !== 'ok' && <AlertTriangle className={`w-3 h-3 mr-1 ${scope.level === 'exceeded' ? 'text-red-600' : 'text-yellow-600'}`} />}
+                    {scope.label}
+                  </span>
+                  <span className="text-gray-500">
+                    {formatUsd(scope.spent)} / {formatUsd(scope.limit)}（{Math.round(scope.ratio * 100)}%）
+                  </span>
+                </div>
+                <ProgressBar value={Math.min(scope.spent, scope.limit)} max={scope.limit || 1} size="sm" color={LEVEL_COLORS[scope.level]} />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">
+            {status.config.enabled ? '上限が設定されていません。' : '予算チェックは無効です。'}
+          </p>
+        )}
+      </div>
+
+      {/* 予算設定 */}
+      <div className="border-t border-gray-200 pt-4 space-y-4">
+        <label className="flex items-center text-sm text-gray-900">
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            onChange={(e) => updateDraft({ enabled: e.target.checked })}
+            className="mr-2"
+          />
+          予算チェックを有効にする
+        </label>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+          <label className="flex items-center justify-between">
+            <span className="text-gray-700">月間予算（USD）</span>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={draft.monthlyLimit}
+              onChange={(e) => updateDraft({ monthlyLimit: e.target.value })}
+              placeholder="上限なし"
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center justify-between">
+            <span className="text-gray-700">日次予算（USD）</span>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={draft.dailyLimit}
+              onChange={(e) => updateDraft({ dailyLimit: e.target.value })}
+              placeholder="上限なし"
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div>
+          <div className="text-xs font-medium text-gray-500 mb-2">処理種別ごとの月間予算（USD）</div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+            {BUDGET_OPERATION_TYPES.map(type => (
+              <label key={type} className="flex items-center justify-between">
+                <span className="text-gray-700">
+                  {BUDGET_OPERATION_LABELS[type]}
+                  <span className="block text-xs text-gray-400">
+                    今月 {formatUsd(status.spend.byOperation[type])} ・ 1回 約{formatUsd(budgetService.estimateCallCost(type))}
+                  </span>
+                </span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.operationLimits[type]}
+                  onChange={(e) => updateDraft({ operationLimits: { ...draft.operationLimits, [type]: e.target.value } })}
+                  placeholder="上限なし"
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <label className="flex items-center justify-between text-sm">
+          <span className="text-gray-700">警告しきい値（%、カンマ区切り）</span>
+          <input
+            type="text"
+            value={draft.warningThresholds}
+            onChange={(e) => updateDraft({ warningThresholds: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+
+        <p className="text-xs text-gray-500">
+          上限に達するとAIジョブキュー全体を一時停止します。待機中のジョブは失敗扱いにならず、予算を見直すか「再開」すると続きから処理されます。
+        </p>
+
+        {formError && (
+          <div className="p-2 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{formError}</div>
+        )}
+
+        <div className="flex items-center justify-end space-x-3">
+          {saved && <span className="text-xs text-green-600">保存しました</span>}
+          <Button size="sm" onClick={handleSave}>
+            予算を保存
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { Database, TrendingUp, Clock, HardDrive } from 'lucide-react';
-import { aiCacheService } from '../../services/aiCacheService';
+import { Database, TrendingUp, Clock, HardDrive, Sparkles } from 'lucide-react';
+import {
+  aiCacheService,
+  type CacheLookupRecord,
+  type CacheMatchType,
+  type SemanticCacheConfig
+} from '../../services/aiCacheService';
 
 interface CacheStats {
   hitRate: number;
@@ -8,11 +13,21 @@ interface CacheStats {
   companyInfoEntries: number;
   industryAnalysisEntries: number;
   oldestEntry: Date | null;
+  hitsByMatch: Record<CacheMatchType, number>;
 }
 
+const MATCH_LABELS: Record<CacheLookupRecord['matchType'], { label: string; className: string }> = {
+  exact: { label: '完全一致', className: 'bg-green-100 text-green-700' },
+  normalized: { label: '正規化一致', className: 'bg-blue-100 text-blue-700' },
+  embedding: { label: '類似一致', className: 'bg-purple-100 text-purple-700' },
+  miss: { label: 'ミス', className: 'bg-gray-100 text-gray-600' }
+};
+
 export const CacheStatus: React.FC = () => {
   const [stats, setStats] = useState<CacheStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [recentLookups, setRecentLookups] = useState<CacheLookupRecord[]>([]);
+  const [semanticConfig, setSemanticConfig] = useState<SemanticCacheConfig>(() => aiCacheService.getSemanticConfig());
 
   useEffect(() => {
     loadCacheStats();
@@ -22,6 +37,7 @@ export const CacheStatus: React.FC = () => {
     try {
       const cacheStats = await aiCacheService.getCacheStats();
       setStats(cacheStats);
+      setRecentLookups(aiCacheService.getRecentLookups());
     } catch (error) {
       console.error('Failed to load cache stats:', error);
     } finally {
@@ -29,6 +45,11 @@ export const CacheStatus: React.FC = () => {
     }
   };
 
+  const updateSemanticConfig = (updates: Partial<SemanticCacheConfig>) => {
+    aiCacheService.updateSemanticConfig(updates);
+    setSemanticConfig(aiCacheService.getSemanticConfig());
+  };
+
   const handleCleanup = async () => {
     setIsLoading(true);
     try {
@@ -185,6 +206,86 @@ export const CacheStatus: React.FC = () => {
         </div>
       </div>
 
+      {/* ヒットの内訳（完全一致・表記ゆれ・類似） */}
+      <div className="pt-2 border-t border-gray-100">
+        <div className="grid grid-cols-3 gap-2 text-xs">
+          {(['exact', 'normalized', 'embedding'] as const).map(matchType => (
+            <div key={matchType} className="flex items-center justify-between">
+              <span className={`px-1.5 py-0.5 rounded ${MATCH_LABELS[matchType].className}`}>
+                {MATCH_LABELS[matchType].label}
+              </span>
+              <span className="text-gray-700 font-medium">{stats.hitsByMatch[matchType]}件</span>
+            </div>
+          ))}
+        </div>
+
+        {recentLookups.length > 0 && (
+          <div className="mt-2 max-h-40 overflow-y-auto">
+            <div className="text-xs font-medium text-gray-600 mb-1">直近の参照</div>
+            <ul className="space-y-1">
+              {recentLookups.map(lookup => (
+                <li key={`${lookup.timestamp}-${lookup.cacheType}-${lookup.subject}`} className="flex items-center text-xs text-gray-600">
+                  <span className={`px-1.5 py-0.5 rounded mr-2 flex-shrink-0 ${MATCH_LABELS[lookup.matchType].className}`}>
+                    {MATCH_LABELS[lookup.matchType].label}
+                  </span>
+                  <span className="truncate">
+                    {lookup.subject}
+                    {lookup.matchedSubject && lookup.matchedSubject !== lookup.subject && (
+                      <span className="text-gray-400"> → {lookup.matchedSubject}</span>
+                    )}
+                    {lookup.similarity !== undefined && (
+                      <span className="text-gray-400">（類似度 {lookup.similarity.toFixed(3)}）</span>
+                    )}
+                  </span>
+                  <span className="ml-auto pl-2 text-gray-400 flex-shrink-0">{lookup.cacheType}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* セマンティックキャッシュ設定 */}
+      <div className="pt-2 border-t border-gray-100 space-y-1 text-xs text-gray-700">
+        <div className="font-medium text-gray-600 flex items-center">
+          <Sparkles className="w-3 h-3 mr-1 text-purple-500" />
+          セマンティックキャッシュ
+        </div>
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={semanticConfig.normalizeKeys}
+            onChange={(e) => updateSemanticConfig({ normalizeKeys: e.target.checked })}
+            className="mr-2"
+          />
+          企業名・URL・パラメータの表記ゆれを吸収する
+        </label>
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={semanticConfig.embeddingMatch}
+            onChange={(e) => updateSemanticConfig({ embeddingMatch: e.target.checked })}
+            className="mr-2"
+          />
+          リクエスト内容のEmbeddings類似度で照合する
+        </label>
+        <label className="flex items-center pl-5">
+          しきい値
+          <input
+            type="range"
+            min="0.5"
+            max="1"
+            step="0.01"
+            value={semanticConfig.similarityThreshold}
+            onChange={(e) => updateSemanticConfig({ similarityThreshold: Number(e.target.value) })}
+            disabled={!semanticConfig.embeddingMatch}
+            className="mx-2 w-32 disabled:opacity-50"
+          />
+          {semanticConfig.similarityThreshold.toFixed(2)}
+        </label>
+        <p className="text-gray-400">Embeddings照合は有効化後に保存されたエントリが対象です</p>
+      </div>
+
       {/* 詳細統計 */}
       <div className="pt-2 border-t border-gray-100">
         <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
@@ -0,0 +1,182 @@
+/**
+ * CostEstimateDialog - バッチ処理の実行前確認
+ * 見積もったトークン数・コスト・所要時間をプロバイダ・モデル別に表示し、承認後に開始する
+ */
+
+import React from 'react';
+import { AlertTriangle, Clock, Coins, Database, Play } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { LoadingSpinner } from './LoadingSpinner';
+import { formatUsd } from '../../services/budgetService';
+import { formatDuration } from '../../utils/formatters';
+import type { BatchCostEstimate, CostBreakdownRow, EstimateMetric } from '../../services/costEstimator';
+import type { JobProvider } from '../../types/jobScheduler';
+
+const PROVIDER_LABELS: Record<JobProvider, string> = {
+  perplexity: 'Perplexity',
+  openai: 'OpenAI',
+  background: 'Background Function'
+};
+
+const METRIC_LABELS: Record<EstimateMetric, string> = {
+  tokens: 'トークン',
+  cost: 'コスト',
+  duration: '所要時間'
+};
+
+// 見積もりの根拠（指標ごとに実績の中央値か既定値か）
+const describeBasis = (row: CostBreakdownRow): string => {
+  const defaults = (Object.keys(METRIC_LABELS) as EstimateMetric[]).filter(metric => row.basis[metric] === 'default');
+  if (defaults.length === 0) return `直近${row.sampleSize}件の実績の中央値`;
+  if (defaults.length === Object.keys(METRIC_LABELS).length) return '実績なし（既定値）';
+  return `直近${row.sampleSize}件の実績の中央値（${defaults.map(metric => METRIC_LABELS[metric]).join('・')}は既定値）`;
+};
+
+interface CostEstimateDialogProps {
+  isOpen: boolean;
+  title: string;
+  estimate: BatchCostEstimate | null;
+  isEstimating: boolean;
+  error?: string | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const CostEstimateDialog: React.FC<CostEstimateDialogProps> = ({
+  isOpen,
+  title,
+  estimate,
+  isEstimating,
+  error,
+  onConfirm,
+  onCancel
+}) => {
+  // プロバイダ・モデル単位にまとめて表示
+  const groups = new Map<string, { provider: JobProvider; model: string; rows: CostBreakdownRow[] }>();
+  estimate?.rows.forEach(row => {
+    const key = `${row.provider}:${row.model}`;
+    const group = groups.get(key) || { provider: row.provider, model: row.model, rows: [] };
+    group.rows.push(row);
+    groups.set(key, group);
+  });
+
+  return (
+    <Modal isOpen={isOpen} onClose={onCancel} title={title} size="lg">
+      {isEstimating && (
+        <div className="flex items-center justify-center py-8 text-sm text-gray-600">
+          <LoadingSpinner size="sm" />
+          <span className="ml-2">過去の実行履歴とキャッシュから見積もっています...</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 mb-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          見積もりに失敗しました: {error}
+        </div>
+      )}
+
+      {estimate && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3 text-sm">
+            <div className="p-3 bg-gray-50 rounded-md">
+              <div className="text-gray-600 flex items-center"><Coins className="w-4 h-4 mr-1" />推定コスト</div>
+              <div className="text-xl font-bold text-gray-900">{formatUsd(estimate.totalCost)}</div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-md">
+              <div className="text-gray-600">推定トークン数</div>
+              <div className="text-xl font-bold text-gray-900">{estimate.totalTokens.toLocaleString()}</div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-md">
+              <div className="text-gray-600 flex items-center"><Clock className="w-4 h-4 mr-1" />推定所要時間</div>
+              <div className="text-xl font-bold text-gray-900">{formatDuration(estimate.durationMs)}</div>
+            </div>
+          </div>
+
+          <div className="text-xs text-gray-600 flex items-center">
+            <Database className="w-3 h-3 mr-1" />
+            {estimate.jobCount}件のジョブ・{estimate.totalCalls}回のAPI呼び出しのうち、
+            {estimate.cachedCalls}回はキャッシュから応答する見込みです
+          </div>
+
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">処理</th>
+                  <th className="px-3 py-2 text-right font-medium">呼び出し</th>
+                  <th className="px-3 py-2 text-right font-medium">トークン</th>
+                  <th className="px-3 py-2 text-right font-medium">コスト</th>
+                  <th className="px-3 py-2 text-right font-medium">1回の所要時間</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {Array.from(groups.values()).map(group => (
+                  <React.Fragment key={`${group.provider}:${group.model}`}>
+                    <tr className="bg-gray-50">
+                      <td colSpan={3} className="px-3 py-1.5 text-xs font-medium text-gray-700">
+                        {PROVIDER_LABELS[group.provider]} / {group.model}
+                      </td>
+                      <td className="px-3 py-1.5 text-right text-xs font-medium text-gray-700">
+                        {formatUsd(group.rows.reduce((sum, row) => sum + row.cost, 0))}
+                      </td>
+                      <td />
+                    </tr>
+                    {group.rows.map(row => (
+                      <tr key={row.operation}>
+                        <td className="px-3 py-2 text-gray-900">
+                          {row.label}
+                          <div className="text-xs text-gray-400">
+                            {describeBasis(row)}
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-700 whitespace-nowrap">
+                          {row.calls - row.cachedCalls}回
+                          {row.cachedCalls > 0 && <span className="text-xs text-gray-400">（+キャッシュ{row.cachedCalls}）</span>}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-700">{row.tokens.toLocaleString()}</td>
+                        <td className="px-3 py-2 text-right text-gray-700">{formatUsd(row.cost)}</td>
+                        <td className="px-3 py-2 text-right text-gray-700">{(row.medianDurationMs / 1000).toFixed(1)}秒</td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="text-xs text-gray-500 space-y-0.5">
+            {estimate.providers.map(provider => (
+              <div key={provider.provider}>
+                {PROVIDER_LABELS[provider.provider]}: {provider.jobs}件を同時{provider.concurrency}件・
+                開始間隔{(provider.minStartIntervalMs / 1000).toFixed(1)}秒で実行（約{formatDuration(provider.durationMs)}）
+              </div>
+            ))}
+          </div>
+
+          {estimate.budgetWarnings.length > 0 && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+              <div className="flex items-center font-medium mb-1">
+                <AlertTriangle className="w-4 h-4 mr-1" />
+                予算上限を超える見込みです（上限到達時はジョブキューが一時停止します）
+              </div>
+              {estimate.budgetWarnings.map(warning => (
+                <div key={warning} className="text-xs">{warning}</div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3 mt-6">
+        <Button variant="outline" onClick={onCancel}>
+          キャンセル
+        </Button>
+        <Button onClick={onConfirm} disabled={isEstimating}>
+          <Play className="w-4 h-4 mr-2" />
+          {estimate ? 'この内容で開始' : '見積もらずに開始'}
+        </Button>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import type { DiffSegment } from '../../utils/textDiff';
+
+/**
+ * 単語レベル差分の表示（追加は緑、削除は赤の取り消し線）
+ */
+export const DiffText: React.FC<{ segments: DiffSegment[] }> = ({ segments }) => {
+  if (segments.length === 0) {
+    return <span className="text-gray-400 italic">（なし）</span>;
+  }
+
+  return (
+    <span className="leading-relaxed whitespace-pre-wrap">
+      {segments.map((segment, index) => (
+        <span
+          key={index}
+          className={
+            segment.type === 'added' ? 'bg-green-100 text-green-900' :
+            segment.type === 'removed' ? 'bg-red-100 text-red-900 line-through' :
+            ''
+          }
+        >
+          {segment.text}
+        </span>
+      ))}
+    </span>
+  );
+};
@@ -0,0 +1,281 @@
+/**
+ * JobQueuePanel - 全AI処理の統合キュー表示
+ * プロバイダ別の実行状況、バッチ単位の進捗、個別ジョブの状態を一覧する
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Activity,
+  Pause,
+  Play,
+  Square,
+  Trash2,
+  Loader2,
+  Clock,
+  CheckCircle,
+  XCircle,
+  RotateCcw,
+  Ban,
+  AlertTriangle
+} from 'lucide-react';
+import { Button } from './Button';
+import { ProgressBar } from './ProgressBar';
+import { useJobQueue } from '../../hooks/useJobQueue';
+import { useBudget } from '../../hooks/useBudget';
+import { formatUsd } from '../../services/budgetService';
+import { jobScheduler } from '../../services/jobScheduler';
+import type { JobKind, JobProvider, JobStatus, SchedulerJob } from '../../types/jobScheduler';
+
+const KIND_LABELS: Record<JobKind, string> = {
+  'mvv-extraction': 'MVV抽出',
+  'company-info': '企業情報抽出',
+  'embeddings': 'Embeddings生成',
+  'idea-verification': 'アイデア検証',
+  'other': 'その他'
+};
+
+const PROVIDER_LABELS: Record<JobProvider, string> = {
+  perplexity: 'Perplexity',
+  openai: 'OpenAI',
+  background: 'Background Function'
+};
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: '待機中',
+  running: '実行中',
+  retrying: 'リトライ待ち',
+  completed: '完了',
+  failed: '失敗',
+  cancelled: 'キャンセル'
+};
+
+const VISIBLE_FINISHED_JOBS = 20;
+
+const StatusIcon: React.FC<{ status: JobStatus }> = ({ status }) => {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />;
+    case 'retrying':
+      return <RotateCcw className="w-4 h-4 text-orange-500" />;
+    case 'completed':
+      return <CheckCircle className="w-4 h-4 text-green-600" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-600" />;
+    case 'cancelled':
+      return <Ban className="w-4 h-4 text-gray-400" />;
+    default:
+      return <Clock className="w-4 h-4 text-gray-400" />;
+  }
+};
+
+export const JobQueuePanel: React.FC = () => {
+  const { jobs, groups, providers, paused, pauseReason } = useJobQueue();
+  const budget = useBudget();
+  const budgetAlerts = budget.scopes.filter(scope => scope.level !== 'ok');
+  const [now, setNow] = useState(Date.now());
+
+  const hasPendingWork = jobs.some(job => job.status === 'retrying')
+    || providers.some(provider => provider.cooldownUntil);
+
+  // リトライ・クールダウンの残り時間表示用
+  useEffect(() => {
+    if (!hasPendingWork) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasPendingWork]);
+
+  const activeJobs = jobs
+    .filter(job => job.status === 'running' || job.status === 'retrying' || job.status === 'queued')
+    .sort((a, b) => {
+      const order = (job: SchedulerJob) => job.status === 'running' ? 0 : job.status === 'retrying' ? 1 : 2;
+      return order(a) - order(b) || a.createdAt - b.createdAt;
+    });
+  const finishedJobs = jobs
+    .filter(job => job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled')
+    .sort((a, b) => (b.finishedAt ?? 0) - (a.finishedAt ?? 0))
+    .slice(0, VISIBLE_FINISHED_JOBS);
+
+  const renderJob = (job: SchedulerJob) => (
+    <li key={job.id} className="flex items-center justify-between px-4 py-2 text-sm">
+      <div className="flex items-center min-w-0">
+        <StatusIcon status={job.status} />
+        <div className="ml-2 min-w-0">
+          <div className="text-gray-900 truncate">{job.label}</div>
+          <div className="text-xs text-gray-500">
+            {KIND_LABELS[job.kind]} ・ {PROVIDER_LABELS[job.provider]} ・ {STATUS_LABELS[job.status]}
+            {job.priority === 'high' && <span className="ml-1 text-blue-600">優先</span>}
+            {job.priority === 'low' && <span className="ml-1 text-gray-400">低優先</span>}
+            {job.attempts > 1 && <span className="ml-1">（試行 {job.attempts}/{job.maxRetries + 1}）</span>}
+            {job.status === 'retrying' && job.nextAttemptAt && (
+              <span className="ml-1 text-orange-600">
+                あと{Math.max(0, Math.ceil((job.nextAttemptAt - now) / 1000))}秒
+              </span>
+            )}
+          </div>
+          {job.holdReason && job.status === 'queued' && (
+            <div className="text-xs text-amber-700 truncate">{job.holdReason}</div>
+          )}
+          {job.error && (job.status === 'failed' || job.status === 'retrying') && (
+            <div className="text-xs text-red-600 truncate">{job.error}</div>
+          )}
+        </div>
+      </div>
+      {(job.status === 'queued' || job.status === 'retrying') && (
+        <button
+          onClick={() => jobScheduler.cancel(job.id)}
+          className="ml-2 text-xs text-gray-500 hover:text-red-600 flex-shrink-0"
+        >
+          取消
+        </button>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Activity className="w-5 h-5 text-blue-600 mr-2" />
+          AIジョブキュー
+          {paused && (
+            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">一時停止中</span>
+          )}
+        </h3>
+        <div className="flex space-x-2">
+          {paused ? (
+            <Button size="sm" onClick={() => jobScheduler.resume()}>
+              <Play className="w-4 h-4 mr-1" />
+              再開
+            </Button>
+          ) : (
+            <Button size="sm" variant="secondary" onClick={() => jobScheduler.pause()}>
+              <Pause className="w-4 h-4 mr-1" />
+              全体を一時停止
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => jobScheduler.clearFinished()}
+            disabled={finishedJobs.length === 0}
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            完了分を消去
+          </Button>
+        </div>
+      </div>
+
+      {/* 自動停止の理由・予算の警告 */}
+      {(pauseReason || budgetAlerts.length > 0) && (
+        <div className="px-4 py-3 border-b border-gray-200 space-y-1 text-sm">
+          {paused && pauseReason && (
+            <div className="text-red-700">
+              {pauseReason}
+              <span className="block text-xs text-gray-500">
+                待機中のジョブはそのまま残っています。予算を見直してから再開してください。
+              </span>
+            </div>
+          )}
+          {budgetAlerts.map(scope => (
+            <div
+              key={scope.scope}
+              className={`flex items-center text-xs ${scope.level === 'exceeded' ? 'text-red-600' : 'text-yellow-700'}`}
+            >
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              {scope.label}: {formatUsd(scope.spent)} / {formatUsd(scope.limit)}（{Math.round(scope.ratio * 100)}%）
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* プロバイダ別の実行状況 */}
+      <div className="grid grid-cols-2 gap-4 px-4 py-3 border-b border-gray-200">
+        {providers.map(provider => (
+          <div key={provider.provider} className="text-sm">
+            <div className="font-medium text-gray-900">{PROVIDER_LABELS[provider.provider]}</div>
+            <div className="text-gray-600">
+              実行中 {provider.running}/{provider.concurrency} ・ 待機 {provider.queued}
+            </div>
+            {provider.cooldownUntil && provider.cooldownUntil > now && (
+              <div className="text-xs text-orange-600">
+                レート制限のため新規開始を停止中（あと{Math.ceil((provider.cooldownUntil - now) / 1000)}秒）
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* バッチ単位の進捗 */}
+      {groups.length > 0 && (
+        <div className="px-4 py-3 border-b border-gray-200 space-y-3">
+          {groups.map(group => {
+            const finished = group.completed + group.failed + group.cancelled;
+            const isActive = group.queued + group.running > 0;
+            return (
+              <div key={group.id}>
+                <div className="flex items-center justify-between mb-1">
+                  <div className="text-sm font-medium text-gray-900">
+                    {group.label}
+                    {group.paused && <span className="ml-2 text-xs text-yellow-700">一時停止中</span>}
+                  </div>
+                  {isActive && (
+                    <div className="flex space-x-2 text-xs">
+                      {group.paused ? (
+                        <button onClick={() => jobScheduler.resumeGroup(group.id)} className="text-blue-600 hover:underline">
+                          再開
+                        </button>
+                      ) : (
+                        <button onClick={() => jobScheduler.pauseGroup(group.id)} className="text-gray-600 hover:underline">
+                          一時停止
+                        </button>
+                      )}
+                      <button onClick={() => jobScheduler.cancelGroup(group.id)} className="text-red-600 hover:underline flex items-center">
+                        <Square className="w-3 h-3 mr-0.5" />
+                        停止
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <ProgressBar
+                  value={finished}
+                  max={group.total}
+                  size="sm"
+                  color={group.paused ? 'yellow' : isActive ? 'blue' : group.failed > 0 ? 'red' : 'green'}
+                />
+                <div className="text-xs text-gray-500 mt-1">
+                  {finished}/{group.total}件 ・ 成功 {group.completed} ・ 失敗 {group.failed}
+                  {group.cancelled > 0 && ` ・ キャンセル ${group.cancelled}`}
+                  {group.running > 0 && ` ・ 実行中 ${group.running}`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {activeJobs.length === 0 && finishedJobs.length === 0 ? (
+        <div className="px-4 py-8 text-center text-sm text-gray-500">
+          AI処理が開始されると、ここに全てのジョブの状況が表示されます。
+        </div>
+      ) : (
+        <>
+          {activeJobs.length > 0 && (
+            <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+              {activeJobs.map(renderJob)}
+            </ul>
+          )}
+          {finishedJobs.length > 0 && (
+            <>
+              <div className="px-4 py-2 text-xs font-medium text-gray-500 bg-gray-50 border-t border-gray-200">
+                最近終了したジョブ
+              </div>
+              <ul className="divide-y divide-gray-100 max-h-60 overflow-y-auto">
+                {finishedJobs.map(renderJob)}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -9,4 +9,8 @@ export { StatusBadge } from './StatusBadge';
 export { ScrollToTopButton } from './ScrollToTopButton';
 export { EmbeddingsDetails } from './EmbeddingsDetails';
 export { ExcelExportWizard } from './ExcelExportWizard';
-export { CacheStatus } from './CacheStatus';
\ No newline at end of file
+export { CacheStatus } from './CacheStatus';
+export { DiffText } from './DiffText';
+export { JobQueuePanel } from './JobQueuePanel';
+export { BudgetSettingsPanel } from './BudgetSettingsPanel';
+export { CostEstimateDialog } from './CostEstimateDialog';
@@ -0,0 +1,92 @@
+/**
+ * Worker計算の実行状態管理フック
+ * 途中結果の反映・進捗・キャンセル・再計算をまとめて扱う
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { ComputePhase } from '../services/analysisCompute';
+import { toOverallProgress, type ComputeCallbacks, type ComputeHandle } from '../services/analysisComputeService';
+
+export type AnalysisComputeStatus = 'idle' | 'computing' | 'completed' | 'cancelled' | 'error';
+
+/**
+ * @param start 計算を開始する関数（useCallback でメモ化すること）。null の場合は計算しない
+ * @param phases 全体進捗の換算に使うフェーズ順（モジュール定数を渡すこと）
+ */
+export const useAnalysisCompute = <T>(
+  start: ((callbacks: ComputeCallbacks<T>) => ComputeHandle<T>) | null,
+  phases: ComputePhase[]
+) => {
+  const [result, setResult] = useState<T | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [status, setStatus] = useState<AnalysisComputeStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [runCount, setRunCount] = useState(0);
+  const handleRef = useRef<ComputeHandle<T> | null>(null);
+
+  useEffect(() => {
+    if (!start) {
+      setResult(null);
+      setStatus('idle');
+      return;
+    }
+
+    let active = true;
+    setResult(null);
+    setProgress(0);
+    setError(null);
+    setStatus('computing');
+
+    const handle = start({
+      onProgress: (computeProgress) => {
+        if (active) setProgress(toOverallProgress(computeProgress, phases));
+      },
+      onPartial: (partial) => {
+        if (active) setResult(partial);
+      }
+    });
+    handleRef.current = handle;
+
+    handle.promise
+      .then((finalResult) => {
+        if (!active) return;
+        setResult(finalResult);
+        setProgress(1);
+        setStatus('completed');
+      })
+      .catch((err) => {
+        if (!active) return;
+        if (err instanceof Error && err.name === 'AbortError') {
+          setStatus('cancelled');
+        } else {
+          console.error('Analysis compute error:', err);
+          setError(err instanceof Error ? err.message : 'Unknown error');
+          setStatus('error');
+        }
+      });
+
+    return () => {
+      active = false;
+      handle.cancel();
+      handleRef.current = null;
+    };
+  }, [start, phases, runCount]);
+
+  const cancel = useCallback(() => {
+    handleRef.current?.cancel();
+  }, []);
+
+  const restart = useCallback(() => {
+    setRunCount(prev => prev + 1);
+  }, []);
+
+  return {
+    result,
+    progress,
+    status,
+    error,
+    isComputing: status === 'computing',
+    cancel,
+    restart
+  };
+};
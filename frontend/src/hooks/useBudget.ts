@@ -0,0 +1,15 @@
+/**
+ * AI利用予算の購読Hook
+ * 利用額・上限・警告状態の表示や、上限到達によるキュー停止の表示に使う
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { BudgetStatus } from '../types/budget';
+import { budgetService } from '../services/budgetService';
+
+const subscribe = (onStoreChange: () => void) => budgetService.subscribe(onStoreChange);
+const getSnapshot = () => budgetService.getStatus();
+
+export function useBudget(): BudgetStatus {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
@@ -0,0 +1,43 @@
+/**
+ * バッチ処理の実行前見積もりHook
+ * 開始ボタンで見積もりを計算して確認ダイアログを開き、承認後に処理を開始する
+ */
+
+import { useState, useCallback } from 'react';
+import { costEstimatorService, type BatchCostEstimate, type PlannedJob } from '../services/costEstimator';
+
+export function useCostEstimate() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [estimate, setEstimate] = useState<BatchCostEstimate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestEstimate = useCallback(async (jobs: PlannedJob[]) => {
+    setIsOpen(true);
+    setIsEstimating(true);
+    setEstimate(null);
+    setError(null);
+
+    try {
+      setEstimate(await costEstimatorService.estimate(jobs));
+    } catch (err) {
+      console.error('Failed to estimate batch cost:', err);
+      setError(err instanceof Error ? err.message : 'コストの見積もりに失敗しました');
+    } finally {
+      setIsEstimating(false);
+    }
+  }, []);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+  }, []);
+
+  return {
+    isOpen,
+    isEstimating,
+    estimate,
+    error,
+    requestEstimate,
+    close
+  };
+}
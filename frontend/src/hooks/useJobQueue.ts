@@ -0,0 +1,23 @@
+/**
+ * AIジョブキュー購読Hook
+ * jobScheduler のスナップショットを購読し、キュー表示・バッチ進捗に使う
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { SchedulerGroupSummary, SchedulerSnapshot } from '../types/jobScheduler';
+import { jobScheduler } from '../services/jobScheduler';
+
+const subscribe = (onStoreChange: () => void) => jobScheduler.subscribe(onStoreChange);
+const getSnapshot = () => jobScheduler.getSnapshot();
+
+export function useJobQueue(): SchedulerSnapshot {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/**
+ * 特定バッチ（グループ）の進捗
+ */
+export function useJobGroup(groupId: string | null): SchedulerGroupSummary | undefined {
+  const { groups } = useJobQueue();
+  return groupId ? groups.find(group => group.id === groupId) : undefined;
+}
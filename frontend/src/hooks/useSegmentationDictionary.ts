@@ -0,0 +1,30 @@
+/**
+ * 形態素解析辞書の購読Hook
+ * 辞書が更新されるとプロファイル一覧の参照が変わり、解析結果のuseMemoを再計算させる
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import type { SegmentationProfile } from '../types/segmentation';
+import type { SegmentationOptions } from '../services/enhancedSegmentationService';
+import { segmentationDictionary, resolveProfileIdFromProfiles } from '../services/segmentationDictionary';
+
+const subscribe = (onStoreChange: () => void) => segmentationDictionary.subscribe(onStoreChange);
+const getProfiles = () => segmentationDictionary.getProfiles();
+const getRejectedCompounds = () => segmentationDictionary.getRejectedCompounds();
+
+export function useSegmentationDictionary(): {
+  profiles: SegmentationProfile[];
+  rejectedCompounds: Set<string>;
+  getSegmentationOptions: (selection: string, category?: string | null) => SegmentationOptions;
+} {
+  const profiles = useSyncExternalStore(subscribe, getProfiles);
+  const rejectedCompounds = useSyncExternalStore(subscribe, getRejectedCompounds);
+
+  const getSegmentationOptions = useCallback((selection: string, category?: string | null): SegmentationOptions => ({
+    preserveCompounds: true,
+    enableCustomRules: true,
+    profileId: resolveProfileIdFromProfiles(profiles, selection, category)
+  }), [profiles]);
+
+  return { profiles, rejectedCompounds, getSegmentationOptions };
+}
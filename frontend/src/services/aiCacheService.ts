@@ -2,9 +2,24 @@
  * AI APIキャッシュサービス
  * クライアントサイドで決定論的なAI結果をキャッシュして
  * API呼び出しコストとレスポンス時間を大幅に削減
+ *
+ * 完全一致で見つからない場合は、企業名・URL・パラメータを正規化したキー（表記ゆれ対応）、
+ * さらに有効時はリクエスト内容のEmbeddings類似度で近いエントリを探す（セマンティックキャッシュ）
  */
 
 import Dexie, { type Table } from 'dexie';
+import { generateEmbeddings } from './openai';
+import { SimilarityCalculator } from './similarityCalculator';
+import {
+  normalizeCompanyName,
+  normalizeRequestParams,
+  normalizeText,
+  normalizeUrl,
+  stableHash
+} from '../utils/cacheKeyNormalizer';
+import { CONSTANTS } from '../utils/constants';
+
+type CompanyCacheType = 'company-info' | 'mvv-extraction' | 'company-classification';
 
 // 企業基本情報キャッシュ（temperature: 0.1, 決定論的）
 export interface CompanyInfoCache {
@@ -12,9 +27,13 @@ export interface CompanyInfoCache {
   companyId: string;
   companyName: string;
   companyWebsite?: string;
-  cacheType: 'company-info' | 'mvv-extraction' | 'company-classification';
+  cacheType: CompanyCacheType;
   apiEndpoint: string;
   requestHash: string; // パラメータのハッシュ
+  nameKey?: string; // 正規化した企業名＋パラメータのキー
+  urlKey?: string; // 正規化したURL＋パラメータのキー
+  paramsKey?: string; // 正規化したパラメータのみのキー（Embeddings照合の絞り込み用）
+  requestEmbedding?: number[];
   responseData: any;
   createdAt: Date;
   lastAccessed: Date;
@@ -29,6 +48,9 @@ export interface IndustryAnalysisCache {
   industry: string;
   analysisType: string; // 'market-trends', 'competitive-landscape', 'regulatory-environment'
   requestHash: string;
+  semanticKey?: string; // 正規化した業界名＋パラメータのキー
+  paramsKey?: string; // 分析種別＋正規化したパラメータのみのキー（Embeddings照合の絞り込み用）
+  requestEmbedding?: number[];
   responseData: any;
   createdAt: Date;
   lastAccessed: Date;
@@ -38,6 +60,9 @@ export interface IndustryAnalysisCache {
   estimatedCostSaved: number;
 }
 
+// ヒットの種類（完全一致 / 正規化キー一致 / Embeddings類似）
+export type CacheMatchType = 'exact' | 'normalized' | 'embedding';
+
 // キャッシュ統計
 export interface CacheStats {
   id: string;
@@ -49,8 +74,52 @@ export interface CacheStats {
     companyInfo: number;
     industryAnalysis: number;
   };
+  hitsByMatch?: Record<CacheMatchType, number>;
+}
+
+// 直近の参照結果（CacheStatus の表示用）
+export interface CacheLookupRecord {
+  timestamp: number;
+  cacheKind: 'companyInfo' | 'industryAnalysis';
+  cacheType: string;
+  subject: string; // 参照した企業名・業界名
+  matchType: CacheMatchType | 'miss';
+  matchedSubject?: string; // ヒットしたエントリの企業名・業界名
+  similarity?: number;
+}
+
+export interface SemanticCacheConfig {
+  normalizeKeys: boolean;
+  embeddingMatch: boolean;
+  similarityThreshold: number;
 }
 
+interface CacheMatch<T> {
+  entry: T;
+  matchType: CacheMatchType;
+  similarity?: number;
+}
+
+interface CompanyCacheKeys {
+  requestHash: string;
+  nameKey: string;
+  urlKey?: string;
+  paramsKey: string;
+  embeddingText: string;
+}
+
+export const DEFAULT_SEMANTIC_CACHE_CONFIG: SemanticCacheConfig = {
+  normalizeKeys: true,
+  embeddingMatch: false,
+  similarityThreshold: CONSTANTS.SEMANTIC_CACHE.DEFAULT_SIMILARITY_THRESHOLD
+};
+
+const createEmptyMatchCounts = (): Record<CacheMatchType, number> => ({
+  exact: 0,
+  normalized: 0,
+  embedding: 0
+});
+
 class AICacheDatabase extends Dexie {
   companyInfoCache!: Table<CompanyInfoCache>;
   industryAnalysisCache!: Table<IndustryAnalysisCache>;
@@ -65,6 +134,14 @@ class AICacheDatabase extends Dexie {
       cacheStats: '++id, lastUpdated'
     });
 
+    // 参照に使う複合インデックスと正規化キーを追加
+    // v1のエントリは複合インデックスが無く参照できていなかったため、正規化キーは付与せず期限切れを待つ
+    this.version(2).stores({
+      companyInfoCache: '++id, companyId, companyName, cacheType, requestHash, [companyId+cacheType+requestHash], nameKey, urlKey, createdAt, expiresAt, lastAccessed',
+      industryAnalysisCache: '++id, industry, analysisType, requestHash, [industry+analysisType+requestHash], semanticKey, createdAt, expiresAt, lastAccessed',
+      cacheStats: '++id, lastUpdated'
+    });
+
     // 自動フック
     this.companyInfoCache.hook('creating', (_, obj) => {
       obj.createdAt = new Date();
@@ -93,9 +170,12 @@ export class AICacheService {
     misses: 0,
     totalSaved: 0
   };
+  private semanticConfig: SemanticCacheConfig;
+  private recentLookups: CacheLookupRecord[] = [];
 
   constructor() {
     this.db = new AICacheDatabase();
+    this.semanticConfig = this.loadSemanticConfig();
     this.initializeStats();
   }
 
@@ -111,42 +191,63 @@ export class AICacheService {
         hitRateByType: {
           companyInfo: 0,
           industryAnalysis: 0
-        }
+        },
+        hitsByMatch: createEmptyMatchCounts()
       });
     }
   }
 
+  getSemanticConfig(): SemanticCacheConfig {
+    return this.semanticConfig;
+  }
+
+  /**
+   * セマンティックキャッシュの設定を更新
+   * Embeddings照合を有効にした後に保存したエントリだけが類似度照合の対象になる
+   */
+  updateSemanticConfig(updates: Partial<SemanticCacheConfig>): void {
+    this.semanticConfig = {
+      ...this.semanticConfig,
+      ...updates,
+      similarityThreshold: Math.min(1, Math.max(0, updates.similarityThreshold ?? this.semanticConfig.similarityThreshold))
+    };
+
+    try {
+      localStorage.setItem(CONSTANTS.SEMANTIC_CACHE.STORAGE_KEY, JSON.stringify(this.semanticConfig));
+    } catch (error) {
+      console.warn('Failed to save semantic cache config:', error);
+    }
+  }
+
+  /**
+   * 直近の参照結果（新しい順）
+   */
+  getRecentLookups(): CacheLookupRecord[] {
+    return [...this.recentLookups];
+  }
+
   /**
    * 企業基本情報のキャッシュ取得
    * 対象: extract-company-info, extract-mvv-perplexity, add-company (temperature: 0.1)
    */
   async getCompanyInfoCache(
-    cacheType: 'company-info' | 'mvv-extraction' | 'company-classification',
+    cacheType: CompanyCacheType,
     companyId: string,
     companyName: string,
-    requestParams: any
+    requestParams: any,
+    companyWebsite?: string
   ): Promise<any | null> {
     try {
-      const requestHash = this.generateRequestHash(requestParams);
-      
-      const cached = await this.db.companyInfoCache
-        .where('[companyId+cacheType+requestHash]')
-        .equals([companyId, cacheType, requestHash])
-        .first();
+      const match = await this.findCompanyInfoCache(cacheType, companyId, companyName, companyWebsite, requestParams, true);
 
-      if (!cached) {
+      if (!match) {
         this.stats.misses++;
         await this.updateStats('miss', 'companyInfo');
+        this.recordLookup({ cacheKind: 'companyInfo', cacheType, subject: companyName, matchType: 'miss' });
         return null;
       }
 
-      // 有効期限チェック
-      if (new Date() > cached.expiresAt) {
-        await this.db.companyInfoCache.delete(cached.id);
-        this.stats.misses++;
-        await this.updateStats('miss', 'companyInfo');
-        return null;
-      }
+      const cached = match.entry;
 
       // ヒット記録
       await this.db.companyInfoCache.update(cached.id, {
@@ -156,9 +257,17 @@ export class AICacheService {
 
       this.stats.hits++;
       this.stats.totalSaved += cached.estimatedCostSaved;
-      await this.updateStats('hit', 'companyInfo', cached.estimatedCostSaved);
+      await this.updateStats('hit', 'companyInfo', cached.estimatedCostSaved, match.matchType);
+      this.recordLookup({
+        cacheKind: 'companyInfo',
+        cacheType,
+        subject: companyName,
+        matchType: match.matchType,
+        matchedSubject: cached.companyName,
+        similarity: match.similarity
+      });
 
-      console.log(`💰 Cache HIT: ${cacheType} for ${companyName} (saved $${cached.estimatedCostSaved.toFixed(4)})`);
+      console.log(`💰 Cache HIT (${match.matchType}): ${cacheType} for ${companyName} (saved $${cached.estimatedCostSaved.toFixed(4)})`);
       return cached.responseData;
 
     } catch (error) {
@@ -172,11 +281,78 @@ export class AICacheService {
     }
   }
 
+  /**
+   * 有効なキャッシュがあるか確認（ヒット統計は更新しない、実行前のコスト見積もり用）
+   * 見積もりのたびにEmbeddingsを生成しないよう、正規化キーまでで判定する
+   */
+  async hasCompanyInfoCache(
+    cacheType: CompanyCacheType,
+    companyId: string,
+    companyName: string,
+    requestParams: Record<string, unknown>,
+    companyWebsite?: string
+  ): Promise<boolean> {
+    try {
+      return !!(await this.findCompanyInfoCache(cacheType, companyId, companyName, companyWebsite, requestParams, false));
+    } catch {
+      return false;
+    }
+  }
+
+  private async findCompanyInfoCache(
+    cacheType: CompanyCacheType,
+    companyId: string,
+    companyName: string,
+    companyWebsite: string | undefined,
+    requestParams: Record<string, unknown>,
+    allowEmbedding: boolean
+  ): Promise<CacheMatch<CompanyInfoCache> | null> {
+    const keys = this.buildCompanyKeys(cacheType, companyName, companyWebsite, requestParams);
+    const now = new Date();
+
+    const exact = await this.db.companyInfoCache
+      .where('[companyId+cacheType+requestHash]')
+      .equals([companyId, cacheType, keys.requestHash])
+      .first();
+
+    if (exact) {
+      if (now <= exact.expiresAt) {
+        return { entry: exact, matchType: 'exact' };
+      }
+      // 有効期限切れは削除
+      await this.db.companyInfoCache.delete(exact.id);
+    }
+
+    const isValid = (entry: CompanyInfoCache) => now <= entry.expiresAt;
+
+    if (this.semanticConfig.normalizeKeys) {
+      const byName = await this.db.companyInfoCache.where('nameKey').equals(keys.nameKey).filter(isValid).first();
+      if (byName) return { entry: byName, matchType: 'normalized' };
+
+      if (keys.urlKey) {
+        const byUrl = await this.db.companyInfoCache.where('urlKey').equals(keys.urlKey).filter(isValid).first();
+        if (byUrl) return { entry: byUrl, matchType: 'normalized' };
+      }
+    }
+
+    if (allowEmbedding && this.semanticConfig.embeddingMatch) {
+      // パラメータが異なるエントリは応答の形が変わるため対象外
+      const candidates = await this.db.companyInfoCache
+        .where('cacheType')
+        .equals(cacheType)
+        .filter(entry => isValid(entry) && entry.paramsKey === keys.paramsKey && !!entry.requestEmbedding)
+        .toArray();
+      return this.findMostSimilar(candidates, keys.embeddingText);
+    }
+
+    return null;
+  }
+
   /**
    * 企業基本情報のキャッシュ保存
    */
   async setCompanyInfoCache(
-    cacheType: 'company-info' | 'mvv-extraction' | 'company-classification',
+    cacheType: CompanyCacheType,
     companyId: string,
     companyName: string,
     companyWebsite: string | undefined,
@@ -186,7 +362,7 @@ export class AICacheService {
     estimatedCost: number
   ): Promise<void> {
     try {
-      const requestHash = this.generateRequestHash(requestParams);
+      const keys = this.buildCompanyKeys(cacheType, companyName, companyWebsite, requestParams);
       
       // 有効期限設定（企業情報は7日間）
       const expiresAt = new Date();
@@ -198,7 +374,11 @@ export class AICacheService {
         companyWebsite,
         cacheType,
         apiEndpoint,
-        requestHash,
+        requestHash: keys.requestHash,
+        nameKey: keys.nameKey,
+        urlKey: keys.urlKey,
+        paramsKey: keys.paramsKey,
+        requestEmbedding: await this.embedForStorage(keys.embeddingText),
         responseData,
         expiresAt,
         estimatedCostSaved: estimatedCost
@@ -227,34 +407,18 @@ export class AICacheService {
     requestParams: any
   ): Promise<any | null> {
     try {
-      const requestHash = this.generateRequestHash(requestParams);
-      
-      const cached = await this.db.industryAnalysisCache
-        .where('[industry+analysisType+requestHash]')
-        .equals([industry, analysisType, requestHash])
-        .first();
-
-      if (!cached) {
-        this.stats.misses++;
-        await this.updateStats('miss', 'industryAnalysis');
-        return null;
-      }
-
-      // 有効期限チェック
-      if (new Date() > cached.expiresAt) {
-        await this.db.industryAnalysisCache.delete(cached.id);
-        this.stats.misses++;
-        await this.updateStats('miss', 'industryAnalysis');
-        return null;
-      }
+      const match = await this.findIndustryAnalysisCache(industry, analysisType, requestParams);
 
       // 信頼度チェック（0.7以上で再利用）
-      if (cached.confidence < 0.7) {
+      if (!match || match.entry.confidence < 0.7) {
         this.stats.misses++;
         await this.updateStats('miss', 'industryAnalysis');
+        this.recordLookup({ cacheKind: 'industryAnalysis', cacheType: analysisType, subject: industry, matchType: 'miss' });
         return null;
       }
 
+      const cached = match.entry;
+
       // ヒット記録
       await this.db.industryAnalysisCache.update(cached.id, {
         lastAccessed: new Date(),
@@ -263,9 +427,17 @@ export class AICacheService {
 
       this.stats.hits++;
       this.stats.totalSaved += cached.estimatedCostSaved;
-      await this.updateStats('hit', 'industryAnalysis', cached.estimatedCostSaved);
+      await this.updateStats('hit', 'industryAnalysis', cached.estimatedCostSaved, match.matchType);
+      this.recordLookup({
+        cacheKind: 'industryAnalysis',
+        cacheType: analysisType,
+        subject: industry,
+        matchType: match.matchType,
+        matchedSubject: cached.industry,
+        similarity: match.similarity
+      });
 
-      console.log(`🎯 Industry Cache HIT: ${industry}/${analysisType} (saved $${cached.estimatedCostSaved.toFixed(4)})`);
+      console.log(`🎯 Industry Cache HIT (${match.matchType}): ${industry}/${analysisType} (saved $${cached.estimatedCostSaved.toFixed(4)})`);
       return cached.responseData;
 
     } catch (error) {
@@ -274,6 +446,47 @@ export class AICacheService {
     }
   }
 
+  private async findIndustryAnalysisCache(
+    industry: string,
+    analysisType: string,
+    requestParams: Record<string, unknown>
+  ): Promise<CacheMatch<IndustryAnalysisCache> | null> {
+    const keys = this.buildIndustryKeys(industry, analysisType, requestParams);
+    const now = new Date();
+
+    const exact = await this.db.industryAnalysisCache
+      .where('[industry+analysisType+requestHash]')
+      .equals([industry, analysisType, keys.requestHash])
+      .first();
+
+    if (exact) {
+      if (now <= exact.expiresAt) {
+        return { entry: exact, matchType: 'exact' };
+      }
+      // 有効期限切れは削除
+      await this.db.industryAnalysisCache.delete(exact.id);
+    }
+
+    const isValid = (entry: IndustryAnalysisCache) => now <= entry.expiresAt;
+
+    if (this.semanticConfig.normalizeKeys) {
+      const normalized = await this.db.industryAnalysisCache.where('semanticKey').equals(keys.semanticKey).filter(isValid).first();
+      if (normalized) return { entry: normalized, matchType: 'normalized' };
+    }
+
+    if (this.semanticConfig.embeddingMatch) {
+      // パラメータが異なるエントリは分析の前提が変わるため対象外
+      const candidates = await this.db.industryAnalysisCache
+        .where('analysisType')
+        .equals(analysisType)
+        .filter(entry => isValid(entry) && entry.paramsKey === keys.paramsKey && !!entry.requestEmbedding)
+        .toArray();
+      return this.findMostSimilar(candidates, keys.embeddingText);
+    }
+
+    return null;
+  }
+
   /**
    * 業界分析キャッシュ保存
    */
@@ -286,7 +499,7 @@ export class AICacheService {
     confidence: number = 0.8
   ): Promise<void> {
     try {
-      const requestHash = this.generateRequestHash(requestParams);
+      const keys = this.buildIndustryKeys(industry, analysisType, requestParams);
       
       // 有効期限設定（業界分析は30日間）
       const expiresAt = new Date();
@@ -295,7 +508,10 @@ export class AICacheService {
       const cacheEntry: Partial<IndustryAnalysisCache> = {
         industry,
         analysisType,
-        requestHash,
+        requestHash: keys.requestHash,
+        semanticKey: keys.semanticKey,
+        paramsKey: keys.paramsKey,
+        requestEmbedding: await this.embedForStorage(keys.embeddingText),
         responseData,
         expiresAt,
         confidence,
@@ -311,17 +527,111 @@ export class AICacheService {
   }
 
   /**
-   * リクエストハッシュ生成
+   * リクエストハッシュ生成（キー順に依存しない完全一致用）
    */
   private generateRequestHash(params: any): string {
-    const normalized = JSON.stringify(params, Object.keys(params).sort());
-    return btoa(normalized).substring(0, 32);
+    return stableHash(params ?? {});
+  }
+
+  private buildCompanyKeys(
+    cacheType: CompanyCacheType,
+    companyName: string,
+    companyWebsite: string | undefined,
+    requestParams: Record<string, unknown>
+  ): CompanyCacheKeys {
+    const normalizedParams = normalizeRequestParams(requestParams ?? {});
+    const normalizedName = normalizeCompanyName(companyName);
+    const normalizedUrl = normalizeUrl(companyWebsite);
+
+    return {
+      requestHash: this.generateRequestHash(requestParams),
+      nameKey: stableHash([cacheType, normalizedName, normalizedParams]),
+      urlKey: normalizedUrl ? stableHash([cacheType, normalizedUrl, normalizedParams]) : undefined,
+      paramsKey: stableHash([cacheType, normalizedParams]),
+      embeddingText: [normalizedName, normalizedUrl, JSON.stringify(normalizedParams)].filter(Boolean).join('\n')
+    };
+  }
+
+  private buildIndustryKeys(industry: string, analysisType: string, requestParams: Record<string, unknown>) {
+    const normalizedParams = normalizeRequestParams(requestParams ?? {});
+    const normalizedIndustry = normalizeText(industry);
+
+    return {
+      requestHash: this.generateRequestHash(requestParams),
+      semanticKey: stableHash([analysisType, normalizedIndustry, normalizedParams]),
+      // 業界名はEmbeddingsの類似度で照合するため、パラメータに含まれていても絞り込みキーからは除く
+      paramsKey: stableHash([analysisType, normalizeRequestParams({ ...requestParams, industry: undefined })]),
+      embeddingText: [normalizedIndustry, JSON.stringify(normalizedParams)].join('\n')
+    };
+  }
+
+  /**
+   * Embeddings照合が有効な場合のみ、保存するエントリのEmbeddingsを生成
+   */
+  private async embedForStorage(text: string): Promise<number[] | undefined> {
+    if (!this.semanticConfig.embeddingMatch) return undefined;
+    try {
+      return await generateEmbeddings(text);
+    } catch (error) {
+      console.warn('Failed to generate cache request embedding:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * リクエスト内容のEmbeddingsが最も近く、しきい値以上のエントリを返す
+   */
+  private async findMostSimilar<T extends { requestEmbedding?: number[] }>(
+    candidates: T[],
+    text: string
+  ): Promise<CacheMatch<T> | null> {
+    if (candidates.length === 0) return null;
+
+    let embedding: number[];
+    try {
+      embedding = await generateEmbeddings(text);
+    } catch (error) {
+      console.warn('Failed to generate lookup embedding:', error);
+      return null;
+    }
+
+    let best: CacheMatch<T> | null = null;
+    for (const entry of candidates) {
+      if (!entry.requestEmbedding || entry.requestEmbedding.length !== embedding.length) continue;
+      const similarity = SimilarityCalculator.cosineSimilarity(embedding, entry.requestEmbedding);
+      if (similarity >= this.semanticConfig.similarityThreshold && similarity > (best?.similarity ?? -1)) {
+        best = { entry, matchType: 'embedding', similarity };
+      }
+    }
+    return best;
+  }
+
+  private recordLookup(record: Omit<CacheLookupRecord, 'timestamp'>): void {
+    this.recentLookups = [{ ...record, timestamp: Date.now() }, ...this.recentLookups]
+      .slice(0, CONSTANTS.SEMANTIC_CACHE.RECENT_LOOKUP_LIMIT);
+  }
+
+  private loadSemanticConfig(): SemanticCacheConfig {
+    try {
+      const stored = localStorage.getItem(CONSTANTS.SEMANTIC_CACHE.STORAGE_KEY);
+      return stored
+        ? { ...DEFAULT_SEMANTIC_CACHE_CONFIG, ...(JSON.parse(stored) as Partial<SemanticCacheConfig>) }
+        : DEFAULT_SEMANTIC_CACHE_CONFIG;
+    } catch (error) {
+      console.warn('Failed to load semantic cache config:', error);
+      return DEFAULT_SEMANTIC_CACHE_CONFIG;
+    }
   }
 
   /**
    * 統計更新
    */
-  private async updateStats(type: 'hit' | 'miss', cacheType: 'companyInfo' | 'industryAnalysis', costSaved?: number): Promise<void> {
+  private async updateStats(
+    type: 'hit' | 'miss',
+    cacheType: 'companyInfo' | 'industryAnalysis',
+    costSaved?: number,
+    matchType?: CacheMatchType
+  ): Promise<void> {
     try {
       const stats = await this.db.cacheStats.get('main');
       if (stats) {
@@ -334,6 +644,11 @@ export class AICacheService {
           if (costSaved) {
             updates.totalCostSaved = stats.totalCostSaved + costSaved;
           }
+          if (matchType) {
+            const hitsByMatch = { ...createEmptyMatchCounts(), ...stats.hitsByMatch };
+            hitsByMatch[matchType]++;
+            updates.hitsByMatch = hitsByMatch;
+          }
         } else {
           updates.totalMisses = stats.totalMisses + 1;
         }
@@ -364,6 +679,7 @@ export class AICacheService {
     companyInfoEntries: number;
     industryAnalysisEntries: number;
     oldestEntry: Date | null;
+    hitsByMatch: Record<CacheMatchType, number>;
   }> {
     try {
       const stats = await this.db.cacheStats.get('main');
@@ -391,7 +707,8 @@ export class AICacheService {
           totalSaved: 0,
           companyInfoEntries: companyInfoCount,
           industryAnalysisEntries: industryAnalysisCount,
-          oldestEntry
+          oldestEntry,
+          hitsByMatch: createEmptyMatchCounts()
         };
       }
 
@@ -403,7 +720,8 @@ export class AICacheService {
         totalSaved: stats.totalCostSaved,
         companyInfoEntries: companyInfoCount,
         industryAnalysisEntries: industryAnalysisCount,
-        oldestEntry
+        oldestEntry,
+        hitsByMatch: { ...createEmptyMatchCounts(), ...stats.hitsByMatch }
       };
 
     } catch (error) {
@@ -413,8 +731,38 @@ export class AICacheService {
         totalSaved: 0,
         companyInfoEntries: 0,
         industryAnalysisEntries: 0,
-        oldestEntry: null
+        oldestEntry: null,
+        hitsByMatch: createEmptyMatchCounts()
+      };
+    }
+  }
+
+  /**
+   * キャッシュ種別ごとの節約額（各エントリのヒット回数 × 1回あたりの推定コスト）
+   */
+  async getSavingsByType(): Promise<Array<{
+    cacheType: CompanyCacheType | 'industry-analysis';
+    entries: number;
+    hits: number;
+    saved: number;
+  }>> {
+    try {
+      const summary = new Map<CompanyCacheType | 'industry-analysis', { entries: number; hits: number; saved: number }>();
+      const add = (cacheType: CompanyCacheType | 'industry-analysis', hitCount: number, costPerHit: number) => {
+        const current = summary.get(cacheType) || { entries: 0, hits: 0, saved: 0 };
+        current.entries++;
+        current.hits += hitCount;
+        current.saved += hitCount * costPerHit;
+        summary.set(cacheType, current);
       };
+
+      await this.db.companyInfoCache.each(entry => add(entry.cacheType, entry.hitCount, entry.estimatedCostSaved));
+      await this.db.industryAnalysisCache.each(entry => add('industry-analysis', entry.hitCount, entry.estimatedCostSaved));
+
+      return Array.from(summary.entries()).map(([cacheType, values]) => ({ cacheType, ...values }));
+    } catch (error) {
+      console.error('Get cache savings error:', error);
+      return [];
     }
   }
 
@@ -465,6 +813,7 @@ export class AICacheService {
       await this.initializeStats();
       
       this.stats = { hits: 0, misses: 0, totalSaved: 0 };
+      this.recentLookups = [];
       
       console.log('🗑️ All cache cleared');
     } catch (error) {
@@ -0,0 +1,467 @@
+/**
+ * MVV分析の重い計算処理（類似度マトリックス・独自性スコア・ポジショニング投影）
+ * DOMに依存しない純粋な計算のみを置き、Web Worker とメインスレッドの両方から利用する
+ */
+
+import { SimilarityCalculator } from './similarityCalculator';
+import { enhancedSegmentationService } from './enhancedSegmentationService';
+import { segmentationDictionary } from './segmentationDictionary';
+import type { CompanyFieldEmbeddings } from '../types';
+
+/**
+ * 計算に必要な企業データ（Workerへ渡せるプレーンなオブジェクト）
+ */
+export interface ComputeCompany {
+  id: string;
+  name: string;
+  category: string;
+  mission?: string;
+  vision?: string;
+  values?: string | string[];
+  embeddings?: number[];
+  fieldEmbeddings?: CompanyFieldEmbeddings;
+}
+
+/**
+ * 類似度の算出方法
+ * - embedding: 埋め込みベクトルのコサイン類似度
+ * - enhanced: SimilarityCalculator.calculateEnhancedSimilarity（埋め込み + 形態素 + 業界ボーナス）
+ * - text: 複合語を保持した形態素解析キーワードのJaccard係数
+ */
+export type SimilarityMetric = 'embedding' | 'enhanced' | 'text';
+
+export type ComputePhase = 'similarity' | 'scoring' | 'projection' | 'discovery' | 'clustering' | 'explanation';
+
+export interface ComputeProgress {
+  phase: ComputePhase;
+  completed: number;
+  total: number;
+}
+
+export interface UniquenessScore {
+  companyId: string;
+  companyName: string;
+  category: string;
+  uniquenessScore: number;
+  avgSimilarity: number;
+  minSimilarity: number;
+  maxSimilarity: number;
+  similarCompaniesCount: number;
+  detailedScores?: {
+    baseUniqueness: number;
+    industryUniqueness: number;
+    crossIndustryUniqueness: number;
+    rarityScore: number;
+    avgSameIndustry: number;
+    avgDifferentIndustry: number;
+    industryZScore: number;
+  };
+}
+
+export interface CategoryUniquenessStats {
+  count: number;
+  avgUniqueness: number;
+  maxUniqueness: number;
+  minUniqueness: number;
+}
+
+export interface UniquenessResult {
+  uniquenessScores: UniquenessScore[];
+  categoryStats: Record<string, CategoryUniquenessStats>;
+  /** スコア算出済みの企業数（途中結果では全体より少ない） */
+  evaluatedCount: number;
+  totalCount: number;
+}
+
+export interface CompanyPosition {
+  id: string;
+  name: string;
+  category: string;
+  x: number;
+  y: number;
+  uniquenessScore: number;
+  clusterGroup: number;
+}
+
+export interface PositioningResult {
+  positions: CompanyPosition[];
+  /** 投影の反復が完了しているか（途中結果では false） */
+  isFinal: boolean;
+}
+
+/**
+ * 計算中の進捗通知・途中結果通知・キャンセル確認
+ */
+export interface ComputeContext<TPartial = unknown> {
+  reportProgress: (progress: ComputeProgress) => void;
+  reportPartial?: (partial: TPartial) => void;
+  isCancelled: () => boolean;
+}
+
+export class ComputeCancelledError extends Error {
+  constructor() {
+    super('計算がキャンセルされました');
+    this.name = 'AbortError';
+  }
+}
+
+const HIGH_SIMILARITY_THRESHOLD = 0.75;
+const SIMILAR_COMPANY_THRESHOLD = 0.8;
+const MDS_ITERATIONS = 30;
+/** 途中結果・進捗を通知する回数の目安（反復計算を何分割して通知するか） */
+export const PARTIAL_UPDATE_STEPS = 10;
+
+export const checkCancelled = (context: ComputeContext<never>) => {
+  if (context.isCancelled()) {
+    throw new ComputeCancelledError();
+  }
+};
+
+/**
+ * MVVテキストからキーワードを出現順に抽出（重複を含む）
+ * SimilarityCalculator と同じく、企業のJSIC大分類に対応する辞書プロファイルで分かち書きする
+ */
+export const extractMVVKeywords = (company: ComputeCompany): string[] => {
+  const values = Array.isArray(company.values) ? company.values : (company.values ? [company.values] : []);
+  const text = [company.mission || '', company.vision || '', ...values].join(' ').toLowerCase();
+
+  return enhancedSegmentationService.segmentWithCompounds(text, {
+    preserveCompounds: true,
+    enableCustomRules: true,
+    profileId: segmentationDictionary.getProfileIdForCategory(company.category)
+  }).segments.filter(w => w.length >= 2 && !/^[0-9]+$/.test(w) && !/^[ぁ-ん]+$/.test(w));
+};
+
+/**
+ * MVVテキストからJaccard用のキーワード集合を抽出
+ */
+export const extractMVVKeywordSet = (company: ComputeCompany): Set<string> => new Set(extractMVVKeywords(company));
+
+const jaccardSimilarity = (a: Set<string>, b: Set<string>): number => {
+  let intersection = 0;
+  a.forEach(word => {
+    if (b.has(word)) intersection++;
+  });
+  const union = a.size + b.size - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+/**
+ * 類似度マトリックスを行単位で計算
+ * 行 i の計算が終わった時点で 0..i 行目は確定している（対称性を利用）
+ */
+export const computeSimilarityMatrix = (
+  companies: ComputeCompany[],
+  metric: SimilarityMetric,
+  context: ComputeContext<never>,
+  onRowsCompleted?: (completedRows: number, matrix: number[][]) => void
+): number[][] => {
+  const n = companies.length;
+  const matrix: number[][] = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  // テキスト類似度は企業ごとに一度だけ形態素解析する
+  const keywordSets = metric === 'text' ? companies.map(extractMVVKeywordSet) : [];
+
+  const similarity = (i: number, j: number): number => {
+    switch (metric) {
+      case 'embedding':
+        return SimilarityCalculator.cosineSimilarity(companies[i].embeddings!, companies[j].embeddings!);
+      case 'enhanced':
+        return SimilarityCalculator.calculateEnhancedSimilarity(companies[i], companies[j]);
+      case 'text':
+        return jaccardSimilarity(keywordSets[i], keywordSets[j]);
+    }
+  };
+
+  const updateInterval = Math.max(1, Math.floor(n / PARTIAL_UPDATE_STEPS));
+
+  for (let i = 0; i < n; i++) {
+    checkCancelled(context);
+
+    for (let j = i + 1; j < n; j++) {
+      const value = similarity(i, j);
+      matrix[i][j] = value;
+      matrix[j][i] = value;
+    }
+    matrix[i][i] = 1.0;
+
+    context.reportProgress({ phase: 'similarity', completed: i + 1, total: n });
+    if (onRowsCompleted && ((i + 1) % updateInterval === 0 || i === n - 1)) {
+      onRowsCompleted(i + 1, matrix);
+    }
+  }
+
+  return matrix;
+};
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * 類似度マトリックスから独自性スコアを算出
+ * evaluatedCount を指定した場合は先頭 evaluatedCount 社（行が確定済みの企業）のみを対象にする
+ */
+export const buildUniquenessScores = (
+  companies: ComputeCompany[],
+  similarityMatrix: number[][],
+  evaluatedCount: number = companies.length
+): UniquenessResult => {
+  const evaluated = companies.slice(0, evaluatedCount);
+  const otherSimilarities = (index: number) => similarityMatrix[index].filter((_, i) => i !== index);
+  const avgSimilarities = evaluated.map((_, index) => average(otherSimilarities(index)));
+
+  // 業界ごとの類似度統計（平均・標準偏差）を事前計算
+  const categorySimStats = new Map<string, { avgSim: number; stdDev: number; count: number }>();
+
+  evaluated.forEach((company, index) => {
+    const category = company.category || '未分類';
+    if (!categorySimStats.has(category)) {
+      categorySimStats.set(category, { avgSim: 0, stdDev: 0, count: 0 });
+    }
+    const stats = categorySimStats.get(category)!;
+    stats.avgSim += avgSimilarities[index];
+    stats.count++;
+  });
+
+  categorySimStats.forEach((stats) => {
+    stats.avgSim /= stats.count;
+  });
+
+  evaluated.forEach((company, index) => {
+    const stats = categorySimStats.get(company.category || '未分類')!;
+    stats.stdDev += Math.pow(avgSimilarities[index] - stats.avgSim, 2);
+  });
+
+  categorySimStats.forEach((stats) => {
+    stats.stdDev = Math.sqrt(stats.stdDev / stats.count);
+  });
+
+  const scores: UniquenessScore[] = evaluated.map((company, index) => {
+    const similarities = otherSimilarities(index);
+    const avgSimilarity = avgSimilarities[index];
+    const maxSimilarity = Math.max(...similarities);
+    const minSimilarity = Math.min(...similarities);
+
+    // 業界内・外類似度の分離計算
+    const targetCategory = company.category || '未分類';
+    const sameIndustrySimilarities: number[] = [];
+    const differentIndustrySimilarities: number[] = [];
+    companies.forEach((other, i) => {
+      if (other.category === targetCategory && other.id !== company.id) {
+        sameIndustrySimilarities.push(similarityMatrix[index][i]);
+      } else if (other.category !== targetCategory) {
+        differentIndustrySimilarities.push(similarityMatrix[index][i]);
+      }
+    });
+
+    const avgSameIndustry = average(sameIndustrySimilarities);
+    const avgDifferentIndustry = average(differentIndustrySimilarities);
+
+    // 1. 基本独自性（全体平均との差）
+    const baseUniqueness = 1 - avgSimilarity;
+
+    // 2. 業界相対独自性（業界内での立ち位置）
+    const categoryStats = categorySimStats.get(targetCategory);
+    const industryZScore = categoryStats && categoryStats.stdDev > 0
+      ? (categoryStats.avgSim - avgSimilarity) / categoryStats.stdDev
+      : 0;
+    const industryUniqueness = Math.max(0, Math.min(1, (industryZScore + 3) / 6)); // -3σ～+3σを0～1に正規化
+
+    // 3. クロス業界独自性（業界間類似度から計算）
+    const crossIndustryUniqueness = avgDifferentIndustry > 0 ? 1 - avgDifferentIndustry : 0;
+
+    // 4. 類似企業希少性（高類似企業の少なさ）
+    const highSimilarCompaniesCount = similarities.filter(sim => sim > HIGH_SIMILARITY_THRESHOLD).length;
+    const rarityScore = Math.max(0, 1 - (highSimilarCompaniesCount / Math.max(companies.length - 1, 1)));
+
+    // 総合独自性スコア（重み付き平均）
+    const uniquenessScore = (
+      baseUniqueness * 0.3 +           // 30%: 基本独自性
+      industryUniqueness * 0.4 +       // 40%: 業界相対独自性
+      crossIndustryUniqueness * 0.2 +  // 20%: クロス業界独自性
+      rarityScore * 0.1                // 10%: 希少性
+    );
+
+    return {
+      companyId: company.id,
+      companyName: company.name,
+      category: company.category,
+      uniquenessScore: Math.max(0, Math.min(1, uniquenessScore)),
+      avgSimilarity,
+      minSimilarity,
+      maxSimilarity,
+      similarCompaniesCount: similarities.filter(sim => sim > SIMILAR_COMPANY_THRESHOLD).length,
+      detailedScores: {
+        baseUniqueness,
+        industryUniqueness,
+        crossIndustryUniqueness,
+        rarityScore,
+        avgSameIndustry,
+        avgDifferentIndustry,
+        industryZScore
+      }
+    };
+  });
+
+  // カテゴリ別統計
+  const categoryStats = scores.reduce<Record<string, CategoryUniquenessStats>>((acc, score) => {
+    const stats = acc[score.category] ??= {
+      count: 0,
+      avgUniqueness: 0,
+      maxUniqueness: 0,
+      minUniqueness: 1
+    };
+    stats.count++;
+    stats.avgUniqueness += score.uniquenessScore;
+    stats.maxUniqueness = Math.max(stats.maxUniqueness, score.uniquenessScore);
+    stats.minUniqueness = Math.min(stats.minUniqueness, score.uniquenessScore);
+    return acc;
+  }, {});
+
+  Object.values(categoryStats).forEach(stats => {
+    stats.avgUniqueness /= stats.count;
+  });
+
+  return {
+    uniquenessScores: scores.sort((a, b) => b.uniquenessScore - a.uniquenessScore),
+    categoryStats,
+    evaluatedCount,
+    totalCount: companies.length
+  };
+};
+
+/**
+ * 独自性スコア計算（類似度マトリックスの確定行ごとに途中結果を通知）
+ */
+export const computeUniqueness = (
+  companies: ComputeCompany[],
+  context: ComputeContext<UniquenessResult>
+): UniquenessResult => {
+  const matrix = computeSimilarityMatrix(companies, 'embedding', context, (completedRows, partialMatrix) => {
+    if (completedRows < companies.length) {
+      context.reportPartial?.(buildUniquenessScores(companies, partialMatrix, completedRows));
+    }
+  });
+
+  checkCancelled(context);
+  context.reportProgress({ phase: 'scoring', completed: 0, total: 1 });
+  const result = buildUniquenessScores(companies, matrix);
+  context.reportProgress({ phase: 'scoring', completed: 1, total: 1 });
+  return result;
+};
+
+/**
+ * 座標を[-80, 80]の範囲に正規化したコピーを返す
+ */
+export const normalizePositions = (positions: CompanyPosition[]): CompanyPosition[] => {
+  const allX = positions.map(p => p.x).filter(x => isFinite(x));
+  const allY = positions.map(p => p.y).filter(y => isFinite(y));
+  if (allX.length === 0 || allY.length === 0) return positions.map(p => ({ ...p }));
+
+  const minX = Math.min(...allX);
+  const maxX = Math.max(...allX);
+  const minY = Math.min(...allY);
+  const maxY = Math.max(...allY);
+  const rangeX = maxX - minX;
+  const rangeY = maxY - minY;
+
+  return positions.map(pos => {
+    if (rangeX > 0 && rangeY > 0 && isFinite(pos.x) && isFinite(pos.y)) {
+      return {
+        ...pos,
+        x: ((pos.x - minX) / rangeX - 0.5) * 160,
+        y: ((pos.y - minY) / rangeY - 0.5) * 160
+      };
+    }
+    return { ...pos };
+  });
+};
+
+/**
+ * 簡易MDS（ストレス最小化）による2次元配置
+ * onIteration には正規化済みの途中配置が渡される
+ */
+export const performMDS = (
+  distanceMatrix: number[][],
+  companies: ComputeCompany[],
+  context: ComputeContext<never>,
+  onIteration?: (positions: CompanyPosition[], iteration: number) => void
+): CompanyPosition[] => {
+  const n = companies.length;
+
+  if (n === 0 || !distanceMatrix || distanceMatrix.length !== n) {
+    console.warn('Invalid data for MDS calculation');
+    return [];
+  }
+
+  // 初期配置（円形、決定論的、スケール調整）
+  const positions: CompanyPosition[] = companies.map((company, i) => {
+    const angle = (2 * Math.PI * i) / n;
+    const radius = 10 + (i % 3) * 5;
+    return {
+      id: company.id,
+      name: company.name,
+      category: company.category || '未分類',
+      x: radius * Math.cos(angle),
+      y: radius * Math.sin(angle),
+      uniquenessScore: 0,
+      clusterGroup: 0
+    };
+  });
+
+  // ストレス最小化（安定化版）
+  const learningRate = 0.05;
+  const minDistance = 0.1;
+  const maxCoord = 200;
+  const notifyInterval = Math.max(1, Math.floor(MDS_ITERATIONS / PARTIAL_UPDATE_STEPS));
+
+  for (let iter = 0; iter < MDS_ITERATIONS; iter++) {
+    checkCancelled(context);
+
+    for (let i = 0; i < n; i++) {
+      let forceX = 0;
+      let forceY = 0;
+
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+
+        const dx = positions[i].x - positions[j].x;
+        const dy = positions[i].y - positions[j].y;
+        const currentDistance = Math.max(minDistance, Math.sqrt(dx * dx + dy * dy));
+        const targetDistance = Math.max(minDistance, distanceMatrix[i][j] * 50);
+
+        if (!isFinite(currentDistance) || !isFinite(targetDistance) || currentDistance === 0) {
+          continue;
+        }
+
+        const force = (currentDistance - targetDistance) / currentDistance;
+        const dampedForce = Math.max(-0.1, Math.min(0.1, force));
+
+        forceX += dampedForce * dx * learningRate;
+        forceY += dampedForce * dy * learningRate;
+      }
+
+      if (isFinite(forceX) && isFinite(forceY)) {
+        positions[i].x = Math.max(-maxCoord, Math.min(maxCoord, positions[i].x - forceX));
+        positions[i].y = Math.max(-maxCoord, Math.min(maxCoord, positions[i].y - forceY));
+      }
+    }
+
+    context.reportProgress({ phase: 'projection', completed: iter + 1, total: MDS_ITERATIONS });
+    if (onIteration && (iter + 1) % notifyInterval === 0 && iter < MDS_ITERATIONS - 1) {
+      onIteration(normalizePositions(positions), iter + 1);
+    }
+  }
+
+  const validCount = positions.filter(p => isFinite(p.x) && isFinite(p.y)).length;
+  if (validCount === 0) {
+    // 全て無効な座標の場合は単純な円形配置にフォールバック
+    console.warn('⚠️ MDS座標が無効 - 円形配置にフォールバック');
+    return positions.map((pos, index) => {
+      const angle = (2 * Math.PI * index) / n;
+      return { ...pos, x: 50 * Math.cos(angle), y: 50 * Math.sin(angle) };
+    });
+  }
+
+  return normalizePositions(positions);
+};
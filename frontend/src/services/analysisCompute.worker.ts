@@ -0,0 +1,34 @@
+/**
+ * MVV分析計算用 Web Worker
+ * メインスレッドから受け取った計算リクエストを実行し、進捗・途中結果・最終結果を返す
+ * キャンセルはメインスレッド側で Worker を terminate して行う
+ */
+
+import { runComputeRequest, type ComputeRequest, type ComputeWorkerMessage } from './analysisComputeProtocol';
+import { segmentationDictionary } from './segmentationDictionary';
+
+const post = (message: ComputeWorkerMessage) => {
+  self.postMessage(message);
+};
+
+self.addEventListener('message', async (event: MessageEvent<ComputeRequest>) => {
+  const request = event.data;
+
+  try {
+    // ユーザー編集済みの形態素解析辞書を読み込んでから計算する
+    await segmentationDictionary.load();
+
+    const result = runComputeRequest(request, {
+      reportProgress: (progress) => post({ id: request.id, type: 'progress', progress }),
+      reportPartial: (partial) => post({ id: request.id, type: 'partial', result: partial }),
+      isCancelled: () => false
+    });
+    post({ id: request.id, type: 'result', result });
+  } catch (error) {
+    post({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
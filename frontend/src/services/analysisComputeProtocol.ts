@@ -0,0 +1,48 @@
+/**
+ * 分析計算 Worker とのメッセージ定義
+ * Worker とメインスレッドのフォールバック実行で同じディスパッチ処理を共有する
+ */
+
+import {
+  computeSimilarityMatrix,
+  computeUniqueness,
+  type ComputeCompany,
+  type ComputeContext,
+  type ComputeProgress,
+  type SimilarityMetric
+} from './analysisCompute';
+import { discoverCompoundCandidates, type CompoundDiscoveryOptions } from './compoundTermDiscovery';
+import { discoverClusters, type ClusteringOptions } from './mvvClustering';
+import { computePositioning, type ProjectionOptions } from './mvvProjection';
+import { explainUniqueness, type UniquenessExplanationOptions } from './uniquenessExplanation';
+
+export type ComputeRequest =
+  | { id: number; type: 'uniqueness'; companies: ComputeCompany[] }
+  | { id: number; type: 'positioning'; companies: ComputeCompany[]; options: ProjectionOptions }
+  | { id: number; type: 'similarityMatrix'; companies: ComputeCompany[]; metric: SimilarityMetric }
+  | { id: number; type: 'compoundDiscovery'; companies: ComputeCompany[]; options: CompoundDiscoveryOptions }
+  | { id: number; type: 'clustering'; companies: ComputeCompany[]; options: ClusteringOptions }
+  | { id: number; type: 'uniquenessExplanation'; companies: ComputeCompany[]; companyId: string; options: UniquenessExplanationOptions };
+
+export type ComputeWorkerMessage =
+  | { id: number; type: 'progress'; progress: ComputeProgress }
+  | { id: number; type: 'partial'; result: unknown }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+export const runComputeRequest = (request: ComputeRequest, context: ComputeContext<unknown>): unknown => {
+  switch (request.type) {
+    case 'uniqueness':
+      return computeUniqueness(request.companies, context);
+    case 'positioning':
+      return computePositioning(request.companies, context, request.options);
+    case 'similarityMatrix':
+      return computeSimilarityMatrix(request.companies, request.metric, context);
+    case 'compoundDiscovery':
+      return discoverCompoundCandidates(request.companies, context, request.options);
+    case 'clustering':
+      return discoverClusters(request.companies, context, request.options);
+    case 'uniquenessExplanation':
+      return explainUniqueness(request.companies, request.companyId, context, request.options);
+  }
+};
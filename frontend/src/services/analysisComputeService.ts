@@ -0,0 +1,264 @@
+/**
+ * Worker-backed compute service for MVV analysis
+ * Runs O(n²) similarity / uniqueness / positioning calculations and corpus statistics off the main thread
+ * with progress reporting, progressive partial results and cancellation
+ */
+
+import { runComputeRequest, type ComputeRequest, type ComputeWorkerMessage } from './analysisComputeProtocol';
+import {
+  ComputeCancelledError,
+  type ComputeCompany,
+  type ComputeProgress,
+  type PositioningResult,
+  type SimilarityMetric,
+  type UniquenessResult
+} from './analysisCompute';
+import {
+  DEFAULT_COMPOUND_DISCOVERY_OPTIONS,
+  type CompoundDiscoveryOptions,
+  type CompoundDiscoveryResult
+} from './compoundTermDiscovery';
+import {
+  DEFAULT_CLUSTERING_OPTIONS,
+  type ClusteringOptions,
+  type ClusteringResult
+} from './mvvClustering';
+import { DEFAULT_PROJECTION_OPTIONS, type ProjectionOptions } from './mvvProjection';
+import {
+  DEFAULT_UNIQUENESS_EXPLANATION_OPTIONS,
+  type UniquenessExplanation,
+  type UniquenessExplanationOptions
+} from './uniquenessExplanation';
+import type { CompanyFieldEmbeddings } from '../types';
+
+export interface ComputeCallbacks<TPartial> {
+  onProgress?: (progress: ComputeProgress) => void;
+  onPartial?: (partial: TPartial) => void;
+}
+
+export interface ComputeHandle<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * 企業データを Worker に渡せる最小限のプレーンオブジェクトへ変換
+ */
+export const toComputeCompany = (company: {
+  id: string;
+  name: string;
+  category?: string;
+  mission?: string;
+  vision?: string;
+  values?: string | string[];
+  embeddings?: number[];
+  fieldEmbeddings?: CompanyFieldEmbeddings;
+}): ComputeCompany => ({
+  id: company.id,
+  name: company.name,
+  category: company.category || '未分類',
+  mission: company.mission,
+  vision: company.vision,
+  values: company.values,
+  embeddings: company.embeddings,
+  fieldEmbeddings: company.fieldEmbeddings
+});
+
+/**
+ * フェーズごとの進捗を0〜1の全体進捗に換算（各フェーズを等分とみなす）
+ */
+export const toOverallProgress = (progress: ComputeProgress, phases: ComputeProgress['phase'][]): number => {
+  const phaseIndex = Math.max(0, phases.indexOf(progress.phase));
+  const phaseProgress = progress.total > 0 ? progress.completed / progress.total : 1;
+  return (phaseIndex + phaseProgress) / phases.length;
+};
+
+export class AnalysisComputeService {
+  private nextRequestId = 1;
+
+  /**
+   * Web Worker が利用可能か（テスト環境や古いブラウザではメインスレッドで実行）
+   */
+  public isWorkerSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * 独自性スコアを計算（確定した企業から順に途中結果を通知）
+   */
+  public computeUniqueness(
+    companies: ComputeCompany[],
+    callbacks: ComputeCallbacks<UniquenessResult> = {}
+  ): ComputeHandle<UniquenessResult> {
+    return this.run({ type: 'uniqueness', companies }, callbacks);
+  }
+
+  /**
+   * 競合ポジショニング（MDS・PCA・t-SNE・UMAP方式の投影）を計算（反復途中の配置を途中結果として通知）
+   */
+  public computePositioning(
+    companies: ComputeCompany[],
+    options: Partial<ProjectionOptions> = {},
+    callbacks: ComputeCallbacks<PositioningResult> = {}
+  ): ComputeHandle<PositioningResult> {
+    return this.run(
+      { type: 'positioning', companies, options: { ...DEFAULT_PROJECTION_OPTIONS, ...options } },
+      callbacks
+    );
+  }
+
+  /**
+   * 類似度マトリックスを計算
+   */
+  public computeSimilarityMatrix(
+    companies: ComputeCompany[],
+    metric: SimilarityMetric,
+    callbacks: ComputeCallbacks<never> = {}
+  ): ComputeHandle<number[][]> {
+    return this.run({ type: 'similarityMatrix', companies, metric }, callbacks);
+  }
+
+  /**
+   * 全企業のMVVテキストから複合語候補を抽出（n-gramのPMI・分岐エントロピー）
+   */
+  public computeCompoundCandidates(
+    companies: ComputeCompany[],
+    options: Partial<CompoundDiscoveryOptions> = {},
+    callbacks: ComputeCallbacks<never> = {}
+  ): ComputeHandle<CompoundDiscoveryResult> {
+    return this.run(
+      { type: 'compoundDiscovery', companies, options: { ...DEFAULT_COMPOUND_DISCOVERY_OPTIONS, ...options } },
+      callbacks
+    );
+  }
+
+  /**
+   * 埋め込みベクトルによるクラスタリング（k-means / 密度ベース）とキーワードラベル付け
+   */
+  public computeClusters(
+    companies: ComputeCompany[],
+    options: Partial<ClusteringOptions> = {},
+    callbacks: ComputeCallbacks<never> = {}
+  ): ComputeHandle<ClusteringResult> {
+    return this.run(
+      { type: 'clustering', companies, options: { ...DEFAULT_CLUSTERING_OPTIONS, ...options } },
+      callbacks
+    );
+  }
+
+  /**
+   * 指定企業の独自性の根拠（近傍・遠方企業、珍しいキーワード、項目別の距離）を分析
+   */
+  public explainUniqueness(
+    companies: ComputeCompany[],
+    companyId: string,
+    options: Partial<UniquenessExplanationOptions> = {},
+    callbacks: ComputeCallbacks<never> = {}
+  ): ComputeHandle<UniquenessExplanation> {
+    return this.run(
+      { type: 'uniquenessExplanation', companies, companyId, options: { ...DEFAULT_UNIQUENESS_EXPLANATION_OPTIONS, ...options } },
+      callbacks
+    );
+  }
+
+  private run<T, TPartial>(
+    request: DistributiveOmit<ComputeRequest, 'id'>,
+    callbacks: ComputeCallbacks<TPartial>
+  ): ComputeHandle<T> {
+    const fullRequest = { ...request, id: this.nextRequestId++ } as ComputeRequest;
+    return this.isWorkerSupported()
+      ? this.runInWorker<T, TPartial>(fullRequest, callbacks)
+      : this.runOnMainThread<T, TPartial>(fullRequest, callbacks);
+  }
+
+  private runInWorker<T, TPartial>(
+    request: ComputeRequest,
+    callbacks: ComputeCallbacks<TPartial>
+  ): ComputeHandle<T> {
+    // リクエストごとに専用Workerを起動し、キャンセル時は terminate で即座に停止する
+    const worker = new Worker(new URL('./analysisCompute.worker.ts', import.meta.url), { type: 'module' });
+    let settled = false;
+    let rejectPromise: (reason: unknown) => void = () => {};
+
+    const promise = new Promise<T>((resolve, reject) => {
+      rejectPromise = reject;
+
+      worker.addEventListener('message', (event: MessageEvent<ComputeWorkerMessage>) => {
+        const message = event.data;
+        if (settled || message.id !== request.id) return;
+
+        switch (message.type) {
+          case 'progress':
+            callbacks.onProgress?.(message.progress);
+            break;
+          case 'partial':
+            callbacks.onPartial?.(message.result as TPartial);
+            break;
+          case 'result':
+            settled = true;
+            worker.terminate();
+            resolve(message.result as T);
+            break;
+          case 'error':
+            settled = true;
+            worker.terminate();
+            reject(new Error(message.message));
+            break;
+        }
+      });
+
+      worker.addEventListener('error', (event) => {
+        if (settled) return;
+        settled = true;
+        worker.terminate();
+        reject(new Error(event.message || 'Analysis worker failed'));
+      });
+
+      worker.postMessage(request);
+    });
+
+    return {
+      promise,
+      cancel: () => {
+        if (settled) return;
+        settled = true;
+        worker.terminate();
+        rejectPromise(new ComputeCancelledError());
+      }
+    };
+  }
+
+  private runOnMainThread<T, TPartial>(
+    request: ComputeRequest,
+    callbacks: ComputeCallbacks<TPartial>
+  ): ComputeHandle<T> {
+    let cancelled = false;
+
+    const promise = new Promise<T>((resolve, reject) => {
+      // 呼び出し元のレンダリングを先に終わらせる
+      setTimeout(() => {
+        try {
+          const result = runComputeRequest(request, {
+            reportProgress: (progress) => callbacks.onProgress?.(progress),
+            reportPartial: (partial) => callbacks.onPartial?.(partial as TPartial),
+            isCancelled: () => cancelled
+          });
+          resolve(result as T);
+        } catch (error) {
+          reject(error);
+        }
+      }, 0);
+    });
+
+    return {
+      promise,
+      cancel: () => {
+        cancelled = true;
+      }
+    };
+  }
+}
+
+export const analysisComputeService = new AnalysisComputeService();
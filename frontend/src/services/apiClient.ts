@@ -11,6 +11,7 @@ import type {
 import { CONSTANTS } from '../utils/constants';
 import { AppError, logError } from './errorHandler';
 import { aiCacheService } from './aiCacheService';
+import { apiLoggerService, type ApiLogEntry } from './apiLogger';
 
 class ApiClient {
   private client: AxiosInstance;
@@ -137,6 +138,14 @@ class ApiClient {
   }
 
   private async request<T>(config: AxiosRequestConfig): Promise<T> {
+    const response = await this.requestEnvelope<T>(config);
+    return response.data as T;
+  }
+
+  /**
+   * レスポンス全体（data以外のmetadataを含む）を返すリクエスト
+   */
+  private async requestEnvelope<T>(config: AxiosRequestConfig): Promise<ApiResponse<T>> {
     try {
       const response = await this.client.request<ApiResponse<T>>(config);
       
@@ -148,18 +157,26 @@ class ApiClient {
         );
       }
 
-      return response.data.data as T;
+      return response.data;
     } catch (error) {
       throw error;
     }
   }
 
   private async requestWithRetry<T>(config: AxiosRequestConfig, retries = CONSTANTS.MAX_RETRIES): Promise<T> {
+    const response = await this.requestEnvelopeWithRetry<T>(config, retries);
+    return response.data as T;
+  }
+
+  private async requestEnvelopeWithRetry<T>(
+    config: AxiosRequestConfig,
+    retries = CONSTANTS.MAX_RETRIES
+  ): Promise<ApiResponse<T>> {
     let lastError: any;
     
     for (let attempt = 0; attempt <= retries; attempt++) {
       try {
-        return await this.request<T>(config);
+        return await this.requestEnvelope<T>(config);
       } catch (error: any) {
         lastError = error;
         
@@ -181,6 +198,49 @@ class ApiClient {
     throw lastError;
   }
 
+  /**
+   * 課金対象の呼び出しを推定コスト付きでAPIログに記録して実行
+   * 予算の利用額集計に反映するため、コストは呼び出し開始時点で計上し、
+   * レスポンスに利用量（トークン数・コスト・モデル）が含まれていれば完了時にその実績値で上書きする
+   */
+  private async requestWithUsageLog<T>(
+    config: AxiosRequestConfig,
+    operationType: ApiLogEntry['metadata']['operationType'],
+    companyId: string,
+    estimatedCost: number
+  ): Promise<ApiResponse<T>> {
+    const logId = await apiLoggerService.logRequest(
+      config.url || '',
+      config.method?.toUpperCase() || 'POST',
+      `${CONSTANTS.API_BASE_URL}${config.url}`,
+      { 'Content-Type': 'application/json' },
+      config.data,
+      {
+        companyId,
+        operationType,
+        costTracking: { estimatedCost, tokensUsed: 0, model: 'sonar-pro' }
+      }
+    );
+    const requestStart = Date.now();
+
+    try {
+      const response = await this.requestEnvelopeWithRetry<T>(config);
+      await apiLoggerService.logResponse(logId, 200, 'OK', {}, response, requestStart);
+      return response;
+    } catch (error) {
+      await apiLoggerService.logResponse(
+        logId,
+        0,
+        error instanceof AppError ? error.code : 'ERROR',
+        {},
+        null,
+        requestStart,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+
   // Health check
   async healthCheck(): Promise<{ status: string; timestamp: string }> {
     return this.request({
@@ -207,7 +267,8 @@ class ApiClient {
       'mvv-extraction',
       companyId,
       companyName,
-      otherParams
+      otherParams,
+      companyWebsite
     );
 
     if (cachedResult) {
@@ -216,13 +277,15 @@ class ApiClient {
     }
 
     // APIリクエスト実行
-    const result = await this.requestWithRetry({
+    const estimatedCost = CONSTANTS.BUDGET.DEFAULT_CALL_COSTS['extract-mvv'];
+    const response = await this.requestWithUsageLog<MVVExtractionResponse['data']>({
       method: 'POST',
       url: '/extract-mvv-perplexity',
       data: request
-    });
+    }, 'extract-mvv', companyId, estimatedCost);
+    const result = response.data;
 
-    // キャッシュに保存（推定コスト: $0.011）
+    // キャッシュに保存
     await aiCacheService.setCompanyInfoCache(
       'mvv-extraction',
       companyId,
@@ -231,7 +294,7 @@ class ApiClient {
       otherParams,
       result,
       '/extract-mvv-perplexity',
-      0.011
+      response.metadata?.estimatedCost ?? estimatedCost
     );
 
     return result as MVVExtractionResponse['data'];
@@ -267,7 +330,8 @@ class ApiClient {
       'company-info',
       companyId,
       companyName,
-      otherParams
+      otherParams,
+      companyWebsite
     );
 
     if (cachedResult) {
@@ -276,13 +340,15 @@ class ApiClient {
     }
 
     // APIリクエスト実行
-    const result = await this.requestWithRetry({
+    const estimatedCost = CONSTANTS.BUDGET.DEFAULT_CALL_COSTS['extract-company-info'];
+    const response = await this.requestWithUsageLog<CompanyInfoExtractionResponse['data']>({
       method: 'POST',
       url: '/extract-company-info',
       data: request
-    });
+    }, 'extract-company-info', companyId, estimatedCost);
+    const result = response.data;
 
-    // キャッシュに保存（推定コスト: $0.011）
+    // キャッシュに保存
     await aiCacheService.setCompanyInfoCache(
       'company-info',
       companyId,
@@ -291,7 +357,7 @@ class ApiClient {
       otherParams,
       result,
       '/extract-company-info',
-      0.011
+      response.metadata?.estimatedCost ?? estimatedCost
     );
 
     return result as CompanyInfoExtractionResponse['data'];
@@ -306,7 +372,8 @@ class ApiClient {
       'company-classification',
       companyId,
       companyName,
-      otherParams
+      otherParams,
+      companyWebsite
     );
 
     if (cachedResult) {
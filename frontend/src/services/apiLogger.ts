@@ -103,8 +103,22 @@ class ApiLogDatabase extends Dexie {
   }
 }
 
+/**
+ * ログ1件の書き込みによる推定コストの変化（予算の利用額を差分で更新するために通知する）
+ */
+export interface ApiLogCostChange {
+  timestamp: number;
+  operationType: ApiLogEntry['metadata']['operationType'];
+  previousCost: number;
+  cost: number;
+}
+
+// change が無い通知は、複数ログにまたがる変更など差分を特定できない更新
+type ApiLogListener = (change?: ApiLogCostChange) => void;
+
 export class ApiLoggerService {
   private db: ApiLogDatabase;
+  private listeners = new Set<ApiLogListener>();
   private readonly MAX_BODY_SIZE = 100 * 1024; // 100KB max body size
 
   constructor() {
@@ -138,6 +152,12 @@ export class ApiLoggerService {
           }
         : body;
 
+      const logMetadata: ApiLogEntry['metadata'] = {
+        userAgent: navigator.userAgent,
+        operationType: this.determineOperationType(endpoint),
+        ...metadata
+      };
+
       const logEntry: Partial<ApiLogEntry> = {
         id: logId,
         timestamp: requestStart,
@@ -148,17 +168,19 @@ export class ApiLoggerService {
           headers: this.sanitizeHeaders(headers),
           body: truncatedBody
         },
-        metadata: {
-          userAgent: navigator.userAgent,
-          operationType: this.determineOperationType(endpoint),
-          ...metadata
-        },
+        metadata: logMetadata,
         tags: [],
         archived: false
       };
 
       // テンポラリーエントリを保存（レスポンス待ち）
       await this.db.logs.add(logEntry as ApiLogEntry);
+      this.notify({
+        timestamp: requestStart,
+        operationType: logMetadata.operationType,
+        previousCost: 0,
+        cost: logMetadata.costTracking?.estimatedCost ?? 0
+      });
       
       return logId;
     } catch (error) {
@@ -216,30 +238,56 @@ export class ApiLoggerService {
         };
       }
 
-      // コスト情報を抽出（既存のmetadataとマージ）
-      if (responseBody?.data?.metadata) {
-        const metadata = responseBody.data.metadata;
-        if (metadata.estimatedCost || metadata.totalCost) {
-          const existingLog = await this.db.logs.get(logId);
-          if (existingLog) {
-            updates.metadata = {
-              ...existingLog.metadata,
-              costTracking: {
-                estimatedCost: metadata.estimatedCost || metadata.totalCost || 0,
-                tokensUsed: metadata.tokensUsed || metadata.totalTokens || 0,
-                model: metadata.model || 'unknown'
-              }
-            };
-          }
+      // コスト情報を抽出（レスポンス直下またはdata配下のmetadata、既存のmetadataとマージ）
+      const existingLog = await this.db.logs.get(logId);
+      const metadata = [responseBody?.metadata, responseBody?.data?.metadata]
+        .find(candidate => candidate?.estimatedCost || candidate?.totalCost);
+      if (metadata) {
+        if (existingLog) {
+          updates.metadata = {
+            ...existingLog.metadata,
+            costTracking: {
+              estimatedCost: metadata.estimatedCost || metadata.totalCost || 0,
+              tokensUsed: metadata.tokensUsed || metadata.totalTokens || 0,
+              model: metadata.model || 'unknown'
+            }
+          };
+        }
+      } else if (error) {
+        // 失敗した呼び出しはリクエスト時に記録した推定コストを予算に計上しない
+        if (existingLog?.metadata.costTracking) {
+          updates.metadata = {
+            ...existingLog.metadata,
+            costTracking: { ...existingLog.metadata.costTracking, estimatedCost: 0, tokensUsed: 0 }
+          };
         }
       }
 
       await this.db.logs.update(logId, updates);
+      if (existingLog) {
+        const previousCost = existingLog.metadata.costTracking?.estimatedCost ?? 0;
+        this.notify({
+          timestamp: existingLog.timestamp,
+          operationType: existingLog.metadata.operationType,
+          previousCost,
+          cost: updates.metadata?.costTracking?.estimatedCost ?? previousCost
+        });
+      }
     } catch (updateError) {
       console.error('Failed to log API response:', updateError);
     }
   }
 
+  /**
+   * ログの追加・更新を購読（予算の利用額集計などに使う）
+   */
+  subscribe(listener: ApiLogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   /**
    * ログエントリ一覧を取得
    */
@@ -438,6 +486,24 @@ export class ApiLoggerService {
     }
   }
 
+  /**
+   * 企業の統合に伴い、APIログの紐づけ先企業を付け替え
+   */
+  async reassignCompany(fromCompanyId: string, toCompanyId: string): Promise<number> {
+    try {
+      const count = await this.db.logs
+        .filter(log => log.metadata.companyId === fromCompanyId)
+        .modify(log => {
+          log.metadata = { ...log.metadata, companyId: toCompanyId };
+        });
+      this.notify();
+      return count;
+    } catch (error) {
+      console.error('Failed to reassign API logs:', error);
+      throw new Error('APIログの企業付け替えに失敗しました');
+    }
+  }
+
   /**
    * 古いログの自動クリーンアップ
    */
@@ -504,6 +570,16 @@ export class ApiLoggerService {
     return sanitized;
   }
 
+  private notify(change?: ApiLogCostChange): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('Error in API log listener:', error);
+      }
+    });
+  }
+
   private determineOperationType(endpoint: string): ApiLogEntry['metadata']['operationType'] {
     if (endpoint.includes('generate-business-ideas')) return 'generate-ideas';
     if (endpoint.includes('verify-business-idea')) return 'verify-ideas';
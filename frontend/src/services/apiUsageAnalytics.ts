@@ -0,0 +1,454 @@
+/**
+ * API利用状況の分析
+ * APIログから処理種別・モデル別のコスト・トークン数・レイテンシ（p50/p95/p99）・エラー率の推移と、
+ * コストの大きい企業・アイデア、AIキャッシュによる節約額を集計し、CSV/Excelに出力する
+ */
+
+import ExcelJS from 'exceljs';
+import Papa from 'papaparse';
+import { saveAs } from 'file-saver';
+import { format } from 'date-fns';
+import { apiLoggerService, type ApiLogEntry } from './apiLogger';
+import { aiCacheService } from './aiCacheService';
+import { companyStorage } from './storage';
+import { ideaStorageService } from './ideaStorage';
+import { BUDGET_OPERATION_LABELS } from './budgetService';
+import { CSVProcessor } from './csvProcessor';
+
+export type UsageRangeDays = 7 | 30 | 90;
+
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface UsageMetrics {
+  requests: number;
+  errors: number;
+  errorRate: number;
+  cost: number;
+  tokens: number;
+  latency: LatencyPercentiles;
+}
+
+export interface UsageBreakdownRow extends UsageMetrics {
+  key: string;
+  label: string;
+}
+
+// 日別の値（処理種別・モデル別の内訳付き）
+export interface UsageDailyPoint extends UsageMetrics {
+  date: string;
+  byOperation: Record<string, UsageMetrics>;
+  byModel: Record<string, UsageMetrics>;
+}
+
+export interface UsageCostRanking {
+  id: string;
+  name: string;
+  requests: number;
+  cost: number;
+  tokens: number;
+}
+
+export interface CacheSavingsRow {
+  cacheType: string;
+  label: string;
+  entries: number;
+  hits: number;
+  saved: number;
+}
+
+export interface CacheSavingsSummary {
+  hitRate: number;
+  totalSaved: number;
+  byType: CacheSavingsRow[];
+}
+
+export interface UsageAnalytics {
+  rangeDays: UsageRangeDays;
+  generatedAt: number;
+  totals: UsageMetrics;
+  daily: UsageDailyPoint[];
+  byOperation: UsageBreakdownRow[];
+  byModel: UsageBreakdownRow[];
+  topCompanies: UsageCostRanking[];
+  topIdeas: UsageCostRanking[];
+  cacheSavings: CacheSavingsSummary;
+}
+
+const OPERATION_LABELS: Record<string, string> = {
+  ...BUDGET_OPERATION_LABELS,
+  other: 'その他'
+};
+
+const CACHE_TYPE_LABELS: Record<string, string> = {
+  'company-info': '企業情報',
+  'mvv-extraction': 'MVV抽出',
+  'company-classification': '企業分類',
+  'industry-analysis': '業界分析'
+};
+
+const TOP_RANKING_SIZE = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNKNOWN_MODEL = '不明';
+
+/**
+ * 最近傍順位法によるパーセンタイル
+ */
+export const percentile = (sortedValues: number[], p: number): number => {
+  if (sortedValues.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sortedValues.length);
+  return sortedValues[Math.min(sortedValues.length - 1, Math.max(0, rank - 1))];
+};
+
+// 集計途中の値（レイテンシは最後にまとめてパーセンタイルにする）
+interface MetricsAccumulator {
+  requests: number;
+  errors: number;
+  cost: number;
+  tokens: number;
+  durations: number[];
+}
+
+const createAccumulator = (): MetricsAccumulator => ({
+  requests: 0,
+  errors: 0,
+  cost: 0,
+  tokens: 0,
+  durations: []
+});
+
+const isErrorLog = (log: ApiLogEntry): boolean =>
+  !!log.error || (!!log.responseData && (log.responseData.status < 200 || log.responseData.status >= 300));
+
+const addLog = (accumulator: MetricsAccumulator, log: ApiLogEntry): void => {
+  accumulator.requests++;
+  if (isErrorLog(log)) accumulator.errors++;
+  accumulator.cost += log.metadata.costTracking?.estimatedCost || 0;
+  accumulator.tokens += log.metadata.costTracking?.tokensUsed || 0;
+  // レスポンス待ちのログはレイテンシに含めない
+  const duration = log.responseData?.timing?.duration;
+  if (duration) accumulator.durations.push(duration);
+};
+
+const toMetrics = (accumulator: MetricsAccumulator): UsageMetrics => {
+  const sorted = [...accumulator.durations].sort((a, b) => a - b);
+  return {
+    requests: accumulator.requests,
+    errors: accumulator.errors,
+    errorRate: accumulator.requests > 0 ? accumulator.errors / accumulator.requests : 0,
+    cost: accumulator.cost,
+    tokens: accumulator.tokens,
+    latency: {
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+      p99: percentile(sorted, 99)
+    }
+  };
+};
+
+const getAccumulator = (map: Map<string, MetricsAccumulator>, key: string): MetricsAccumulator => {
+  let accumulator = map.get(key);
+  if (!accumulator) {
+    accumulator = createAccumulator();
+    map.set(key, accumulator);
+  }
+  return accumulator;
+};
+
+const mapToRecord = (map: Map<string, MetricsAccumulator>): Record<string, UsageMetrics> =>
+  Object.fromEntries(Array.from(map.entries()).map(([key, accumulator]) => [key, toMetrics(accumulator)]));
+
+const getModel = (log: ApiLogEntry): string => {
+  const model = log.metadata.costTracking?.model;
+  return model && model !== 'unknown' ? model : UNKNOWN_MODEL;
+};
+
+/**
+ * 期間内のログを日別・処理種別別・モデル別に集計（企業・アイデア名の解決とキャッシュ統計は含まない）
+ */
+export const aggregateUsage = (
+  logs: ApiLogEntry[],
+  rangeDays: UsageRangeDays,
+  now: number = Date.now()
+): Pick<UsageAnalytics, 'totals' | 'daily' | 'byOperation' | 'byModel'> & {
+  companyCosts: Map<string, UsageCostRanking>;
+  ideaCosts: Map<string, UsageCostRanking>;
+} => {
+  const startDate = new Date(now - (rangeDays - 1) * DAY_MS);
+  startDate.setHours(0, 0, 0, 0);
+  const start = startDate.getTime();
+
+  // 利用の無い日も0として並べる
+  const daily = new Map<string, { total: MetricsAccumulator; byOperation: Map<string, MetricsAccumulator>; byModel: Map<string, MetricsAccumulator> }>();
+  for (let time = start; time <= now; time += DAY_MS) {
+    daily.set(format(time, 'yyyy-MM-dd'), { total: createAccumulator(), byOperation: new Map(), byModel: new Map() });
+  }
+
+  const totals = createAccumulator();
+  const byOperation = new Map<string, MetricsAccumulator>();
+  const byModel = new Map<string, MetricsAccumulator>();
+  const companyCosts = new Map<string, UsageCostRanking>();
+  const ideaCosts = new Map<string, UsageCostRanking>();
+
+  const addCost = (map: Map<string, UsageCostRanking>, id: string, cost: number, tokens: number) => {
+    const ranking = map.get(id) || { id, name: id, requests: 0, cost: 0, tokens: 0 };
+    ranking.requests++;
+    ranking.cost += cost;
+    ranking.tokens += tokens;
+    map.set(id, ranking);
+  };
+
+  logs.forEach(log => {
+    if (log.timestamp < start || log.timestamp > now) return;
+
+    const operation = log.metadata.operationType || 'other';
+    const model = getModel(log);
+    addLog(totals, log);
+    addLog(getAccumulator(byOperation, operation), log);
+    addLog(getAccumulator(byModel, model), log);
+
+    const day = daily.get(format(log.timestamp, 'yyyy-MM-dd'));
+    if (day) {
+      addLog(day.total, log);
+      addLog(getAccumulator(day.byOperation, operation), log);
+      addLog(getAccumulator(day.byModel, model), log);
+    }
+
+    const cost = log.metadata.costTracking?.estimatedCost || 0;
+    const tokens = log.metadata.costTracking?.tokensUsed || 0;
+    if (log.metadata.companyId) {
+      addCost(companyCosts, log.metadata.companyId, cost, tokens);
+    }
+
+    // 複数アイデアを生成した呼び出しはコストを等分する
+    const ideaIds = log.metadata.ideaIds && log.metadata.ideaIds.length > 0
+      ? log.metadata.ideaIds
+      : log.metadata.ideaId ? [log.metadata.ideaId] : [];
+    ideaIds.forEach(ideaId => addCost(ideaCosts, ideaId, cost / ideaIds.length, tokens / ideaIds.length));
+  });
+
+  const toRows = (map: Map<string, MetricsAccumulator>, labels: Record<string, string>): UsageBreakdownRow[] =>
+    Array.from(map.entries())
+      .map(([key, accumulator]) => ({ key, label: labels[key] || key, ...toMetrics(accumulator) }))
+      .sort((a, b) => b.cost - a.cost || b.requests - a.requests);
+
+  return {
+    totals: toMetrics(totals),
+    daily: Array.from(daily.entries()).map(([date, day]) => ({
+      date,
+      ...toMetrics(day.total),
+      byOperation: mapToRecord(day.byOperation),
+      byModel: mapToRecord(day.byModel)
+    })),
+    byOperation: toRows(byOperation, OPERATION_LABELS),
+    byModel: toRows(byModel, {}),
+    companyCosts,
+    ideaCosts
+  };
+};
+
+const formatCost = (cost: number): number => Math.round(cost * 10000) / 10000;
+
+export class ApiUsageAnalyticsService {
+  /**
+   * 指定期間（直近N日）の利用状況を集計
+   */
+  async getAnalytics(rangeDays: UsageRangeDays): Promise<UsageAnalytics> {
+    const now = Date.now();
+    const logs = await apiLoggerService.getLogs({
+      dateRange: { start: new Date(now - rangeDays * DAY_MS), end: new Date(now) }
+    });
+    const aggregated = aggregateUsage(logs, rangeDays, now);
+
+    const [topCompanies, topIdeas, cacheSavings] = await Promise.all([
+      this.rankWithNames(aggregated.companyCosts, async id => (await companyStorage.getById(id))?.name),
+      this.rankWithNames(aggregated.ideaCosts, async id => (await ideaStorageService.getIdea(id))?.title),
+      this.getCacheSavings()
+    ]);
+
+    return {
+      rangeDays,
+      generatedAt: now,
+      totals: aggregated.totals,
+      daily: aggregated.daily,
+      byOperation: aggregated.byOperation,
+      byModel: aggregated.byModel,
+      topCompanies,
+      topIdeas,
+      cacheSavings
+    };
+  }
+
+  /**
+   * 集計結果を1つのCSVに出力（区分列で日別・処理種別・モデル・企業・アイデア・キャッシュを区別）
+   */
+  exportToCSV(analytics: UsageAnalytics): void {
+    const metricsRow = (section: string, key: string, label: string, metrics: UsageMetrics) => ({
+      区分: section,
+      キー: key,
+      名称: label,
+      リクエスト数: metrics.requests,
+      エラー数: metrics.errors,
+      エラー率: Math.round(metrics.errorRate * 1000) / 10,
+      コストUSD: formatCost(metrics.cost),
+      トークン数: metrics.tokens,
+      p50ms: metrics.latency.p50,
+      p95ms: metrics.latency.p95,
+      p99ms: metrics.latency.p99
+    });
+    const rankingRow = (section: string, ranking: UsageCostRanking) => ({
+      区分: section,
+      キー: ranking.id,
+      名称: ranking.name,
+      リクエスト数: ranking.requests,
+      コストUSD: formatCost(ranking.cost),
+      トークン数: Math.round(ranking.tokens)
+    });
+
+    const rows = [
+      metricsRow('合計', 'total', `直近${analytics.rangeDays}日`, analytics.totals),
+      ...analytics.daily.map(point => metricsRow('日別', point.date, point.date, point)),
+      ...analytics.byOperation.map(row => metricsRow('処理種別', row.key, row.label, row)),
+      ...analytics.byModel.map(row => metricsRow('モデル', row.key, row.label, row)),
+      ...analytics.topCompanies.map(ranking => rankingRow('企業', ranking)),
+      ...analytics.topIdeas.map(ranking => rankingRow('アイデア', ranking)),
+      ...analytics.cacheSavings.byType.map(row => ({
+        区分: 'キャッシュ節約',
+        キー: row.cacheType,
+        名称: row.label,
+        リクエスト数: row.hits,
+        コストUSD: formatCost(row.saved)
+      }))
+    ];
+
+    const csv = Papa.unparse({
+      fields: ['区分', 'キー', '名称', 'リクエスト数', 'エラー数', 'エラー率', 'コストUSD', 'トークン数', 'p50ms', 'p95ms', 'p99ms'],
+      data: rows
+    }, {
+      header: true,
+      quotes: true
+    });
+    CSVProcessor.downloadCSV(csv, CSVProcessor.generateFilename(`api-usage-${analytics.rangeDays}d`));
+  }
+
+  /**
+   * 集計結果をExcelに出力（表ごとにシートを分ける）
+   */
+  async exportToExcel(analytics: UsageAnalytics): Promise<void> {
+    try {
+      const workbook = new ExcelJS.Workbook();
+      workbook.creator = 'MVV Extraction System';
+      workbook.created = new Date(analytics.generatedAt);
+
+      const metricColumns: Partial<ExcelJS.Column>[] = [
+        { header: 'リクエスト数', key: 'requests', width: 12 },
+        { header: 'エラー数', key: 'errors', width: 10 },
+        { header: 'エラー率', key: 'errorRate', width: 10, style: { numFmt: '0.0%' } },
+        { header: 'コスト(USD)', key: 'cost', width: 12, style: { numFmt: '$0.0000' } },
+        { header: 'トークン数', key: 'tokens', width: 12, style: { numFmt: '#,##0' } },
+        { header: 'p50(ms)', key: 'p50', width: 10 },
+        { header: 'p95(ms)', key: 'p95', width: 10 },
+        { header: 'p99(ms)', key: 'p99', width: 10 }
+      ];
+      const toMetricValues = (metrics: UsageMetrics) => ({
+        requests: metrics.requests,
+        errors: metrics.errors,
+        errorRate: metrics.errorRate,
+        cost: metrics.cost,
+        tokens: metrics.tokens,
+        p50: metrics.latency.p50,
+        p95: metrics.latency.p95,
+        p99: metrics.latency.p99
+      });
+      const addSheet = (name: string, columns: Partial<ExcelJS.Column>[], rows: Record<string, unknown>[]) => {
+        const sheet = workbook.addWorksheet(name);
+        sheet.columns = columns;
+        rows.forEach(row => sheet.addRow(row));
+        sheet.getRow(1).font = { bold: true };
+        sheet.getRow(1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE5E7EB' } };
+        sheet.views = [{ state: 'frozen', ySplit: 1 }];
+      };
+
+      addSheet('サマリー', [{ header: '項目', key: 'label', width: 28 }, ...metricColumns], [
+        { label: `直近${analytics.rangeDays}日の合計`, ...toMetricValues(analytics.totals) }
+      ]);
+      addSheet('日別推移', [{ header: '日付', key: 'date', width: 12 }, ...metricColumns],
+        analytics.daily.map(point => ({ date: point.date, ...toMetricValues(point) })));
+      addSheet('処理種別', [{ header: '処理', key: 'label', width: 20 }, ...metricColumns],
+        analytics.byOperation.map(row => ({ label: row.label, ...toMetricValues(row) })));
+      addSheet('モデル', [{ header: 'モデル', key: 'label', width: 28 }, ...metricColumns],
+        analytics.byModel.map(row => ({ label: row.label, ...toMetricValues(row) })));
+
+      const rankingColumns: Partial<ExcelJS.Column>[] = [
+        { header: '名称', key: 'name', width: 36 },
+        { header: 'ID', key: 'id', width: 28 },
+        { header: 'リクエスト数', key: 'requests', width: 12 },
+        { header: 'コスト(USD)', key: 'cost', width: 12, style: { numFmt: '$0.0000' } },
+        { header: 'トークン数', key: 'tokens', width: 12, style: { numFmt: '#,##0' } }
+      ];
+      addSheet('企業別コスト', rankingColumns, analytics.topCompanies.map(ranking => ({ ...ranking })));
+      addSheet('アイデア別コスト', rankingColumns, analytics.topIdeas.map(ranking => ({ ...ranking })));
+
+      addSheet('キャッシュ節約', [
+        { header: '種別', key: 'label', width: 16 },
+        { header: 'エントリ数', key: 'entries', width: 12 },
+        { header: 'ヒット数', key: 'hits', width: 10 },
+        { header: '節約額(USD)', key: 'saved', width: 12, style: { numFmt: '$0.0000' } }
+      ], [
+        ...analytics.cacheSavings.byType.map(row => ({ ...row })),
+        { label: '合計（キャッシュ統計）', saved: analytics.cacheSavings.totalSaved }
+      ]);
+
+      const buffer = await workbook.xlsx.writeBuffer();
+      const blob = new Blob([buffer], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      });
+      saveAs(blob, CSVProcessor.generateFilename(`api-usage-${analytics.rangeDays}d`, 'xlsx'));
+    } catch (error) {
+      console.error('Failed to export API usage to Excel:', error);
+      throw new Error(`Excel出力に失敗しました: ${error}`);
+    }
+  }
+
+  /**
+   * コスト上位の項目に名称を付ける（削除済みはIDのまま）
+   */
+  private async rankWithNames(
+    costs: Map<string, UsageCostRanking>,
+    resolveName: (id: string) => Promise<string | undefined>
+  ): Promise<UsageCostRanking[]> {
+    const top = Array.from(costs.values())
+      .sort((a, b) => b.cost - a.cost || b.requests - a.requests)
+      .slice(0, TOP_RANKING_SIZE);
+
+    return Promise.all(top.map(async ranking => {
+      try {
+        const name = await resolveName(ranking.id);
+        return { ...ranking, name: name || `（削除済み）${ranking.id}` };
+      } catch {
+        return ranking;
+      }
+    }));
+  }
+
+  private async getCacheSavings(): Promise<CacheSavingsSummary> {
+    const [stats, byType] = await Promise.all([
+      aiCacheService.getCacheStats(),
+      aiCacheService.getSavingsByType()
+    ]);
+
+    return {
+      hitRate: stats.hitRate,
+      totalSaved: stats.totalSaved,
+      byType: byType
+        .map(row => ({ ...row, label: CACHE_TYPE_LABELS[row.cacheType] || row.cacheType }))
+        .sort((a, b) => b.saved - a.saved)
+    };
+  }
+}
+
+// シングルトンインスタンス
+export const apiUsageAnalyticsService = new ApiUsageAnalyticsService();
@@ -6,6 +6,7 @@
 import type {
   AsyncTask,
   AsyncTaskCreateRequest,
+  AsyncTaskStatus,
   AsyncTaskUpdateRequest,
   AsyncTaskType,
   BackgroundTaskResponse,
@@ -14,20 +15,46 @@ import type {
 import { AsyncTaskError } from '../types/asyncTask';
 import { asyncTaskStorageService } from './asyncTaskStorage';
 import { apiLoggerService } from './apiLogger';
+import { jobScheduler } from './jobScheduler';
+import { budgetService, isBudgetOperationType } from './budgetService';
+import type { JobKind } from '../types/jobScheduler';
+
+const TERMINAL_STATUSES: AsyncTaskStatus[] = ['completed', 'failed', 'cancelled', 'consumed'];
+
+// バックエンドの result blob の保持期間（これを過ぎると結果は取得できない）
+const RESULT_RETENTION_MS = 24 * 60 * 60 * 1000;
+// タイムアウト判定の猶予（Background Function 終了から result blob 書き込みまで）
+const POLLING_GRACE_MS = 60 * 1000;
+// start-async-task 呼び出し中（queued）のタスクを未開始と判定するまでの猶予
+const QUEUED_GRACE_MS = 2 * 60 * 1000;
+const ERROR_RETRY_BASE_MS = 10000;
+const MAX_ERROR_RETRY_MS = 60000;
+
+/**
+ * 起動時の照合で参照するバックエンド側のタスク状態
+ * reachable: false はネットワーク障害等で確認できなかったことを表す
+ */
+type RemoteTaskState =
+  | { reachable: false }
+  | { reachable: true; response: BackgroundTaskResponse | null };
 
 export class AsyncTaskService {
   private pollingTasks = new Map<string, NodeJS.Timeout>();
+  // ジョブキューで実行待ち・実行中のタスク（ジョブIDはタスクIDと同一）
+  private scheduledTasks = new Set<string>();
+  private rehydration: Promise<void> | null = null;
   private readonly API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
   private readonly API_SECRET = import.meta.env.VITE_API_SECRET;
 
   constructor() {
     this.setupPageVisibilityHandling();
-    // 初期化時の自動再開を無効化（手動で開始するまで待機）
-    // this.resumeActiveTasks();
+    // 保存済みの未完了タスクを復元（ページ再読み込み・ブラウザ再起動後も処理を継続）
+    this.rehydrateTasks();
   }
 
   /**
    * 非同期タスクを開始
+   * Background Function の起動はAIジョブキューに投入し、他のAI処理と同時実行数を共有する
    */
   async startTask(request: AsyncTaskCreateRequest): Promise<AsyncTask> {
     try {
@@ -40,39 +67,33 @@ export class AsyncTaskService {
       // 3. APIログを開始
       const apiLogId = await this.startApiLogging(task, context);
       
-      // 4. タスクにAPIログIDを紐づけ
-      await asyncTaskStorageService.updateTask({
-        id: task.id,
-        metadata: {
-          ...task.metadata,
-          apiLogId
-        }
-      });
+      // 4. 残り予算を確認（上限到達時は失敗させず、キューの再開まで待機させる）
+      const operation = this.mapTaskTypeToOperation(task.type);
+      const budgetCheck = budgetService.checkBudget(isBudgetOperationType(operation) ? operation : undefined);
 
-      // 5. Background Functionを呼び出し
-      const backgroundResult = await this.callBackgroundFunction(task, context);
-      
-      // 6. Background Function開始結果を記録
+      // 5. タスクにAPIログIDを紐づけ
+      const metadata = {
+        ...task.metadata,
+        apiLogId
+      };
       await asyncTaskStorageService.updateTask({
         id: task.id,
-        status: 'processing',
         progress: {
-          percentage: 5,
-          currentStep: 'バックグラウンド処理を開始しました...'
+          percentage: 0,
+          currentStep: budgetCheck.allowed
+            ? 'AIジョブキューで実行待ち...'
+            : `予算上限のため待機中: ${budgetCheck.message}`
         },
-        metadata: {
-          ...task.metadata,
-          backgroundFunctionUrl: backgroundResult.metadata?.backgroundFunctionId
-        }
+        metadata
       });
 
-      // 7. ポーリング開始
-      this.startPolling(task.id);
+      // 6. ジョブキューに投入（完了はストレージ経由で通知される）
+      this.scheduleBackgroundTask({ ...task, metadata }, context);
 
-      // 8. 最新の更新されたタスクを取得して返す
+      // 7. 最新の更新されたタスクを取得して返す
       const updatedTask = await asyncTaskStorageService.getTask(task.id);
       if (import.meta.env.DEV) {
-        console.log(`Async task started: ${task.id} (${task.type})`);
+        console.log(`Async task queued: ${task.id} (${task.type})`);
       }
       
       return updatedTask || task;
@@ -88,6 +109,78 @@ export class AsyncTaskService {
     }
   }
 
+  /**
+   * Background Function の起動から終了までを1ジョブとして実行
+   * 終了まで実行枠を保持するため、抽出処理とは別の background 枠で同時実行数を制限する
+   */
+  private scheduleBackgroundTask(task: AsyncTask, context: TaskExecutionContext): void {
+    this.scheduledTasks.add(task.id);
+    const operation = this.mapTaskTypeToOperation(task.type);
+
+    jobScheduler.submit({
+      id: task.id,
+      kind: this.mapTaskTypeToJobKind(task.type),
+      provider: 'background',
+      label: task.metadata.ideaId ? `アイデア ${task.metadata.ideaId}` : task.type,
+      budgetOperation: isBudgetOperationType(operation) ? operation : undefined,
+      // Background Function は再実行すると課金が重複するため自動リトライしない
+      retryPolicy: { maxRetries: 0 },
+      run: async () => {
+        const backgroundResult = await this.callBackgroundFunction(task, context);
+
+        // Background Function開始結果を記録
+        await asyncTaskStorageService.updateTask({
+          id: task.id,
+          status: 'processing',
+          progress: {
+            percentage: 5,
+            currentStep: 'バックグラウンド処理を開始しました...'
+          },
+          metadata: {
+            ...task.metadata,
+            backgroundFunctionUrl: backgroundResult.metadata?.backgroundFunctionId
+          }
+        });
+
+        this.startPolling(task.id);
+        await this.waitForTaskSettled(
+          task.id,
+          task.config.pollIntervalMs,
+          task.timestamps.createdAt + task.config.timeoutMs + POLLING_GRACE_MS
+        );
+      }
+    })
+      .catch(async error => {
+        const current = await asyncTaskStorageService.getTask(task.id);
+        // キャンセル済みのタスクはそのまま（起動前に失敗したものだけ失敗として記録）
+        if (!current || current.status !== 'queued') return;
+
+        await this.failTask(
+          task.id,
+          `タスクの開始に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+          'TASK_START_FAILED'
+        );
+      })
+      .finally(() => {
+        this.scheduledTasks.delete(task.id);
+      });
+  }
+
+  /**
+   * タスクが終了状態になるまで待機
+   * ポーリングが止まっても実行枠を保持し続けないよう、deadline を過ぎたら待機を打ち切る
+   */
+  private async waitForTaskSettled(taskId: string, intervalMs: number, deadline: number): Promise<void> {
+    while (Date.now() < deadline) {
+      const task = await asyncTaskStorageService.getTask(taskId);
+      if (!task || TERMINAL_STATUSES.includes(task.status)) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+    console.warn(`Stopped waiting for task ${taskId}: deadline exceeded`);
+  }
+
   /**
    * Background Function呼び出し（start-async-task経由）
    */
@@ -158,10 +251,20 @@ export class AsyncTaskService {
 
   /**
    * ポーリング開始
+   * 再開時はタスク作成からの経過時間を基に間隔とタイムアウトを引き継ぐ
    */
   private startPolling(taskId: string): void {
+    if (this.pollingTasks.has(taskId)) {
+      return;
+    }
+
     let pollCount = 0;
-    const maxPolls = 180; // 最大15分間（5秒間隔で180回、指数バックオフ考慮）
+    let consecutiveErrors = 0;
+
+    const scheduleNext = (interval: number) => {
+      const timeoutId = setTimeout(poll, interval);
+      this.pollingTasks.set(taskId, timeoutId);
+    };
 
     const poll = async () => {
       try {
@@ -173,7 +276,7 @@ export class AsyncTaskService {
         }
 
         // 完了状態チェック（最優先）
-        if (['completed', 'failed', 'cancelled', 'consumed'].includes(task.status)) {
+        if (TERMINAL_STATUSES.includes(task.status)) {
           if (import.meta.env.DEV) {
             console.log(`🔄 Stopping polling for ${taskId}: status is ${task.status}`);
           }
@@ -183,13 +286,14 @@ export class AsyncTaskService {
 
         // Background Functionのステータスをチェック
         const statusUpdate = await this.checkBackgroundTaskStatus(taskId);
+        consecutiveErrors = 0;
         
         if (statusUpdate) {
           await this.updateTaskFromBackground(taskId, statusUpdate);
           
           // 更新後に再度完了チェック
           const updatedTask = await asyncTaskStorageService.getTask(taskId);
-          if (updatedTask && ['completed', 'failed', 'cancelled'].includes(updatedTask.status)) {
+          if (updatedTask && TERMINAL_STATUSES.includes(updatedTask.status)) {
             if (import.meta.env.DEV) {
               console.log(`🔄 Task ${taskId} completed after update. Stopping polling.`);
             }
@@ -198,32 +302,23 @@ export class AsyncTaskService {
           }
         }
 
-        // 次のポーリング間隔を計算（指数バックオフ）
-        pollCount++;
+        // タイムアウトチェック（ページ再読み込み後もタスク作成時刻から計算）
+        const elapsed = Date.now() - task.timestamps.createdAt;
+        if (elapsed > task.config.timeoutMs + POLLING_GRACE_MS) {
+          console.warn(`Polling timeout for task: ${taskId}`);
+          await this.failTask(taskId, 'ポーリングタイムアウト', 'POLLING_TIMEOUT');
+          return;
+        }
+
+        // 次のポーリング間隔を計算（指数バックオフ、経過時間から回数を引き継ぐ）
+        pollCount = Math.max(pollCount + 1, Math.floor(elapsed / task.config.pollIntervalMs));
         const nextInterval = Math.min(
           task.config.pollIntervalMs * Math.pow(1.2, Math.floor(pollCount / 10)),
           30000 // 最大30秒
         );
 
-        // 最大ポーリング回数チェック
-        if (pollCount >= maxPolls) {
-          console.warn(`Polling timeout for task: ${taskId}`);
-          await asyncTaskStorageService.updateTask({
-            id: taskId,
-            status: 'failed',
-            error: {
-              message: 'ポーリングタイムアウト',
-              code: 'POLLING_TIMEOUT',
-              retryable: false
-            }
-          });
-          this.stopPolling(taskId);
-          return;
-        }
-
         // 次のポーリングをスケジュール
-        const timeoutId = setTimeout(poll, nextInterval);
-        this.pollingTasks.set(taskId, timeoutId);
+        scheduleNext(nextInterval);
 
       } catch (error) {
         console.error(`Polling error for task ${taskId}:`, error);
@@ -231,28 +326,38 @@ export class AsyncTaskService {
         // 400エラー（Bad Request）の場合はタスクを停止
         if (error instanceof Error && error.message.includes('400')) {
           console.warn(`Stopping polling for task ${taskId} due to 400 error`);
-          await asyncTaskStorageService.updateTask({
-            id: taskId,
-            status: 'failed',
-            error: {
-              message: 'ポーリングエラー（Bad Request）',
-              code: 'POLLING_BAD_REQUEST',
-              retryable: false
-            }
-          });
-          this.stopPolling(taskId);
+          await this.failTask(taskId, 'ポーリングエラー（Bad Request）', 'POLLING_BAD_REQUEST');
           return;
         }
         
-        // その他のエラーの場合は継続（ネットワーク障害等）
-        const retryInterval = 10000; // 10秒後にリトライ
-        const timeoutId = setTimeout(poll, retryInterval);
-        this.pollingTasks.set(taskId, timeoutId);
+        // その他のエラーの場合は継続（ネットワーク障害等）、連続失敗ごとに間隔を倍に延ばす
+        consecutiveErrors++;
+        const retryInterval = Math.min(
+          ERROR_RETRY_BASE_MS * Math.pow(2, consecutiveErrors - 1),
+          MAX_ERROR_RETRY_MS
+        );
+        scheduleNext(retryInterval);
       }
     };
 
-    // 初回ポーリング
-    poll();
+    // 初回ポーリング（実行中の重複開始を防ぐため先に登録）
+    scheduleNext(0);
+  }
+
+  /**
+   * タスクを失敗として記録し、ポーリングを停止
+   */
+  private async failTask(taskId: string, message: string, code: string): Promise<void> {
+    await asyncTaskStorageService.updateTask({
+      id: taskId,
+      status: 'failed',
+      error: {
+        message,
+        code,
+        retryable: false
+      }
+    });
+    this.stopPolling(taskId);
   }
 
   /**
@@ -268,7 +373,7 @@ export class AsyncTaskService {
       }
 
       // ローカルタスクが既に完了している場合は、リモートチェックをスキップ
-      if (['completed', 'failed', 'cancelled', 'consumed'].includes(localTask.status)) {
+      if (TERMINAL_STATUSES.includes(localTask.status)) {
         console.log(`🔄 Task ${taskId} already ${localTask.status} locally. Skipping remote check.`);
         return null;
       }
@@ -583,6 +688,9 @@ export class AsyncTaskService {
     try {
       // ローカルタスクをキャンセル
       await asyncTaskStorageService.cancelTask(taskId);
+
+      // ジョブキューで実行待ちの場合は起動自体を取り消す
+      jobScheduler.cancel(taskId);
       
       // ポーリング停止
       this.stopPolling(taskId);
@@ -662,6 +770,21 @@ export class AsyncTaskService {
     return mapping[taskType];
   }
 
+  /**
+   * タスクタイプをジョブキューの種別・プロバイダにマッピング
+   */
+  private mapTaskTypeToJobKind(taskType: AsyncTaskType): JobKind {
+    const mapping: Record<AsyncTaskType, JobKind> = {
+      'verify-business-idea': 'idea-verification',
+      'generate-business-ideas': 'other',
+      'extract-mvv': 'mvv-extraction',
+      'extract-company-info': 'company-info',
+      'analyze-competition': 'other',
+      'other': 'other'
+    };
+    return mapping[taskType];
+  }
+
   /**
    * 実行コンテキスト構築
    */
@@ -691,36 +814,177 @@ export class AsyncTaskService {
       } else {
         // ページが表示されたらポーリング間隔を通常に戻す
         console.log('Page visible - resuming normal polling');
-        this.resumeActiveTasks();
+        this.rehydrateTasks();
       }
     });
   }
 
   /**
-   * アクティブなタスクのポーリング再開
+   * 未完了タスクの復元
+   * IndexedDB の queued / processing タスクをバックエンドの状態と照合し、
+   * 完了・失敗済みのものは結果を取り込み、実行中のものはポーリングを再開する
    */
-  private async resumeActiveTasks(): Promise<void> {
+  public rehydrateTasks(): Promise<void> {
+    if (!this.rehydration) {
+      this.rehydration = this.reconcileActiveTasks().finally(() => {
+        this.rehydration = null;
+      });
+    }
+    return this.rehydration;
+  }
+
+  private async reconcileActiveTasks(): Promise<void> {
     try {
       const activeTasks = await asyncTaskStorageService.getActiveTasks();
-      
-      // 古いタスクをフィルタリング（24時間以上前のタスクは停止）
-      const cutoffTime = Date.now() - (24 * 60 * 60 * 1000);
-      
       for (const task of activeTasks) {
-        // 古いタスクは自動的にキャンセル
-        if (task.timestamps.createdAt < cutoffTime) {
-          console.warn(`Cancelling old task: ${task.id} (age: ${Date.now() - task.timestamps.createdAt}ms)`);
-          await asyncTaskStorageService.cancelTask(task.id);
-          continue;
-        }
-        
-        if (!this.pollingTasks.has(task.id)) {
-          console.log(`Resuming polling for task: ${task.id}`);
+        // このセッションで実行待ち・ポーリング中のタスクは照合不要
+        if (this.pollingTasks.has(task.id) || this.scheduledTasks.has(task.id)) continue;
+
+        try {
+          await this.reconcileTask(task);
+        } catch (error) {
+          console.error(`Failed to reconcile task ${task.id}:`, error);
           this.startPolling(task.id);
         }
       }
     } catch (error) {
-      console.error('Failed to resume active tasks:', error);
+      console.error('Failed to rehydrate active tasks:', error);
+    }
+  }
+
+  /**
+   * 単一タスクをバックエンドの状態と照合
+   */
+  private async reconcileTask(task: AsyncTask): Promise<void> {
+    const age = Date.now() - task.timestamps.createdAt;
+
+    // Background Function 呼び出し前に中断されたタスクはバックエンドに存在しない
+    if (task.status === 'queued' && age > QUEUED_GRACE_MS) {
+      console.warn(`Task ${task.id} was never dispatched to background function`);
+      await this.failTask(
+        task.id,
+        'バックグラウンド処理の開始前にページが閉じられたため、タスクは実行されませんでした。再実行してください',
+        'TASK_NOT_STARTED'
+      );
+      return;
+    }
+
+    const remote = await this.fetchRemoteTaskState(task.id);
+
+    // バックエンドに到達できない場合はバックオフ付きのポーリングに委ねる
+    if (!remote.reachable) {
+      console.log(`Backend unreachable for task ${task.id}. Resuming polling.`);
+      this.startPolling(task.id);
+      return;
+    }
+
+    if (remote.response) {
+      console.log(`🔄 Reconciled task ${task.id} with backend status: ${remote.response.status}`);
+      await this.updateTaskFromBackground(task.id, remote.response);
+      if (TERMINAL_STATUSES.includes(remote.response.status)) {
+        return;
+      }
+      this.startPolling(task.id);
+      return;
+    }
+
+    // 結果が見つからず、保持期間またはタイムアウトを過ぎている場合は取得不能
+    if (age > RESULT_RETENTION_MS) {
+      console.warn(`Task ${task.id} result expired (age: ${age}ms)`);
+      await this.failTask(
+        task.id,
+        'バックグラウンド処理の結果の保存期間（24時間）が過ぎたため、結果を取得できませんでした。再実行してください',
+        'RESULT_EXPIRED'
+      );
+      return;
+    }
+
+    if (age > task.config.timeoutMs + POLLING_GRACE_MS) {
+      console.warn(`Task ${task.id} result not found after timeout (age: ${age}ms)`);
+      await this.failTask(
+        task.id,
+        'タイムアウト時間内にバックグラウンド処理の結果が見つかりませんでした。処理が中断されたか結果が破棄されています。再実行してください',
+        'RESULT_NOT_FOUND'
+      );
+      return;
+    }
+
+    console.log(`Resuming polling for task: ${task.id}`);
+    this.startPolling(task.id);
+  }
+
+  /**
+   * task-result / task-status からバックエンド側の状態を取得
+   * task-result は結果を持つ完了タスクのみ返すため、失敗タスクは task-status で確認する
+   */
+  private async fetchRemoteTaskState(taskId: string): Promise<RemoteTaskState> {
+    try {
+      const headers = { 'X-API-Key': this.API_SECRET };
+
+      const resultResponse = await fetch(`${this.API_BASE_URL}/task-result?taskId=${taskId}`, {
+        method: 'GET',
+        headers
+      });
+
+      if (resultResponse.ok) {
+        const resultData = await resultResponse.json();
+        return {
+          reachable: true,
+          response: {
+            success: true,
+            taskId,
+            status: resultData.status === 'failed' ? 'failed' : 'completed',
+            data: resultData.result,
+            result: resultData.result,
+            metadata: {
+              resultSource: 'resultBlob',
+              retrievedAt: Date.now()
+            }
+          }
+        };
+      }
+      if (resultResponse.status !== 404) {
+        return { reachable: false };
+      }
+
+      const statusResponse = await fetch(
+        `${this.API_BASE_URL}/task-status?taskId=${taskId}&includeResult=false`,
+        { method: 'GET', headers }
+      );
+
+      if (statusResponse.status === 404) {
+        return { reachable: true, response: null };
+      }
+      if (!statusResponse.ok) {
+        return { reachable: false };
+      }
+
+      const statusData = await statusResponse.json();
+      const remoteTask = statusData.data;
+
+      // 経過時間による推定（age-based-inference）は長時間タスクを誤判定するため、
+      // result blob に記録された失敗状態のみを採用する（完了は task-result で確認済み）
+      if (!remoteTask?.metadata?.fromNetlifyBlobs || remoteTask.status !== 'failed') {
+        return { reachable: true, response: null };
+      }
+
+      return {
+        reachable: true,
+        response: {
+          success: true,
+          taskId,
+          status: 'failed',
+          progress: remoteTask.progress,
+          error: remoteTask.error?.message,
+          metadata: {
+            resultSource: 'taskStatus',
+            retrievedAt: Date.now()
+          }
+        }
+      };
+    } catch (error) {
+      console.warn(`Failed to fetch remote state for task ${taskId}:`, error);
+      return { reachable: false };
     }
   }
 
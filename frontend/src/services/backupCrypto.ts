@@ -0,0 +1,147 @@
+/**
+ * Passphrase-based encryption for backup files
+ * AES-GCM (256bit) with a key derived from the passphrase by PBKDF2-SHA256 (WebCrypto)
+ */
+
+export const ENCRYPTED_BACKUP_FORMAT = 'mvv-encrypted-backup';
+
+const PBKDF2_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedBackupFile {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  formatVersion: number;
+  algorithm: 'AES-GCM';
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string; // base64
+  };
+  iv: string; // base64
+  ciphertext: string; // base64
+  createdAt: string;
+}
+
+export class BackupDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupDecryptionError';
+  }
+}
+
+/**
+ * 暗号化バックアップかどうかを判定
+ */
+export function isEncryptedBackup(data: unknown): data is EncryptedBackupFile {
+  const candidate = data as Partial<EncryptedBackupFile> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    candidate.format === ENCRYPTED_BACKUP_FORMAT &&
+    typeof candidate.ciphertext === 'string' &&
+    typeof candidate.iv === 'string' &&
+    typeof candidate.kdf?.salt === 'string'
+  );
+}
+
+/**
+ * パスフレーズの強度チェック（エラーメッセージ、問題なければ null）
+ */
+export function validatePassphrase(passphrase: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上で入力してください`;
+  }
+  return null;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  // 大きなバッファでもスタックを溢れさせないよう分割して変換
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * バックアップデータをパスフレーズで暗号化
+ */
+export async function encryptBackup(data: unknown, passphrase: string): Promise<EncryptedBackupFile> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const plaintext = new TextEncoder().encode(JSON.stringify(data));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    formatVersion: 1,
+    algorithm: 'AES-GCM',
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt)
+    },
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    createdAt: new Date().toISOString()
+  };
+}
+
+/**
+ * 暗号化バックアップを復号
+ * パスフレーズ誤り・改ざんはいずれも AES-GCM の認証失敗として BackupDecryptionError になる
+ */
+export async function decryptBackup(file: EncryptedBackupFile, passphrase: string): Promise<unknown> {
+  if (file.algorithm !== 'AES-GCM' || file.kdf.name !== 'PBKDF2') {
+    throw new BackupDecryptionError(`Unsupported encryption: ${file.algorithm} / ${file.kdf.name}`);
+  }
+
+  const key = await deriveKey(passphrase, fromBase64(file.kdf.salt), file.kdf.iterations);
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(file.iv) },
+      key,
+      fromBase64(file.ciphertext)
+    );
+  } catch {
+    throw new BackupDecryptionError('パスフレーズが正しくないか、ファイルが破損しています');
+  }
+
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
@@ -2,13 +2,52 @@
  * Backup and Restore functionality for MVV extraction system
  */
 
-import { companyStorage, mvvStorage, db } from './storage';
+import { companyStorage, mvvStorage, db, type DBCompanyInfo } from './storage';
 import { ideaStorageService, type StoredBusinessIdea } from './ideaStorage';
-import type { Company, MVVData, CompanyInfo } from '../types';
+import { encryptBackup, decryptBackup, isEncryptedBackup, BackupDecryptionError } from './backupCrypto';
+import { MVV_FIELDS, MVV_FIELD_LABELS } from './mvvFieldEmbeddings';
+import type { Company, MVVData, CompanyInfo, CompanyFieldEmbeddings } from '../types';
+
+const BACKUP_HISTORY_KEY = 'mvv_backup_history';
+
+/**
+ * バックアップ種別
+ * - full: 全データ
+ * - incremental: 直前のバックアップ以降の変更のみ
+ * - differential: 直近のフルバックアップ以降の変更のみ
+ */
+export type BackupMode = 'full' | 'incremental' | 'differential';
+
+/**
+ * バックアップチェーンのマニフェスト
+ * フルバックアップを起点に parentBackupId を辿ることでリストア順序を復元する
+ */
+export interface BackupManifest {
+  backupId: string;
+  mode: BackupMode;
+  baseBackupId: string; // チェーン起点のフルバックアップ
+  parentBackupId: string | null;
+  sequence: number; // フル=0、以降チェーン上の位置
+  since: string | null; // この時刻より後に変更されたレコードのみ含む
+  createdAt: string;
+  recordIds?: BackupRecordIds; // 増分・差分のみ。作成時点に存在した全レコードのキー（削除の検出用）
+}
+
+/**
+ * テーブルごとのレコードキー一覧
+ * 増分・差分は変更されたレコードしか含まないため、チェーン再生時にここにないレコードを削除済みとして除外する
+ */
+export interface BackupRecordIds {
+  companies: string[];
+  mvvData: string[]; // mvvVersionKey
+  companyInfo: string[]; // companyId
+  businessIdeas: string[];
+}
 
 export interface BackupData {
   version: string;
   timestamp: string;
+  manifest?: BackupManifest; // 旧フォーマットにはなし（フルバックアップとして扱う）
   companies: Company[];
   mvvData: MVVData[];
   companyInfo: CompanyInfo[]; // 企業情報を追加
@@ -17,6 +56,7 @@ export interface BackupData {
     totalCompanies: number;
     companiesWithMVV: number;
     companiesWithEmbeddings: number;
+    companiesWithFieldEmbeddings?: number; // 項目別Embeddingsを持つ企業数（3.2.0以降）
     companiesWithInfo: number; // 企業情報数を追加
     totalIdeas: number; // ビジネスアイデア総数を追加
     companiesWithIdeas: number; // アイデアを持つ企業数を追加
@@ -55,29 +95,178 @@ export interface RestoreResult {
   }>;
 }
 
+export type RestoreRecordType = keyof RestoreResult['details'];
+
+/**
+ * リストアプレビューでの各レコードの状態
+ * - new: ローカルに存在しない
+ * - identical: ローカルと内容が一致
+ * - conflict: ローカルと内容が異なる
+ */
+export type RestoreRecordStatus = 'new' | 'identical' | 'conflict';
+
+export type ConflictResolution = 'keep-local' | 'take-backup' | 'newest-wins';
+
+/** プレビューのレコードキー → 競合解決方法 */
+export type RestoreResolutions = Record<string, ConflictResolution>;
+
+export interface RestoreFieldDiff {
+  field: string;
+  local: string;
+  backup: string;
+}
+
+export interface RestorePreviewEntry {
+  key: string;
+  type: RestoreRecordType;
+  label: string;
+  status: RestoreRecordStatus;
+  localTimestamp?: string;
+  backupTimestamp?: string;
+  diffs: RestoreFieldDiff[];
+}
+
+export interface RestorePreview {
+  entries: RestorePreviewEntry[];
+  counts: Record<RestoreRecordType, Record<RestoreRecordStatus, number>>;
+}
+
+export interface ExportBackupOptions {
+  passphrase?: string; // 指定時は AES-GCM で暗号化したファイルを出力
+}
+
 /**
- * Create a complete backup of all company and MVV data
+ * 暗号化バックアップのパスフレーズ入力を求めるコールバック
+ * キャンセル時は null を返す。前回の入力が誤っていた場合は previousError が渡される
  */
-export async function createBackup(): Promise<BackupData> {
+export type PassphraseRequester = (fileName: string, previousError?: string) => Promise<string | null>;
+
+const MAX_PASSPHRASE_ATTEMPTS = 3;
+
+export class BackupPassphraseRequiredError extends Error {
+  constructor(message = 'This backup file is encrypted. A passphrase is required to read it.') {
+    super(message);
+    this.name = 'BackupPassphraseRequiredError';
+  }
+}
+
+export class BackupChainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupChainError';
+  }
+}
+
+/**
+ * エクスポート済みバックアップのマニフェスト履歴（古い順）
+ */
+export function getBackupHistory(): BackupManifest[] {
   try {
-    console.log('Creating backup...');
-    
-    const [companies, mvvData, companyInfoData, businessIdeas] = await Promise.all([
+    const stored = localStorage.getItem(BACKUP_HISTORY_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function recordBackupManifest(manifest: BackupManifest): void {
+  const history = getBackupHistory();
+  // レコードキー一覧はバックアップファイルにのみ持たせ、履歴には残さない
+  history.push({ ...manifest, recordIds: undefined });
+  localStorage.setItem(BACKUP_HISTORY_KEY, JSON.stringify(history));
+}
+
+function generateBackupId(): string {
+  return `backup_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+/**
+ * 新しいバックアップのマニフェストを作成
+ * 増分は直前のバックアップ、差分は直近のフルバックアップを親にする
+ */
+function createManifest(mode: BackupMode, createdAt: string): BackupManifest {
+  const backupId = generateBackupId();
+
+  if (mode === 'full') {
+    return { backupId, mode, baseBackupId: backupId, parentBackupId: null, sequence: 0, since: null, createdAt };
+  }
+
+  const history = getBackupHistory();
+  const latestFullIndex = history.map(m => m.mode).lastIndexOf('full');
+  if (latestFullIndex === -1) {
+    throw new Error('No previous full backup found. Create a full backup first.');
+  }
+
+  const parent = mode === 'differential'
+    ? history[latestFullIndex]
+    : history[history.length - 1];
+
+  return {
+    backupId,
+    mode,
+    baseBackupId: parent.baseBackupId,
+    parentBackupId: parent.backupId,
+    sequence: parent.sequence + 1,
+    since: parent.createdAt,
+    createdAt
+  };
+}
+
+const toTime = (value: Date | string | number | undefined): number =>
+  value === undefined ? 0 : new Date(value).getTime();
+
+// MVV は企業ごとに複数バージョンを持つため、企業IDとバージョン番号で識別する
+const mvvVersionKey = (mvv: MVVData): string => `${mvv.companyId}:${mvv.version}`;
+
+/**
+ * Create a backup of company and MVV data
+ * incremental / differential では since 以降に変更されたレコードのみを含める
+ */
+export async function createBackup(mode: BackupMode = 'full'): Promise<BackupData> {
+  try {
+    console.log(`Creating ${mode} backup...`);
+
+    // 読み込み中の変更を取りこぼさないよう、取得前の時刻を基準時刻とする
+    const timestamp = new Date().toISOString();
+    const manifest = createManifest(mode, timestamp);
+    const sinceTime = manifest.since ? toTime(manifest.since) : null;
+    const isChanged = (value: Date | string | number | undefined) =>
+      sinceTime === null || toTime(value) > sinceTime;
+
+    const [allCompanies, allMVVData, companyInfoData, allBusinessIdeas] = await Promise.all([
       companyStorage.getAll(),
-      mvvStorage.getAll(),
+      mvvStorage.getAll(false), // 過去バージョンも履歴として含める
       db.companyInfo.toArray(), // 企業情報を追加
       ideaStorageService.getIdeas() // ビジネスアイデアを追加
     ]);
-    
+
+    const companies = allCompanies.filter(c => isChanged(c.updatedAt));
+    // 過去バージョンの再有効化は extractedAt が変わらないため、企業の更新でも対象に含める
+    const changedCompanyIds = new Set(companies.map(c => c.id));
+    const mvvData = allMVVData.filter(m => isChanged(m.extractedAt) || changedCompanyIds.has(m.companyId));
+    const businessIdeas = allBusinessIdeas.filter(idea => isChanged(idea.updatedAt));
+
+    if (mode !== 'full') {
+      manifest.recordIds = {
+        companies: allCompanies.map(c => c.id),
+        mvvData: allMVVData.map(mvvVersionKey),
+        companyInfo: companyInfoData.map(info => info.companyId),
+        businessIdeas: allBusinessIdeas.map(idea => idea.id)
+      };
+    }
+
     // CompanyInfoを正しい形式に変換
-    const companyInfo: CompanyInfo[] = companyInfoData.map((info: any) => ({
-      ...info,
-      lastUpdated: new Date(info.lastUpdated)
-    }));
+    const companyInfo: CompanyInfo[] = companyInfoData
+      .filter(info => isChanged(info.lastUpdated))
+      .map((info: any) => ({
+        ...info,
+        lastUpdated: new Date(info.lastUpdated)
+      }));
     
     // Calculate statistics
     const companiesWithMVV = companies.filter((c: any) => c.mission || c.vision || c.values).length;
     const companiesWithEmbeddings = companies.filter((c: any) => c.embeddings && c.embeddings.length > 0).length;
+    const companiesWithFieldEmbeddings = companies.filter(c => c.fieldEmbeddings && Object.keys(c.fieldEmbeddings).length > 0).length;
     const companiesWithInfo = companyInfo.length; // 企業情報統計を追加
     const totalIdeas = businessIdeas.length; // ビジネスアイデア総数
     const companiesWithIdeas = new Set(businessIdeas.map((idea: any) => idea.companyId)).size; // アイデアを持つ企業数
@@ -98,6 +287,7 @@ export async function createBackup(): Promise<BackupData> {
       totalCompanies: companies.length,
       companiesWithMVV,
       companiesWithEmbeddings,
+      companiesWithFieldEmbeddings,
       companiesWithInfo,
       totalIdeas,
       companiesWithIdeas,
@@ -106,8 +296,9 @@ export async function createBackup(): Promise<BackupData> {
     });
     
     const backup: BackupData = {
-      version: '3.0.0', // ビジネスアイデア対応のためバージョンアップ
-      timestamp: new Date().toISOString(),
+      version: '3.2.0', // 項目別Embeddings（ミッション・ビジョン・バリュー各項目）を含む
+      timestamp,
+      manifest,
       companies,
       mvvData,
       companyInfo, // 企業情報を追加
@@ -116,6 +307,7 @@ export async function createBackup(): Promise<BackupData> {
         totalCompanies: companies.length,
         companiesWithMVV,
         companiesWithEmbeddings,
+        companiesWithFieldEmbeddings,
         companiesWithInfo, // 企業情報統計を追加
         totalIdeas, // ビジネスアイデア統計を追加
         companiesWithIdeas, // アイデアを持つ企業数を追加
@@ -136,24 +328,34 @@ export async function createBackup(): Promise<BackupData> {
 /**
  * Export backup data as downloadable JSON file
  */
-export async function exportBackup(): Promise<void> {
+export async function exportBackup(mode: BackupMode = 'full', options: ExportBackupOptions = {}): Promise<void> {
   try {
-    const backup = await createBackup();
+    const backup = await createBackup(mode);
+    const content = options.passphrase
+      ? JSON.stringify(await encryptBackup(backup, options.passphrase))
+      : JSON.stringify(backup, null, 2);
     
-    const blob = new Blob([JSON.stringify(backup, null, 2)], {
+    const blob = new Blob([content], {
       type: 'application/json'
     });
     
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `mvv-backup-${new Date().toISOString().split('T')[0]}.json`;
+    const date = backup.timestamp.split('T')[0];
+    const suffix = options.passphrase ? '-encrypted' : '';
+    link.download = mode === 'full'
+      ? `mvv-backup-${date}${suffix}.json`
+      : `mvv-backup-${date}-${mode}-${backup.manifest!.sequence}${suffix}.json`;
     
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     
     URL.revokeObjectURL(url);
+
+    // 次回の増分・差分バックアップの起点として記録
+    recordBackupManifest(backup.manifest!);
     
     console.log('Backup exported successfully');
   } catch (error) {
@@ -162,10 +364,358 @@ export async function exportBackup(): Promise<void> {
   }
 }
 
+/**
+ * バックアップファイル群からリストア対象のチェーンを解決（フル → 差分/増分の順）
+ * 最新のバックアップから親を辿り、欠けているバックアップがあればエラーにする
+ */
+export function resolveBackupChain(backups: BackupData[]): BackupData[] {
+  if (backups.length === 0) {
+    throw new BackupChainError('No backup files selected');
+  }
+
+  // マニフェストのない旧フォーマットは単独のフルバックアップとして扱う
+  const legacy = backups.filter(b => !b.manifest);
+  if (legacy.length > 0) {
+    if (backups.length > 1) {
+      throw new BackupChainError('Legacy backups without a manifest cannot be combined with other backup files');
+    }
+    return backups;
+  }
+
+  const baseIds = new Set(backups.map(b => b.manifest!.baseBackupId));
+  if (baseIds.size > 1) {
+    throw new BackupChainError('Selected backup files belong to different backup chains');
+  }
+
+  const byId = new Map(backups.map(b => [b.manifest!.backupId, b]));
+  const target = backups.reduce((latest, b) =>
+    b.manifest!.sequence > latest.manifest!.sequence ||
+    (b.manifest!.sequence === latest.manifest!.sequence && b.timestamp > latest.timestamp)
+      ? b
+      : latest
+  );
+
+  const chain: BackupData[] = [];
+  let current: BackupData | undefined = target;
+  while (current) {
+    chain.unshift(current);
+    const parentId: string | null = current.manifest!.parentBackupId;
+    if (parentId === null) break;
+
+    const parent = byId.get(parentId);
+    if (!parent) {
+      throw new BackupChainError(
+        `Backup chain is incomplete: backup #${current.manifest!.sequence - 1} (${parentId}) is missing`
+      );
+    }
+    current = parent;
+  }
+
+  if (chain[0].manifest!.mode !== 'full') {
+    throw new BackupChainError('Backup chain is incomplete: the base full backup is missing');
+  }
+
+  const unused = backups.filter(b => !chain.includes(b));
+  if (unused.length > 0) {
+    console.warn(`${unused.length} backup file(s) are not part of the resolved chain and will be ignored`);
+  }
+
+  return chain;
+}
+
+function dropMissing<T>(records: Map<string, T>, existingKeys: string[]): void {
+  const existing = new Set(existingKeys);
+  for (const key of Array.from(records.keys())) {
+    if (!existing.has(key)) records.delete(key);
+  }
+}
+
+/**
+ * チェーンを古い順に重ね合わせ、リストアすべき最終状態を求める（後のバックアップが優先）
+ */
+function mergeBackupChain(chain: BackupData[]): BackupData {
+  if (chain.length === 1) return chain[0];
+
+  const companies = new Map<string, Company>();
+  const mvvData = new Map<string, MVVData>();
+  const companyInfo = new Map<string, CompanyInfo>();
+  const businessIdeas = new Map<string, StoredBusinessIdea>();
+
+  for (const backup of chain) {
+    backup.companies.forEach(c => companies.set(c.id, c));
+    backup.mvvData.forEach(m => mvvData.set(mvvVersionKey(m), m));
+    (backup.companyInfo || []).forEach(info => companyInfo.set(info.companyId, info));
+    (backup.businessIdeas || []).forEach(idea => businessIdeas.set(idea.id, idea));
+  }
+
+  // 最新バックアップの作成時点で存在しなかったレコードは削除済みとして除外する
+  const latest = chain[chain.length - 1];
+  const recordIds = latest.manifest?.recordIds;
+  if (recordIds) {
+    dropMissing(companies, recordIds.companies);
+    dropMissing(mvvData, recordIds.mvvData);
+    dropMissing(companyInfo, recordIds.companyInfo);
+    dropMissing(businessIdeas, recordIds.businessIdeas);
+  }
+
+  return {
+    ...latest,
+    companies: Array.from(companies.values()),
+    mvvData: Array.from(mvvData.values()),
+    companyInfo: Array.from(companyInfo.values()),
+    businessIdeas: Array.from(businessIdeas.values())
+  };
+}
+
+interface RecordMatch<TBackup, TLocal> {
+  key: string;
+  type: RestoreRecordType;
+  label: string;
+  backup: TBackup;
+  local?: TLocal;
+}
+
+/**
+ * バックアップの各レコードを突合対象のローカルレコードと対応付ける
+ * 企業は企業名+Website、MVVは企業ID+バージョン、企業情報は企業ID、アイデアはIDで突合する
+ */
+async function matchBackupRecords(backupData: BackupData) {
+  const [existingCompanies, existingMVVData, existingCompanyInfo, existingIdeas] = await Promise.all([
+    companyStorage.getAll(),
+    mvvStorage.getAll(false),
+    db.companyInfo.toArray(),
+    ideaStorageService.getIdeas()
+  ]);
+
+  const companyMap = new Map(existingCompanies.map(c => [`${c.name}|${c.website}`, c]));
+  const mvvMap = new Map(existingMVVData.map(m => [mvvVersionKey(m), m]));
+  const companyInfoMap = new Map(existingCompanyInfo.map(info => [info.companyId, info]));
+  const ideaMap = new Map(existingIdeas.map(idea => [idea.id, idea]));
+  const companyNames = new Map(backupData.companies.map(c => [c.id, c.name]));
+  const companyLabel = (companyId: string) => companyNames.get(companyId) ?? companyId;
+
+  return {
+    companies: backupData.companies.map((backup): RecordMatch<Company, Company> => ({
+      key: `companies:${backup.name}|${backup.website}`,
+      type: 'companies',
+      label: backup.name,
+      backup,
+      local: companyMap.get(`${backup.name}|${backup.website}`)
+    })),
+    mvvData: backupData.mvvData.map((backup): RecordMatch<MVVData, MVVData> => ({
+      key: `mvvData:${mvvVersionKey(backup)}`,
+      type: 'mvvData',
+      label: `${companyLabel(backup.companyId)} v${backup.version}`,
+      backup,
+      local: mvvMap.get(mvvVersionKey(backup))
+    })),
+    companyInfo: (backupData.companyInfo || []).map((backup): RecordMatch<CompanyInfo, DBCompanyInfo> => ({
+      key: `companyInfo:${backup.companyId}`,
+      type: 'companyInfo',
+      label: companyLabel(backup.companyId),
+      backup,
+      local: companyInfoMap.get(backup.companyId)
+    })),
+    businessIdeas: (backupData.businessIdeas || []).map((backup): RecordMatch<StoredBusinessIdea, StoredBusinessIdea> => ({
+      key: `businessIdeas:${backup.id}`,
+      type: 'businessIdeas',
+      label: `${backup.title}（${backup.companyName}）`,
+      backup,
+      local: ideaMap.get(backup.id)
+    }))
+  };
+}
+
+// 差分比較の対象外とするフィールド（ID・採番・タイムスタンプ）
+const DIFF_IGNORED_FIELDS: Record<RestoreRecordType, string[]> = {
+  companies: ['id', 'createdAt', 'updatedAt', 'lastProcessed'],
+  mvvData: ['id', 'version', 'extractedAt'],
+  companyInfo: ['id', 'lastUpdated'],
+  businessIdeas: ['createdAt', 'updatedAt']
+};
+
+const TIMESTAMP_FIELDS: Record<RestoreRecordType, string> = {
+  companies: 'updatedAt',
+  mvvData: 'extractedAt',
+  companyInfo: 'lastUpdated',
+  businessIdeas: 'updatedAt'
+};
+
+const recordTime = (type: RestoreRecordType, record: unknown): number =>
+  toTime((record as Record<string, Date | string | number | undefined>)[TIMESTAMP_FIELDS[type]]);
+
+/**
+ * キー順に依存しない比較用の文字列化（Date は JSON と同じ ISO 文字列になる）
+ */
+const stableStringify = (value: unknown): string => {
+  const normalized = value === undefined ? null : JSON.parse(JSON.stringify(value));
+  const sortKeys = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.map(sortKeys);
+    if (v && typeof v === 'object') {
+      return Object.keys(v as object).sort().reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = sortKeys((v as Record<string, unknown>)[key]);
+        return acc;
+      }, {});
+    }
+    return v;
+  };
+  return JSON.stringify(sortKeys(normalized));
+};
+
+const formatFieldValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (Array.isArray(value) && value.length > 20 && value.every(v => typeof v === 'number')) {
+    return `[${value.length}次元ベクトル]`;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+// 項目別Embeddingsはベクトルを並べず、持っている項目だけを表示する
+const formatFieldEmbeddings = (value: unknown): string => {
+  if (!value || typeof value !== 'object') return '';
+  const fieldEmbeddings = value as CompanyFieldEmbeddings;
+  return [
+    ...MVV_FIELDS.filter(field => fieldEmbeddings[field]?.length).map(field => MVV_FIELD_LABELS[field]),
+    fieldEmbeddings.valueItems?.length ? `バリュー${fieldEmbeddings.valueItems.length}項目` : ''
+  ].filter(Boolean).join('・');
+};
+
+function diffRecordFields(type: RestoreRecordType, local: object, backup: object): RestoreFieldDiff[] {
+  const ignored = DIFF_IGNORED_FIELDS[type];
+  const localRecord = local as Record<string, unknown>;
+  const backupRecord = backup as Record<string, unknown>;
+  const fields = new Set([...Object.keys(localRecord), ...Object.keys(backupRecord)]);
+
+  return Array.from(fields)
+    .filter(field => !ignored.includes(field))
+    .filter(field => {
+      const localValue = localRecord[field] === '' ? undefined : localRecord[field];
+      const backupValue = backupRecord[field] === '' ? undefined : backupRecord[field];
+      return stableStringify(localValue) !== stableStringify(backupValue);
+    })
+    .map(field => {
+      const format = type === 'companies' && field === 'fieldEmbeddings' ? formatFieldEmbeddings : formatFieldValue;
+      return {
+        field,
+        local: format(localRecord[field]),
+        backup: format(backupRecord[field])
+      };
+    });
+}
+
+function toPreviewEntry<TBackup, TLocal>(match: RecordMatch<TBackup, TLocal>): RestorePreviewEntry {
+  const toIso = (record: unknown) => {
+    const time = recordTime(match.type, record);
+    return time > 0 ? new Date(time).toISOString() : undefined;
+  };
+
+  if (!match.local) {
+    return {
+      key: match.key,
+      type: match.type,
+      label: match.label,
+      status: 'new',
+      backupTimestamp: toIso(match.backup),
+      diffs: []
+    };
+  }
+
+  const diffs = diffRecordFields(match.type, match.local as object, match.backup as object);
+  return {
+    key: match.key,
+    type: match.type,
+    label: match.label,
+    status: diffs.length > 0 ? 'conflict' : 'identical',
+    localTimestamp: toIso(match.local),
+    backupTimestamp: toIso(match.backup),
+    diffs
+  };
+}
+
+/**
+ * リストアのドライラン
+ * 何も書き込まずに、各レコードが新規・同一・競合のどれに当たるかとフィールド差分を返す
+ */
+export async function previewRestore(backups: BackupData[]): Promise<RestorePreview> {
+  const backupData = mergeBackupChain(resolveBackupChain(backups));
+  const matches = await matchBackupRecords(backupData);
+
+  const entries: RestorePreviewEntry[] = [
+    ...matches.companies.map(toPreviewEntry),
+    ...matches.mvvData.map(toPreviewEntry),
+    ...matches.companyInfo.map(toPreviewEntry),
+    ...matches.businessIdeas.map(toPreviewEntry)
+  ];
+
+  const emptyCounts = (): Record<RestoreRecordStatus, number> => ({ new: 0, identical: 0, conflict: 0 });
+  const counts: RestorePreview['counts'] = {
+    companies: emptyCounts(),
+    mvvData: emptyCounts(),
+    companyInfo: emptyCounts(),
+    businessIdeas: emptyCounts()
+  };
+  entries.forEach(entry => {
+    counts[entry.type][entry.status]++;
+  });
+
+  return { entries, counts };
+}
+
+const createEmptyRestoreResult = (): RestoreResult => ({
+  success: true,
+  stats: { total: 0, updated: 0, created: 0, skipped: 0, errors: 0 },
+  details: {
+    companies: { total: 0, updated: 0, created: 0 },
+    mvvData: { total: 0, updated: 0, created: 0 },
+    companyInfo: { total: 0, updated: 0, created: 0 },
+    businessIdeas: { total: 0, updated: 0, created: 0 }
+  },
+  errors: []
+});
+
+/**
+ * Restore a backup chain (full backup followed by differential / incremental backups)
+ * チェーンが揃っていることを確認してから、古い順に重ね合わせた最終状態を書き込む
+ * resolutions で競合レコードごとの解決方法を指定できる（未指定の競合は defaultResolution）
+ */
+export async function restoreFromBackupChain(
+  backups: BackupData[],
+  resolutions: RestoreResolutions = {},
+  defaultResolution: ConflictResolution = 'take-backup'
+): Promise<RestoreResult> {
+  let chain: BackupData[];
+  try {
+    chain = resolveBackupChain(backups);
+  } catch (error) {
+    console.error('Backup chain validation failed:', error);
+    return {
+      ...createEmptyRestoreResult(),
+      success: false,
+      stats: { total: 0, updated: 0, created: 0, skipped: 0, errors: 1 },
+      errors: [{
+        companyName: 'System',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }]
+    };
+  }
+
+  console.log(`Replaying ${chain.length} backup(s): ${chain.map(b => b.manifest?.mode ?? 'full').join(' → ')}`);
+  return await applyBackup(mergeBackupChain(chain), resolutions, defaultResolution);
+}
+
 /**
  * Restore data from backup with intelligent merging
+ * 増分・差分バックアップ単体ではチェーンが不完全なためリストアしない
  */
 export async function restoreFromBackup(backupData: BackupData): Promise<RestoreResult> {
+  return await restoreFromBackupChain([backupData]);
+}
+
+async function applyBackup(
+  backupData: BackupData,
+  resolutions: RestoreResolutions = {},
+  defaultResolution: ConflictResolution = 'take-backup'
+): Promise<RestoreResult> {
   try {
     console.log('Starting restore process...');
     
@@ -186,20 +736,31 @@ export async function restoreFromBackup(backupData: BackupData): Promise<Restore
       },
       errors: []
     };
-    
-    // Get existing companies for comparison
-    const existingCompanies = await companyStorage.getAll();
-    const existingMap = new Map(existingCompanies.map(c => 
-      [`${c.name}|${c.website}`, c]
-    ));
+
+    const matches = await matchBackupRecords(backupData);
+
+    // 既存レコードをバックアップで上書きするかを、プレビューで選ばれた解決方法から判定
+    const shouldOverwrite = <TBackup, TLocal>(match: RecordMatch<TBackup, TLocal>): boolean => {
+      if (!match.local) return true;
+      if (toPreviewEntry(match).status === 'identical') return false;
+
+      const resolution = resolutions[match.key] ?? defaultResolution;
+      if (resolution === 'keep-local') return false;
+      if (resolution === 'take-backup') return true;
+      return recordTime(match.type, match.backup) > recordTime(match.type, match.local);
+    };
     
     // Process each company in the backup
-    for (const backupCompany of backupData.companies) {
+    for (const match of matches.companies) {
+      const backupCompany = match.backup;
+      const existingCompany = match.local;
       try {
-        const key = `${backupCompany.name}|${backupCompany.website}`;
-        const existingCompany = existingMap.get(key);
-        
         if (existingCompany) {
+          if (!shouldOverwrite(match)) {
+            result.stats.skipped++;
+            continue;
+          }
+
           // Update existing company with backup data
           const updateData = {
             ...backupCompany,
@@ -249,28 +810,26 @@ export async function restoreFromBackup(backupData: BackupData): Promise<Restore
     
     // Restore MVV data
     console.log('Restoring MVV data...');
-    const existingMVVData = await mvvStorage.getAll();
-    const existingMVVMap = new Map(existingMVVData.map(m => 
-      [m.companyId, m]
-    ));
-    
-    for (const backupMVV of backupData.mvvData) {
+    for (const match of matches.mvvData) {
+      const backupMVV = match.backup;
+      const existingMVV = match.local;
       try {
-        const existingMVV = existingMVVMap.get(backupMVV.companyId);
-        
         if (existingMVV) {
-          // Update existing MVV data
-          await mvvStorage.update(existingMVV.id!, {
+          if (!shouldOverwrite(match)) continue;
+
+          // Update existing MVV version
+          await mvvStorage.restore({
             ...backupMVV,
-            id: existingMVV.id,
             extractedAt: new Date(backupMVV.extractedAt)
           });
+          result.details.mvvData.updated++;
         } else {
-          // Create new MVV data
-          await mvvStorage.create({
+          // Create MVV version with its original version number and active flag
+          await mvvStorage.restore({
             ...backupMVV,
             extractedAt: new Date(backupMVV.extractedAt)
           });
+          result.details.mvvData.created++;
         }
       } catch (error) {
         console.error(`Failed to restore MVV data for company ${backupMVV.companyId}:`, error);
@@ -278,18 +837,18 @@ export async function restoreFromBackup(backupData: BackupData): Promise<Restore
     }
     
     // Restore Company Info data (if available)
-    if (backupData.companyInfo && backupData.companyInfo.length > 0) {
+    if (matches.companyInfo.length > 0) {
       console.log('Restoring company info data...');
-      const existingCompanyInfoData = await db.companyInfo.toArray();
-      const existingCompanyInfoMap = new Map(existingCompanyInfoData.map(info => 
-        [info.companyId, info]
-      ));
-      
-      for (const backupInfo of backupData.companyInfo) {
+      for (const match of matches.companyInfo) {
+        const backupInfo = match.backup;
+        const existingInfo = match.local;
         try {
-          const existingInfo = existingCompanyInfoMap.get(backupInfo.companyId);
-          
           if (existingInfo) {
+            if (!shouldOverwrite(match)) {
+              result.stats.skipped++;
+              continue;
+            }
+
             // Update existing company info
             await db.companyInfo.update(existingInfo.id!, {
               ...backupInfo,
@@ -313,24 +872,29 @@ export async function restoreFromBackup(backupData: BackupData): Promise<Restore
     }
     
     // Restore Business Ideas data (if available)
-    if (backupData.businessIdeas && backupData.businessIdeas.length > 0) {
+    if (matches.businessIdeas.length > 0) {
       console.log('Restoring business ideas data...');
-      const existingIdeas = await ideaStorageService.getIdeas();
-      const existingIdeasMap = new Map(existingIdeas.map((idea: any) => 
-        [idea.id, idea]
-      ));
-      
-      for (const backupIdea of backupData.businessIdeas) {
+      for (const match of matches.businessIdeas) {
+        const backupIdea = match.backup;
         try {
-          const existingIdea = existingIdeasMap.get(backupIdea.id);
-          
-          if (existingIdea) {
+          if (match.local) {
+            if (!shouldOverwrite(match)) {
+              result.stats.skipped++;
+              continue;
+            }
+
             // Update existing business idea
-            await ideaStorageService.updateIdeaWithVerification(backupIdea.id, backupIdea.verification);
+            const ideaUpdates: Partial<StoredBusinessIdea> = { ...backupIdea };
+            delete ideaUpdates.id;
+            delete ideaUpdates.createdAt;
+            delete ideaUpdates.updatedAt;
+            await ideaStorageService.updateIdea(backupIdea.id, ideaUpdates);
             result.details.businessIdeas.updated++;
           } else {
             // Create new business idea
-            const ideaWithoutId = {
+            // 子アイデアの parentIdeaId / rootIdeaId が辿れるよう、バックアップ時のIDを引き継ぐ
+            const restoredIdea = {
+              id: backupIdea.id,
               companyId: backupIdea.companyId,
               companyName: backupIdea.companyName,
               title: backupIdea.title,
@@ -355,9 +919,13 @@ export async function restoreFromBackup(backupData: BackupData): Promise<Restore
               },
               status: backupIdea.status || 'draft',
               starred: backupIdea.starred || false,
-              tags: backupIdea.tags || []
+              tags: backupIdea.tags || [],
+              parentIdeaId: backupIdea.parentIdeaId,
+              rootIdeaId: backupIdea.rootIdeaId,
+              generation: backupIdea.generation,
+              refinementContext: backupIdea.refinementContext
             };
-            await ideaStorageService.saveIdea(ideaWithoutId);
+            await ideaStorageService.saveIdea(restoredIdea);
             result.details.businessIdeas.created++;
           }
         } catch (error) {
@@ -400,6 +968,11 @@ export async function restoreFromBackup(backupData: BackupData): Promise<Restore
  * Validate backup data structure
  */
 export function validateBackupData(data: any): data is BackupData {
+  // 暗号化バックアップは復号してから検証する必要がある（復号は readBackupFile 側で行う）
+  if (isEncryptedBackup(data)) {
+    return false;
+  }
+
   try {
     const isValid = (
       typeof data === 'object' &&
@@ -409,7 +982,20 @@ export function validateBackupData(data: any): data is BackupData {
       Array.isArray(data.companies) &&
       Array.isArray(data.mvvData) &&
       typeof data.stats === 'object' &&
-      typeof data.stats.totalCompanies === 'number'
+      typeof data.stats.totalCompanies === 'number' &&
+      (data.manifest === undefined || (
+        typeof data.manifest === 'object' &&
+        typeof data.manifest.backupId === 'string' &&
+        typeof data.manifest.baseBackupId === 'string' &&
+        typeof data.manifest.sequence === 'number' &&
+        // recordIds は増分・差分にのみ存在（旧マニフェストにはなし）
+        (data.manifest.recordIds === undefined || (
+          Array.isArray(data.manifest.recordIds.companies) &&
+          Array.isArray(data.manifest.recordIds.mvvData) &&
+          Array.isArray(data.manifest.recordIds.companyInfo) &&
+          Array.isArray(data.manifest.recordIds.businessIdeas)
+        ))
+      ))
     );
     
     // 後方互換性: companyInfoがない古いフォーマットも受け入れる
@@ -430,22 +1016,65 @@ export function validateBackupData(data: any): data is BackupData {
   }
 }
 
+/**
+ * バックアップファイルを読み込み、暗号化されていればパスフレーズを求めて復号する
+ */
+export async function readBackupFile(file: File, requestPassphrase?: PassphraseRequester): Promise<BackupData> {
+  let data: unknown = JSON.parse(await file.text());
+
+  if (isEncryptedBackup(data)) {
+    if (!requestPassphrase) {
+      throw new BackupPassphraseRequiredError(`${file.name} is encrypted. A passphrase is required to read it.`);
+    }
+
+    const encrypted = data;
+    let previousError: string | undefined;
+    for (let attempt = 0; attempt < MAX_PASSPHRASE_ATTEMPTS; attempt++) {
+      const passphrase = await requestPassphrase(file.name, previousError);
+      if (passphrase === null) {
+        throw new BackupPassphraseRequiredError(`Passphrase entry was cancelled for ${file.name}`);
+      }
+      try {
+        data = await decryptBackup(encrypted, passphrase);
+        previousError = undefined;
+        break;
+      } catch (error) {
+        if (!(error instanceof BackupDecryptionError)) throw error;
+        previousError = error.message;
+      }
+    }
+    if (previousError) {
+      throw new BackupDecryptionError(`${file.name}: ${previousError}`);
+    }
+  }
+
+  if (!validateBackupData(data)) {
+    throw new Error(`Invalid backup file format: ${file.name}`);
+  }
+  return data;
+}
+
 /**
  * Import backup from file
  */
-export async function importBackupFromFile(file: File): Promise<RestoreResult> {
+export async function importBackupFromFile(file: File, requestPassphrase?: PassphraseRequester): Promise<RestoreResult> {
+  return await importBackupFromFiles([file], requestPassphrase);
+}
+
+/**
+ * Import a backup chain from multiple files (full + differential / incremental)
+ */
+export async function importBackupFromFiles(files: File[], requestPassphrase?: PassphraseRequester): Promise<RestoreResult> {
   try {
-    const text = await file.text();
-    const data = JSON.parse(text);
-    
-    if (!validateBackupData(data)) {
-      throw new Error('Invalid backup file format');
+    const backups: BackupData[] = [];
+    for (const file of files) {
+      backups.push(await readBackupFile(file, requestPassphrase));
     }
-    
-    return await restoreFromBackup(data);
+
+    return await restoreFromBackupChain(backups);
     
   } catch (error) {
     console.error('Failed to import backup:', error);
     throw new Error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+}
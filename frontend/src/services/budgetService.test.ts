@@ -0,0 +1,268 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SchedulerJob } from '../types/jobScheduler';
+import type { BudgetConfig, BudgetOperationType } from '../types/budget';
+
+interface FakeLog {
+  timestamp: number;
+  operationType?: string;
+  cost: number;
+}
+
+// サービスの読み込み時に設定を読むため、モジュールの評価前に差し替える
+vi.hoisted(() => {
+  vi.stubGlobal('localStorage', {
+    getItem: () => null,
+    setItem: () => {}
+  });
+});
+
+const mocks = vi.hoisted(() => ({
+  logs: [] as FakeLog[],
+  logListeners: [] as Array<(change?: unknown) => void>,
+  startGuard: null as ((job: unknown) => unknown) | null,
+  scheduler: {
+    setStartGuard: vi.fn(),
+    subscribe: vi.fn(),
+    resume: vi.fn(),
+    wake: vi.fn()
+  }
+}));
+
+vi.mock('./apiLogger', () => ({
+  apiLoggerService: {
+    subscribe: (listener: (change?: unknown) => void) => {
+      mocks.logListeners.push(listener);
+      return () => {};
+    },
+    getLogs: async ({ dateRange }: { dateRange: { start: Date; end: Date } }) =>
+      mocks.logs
+        .filter(log => log.timestamp >= dateRange.start.getTime() && log.timestamp <= dateRange.end.getTime())
+        .map(log => ({
+          timestamp: log.timestamp,
+          metadata: { operationType: log.operationType, costTracking: { estimatedCost: log.cost } }
+        }))
+  }
+}));
+
+vi.mock('./jobScheduler', () => ({
+  jobScheduler: mocks.scheduler
+}));
+
+const { BudgetService, DEFAULT_BUDGET_CONFIG } = await import('./budgetService');
+
+const NOW = new Date(2026, 9, 18, 12, 0, 0).getTime();
+
+const createService = async (config: Partial<BudgetConfig> = {}) => {
+  const service = new BudgetService();
+  service.updateConfig({ ...DEFAULT_BUDGET_CONFIG, ...config });
+  await service.refreshSpend();
+  return service;
+};
+
+const scopeOf = (service: InstanceType<typeof BudgetService>, scope: string) =>
+  service.getStatus().scopes.find(s => s.scope === scope);
+
+const job = (budgetOperation?: BudgetOperationType): SchedulerJob => ({
+  id: 'job_1',
+  kind: 'other',
+  provider: 'openai',
+  label: 'test job',
+  priority: 'normal',
+  status: 'queued',
+  attempts: 0,
+  maxRetries: 0,
+  budgetOperation,
+  createdAt: NOW
+});
+
+describe('BudgetService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mocks.logs = [];
+    mocks.logListeners = [];
+    mocks.scheduler.setStartGuard.mockImplementation(guard => {
+      mocks.startGuard = guard;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    mocks.scheduler.resume.mockClear();
+    mocks.scheduler.wake.mockClear();
+  });
+
+  describe('threshold levels', () => {
+    it.each([
+      [4, 'ok', undefined],
+      [5, 'warning', 50],
+      [7.99, 'warning', 50],
+      [8, 'warning', 80],
+      [9.99, 'warning', 80],
+      [10, 'exceeded', 80],
+      [12, 'exceeded', 80]
+    ])('reports spend %d of a $10 monthly limit as %s', async (spent, level, threshold) => {
+      mocks.logs = [{ timestamp: NOW - 1000, operationType: 'extract-mvv', cost: spent }];
+      const service = await createService({ monthlyLimit: 10, warningThresholds: [50, 80] });
+
+      expect(scopeOf(service, 'monthly')).toMatchObject({ level, threshold, spent, ratio: spent / 10 });
+      expect(service.checkBudget().allowed).toBe(level !== 'exceeded');
+    });
+
+    it('includes the estimated cost of the next call', async () => {
+      mocks.logs = [{ timestamp: NOW - 1000, operationType: 'verify-ideas', cost: 9.96 }];
+      const service = await createService({ monthlyLimit: 10 });
+
+      expect(service.checkBudget().allowed).toBe(true);
+      const result = service.checkBudget('verify-ideas');
+      expect(result.estimatedCost).toBeCloseTo(9.96);
+      expect(result.allowed).toBe(false);
+      expect(result.blockingScopes.map(scope => scope.scope)).toEqual(['monthly']);
+    });
+
+    it('raises the warning level once the projected spend crosses a threshold', async () => {
+      mocks.logs = [{ timestamp: NOW - 1000, operationType: 'generate-ideas', cost: 0.45 }];
+      const service = await createService({ operationLimits: { ...DEFAULT_BUDGET_CONFIG.operationLimits, 'generate-ideas': 1 } });
+
+      const result = service.checkBudget('generate-ideas');
+      expect(result.level).toBe('warning');
+      expect(result.warningScopes[0]).toMatchObject({ scope: 'generate-ideas', threshold: 80 });
+    });
+
+    it('ignores limits when the budget is disabled', async () => {
+      mocks.logs = [{ timestamp: NOW - 1000, cost: 100 }];
+      const service = await createService({ enabled: false, monthlyLimit: 10 });
+
+      expect(service.checkBudget('extract-mvv')).toMatchObject({ allowed: true, level: 'ok', blockingScopes: [] });
+      expect(service.getStatus().scopes).toEqual([]);
+    });
+  });
+
+  describe('limit 0', () => {
+    it('blocks calls of the operation even without any spend', async () => {
+      const service = await createService({
+        operationLimits: { ...DEFAULT_BUDGET_CONFIG.operationLimits, 'verify-ideas': 0 }
+      });
+
+      expect(service.checkBudget('verify-ideas')).toMatchObject({ allowed: false, level: 'exceeded' });
+      expect(scopeOf(service, 'verify-ideas')).toMatchObject({ limit: 0, spent: 0, ratio: 1, level: 'exceeded' });
+    });
+
+    it('does not block other operations or calls without an operation', async () => {
+      const service = await createService({
+        operationLimits: { ...DEFAULT_BUDGET_CONFIG.operationLimits, 'verify-ideas': 0 }
+      });
+
+      expect(service.checkBudget('extract-mvv').allowed).toBe(true);
+      expect(service.checkBudget().allowed).toBe(true);
+    });
+
+    it('blocks every call when the daily limit is 0', async () => {
+      const service = await createService({ dailyLimit: 0 });
+      expect(service.checkBudget()).toMatchObject({ allowed: false });
+      expect(service.checkBudget('extract-mvv').blockingScopes.map(scope => scope.scope)).toEqual(['daily']);
+    });
+
+    it('treats a null limit as unlimited', async () => {
+      mocks.logs = [{ timestamp: NOW - 1000, operationType: 'extract-mvv', cost: 1000 }];
+      const service = await createService({ monthlyLimit: null, dailyLimit: null });
+
+      expect(service.checkBudget('extract-mvv').allowed).toBe(true);
+      expect(service.getStatus().scopes).toEqual([]);
+    });
+  });
+
+  describe('day and month rollover', () => {
+    const yesterday = new Date(2026, 9, 17, 23, 0, 0).getTime();
+    const lastMonth = new Date(2026, 8, 30, 23, 0, 0).getTime();
+
+    it('only counts today in the daily spend and this month in the monthly spend', async () => {
+      mocks.logs = [
+        { timestamp: lastMonth, operationType: 'extract-mvv', cost: 5 },
+        { timestamp: yesterday, operationType: 'extract-mvv', cost: 2 },
+        { timestamp: NOW - 1000, operationType: 'extract-mvv', cost: 1 }
+      ];
+      const service = await createService();
+
+      expect(service.getStatus().spend).toMatchObject({ monthly: 3, daily: 1 });
+      expect(service.getStatus().spend.callCounts['extract-mvv']).toBe(2);
+    });
+
+    it('resets the daily spend on the first check after midnight', async () => {
+      mocks.logs = [{ timestamp: NOW - 1000, operationType: 'extract-mvv', cost: 4 }];
+      const service = await createService({ dailyLimit: 4 });
+      expect(service.checkBudget().allowed).toBe(false);
+
+      vi.setSystemTime(new Date(2026, 9, 19, 0, 5, 0));
+      service.checkBudget();
+      await service.refreshSpend();
+
+      expect(service.getStatus().spend).toMatchObject({ monthly: 4, daily: 0 });
+      expect(service.checkBudget().allowed).toBe(true);
+    });
+
+    it('resets the monthly spend on the first check of a new month', async () => {
+      vi.setSystemTime(new Date(2026, 9, 31, 23, 0, 0));
+      mocks.logs = [{ timestamp: Date.now() - 1000, operationType: 'extract-mvv', cost: 10 }];
+      const service = await createService({ monthlyLimit: 10 });
+      expect(service.checkBudget().allowed).toBe(false);
+
+      vi.setSystemTime(new Date(2026, 10, 1, 0, 1, 0));
+      service.checkBudget();
+      await service.refreshSpend();
+
+      expect(service.getStatus().spend.monthly).toBe(0);
+      expect(service.checkBudget().allowed).toBe(true);
+    });
+
+    it('recalculates instead of applying a cost change that arrives after midnight', async () => {
+      mocks.logs = [{ timestamp: NOW - 1000, operationType: 'extract-mvv', cost: 3 }];
+      const service = await createService();
+
+      vi.setSystemTime(new Date(2026, 9, 19, 0, 5, 0));
+      const newLog = { timestamp: Date.now(), operationType: 'extract-mvv', cost: 0.5 };
+      mocks.logs.push(newLog);
+      mocks.logListeners.forEach(listener => listener({ ...newLog, previousCost: 0 }));
+      await service.refreshSpend();
+
+      expect(service.getStatus().spend).toMatchObject({ monthly: 3.5, daily: 0.5 });
+    });
+
+    it('applies cost changes of the current day incrementally', async () => {
+      mocks.logs = [{ timestamp: NOW - 1000, operationType: 'generate-ideas', cost: 1 }];
+      const service = await createService();
+
+      mocks.logListeners.forEach(listener =>
+        listener({ timestamp: NOW, operationType: 'generate-ideas', previousCost: 0, cost: 0.25 })
+      );
+
+      expect(service.getStatus().spend).toMatchObject({ monthly: 1.25, daily: 1.25 });
+      expect(service.getStatus().spend.callCounts['generate-ideas']).toBe(2);
+    });
+  });
+
+  describe('job start guard', () => {
+    it('holds only the job when a per-operation limit is reached', async () => {
+      const service = await createService({
+        operationLimits: { ...DEFAULT_BUDGET_CONFIG.operationLimits, 'verify-ideas': 0 }
+      });
+
+      expect(mocks.startGuard!(job('verify-ideas'))).toMatchObject({ scope: 'job' });
+      expect(mocks.startGuard!(job('extract-mvv'))).toBeNull();
+      expect(mocks.startGuard!(job())).toBeNull();
+      expect(service.getStatus().queuePaused).toBe(false);
+    });
+
+    it('pauses the whole queue when the monthly or daily limit is reached', async () => {
+      const service = await createService({ monthlyLimit: 0 });
+
+      expect(mocks.startGuard!(job())).toMatchObject({ scope: 'queue' });
+      expect(service.getStatus().queuePaused).toBe(true);
+
+      service.updateConfig({ monthlyLimit: null });
+      expect(mocks.scheduler.resume).toHaveBeenCalled();
+    });
+  });
+});
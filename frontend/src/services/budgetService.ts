@@ -0,0 +1,427 @@
+/**
+ * AI利用予算サービス
+ * APIログの推定コストから今月・今日の利用額を集計し、AIジョブの開始前に残り予算を確認する
+ * 上限に達した場合はジョブを失敗させず待機状態のまま残す（月間・日次はキュー全体を一時停止、処理種別ごとはその種別のジョブのみ待機）
+ */
+
+import type {
+  BudgetCheckResult,
+  BudgetConfig,
+  BudgetLevel,
+  BudgetOperationType,
+  BudgetScope,
+  BudgetScopeStatus,
+  BudgetSpendSummary,
+  BudgetStatus
+} from '../types/budget';
+import type { JobStartBlock, SchedulerJob } from '../types/jobScheduler';
+import { apiLoggerService, type ApiLogCostChange } from './apiLogger';
+import { jobScheduler } from './jobScheduler';
+import { CONSTANTS } from '../utils/constants';
+
+type BudgetListener = (status: BudgetStatus) => void;
+
+export const BUDGET_OPERATION_TYPES: BudgetOperationType[] = [
+  'extract-mvv',
+  'extract-company-info',
+  'generate-ideas',
+  'verify-ideas'
+];
+
+export const BUDGET_OPERATION_LABELS: Record<BudgetOperationType, string> = {
+  'extract-mvv': 'MVV抽出',
+  'extract-company-info': '企業情報抽出',
+  'generate-ideas': 'アイデア生成',
+  'verify-ideas': 'アイデア検証'
+};
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  monthly: '今月の合計',
+  daily: '今日の合計',
+  ...BUDGET_OPERATION_LABELS
+};
+
+export const DEFAULT_BUDGET_CONFIG: BudgetConfig = {
+  enabled: true,
+  monthlyLimit: null,
+  dailyLimit: null,
+  operationLimits: {
+    'extract-mvv': null,
+    'extract-company-info': null,
+    'generate-ideas': null,
+    'verify-ideas': null
+  },
+  warningThresholds: [...CONSTANTS.BUDGET.DEFAULT_WARNING_THRESHOLDS]
+};
+
+const LEVEL_ORDER: Record<BudgetLevel, number> = {
+  ok: 0,
+  warning: 1,
+  exceeded: 2
+};
+
+export function isBudgetOperationType(value: string | undefined): value is BudgetOperationType {
+  return !!value && (BUDGET_OPERATION_TYPES as string[]).includes(value);
+}
+
+const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const startOfMonth = (time: number): number => {
+  const date = new Date(time);
+  date.setDate(1);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const createEmptySpend = (): BudgetSpendSummary => ({
+  monthly: 0,
+  daily: 0,
+  byOperation: {
+    'extract-mvv': 0,
+    'extract-company-info': 0,
+    'generate-ideas': 0,
+    'verify-ideas': 0
+  },
+  callCounts: {
+    'extract-mvv': 0,
+    'extract-company-info': 0,
+    'generate-ideas': 0,
+    'verify-ideas': 0
+  },
+  updatedAt: 0
+});
+
+export const formatUsd = (amount: number): string =>
+  `$${amount < 1 ? amount.toFixed(3) : amount.toFixed(2)}`;
+
+export class BudgetService {
+  private config: BudgetConfig;
+  private spend: BudgetSpendSummary = createEmptySpend();
+  private status: BudgetStatus;
+  private listeners = new Set<BudgetListener>();
+  private refreshing: Promise<void> | null = null;
+  private refreshQueued = false;
+  private queuePaused = false;
+
+  constructor() {
+    this.config = this.loadConfig();
+    this.status = this.buildStatus();
+
+    // 予算の判定は全てのAIジョブの開始直前に行う
+    jobScheduler.setStartGuard(job => this.guardJob(job));
+    jobScheduler.subscribe(snapshot => {
+      if (this.queuePaused && !snapshot.paused) {
+        this.queuePaused = false;
+        this.notify();
+      }
+    });
+    apiLoggerService.subscribe(change => {
+      if (change) {
+        this.applyCostChange(change);
+      } else {
+        this.refreshSpend();
+      }
+    });
+
+    this.refreshSpend();
+  }
+
+  getConfig(): BudgetConfig {
+    return this.config;
+  }
+
+  getStatus(): BudgetStatus {
+    return this.status;
+  }
+
+  /**
+   * 予算設定を更新
+   * 上限到達で停止していたキューは、見直し後の予算で開始可能であれば再開する
+   */
+  updateConfig(updates: Partial<BudgetConfig>): void {
+    this.config = {
+      ...this.config,
+      ...updates,
+      operationLimits: { ...this.config.operationLimits, ...updates.operationLimits },
+      warningThresholds: [...(updates.warningThresholds ?? this.config.warningThresholds)]
+        .filter(threshold => threshold > 0 && threshold < 100)
+        .sort((a, b) => a - b)
+    };
+    this.saveConfig();
+    this.notify();
+
+    if (this.queuePaused) {
+      jobScheduler.resume();
+    } else {
+      // 処理種別ごとの上限で見送っていたジョブを再評価
+      jobScheduler.wake();
+    }
+  }
+
+  /**
+   * 次の呼び出しを実行できるか確認
+   * operation を指定すると処理種別ごとの上限と推定コストも考慮する（未指定時は月間・日次の上限のみ）
+   */
+  checkBudget(operation?: BudgetOperationType): BudgetCheckResult {
+    const estimatedCost = operation ? this.estimateCallCost(operation) : 0;
+
+    if (!this.config.enabled) {
+      return { allowed: true, level: 'ok', estimatedCost, blockingScopes: [], warningScopes: [] };
+    }
+
+    // 日付・月が変わった後の最初の確認では集計をやり直す
+    if (this.spend.updatedAt < startOfDay(Date.now())) {
+      this.refreshSpend();
+    }
+
+    const scopes = this.evaluateScopes(estimatedCost, operation ? [operation] : [], operation);
+    const blockingScopes = scopes.filter(scope => scope.level === 'exceeded');
+    const warningScopes = scopes.filter(scope => scope.level === 'warning');
+    const level = this.maxLevel(scopes);
+
+    return {
+      allowed: blockingScopes.length === 0,
+      level,
+      estimatedCost,
+      blockingScopes,
+      warningScopes,
+      message: blockingScopes.length > 0
+        ? blockingScopes
+            .map(scope => `${scope.label}の予算上限（${formatUsd(scope.limit)}）に達しました（利用額 ${formatUsd(scope.spent)}）`)
+            .join(' / ')
+        : undefined
+    };
+  }
+
+  /**
+   * 1回あたりの推定コスト（今月の実績平均、実績が無ければ既定値）
+   */
+  estimateCallCost(operation: BudgetOperationType): number {
+    const count = this.spend.callCounts[operation];
+    return count > 0
+      ? this.spend.byOperation[operation] / count
+      : CONSTANTS.BUDGET.DEFAULT_CALL_COSTS[operation];
+  }
+
+  subscribe(listener: BudgetListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * APIログから今月・今日の利用額を再集計（実行中の集計があれば完了後にもう一度行う）
+   */
+  refreshSpend(): Promise<void> {
+    if (this.refreshing) {
+      this.refreshQueued = true;
+      return this.refreshing;
+    }
+
+    this.refreshing = this.calculateSpend()
+      .then(spend => {
+        this.spend = spend;
+        this.notify();
+      })
+      .catch(error => {
+        console.warn('Failed to calculate AI spend:', error);
+      })
+      .finally(() => {
+        this.refreshing = null;
+        if (this.refreshQueued) {
+          this.refreshQueued = false;
+          this.refreshSpend();
+        }
+      });
+
+    return this.refreshing;
+  }
+
+  /**
+   * 書き込まれたログ1件分のコストの変化を集計に反映（ジョブ実行中に月全体のログを読み直さない）
+   */
+  private applyCostChange(change: ApiLogCostChange): void {
+    if (change.cost === change.previousCost) return;
+
+    // 集計中、または日付が変わって集計をやり直す必要がある場合は差分を当てずに再集計する
+    const now = Date.now();
+    if (this.refreshing || this.spend.updatedAt < startOfDay(now)) {
+      this.refreshSpend();
+      return;
+    }
+    if (change.timestamp < startOfMonth(now)) return;
+
+    const delta = change.cost - change.previousCost;
+    const callDelta = (change.cost ? 1 : 0) - (change.previousCost ? 1 : 0);
+    const spend: BudgetSpendSummary = {
+      ...this.spend,
+      byOperation: { ...this.spend.byOperation },
+      callCounts: { ...this.spend.callCounts },
+      monthly: this.spend.monthly + delta,
+      daily: change.timestamp >= startOfDay(now) ? this.spend.daily + delta : this.spend.daily,
+      updatedAt: now
+    };
+    if (isBudgetOperationType(change.operationType)) {
+      spend.byOperation[change.operationType] += delta;
+      spend.callCounts[change.operationType] += callDelta;
+    }
+    this.spend = spend;
+    this.notify();
+  }
+
+  private async calculateSpend(): Promise<BudgetSpendSummary> {
+    const now = Date.now();
+    const dayStart = startOfDay(now);
+    const logs = await apiLoggerService.getLogs({
+      dateRange: { start: new Date(startOfMonth(now)), end: new Date(now) }
+    });
+
+    const spend = createEmptySpend();
+    logs.forEach(log => {
+      const cost = log.metadata.costTracking?.estimatedCost;
+      if (!cost) return;
+
+      spend.monthly += cost;
+      if (log.timestamp >= dayStart) {
+        spend.daily += cost;
+      }
+      const operation = log.metadata.operationType;
+      if (isBudgetOperationType(operation)) {
+        spend.byOperation[operation] += cost;
+        spend.callCounts[operation]++;
+      }
+    });
+    spend.updatedAt = now;
+    return spend;
+  }
+
+  /**
+   * ジョブ開始前の判定（jobScheduler に登録）
+   * 月間・日次の上限ではキュー全体を止め、処理種別ごとの上限ではその種別のジョブだけを待機させる
+   */
+  private guardJob(job: SchedulerJob): JobStartBlock | null {
+    const result = this.checkBudget(job.budgetOperation);
+    if (result.allowed) return null;
+
+    const reason = result.message || '予算上限に達しました';
+    const isTotalLimit = result.blockingScopes.some(scope => scope.scope === 'monthly' || scope.scope === 'daily');
+    if (!isTotalLimit) {
+      return { scope: 'job', reason };
+    }
+
+    this.queuePaused = true;
+    this.notify();
+    return { scope: 'queue', reason };
+  }
+
+  /**
+   * @param operations 処理種別ごとの上限を評価する対象
+   * @param operation 次の呼び出しの処理種別（推定コストを加算する）
+   */
+  private evaluateScopes(
+    upcomingCost: number,
+    operations: BudgetOperationType[],
+    operation?: BudgetOperationType
+  ): BudgetScopeStatus[] {
+    const scopes: BudgetScopeStatus[] = [];
+    const addScope = (scope: BudgetScope, limit: number | null, spent: number, cost: number) => {
+      if (limit === null || limit < 0) return;
+      scopes.push(this.buildScopeStatus(scope, limit, spent, cost));
+    };
+
+    addScope('monthly', this.config.monthlyLimit, this.spend.monthly, upcomingCost);
+    addScope('daily', this.config.dailyLimit, this.spend.daily, upcomingCost);
+    operations.forEach(type => {
+      addScope(type, this.config.operationLimits[type], this.spend.byOperation[type], type === operation ? upcomingCost : 0);
+    });
+    return scopes;
+  }
+
+  private buildScopeStatus(scope: BudgetScope, limit: number, spent: number, upcomingCost: number): BudgetScopeStatus {
+    // 上限0は「この範囲の呼び出しを許可しない」として扱う
+    const projected = spent + upcomingCost;
+    const projectedRatio = limit > 0 ? projected / limit : 1;
+    const reached = this.config.warningThresholds.filter(threshold => projectedRatio * 100 >= threshold);
+    const exceeded = spent >= limit || projected > limit;
+
+    return {
+      scope,
+      label: SCOPE_LABELS[scope],
+      limit,
+      spent,
+      ratio: limit > 0 ? spent / limit : 1,
+      level: exceeded ? 'exceeded' : reached.length > 0 ? 'warning' : 'ok',
+      threshold: reached.length > 0 ? reached[reached.length - 1] : undefined
+    };
+  }
+
+  private maxLevel(scopes: BudgetScopeStatus[]): BudgetLevel {
+    return scopes.reduce<BudgetLevel>(
+      (level, scope) => LEVEL_ORDER[scope.level] > LEVEL_ORDER[level] ? scope.level : level,
+      'ok'
+    );
+  }
+
+  private buildStatus(): BudgetStatus {
+    const scopes = this.config.enabled ? this.evaluateScopes(0, BUDGET_OPERATION_TYPES) : [];
+    return {
+      config: this.config,
+      spend: this.spend,
+      scopes,
+      level: this.maxLevel(scopes),
+      queuePaused: this.queuePaused
+    };
+  }
+
+  private loadConfig(): BudgetConfig {
+    try {
+      const stored = localStorage.getItem(CONSTANTS.BUDGET.STORAGE_KEY);
+      if (!stored) return DEFAULT_BUDGET_CONFIG;
+      const parsed = JSON.parse(stored) as Partial<BudgetConfig>;
+      return {
+        ...DEFAULT_BUDGET_CONFIG,
+        ...parsed,
+        operationLimits: { ...DEFAULT_BUDGET_CONFIG.operationLimits, ...parsed.operationLimits }
+      };
+    } catch (error) {
+      console.warn('Failed to load budget config:', error);
+      return DEFAULT_BUDGET_CONFIG;
+    }
+  }
+
+  private saveConfig(): void {
+    try {
+      localStorage.setItem(CONSTANTS.BUDGET.STORAGE_KEY, JSON.stringify(this.config));
+    } catch (error) {
+      console.warn('Failed to save budget config:', error);
+    }
+  }
+
+  private notify(): void {
+    const previousLevel = this.status.level;
+    this.status = this.buildStatus();
+
+    if (LEVEL_ORDER[this.status.level] > LEVEL_ORDER[previousLevel]) {
+      console.warn(`💰 AI利用予算: ${this.status.scopes
+        .filter(scope => scope.level !== 'ok')
+        .map(scope => `${scope.label} ${Math.round(scope.ratio * 100)}%`)
+        .join(', ')}`);
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.status);
+      } catch (error) {
+        console.error('Error in budget listener:', error);
+      }
+    });
+  }
+}
+
+// シングルトンインスタンス
+export const budgetService = new BudgetService();
@@ -5,6 +5,8 @@
 
 import { companyInfoMigrationService } from './dataMigration';
 import { companyInfoAnalyzer } from './companyInfoAnalyzer';
+import { jobScheduler } from './jobScheduler';
+import { JobCancelledError } from '../types/jobScheduler';
 import type { Company } from '../types';
 
 export interface BulkExtractionProgress {
@@ -29,7 +31,7 @@ export interface BulkExtractionResult {
 
 export class BulkCompanyInfoExtractor {
   private isRunning = false;
-  private shouldStop = false;
+  private activeGroupId: string | null = null;
 
   /**
    * 企業情報未抽出の企業を一括処理
@@ -45,7 +47,6 @@ export class BulkCompanyInfoExtractor {
     const startTime = performance.now();
     
     this.isRunning = true;
-    this.shouldStop = false;
 
     const result: BulkExtractionResult = {
       success: false,
@@ -78,72 +79,7 @@ export class BulkCompanyInfoExtractor {
 
       console.log(`📋 ${companiesNeedingInfo.length}社の企業情報を抽出します...`);
       
-      const errors: Array<{ company: Company; error: string }> = [];
-
-      // 各企業を順次処理
-      for (let i = 0; i < companiesNeedingInfo.length; i++) {
-        if (this.shouldStop) {
-          console.log('⏹️ 一括抽出が停止されました');
-          break;
-        }
-
-        const company = companiesNeedingInfo[i];
-        
-        onProgress?.({
-          currentIndex: i + 1,
-          total: companiesNeedingInfo.length,
-          currentCompany: company,
-          status: 'processing',
-          message: `${company.name}の企業情報を抽出中...`,
-          errors,
-          successCount: result.successCount,
-          errorCount: result.errorCount
-        });
-
-        try {
-          await this.extractSingleCompanyInfo(company);
-          result.successCount++;
-          
-          console.log(`✅ ${company.name}: 企業情報抽出完了 (${i + 1}/${companiesNeedingInfo.length})`);
-          
-          // 成功時の進捗通知
-          onProgress?.({
-            currentIndex: i + 1,
-            total: companiesNeedingInfo.length,
-            currentCompany: company,
-            status: 'success',
-            message: `${company.name}: 抽出完了`,
-            errors,
-            successCount: result.successCount,
-            errorCount: result.errorCount
-          });
-
-          // レート制限を考慮した待機（Perplexity APIの制限対策）
-          if (i < companiesNeedingInfo.length - 1) {
-            await this.delay(2000); // 2秒待機
-          }
-
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : '不明なエラー';
-          errors.push({ company, error: errorMessage });
-          result.errorCount++;
-          
-          console.error(`❌ ${company.name}: 企業情報抽出エラー -`, errorMessage);
-          
-          onProgress?.({
-            currentIndex: i + 1,
-            total: companiesNeedingInfo.length,
-            currentCompany: company,
-            status: 'error',
-            message: `${company.name}: エラー - ${errorMessage}`,
-            errors,
-            successCount: result.successCount,
-            errorCount: result.errorCount
-          });
-        }
-
-        result.totalProcessed++;
-      }
+      const errors = await this.runExtractionJobs(companiesNeedingInfo, result, onProgress);
 
       // 完了処理
       result.errors = errors.map(e => ({
@@ -217,8 +153,8 @@ export class BulkCompanyInfoExtractor {
    * 一括抽出を停止
    */
   stop(): void {
-    if (this.isRunning) {
-      this.shouldStop = true;
+    if (this.isRunning && this.activeGroupId) {
+      jobScheduler.cancelGroup(this.activeGroupId);
       console.log('⏹️ 一括企業情報抽出の停止を要求しました...');
     }
   }
@@ -231,63 +167,48 @@ export class BulkCompanyInfoExtractor {
   }
 
   /**
-   * 待機処理
+   * 企業ごとの抽出ジョブをスケジューラに投入し、完了順に進捗を通知
+   * レート制限対策の待機はスケジューラのPerplexity同時実行数・開始間隔で行う
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
-  /**
-   * 特定の企業リストに対する一括抽出
-   */
-  async extractForCompanies(
+  private async runExtractionJobs(
     companies: Company[],
+    result: BulkExtractionResult,
     onProgress?: (progress: BulkExtractionProgress) => void
-  ): Promise<BulkExtractionResult> {
-    if (this.isRunning) {
-      throw new Error('一括抽出が既に実行中です');
-    }
-
-    console.log(`🚀 指定された${companies.length}社の企業情報抽出を開始...`);
-    const startTime = performance.now();
-    
-    this.isRunning = true;
-    this.shouldStop = false;
-
-    const result: BulkExtractionResult = {
-      success: false,
-      totalProcessed: 0,
-      successCount: 0,
-      errorCount: 0,
-      errors: [],
-      processingTime: 0
-    };
+  ): Promise<Array<{ company: Company; error: string }>> {
+    const errors: Array<{ company: Company; error: string }> = [];
+    const groupId = `company_info_bulk_${Date.now()}`;
+    this.activeGroupId = groupId;
 
     try {
-      const errors: Array<{ company: Company; error: string }> = [];
-
-      for (let i = 0; i < companies.length; i++) {
-        if (this.shouldStop) break;
-
-        const company = companies[i];
-        
-        onProgress?.({
-          currentIndex: i + 1,
-          total: companies.length,
-          currentCompany: company,
-          status: 'processing',
-          message: `${company.name}の企業情報を抽出中...`,
-          errors,
-          successCount: result.successCount,
-          errorCount: result.errorCount
-        });
-
-        try {
-          await this.extractSingleCompanyInfo(company);
+      await Promise.all(companies.map(company =>
+        jobScheduler.submit({
+          kind: 'company-info',
+          budgetOperation: 'extract-company-info',
+          provider: 'perplexity',
+          priority: 'low',
+          label: company.name,
+          groupId,
+          groupLabel: `企業情報一括抽出（${companies.length}社）`,
+          onStart: () => onProgress?.({
+            currentIndex: result.totalProcessed + 1,
+            total: companies.length,
+            currentCompany: company,
+            status: 'processing',
+            message: `${company.name}の企業情報を抽出中...`,
+            errors,
+            successCount: result.successCount,
+            errorCount: result.errorCount
+          }),
+          run: () => this.extractSingleCompanyInfo(company)
+        }).then(() => {
           result.successCount++;
+          result.totalProcessed++;
+          
+          console.log(`✅ ${company.name}: 企業情報抽出完了 (${result.totalProcessed}/${companies.length})`);
           
+          // 成功時の進捗通知
           onProgress?.({
-            currentIndex: i + 1,
+            currentIndex: result.totalProcessed,
             total: companies.length,
             currentCompany: company,
             status: 'success',
@@ -296,18 +217,20 @@ export class BulkCompanyInfoExtractor {
             successCount: result.successCount,
             errorCount: result.errorCount
           });
-
-          if (i < companies.length - 1) {
-            await this.delay(2000);
+        }).catch(error => {
+          if (error instanceof JobCancelledError) {
+            return;
           }
 
-        } catch (error) {
           const errorMessage = error instanceof Error ? error.message : '不明なエラー';
           errors.push({ company, error: errorMessage });
           result.errorCount++;
+          result.totalProcessed++;
+          
+          console.error(`❌ ${company.name}: 企業情報抽出エラー -`, errorMessage);
           
           onProgress?.({
-            currentIndex: i + 1,
+            currentIndex: result.totalProcessed,
             total: companies.length,
             currentCompany: company,
             status: 'error',
@@ -316,10 +239,42 @@ export class BulkCompanyInfoExtractor {
             successCount: result.successCount,
             errorCount: result.errorCount
           });
-        }
+        })
+      ));
+    } finally {
+      this.activeGroupId = null;
+    }
 
-        result.totalProcessed++;
-      }
+    return errors;
+  }
+
+  /**
+   * 特定の企業リストに対する一括抽出
+   */
+  async extractForCompanies(
+    companies: Company[],
+    onProgress?: (progress: BulkExtractionProgress) => void
+  ): Promise<BulkExtractionResult> {
+    if (this.isRunning) {
+      throw new Error('一括抽出が既に実行中です');
+    }
+
+    console.log(`🚀 指定された${companies.length}社の企業情報抽出を開始...`);
+    const startTime = performance.now();
+    
+    this.isRunning = true;
+
+    const result: BulkExtractionResult = {
+      success: false,
+      totalProcessed: 0,
+      successCount: 0,
+      errorCount: 0,
+      errors: [],
+      processingTime: 0
+    };
+
+    try {
+      const errors = await this.runExtractionJobs(companies, result, onProgress);
 
       result.errors = errors.map(e => ({
         companyName: e.company.name,
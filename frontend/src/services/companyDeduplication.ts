@@ -0,0 +1,257 @@
+/**
+ * 重複企業の検出・統合
+ * 企業名・ドメイン・Embeddings類似度・証券コードから重複候補を採点し、
+ * 統合時にはMVV履歴・企業詳細情報・アイデア・APIログを統合先に付け替える
+ */
+
+import type { Company, CompanyInfo } from '../types';
+import { companyStorage, companyInfoStorage } from './storage';
+import { embeddingsIndex } from './embeddingsIndex';
+import { ideaStorageService } from './ideaStorage';
+import { apiLoggerService } from './apiLogger';
+import { SimilarityCalculator } from './similarityCalculator';
+import { normalizedNameSimilarity, normalizeDomain } from '../utils/companyMatching';
+import { normalizeCompanyName, normalizeWidth } from '../utils/cacheKeyNormalizer';
+import { CONSTANTS } from '../utils/constants';
+
+export interface DuplicateSignals {
+  nameSimilarity: number;
+  nameContained: boolean; // 一方の企業名が他方を含む（持株会社・子会社など）
+  sameDomain: boolean;
+  sameStockCode: boolean;
+  embeddingSimilarity: number | null; // どちらかにEmbeddingsがない場合はnull
+}
+
+export interface DuplicateCandidate {
+  key: string;
+  companyA: Company;
+  companyB: Company;
+  score: number; // 0〜1
+  signals: DuplicateSignals;
+}
+
+export type MergeField = 'name' | 'website' | 'category' | 'notes' | 'mvv' | 'companyInfo';
+export type MergeSide = 'survivor' | 'duplicate';
+export type MergeSelection = Record<MergeField, MergeSide>;
+
+export interface MergeResult {
+  mvvVersions: number;
+  processingLogs: number;
+  companyInfo: 'survivor' | 'duplicate' | 'none';
+  ideas: number;
+  apiLogs: number;
+}
+
+// 各根拠が単独で示す「同一企業らしさ」。複数の根拠はnoisy-ORで合成する
+const SIGNAL_STRENGTH = {
+  domain: 0.9,
+  stockCode: 0.95,
+  name: 0.8,
+  nameContained: 0.65,
+  embeddings: 0.6
+};
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  name: '企業名',
+  website: 'ウェブサイト',
+  category: 'カテゴリ',
+  notes: 'メモ',
+  mvv: 'MVV・Embeddings',
+  companyInfo: '企業詳細情報'
+};
+
+export const pairKey = (idA: string, idB: string): string =>
+  idA < idB ? `${idA}|${idB}` : `${idB}|${idA}`;
+
+/**
+ * 証券コードの正規化（全角・市場サフィックスの違いを吸収）
+ * 例: 「４９０１」「4901.T」→「4901」
+ */
+export const normalizeStockCode = (code: string | undefined): string => {
+  if (!code) return '';
+  const match = normalizeWidth(code).match(/[0-9][0-9a-z]{3}/);
+  return match ? match[0] : '';
+};
+
+// 短すぎる名前の包含は偶然の一致が多いため対象外
+const MIN_CONTAINED_NAME_LENGTH = 3;
+
+const isNameContained = (a: string, b: string): boolean => {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length >= MIN_CONTAINED_NAME_LENGTH && shorter !== longer && longer.includes(shorter);
+};
+
+/**
+ * 重複らしさのスコア（各根拠の強さをnoisy-ORで合成）
+ */
+export const scoreDuplicateSignals = (signals: DuplicateSignals): number => {
+  const embeddingStrength = signals.embeddingSimilarity === null
+    ? 0
+    : Math.max(0, (signals.embeddingSimilarity - CONSTANTS.COMPANY_DEDUP.EMBEDDING_SIMILARITY_FLOOR)
+      / (1 - CONSTANTS.COMPANY_DEDUP.EMBEDDING_SIMILARITY_FLOOR));
+
+  const strengths = [
+    signals.sameDomain ? SIGNAL_STRENGTH.domain : 0,
+    signals.sameStockCode ? SIGNAL_STRENGTH.stockCode : 0,
+    SIGNAL_STRENGTH.name * signals.nameSimilarity,
+    signals.nameContained ? SIGNAL_STRENGTH.nameContained : 0,
+    SIGNAL_STRENGTH.embeddings * embeddingStrength
+  ];
+  return 1 - strengths.reduce((remaining, strength) => remaining * (1 - strength), 1);
+};
+
+/**
+ * 企業一覧から重複候補のペアを抽出（スコアの高い順）
+ * ドメインまたは証券コードが一致するペアはスコアに関わらず候補とする
+ */
+export const findDuplicateCandidates = (
+  companies: Company[],
+  companyInfoMap: Map<string, CompanyInfo>,
+  threshold: number = CONSTANTS.COMPANY_DEDUP.SCORE_THRESHOLD
+): DuplicateCandidate[] => {
+  const names = companies.map(company => normalizeCompanyName(company.name));
+  const domains = companies.map(company => normalizeDomain(company.website));
+  const stockCodes = companies.map(company => normalizeStockCode(companyInfoMap.get(company.id)?.stockCode));
+
+  // 大規模データではANNインデックスの近傍だけEmbeddings類似度を使う
+  const useIndex = embeddingsIndex.shouldUse(companies.length);
+  const neighbourSimilarity = new Map<string, number>();
+  if (useIndex) {
+    const ids = new Set(companies.map(company => company.id));
+    for (const company of companies) {
+      if (!company.embeddings) continue;
+      const neighbours = embeddingsIndex.search(company.embeddings, CONSTANTS.COMPANY_DEDUP.ANN_NEIGHBORS, {
+        excludeId: company.id,
+        allowedIds: ids
+      });
+      neighbours.forEach(neighbour => neighbourSimilarity.set(pairKey(company.id, neighbour.companyId), neighbour.similarity));
+    }
+  }
+
+  const embeddingSimilarityOf = (a: Company, b: Company): number | null => {
+    if (!a.embeddings || !b.embeddings || a.embeddings.length !== b.embeddings.length) return null;
+    if (useIndex) return neighbourSimilarity.get(pairKey(a.id, b.id)) ?? null;
+    return SimilarityCalculator.cosineSimilarity(a.embeddings, b.embeddings);
+  };
+
+  const candidates: DuplicateCandidate[] = [];
+  for (let i = 0; i < companies.length; i++) {
+    for (let j = i + 1; j < companies.length; j++) {
+      const signals: DuplicateSignals = {
+        nameSimilarity: normalizedNameSimilarity(names[i], names[j]),
+        nameContained: isNameContained(names[i], names[j]),
+        sameDomain: !!domains[i] && domains[i] === domains[j],
+        sameStockCode: !!stockCodes[i] && stockCodes[i] === stockCodes[j],
+        embeddingSimilarity: embeddingSimilarityOf(companies[i], companies[j])
+      };
+      const score = scoreDuplicateSignals(signals);
+
+      if (score >= threshold || signals.sameDomain || signals.sameStockCode) {
+        candidates.push({
+          key: pairKey(companies[i].id, companies[j].id),
+          companyA: companies[i],
+          companyB: companies[j],
+          score,
+          signals
+        });
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * 統合後の企業フィールドを組み立てる（統合先を基準に、統合元を選んだ項目だけ差し替える）
+ */
+export const buildMergedFields = (
+  survivor: Company,
+  duplicate: Company,
+  selection: MergeSelection
+): Partial<Company> => {
+  const pick = <K extends keyof Company>(field: MergeField, key: K): Company[K] =>
+    selection[field] === 'duplicate' ? duplicate[key] : survivor[key];
+
+  const updates: Partial<Company> = {
+    name: pick('name', 'name'),
+    website: pick('website', 'website'),
+    category: pick('category', 'category') ?? '',
+    notes: pick('notes', 'notes') ?? ''
+  };
+
+  // 未入力の項目も空値で明示する（undefined は更新対象外となり、統合先の古い値が残るため）
+  if (selection.mvv === 'duplicate') {
+    updates.mission = duplicate.mission ?? '';
+    updates.vision = duplicate.vision ?? '';
+    updates.values = duplicate.values ?? '';
+    updates.embeddings = duplicate.embeddings ?? [];
+    updates.fieldEmbeddings = duplicate.fieldEmbeddings ?? {};
+    updates.status = duplicate.status;
+    updates.lastProcessed = duplicate.lastProcessed;
+  }
+
+  return updates;
+};
+
+export class CompanyDeduplicationService {
+  /**
+   * 保存済みデータから重複候補を取得（「重複ではない」と判断したペアは除く）
+   */
+  async findDuplicates(companies: Company[], threshold?: number): Promise<DuplicateCandidate[]> {
+    const companyInfoMap = await companyInfoStorage.getAllAsMap();
+    const dismissed = new Set(this.getDismissedPairs());
+    return findDuplicateCandidates(companies, companyInfoMap, threshold)
+      .filter(candidate => !dismissed.has(candidate.key));
+  }
+
+  getDismissedPairs(): string[] {
+    try {
+      const stored = localStorage.getItem(CONSTANTS.COMPANY_DEDUP.DISMISSED_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to load dismissed duplicate pairs:', error);
+      return [];
+    }
+  }
+
+  dismissPair(key: string): void {
+    const dismissed = this.getDismissedPairs();
+    if (!dismissed.includes(key)) {
+      localStorage.setItem(CONSTANTS.COMPANY_DEDUP.DISMISSED_STORAGE_KEY, JSON.stringify([...dismissed, key]));
+    }
+  }
+
+  clearDismissedPairs(): void {
+    localStorage.removeItem(CONSTANTS.COMPANY_DEDUP.DISMISSED_STORAGE_KEY);
+  }
+
+  /**
+   * 統合元（duplicate）を統合先（survivor）にまとめる
+   * 企業の統合トランザクションが成功してから、別DBのアイデア・APIログを付け替える。
+   * 統合に失敗した場合は統合元がそのまま残り、そのデータが統合先を指してしまうことはない
+   */
+  async merge(survivor: Company, duplicate: Company, selection: MergeSelection): Promise<MergeResult> {
+    const updates = buildMergedFields(survivor, duplicate, selection);
+
+    const stored = await companyStorage.merge(survivor.id, duplicate.id, updates, {
+      useDuplicateMVV: selection.mvv === 'duplicate',
+      useDuplicateInfo: selection.companyInfo === 'duplicate'
+    });
+
+    const ideas = await ideaStorageService.reassignCompany(duplicate.id, survivor.id, updates.name ?? survivor.name);
+    const apiLogs = await apiLoggerService.reassignCompany(duplicate.id, survivor.id);
+
+    await embeddingsIndex.remove(duplicate.id);
+    const embeddings = selection.mvv === 'duplicate' ? duplicate.embeddings : survivor.embeddings;
+    if (embeddings?.length) {
+      await embeddingsIndex.upsert(survivor.id, embeddings);
+    } else {
+      await embeddingsIndex.remove(survivor.id);
+    }
+
+    console.log(`🔗 Merged company ${duplicate.id} into ${survivor.id}`, stored);
+    return { ...stored, ideas, apiLogs };
+  }
+}
+
+export const companyDeduplicationService = new CompanyDeduplicationService();
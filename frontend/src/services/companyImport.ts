@@ -0,0 +1,347 @@
+/**
+ * 企業一覧のインポート
+ * CSV（文字コード自動判定）・Excel（.xlsx）を読み込み、任意の列を企業データの項目に対応付け、
+ * 取り込み前に新規・既存企業との重複・不正な行を判定する
+ */
+
+import ExcelJS from 'exceljs';
+import Papa from 'papaparse';
+import type { Company, CompanyImportData } from '../types';
+import { sanitizeInput, validateUrl } from '../utils/validators';
+import { CompanyMatcher } from '../utils/companyMatching';
+import { CONSTANTS } from '../utils/constants';
+
+export type ImportEncoding = 'utf-8' | 'utf-8-bom' | 'shift_jis' | 'euc-jp';
+export type ImportField = keyof CompanyImportData;
+export type ColumnMapping = Record<ImportField, string | null>;
+
+export interface ImportTable {
+  fileName: string;
+  sourceType: 'csv' | 'xlsx';
+  encoding?: ImportEncoding;
+  sheetName?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportMappingTemplate {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  createdAt: number;
+}
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'invalid';
+
+export interface ImportPreviewRow {
+  rowNumber: number; // ファイル上の行番号（ヘッダーを1行目とする）
+  data: CompanyImportData;
+  status: ImportRowStatus;
+  errors: string[];
+  warnings: string[];
+  duplicateOf?: {
+    source: 'existing' | 'file';
+    name: string;
+    website: string;
+    reason: 'domain' | 'name';
+    nameSimilarity: number;
+    rowNumber?: number;
+  };
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  counts: Record<ImportRowStatus, number>;
+}
+
+export const IMPORT_FIELDS: ImportField[] = ['name', 'website', 'category', 'notes'];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  name: '企業名',
+  website: 'ウェブサイト',
+  category: 'カテゴリー',
+  notes: '備考'
+};
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['name', 'website'];
+
+export const ENCODING_LABELS: Record<ImportEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-8-bom': 'UTF-8（BOM付き）',
+  shift_jis: 'Shift_JIS',
+  'euc-jp': 'EUC-JP'
+};
+
+// 列名の候補（小文字・空白除去で比較）
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'companyname', 'company', '会社名', '企業名', '社名', '会社', '法人名', '商号'],
+  website: ['website', 'url', 'homepage', 'hp', 'web', 'ウェブサイト', 'webサイト', 'ホームページ', 'サイト', '企業url', '会社url'],
+  category: ['category', 'industry', 'カテゴリー', 'カテゴリ', '業種', '業界', '分類'],
+  notes: ['notes', 'note', 'memo', 'comment', '備考', 'メモ', 'コメント']
+};
+
+const normalizeHeader = (header: string): string =>
+  header.normalize('NFKC').toLowerCase().replace(/[\s_\-・]/g, '');
+
+const hasPrefix = (bytes: Uint8Array, prefix: number[]): boolean =>
+  prefix.every((value, index) => bytes[index] === value);
+
+// 日本語の文章でよく使われる文字の割合（誤った文字コードで読むと下がる）
+const japaneseScore = (text: string): number => {
+  if (text.length === 0) return 0;
+  const replacement = (text.match(/\uFFFD/g) || []).length;
+  const japanese = (text.match(/[\u3040-\u30ff\u4e00-\u9fff\uff10-\uff5a]/g) || []).length;
+  const ascii = (text.match(/[\x20-\x7e\r\n\t]/g) || []).length;
+  return (japanese + ascii - replacement * 10) / text.length;
+};
+
+/**
+ * バイト列から文字コードを判定（BOM → UTF-8として妥当か → Shift_JIS/EUC-JPで読んだ結果の比較）
+ */
+export const detectEncoding = (bytes: Uint8Array): ImportEncoding => {
+  if (hasPrefix(bytes, [0xef, 0xbb, 0xbf])) return 'utf-8-bom';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    // UTF-8として不正なバイト列を含む
+  }
+
+  const sample = bytes.subarray(0, 64 * 1024);
+  const sjis = japaneseScore(new TextDecoder('shift_jis').decode(sample));
+  const eucjp = japaneseScore(new TextDecoder('euc-jp').decode(sample));
+  return eucjp > sjis ? 'euc-jp' : 'shift_jis';
+};
+
+export const decodeText = (bytes: Uint8Array, encoding: ImportEncoding): string => {
+  if (encoding === 'utf-8-bom') {
+    return new TextDecoder('utf-8').decode(hasPrefix(bytes, [0xef, 0xbb, 0xbf]) ? bytes.subarray(3) : bytes);
+  }
+  // TextDecoder('utf-8') はBOMを自動で除去する
+  return new TextDecoder(encoding).decode(bytes);
+};
+
+/**
+ * 列名から対応する項目を推測
+ */
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = { name: null, website: null, category: null, notes: null };
+  const used = new Set<string>();
+
+  IMPORT_FIELDS.forEach(field => {
+    const aliases = FIELD_ALIASES[field];
+    const header = headers.find(h => !used.has(h) && aliases.includes(normalizeHeader(h)))
+      ?? headers.find(h => !used.has(h) && aliases.some(alias => alias.length > 2 && normalizeHeader(h).includes(alias)));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  });
+  return mapping;
+};
+
+/**
+ * URLの補完（スキームが無ければ https:// を付ける）
+ */
+const completeUrl = (value: string): string => {
+  if (!value) return value;
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value.replace(/^\/+/, '')}`;
+};
+
+export class CompanyImportService {
+  /**
+   * ファイルを表形式で読み込む（CSVは文字コードを指定しなければ自動判定）
+   */
+  async readFile(file: File, encoding?: ImportEncoding): Promise<ImportTable> {
+    const isExcel = /\.xlsx$/i.test(file.name)
+      || file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    return isExcel ? this.readExcel(file) : this.readCSV(file, encoding);
+  }
+
+  /**
+   * 対応付けを適用して行ごとに新規・重複・不正を判定
+   */
+  buildPreview(table: ImportTable, mapping: ColumnMapping, existingCompanies: Company[]): ImportPreview {
+    const columnIndex = (field: ImportField) => mapping[field] ? table.headers.indexOf(mapping[field]!) : -1;
+    const indexes = Object.fromEntries(IMPORT_FIELDS.map(field => [field, columnIndex(field)])) as Record<ImportField, number>;
+    const cell = (row: string[], field: ImportField) =>
+      indexes[field] >= 0 ? sanitizeInput(String(row[indexes[field]] ?? '')) : '';
+
+    const existingMatcher = new CompanyMatcher(existingCompanies);
+    const fileMatcher = new CompanyMatcher<CompanyImportData & { rowNumber: number }>();
+    const counts: Record<ImportRowStatus, number> = { new: 0, duplicate: 0, invalid: 0 };
+
+    const rows = table.rows.map((row, index): ImportPreviewRow => {
+      const rowNumber = index + 2;
+      const data: CompanyImportData = {
+        name: cell(row, 'name'),
+        website: completeUrl(cell(row, 'website')),
+        category: cell(row, 'category') || undefined,
+        notes: cell(row, 'notes') || undefined
+      };
+      const errors: string[] = [];
+      const warnings: string[] = [];
+
+      if (!data.name) errors.push('企業名が空です');
+      if (!data.website) {
+        errors.push('ウェブサイトが空です');
+      } else if (!validateUrl(data.website)) {
+        errors.push(`無効なURL形式です - ${data.website}`);
+      }
+      if (data.category && !(CONSTANTS.COMPANY_CATEGORIES as readonly string[]).includes(data.category)) {
+        warnings.push(`未知のカテゴリー「${data.category}」です`);
+      }
+
+      let status: ImportRowStatus = 'new';
+      let duplicateOf: ImportPreviewRow['duplicateOf'];
+
+      if (errors.length > 0) {
+        status = 'invalid';
+      } else {
+        const existing = existingMatcher.findMatch(data);
+        const inFile = existing ? null : fileMatcher.findMatch(data);
+        if (existing) {
+          status = 'duplicate';
+          duplicateOf = {
+            source: 'existing',
+            name: existing.company.name,
+            website: existing.company.website,
+            reason: existing.reason,
+            nameSimilarity: existing.nameSimilarity
+          };
+        } else if (inFile) {
+          status = 'duplicate';
+          duplicateOf = {
+            source: 'file',
+            name: inFile.company.name,
+            website: inFile.company.website,
+            reason: inFile.reason,
+            nameSimilarity: inFile.nameSimilarity,
+            rowNumber: inFile.company.rowNumber
+          };
+        } else {
+          fileMatcher.add({ ...data, rowNumber });
+        }
+      }
+
+      counts[status]++;
+      return { rowNumber, data, status, errors, warnings, duplicateOf };
+    });
+
+    return { rows, counts };
+  }
+
+  getTemplates(): ImportMappingTemplate[] {
+    try {
+      const stored = localStorage.getItem(CONSTANTS.COMPANY_IMPORT.TEMPLATE_STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as ImportMappingTemplate[]) : [];
+    } catch (error) {
+      console.warn('Failed to load import mapping templates:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 対応付けをテンプレートとして保存（同名のテンプレートは上書き）
+   */
+  saveTemplate(name: string, mapping: ColumnMapping): ImportMappingTemplate[] {
+    const template: ImportMappingTemplate = {
+      id: `import_template_${Date.now()}`,
+      name,
+      mapping: { ...mapping },
+      createdAt: Date.now()
+    };
+    return this.storeTemplates([...this.getTemplates().filter(t => t.name !== name), template]);
+  }
+
+  deleteTemplate(id: string): ImportMappingTemplate[] {
+    return this.storeTemplates(this.getTemplates().filter(template => template.id !== id));
+  }
+
+  /**
+   * テンプレートを適用（ファイルに無い列名の項目は未設定にする）
+   */
+  applyTemplate(template: ImportMappingTemplate, headers: string[]): ColumnMapping {
+    const mapping = { ...template.mapping };
+    IMPORT_FIELDS.forEach(field => {
+      if (mapping[field] && !headers.includes(mapping[field]!)) {
+        mapping[field] = null;
+      }
+    });
+    return mapping;
+  }
+
+  private storeTemplates(templates: ImportMappingTemplate[]): ImportMappingTemplate[] {
+    try {
+      localStorage.setItem(CONSTANTS.COMPANY_IMPORT.TEMPLATE_STORAGE_KEY, JSON.stringify(templates));
+    } catch (error) {
+      console.warn('Failed to save import mapping templates:', error);
+    }
+    return templates;
+  }
+
+  private async readCSV(file: File, encoding?: ImportEncoding): Promise<ImportTable> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const detected = encoding ?? detectEncoding(bytes);
+    const text = decodeText(bytes, detected);
+
+    const result = Papa.parse<string[]>(text, { skipEmptyLines: 'greedy' });
+    if (result.errors.length > 0 && result.data.length === 0) {
+      throw new Error(`CSVファイルの解析に失敗しました: ${result.errors[0].message}`);
+    }
+
+    const [headerRow = [], ...rows] = result.data;
+    return {
+      fileName: file.name,
+      sourceType: 'csv',
+      encoding: detected,
+      headers: this.uniqueHeaders(headerRow),
+      rows
+    };
+  }
+
+  private async readExcel(file: File): Promise<ImportTable> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+
+    const sheet = workbook.worksheets.find(worksheet => worksheet.actualRowCount > 0);
+    if (!sheet) {
+      throw new Error('Excelファイルにデータのあるシートがありません');
+    }
+
+    const rows: string[][] = [];
+    sheet.eachRow({ includeEmpty: false }, row => {
+      const values: string[] = [];
+      for (let column = 1; column <= sheet.columnCount; column++) {
+        values.push(row.getCell(column).text.trim());
+      }
+      if (values.some(value => value !== '')) rows.push(values);
+    });
+
+    const [headerRow = [], ...dataRows] = rows;
+    return {
+      fileName: file.name,
+      sourceType: 'xlsx',
+      sheetName: sheet.name,
+      headers: this.uniqueHeaders(headerRow),
+      rows: dataRows
+    };
+  }
+
+  /**
+   * 空・重複した列名を「列3」「URL (2)」のように区別できる名前にする
+   */
+  private uniqueHeaders(headerRow: string[]): string[] {
+    const seen = new Map<string, number>();
+    return headerRow.map((header, index) => {
+      const base = header.replace(/^\uFEFF/, '').trim() || `列${index + 1}`;
+      const count = (seen.get(base) || 0) + 1;
+      seen.set(base, count);
+      return count > 1 ? `${base} (${count})` : base;
+    });
+  }
+}
+
+// シングルトンインスタンス
+export const companyImportService = new CompanyImportService();
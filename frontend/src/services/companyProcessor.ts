@@ -6,6 +6,7 @@
 import { apiClient } from './apiClient';
 import { companyStorage, mvvStorage, db } from './storage';
 import { companyInfoMigrationService } from './dataMigration';
+import { jobScheduler } from './jobScheduler';
 import { generateCategoryFromIndustryClassification } from '../types/companyInfo';
 import type { Company, CompanyFormData, MVVExtractionRequest } from '../types';
 
@@ -169,7 +170,15 @@ export class CompanyProcessor {
       };
 
       // Perplexity APIを使用（高速・高品質）
-      const mvvData = await apiClient.extractMVVPerplexity(mvvRequest);
+      // 画面から1社ずつ登録する操作なので、実行中のバッチより優先して実行
+      const mvvData = await jobScheduler.submit({
+        kind: 'mvv-extraction',
+        budgetOperation: 'extract-mvv',
+        provider: 'perplexity',
+        priority: 'high',
+        label: company.name,
+        run: () => apiClient.extractMVVPerplexity(mvvRequest)
+      });
 
       if (!mvvData) {
         throw new Error('MVVデータの取得に失敗しました');
@@ -216,7 +225,14 @@ export class CompanyProcessor {
    */
   private async extractCompanyInfo(company: Company): Promise<void> {
     try {
-      await companyInfoMigrationService.extractAndSaveCompanyInfo(company);
+      await jobScheduler.submit({
+        kind: 'company-info',
+        budgetOperation: 'extract-company-info',
+        provider: 'perplexity',
+        priority: 'high',
+        label: company.name,
+        run: () => companyInfoMigrationService.extractAndSaveCompanyInfo(company)
+      });
       console.log(`✅ Company info extracted for ${company.name}`);
 
     } catch (error) {
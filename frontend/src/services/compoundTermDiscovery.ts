@@ -0,0 +1,249 @@
+/**
+ * 複合語候補の自動検出
+ * TinySegmenterの分割結果に対するn-gram統計（PMIと分岐エントロピー）から、
+ * 辞書に登録すべき複合語（「医療従事者」「循環型社会」など）を推定する
+ */
+
+import { enhancedSegmentationService } from './enhancedSegmentationService';
+import { checkCancelled, type ComputeCompany, type ComputeContext } from './analysisCompute';
+
+export interface CompoundCandidateExample {
+  companyId: string;
+  companyName: string;
+  snippet: string;
+}
+
+export interface CompoundCandidate {
+  term: string;
+  parts: string[];               // TinySegmenterでの分割結果
+  frequency: number;             // 出現回数
+  documentFrequency: number;     // 出現企業数
+  pmi: number;                   // 構成語間の自己相互情報量（分割位置ごとの最小値）
+  leftEntropy: number;           // 左側の分岐エントロピー
+  rightEntropy: number;          // 右側の分岐エントロピー
+  score: number;
+  exampleCompanies: CompoundCandidateExample[];
+}
+
+export interface CompoundDiscoveryOptions {
+  minFrequency: number;
+  minDocumentFrequency: number;
+  minPmi: number;
+  maxNgram: number;              // 連結する最大語数
+  maxCandidates: number;
+}
+
+export interface CompoundDiscoveryResult {
+  candidates: CompoundCandidate[];
+  documentCount: number;
+  tokenCount: number;
+}
+
+export const DEFAULT_COMPOUND_DISCOVERY_OPTIONS: CompoundDiscoveryOptions = {
+  minFrequency: 2,
+  minDocumentFrequency: 2,
+  minPmi: 2,
+  maxNgram: 3,
+  maxCandidates: 300
+};
+
+const MAX_EXAMPLES = 3;
+const MIN_TERM_LENGTH = 3;
+const MAX_TERM_LENGTH = 15;
+// 長い候補の出現回数がこの割合以上なら、それに含まれる短い候補は除外する
+const SUBSUMPTION_RATIO = 0.8;
+const BOUNDARY = '\u0000';
+const KEY_SEPARATOR = '\u0001';
+
+// 複合語の構成要素になりうる語（漢字・カタカナ・英数字）
+const CONTENT_TOKEN_PATTERN = /^[一-龯ー゠-ヿA-Za-z0-9々〆]+$/;
+
+interface NgramStats {
+  parts: string[];
+  count: number;
+  documents: Set<string>;
+  leftContexts: Map<string, number>;
+  rightContexts: Map<string, number>;
+  leftBoundaries: number;
+  rightBoundaries: number;
+  examples: CompoundCandidateExample[];
+}
+
+const getCompanyTexts = (company: ComputeCompany): string[] => {
+  const values = Array.isArray(company.values) ? company.values : (company.values ? [company.values] : []);
+  return [company.mission || '', company.vision || '', ...values].filter(text => text.trim().length > 0);
+};
+
+/**
+ * 句読点・空白で文を区切ってから分割する（文をまたぐn-gramを作らない）
+ */
+const segmentSentences = (text: string): string[][] =>
+  text
+    .split(/[\s、。，．,.・！？!?「」『』（）()【】［］[\]:：;；/／]+/)
+    .filter(sentence => sentence.length > 0)
+    .map(sentence => enhancedSegmentationService.segmentWithCompounds(sentence, {
+      preserveCompounds: false,
+      enableCustomRules: false
+    }).segments);
+
+/**
+ * 分岐エントロピー（文頭・文末は毎回異なる文脈として数える）
+ */
+const branchingEntropy = (contexts: Map<string, number>, boundaries: number): number => {
+  let total = boundaries;
+  contexts.forEach(count => {
+    total += count;
+  });
+  if (total === 0) return 0;
+
+  let entropy = 0;
+  contexts.forEach(count => {
+    const p = count / total;
+    entropy -= p * Math.log2(p);
+  });
+  if (boundaries > 0) {
+    const p = 1 / total;
+    entropy -= boundaries * p * Math.log2(p);
+  }
+  return entropy;
+};
+
+/**
+ * 全企業のMVVテキストから複合語候補を抽出
+ */
+export const discoverCompoundCandidates = (
+  companies: ComputeCompany[],
+  context: ComputeContext<never>,
+  options: CompoundDiscoveryOptions = DEFAULT_COMPOUND_DISCOVERY_OPTIONS
+): CompoundDiscoveryResult => {
+  const unigramCounts = new Map<string, number>();
+  const ngrams = new Map<string, NgramStats>();
+  let tokenCount = 0;
+  let documentCount = 0;
+
+  companies.forEach((company, companyIndex) => {
+    checkCancelled(context);
+    const texts = getCompanyTexts(company);
+    if (texts.length > 0) documentCount++;
+
+    texts.forEach(text => {
+      segmentSentences(text).forEach(tokens => {
+        tokens.forEach(token => {
+          unigramCounts.set(token, (unigramCounts.get(token) || 0) + 1);
+        });
+        tokenCount += tokens.length;
+
+        for (let start = 0; start < tokens.length; start++) {
+          if (!CONTENT_TOKEN_PATTERN.test(tokens[start])) continue;
+
+          for (let n = 2; n <= options.maxNgram && start + n <= tokens.length; n++) {
+            if (!CONTENT_TOKEN_PATTERN.test(tokens[start + n - 1])) break;
+
+            const parts = tokens.slice(start, start + n);
+            const key = parts.join(KEY_SEPARATOR);
+            let stats = ngrams.get(key);
+            if (!stats) {
+              stats = {
+                parts,
+                count: 0,
+                documents: new Set(),
+                leftContexts: new Map(),
+                rightContexts: new Map(),
+                leftBoundaries: 0,
+                rightBoundaries: 0,
+                examples: []
+              };
+              ngrams.set(key, stats);
+            }
+
+            stats.count++;
+            const left = start > 0 ? tokens[start - 1] : BOUNDARY;
+            const right = start + n < tokens.length ? tokens[start + n] : BOUNDARY;
+            if (left === BOUNDARY) stats.leftBoundaries++;
+            else stats.leftContexts.set(left, (stats.leftContexts.get(left) || 0) + 1);
+            if (right === BOUNDARY) stats.rightBoundaries++;
+            else stats.rightContexts.set(right, (stats.rightContexts.get(right) || 0) + 1);
+
+            if (!stats.documents.has(company.id)) {
+              stats.documents.add(company.id);
+              if (stats.examples.length < MAX_EXAMPLES) {
+                stats.examples.push({
+                  companyId: company.id,
+                  companyName: company.name,
+                  snippet: text.length > 80 ? `${text.slice(0, 80)}…` : text
+                });
+              }
+            }
+          }
+        }
+      });
+    });
+
+    context.reportProgress({ phase: 'discovery', completed: companyIndex + 1, total: companies.length });
+  });
+
+  if (tokenCount === 0) {
+    return { candidates: [], documentCount, tokenCount };
+  }
+
+  // 部分列の出現回数（1語は全トークン、2語以上は内容語のn-gram）
+  const countOf = (parts: string[]): number =>
+    parts.length === 1
+      ? unigramCounts.get(parts[0]) || 0
+      : ngrams.get(parts.join(KEY_SEPARATOR))?.count || 0;
+
+  const scored: CompoundCandidate[] = [];
+  ngrams.forEach(stats => {
+    const term = stats.parts.join('');
+    if (stats.count < options.minFrequency) return;
+    if (stats.documents.size < options.minDocumentFrequency) return;
+    if (term.length < MIN_TERM_LENGTH || term.length > MAX_TERM_LENGTH) return;
+
+    // 分割位置ごとのPMIの最小値（どこで切っても強く結びついている語のみ残す）
+    const pNgram = stats.count / tokenCount;
+    let pmi = Infinity;
+    for (let split = 1; split < stats.parts.length; split++) {
+      const leftCount = countOf(stats.parts.slice(0, split));
+      const rightCount = countOf(stats.parts.slice(split));
+      if (leftCount === 0 || rightCount === 0) continue;
+      pmi = Math.min(pmi, Math.log2(pNgram / ((leftCount / tokenCount) * (rightCount / tokenCount))));
+    }
+    if (!Number.isFinite(pmi) || pmi < options.minPmi) return;
+
+    const leftEntropy = branchingEntropy(stats.leftContexts, stats.leftBoundaries);
+    const rightEntropy = branchingEntropy(stats.rightContexts, stats.rightBoundaries);
+
+    scored.push({
+      term,
+      parts: stats.parts,
+      frequency: stats.count,
+      documentFrequency: stats.documents.size,
+      pmi,
+      leftEntropy,
+      rightEntropy,
+      // 結びつきの強さ × 出現頻度 × 前後の文脈の多様さ（語の境界らしさ）
+      score: pmi * Math.log2(1 + stats.count) * (1 + Math.min(leftEntropy, rightEntropy)),
+      exampleCompanies: stats.examples
+    });
+  });
+
+  checkCancelled(context);
+
+  // より長い候補とほぼ同じ頻度で現れる短い候補は、長い候補の一部とみなして除外
+  const byLength = [...scored].sort((a, b) => b.term.length - a.term.length);
+  const candidates = scored.filter(candidate =>
+    !byLength.some(longer =>
+      longer.term.length > candidate.term.length &&
+      longer.term.includes(candidate.term) &&
+      longer.frequency >= candidate.frequency * SUBSUMPTION_RATIO
+    )
+  );
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  return {
+    candidates: candidates.slice(0, options.maxCandidates),
+    documentCount,
+    tokenCount
+  };
+};
@@ -0,0 +1,194 @@
+/**
+ * 概念アンカーによるカスタム軸ポジショニング
+ * 軸ごとに両端の言葉（アンカー）を埋め込みベクトル化し、
+ * 企業の埋め込みベクトルと「正の端とのコサイン類似度 − 負の端とのコサイン類似度」を軸上の座標とする
+ * 軸の定義はプリセットとしてlocalStorageに保存し、マップとExcelレポートで共有する
+ */
+
+import { CONSTANTS } from '../utils/constants';
+import { generateId } from '../utils/formatters';
+import { calculateCosineSimilarity, generateEmbeddings } from './openai';
+
+export interface ConceptAxis {
+  /** 負の端（マップの左・下）のアンカー */
+  negative: string;
+  /** 正の端（マップの右・上）のアンカー */
+  positive: string;
+}
+
+export interface ConceptAxisPreset {
+  id: string;
+  name: string;
+  xAxis: ConceptAxis;
+  yAxis: ConceptAxis;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ConceptAnchorEmbeddings {
+  xAxis: { negative: number[]; positive: number[] };
+  yAxis: { negative: number[]; positive: number[] };
+}
+
+export interface ConceptPosition {
+  id: string;
+  /** X軸の座標（-2〜2。正の端により近いほど大きい） */
+  x: number;
+  y: number;
+}
+
+export interface ConceptAxisCompany {
+  id: string;
+  embeddings?: number[];
+}
+
+export const DEFAULT_CONCEPT_AXIS_PRESETS: ConceptAxisPreset[] = [
+  {
+    id: 'default-innovation-global',
+    name: '技術革新 × グローバル',
+    xAxis: { negative: '伝統・信頼', positive: '技術革新' },
+    yAxis: { negative: '地域密着', positive: 'グローバル' },
+    createdAt: 0,
+    updatedAt: 0
+  }
+];
+
+export const isValidConceptAxis = (axis: ConceptAxis): boolean =>
+  axis.negative.trim().length > 0 && axis.positive.trim().length > 0 && axis.negative.trim() !== axis.positive.trim();
+
+/**
+ * 各企業を概念軸へ射影する（埋め込みベクトルがない・次元が異なる企業は除外）
+ */
+export const projectOntoConceptAxes = (
+  companies: ConceptAxisCompany[],
+  anchors: ConceptAnchorEmbeddings
+): ConceptPosition[] => {
+  const dimension = anchors.xAxis.positive.length;
+
+  return companies
+    .filter(company => company.embeddings && company.embeddings.length === dimension)
+    .map(company => {
+      const embedding = company.embeddings!;
+      return {
+        id: company.id,
+        x: calculateCosineSimilarity(embedding, anchors.xAxis.positive) - calculateCosineSimilarity(embedding, anchors.xAxis.negative),
+        y: calculateCosineSimilarity(embedding, anchors.yAxis.positive) - calculateCosineSimilarity(embedding, anchors.yAxis.negative)
+      };
+    });
+};
+
+class ConceptAxisService {
+  private anchorCache = new Map<string, Promise<number[]>>();
+
+  getPresets(): ConceptAxisPreset[] {
+    try {
+      const stored = localStorage.getItem(CONSTANTS.CONCEPT_AXES.STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as ConceptAxisPreset[]) : DEFAULT_CONCEPT_AXIS_PRESETS;
+    } catch (error) {
+      console.warn('Failed to load concept axis presets:', error);
+      return DEFAULT_CONCEPT_AXIS_PRESETS;
+    }
+  }
+
+  /**
+   * プリセットを保存（idが未指定または未登録なら新規作成）
+   */
+  savePreset(preset: Omit<ConceptAxisPreset, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }): ConceptAxisPreset {
+    if (!preset.name.trim()) {
+      throw new Error('プリセット名を入力してください');
+    }
+    if (!isValidConceptAxis(preset.xAxis) || !isValidConceptAxis(preset.yAxis)) {
+      throw new Error('各軸に異なる2つのアンカーを入力してください');
+    }
+
+    const presets = this.getPresets();
+    const now = Date.now();
+    const existing = preset.id ? presets.find(item => item.id === preset.id) : undefined;
+    const saved: ConceptAxisPreset = {
+      id: existing?.id ?? generateId(),
+      name: preset.name.trim(),
+      xAxis: { negative: preset.xAxis.negative.trim(), positive: preset.xAxis.positive.trim() },
+      yAxis: { negative: preset.yAxis.negative.trim(), positive: preset.yAxis.positive.trim() },
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+
+    this.savePresets(existing
+      ? presets.map(item => (item.id === saved.id ? saved : item))
+      : [...presets, saved]);
+    return saved;
+  }
+
+  deletePreset(id: string): void {
+    this.savePresets(this.getPresets().filter(preset => preset.id !== id));
+    if (this.getActivePresetId() === id) {
+      localStorage.removeItem(CONSTANTS.CONCEPT_AXES.ACTIVE_STORAGE_KEY);
+    }
+  }
+
+  getActivePresetId(): string | null {
+    return localStorage.getItem(CONSTANTS.CONCEPT_AXES.ACTIVE_STORAGE_KEY);
+  }
+
+  setActivePresetId(id: string): void {
+    localStorage.setItem(CONSTANTS.CONCEPT_AXES.ACTIVE_STORAGE_KEY, id);
+  }
+
+  /**
+   * マップで最後に使ったプリセット（未選択なら先頭のプリセット）
+   */
+  getActivePreset(): ConceptAxisPreset | null {
+    const presets = this.getPresets();
+    const activeId = this.getActivePresetId();
+    return presets.find(preset => preset.id === activeId) ?? presets[0] ?? null;
+  }
+
+  /**
+   * 4つのアンカーを埋め込みベクトル化（同じ言葉は再利用する）
+   */
+  async embedAnchors(preset: Pick<ConceptAxisPreset, 'xAxis' | 'yAxis'>): Promise<ConceptAnchorEmbeddings> {
+    const [xNegative, xPositive, yNegative, yPositive] = await Promise.all([
+      this.embedAnchor(preset.xAxis.negative),
+      this.embedAnchor(preset.xAxis.positive),
+      this.embedAnchor(preset.yAxis.negative),
+      this.embedAnchor(preset.yAxis.positive)
+    ]);
+
+    return {
+      xAxis: { negative: xNegative, positive: xPositive },
+      yAxis: { negative: yNegative, positive: yPositive }
+    };
+  }
+
+  /**
+   * プリセットの軸に企業を射影する
+   */
+  async computeConceptPositions(
+    companies: ConceptAxisCompany[],
+    preset: Pick<ConceptAxisPreset, 'xAxis' | 'yAxis'>
+  ): Promise<ConceptPosition[]> {
+    return projectOntoConceptAxes(companies, await this.embedAnchors(preset));
+  }
+
+  private embedAnchor(anchor: string): Promise<number[]> {
+    const key = anchor.trim();
+    let embedding = this.anchorCache.get(key);
+    if (!embedding) {
+      embedding = generateEmbeddings(key);
+      // 失敗した場合は次回再試行する
+      embedding.catch(() => this.anchorCache.delete(key));
+      this.anchorCache.set(key, embedding);
+    }
+    return embedding;
+  }
+
+  private savePresets(presets: ConceptAxisPreset[]): void {
+    try {
+      localStorage.setItem(CONSTANTS.CONCEPT_AXES.STORAGE_KEY, JSON.stringify(presets));
+    } catch (error) {
+      console.warn('Failed to save concept axis presets:', error);
+    }
+  }
+}
+
+export const conceptAxisService = new ConceptAxisService();
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// 所要時間の見積もりは純粋関数のため、サービスの依存先は読み込まない
+vi.mock('./apiLogger', () => ({ apiLoggerService: {} }));
+vi.mock('./aiCacheService', () => ({ aiCacheService: {} }));
+vi.mock('./budgetService', () => ({ budgetService: {}, formatUsd: vi.fn(), isBudgetOperationType: vi.fn() }));
+
+const { estimateScheduleDuration } = await import('./costEstimator');
+
+describe('estimateScheduleDuration', () => {
+  it('returns 0 when there are no jobs', () => {
+    expect(estimateScheduleDuration([], 3, 1000)).toBe(0);
+  });
+
+  it('returns the job duration for a single job', () => {
+    expect(estimateScheduleDuration([5000], 3, 1000)).toBe(5000);
+  });
+
+  it('is bound by the start interval when jobs finish faster than they can be started', () => {
+    // 開始間隔 2秒 × 9 + 平均 1秒 = 19秒 > 同時実行枠 ceil(10 / 3) × 1秒 = 4秒
+    expect(estimateScheduleDuration(Array(10).fill(1000), 3, 2000)).toBe(19000);
+  });
+
+  it('is bound by concurrency when jobs take longer than the start interval', () => {
+    // 同時実行枠 ceil(10 / 2) × 平均 10秒 = 50秒 > 開始間隔 0.5秒 × 9 + 10秒 = 14.5秒
+    expect(estimateScheduleDuration(Array(10).fill(10000), 2, 500)).toBe(50000);
+  });
+
+  it('uses the mean job duration', () => {
+    expect(estimateScheduleDuration([1000, 3000, 2000, 2000], 1, 0)).toBe(8000);
+  });
+
+  it('treats concurrency below 1 as sequential execution', () => {
+    expect(estimateScheduleDuration([1000, 1000, 1000], 0, 0)).toBe(3000);
+  });
+
+  it('does not get shorter than the interval bound when concurrency grows', () => {
+    const durations = Array(20).fill(3000);
+    expect(estimateScheduleDuration(durations, 100, 1000)).toBe(19 * 1000 + 3000);
+    expect(estimateScheduleDuration(durations, 1, 1000)).toBe(20 * 3000);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * バッチ処理の実行前コスト見積もり
+ * 同じ処理種別のAPIログ（1回あたりのトークン数・所要時間・コストの中央値）、
+ * 対象企業数、AIキャッシュのヒット見込み、ジョブキューの同時実行数・開始間隔から
+ * 実行全体のトークン数・コスト・所要時間を推定する
+ */
+
+import type { MVVExtractionRequest, CompanyInfoExtractionRequest } from '../types';
+import type { JobProvider } from '../types/jobScheduler';
+import type { BudgetOperationType } from '../types/budget';
+import { apiLoggerService, type ApiLogEntry } from './apiLogger';
+import { aiCacheService } from './aiCacheService';
+import { budgetService, formatUsd, isBudgetOperationType } from './budgetService';
+import { CONSTANTS } from '../utils/constants';
+
+export type EstimateOperation = 'extract-mvv' | 'extract-company-info' | 'generate-embeddings';
+
+export type PlannedCall =
+  | { operation: 'extract-mvv'; request: MVVExtractionRequest }
+  | { operation: 'extract-company-info'; request: CompanyInfoExtractionRequest }
+  | { operation: 'generate-embeddings'; inputText: string };
+
+// 1ジョブ内の呼び出しは順番に実行される
+export interface PlannedJob {
+  provider: JobProvider;
+  calls: PlannedCall[];
+}
+
+export type EstimateMetric = 'tokens' | 'cost' | 'duration';
+
+export interface CostBreakdownRow {
+  operation: EstimateOperation;
+  label: string;
+  provider: JobProvider;
+  model: string;
+  calls: number;
+  cachedCalls: number;
+  tokens: number;
+  cost: number;
+  medianDurationMs: number;
+  basis: Record<EstimateMetric, 'history' | 'default'>;  // 指標ごとに実績の中央値か既定値か
+  sampleSize: number;
+}
+
+export interface ProviderScheduleEstimate {
+  provider: JobProvider;
+  jobs: number;
+  concurrency: number;
+  minStartIntervalMs: number;
+  durationMs: number;
+}
+
+export interface BatchCostEstimate {
+  jobCount: number;
+  totalCalls: number;
+  cachedCalls: number;
+  totalTokens: number;
+  totalCost: number;
+  durationMs: number;
+  rows: CostBreakdownRow[];
+  providers: ProviderScheduleEstimate[];
+  budgetWarnings: string[];
+}
+
+interface OperationProfile {
+  label: string;
+  provider: JobProvider;
+  model: string;
+  tokensPerCall: number;
+  durationMs: number;
+  costPerCall: number;
+}
+
+interface OperationHistory {
+  medianTokens: number | null;
+  medianDurationMs: number | null;
+  medianCost: number | null;
+  model: string | null;
+  sampleSize: number;
+}
+
+// 実績が無い場合の既定値
+const OPERATION_PROFILES: Record<EstimateOperation, OperationProfile> = {
+  'extract-mvv': {
+    label: 'MVV抽出',
+    provider: 'perplexity',
+    model: 'sonar-pro',
+    tokensPerCall: 1500,
+    durationMs: 15000,
+    costPerCall: CONSTANTS.BUDGET.DEFAULT_CALL_COSTS['extract-mvv']
+  },
+  'extract-company-info': {
+    label: '企業情報抽出',
+    provider: 'perplexity',
+    model: 'sonar-pro',
+    tokensPerCall: 2500,
+    durationMs: 20000,
+    costPerCall: CONSTANTS.BUDGET.DEFAULT_CALL_COSTS['extract-company-info']
+  },
+  'generate-embeddings': {
+    label: 'Embeddings生成',
+    provider: 'openai',
+    model: 'text-embedding-3-small',
+    tokensPerCall: 300,
+    durationMs: 500,
+    costPerCall: 0
+  }
+};
+
+const HISTORY_SAMPLE_SIZE = 100;
+// apiClient はこれらを除いたパラメータでキャッシュキーを作る
+const CACHE_IDENTITY_KEYS = ['companyId', 'companyName', 'companyWebsite'];
+const CACHED_CALL_MS = 50;
+const EMBEDDING_COST_PER_1M_TOKENS = 0.02;
+// 日本語はおおむね1文字1トークン前後
+const TOKENS_PER_CHAR = 1;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const mostFrequent = (values: string[]): string | null => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/**
+ * 同時実行数と開始間隔から、ジョブ群の所要時間を見積もる
+ * 開始間隔で律速される場合と、同時実行枠で律速される場合の長い方を採る
+ */
+export const estimateScheduleDuration = (
+  jobDurations: number[],
+  concurrency: number,
+  minStartIntervalMs: number
+): number => {
+  if (jobDurations.length === 0) return 0;
+  const total = jobDurations.reduce((sum, duration) => sum + duration, 0);
+  const mean = total / jobDurations.length;
+  const intervalBound = (jobDurations.length - 1) * minStartIntervalMs + mean;
+  const concurrencyBound = Math.ceil(jobDurations.length / Math.max(1, concurrency)) * mean;
+  return Math.max(intervalBound, concurrencyBound);
+};
+
+export class CostEstimatorService {
+  /**
+   * 計画したジョブ群のトークン数・コスト・所要時間を見積もる
+   */
+  async estimate(jobs: PlannedJob[]): Promise<BatchCostEstimate> {
+    const operations = Array.from(new Set(jobs.flatMap(job => job.calls.map(call => call.operation))));
+    const histories = new Map<EstimateOperation, OperationHistory>();
+    await Promise.all(operations.map(async operation => {
+      histories.set(operation, await this.getOperationHistory(operation));
+    }));
+
+    const rows = new Map<EstimateOperation, CostBreakdownRow>();
+    const jobDurationsByProvider = new Map<JobProvider, number[]>();
+
+    for (const job of jobs) {
+      let jobDuration = 0;
+
+      for (const call of job.calls) {
+        const profile = OPERATION_PROFILES[call.operation];
+        const history = histories.get(call.operation)!;
+        const durationMs = history.medianDurationMs ?? profile.durationMs;
+
+        let row = rows.get(call.operation);
+        if (!row) {
+          row = {
+            operation: call.operation,
+            label: profile.label,
+            provider: profile.provider,
+            model: history.model ?? profile.model,
+            calls: 0,
+            cachedCalls: 0,
+            tokens: 0,
+            cost: 0,
+            medianDurationMs: durationMs,
+            basis: {
+              tokens: history.medianTokens !== null ? 'history' : 'default',
+              cost: history.medianCost !== null ? 'history' : 'default',
+              duration: history.medianDurationMs !== null ? 'history' : 'default'
+            },
+            sampleSize: history.sampleSize
+          };
+          rows.set(call.operation, row);
+        }
+
+        row.calls++;
+        if (await this.isCached(call)) {
+          row.cachedCalls++;
+          jobDuration += CACHED_CALL_MS;
+          continue;
+        }
+
+        if (call.operation === 'generate-embeddings') {
+          const tokens = call.inputText
+            ? Math.ceil(call.inputText.length * TOKENS_PER_CHAR)
+            : profile.tokensPerCall;
+          row.tokens += tokens;
+          row.cost += (tokens / 1000000) * EMBEDDING_COST_PER_1M_TOKENS;
+        } else {
+          row.tokens += history.medianTokens ?? profile.tokensPerCall;
+          row.cost += history.medianCost ?? profile.costPerCall;
+        }
+        jobDuration += durationMs;
+      }
+
+      const durations = jobDurationsByProvider.get(job.provider) || [];
+      durations.push(jobDuration);
+      jobDurationsByProvider.set(job.provider, durations);
+    }
+
+    const providers: ProviderScheduleEstimate[] = [];
+    jobDurationsByProvider.forEach((durations, provider) => {
+      const settings = CONSTANTS.JOB_SCHEDULER.PROVIDERS[provider];
+      providers.push({
+        provider,
+        jobs: durations.length,
+        concurrency: settings.CONCURRENCY,
+        minStartIntervalMs: settings.MIN_START_INTERVAL_MS,
+        durationMs: estimateScheduleDuration(durations, settings.CONCURRENCY, settings.MIN_START_INTERVAL_MS)
+      });
+    });
+
+    const rowList = Array.from(rows.values());
+    const totalCost = rowList.reduce((sum, row) => sum + row.cost, 0);
+
+    return {
+      jobCount: jobs.length,
+      totalCalls: rowList.reduce((sum, row) => sum + row.calls, 0),
+      cachedCalls: rowList.reduce((sum, row) => sum + row.cachedCalls, 0),
+      totalTokens: rowList.reduce((sum, row) => sum + row.tokens, 0),
+      totalCost,
+      // プロバイダごとのキューは並行して進む
+      durationMs: providers.reduce((max, provider) => Math.max(max, provider.durationMs), 0),
+      rows: rowList,
+      providers,
+      budgetWarnings: this.checkBudget(rowList, totalCost)
+    };
+  }
+
+  /**
+   * 直近の成功したAPIログから1回あたりの中央値を求める
+   */
+  private async getOperationHistory(operation: EstimateOperation): Promise<OperationHistory> {
+    const empty: OperationHistory = { medianTokens: null, medianDurationMs: null, medianCost: null, model: null, sampleSize: 0 };
+    if (!isBudgetOperationType(operation)) return empty;
+
+    try {
+      const logs: ApiLogEntry[] = (await apiLoggerService.getLogs({ operationType: operation, hasError: false }))
+        .filter(log => log.responseData && log.responseData.status >= 200 && log.responseData.status < 300)
+        .slice(0, HISTORY_SAMPLE_SIZE);
+      if (logs.length === 0) return empty;
+
+      return {
+        medianTokens: median(logs.map(log => log.metadata.costTracking?.tokensUsed || 0).filter(tokens => tokens > 0)),
+        medianDurationMs: median(logs.map(log => log.responseData.timing?.duration || 0).filter(duration => duration > 0)),
+        medianCost: median(logs.map(log => log.metadata.costTracking?.estimatedCost || 0).filter(cost => cost > 0)),
+        model: mostFrequent(
+          logs
+            .map(log => log.metadata.costTracking?.model)
+            .filter((model): model is string => !!model && model !== 'unknown')
+        ),
+        sampleSize: logs.length
+      };
+    } catch (error) {
+      console.warn(`Failed to load API log history for ${operation}:`, error);
+      return empty;
+    }
+  }
+
+  /**
+   * apiClient と同じキーでキャッシュの有無を確認
+   */
+  private async isCached(call: PlannedCall): Promise<boolean> {
+    if (call.operation === 'generate-embeddings') return false;
+
+    const otherParams = Object.fromEntries(
+      Object.entries(call.request).filter(([key]) => !CACHE_IDENTITY_KEYS.includes(key))
+    );
+    return aiCacheService.hasCompanyInfoCache(
+      call.operation === 'extract-mvv' ? 'mvv-extraction' : 'company-info',
+      call.request.companyId,
+      call.request.companyName,
+      otherParams,
+      call.request.companyWebsite
+    );
+  }
+
+  /**
+   * 見積もりコストを加えた場合に予算上限を超える範囲を列挙
+   */
+  private checkBudget(rows: CostBreakdownRow[], totalCost: number): string[] {
+    const status = budgetService.getStatus();
+    const costByOperation = new Map<BudgetOperationType, number>();
+    rows.forEach(row => {
+      if (isBudgetOperationType(row.operation)) {
+        costByOperation.set(row.operation, row.cost);
+      }
+    });
+
+    return status.scopes
+      .map(scope => {
+        const cost = scope.scope === 'monthly' || scope.scope === 'daily'
+          ? totalCost
+          : costByOperation.get(scope.scope) ?? 0;
+        if (cost === 0 || scope.spent + cost <= scope.limit) return null;
+        return `${scope.label}: 実行後 ${formatUsd(scope.spent + cost)}（上限 ${formatUsd(scope.limit)}）`;
+      })
+      .filter((warning): warning is string => warning !== null);
+  }
+}
+
+// シングルトンインスタンス
+export const costEstimatorService = new CostEstimatorService();
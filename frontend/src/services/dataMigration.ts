@@ -1,11 +1,13 @@
 /**
  * Data migration utilities for transitioning from old schema to new schema
- * Extended to support CompanyInfo migration
+ * Extended to support CompanyInfo and per-field embeddings migration
  */
 
 import { companyStorage, mvvStorage, db } from './storage';
 import { apiClient } from './apiClient';
 import { generateCategoryFromIndustryClassification } from '../types/companyInfo';
+import { generateFieldEmbeddings, isFieldEmbeddingsUpToDate } from './mvvFieldEmbeddings';
+import { jobScheduler } from './jobScheduler';
 import type { Company, CompanyInfo, CompanyInfoExtractionRequest } from '../types';
 
 /**
@@ -273,10 +275,10 @@ export class CompanyInfoMigrationService {
   }
 
   /**
-   * 企業情報を取得して保存
+   * 企業情報抽出のリクエスト（実行前のコスト見積もりでも同じ条件を使う）
    */
-  async extractAndSaveCompanyInfo(company: Company): Promise<void> {
-    const request: CompanyInfoExtractionRequest = {
+  buildExtractionRequest(company: Company): CompanyInfoExtractionRequest {
+    return {
       companyId: company.id,
       companyName: company.name,
       companyWebsite: company.website,
@@ -284,6 +286,13 @@ export class CompanyInfoMigrationService {
       includeESG: true,
       includeCompetitors: true
     };
+  }
+
+  /**
+   * 企業情報を取得して保存
+   */
+  async extractAndSaveCompanyInfo(company: Company): Promise<void> {
+    const request = this.buildExtractionRequest(company);
 
     try {
       const response = await apiClient.extractCompanyInfo(request);
@@ -471,4 +480,96 @@ export class CompanyInfoMigrationService {
 }
 
 // シングルトンインスタンスをエクスポート
-export const companyInfoMigrationService = CompanyInfoMigrationService.getInstance();
\ No newline at end of file
+export const companyInfoMigrationService = CompanyInfoMigrationService.getInstance();
+
+// ========================================
+// Field Embeddings Migration
+// ========================================
+
+/**
+ * Field embeddings migration result interface
+ */
+export interface FieldEmbeddingsMigrationResult {
+  totalCompanies: number;
+  migrated: number;
+  failed: number;
+  errors: Array<{
+    companyId: string;
+    companyName: string;
+    error: string;
+  }>;
+}
+
+/**
+ * 統合Embeddingsはあるが、項目別（ミッション・ビジョン・バリュー各項目）のEmbeddingsが未生成または古い企業か
+ */
+export function needsFieldEmbeddingsMigration(company: Company): boolean {
+  return !!company.embeddings?.length && !isFieldEmbeddingsUpToDate(company, company.fieldEmbeddings);
+}
+
+/**
+ * 項目別Embeddingsの移行をAIジョブとして投入（生成済みの項目は再利用し、不足分のみAPIを呼ぶ）
+ * 画面からの一括処理とコンソールからの移行で同じジョブを使い、同時実行数と予算の判定を共有する
+ * @param save 生成した項目別Embeddingsの保存先（画面ではストア経由で更新する）
+ */
+export function scheduleFieldEmbeddingsMigration(
+  companies: Company[],
+  groupId: string,
+  save: (companyId: string, updates: Pick<Company, 'fieldEmbeddings'>) => Promise<unknown>
+): Array<Promise<void>> {
+  return companies.map(company =>
+    jobScheduler.submit({
+      kind: 'embeddings',
+      provider: 'openai',
+      label: company.name,
+      groupId,
+      groupLabel: `項目別Embeddingsの移行（${companies.length}社）`,
+      run: async () => {
+        const fieldEmbeddings = await generateFieldEmbeddings(company, company.fieldEmbeddings);
+        await save(company.id, { fieldEmbeddings });
+      }
+    })
+  );
+}
+
+/**
+ * 既存企業に項目別Embeddingsを追加（ブラウザコンソール用）
+ */
+export async function migrateFieldEmbeddings(
+  onProgress?: (progress: { current: number; total: number; company: Company }) => void
+): Promise<FieldEmbeddingsMigrationResult> {
+  const companies = (await companyStorage.getAll()).filter(needsFieldEmbeddingsMigration);
+  const result: FieldEmbeddingsMigrationResult = {
+    totalCompanies: companies.length,
+    migrated: 0,
+    failed: 0,
+    errors: []
+  };
+
+  console.log(`Starting field embeddings migration for ${companies.length} companies...`);
+
+  let completed = 0;
+  const jobs = scheduleFieldEmbeddingsMigration(
+    companies,
+    `field_embeddings_migration_${Date.now()}`,
+    (companyId, updates) => companyStorage.update(companyId, updates)
+  ).map((job, index) =>
+    job.finally(() => onProgress?.({ current: ++completed, total: companies.length, company: companies[index] }))
+  );
+
+  (await Promise.allSettled(jobs)).forEach((settled, index) => {
+    if (settled.status === 'fulfilled') {
+      result.migrated++;
+      return;
+    }
+    result.failed++;
+    result.errors.push({
+      companyId: companies[index].id,
+      companyName: companies[index].name,
+      error: settled.reason instanceof Error ? settled.reason.message : 'Unknown error'
+    });
+  });
+
+  console.log('Field embeddings migration completed:', result);
+  return result;
+}
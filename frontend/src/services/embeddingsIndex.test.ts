@@ -0,0 +1,218 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EmbeddingsIndexService, HNSWGraph } from './embeddingsIndex';
+import { db } from './storage';
+import { createSeededRandom, gaussianRandom } from '../utils/seededRandom';
+
+const DIMENSION = 32;
+
+const randomVectors = (count: number, seed: number, prefix = 'company'): Array<{ id: string; embeddings: number[] }> => {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${prefix}_${i}`,
+    embeddings: Array.from({ length: DIMENSION }, () => gaussianRandom(random))
+  }));
+};
+
+const cosine = (a: number[], b: number[]): number => {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dotProduct / Math.sqrt(normA * normB);
+};
+
+const bruteForceTopK = (items: Array<{ id: string; embeddings: number[] }>, query: number[], k: number): string[] =>
+  items
+    .map(item => ({ id: item.id, similarity: cosine(item.embeddings, query) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(item => item.id);
+
+const recallAt = (
+  search: (query: number[], k: number) => string[],
+  items: Array<{ id: string; embeddings: number[] }>,
+  queries: number[][],
+  k: number
+): number => {
+  let hits = 0;
+  for (const query of queries) {
+    const expected = new Set(bruteForceTopK(items, query, k));
+    hits += search(query, k).filter(id => expected.has(id)).length;
+  }
+  return hits / (queries.length * k);
+};
+
+const buildGraph = (items: Array<{ id: string; embeddings: number[] }>): HNSWGraph => {
+  const graph = new HNSWGraph();
+  const dirty = new Set<string>();
+  items.forEach(item => graph.insert(item.id, item.embeddings, dirty));
+  return graph;
+};
+
+describe('HNSWGraph', () => {
+  const items = randomVectors(500, 1);
+  const queries = randomVectors(30, 2, 'query').map(q => q.embeddings);
+
+  it('matches brute-force cosine search with high recall', () => {
+    const graph = buildGraph(items);
+    const recall = recallAt((query, k) => graph.search(query, k).map(r => r.companyId), items, queries, 10);
+
+    expect(graph.size).toBe(500);
+    expect(recall).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it('returns cosine similarities in descending order', () => {
+    const graph = buildGraph(items);
+    const results = graph.search(queries[0], 10);
+    const byId = new Map(items.map(item => [item.id, item.embeddings]));
+
+    results.forEach(result => {
+      expect(result.similarity).toBeCloseTo(cosine(byId.get(result.companyId)!, queries[0]), 5);
+    });
+    expect(results.map(r => r.similarity)).toEqual([...results.map(r => r.similarity)].sort((a, b) => b - a));
+  });
+
+  it('keeps recall after removing nodes and never returns removed ones', () => {
+    const graph = buildGraph(items);
+    const removed = items.filter((_, i) => i % 5 === 0);
+    const dirty = new Set<string>();
+    removed.forEach(item => expect(graph.remove(item.id, dirty)).toBe(true));
+
+    const remaining = items.filter((_, i) => i % 5 !== 0);
+    const removedIds = new Set(removed.map(item => item.id));
+    const recall = recallAt((query, k) => {
+      const ids = graph.search(query, k).map(r => r.companyId);
+      expect(ids.some(id => removedIds.has(id))).toBe(false);
+      return ids;
+    }, remaining, queries, 10);
+
+    expect(graph.size).toBe(remaining.length);
+    expect(recall).toBeGreaterThanOrEqual(0.9);
+    expect(graph.remove(removed[0].id, dirty)).toBe(false);
+  });
+
+  it('replaces the vector when the same id is inserted again', () => {
+    const graph = buildGraph(items);
+    const target = items[0].embeddings.map(value => -value);
+    graph.insert('company_0', target, new Set());
+
+    expect(graph.size).toBe(500);
+    expect(graph.search(target, 1)[0]).toMatchObject({ companyId: 'company_0' });
+    expect(graph.search(target, 1)[0].similarity).toBeCloseTo(1, 5);
+  });
+
+  it('rejects vectors of a different dimension', () => {
+    const graph = buildGraph(items.slice(0, 10));
+    expect(() => graph.insert('other', [1, 2, 3], new Set())).toThrow(/dimension mismatch/);
+    expect(graph.search([1, 2, 3], 5)).toEqual([]);
+  });
+});
+
+describe('EmbeddingsIndexService', () => {
+  const companies = randomVectors(300, 3);
+  const queries = randomVectors(20, 4, 'query').map(q => q.embeddings);
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await db.embeddingsIndexNodes.clear();
+    await db.embeddingsIndexMeta.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns no results until it has been synced', () => {
+    const service = new EmbeddingsIndexService();
+    expect(service.isReady()).toBe(false);
+    expect(service.search(queries[0], 5)).toEqual([]);
+  });
+
+  it('builds from company embeddings and persists every node', async () => {
+    const service = new EmbeddingsIndexService();
+    await service.sync([...companies, { id: 'no_embeddings', embeddings: [] }]);
+
+    expect(service.getStats()).toMatchObject({ ready: true, size: 300, dimension: DIMENSION });
+    expect(await db.embeddingsIndexNodes.count()).toBe(300);
+    expect(await db.embeddingsIndexMeta.get('hnsw')).toMatchObject({ dimension: DIMENSION });
+    expect(recallAt((query, k) => service.search(query, k).map(r => r.companyId), companies, queries, 10))
+      .toBeGreaterThanOrEqual(0.95);
+  });
+
+  it('applies upsert and remove incrementally', async () => {
+    const service = new EmbeddingsIndexService();
+    await service.sync(companies);
+
+    const [added] = randomVectors(1, 5, 'added');
+    await service.upsert(added.id, added.embeddings);
+    expect(service.search(added.embeddings, 1)[0].companyId).toBe(added.id);
+    expect(await db.embeddingsIndexNodes.get(added.id)).toBeDefined();
+
+    const moved = companies[10].embeddings.map(value => value * -1);
+    await service.upsert(companies[0].id, moved);
+    expect(service.search(moved, 1)[0].companyId).toBe(companies[0].id);
+    expect(service.getStats().size).toBe(301);
+
+    await service.remove(added.id);
+    expect(service.search(added.embeddings, 5).map(r => r.companyId)).not.toContain(added.id);
+    expect(await db.embeddingsIndexNodes.get(added.id)).toBeUndefined();
+    expect(service.getStats().size).toBe(300);
+  });
+
+  it('filters results by excludeId and allowedIds', async () => {
+    const service = new EmbeddingsIndexService();
+    await service.sync(companies);
+    const target = companies[7];
+
+    expect(service.search(target.embeddings, 3, { excludeId: target.id }).map(r => r.companyId)).not.toContain(target.id);
+
+    const allowedIds = new Set(companies.slice(100, 150).map(c => c.id));
+    const results = service.search(target.embeddings, 5, { allowedIds });
+    expect(results).toHaveLength(5);
+    results.forEach(result => expect(allowedIds.has(result.companyId)).toBe(true));
+  });
+
+  it('reloads the persisted graph from the Dexie tables without rebuilding it', async () => {
+    const original = new EmbeddingsIndexService();
+    await original.sync(companies);
+    const [added] = randomVectors(1, 6, 'added');
+    await original.upsert(added.id, added.embeddings);
+    await original.remove(companies[1].id);
+    const expected = queries.map(query => original.search(query, 10));
+
+    const current = [...companies.filter(c => c.id !== companies[1].id), added];
+    const insertSpy = vi.spyOn(HNSWGraph.prototype, 'insert');
+    const reloaded = new EmbeddingsIndexService();
+    await reloaded.sync(current);
+
+    expect(insertSpy).not.toHaveBeenCalled();
+    expect(reloaded.getStats()).toMatchObject({
+      ready: true,
+      size: current.length,
+      maxLevel: original.getStats().maxLevel,
+      lastUpdated: original.getStats().lastUpdated
+    });
+    expect(queries.map(query => reloaded.search(query, 10))).toEqual(expected);
+  });
+
+  it('drops persisted nodes whose company embeddings changed or disappeared while offline', async () => {
+    const original = new EmbeddingsIndexService();
+    await original.sync(companies);
+
+    const changed = { id: companies[2].id, embeddings: companies[2].embeddings.map(value => value + 1) };
+    const current = [changed, ...companies.slice(3)];
+    const reloaded = new EmbeddingsIndexService();
+    await reloaded.sync(current);
+
+    expect(reloaded.getStats().size).toBe(current.length);
+    expect(await db.embeddingsIndexNodes.get(companies[0].id)).toBeUndefined();
+    expect(reloaded.search(changed.embeddings, 1)[0].companyId).toBe(changed.id);
+    expect(recallAt((query, k) => reloaded.search(query, k).map(r => r.companyId), current, queries, 10))
+      .toBeGreaterThanOrEqual(0.9);
+  });
+});
@@ -0,0 +1,611 @@
+/**
+ * Approximate nearest neighbour index for embeddings similarity search
+ * HNSW (Hierarchical Navigable Small World) graph persisted in IndexedDB
+ * Vectors themselves are not duplicated: they are restored from the companies table on load
+ */
+
+import { db, companyStorage, type DBEmbeddingsIndexNode } from './storage';
+import { CONSTANTS } from '../utils/constants';
+import type { Company } from '../types';
+
+const META_KEY = 'hnsw';
+
+interface IndexNode {
+  id: string;
+  vector: Float32Array; // 正規化済み（内積 = コサイン類似度）
+  level: number;
+  neighbors: string[][];
+  signature: string;
+}
+
+export interface IndexSearchResult {
+  companyId: string;
+  similarity: number;
+}
+
+export interface EmbeddingsIndexStats {
+  ready: boolean;
+  building: boolean;
+  size: number;
+  dimension: number;
+  maxLevel: number;
+  lastUpdated: number | null;
+}
+
+/**
+ * ベクトル変更検知用の軽量シグネチャ
+ */
+const vectorSignature = (vector: number[]): string => {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i += 7) {
+    sum += vector[i];
+  }
+  return `${vector.length}:${sum.toFixed(6)}:${vector[0]?.toFixed(6)}:${vector[vector.length - 1]?.toFixed(6)}`;
+};
+
+const normalize = (vector: number[]): Float32Array => {
+  const result = new Float32Array(vector.length);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm === 0) return result;
+  for (let i = 0; i < vector.length; i++) {
+    result[i] = vector[i] / norm;
+  }
+  return result;
+};
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+};
+
+/**
+ * 企業IDから決定論的にレベルを割り当てる（再構築しても同じグラフ構造になるように）
+ */
+const hashToUnit = (id: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return ((hash >>> 0) + 1) / 4294967297;
+};
+
+/**
+ * In-memory HNSW graph (cosine similarity on normalized vectors)
+ */
+export class HNSWGraph {
+  nodes = new Map<string, IndexNode>();
+  entryPoint: string | null = null;
+  maxLevel = -1;
+  dimension = 0;
+
+  private readonly m: number;
+  private readonly efConstruction: number;
+  private readonly levelMultiplier: number;
+
+  constructor(m: number = CONSTANTS.ANN_INDEX.M, efConstruction: number = CONSTANTS.ANN_INDEX.EF_CONSTRUCTION) {
+    this.m = m;
+    this.efConstruction = efConstruction;
+    this.levelMultiplier = 1 / Math.log(m);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  private maxConnections(level: number): number {
+    return level === 0 ? this.m * 2 : this.m;
+  }
+
+  private randomLevel(id: string): number {
+    return Math.floor(-Math.log(hashToUnit(id)) * this.levelMultiplier);
+  }
+
+  /**
+   * 指定レイヤー内の貪欲探索（類似度の降順で最大ef件を返す）
+   */
+  private searchLayer(query: Float32Array, entryIds: string[], ef: number, level: number): IndexSearchResult[] {
+    const visited = new Set<string>(entryIds);
+    const candidates: IndexSearchResult[] = [];
+    const results: IndexSearchResult[] = [];
+
+    const insertSorted = (list: IndexSearchResult[], item: IndexSearchResult) => {
+      let low = 0;
+      let high = list.length;
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (list[mid].similarity > item.similarity) low = mid + 1;
+        else high = mid;
+      }
+      list.splice(low, 0, item);
+    };
+
+    for (const id of entryIds) {
+      const node = this.nodes.get(id);
+      if (!node) continue;
+      const item = { companyId: id, similarity: dot(query, node.vector) };
+      insertSorted(candidates, item);
+      insertSorted(results, item);
+    }
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      const worst = results[results.length - 1];
+      if (results.length >= ef && current.similarity < worst.similarity) {
+        break;
+      }
+
+      const node = this.nodes.get(current.companyId);
+      const neighbors = node?.neighbors[level] || [];
+      for (const neighborId of neighbors) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+
+        const similarity = dot(query, neighbor.vector);
+        if (results.length < ef || similarity > results[results.length - 1].similarity) {
+          const item = { companyId: neighborId, similarity };
+          insertSorted(candidates, item);
+          insertSorted(results, item);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 近傍リストを上限数まで類似度順に絞り込む
+   */
+  private shrinkNeighbors(node: IndexNode, level: number): void {
+    const limit = this.maxConnections(level);
+    if (node.neighbors[level].length <= limit) return;
+
+    node.neighbors[level] = node.neighbors[level]
+      .map(id => ({ id, similarity: dot(node.vector, this.nodes.get(id)!.vector) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+      .map(entry => entry.id);
+  }
+
+  /**
+   * ノードを追加（既存IDの場合は置き換え）。変更されたノードIDをdirtyに記録する
+   */
+  insert(id: string, vector: number[], dirty: Set<string>, level?: number): void {
+    if (this.nodes.has(id)) {
+      this.remove(id, dirty);
+    }
+
+    if (this.dimension === 0) {
+      this.dimension = vector.length;
+    } else if (vector.length !== this.dimension) {
+      throw new Error(`Embedding dimension mismatch: expected ${this.dimension}, got ${vector.length}`);
+    }
+
+    const nodeLevel = level ?? this.randomLevel(id);
+    const node: IndexNode = {
+      id,
+      vector: normalize(vector),
+      level: nodeLevel,
+      neighbors: Array.from({ length: nodeLevel + 1 }, () => []),
+      signature: vectorSignature(vector)
+    };
+    this.nodes.set(id, node);
+    dirty.add(id);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = nodeLevel;
+      return;
+    }
+
+    let entryIds = [this.entryPoint];
+    for (let l = this.maxLevel; l > nodeLevel; l--) {
+      const nearest = this.searchLayer(node.vector, entryIds, 1, l);
+      if (nearest.length > 0) entryIds = [nearest[0].companyId];
+    }
+
+    for (let l = Math.min(nodeLevel, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(node.vector, entryIds, this.efConstruction, l)
+        .filter(candidate => candidate.companyId !== id);
+      node.neighbors[l] = candidates.slice(0, this.maxConnections(l)).map(c => c.companyId);
+
+      for (const neighborId of node.neighbors[l]) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || neighbor.level < l) continue;
+        neighbor.neighbors[l].push(id);
+        this.shrinkNeighbors(neighbor, l);
+        dirty.add(neighborId);
+      }
+
+      if (candidates.length > 0) {
+        entryIds = candidates.map(c => c.companyId);
+      }
+    }
+
+    if (nodeLevel > this.maxLevel) {
+      this.entryPoint = id;
+      this.maxLevel = nodeLevel;
+    }
+  }
+
+  /**
+   * ノードを削除し、参照していたノードの近傍を削除ノードの近傍で補修する
+   */
+  remove(id: string, dirty: Set<string>): boolean {
+    const removed = this.nodes.get(id);
+    if (!removed) return false;
+    this.nodes.delete(id);
+
+    for (const node of this.nodes.values()) {
+      for (let l = 0; l <= Math.min(node.level, removed.level); l++) {
+        const index = node.neighbors[l].indexOf(id);
+        if (index === -1) continue;
+
+        node.neighbors[l].splice(index, 1);
+        for (const candidateId of removed.neighbors[l] || []) {
+          const candidate = this.nodes.get(candidateId);
+          if (candidateId !== node.id && candidate && candidate.level >= l && !node.neighbors[l].includes(candidateId)) {
+            node.neighbors[l].push(candidateId);
+          }
+        }
+        this.shrinkNeighbors(node, l);
+        dirty.add(node.id);
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      for (const node of this.nodes.values()) {
+        if (node.level > this.maxLevel) {
+          this.entryPoint = node.id;
+          this.maxLevel = node.level;
+        }
+      }
+    }
+
+    if (this.nodes.size === 0) {
+      this.dimension = 0;
+    }
+
+    return true;
+  }
+
+  /**
+   * k近傍探索
+   */
+  search(vector: number[], k: number, ef: number = CONSTANTS.ANN_INDEX.EF_SEARCH): IndexSearchResult[] {
+    if (this.entryPoint === null || vector.length !== this.dimension) {
+      return [];
+    }
+
+    const query = normalize(vector);
+    let entryIds = [this.entryPoint];
+    for (let l = this.maxLevel; l > 0; l--) {
+      const nearest = this.searchLayer(query, entryIds, 1, l);
+      if (nearest.length > 0) entryIds = [nearest[0].companyId];
+    }
+
+    return this.searchLayer(query, entryIds, Math.max(ef, k), 0).slice(0, k);
+  }
+
+  /**
+   * 永続化済みノードからグラフを復元（ベクトルは呼び出し側から供給）
+   */
+  restoreNode(record: DBEmbeddingsIndexNode, vector: number[]): void {
+    this.nodes.set(record.companyId, {
+      id: record.companyId,
+      vector: normalize(vector),
+      level: record.level,
+      neighbors: record.neighbors,
+      signature: record.signature
+    });
+  }
+
+  toRecord(id: string): DBEmbeddingsIndexNode | undefined {
+    const node = this.nodes.get(id);
+    if (!node) return undefined;
+    return {
+      companyId: node.id,
+      level: node.level,
+      neighbors: node.neighbors,
+      signature: node.signature
+    };
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.entryPoint = null;
+    this.maxLevel = -1;
+    this.dimension = 0;
+  }
+}
+
+/**
+ * Embeddings index service (singleton)
+ * - sync(): 永続化済みグラフを読み込み、企業データとの差分のみ反映
+ * - upsert()/remove(): Embeddings生成・削除時のインクリメンタル更新（未同期なら先に sync する）
+ * - search(): 同期的なk近傍探索（未構築時は空配列を返し、呼び出し側は全件比較にフォールバック）
+ */
+export class EmbeddingsIndexService {
+  private static instance: EmbeddingsIndexService;
+
+  private graph = new HNSWGraph();
+  private ready = false;
+  private building = false;
+  private lastUpdated: number | null = null;
+  private syncPromise: Promise<void> | null = null;
+
+  public static getInstance(): EmbeddingsIndexService {
+    if (!EmbeddingsIndexService.instance) {
+      EmbeddingsIndexService.instance = new EmbeddingsIndexService();
+    }
+    return EmbeddingsIndexService.instance;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * 企業データと同期（重複呼び出しは同じPromiseを返す）
+   */
+  sync(companies: Array<Pick<Company, 'id' | 'embeddings'>>): Promise<void> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.performSync(companies).finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async performSync(companies: Array<Pick<Company, 'id' | 'embeddings'>>): Promise<void> {
+    this.building = true;
+    try {
+      const vectors = new Map<string, number[]>();
+      companies.forEach(company => {
+        if (company.embeddings && company.embeddings.length > 0) {
+          vectors.set(company.id, company.embeddings);
+        }
+      });
+
+      if (!this.ready) {
+        await this.loadPersisted(vectors);
+      }
+
+      const dirty = new Set<string>();
+      const removedIds: string[] = [];
+
+      // インデックスにあるが企業側で消えた/変わったベクトルを削除
+      for (const id of Array.from(this.graph.nodes.keys())) {
+        const vector = vectors.get(id);
+        if (!vector || this.graph.nodes.get(id)!.signature !== vectorSignature(vector)) {
+          this.graph.remove(id, dirty);
+          removedIds.push(id);
+        }
+      }
+
+      // 未登録のベクトルを追加（UIをブロックしないよう一定件数ごとに制御を返す）
+      let inserted = 0;
+      for (const [id, vector] of vectors) {
+        if (this.graph.nodes.has(id)) continue;
+        if (this.graph.dimension !== 0 && vector.length !== this.graph.dimension) {
+          console.warn(`⚠️ Embeddings index: skipping ${id} (dimension ${vector.length})`);
+          continue;
+        }
+        this.graph.insert(id, vector, dirty);
+        inserted++;
+        if (inserted % 50 === 0) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+
+      if (dirty.size > 0 || removedIds.length > 0) {
+        await this.persist(dirty, removedIds);
+        console.log(`🧭 Embeddings index synced: +${inserted} / -${removedIds.length} (total ${this.graph.size})`);
+      }
+
+      this.ready = true;
+    } catch (error) {
+      console.error('❌ Embeddings index sync failed:', error);
+      this.ready = false;
+    } finally {
+      this.building = false;
+    }
+  }
+
+  private async loadPersisted(vectors: Map<string, number[]>): Promise<void> {
+    const [meta, records] = await Promise.all([
+      db.embeddingsIndexMeta.get(META_KEY),
+      db.embeddingsIndexNodes.toArray()
+    ]);
+
+    this.graph.clear();
+    if (!meta || meta.m !== CONSTANTS.ANN_INDEX.M || meta.efConstruction !== CONSTANTS.ANN_INDEX.EF_CONSTRUCTION) {
+      // パラメータ変更時は再構築
+      if (records.length > 0) {
+        await db.embeddingsIndexNodes.clear();
+      }
+      return;
+    }
+
+    for (const record of records) {
+      const vector = vectors.get(record.companyId);
+      if (vector && vector.length === meta.dimension) {
+        this.graph.restoreNode(record, vector);
+      }
+    }
+    // ベクトルが見つからないノードは近傍リストから除去して整合性を保つ
+    for (const node of this.graph.nodes.values()) {
+      node.neighbors = node.neighbors.map(level => level.filter(id => this.graph.nodes.has(id)));
+    }
+    const orphanedIds = records.map(record => record.companyId).filter(id => !this.graph.nodes.has(id));
+    if (orphanedIds.length > 0) {
+      await db.embeddingsIndexNodes.bulkDelete(orphanedIds);
+    }
+
+    this.graph.dimension = this.graph.size > 0 ? meta.dimension : 0;
+    this.graph.entryPoint = meta.entryPoint && this.graph.nodes.has(meta.entryPoint) ? meta.entryPoint : null;
+    this.graph.maxLevel = this.graph.entryPoint ? meta.maxLevel : -1;
+    if (this.graph.entryPoint === null && this.graph.size > 0) {
+      for (const node of this.graph.nodes.values()) {
+        if (node.level > this.graph.maxLevel) {
+          this.graph.entryPoint = node.id;
+          this.graph.maxLevel = node.level;
+        }
+      }
+    }
+    this.lastUpdated = meta.updatedAt;
+  }
+
+  private async persist(dirty: Set<string>, removedIds: string[]): Promise<void> {
+    const records = Array.from(dirty)
+      .map(id => this.graph.toRecord(id))
+      .filter((record): record is DBEmbeddingsIndexNode => !!record);
+    const deleted = removedIds.filter(id => !this.graph.nodes.has(id));
+
+    this.lastUpdated = Date.now();
+    await db.transaction('rw', db.embeddingsIndexNodes, db.embeddingsIndexMeta, async () => {
+      if (deleted.length > 0) {
+        await db.embeddingsIndexNodes.bulkDelete(deleted);
+      }
+      if (records.length > 0) {
+        await db.embeddingsIndexNodes.bulkPut(records);
+      }
+      await db.embeddingsIndexMeta.put({
+        key: META_KEY,
+        entryPoint: this.graph.entryPoint,
+        maxLevel: this.graph.maxLevel,
+        dimension: this.graph.dimension,
+        m: CONSTANTS.ANN_INDEX.M,
+        efConstruction: CONSTANTS.ANN_INDEX.EF_CONSTRUCTION,
+        updatedAt: this.lastUpdated!
+      });
+    });
+  }
+
+  /**
+   * インクリメンタル更新の前に永続化済みグラフを読み込む
+   * 未同期の空グラフを変更して保存すると、保存済みのentryPoint/maxLevelを孤立ノードで上書きしてしまうため
+   */
+  private async ensureSynced(): Promise<boolean> {
+    if (this.syncPromise) {
+      await this.syncPromise;
+    }
+    if (!this.ready) {
+      await this.sync(await companyStorage.getAll());
+    }
+    return this.ready;
+  }
+
+  /**
+   * 新しいEmbeddingsをインデックスに反映
+   */
+  async upsert(companyId: string, embeddings: number[]): Promise<void> {
+    if (!embeddings || embeddings.length === 0) {
+      await this.remove(companyId);
+      return;
+    }
+    if (!(await this.ensureSynced())) {
+      return;
+    }
+
+    const existing = this.graph.nodes.get(companyId);
+    if (existing && existing.signature === vectorSignature(embeddings)) {
+      return;
+    }
+    if (this.graph.dimension !== 0 && embeddings.length !== this.graph.dimension) {
+      console.warn(`⚠️ Embeddings index: dimension mismatch for ${companyId}, skipped`);
+      return;
+    }
+
+    try {
+      const dirty = new Set<string>();
+      this.graph.insert(companyId, embeddings, dirty);
+      await this.persist(dirty, []);
+    } catch (error) {
+      console.error(`❌ Failed to update embeddings index for ${companyId}:`, error);
+    }
+  }
+
+  /**
+   * 企業をインデックスから削除
+   */
+  async remove(companyId: string): Promise<void> {
+    if (!(await this.ensureSynced())) {
+      return;
+    }
+
+    try {
+      const dirty = new Set<string>();
+      if (this.graph.remove(companyId, dirty)) {
+        await this.persist(dirty, [companyId]);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to remove ${companyId} from embeddings index:`, error);
+    }
+  }
+
+  /**
+   * インデックスを完全に破棄
+   */
+  async clear(): Promise<void> {
+    this.graph.clear();
+    this.ready = false;
+    this.lastUpdated = null;
+    await db.transaction('rw', db.embeddingsIndexNodes, db.embeddingsIndexMeta, async () => {
+      await db.embeddingsIndexNodes.clear();
+      await db.embeddingsIndexMeta.clear();
+    });
+  }
+
+  /**
+   * k近傍探索（コサイン類似度の降順）
+   * 候補を許可リストで絞り込む場合は探索幅を広げる
+   */
+  search(vector: number[], k: number, options: { excludeId?: string; allowedIds?: Set<string> } = {}): IndexSearchResult[] {
+    if (!this.ready || this.graph.size === 0) {
+      return [];
+    }
+
+    const overFetch = k + (options.excludeId ? 1 : 0);
+    const ef = Math.max(CONSTANTS.ANN_INDEX.EF_SEARCH, overFetch * (options.allowedIds ? 2 : 1));
+    const results = this.graph.search(vector, options.allowedIds ? ef : overFetch, ef);
+
+    return results
+      .filter(result => result.companyId !== options.excludeId)
+      .filter(result => !options.allowedIds || options.allowedIds.has(result.companyId))
+      .slice(0, k);
+  }
+
+  /**
+   * 指定した企業群に対してANN検索を使うべきか
+   */
+  shouldUse(candidateCount: number): boolean {
+    return this.ready && candidateCount >= CONSTANTS.ANN_INDEX.MIN_COMPANIES && this.graph.size > 0;
+  }
+
+  getStats(): EmbeddingsIndexStats {
+    return {
+      ready: this.ready,
+      building: this.building,
+      size: this.graph.size,
+      dimension: this.graph.dimension,
+      maxLevel: this.graph.maxLevel,
+      lastUpdated: this.lastUpdated
+    };
+  }
+}
+
+export const embeddingsIndex = EmbeddingsIndexService.getInstance();
@@ -7,7 +7,10 @@ import ExcelJS from 'exceljs';
 import type { Company, MVVData, CompanyInfo } from '../types';
 // import { SimilarityCalculator } from './similarityCalculator'; // Not used in current implementation
 import { enhancedSegmentationService } from './enhancedSegmentationService';
+import { segmentationDictionary } from './segmentationDictionary';
 import type { AnalysisScreenshot } from './screenshotCapture';
+import { analysisComputeService, toComputeCompany } from './analysisComputeService';
+import { conceptAxisService, type ConceptAxisPreset } from './conceptAxes';
 
 // TabID名の定義（VisualAnalyticsGalleryと同期）
 const TAB_NAMES = {
@@ -25,6 +28,7 @@ interface AIAnalysisData {
   trendKeywords: TrendKeywordData[];
   qualityScores: QualityScoreData[];
   positioningData: PositioningData[];
+  conceptAxisPreset?: ConceptAxisPreset;
   wordCloudData: WordCloudEntry[];
   screenshotGroups?: GroupedScreenshots;
 }
@@ -65,11 +69,14 @@ interface QualityScoreData {
 }
 
 interface PositioningData {
+  companyId: string;
   companyName: string;
   category: string;
   x: number;
   y: number;
   size: number; // 従業員数ベース
+  conceptX?: number; // 概念アンカー軸上の座標（アンカーとのコサイン類似度の差）
+  conceptY?: number;
 }
 
 interface WordCloudEntry {
@@ -115,6 +122,23 @@ export class ExcelAIAnalysisProcessor {
       companyInfoMap
     );
 
+    // 概念アンカー軸（マップで選択中のプリセット）上の座標
+    const conceptAxisPreset = conceptAxisService.getActivePreset() ?? undefined;
+    if (conceptAxisPreset) {
+      try {
+        const conceptPositions = new Map(
+          (await conceptAxisService.computeConceptPositions(companies, conceptAxisPreset)).map(pos => [pos.id, pos])
+        );
+        positioningData.forEach(item => {
+          const conceptPosition = conceptPositions.get(item.companyId);
+          item.conceptX = conceptPosition?.x;
+          item.conceptY = conceptPosition?.y;
+        });
+      } catch (error) {
+        console.warn('概念アンカー軸の座標計算に失敗しました:', error);
+      }
+    }
+
     // ワードクラウドデータの生成
     const wordCloudData = this.generateWordCloudData(
       companies,
@@ -128,7 +152,10 @@ export class ExcelAIAnalysisProcessor {
         console.log('📸 保存済みスクリーンショットをIndexedDBから取得中...');
         const { ScreenshotStorageService } = await import('./screenshotStorage');
         await ScreenshotStorageService.initialize();
-        screenshots = await ScreenshotStorageService.getScreenshots();
+        const { flattenAnnotations } = await import('./screenshotAnnotation');
+        // 時系列スナップショットはギャラリーでの比較用のため、Excelには手動キャプチャのみ含める
+        const stored = (await ScreenshotStorageService.getScreenshots()).filter(screenshot => screenshot.kind !== 'snapshot');
+        screenshots = await Promise.all(stored.map(flattenAnnotations));
         console.log(`📸 ${screenshots.length}件の保存済みスクリーンショットを取得`);
       } catch (error) {
         console.error('📸 保存済みスクリーンショット取得でエラーが発生:', error);
@@ -144,6 +171,7 @@ export class ExcelAIAnalysisProcessor {
       trendKeywords,
       qualityScores,
       positioningData,
+      conceptAxisPreset,
       wordCloudData,
       screenshotGroups
     };
@@ -166,7 +194,7 @@ export class ExcelAIAnalysisProcessor {
     await this.addQualityScoreSheet(workbook, analysisData.qualityScores);
 
     // 4. 競合ポジショニングシート
-    await this.addPositioningSheet(workbook, analysisData.positioningData);
+    await this.addPositioningSheet(workbook, analysisData.positioningData, analysisData.conceptAxisPreset);
 
     // 5. ワードクラウド分析シート
     await this.addWordCloudSheet(workbook, analysisData.wordCloudData);
@@ -179,35 +207,42 @@ export class ExcelAIAnalysisProcessor {
 
   /**
    * 類似企業マトリックスの生成
+   * 形態素解析キーワードのJaccard係数をWorkerで計算（メインスレッドをブロックしない）
    */
   private async generateSimilarityMatrix(
     companies: Company[],
     mvvDataMap: Map<string, MVVData>
   ): Promise<SimilarityMatrixEntry[]> {
-    const matrix: SimilarityMatrixEntry[] = [];
-    
     // MVVデータがある企業のみ対象
     const companiesWithMVV = companies.filter(c => mvvDataMap.has(c.id));
-    
-    // 簡素化：最初の30社を取得
-    const sortedCompanies = companiesWithMVV;
 
     // 上位30社程度で計算（パフォーマンスのため）
-    const targetCompanies = sortedCompanies.slice(0, 30);
+    const targetCompanies = companiesWithMVV.slice(0, 30);
+    if (targetCompanies.length === 0) return [];
+
+    const computeCompanies = targetCompanies.map(company => {
+      const mvv = mvvDataMap.get(company.id)!;
+      return toComputeCompany({
+        id: company.id,
+        name: company.name,
+        category: company.category,
+        mission: mvv.mission ?? undefined,
+        vision: mvv.vision ?? undefined,
+        values: mvv.values
+      });
+    });
 
-    for (const company of targetCompanies) {
-      const mvv = mvvDataMap.get(company.id);
-      if (!mvv) continue;
+    const similarityMatrix = await analysisComputeService
+      .computeSimilarityMatrix(computeCompanies, 'text')
+      .promise;
 
-      // 簡易的な類似度計算（テキストベース）
-      const similarities = this.calculateTextSimilarities(
-        company,
-        mvv,
-        targetCompanies.filter(c => c.id !== company.id),
-        mvvDataMap
-      );
+    return targetCompanies.map((company, index) => {
+      const similarities = targetCompanies
+        .map((other, otherIndex) => ({ company: other, similarity: similarityMatrix[index][otherIndex] }))
+        .filter((_, otherIndex) => otherIndex !== index)
+        .sort((a, b) => b.similarity - a.similarity);
 
-      matrix.push({
+      return {
         companyName: company.name,
         category: company.category || '未分類',
         topSimilarCompanies: similarities.slice(0, 5).map(sim => ({
@@ -215,64 +250,8 @@ export class ExcelAIAnalysisProcessor {
           score: sim.similarity,
           category: sim.company.category || '未分類'
         }))
-      });
-    }
-
-    return matrix;
-  }
-
-  /**
-   * テキストベースの簡易類似度計算
-   */
-  private calculateTextSimilarities(
-    _targetCompany: Company,
-    targetMVV: MVVData,
-    otherCompanies: Company[],
-    mvvDataMap: Map<string, MVVData>
-  ): Array<{ company: Company; similarity: number }> {
-    const results: Array<{ company: Company; similarity: number }> = [];
-    
-    const targetText = [
-      targetMVV.mission || '',
-      targetMVV.vision || '',
-      ...(targetMVV.values || [])
-    ].join(' ').toLowerCase();
-    
-    const targetKeywords = new Set(
-      enhancedSegmentationService.segmentWithCompounds(targetText, {
-        preserveCompounds: true,
-        enableCustomRules: true,
-        industryFocus: 'general' as const
-      }).segments.filter(w => w.length >= 2 && !/^[0-9]+$/.test(w) && !/^[ぁ-ん]+$/.test(w))
-    );
-
-    for (const company of otherCompanies) {
-      const mvv = mvvDataMap.get(company.id);
-      if (!mvv) continue;
-
-      const text = [
-        mvv.mission || '',
-        mvv.vision || '',
-        ...(mvv.values || [])
-      ].join(' ').toLowerCase();
-      
-      const keywords = new Set(
-        enhancedSegmentationService.segmentWithCompounds(text, {
-          preserveCompounds: true,
-          enableCustomRules: true,
-          industryFocus: 'general' as const
-        }).segments.filter(w => w.length >= 2 && !/^[0-9]+$/.test(w) && !/^[ぁ-ん]+$/.test(w))
-      );
-
-      // Jaccard similarity
-      const intersection = new Set([...targetKeywords].filter(x => keywords.has(x)));
-      const union = new Set([...targetKeywords, ...keywords]);
-      const similarity = union.size > 0 ? intersection.size / union.size : 0;
-
-      results.push({ company, similarity });
-    }
-
-    return results.sort((a, b) => b.similarity - a.similarity);
+      };
+    });
   }
 
   /**
@@ -337,14 +316,14 @@ export class ExcelAIAnalysisProcessor {
         ...(mvv.values || [])
       ].join(' ');
 
+      const profileId = segmentationDictionary.getProfileIdForCategory(category);
       const segmentResult = enhancedSegmentationService.segmentWithCompounds(text, {
         preserveCompounds: true,
         enableCustomRules: true,
-        industryFocus: 'general' as const
+        profileId
       });
-      const keywords = segmentResult.segments.filter(token => 
+      const keywords = enhancedSegmentationService.removeStopWords(segmentResult.segments, profileId).filter(token => 
         token.length >= 2 && 
-        !['です', 'ます', 'である', 'として', 'により', 'という', 'こと', 'もの', 'ため', 'など'].includes(token) &&
         !/^[0-9]+$/.test(token) && // 数字のみ除外
         !/^[ぁ-ん]+$/.test(token)   // ひらがなのみ除外
       );
@@ -459,6 +438,7 @@ export class ExcelAIAnalysisProcessor {
       const angle = index * angleStep + (Math.random() - 0.5) * 0.3;
       
       positions.push({
+        companyId: company.id,
         companyName: company.name,
         category: company.category || '未分類',
         x: radius * Math.cos(angle),
@@ -489,14 +469,14 @@ export class ExcelAIAnalysisProcessor {
         ...(mvv.values || [])
       ].join(' ');
       
+      const profileId = segmentationDictionary.getProfileIdForCategory(company.category);
       const segmentResult = enhancedSegmentationService.segmentWithCompounds(text, {
         preserveCompounds: true,
         enableCustomRules: true,
-        industryFocus: 'general' as const
+        profileId
       });
-      const keywords = segmentResult.segments.filter(token => 
+      const keywords = enhancedSegmentationService.removeStopWords(segmentResult.segments, profileId).filter(token => 
         token.length >= 2 && 
-        !['です', 'ます', 'である', 'として', 'により', 'という', 'こと', 'もの', 'ため', 'など'].includes(token) &&
         !/^[0-9]+$/.test(token) && // 数字のみ除外
         !/^[ぁ-ん]+$/.test(token)   // ひらがなのみ除外
       );
@@ -787,17 +767,22 @@ export class ExcelAIAnalysisProcessor {
    */
   private async addPositioningSheet(
     workbook: ExcelJS.Workbook,
-    data: PositioningData[]
+    data: PositioningData[],
+    conceptAxisPreset?: ConceptAxisPreset
   ): Promise<void> {
     const sheet = workbook.addWorksheet('AI分析_競合ポジショニング');
     
-    // データテーブル
+    // データテーブル（概念アンカー軸のプリセットがあれば軸ごとの列を追加）
     sheet.columns = [
       { header: '企業名', key: 'company', width: 30 },
       { header: '業界', key: 'category', width: 20 },
       { header: 'X座標', key: 'x', width: 12 },
       { header: 'Y座標', key: 'y', width: 12 },
-      { header: '規模', key: 'size', width: 12 }
+      { header: '規模', key: 'size', width: 12 },
+      ...(conceptAxisPreset ? [
+        { header: `${conceptAxisPreset.xAxis.negative}↔${conceptAxisPreset.xAxis.positive}`, key: 'conceptX', width: 24 },
+        { header: `${conceptAxisPreset.yAxis.negative}↔${conceptAxisPreset.yAxis.positive}`, key: 'conceptY', width: 24 }
+      ] : [])
     ];
     
     // データ追加
@@ -807,16 +792,40 @@ export class ExcelAIAnalysisProcessor {
         category: item.category,
         x: Math.round(item.x * 100) / 100,
         y: Math.round(item.y * 100) / 100,
-        size: Math.round(item.size * 100) / 100
+        size: Math.round(item.size * 100) / 100,
+        conceptX: item.conceptX !== undefined ? Math.round(item.conceptX * 1000) / 1000 : '',
+        conceptY: item.conceptY !== undefined ? Math.round(item.conceptY * 1000) / 1000 : ''
       });
     });
     
     // チャート説明を追加
+    const columnCount = sheet.columns.length;
     const explanationRow = sheet.rowCount + 3;
-    sheet.mergeCells(explanationRow, 1, explanationRow, 5);
+    sheet.mergeCells(explanationRow, 1, explanationRow, columnCount);
     const explanationCell = sheet.getCell(explanationRow, 1);
     explanationCell.value = '※ X/Y座標は企業間の相対的な位置関係を表し、規模は従業員数に基づきます';
     explanationCell.font = { italic: true, color: { argb: 'FF666666' } };
+
+    // 概念アンカー軸の定義
+    if (conceptAxisPreset) {
+      const axisRow = explanationRow + 2;
+      sheet.getCell(axisRow, 1).value = `概念アンカー軸: ${conceptAxisPreset.name}`;
+      sheet.getCell(axisRow, 1).font = { bold: true };
+      const axes = [
+        { label: 'X軸', axis: conceptAxisPreset.xAxis },
+        { label: 'Y軸', axis: conceptAxisPreset.yAxis }
+      ];
+      axes.forEach(({ label, axis }, index) => {
+        const row = sheet.getRow(axisRow + 1 + index);
+        row.getCell(1).value = label;
+        row.getCell(2).value = `負の端: ${axis.negative}`;
+        row.getCell(3).value = `正の端: ${axis.positive}`;
+      });
+      const noteRow = axisRow + 3;
+      sheet.mergeCells(noteRow, 1, noteRow, columnCount);
+      sheet.getCell(noteRow, 1).value = '※ 概念軸の値は「正の端とのコサイン類似度 − 負の端とのコサイン類似度」で、正の値ほど正の端のアンカーに近いMVVです';
+      sheet.getCell(noteRow, 1).font = { italic: true, color: { argb: 'FF666666' } };
+    }
     
     // スタイリング
     const headerRow = sheet.getRow(1);
@@ -4,6 +4,7 @@
  */
 
 import type { AnalysisData, AnalysisCompany } from '../types/analysis';
+import type { CompanyFieldEmbeddings } from '../types';
 import { apiClient } from './apiClient';
 
 export interface HybridCompany extends AnalysisCompany {
@@ -12,6 +13,7 @@ export interface HybridCompany extends AnalysisCompany {
   lastUpdated?: string; // 最終更新日時
   source: 'static' | 'api'; // データソース
   embeddings?: number[]; // 埋め込みベクトル（オプション）
+  fieldEmbeddings?: CompanyFieldEmbeddings; // MVV項目別の埋め込みベクトル（オプション）
   insights?: {
     summary?: string;
     keyFactors?: string[];
@@ -0,0 +1,134 @@
+/**
+ * ビジネスアイデアの系譜管理
+ * 改良元・改良先のツリー構築、世代間のリーンキャンバス差分、改良リクエストの組み立て
+ */
+
+import { ideaStorageService, type StoredBusinessIdea } from './ideaStorage';
+import { diffWords, diffValueLists, hasChanges, type DiffSegment, type ValueDiffEntry } from '../utils/textDiff';
+
+type LeanCanvas = StoredBusinessIdea['leanCanvas'];
+
+export interface IdeaLineageNode {
+  idea: StoredBusinessIdea;
+  children: IdeaLineageNode[];
+}
+
+export type LeanCanvasBlockDiff =
+  | { key: keyof LeanCanvas; label: string; kind: 'text'; changed: boolean; segments: DiffSegment[] }
+  | { key: keyof LeanCanvas; label: string; kind: 'list'; changed: boolean; entries: ValueDiffEntry[] };
+
+/**
+ * generate-business-ideas に改良元として渡すコンテキスト
+ */
+export interface IdeaRefinementRequest {
+  baseIdea: Pick<StoredBusinessIdea, 'title' | 'description' | 'worldview' | 'industryInsight' | 'leanCanvas' | 'feasibility'>;
+  improvementSuggestions?: NonNullable<StoredBusinessIdea['verification']>['improvementSuggestions'];
+  instructions?: string;
+}
+
+// リーンキャンバスの表示順（LeanCanvasコンポーネントの番号に合わせる）
+export const LEAN_CANVAS_BLOCKS: Array<{ key: keyof LeanCanvas; label: string; kind: 'text' | 'list' }> = [
+  { key: 'targetCustomers', label: '①顧客セグメント', kind: 'list' },
+  { key: 'earlyAdopters', label: 'アーリーアダプター', kind: 'text' },
+  { key: 'problem', label: '②課題', kind: 'list' },
+  { key: 'existingAlternatives', label: '既存の代替品', kind: 'text' },
+  { key: 'valueProposition', label: '③独自の価値提案', kind: 'text' },
+  { key: 'solution', label: '④ソリューション', kind: 'text' },
+  { key: 'channels', label: '⑤チャネル', kind: 'list' },
+  { key: 'revenueStreams', label: '⑥収益の流れ', kind: 'list' },
+  { key: 'keyMetrics', label: '⑦主要指標', kind: 'list' },
+  { key: 'costStructure', label: '⑧コスト構造', kind: 'list' },
+  { key: 'unfairAdvantage', label: '⑨圧倒的な優位性', kind: 'text' }
+];
+
+/**
+ * 系譜の起点アイデアID
+ */
+export const getRootIdeaId = (idea: StoredBusinessIdea): string => idea.rootIdeaId ?? idea.id;
+
+/**
+ * 改良版として保存するアイデアに付与する系譜フィールド
+ */
+export function createLineageFields(
+  parent: StoredBusinessIdea,
+  refinement: IdeaRefinementRequest
+): Pick<StoredBusinessIdea, 'parentIdeaId' | 'rootIdeaId' | 'generation' | 'refinementContext'> {
+  return {
+    parentIdeaId: parent.id,
+    rootIdeaId: getRootIdeaId(parent),
+    generation: (parent.generation ?? 1) + 1,
+    refinementContext: {
+      improvementSuggestions: refinement.improvementSuggestions,
+      instructions: refinement.instructions,
+      refinedAt: Date.now()
+    }
+  };
+}
+
+/**
+ * 既存アイデアと検証結果の改善提案から改良リクエストを組み立てる
+ */
+export function buildRefinementRequest(idea: StoredBusinessIdea, instructions?: string): IdeaRefinementRequest {
+  return {
+    baseIdea: {
+      title: idea.title,
+      description: idea.description,
+      worldview: idea.worldview,
+      industryInsight: idea.industryInsight,
+      leanCanvas: idea.leanCanvas,
+      feasibility: idea.feasibility
+    },
+    improvementSuggestions: idea.verification?.improvementSuggestions,
+    instructions: instructions?.trim() || undefined
+  };
+}
+
+/**
+ * 同じ系譜のアイデアを親子関係のツリーに組み立てる
+ * 改良元が削除されている場合は、その子をトップレベルに昇格させる
+ */
+export function buildLineageTree(ideas: StoredBusinessIdea[]): IdeaLineageNode[] {
+  const nodes = new Map<string, IdeaLineageNode>();
+  ideas.forEach(idea => nodes.set(idea.id, { idea, children: [] }));
+
+  const roots: IdeaLineageNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.idea.parentIdeaId ? nodes.get(node.idea.parentIdeaId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * アイデアが属する系譜ツリーを取得
+ */
+export async function getIdeaLineage(idea: StoredBusinessIdea): Promise<IdeaLineageNode[]> {
+  const family = await ideaStorageService.getIdeaFamily(getRootIdeaId(idea));
+  return buildLineageTree(family.length > 0 ? family : [idea]);
+}
+
+/**
+ * 2世代間のリーンキャンバスをブロック単位で比較
+ */
+export function compareLeanCanvas(from: LeanCanvas, to: LeanCanvas): LeanCanvasBlockDiff[] {
+  return LEAN_CANVAS_BLOCKS.map(({ key, label, kind }) => {
+    if (kind === 'list') {
+      const entries = diffValueLists(toList(from[key]), toList(to[key]));
+      return { key, label, kind, entries, changed: entries.some(entry => entry.type !== 'unchanged') };
+    }
+
+    const segments = diffWords(toText(from[key]), toText(to[key]));
+    return { key, label, kind, segments, changed: hasChanges(segments) };
+  });
+}
+
+const toList = (value: LeanCanvas[keyof LeanCanvas]): string[] =>
+  Array.isArray(value) ? value : value ? [value] : [];
+
+const toText = (value: LeanCanvas[keyof LeanCanvas]): string =>
+  Array.isArray(value) ? value.join('\n') : value ?? '';
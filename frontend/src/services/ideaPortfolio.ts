@@ -0,0 +1,157 @@
+/**
+ * アイデアポートフォリオの評価
+ * 実現可能性の各指標と検証結果の信頼度を重み付けして企業横断でランキングする
+ */
+
+import type { StoredBusinessIdea } from './ideaStorage';
+import { CONSTANTS } from '../utils/constants';
+
+export interface PortfolioWeights {
+  mvvAlignment: number;
+  implementation: number;
+  marketPotential: number;
+  confidence: number;
+}
+
+export interface PortfolioWeightPreset {
+  id: string;
+  name: string;
+  weights: PortfolioWeights;
+  createdAt: string;
+}
+
+export interface ScoredIdea {
+  idea: StoredBusinessIdea;
+  rank: number;
+  score: number; // 0-100
+  components: {
+    mvvAlignment: number; // 0-1
+    implementation: number; // 0-1
+    marketPotential: number; // 0-1
+    confidence: number | null; // 0-1（未検証の場合は null）
+  };
+}
+
+export const DEFAULT_PORTFOLIO_WEIGHTS: PortfolioWeights = {
+  mvvAlignment: 30,
+  implementation: 25,
+  marketPotential: 30,
+  confidence: 15
+};
+
+export const PORTFOLIO_WEIGHT_LABELS: Record<keyof PortfolioWeights, string> = {
+  mvvAlignment: 'MVV適合度',
+  implementation: '実装容易性',
+  marketPotential: '市場性',
+  confidence: '検証信頼度'
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, Number.isFinite(value) ? value : 0));
+
+/**
+ * 検証結果の信頼度（0-1）
+ * 総合評価の confidence.level（1-10）を優先し、無ければ検証メタデータの信頼度を使う
+ */
+export function getVerificationConfidence(idea: StoredBusinessIdea): number | null {
+  if (!idea.verification) return null;
+
+  const level = parseFloat(idea.verification.overallAssessment?.confidence?.level);
+  if (Number.isFinite(level)) {
+    return clamp01(level / 10);
+  }
+
+  const metadataConfidence = idea.verification.metadata?.confidence;
+  return typeof metadataConfidence === 'number' ? clamp01(metadataConfidence) : null;
+}
+
+/**
+ * 重み付きスコア（0-100）
+ * 未検証アイデアは信頼度を除いた残りの重みで正規化する
+ */
+export function scoreIdea(idea: StoredBusinessIdea, weights: PortfolioWeights): Omit<ScoredIdea, 'rank'> {
+  const components = {
+    mvvAlignment: clamp01(idea.feasibility?.mvvAlignment),
+    implementation: clamp01(idea.feasibility?.implementationScore),
+    marketPotential: clamp01(idea.feasibility?.marketPotential),
+    confidence: getVerificationConfidence(idea)
+  };
+
+  let weighted = 0;
+  let totalWeight = 0;
+  (Object.keys(weights) as Array<keyof PortfolioWeights>).forEach(key => {
+    const value = components[key];
+    if (value === null || weights[key] <= 0) return;
+    weighted += value * weights[key];
+    totalWeight += weights[key];
+  });
+
+  return {
+    idea,
+    score: totalWeight > 0 ? (weighted / totalWeight) * 100 : 0,
+    components
+  };
+}
+
+/**
+ * アイデアをスコア順にランキング
+ */
+export function rankIdeas(ideas: StoredBusinessIdea[], weights: PortfolioWeights): ScoredIdea[] {
+  return ideas
+    .map(idea => scoreIdea(idea, weights))
+    .sort((a, b) => b.score - a.score)
+    .map((scored, index) => ({ ...scored, rank: index + 1 }));
+}
+
+/**
+ * 保存済みの重みプリセット一覧
+ */
+export function getWeightPresets(): PortfolioWeightPreset[] {
+  try {
+    const raw = localStorage.getItem(CONSTANTS.IDEA_PORTFOLIO.WEIGHT_PRESETS_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.warn('Failed to read portfolio weight presets:', error);
+    return [];
+  }
+}
+
+function storeWeightPresets(presets: PortfolioWeightPreset[]): PortfolioWeightPreset[] {
+  try {
+    localStorage.setItem(CONSTANTS.IDEA_PORTFOLIO.WEIGHT_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.warn('Failed to save portfolio weight presets:', error);
+  }
+  return presets;
+}
+
+/**
+ * 重みプリセットを保存（同名のプリセットは上書き）
+ */
+export function saveWeightPreset(name: string, weights: PortfolioWeights): PortfolioWeightPreset[] {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('プリセット名を入力してください');
+  }
+
+  const presets = getWeightPresets();
+  const existing = presets.find(preset => preset.name === trimmedName);
+  const preset: PortfolioWeightPreset = {
+    id: existing?.id ?? `preset_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+    name: trimmedName,
+    weights: { ...weights },
+    createdAt: new Date().toISOString()
+  };
+
+  const next = existing
+    ? presets.map(p => p.id === existing.id ? preset : p)
+    : [...presets, preset];
+  return storeWeightPresets(next);
+}
+
+/**
+ * 重みプリセットを削除
+ */
+export function deleteWeightPreset(presetId: string): PortfolioWeightPreset[] {
+  const next = getWeightPresets().filter(preset => preset.id !== presetId);
+  return storeWeightPresets(next);
+}
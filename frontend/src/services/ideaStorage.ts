@@ -84,6 +84,15 @@ export interface StoredBusinessIdea {
     cacheLevel?: number;
     apiLogId?: string; // APIログとの紐づけ
   };
+  // アイデアの系譜（改良元・改良先の追跡）
+  parentIdeaId?: string; // 改良元アイデアのID
+  rootIdeaId?: string; // 系譜の起点アイデアのID（起点自身は未設定）
+  generation?: number; // 起点を1とした世代番号
+  refinementContext?: { // 改良時に生成APIへ渡したコンテキスト
+    improvementSuggestions?: unknown;
+    instructions?: string;
+    refinedAt: number;
+  };
   createdAt: Date;
   updatedAt: Date;
   tags: string[];
@@ -115,6 +124,11 @@ class IdeaStorageDatabase extends Dexie {
       ideas: '++id, companyId, companyName, title, createdAt, updatedAt, status, starred, tags'
     });
 
+    // v2: アイデア系譜のインデックスを追加
+    this.version(2).stores({
+      ideas: '++id, companyId, companyName, title, createdAt, updatedAt, status, starred, tags, parentIdeaId, rootIdeaId'
+    });
+
     // データ変換フック
     this.ideas.hook('creating', (_, obj) => {
       obj.createdAt = new Date();
@@ -141,8 +155,11 @@ export class IdeaStorageService {
 
   /**
    * アイデアを保存
+   * id を指定した場合はそのIDで保存する（バックアップからの復元で系譜の参照を保つため）
    */
-  async saveIdea(idea: Omit<StoredBusinessIdea, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+  async saveIdea(
+    idea: Omit<StoredBusinessIdea, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }
+  ): Promise<string> {
     try {
       const ideaToSave: Partial<StoredBusinessIdea> = {
         ...idea,
@@ -290,6 +307,24 @@ export class IdeaStorageService {
     }
   }
 
+  /**
+   * 同じ系譜（起点アイデアとその改良版すべて）のアイデアを作成順に取得
+   */
+  async getIdeaFamily(rootIdeaId: string): Promise<StoredBusinessIdea[]> {
+    try {
+      const [root, descendants] = await Promise.all([
+        this.db.ideas.get(rootIdeaId),
+        this.db.ideas.where('rootIdeaId').equals(rootIdeaId).toArray()
+      ]);
+
+      return [...(root ? [root] : []), ...descendants]
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    } catch (error) {
+      console.error('Failed to get idea family:', error);
+      throw new Error('アイデア系譜の取得に失敗しました');
+    }
+  }
+
   /**
    * アイデアを削除
    */
@@ -319,6 +354,23 @@ export class IdeaStorageService {
     }
   }
 
+  /**
+   * 企業の統合に伴い、アイデアの紐づけ先企業を付け替え
+   */
+  async reassignCompany(fromCompanyId: string, toCompanyId: string, companyName: string): Promise<number> {
+    try {
+      const count = await this.db.ideas
+        .where('companyId')
+        .equals(fromCompanyId)
+        .modify({ companyId: toCompanyId, companyName });
+      console.log('Ideas reassigned:', { fromCompanyId, toCompanyId, count });
+      return count;
+    } catch (error) {
+      console.error('Failed to reassign ideas:', error);
+      throw new Error('アイデアの企業付け替えに失敗しました');
+    }
+  }
+
   /**
    * スター付け/外し
    */
@@ -0,0 +1,500 @@
+/**
+ * AIジョブスケジューラ
+ * 全てのAI処理（MVV抽出・企業情報抽出・Embeddings生成・アイデア検証）を単一キューで管理し、
+ * プロバイダ単位の同時実行数・開始間隔・レート制限時のクールダウンを共有する
+ */
+
+import type {
+  JobPriority,
+  JobProvider,
+  JobRetryPolicy,
+  JobStartGuard,
+  JobSubmitOptions,
+  SchedulerGroupSummary,
+  SchedulerJob,
+  SchedulerProviderSummary,
+  SchedulerSnapshot
+} from '../types/jobScheduler';
+import { JobCancelledError } from '../types/jobScheduler';
+import { CONSTANTS } from '../utils/constants';
+
+type SchedulerListener = (snapshot: SchedulerSnapshot) => void;
+
+interface ScheduledJob extends SchedulerJob {
+  run: () => Promise<unknown>;
+  retryPolicy: JobRetryPolicy;
+  onStart?: () => void;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+interface ProviderState {
+  concurrency: number;
+  minStartIntervalMs: number;
+  running: number;
+  lastStartedAt: number;
+  cooldownUntil: number;
+}
+
+const PRIORITY_ORDER: Record<JobPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2
+};
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+export const DEFAULT_RETRY_POLICY: JobRetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 5000,
+  maxDelayMs: 60000
+};
+
+/**
+ * レート制限（HTTP 429）によるエラーか判定
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (!error) return false;
+  const code = (error as { code?: string }).code;
+  if (code === 'RATE_LIMITED') return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b429\b|rate limit/i.test(message);
+}
+
+export class JobScheduler {
+  private jobs = new Map<string, ScheduledJob>();
+  private providers: Record<JobProvider, ProviderState>;
+  private pausedGroups = new Set<string>();
+  private groupLabels = new Map<string, { label: string; createdAt: number }>();
+  private listeners = new Set<SchedulerListener>();
+  private paused = false;
+  private pauseReason: string | undefined;
+  private startGuard: JobStartGuard | null = null;
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private snapshot: SchedulerSnapshot;
+
+  constructor() {
+    const { PROVIDERS } = CONSTANTS.JOB_SCHEDULER;
+    this.providers = {
+      perplexity: {
+        concurrency: PROVIDERS.perplexity.CONCURRENCY,
+        minStartIntervalMs: PROVIDERS.perplexity.MIN_START_INTERVAL_MS,
+        running: 0,
+        lastStartedAt: 0,
+        cooldownUntil: 0
+      },
+      openai: {
+        concurrency: PROVIDERS.openai.CONCURRENCY,
+        minStartIntervalMs: PROVIDERS.openai.MIN_START_INTERVAL_MS,
+        running: 0,
+        lastStartedAt: 0,
+        cooldownUntil: 0
+      },
+      background: {
+        concurrency: PROVIDERS.background.CONCURRENCY,
+        minStartIntervalMs: PROVIDERS.background.MIN_START_INTERVAL_MS,
+        running: 0,
+        lastStartedAt: 0,
+        cooldownUntil: 0
+      }
+    };
+    this.snapshot = this.buildSnapshot();
+  }
+
+  /**
+   * ジョブを投入し、実行結果を返す
+   * キャンセル時は JobCancelledError で reject される
+   */
+  submit<T>(options: JobSubmitOptions<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const id = options.id ?? `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      const retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+
+      if (options.groupId && !this.groupLabels.has(options.groupId)) {
+        this.groupLabels.set(options.groupId, {
+          label: options.groupLabel || options.groupId,
+          createdAt: Date.now()
+        });
+      }
+
+      this.jobs.set(id, {
+        id,
+        kind: options.kind,
+        provider: options.provider,
+        label: options.label,
+        priority: options.priority || 'normal',
+        status: 'queued',
+        attempts: 0,
+        maxRetries: retryPolicy.maxRetries,
+        groupId: options.groupId,
+        groupLabel: options.groupLabel,
+        budgetOperation: options.budgetOperation,
+        createdAt: Date.now(),
+        run: options.run,
+        retryPolicy,
+        onStart: options.onStart,
+        resolve: resolve as (value: unknown) => void,
+        reject
+      });
+
+      this.pruneFinishedJobs();
+      this.notify();
+      this.pump();
+    });
+  }
+
+  /**
+   * 全体の一時停止（実行中のジョブは完了まで継続）
+   * reason は自動停止時にキュー表示へ出す理由
+   */
+  pause(reason?: string): void {
+    this.paused = true;
+    this.pauseReason = reason;
+    this.notify();
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.pauseReason = undefined;
+    this.notify();
+    this.pump();
+  }
+
+  /**
+   * ジョブ開始前の判定を登録（予算チェックなど）
+   */
+  setStartGuard(guard: JobStartGuard | null): void {
+    this.startGuard = guard;
+    this.pump();
+  }
+
+  /**
+   * 開始判定の条件が変わったときに、見送っていたジョブを再評価する
+   */
+  wake(): void {
+    this.pump();
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  pauseGroup(groupId: string): void {
+    this.pausedGroups.add(groupId);
+    this.notify();
+  }
+
+  resumeGroup(groupId: string): void {
+    this.pausedGroups.delete(groupId);
+    this.notify();
+    this.pump();
+  }
+
+  /**
+   * 待機中のジョブをキャンセル（実行中のジョブは中断できないため対象外）
+   */
+  cancel(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || (job.status !== 'queued' && job.status !== 'retrying')) {
+      return false;
+    }
+
+    job.status = 'cancelled';
+    job.finishedAt = Date.now();
+    job.reject(new JobCancelledError(jobId));
+    this.notify();
+    this.pump();
+    return true;
+  }
+
+  /**
+   * グループ内の待機中ジョブを全てキャンセル
+   */
+  cancelGroup(groupId: string): number {
+    let cancelled = 0;
+    this.jobs.forEach(job => {
+      if (job.groupId === groupId && this.cancel(job.id)) {
+        cancelled++;
+      }
+    });
+    this.pausedGroups.delete(groupId);
+    this.notify();
+    return cancelled;
+  }
+
+  /**
+   * 終了済みジョブをキュー表示から削除
+   */
+  clearFinished(): void {
+    this.jobs.forEach((job, id) => {
+      if (FINISHED_STATUSES.includes(job.status)) {
+        this.jobs.delete(id);
+      }
+    });
+    this.groupLabels.forEach((_, groupId) => {
+      const hasJobs = Array.from(this.jobs.values()).some(job => job.groupId === groupId);
+      if (!hasJobs) {
+        this.groupLabels.delete(groupId);
+        this.pausedGroups.delete(groupId);
+      }
+    });
+    this.notify();
+  }
+
+  getSnapshot(): SchedulerSnapshot {
+    return this.snapshot;
+  }
+
+  subscribe(listener: SchedulerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 実行可能なジョブを開始する
+   * プロバイダごとに同時実行数・開始間隔・クールダウンを確認し、優先度順に取り出す
+   */
+  private pump(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+    if (this.paused) return;
+
+    const now = Date.now();
+    let nextWakeAt = Infinity;
+
+    (Object.keys(this.providers) as JobProvider[]).forEach(provider => {
+      const state = this.providers[provider];
+
+      // この pump で開始を見送ったジョブ（同じプロバイダの後続ジョブは開始を続ける）
+      const held = new Set<string>();
+
+      while (!this.paused && state.running < state.concurrency) {
+        const candidates = this.getRunnableJobs(provider, now, held);
+        if (candidates.ready.length === 0) {
+          nextWakeAt = Math.min(nextWakeAt, candidates.nextAttemptAt);
+          break;
+        }
+
+        const startAllowedAt = Math.max(
+          state.cooldownUntil,
+          state.lastStartedAt + state.minStartIntervalMs
+        );
+        if (startAllowedAt > now) {
+          nextWakeAt = Math.min(nextWakeAt, startAllowedAt);
+          break;
+        }
+
+        const job = candidates.ready[0];
+        const block = this.startGuard?.(this.toSchedulerJob(job));
+        if (block?.scope === 'queue') {
+          console.warn(`⏸️ ジョブキューを一時停止します: ${block.reason}`);
+          this.pause(block.reason);
+          break;
+        }
+        if (block) {
+          held.add(job.id);
+          if (job.holdReason !== block.reason) {
+            job.holdReason = block.reason;
+            this.notify();
+          }
+          continue;
+        }
+
+        job.holdReason = undefined;
+        this.startJob(job, state);
+      }
+    });
+
+    if (this.paused) return;
+
+    if (nextWakeAt !== Infinity) {
+      this.wakeTimer = setTimeout(() => this.pump(), Math.max(nextWakeAt - now, 50));
+    }
+  }
+
+  private getRunnableJobs(
+    provider: JobProvider,
+    now: number,
+    held: Set<string>
+  ): { ready: ScheduledJob[]; nextAttemptAt: number } {
+    const ready: ScheduledJob[] = [];
+    let nextAttemptAt = Infinity;
+
+    this.jobs.forEach(job => {
+      if (job.provider !== provider || held.has(job.id)) return;
+      if (job.groupId && this.pausedGroups.has(job.groupId)) return;
+
+      if (job.status === 'queued') {
+        ready.push(job);
+      } else if (job.status === 'retrying') {
+        if ((job.nextAttemptAt ?? 0) <= now) {
+          ready.push(job);
+        } else {
+          nextAttemptAt = Math.min(nextAttemptAt, job.nextAttemptAt ?? now);
+        }
+      }
+    });
+
+    ready.sort((a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.createdAt - b.createdAt
+    );
+    return { ready, nextAttemptAt };
+  }
+
+  private startJob(job: ScheduledJob, state: ProviderState): void {
+    job.status = 'running';
+    job.attempts++;
+    job.startedAt = Date.now();
+    job.nextAttemptAt = undefined;
+    state.running++;
+    state.lastStartedAt = job.startedAt;
+    this.notify();
+
+    try {
+      job.onStart?.();
+    } catch (error) {
+      console.warn(`Job onStart callback failed (${job.id}):`, error);
+    }
+
+    Promise.resolve()
+      .then(() => job.run())
+      .then(
+        result => {
+          state.running--;
+          job.status = 'completed';
+          job.error = undefined;
+          job.finishedAt = Date.now();
+          job.resolve(result);
+        },
+        error => {
+          state.running--;
+          this.handleJobError(job, state, error);
+        }
+      )
+      .finally(() => {
+        this.notify();
+        this.pump();
+      });
+  }
+
+  private handleJobError(job: ScheduledJob, state: ProviderState, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    const rateLimited = isRateLimitError(error);
+    job.error = message;
+
+    // レート制限を検知したらプロバイダ全体の新規開始を止める
+    if (rateLimited) {
+      state.cooldownUntil = Math.max(
+        state.cooldownUntil,
+        Date.now() + CONSTANTS.JOB_SCHEDULER.RATE_LIMIT_COOLDOWN_MS
+      );
+      console.warn(`⏳ ${job.provider}: レート制限を検知したため新規ジョブの開始を一時停止します`);
+    }
+
+    const { retryOn, maxRetries, baseDelayMs, maxDelayMs } = job.retryPolicy;
+    const shouldRetry = retryOn ? retryOn(error) : rateLimited;
+
+    if (shouldRetry && job.attempts <= maxRetries) {
+      const backoff = Math.min(baseDelayMs * Math.pow(2, job.attempts - 1), maxDelayMs);
+      job.status = 'retrying';
+      job.nextAttemptAt = Date.now() + backoff;
+      console.log(`🔁 Job ${job.label} will retry in ${backoff}ms (attempt ${job.attempts}/${maxRetries + 1})`);
+      return;
+    }
+
+    job.status = 'failed';
+    job.finishedAt = Date.now();
+    job.reject(error);
+  }
+
+  /**
+   * 終了済みジョブが上限を超えたら古いものから削除
+   */
+  private pruneFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter(job => FINISHED_STATUSES.includes(job.status))
+      .sort((a, b) => (a.finishedAt ?? 0) - (b.finishedAt ?? 0));
+
+    const overflow = finished.length - CONSTANTS.JOB_SCHEDULER.MAX_FINISHED_JOBS;
+    for (let i = 0; i < overflow; i++) {
+      this.jobs.delete(finished[i].id);
+    }
+  }
+
+  private notify(): void {
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.snapshot);
+      } catch (error) {
+        console.error('Error in job scheduler listener:', error);
+      }
+    });
+  }
+
+  private toSchedulerJob(job: ScheduledJob): SchedulerJob {
+    return {
+      id: job.id,
+      kind: job.kind,
+      provider: job.provider,
+      label: job.label,
+      priority: job.priority,
+      status: job.status,
+      attempts: job.attempts,
+      maxRetries: job.maxRetries,
+      groupId: job.groupId,
+      groupLabel: job.groupLabel,
+      budgetOperation: job.budgetOperation,
+      holdReason: job.holdReason,
+      error: job.error,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      nextAttemptAt: job.nextAttemptAt
+    };
+  }
+
+  private buildSnapshot(): SchedulerSnapshot {
+    const jobs: SchedulerJob[] = Array.from(this.jobs.values()).map(job => this.toSchedulerJob(job));
+
+    const groups: SchedulerGroupSummary[] = [];
+    this.groupLabels.forEach(({ label, createdAt }, groupId) => {
+      const groupJobs = jobs.filter(job => job.groupId === groupId);
+      if (groupJobs.length === 0) return;
+      groups.push({
+        id: groupId,
+        label,
+        total: groupJobs.length,
+        queued: groupJobs.filter(job => job.status === 'queued' || job.status === 'retrying').length,
+        running: groupJobs.filter(job => job.status === 'running').length,
+        completed: groupJobs.filter(job => job.status === 'completed').length,
+        failed: groupJobs.filter(job => job.status === 'failed').length,
+        cancelled: groupJobs.filter(job => job.status === 'cancelled').length,
+        paused: this.pausedGroups.has(groupId),
+        createdAt
+      });
+    });
+
+    const providers: SchedulerProviderSummary[] = (Object.keys(this.providers) as JobProvider[]).map(provider => {
+      const state = this.providers[provider];
+      return {
+        provider,
+        concurrency: state.concurrency,
+        running: state.running,
+        queued: jobs.filter(job =>
+          job.provider === provider && (job.status === 'queued' || job.status === 'retrying')
+        ).length,
+        cooldownUntil: state.cooldownUntil > Date.now() ? state.cooldownUntil : undefined
+      };
+    });
+
+    return { jobs, groups, providers, paused: this.paused, pauseReason: this.pauseReason };
+  }
+}
+
+// シングルトンインスタンス
+export const jobScheduler = new JobScheduler();
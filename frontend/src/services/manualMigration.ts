@@ -3,7 +3,7 @@
  */
 
 import { companyStorage, mvvStorage } from './storage';
-import { migrateCompanyStatuses } from './dataMigration';
+import { migrateCompanyStatuses, migrateFieldEmbeddings } from './dataMigration';
 import { generateEmbeddings } from './openai';
 
 /**
@@ -563,6 +563,7 @@ export async function testEmbeddingsGeneration(companyName: string) {
 if (typeof window !== 'undefined') {
   (window as any).mvvDebug = {
     forceMigration,
+    migrateFieldEmbeddings,
     fixMVVDataAccess,
     fixStatusInconsistencies,
     debugDataAlignment,
@@ -580,4 +581,5 @@ if (typeof window !== 'undefined') {
   console.log('- window.mvvDebug.testEmbeddingsGeneration("company name") - Test embeddings generation');
   console.log('- window.mvvDebug.fixStatusInconsistencies() - Fix status issues');
   console.log('- window.mvvDebug.fixMVVDataAccess() - Fix MVV data access');
+  console.log('- window.mvvDebug.migrateFieldEmbeddings() - Add per-field embeddings to existing companies');
 }
\ No newline at end of file
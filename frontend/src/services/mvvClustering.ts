@@ -0,0 +1,477 @@
+/**
+ * 埋め込みベクトルによるMVVの教師なしクラスタリング
+ * - k-means: 類似度行列（グラム行列）上のカーネルk-means。kはシルエット係数で自動選択
+ * - density: HDBSCAN方式の密度ベースクラスタリング（相互到達距離の最小全域木 → 凝縮木 → 安定度で選択）
+ * 各クラスタには、他のクラスタと比べて特徴的なMVVキーワードでラベルを付ける
+ */
+
+import {
+  checkCancelled,
+  computeSimilarityMatrix,
+  extractMVVKeywordSet,
+  type ComputeCompany,
+  type ComputeContext
+} from './analysisCompute';
+import { createSeededRandom } from '../utils/seededRandom';
+
+export type ClusteringMethod = 'kmeans' | 'density';
+
+export interface ClusteringOptions {
+  method: ClusteringMethod;
+  k: number | 'auto';        // k-meansのクラスタ数（autoはシルエット係数で選択）
+  maxK: number;              // 自動選択で試す最大クラスタ数
+  minClusterSize: number;    // 密度ベースで1クラスタとみなす最小企業数
+  minSamples: number;        // 密度ベースのコア距離に使う近傍数
+  keywordCount: number;      // クラスタラベルに使うキーワード数
+  seed: number;              // 初期中心選択の乱数シード（同じ入力なら同じ結果）
+}
+
+export interface DiscoveredCluster {
+  id: number;
+  companyIds: string[];
+  keywords: string[];
+  categories: Array<{ category: string; count: number }>; // 含まれる業界（企業数の多い順）
+}
+
+export interface ClusteringResult {
+  method: ClusteringMethod;
+  labels: Record<string, number>;   // 企業ID → クラスタID（密度ベースのノイズは NOISE_CLUSTER_ID）
+  clusters: DiscoveredCluster[];
+  noiseCount: number;
+  silhouette: number | null;        // 平均シルエット係数（ノイズを除く）
+  silhouetteByK: Array<{ k: number; score: number }>; // k-means自動選択時の候補
+}
+
+export const NOISE_CLUSTER_ID = -1;
+
+export const DEFAULT_CLUSTERING_OPTIONS: ClusteringOptions = {
+  method: 'kmeans',
+  k: 'auto',
+  maxK: 10,
+  minClusterSize: 3,
+  minSamples: 3,
+  keywordCount: 3,
+  seed: 42
+};
+
+const KMEANS_MAX_ITERATIONS = 50;
+const KMEANS_RESTARTS = 3;
+// 重複テキストなどで距離0の辺があっても λ = 1/距離 が発散しないようにする
+const MIN_DENSITY_DISTANCE = 1e-6;
+
+/**
+ * 平均シルエット係数（ラベルが負の点は対象外）
+ */
+export const silhouetteScore = (distance: number[][], labels: number[]): number => {
+  const clusterIds = [...new Set(labels.filter(label => label >= 0))];
+  if (clusterIds.length < 2) return 0;
+
+  let total = 0;
+  let counted = 0;
+
+  labels.forEach((label, i) => {
+    if (label < 0) return;
+    const sums = new Map<number, { sum: number; count: number }>();
+    labels.forEach((other, j) => {
+      if (i === j || other < 0) return;
+      const entry = sums.get(other) || { sum: 0, count: 0 };
+      entry.sum += distance[i][j];
+      entry.count++;
+      sums.set(other, entry);
+    });
+
+    const own = sums.get(label);
+    // 単独クラスタの点のシルエットは0とする
+    if (!own || own.count === 0) {
+      counted++;
+      return;
+    }
+    const a = own.sum / own.count;
+    let b = Infinity;
+    sums.forEach((entry, other) => {
+      if (other !== label && entry.count > 0) b = Math.min(b, entry.sum / entry.count);
+    });
+    if (!isFinite(b)) return;
+
+    total += (b - a) / Math.max(a, b, Number.EPSILON);
+    counted++;
+  });
+
+  return counted > 0 ? total / counted : 0;
+};
+
+/**
+ * 類似度行列上のカーネルk-means（正規化済みベクトルのk-meansと等価）
+ * 点iとクラスタCの重心との二乗距離 = K(i,i) - 2/|C| Σ_j∈C K(i,j) + 1/|C|² Σ_j,l∈C K(j,l)
+ */
+export const kernelKMeans = (
+  similarity: number[][],
+  k: number,
+  random: () => number
+): { labels: number[]; inertia: number } => {
+  const n = similarity.length;
+  const squaredDistance = (i: number, j: number) => Math.max(0, similarity[i][i] + similarity[j][j] - 2 * similarity[i][j]);
+
+  // k-means++ による初期中心の選択
+  const centers = [Math.floor(random() * n)];
+  const nearest = Array.from({ length: n }, (_, i) => squaredDistance(i, centers[0]));
+  while (centers.length < k) {
+    const total = nearest.reduce((sum, d) => sum + d, 0);
+    let next = 0;
+    if (total > 0) {
+      let threshold = random() * total;
+      for (let i = 0; i < n; i++) {
+        threshold -= nearest[i];
+        if (threshold <= 0) {
+          next = i;
+          break;
+        }
+      }
+    } else {
+      next = centers.length; // 全点が同一の場合
+    }
+    centers.push(next);
+    for (let i = 0; i < n; i++) {
+      nearest[i] = Math.min(nearest[i], squaredDistance(i, next));
+    }
+  }
+
+  let labels = Array.from({ length: n }, (_, i) => {
+    let best = 0;
+    centers.forEach((center, c) => {
+      if (squaredDistance(i, center) < squaredDistance(i, centers[best])) best = c;
+    });
+    return best;
+  });
+  let inertia = Infinity;
+
+  for (let iter = 0; iter < KMEANS_MAX_ITERATIONS; iter++) {
+    const members: number[][] = Array.from({ length: k }, () => []);
+    labels.forEach((label, i) => members[label].push(i));
+
+    // クラスタ内の類似度総和 Σ_j,l∈C K(j,l) / |C|²
+    const selfTerms = members.map(group => {
+      if (group.length === 0) return 0;
+      let sum = 0;
+      group.forEach(j => group.forEach(l => {
+        sum += similarity[j][l];
+      }));
+      return sum / (group.length * group.length);
+    });
+
+    const nextLabels = new Array<number>(n);
+    let nextInertia = 0;
+    for (let i = 0; i < n; i++) {
+      let bestLabel = labels[i];
+      let bestDistance = Infinity;
+      for (let c = 0; c < k; c++) {
+        const group = members[c];
+        if (group.length === 0) continue;
+        let cross = 0;
+        group.forEach(j => {
+          cross += similarity[i][j];
+        });
+        const d = similarity[i][i] - (2 * cross) / group.length + selfTerms[c];
+        if (d < bestDistance) {
+          bestDistance = d;
+          bestLabel = c;
+        }
+      }
+      nextLabels[i] = bestLabel;
+      nextInertia += Math.max(0, bestDistance);
+    }
+
+    const changed = nextLabels.some((label, i) => label !== labels[i]);
+    labels = nextLabels;
+    inertia = nextInertia;
+    if (!changed) break;
+  }
+
+  // 空クラスタを詰めて 0..k'-1 の連番にする
+  const remap = new Map<number, number>();
+  labels = labels.map(label => {
+    if (!remap.has(label)) remap.set(label, remap.size);
+    return remap.get(label)!;
+  });
+
+  return { labels, inertia };
+};
+
+/**
+ * HDBSCAN方式の密度ベースクラスタリング
+ * @returns 各点のクラスタ番号（ノイズは NOISE_CLUSTER_ID）
+ */
+export const densityClustering = (
+  distance: number[][],
+  minClusterSize: number,
+  minSamples: number
+): number[] => {
+  const n = distance.length;
+  if (n < minClusterSize) return new Array<number>(n).fill(NOISE_CLUSTER_ID);
+
+  // 1. コア距離（minSamples番目に近い点までの距離）
+  const neighborRank = Math.min(Math.max(1, minSamples), n - 1);
+  const coreDistance = distance.map((row, i) => {
+    const sorted = row.filter((_, j) => j !== i).sort((a, b) => a - b);
+    return sorted[neighborRank - 1];
+  });
+  const reachability = (i: number, j: number) => Math.max(coreDistance[i], coreDistance[j], distance[i][j]);
+
+  // 2. 相互到達距離の最小全域木（Prim法）
+  const edges: Array<{ a: number; b: number; weight: number }> = [];
+  const inTree = new Array<boolean>(n).fill(false);
+  const bestWeight = new Array<number>(n).fill(Infinity);
+  const bestFrom = new Array<number>(n).fill(-1);
+  let current = 0;
+  inTree[0] = true;
+  for (let added = 1; added < n; added++) {
+    let next = -1;
+    for (let j = 0; j < n; j++) {
+      if (inTree[j]) continue;
+      const weight = reachability(current, j);
+      if (weight < bestWeight[j]) {
+        bestWeight[j] = weight;
+        bestFrom[j] = current;
+      }
+      if (next === -1 || bestWeight[j] < bestWeight[next]) next = j;
+    }
+    inTree[next] = true;
+    edges.push({ a: bestFrom[next], b: next, weight: bestWeight[next] });
+    current = next;
+  }
+
+  // 3. 単連結法の樹形図（葉 0..n-1、内部ノード n..2n-2）
+  edges.sort((x, y) => x.weight - y.weight);
+  const parent = Array.from({ length: 2 * n - 1 }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+  const children: Array<[number, number]> = [];
+  const mergeWeight: number[] = [];
+  const size = new Array<number>(2 * n - 1).fill(1);
+  edges.forEach(({ a, b, weight }, index) => {
+    const node = n + index;
+    const rootA = find(a);
+    const rootB = find(b);
+    parent[rootA] = node;
+    parent[rootB] = node;
+    children.push([rootA, rootB]);
+    mergeWeight.push(weight);
+    size[node] = size[rootA] + size[rootB];
+  });
+  const root = 2 * n - 2;
+
+  const leavesOf = (node: number): number[] => {
+    const leaves: number[] = [];
+    const stack = [node];
+    while (stack.length > 0) {
+      const x = stack.pop()!;
+      if (x < n) leaves.push(x);
+      else stack.push(...children[x - n]);
+    }
+    return leaves;
+  };
+
+  // 4. 凝縮木: minClusterSize 未満の枝は親クラスタからの離脱点として扱う
+  const clusterParent: number[] = [-1];
+  const clusterBirth: number[] = [0];
+  const clusterStability: number[] = [0];
+  const clusterChildren: number[][] = [[]];
+  const pointCluster = new Array<number>(n).fill(0); // 各点が最後に属していたクラスタ
+
+  const stack: Array<{ node: number; cluster: number }> = [{ node: root, cluster: 0 }];
+  while (stack.length > 0) {
+    const { node, cluster } = stack.pop()!;
+    if (node < n) {
+      pointCluster[node] = cluster;
+      continue;
+    }
+
+    const lambda = 1 / Math.max(MIN_DENSITY_DISTANCE, mergeWeight[node - n]);
+    const [left, right] = children[node - n];
+    const leftBig = size[left] >= minClusterSize;
+    const rightBig = size[right] >= minClusterSize;
+
+    if (leftBig && rightBig) {
+      [left, right].forEach(child => {
+        const childCluster = clusterParent.length;
+        clusterParent.push(cluster);
+        clusterBirth.push(lambda);
+        clusterStability.push(0);
+        clusterChildren.push([]);
+        clusterChildren[cluster].push(childCluster);
+        clusterStability[cluster] += size[child] * (lambda - clusterBirth[cluster]);
+        stack.push({ node: child, cluster: childCluster });
+      });
+    } else {
+      [left, right].forEach(child => {
+        if (size[child] >= minClusterSize) {
+          stack.push({ node: child, cluster });
+        } else {
+          const fallen = leavesOf(child);
+          clusterStability[cluster] += fallen.length * (lambda - clusterBirth[cluster]);
+          fallen.forEach(point => {
+            pointCluster[point] = cluster;
+          });
+        }
+      });
+    }
+  }
+
+  // 5. 安定度が子孫の合計を上回るクラスタを選択（根は他に候補が無い場合のみ）
+  const selected = new Array<boolean>(clusterParent.length).fill(false);
+  const subtreeStability = [...clusterStability];
+  for (let c = clusterParent.length - 1; c >= 1; c--) {
+    const childSum = clusterChildren[c].reduce((sum, child) => sum + subtreeStability[child], 0);
+    if (clusterChildren[c].length === 0 || clusterStability[c] >= childSum) {
+      selected[c] = true;
+      subtreeStability[c] = clusterStability[c];
+    } else {
+      subtreeStability[c] = childSum;
+    }
+  }
+  // 祖先が選択されていれば子孫は選択しない
+  for (let c = 1; c < clusterParent.length; c++) {
+    let ancestor = clusterParent[c];
+    while (ancestor > 0) {
+      if (selected[ancestor]) {
+        selected[c] = false;
+        break;
+      }
+      ancestor = clusterParent[ancestor];
+    }
+  }
+  if (!selected.some(Boolean)) selected[0] = true;
+
+  // 6. 各点を、自身が属した最も深いクラスタから遡って最初に選択されたクラスタに割り当てる
+  const labelOf = new Map<number, number>();
+  return pointCluster.map(cluster => {
+    let c = cluster;
+    while (c >= 0 && !selected[c]) c = clusterParent[c];
+    if (c < 0) return NOISE_CLUSTER_ID;
+    if (!labelOf.has(c)) labelOf.set(c, labelOf.size);
+    return labelOf.get(c)!;
+  });
+};
+
+/**
+ * クラスタごとに、クラスタ外と比べて出現率が高いキーワードを選ぶ
+ */
+export const labelClusters = (
+  keywordSets: Set<string>[],
+  labels: number[],
+  keywordCount: number
+): Map<number, string[]> => {
+  const totalFrequency = new Map<string, number>();
+  keywordSets.forEach(set => set.forEach(word => {
+    totalFrequency.set(word, (totalFrequency.get(word) || 0) + 1);
+  }));
+
+  const result = new Map<number, string[]>();
+  [...new Set(labels)].filter(label => label >= 0).forEach(label => {
+    const memberSets = keywordSets.filter((_, i) => labels[i] === label);
+    const outsideCount = keywordSets.length - memberSets.length;
+    const frequency = new Map<string, number>();
+    memberSets.forEach(set => set.forEach(word => {
+      frequency.set(word, (frequency.get(word) || 0) + 1);
+    }));
+
+    // 2社以上に共通する語を優先（1社だけのクラスタはその企業の語）
+    const minFrequency = memberSets.length >= 2 ? 2 : 1;
+    const scored = [...frequency.entries()]
+      .filter(([, count]) => count >= minFrequency)
+      .map(([word, count]) => {
+        const inside = count / memberSets.length;
+        const outside = outsideCount > 0 ? (totalFrequency.get(word)! - count) / outsideCount : 0;
+        return { word, score: inside - outside, count };
+      })
+      .sort((a, b) => b.score - a.score || b.count - a.count || a.word.localeCompare(b.word));
+
+    result.set(label, scored.slice(0, keywordCount).map(entry => entry.word));
+  });
+
+  return result;
+};
+
+/**
+ * 埋め込みベクトルを持つ企業をクラスタリングし、キーワードラベルを付ける
+ */
+export const discoverClusters = (
+  companies: ComputeCompany[],
+  context: ComputeContext<never>,
+  options: ClusteringOptions = DEFAULT_CLUSTERING_OPTIONS
+): ClusteringResult => {
+  const n = companies.length;
+  const similarity = computeSimilarityMatrix(companies, 'embedding', context);
+  const distance = similarity.map(row => row.map(sim => Math.max(0, 1 - sim)));
+
+  let labels: number[] = new Array<number>(n).fill(0);
+  const silhouetteByK: Array<{ k: number; score: number }> = [];
+
+  if (options.method === 'kmeans') {
+    const random = createSeededRandom(options.seed);
+    const run = (k: number) => {
+      let best = kernelKMeans(similarity, k, random);
+      for (let restart = 1; restart < KMEANS_RESTARTS; restart++) {
+        const candidate = kernelKMeans(similarity, k, random);
+        if (candidate.inertia < best.inertia) best = candidate;
+      }
+      return best.labels;
+    };
+
+    if (options.k === 'auto') {
+      const maxK = Math.min(options.maxK, n - 1);
+      let bestScore = -Infinity;
+      for (let k = 2; k <= maxK; k++) {
+        checkCancelled(context);
+        const candidate = run(k);
+        const score = silhouetteScore(distance, candidate);
+        silhouetteByK.push({ k, score });
+        if (score > bestScore) {
+          bestScore = score;
+          labels = candidate;
+        }
+        context.reportProgress({ phase: 'clustering', completed: k - 1, total: maxK - 1 });
+      }
+    } else if (n >= 2) {
+      labels = run(Math.min(Math.max(1, options.k), n));
+      context.reportProgress({ phase: 'clustering', completed: 1, total: 1 });
+    }
+  } else {
+    labels = densityClustering(distance, Math.max(2, options.minClusterSize), options.minSamples);
+    context.reportProgress({ phase: 'clustering', completed: 1, total: 1 });
+  }
+
+  checkCancelled(context);
+  const keywordSets = companies.map(extractMVVKeywordSet);
+  const keywords = labelClusters(keywordSets, labels, options.keywordCount);
+
+  const clusters: DiscoveredCluster[] = [...keywords.keys()].sort((a, b) => a - b).map(id => {
+    const members = companies.filter((_, i) => labels[i] === id);
+    const categoryCounts = new Map<string, number>();
+    members.forEach(company => categoryCounts.set(company.category, (categoryCounts.get(company.category) || 0) + 1));
+    return {
+      id,
+      companyIds: members.map(company => company.id),
+      keywords: keywords.get(id) || [],
+      categories: [...categoryCounts.entries()]
+        .map(([category, count]) => ({ category, count }))
+        .sort((a, b) => b.count - a.count)
+    };
+  });
+
+  const noiseCount = labels.filter(label => label === NOISE_CLUSTER_ID).length;
+
+  return {
+    method: options.method,
+    labels: Object.fromEntries(companies.map((company, i) => [company.id, labels[i]])),
+    clusters,
+    noiseCount,
+    silhouette: clusters.length >= 2 ? silhouetteScore(distance, labels) : null,
+    silhouetteByK
+  };
+};
@@ -0,0 +1,128 @@
+/**
+ * MVV項目別のEmbeddings
+ * 統合ベクトル（Mission/Vision/Valuesの連結テキスト）とは別に、項目ごと・バリューの各項目ごとのベクトルを生成する
+ */
+
+import type { CompanyFieldEmbeddings, ValueItemEmbedding } from '../types';
+import { generateEmbeddings } from './openai';
+import { hashStringToSeed } from '../utils/seededRandom';
+
+export type MVVField = 'mission' | 'vision' | 'values';
+
+export const MVV_FIELDS: MVVField[] = ['mission', 'vision', 'values'];
+
+export const MVV_FIELD_LABELS: Record<MVVField, string> = {
+  mission: 'ミッション',
+  vision: 'ビジョン',
+  values: 'バリュー'
+};
+
+export interface MVVFieldTexts {
+  mission?: string;
+  vision?: string;
+  values?: string | string[];
+}
+
+/**
+ * バリューを項目に分割
+ * 改行・カンマで区切り、それで1項目にしかならない場合のみ読点「、」で区切る（文中の読点で分割しないため）
+ */
+export const splitValueItems = (values?: string | string[]): string[] => {
+  const split = (text: string, separator: RegExp) =>
+    text.split(separator).map(item => item.trim()).filter(item => item.length > 0);
+
+  const items = Array.isArray(values)
+    ? values.flatMap(value => split(value, /\n/))
+    : split(values ?? '', /[\n,，]/);
+  const resolved = items.length === 1 ? split(items[0], /、/) : items;
+  return [...new Set(resolved)];
+};
+
+/**
+ * 項目ごとのEmbeddings入力テキスト（空の項目は含めない）
+ */
+export const buildFieldEmbeddingTexts = (mvv: MVVFieldTexts): Partial<Record<MVVField, string>> => {
+  const values = Array.isArray(mvv.values) ? mvv.values.join(', ') : mvv.values;
+  const texts: Partial<Record<MVVField, string>> = {};
+  if (mvv.mission?.trim()) texts.mission = `Mission: ${mvv.mission.trim()}`;
+  if (mvv.vision?.trim()) texts.vision = `Vision: ${mvv.vision.trim()}`;
+  if (values?.trim()) texts.values = `Values: ${values.trim()}`;
+  return texts;
+};
+
+const buildValueItemEmbeddingText = (item: string): string => `Value: ${item}`;
+
+const hashSourceText = (text: string): string => `${text.length}:${hashStringToSeed(text).toString(16)}`;
+
+/**
+ * 既存のベクトルが同じ入力テキストから生成されたものか（ハッシュのない旧データは再生成する）
+ */
+const isFieldVectorReusable = (field: MVVField, text: string | undefined, existing?: CompanyFieldEmbeddings): boolean =>
+  !!text && !!existing?.[field]?.length && existing.sourceHashes?.[field] === hashSourceText(text);
+
+/**
+ * 既存のベクトルで賄えず、新たにEmbeddings APIを呼ぶ必要がある入力テキスト
+ * （existing を省略すると全項目を生成し直す）
+ */
+export const listPendingFieldEmbeddingTexts = (mvv: MVVFieldTexts, existing?: CompanyFieldEmbeddings): string[] => {
+  const texts = buildFieldEmbeddingTexts(mvv);
+  const reusableItems = new Set((existing?.valueItems ?? []).map(item => item.text));
+  return [
+    ...MVV_FIELDS
+      .filter(field => texts[field] && !isFieldVectorReusable(field, texts[field], existing))
+      .map(field => texts[field]!),
+    ...splitValueItems(mvv.values).filter(item => !reusableItems.has(item)).map(buildValueItemEmbeddingText)
+  ];
+};
+
+/**
+ * 項目別Embeddingsが現在のMVVテキストと対応しているか（未生成・テキスト変更の項目、バリュー項目の増減を検知）
+ */
+export const isFieldEmbeddingsUpToDate = (mvv: MVVFieldTexts, existing?: CompanyFieldEmbeddings): boolean => {
+  if (!existing) return false;
+  const texts = buildFieldEmbeddingTexts(mvv);
+  const valueItems = splitValueItems(mvv.values);
+  const storedItems = existing.valueItems ?? [];
+  return (
+    MVV_FIELDS.every(field =>
+      texts[field] ? isFieldVectorReusable(field, texts[field], existing) : !existing[field]?.length
+    ) &&
+    valueItems.length === storedItems.length &&
+    valueItems.every((item, index) => storedItems[index].text === item)
+  );
+};
+
+/**
+ * 入力済みの項目それぞれと、バリューの各項目のEmbeddingsを生成
+ * existing を渡すと、入力テキストが変わっていない項目・バリュー項目はそのベクトルを再利用する（移行用）
+ */
+export const generateFieldEmbeddings = async (
+  mvv: MVVFieldTexts,
+  existing?: CompanyFieldEmbeddings
+): Promise<CompanyFieldEmbeddings> => {
+  const texts = buildFieldEmbeddingTexts(mvv);
+  const reusableItems = new Map((existing?.valueItems ?? []).map(item => [item.text, item.embedding]));
+
+  // スケジューラのジョブ1件が API の同時接続枠を占有しないよう、1件ずつ順に生成する
+  const fieldEntries: Array<readonly [MVVField, number[]]> = [];
+  for (const field of MVV_FIELDS.filter(field => texts[field])) {
+    const embedding = isFieldVectorReusable(field, texts[field], existing)
+      ? existing![field]!
+      : await generateEmbeddings(texts[field]!);
+    fieldEntries.push([field, embedding]);
+  }
+
+  const valueItems: ValueItemEmbedding[] = [];
+  for (const text of splitValueItems(mvv.values)) {
+    valueItems.push({
+      text,
+      embedding: reusableItems.get(text) ?? await generateEmbeddings(buildValueItemEmbeddingText(text))
+    });
+  }
+
+  return {
+    ...Object.fromEntries(fieldEntries),
+    ...(valueItems.length > 0 ? { valueItems } : {}),
+    sourceHashes: Object.fromEntries(fieldEntries.map(([field]) => [field, hashSourceText(texts[field]!)]))
+  };
+};
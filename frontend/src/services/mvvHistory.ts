@@ -0,0 +1,59 @@
+/**
+ * MVVバージョン履歴管理
+ * 企業ごとの全MVVバージョンの取得・比較・過去バージョンの再アクティブ化
+ */
+
+import { companyStorage, mvvStorage } from './storage';
+import { embeddingsIndex } from './embeddingsIndex';
+import { diffWords, diffValueLists, type DiffSegment, type ValueDiffEntry } from '../utils/textDiff';
+import type { MVVData } from '../types';
+
+export interface MVVVersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  mission: DiffSegment[];
+  vision: DiffSegment[];
+  values: ValueDiffEntry[];
+}
+
+/**
+ * 企業のMVV履歴を新しい順に取得
+ */
+export async function getMVVHistory(companyId: string): Promise<MVVData[]> {
+  return await mvvStorage.getHistory(companyId);
+}
+
+/**
+ * 2つのMVVバージョン間の単語レベル差分を計算
+ */
+export function compareMVVVersions(from: MVVData, to: MVVData): MVVVersionDiff {
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    mission: diffWords(from.mission, to.mission),
+    vision: diffWords(from.vision, to.vision),
+    values: diffValueLists(from.values || [], to.values || [])
+  };
+}
+
+/**
+ * 過去のMVVバージョンをアクティブ化し、企業レコードへ反映
+ * Embeddingsは旧テキストと一致しなくなるためクリアし、Phase 2の再生成対象に戻す
+ */
+export async function activateMVVVersion(mvvId: number): Promise<MVVData> {
+  const activated = await mvvStorage.activate(mvvId);
+
+  await companyStorage.update(activated.companyId, {
+    mission: activated.mission ?? '',
+    vision: activated.vision ?? '',
+    values: activated.values.join(', '),
+    embeddings: [],
+    fieldEmbeddings: {},
+    status: 'mvv_extracted',
+    errorMessage: undefined
+  });
+  await embeddingsIndex.remove(activated.companyId);
+
+  console.log(`✅ MVV version ${activated.version} activated for company ${activated.companyId}`);
+  return activated;
+}
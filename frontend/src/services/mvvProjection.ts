@@ -0,0 +1,457 @@
+/**
+ * ポジショニングマップ用の2次元投影アルゴリズム
+ * - pca: 埋め込みベクトルの主成分（べき乗法）
+ * - tsne: t-SNE（厳密計算。近傍構造を保つ）
+ * - umap: UMAP方式の近傍グラフレイアウト（ファジィ近傍グラフ + 負例サンプリング）
+ * いずれもシード付き乱数のみを使い、同じ入力・同じシードなら同じ配置になる
+ */
+
+import {
+  PARTIAL_UPDATE_STEPS,
+  checkCancelled,
+  computeSimilarityMatrix,
+  normalizePositions,
+  performMDS,
+  type CompanyPosition,
+  type ComputeCompany,
+  type ComputeContext,
+  type PositioningResult
+} from './analysisCompute';
+import { createSeededRandom, gaussianRandom, hashStringToSeed } from '../utils/seededRandom';
+
+export type ProjectionMethod = 'mds' | 'pca' | 'tsne' | 'umap';
+
+export type LayoutPoint = { x: number; y: number };
+
+export interface ProjectionOptions {
+  method: ProjectionMethod;
+  seed: number;
+  /** 固定レイアウト: 既存企業の座標（指定した企業は動かさず、新規企業だけを配置する） */
+  pinnedPositions?: Record<string, LayoutPoint>;
+}
+
+export const DEFAULT_PROJECTION_OPTIONS: ProjectionOptions = {
+  method: 'mds',
+  seed: 42
+};
+
+export const PROJECTION_METHOD_LABELS: Record<ProjectionMethod, string> = {
+  mds: 'MDS（ストレス最小化）',
+  pca: 'PCA（主成分分析）',
+  tsne: 't-SNE',
+  umap: 'UMAP方式（近傍グラフ）'
+};
+
+type Coordinates = Array<[number, number]>;
+type IterationCallback = (coordinates: Coordinates, iteration: number) => void;
+
+const PCA_ITERATIONS = 100;
+const TSNE_ITERATIONS = 500;
+const TSNE_EXAGGERATION_ITERATIONS = 100;
+const TSNE_MAX_PERPLEXITY = 30;
+const UMAP_EPOCHS = 200;
+const UMAP_MAX_NEIGHBORS = 15;
+const UMAP_NEGATIVE_SAMPLES = 5;
+// min_dist = 0.1 に対応する曲線パラメータ
+const UMAP_A = 1.577;
+const UMAP_B = 0.895;
+const PINNED_NEIGHBORS = 5;
+const PINNED_JITTER = 2;
+
+/**
+ * 主成分分析（べき乗法＋デフレーション）で上位2成分のスコアを求める
+ * 成分の符号は絶対値最大の係数が正になるよう揃え、シードに依存しない結果にする
+ */
+export const pcaProjection = (vectors: number[][], seed: number): Coordinates => {
+  const n = vectors.length;
+  const d = vectors[0]?.length ?? 0;
+  if (n === 0 || d === 0) return vectors.map(() => [0, 0]);
+
+  const mean = new Array<number>(d).fill(0);
+  vectors.forEach(vector => vector.forEach((value, k) => {
+    mean[k] += value / n;
+  }));
+  const centered = vectors.map(vector => vector.map((value, k) => value - mean[k]));
+
+  const random = createSeededRandom(seed);
+  const components: number[][] = [];
+
+  for (let component = 0; component < 2; component++) {
+    let v = Array.from({ length: d }, () => random() - 0.5);
+    for (let iter = 0; iter < PCA_ITERATIONS; iter++) {
+      // v ← Xᵀ X v（既に求めた成分は除く）
+      const scores = centered.map(row => row.reduce((sum, value, k) => sum + value * v[k], 0));
+      const next = new Array<number>(d).fill(0);
+      centered.forEach((row, i) => row.forEach((value, k) => {
+        next[k] += value * scores[i];
+      }));
+      components.forEach(previous => {
+        const dot = next.reduce((sum, value, k) => sum + value * previous[k], 0);
+        previous.forEach((value, k) => {
+          next[k] -= dot * value;
+        });
+      });
+      const norm = Math.sqrt(next.reduce((sum, value) => sum + value * value, 0));
+      if (norm === 0) break;
+      v = next.map(value => value / norm);
+    }
+
+    const dominant = v.reduce((best, value, k) => (Math.abs(value) > Math.abs(v[best]) ? k : best), 0);
+    if (v[dominant] < 0) v = v.map(value => -value);
+    components.push(v);
+  }
+
+  return centered.map(row => [
+    row.reduce((sum, value, k) => sum + value * components[0][k], 0),
+    row.reduce((sum, value, k) => sum + value * components[1][k], 0)
+  ]);
+};
+
+/**
+ * 距離の二乗行列から、指定パープレキシティになるよう各点の条件付き確率を求める
+ */
+const conditionalProbabilities = (squaredDistance: number[][], perplexity: number): number[][] => {
+  const n = squaredDistance.length;
+  const targetEntropy = Math.log(perplexity);
+
+  return squaredDistance.map((row, i) => {
+    let beta = 1;
+    let betaMin = -Infinity;
+    let betaMax = Infinity;
+    let probabilities = new Array<number>(n).fill(0);
+
+    for (let attempt = 0; attempt < 50; attempt++) {
+      let sum = 0;
+      probabilities = row.map((distance, j) => {
+        if (i === j) return 0;
+        const p = Math.exp(-distance * beta);
+        sum += p;
+        return p;
+      });
+      if (sum === 0) sum = Number.EPSILON;
+
+      let entropy = 0;
+      probabilities = probabilities.map((p, j) => {
+        const normalized = p / sum;
+        if (normalized > 0) entropy -= normalized * Math.log(normalized);
+        return i === j ? 0 : normalized;
+      });
+
+      const diff = entropy - targetEntropy;
+      if (Math.abs(diff) < 1e-5) break;
+      if (diff > 0) {
+        betaMin = beta;
+        beta = betaMax === Infinity ? beta * 2 : (beta + betaMax) / 2;
+      } else {
+        betaMax = beta;
+        beta = betaMin === -Infinity ? beta / 2 : (beta + betaMin) / 2;
+      }
+    }
+
+    return probabilities;
+  });
+};
+
+/**
+ * t-SNE（厳密計算、O(n²)/反復）
+ * @param similarity コサイン類似度行列（正規化ベクトル間の二乗距離 2-2cos を入力距離とする）
+ */
+export const tsneProjection = (
+  similarity: number[][],
+  seed: number,
+  context: ComputeContext<never>,
+  onIteration?: IterationCallback
+): Coordinates => {
+  const n = similarity.length;
+  if (n < 3) return similarity.map((_, i) => [i, 0]);
+
+  const perplexity = Math.max(2, Math.min(TSNE_MAX_PERPLEXITY, (n - 1) / 3));
+  const squaredDistance = similarity.map(row => row.map(sim => Math.max(0, 2 - 2 * sim)));
+  const conditional = conditionalProbabilities(squaredDistance, perplexity);
+  const p = conditional.map((row, i) => row.map((value, j) => Math.max((value + conditional[j][i]) / (2 * n), 1e-12)));
+
+  const random = createSeededRandom(seed);
+  const y: Coordinates = Array.from({ length: n }, () => [gaussianRandom(random) * 1e-4, gaussianRandom(random) * 1e-4]);
+  const velocity: Coordinates = Array.from({ length: n }, () => [0, 0]);
+  const gains: Coordinates = Array.from({ length: n }, () => [1, 1]);
+  const learningRate = Math.max(n / 12, 50);
+  const notifyInterval = Math.max(1, Math.floor(TSNE_ITERATIONS / PARTIAL_UPDATE_STEPS));
+  // 低次元側の類似度は反復ごとに全要素（対角以外）を上書きするため、行列は使い回す
+  const numerator: number[][] = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  for (let iter = 0; iter < TSNE_ITERATIONS; iter++) {
+    checkCancelled(context);
+
+    const exaggeration = iter < TSNE_EXAGGERATION_ITERATIONS ? 12 : 1;
+    const momentum = iter < 250 ? 0.5 : 0.8;
+
+    // Student-t 分布による低次元側の類似度
+    let z = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const dx = y[i][0] - y[j][0];
+        const dy = y[i][1] - y[j][1];
+        const value = 1 / (1 + dx * dx + dy * dy);
+        numerator[i][j] = value;
+        numerator[j][i] = value;
+        z += 2 * value;
+      }
+    }
+    z = Math.max(z, Number.EPSILON);
+
+    for (let i = 0; i < n; i++) {
+      let gradX = 0;
+      let gradY = 0;
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+        const force = (exaggeration * p[i][j] - numerator[i][j] / z) * numerator[i][j];
+        gradX += 4 * force * (y[i][0] - y[j][0]);
+        gradY += 4 * force * (y[i][1] - y[j][1]);
+      }
+
+      [gradX, gradY].forEach((grad, axis) => {
+        gains[i][axis] = Math.sign(grad) !== Math.sign(velocity[i][axis]) ? gains[i][axis] + 0.2 : Math.max(0.01, gains[i][axis] * 0.8);
+        velocity[i][axis] = momentum * velocity[i][axis] - learningRate * gains[i][axis] * grad;
+      });
+    }
+
+    // 速度を反映して重心を原点に戻す
+    let meanX = 0;
+    let meanY = 0;
+    y.forEach((point, i) => {
+      point[0] += velocity[i][0];
+      point[1] += velocity[i][1];
+      meanX += point[0] / n;
+      meanY += point[1] / n;
+    });
+    y.forEach(point => {
+      point[0] -= meanX;
+      point[1] -= meanY;
+    });
+
+    context.reportProgress({ phase: 'projection', completed: iter + 1, total: TSNE_ITERATIONS });
+    if (onIteration && (iter + 1) % notifyInterval === 0 && iter < TSNE_ITERATIONS - 1) {
+      onIteration(y.map(point => [point[0], point[1]]), iter + 1);
+    }
+  }
+
+  return y;
+};
+
+/**
+ * UMAP方式の近傍グラフレイアウト
+ * k近傍のファジィ集合（ρ・σで局所的に正規化）を対称化したグラフを、引力と負例サンプリングの斥力で配置する
+ * @param initial 初期配置（PCAの結果を使うと大域構造が安定する）
+ */
+export const umapProjection = (
+  similarity: number[][],
+  initial: Coordinates,
+  seed: number,
+  context: ComputeContext<never>,
+  onIteration?: IterationCallback
+): Coordinates => {
+  const n = similarity.length;
+  if (n < 3) return initial.map(point => [point[0], point[1]]);
+
+  const k = Math.min(UMAP_MAX_NEIGHBORS, n - 1);
+  const targetSum = Math.log2(k);
+
+  // 1. k近傍と局所的な帰属度
+  const weights = new Map<string, { i: number; j: number; weight: number }>();
+  for (let i = 0; i < n; i++) {
+    const neighbors = similarity[i]
+      .map((sim, j) => ({ j, distance: Math.max(0, 1 - sim) }))
+      .filter(neighbor => neighbor.j !== i)
+      .sort((a, b) => a.distance - b.distance || a.j - b.j)
+      .slice(0, k);
+    const rho = neighbors[0].distance;
+
+    let sigma = 1;
+    let low = 0;
+    let high = Infinity;
+    for (let attempt = 0; attempt < 64; attempt++) {
+      const sum = neighbors.reduce((total, neighbor) => total + Math.exp(-Math.max(0, neighbor.distance - rho) / sigma), 0);
+      if (Math.abs(sum - targetSum) < 1e-5) break;
+      if (sum > targetSum) {
+        high = sigma;
+        sigma = (low + high) / 2;
+      } else {
+        low = sigma;
+        sigma = high === Infinity ? sigma * 2 : (low + high) / 2;
+      }
+    }
+
+    neighbors.forEach(neighbor => {
+      const membership = Math.exp(-Math.max(0, neighbor.distance - rho) / Math.max(sigma, 1e-8));
+      const a = Math.min(i, neighbor.j);
+      const b = Math.max(i, neighbor.j);
+      const key = `${a}:${b}`;
+      const existing = weights.get(key);
+      // ファジィ和集合 w = w1 + w2 - w1·w2 で対称化
+      weights.set(key, existing
+        ? { ...existing, weight: existing.weight + membership - existing.weight * membership }
+        : { i: a, j: b, weight: membership });
+    });
+  }
+
+  // 2. 確率的勾配法によるレイアウト最適化
+  const edges = [...weights.values()].sort((x, y) => x.i - y.i || x.j - y.j);
+  const maxWeight = Math.max(...edges.map(edge => edge.weight));
+  const random = createSeededRandom(seed);
+  const y: Coordinates = initial.map(point => [point[0], point[1]]);
+  const clip = (value: number) => Math.max(-4, Math.min(4, value));
+  const notifyInterval = Math.max(1, Math.floor(UMAP_EPOCHS / PARTIAL_UPDATE_STEPS));
+
+  for (let epoch = 0; epoch < UMAP_EPOCHS; epoch++) {
+    checkCancelled(context);
+    const alpha = 1 - epoch / UMAP_EPOCHS;
+
+    edges.forEach(({ i, j, weight }) => {
+      // 重みの大きい辺ほど頻繁に更新する
+      if (random() > weight / maxWeight) return;
+
+      const dx = y[i][0] - y[j][0];
+      const dy = y[i][1] - y[j][1];
+      const distSq = dx * dx + dy * dy;
+      if (distSq > 0) {
+        const coefficient = (-2 * UMAP_A * UMAP_B * Math.pow(distSq, UMAP_B - 1)) / (1 + UMAP_A * Math.pow(distSq, UMAP_B));
+        const gx = clip(coefficient * dx) * alpha;
+        const gy = clip(coefficient * dy) * alpha;
+        y[i][0] += gx;
+        y[i][1] += gy;
+        y[j][0] -= gx;
+        y[j][1] -= gy;
+      }
+
+      for (let s = 0; s < UMAP_NEGATIVE_SAMPLES; s++) {
+        const other = Math.floor(random() * n);
+        if (other === i) continue;
+        const nx = y[i][0] - y[other][0];
+        const ny = y[i][1] - y[other][1];
+        const negSq = nx * nx + ny * ny;
+        const coefficient = (2 * UMAP_B) / ((0.001 + negSq) * (1 + UMAP_A * Math.pow(negSq, UMAP_B)));
+        y[i][0] += clip(coefficient * nx) * alpha;
+        y[i][1] += clip(coefficient * ny) * alpha;
+      }
+    });
+
+    context.reportProgress({ phase: 'projection', completed: epoch + 1, total: UMAP_EPOCHS });
+    if (onIteration && (epoch + 1) % notifyInterval === 0 && epoch < UMAP_EPOCHS - 1) {
+      onIteration(y.map(point => [point[0], point[1]]), epoch + 1);
+    }
+  }
+
+  return y;
+};
+
+/**
+ * 固定レイアウト: 既存企業の座標はそのまま使い、新規企業は類似度の高い既存企業の座標の加重平均に置く
+ * 新規企業同士が重ならないよう、企業IDから決まる小さなずれを加える
+ * @returns 固定座標を持つ企業が少なすぎて配置できない場合は null
+ */
+export const placeWithPinnedLayout = (
+  ids: string[],
+  similarity: number[][],
+  pinnedPositions: Record<string, LayoutPoint>
+): Coordinates | null => {
+  const pinnedIndices = ids.map((id, i) => (pinnedPositions[id] ? i : -1)).filter(i => i >= 0);
+  if (pinnedIndices.length < 3) return null;
+
+  return ids.map((id, i) => {
+    const pinned = pinnedPositions[id];
+    if (pinned) return [pinned.x, pinned.y];
+
+    const neighbors = pinnedIndices
+      .map(j => ({ j, similarity: similarity[i][j] }))
+      .sort((a, b) => b.similarity - a.similarity || a.j - b.j)
+      .slice(0, PINNED_NEIGHBORS);
+    // 類似度を強調して最も近い企業の近くに置く
+    const weighted = neighbors.map(neighbor => ({ ...neighbor, weight: Math.pow(Math.max(neighbor.similarity, 1e-4), 4) }));
+    const total = weighted.reduce((sum, neighbor) => sum + neighbor.weight, 0);
+
+    const random = createSeededRandom(hashStringToSeed(id));
+    const x = weighted.reduce((sum, neighbor) => sum + neighbor.weight * pinnedPositions[ids[neighbor.j]].x, 0) / total;
+    const y = weighted.reduce((sum, neighbor) => sum + neighbor.weight * pinnedPositions[ids[neighbor.j]].y, 0) / total;
+    return [x + (random() - 0.5) * 2 * PINNED_JITTER, y + (random() - 0.5) * 2 * PINNED_JITTER];
+  });
+};
+
+/**
+ * 競合ポジショニング計算（類似度マトリックス → 選択した手法で2次元投影 → 独自性）
+ * 投影の反復途中の配置を途中結果として通知する
+ * 固定レイアウトが指定されていれば、既存企業の座標を保ったまま新規企業だけを配置する（正規化しない）
+ */
+export const computePositioning = (
+  companies: ComputeCompany[],
+  context: ComputeContext<PositioningResult>,
+  options: ProjectionOptions = DEFAULT_PROJECTION_OPTIONS
+): PositioningResult => {
+  const similarityMatrix = computeSimilarityMatrix(companies, 'embedding', context);
+
+  const n = companies.length;
+  const uniquenessScores = similarityMatrix.map((row, index) =>
+    n > 1 ? 1 - (row.reduce((sum, sim) => sum + sim, 0) - row[index]) / (n - 1) : 0
+  );
+  const toPositions = (coordinates: Coordinates): CompanyPosition[] =>
+    companies.map((company, index) => ({
+      id: company.id,
+      name: company.name,
+      category: company.category || '未分類',
+      x: coordinates[index][0],
+      y: coordinates[index][1],
+      uniquenessScore: uniquenessScores[index],
+      clusterGroup: 0
+    }));
+  const reportCoordinates = (coordinates: Coordinates) => {
+    context.reportPartial?.({ positions: normalizePositions(toPositions(coordinates)), isFinal: false });
+  };
+
+  if (options.pinnedPositions) {
+    const placed = placeWithPinnedLayout(companies.map(company => company.id), similarityMatrix, options.pinnedPositions);
+    if (placed) {
+      context.reportProgress({ phase: 'projection', completed: 1, total: 1 });
+      return { positions: toPositions(placed), isFinal: true };
+    }
+  }
+
+  switch (options.method) {
+    case 'pca':
+    case 'tsne':
+    case 'umap': {
+      const dimension = Math.max(0, ...companies.map(company => company.embeddings?.length ?? 0));
+      const vectors = companies.map(company =>
+        company.embeddings?.length === dimension ? company.embeddings : new Array<number>(dimension).fill(0)
+      );
+      const pca = pcaProjection(vectors, options.seed);
+      if (options.method === 'pca') {
+        context.reportProgress({ phase: 'projection', completed: 1, total: 1 });
+        return { positions: normalizePositions(toPositions(pca)), isFinal: true };
+      }
+
+      const coordinates = options.method === 'tsne'
+        ? tsneProjection(similarityMatrix, options.seed, context, reportCoordinates)
+        : umapProjection(similarityMatrix, scaleForUmap(pca), options.seed, context, reportCoordinates);
+      return { positions: normalizePositions(toPositions(coordinates)), isFinal: true };
+    }
+    case 'mds':
+    default: {
+      // 距離マトリックスに変換（1 - similarity）、0除算を避けるため最小値設定
+      const distanceMatrix = similarityMatrix.map(row => row.map(sim => Math.max(0.001, 1 - sim)));
+      const withUniqueness = (positions: CompanyPosition[]) =>
+        positions.map((pos, index) => ({ ...pos, uniquenessScore: uniquenessScores[index] }));
+
+      const positions = performMDS(distanceMatrix, companies, context, (partialPositions) => {
+        context.reportPartial?.({ positions: withUniqueness(partialPositions), isFinal: false });
+      });
+      return { positions: withUniqueness(positions), isFinal: true };
+    }
+  }
+};
+
+/**
+ * UMAPの初期配置用に、PCA座標を[-10, 10]の範囲に縮尺する
+ */
+const scaleForUmap = (coordinates: Coordinates): Coordinates => {
+  const maxAbs = Math.max(1e-12, ...coordinates.flatMap(point => [Math.abs(point[0]), Math.abs(point[1])]));
+  return coordinates.map(point => [(point[0] / maxAbs) * 10, (point[1] / maxAbs) * 10]);
+};
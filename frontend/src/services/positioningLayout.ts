@@ -0,0 +1,123 @@
+/**
+ * ポジショニングマップの固定レイアウト保存
+ * データセット（投影手法 × 埋め込みベクトルの次元 × 企業構成）ごとに企業の座標をlocalStorageへ保存し、
+ * 企業が追加されても既存企業の位置を保ったまま比較できるようにする
+ */
+
+import { CONSTANTS } from '../utils/constants';
+import { hashStringToSeed } from '../utils/seededRandom';
+import type { CompanyPosition } from './analysisCompute';
+import type { LayoutPoint, ProjectionMethod } from './mvvProjection';
+
+export interface StoredPositioningLayout {
+  method: ProjectionMethod;
+  seed: number;
+  positions: Record<string, LayoutPoint>;
+  updatedAt: number;
+}
+
+type StoredLayouts = Record<string, StoredPositioningLayout>;
+
+// 企業が追加・削除されたデータセットを同じ系列とみなす、保存済み座標の企業が現在も残っている割合の下限
+const MIN_LAYOUT_OVERLAP = 0.5;
+
+/**
+ * 座標を比較できるデータセットのキー
+ * 手法・埋め込みモデルが異なる座標は混ぜず、企業構成（企業IDの集合）でデータセットを識別する
+ */
+export const getLayoutDatasetKey = (
+  method: ProjectionMethod,
+  embeddingDimension: number,
+  companyIds: string[]
+): string => {
+  const fingerprint = hashStringToSeed([...companyIds].sort().join('\n')).toString(36);
+  return `${method}:${embeddingDimension}:${fingerprint}`;
+};
+
+// 企業構成を除いた部分（手法・埋め込み次元）
+const getLayoutFamily = (datasetKey: string): string => datasetKey.slice(0, datasetKey.lastIndexOf(':'));
+
+class PositioningLayoutService {
+  /**
+   * 保存済みの座標を取得
+   * companyIds を渡すと、企業構成が変わった同じ系列のデータセット（手法・次元が同じで、保存済み企業の大半が残っている）の座標も引き継ぐ
+   */
+  getLayout(datasetKey: string, companyIds?: string[]): StoredPositioningLayout | null {
+    const layouts = this.loadAll();
+    if (layouts[datasetKey] || !companyIds) return layouts[datasetKey] ?? null;
+
+    const currentIds = new Set(companyIds);
+    const family = getLayoutFamily(datasetKey);
+    let best: StoredPositioningLayout | null = null;
+    let bestOverlap = MIN_LAYOUT_OVERLAP;
+    for (const [key, layout] of Object.entries(layouts)) {
+      const storedIds = Object.keys(layout.positions);
+      if (getLayoutFamily(key) !== family || storedIds.length === 0) continue;
+      const overlap = storedIds.filter(id => currentIds.has(id)).length / storedIds.length;
+      if (overlap > bestOverlap || (overlap === bestOverlap && !best)) {
+        best = layout;
+        bestOverlap = overlap;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 計算済みの座標を保存
+   * @param merge true なら保存済みの座標に新しい企業の座標を追加する（固定レイアウト）。false なら置き換える
+   */
+  saveLayout(
+    datasetKey: string,
+    method: ProjectionMethod,
+    seed: number,
+    positions: CompanyPosition[],
+    merge = true
+  ): StoredPositioningLayout {
+    const layouts = this.loadAll();
+    const layout: StoredPositioningLayout = {
+      method,
+      seed,
+      positions: {
+        ...(merge ? layouts[datasetKey]?.positions : undefined),
+        ...Object.fromEntries(positions.map(pos => [pos.id, { x: pos.x, y: pos.y }]))
+      },
+      updatedAt: Date.now()
+    };
+    layouts[datasetKey] = layout;
+
+    // 古いデータセットから削除して上限を保つ
+    const keys = Object.keys(layouts).sort((a, b) => layouts[b].updatedAt - layouts[a].updatedAt);
+    keys.slice(CONSTANTS.POSITIONING_LAYOUT.MAX_LAYOUTS).forEach(key => {
+      delete layouts[key];
+    });
+
+    this.saveAll(layouts);
+    return layout;
+  }
+
+  clearLayout(datasetKey: string): void {
+    const layouts = this.loadAll();
+    delete layouts[datasetKey];
+    this.saveAll(layouts);
+  }
+
+  private loadAll(): StoredLayouts {
+    try {
+      const stored = localStorage.getItem(CONSTANTS.POSITIONING_LAYOUT.STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as StoredLayouts) : {};
+    } catch (error) {
+      console.warn('Failed to load positioning layouts:', error);
+      return {};
+    }
+  }
+
+  private saveAll(layouts: StoredLayouts): void {
+    try {
+      localStorage.setItem(CONSTANTS.POSITIONING_LAYOUT.STORAGE_KEY, JSON.stringify(layouts));
+    } catch (error) {
+      console.warn('Failed to save positioning layouts:', error);
+    }
+  }
+}
+
+export const positioningLayoutService = new PositioningLayoutService();
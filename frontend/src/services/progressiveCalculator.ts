@@ -67,8 +67,10 @@ export class ProgressiveCalculator {
     limit: number = 5,
     onProgress?: (progress: ProgressiveResult[]) => void
   ): Promise<ProgressiveResult[]> {
-    const companiesWithEmbeddings = companies.filter(
-      c => c.embeddings && c.embeddings.length > 0 && c.id !== targetCompany.id
+    const companiesWithEmbeddings = SimilarityCalculator.selectCandidates(
+      targetCompany,
+      companies.filter(c => c.embeddings && c.embeddings.length > 0 && c.id !== targetCompany.id),
+      limit
     );
 
     if (companiesWithEmbeddings.length === 0) {
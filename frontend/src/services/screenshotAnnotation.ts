@@ -0,0 +1,177 @@
+/**
+ * スクリーンショット注釈
+ * 矢印・枠・テキスト吹き出し・墨消しをベクターのまま保存し、
+ * 書き出し時にだけ画像へ焼き込む（墨消しの下の内容は書き出し画像に残らない）
+ */
+
+import type { AnalysisScreenshot } from './screenshotCapture';
+
+export type ScreenshotAnnotationType = 'arrow' | 'box' | 'text' | 'redact';
+
+/**
+ * 座標は画像サイズに対する比率（0〜1）で保持し、表示サイズに依存しない
+ * - arrow: (x1,y1) から (x2,y2) へ向かう矢印
+ * - box / redact: (x1,y1)-(x2,y2) を対角とする矩形
+ * - text: (x1,y1) を指す引き出し線と、(x2,y2) に置くテキスト
+ */
+export interface ScreenshotAnnotation {
+  id: string;
+  type: ScreenshotAnnotationType;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color: string;
+  text?: string;
+}
+
+export const ANNOTATION_TYPE_LABELS: Record<ScreenshotAnnotationType, string> = {
+  arrow: '矢印',
+  box: '枠',
+  text: 'テキスト',
+  redact: '墨消し'
+};
+
+export const ANNOTATION_COLORS = ['#e53935', '#fb8c00', '#1e88e5', '#43a047', '#212121'];
+
+export const REDACTION_COLOR = '#000000';
+
+export const createAnnotationId = (): string =>
+  `annotation_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+// 線幅・文字サイズは画像の短辺に比例させる
+export const annotationStrokeWidth = (width: number, height: number): number =>
+  Math.max(2, Math.min(width, height) * 0.004);
+
+export const annotationFontSize = (width: number, height: number): number =>
+  Math.max(12, Math.min(width, height) * 0.025);
+
+/**
+ * 矢じりの3点（画素座標）
+ */
+export const arrowHeadPoints = (
+  x1: number, y1: number, x2: number, y2: number, size: number
+): Array<[number, number]> => {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const spread = Math.PI / 7;
+  return [
+    [x2, y2],
+    [x2 - size * Math.cos(angle - spread), y2 - size * Math.sin(angle - spread)],
+    [x2 - size * Math.cos(angle + spread), y2 - size * Math.sin(angle + spread)]
+  ];
+};
+
+/**
+ * Canvasに注釈を描画（描画順は配列順。墨消しは最後に重ねて確実に隠す）
+ */
+export const drawAnnotations = (
+  ctx: CanvasRenderingContext2D,
+  annotations: ScreenshotAnnotation[],
+  width: number,
+  height: number
+): void => {
+  const stroke = annotationStrokeWidth(width, height);
+  const fontSize = annotationFontSize(width, height);
+  const ordered = [
+    ...annotations.filter(a => a.type !== 'redact'),
+    ...annotations.filter(a => a.type === 'redact')
+  ];
+
+  for (const annotation of ordered) {
+    const x1 = annotation.x1 * width;
+    const y1 = annotation.y1 * height;
+    const x2 = annotation.x2 * width;
+    const y2 = annotation.y2 * height;
+
+    ctx.save();
+    ctx.strokeStyle = annotation.color;
+    ctx.fillStyle = annotation.color;
+    ctx.lineWidth = stroke;
+    ctx.lineCap = 'round';
+
+    switch (annotation.type) {
+      case 'redact':
+        ctx.fillStyle = REDACTION_COLOR;
+        ctx.fillRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+        break;
+      case 'box':
+        ctx.strokeRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+        break;
+      case 'arrow': {
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.stroke();
+        const head = arrowHeadPoints(x1, y1, x2, y2, stroke * 5);
+        ctx.beginPath();
+        ctx.moveTo(head[0][0], head[0][1]);
+        head.slice(1).forEach(([x, y]) => ctx.lineTo(x, y));
+        ctx.closePath();
+        ctx.fill();
+        break;
+      }
+      case 'text': {
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(x1, y1, stroke * 1.5, 0, Math.PI * 2);
+        ctx.fill();
+
+        const text = annotation.text || '';
+        ctx.font = `bold ${fontSize}px sans-serif`;
+        const padding = fontSize * 0.4;
+        const textWidth = ctx.measureText(text).width;
+        ctx.fillRect(x2 - padding, y2 - fontSize / 2 - padding, textWidth + padding * 2, fontSize + padding * 2);
+        ctx.fillStyle = '#ffffff';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(text, x2, y2);
+        break;
+      }
+    }
+    ctx.restore();
+  }
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('画像の読み込みに失敗しました'));
+    img.src = src;
+  });
+
+/**
+ * 注釈を焼き込んだPNG画像と実際の画素サイズを取得
+ */
+export const renderAnnotatedImage = async (
+  screenshot: AnalysisScreenshot
+): Promise<{ dataUrl: string; width: number; height: number }> => {
+  const img = await loadImage(screenshot.dataUrl);
+  const width = img.naturalWidth || screenshot.width;
+  const height = img.naturalHeight || screenshot.height;
+
+  if (!screenshot.annotations?.length) {
+    return { dataUrl: screenshot.dataUrl, width, height };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvasを初期化できません');
+
+  ctx.drawImage(img, 0, 0, width, height);
+  drawAnnotations(ctx, screenshot.annotations, width, height);
+  return { dataUrl: canvas.toDataURL('image/png'), width, height };
+};
+
+/**
+ * 注釈付きのスクリーンショットを、注釈を焼き込んだ画像に置き換える（書き出し用）
+ */
+export const flattenAnnotations = async (screenshot: AnalysisScreenshot): Promise<AnalysisScreenshot> => {
+  if (!screenshot.annotations?.length) return screenshot;
+  const { dataUrl } = await renderAnnotatedImage(screenshot);
+  return { ...screenshot, dataUrl };
+};
@@ -8,6 +8,7 @@ import * as htmlToImage from 'html-to-image';
 // @ts-ignore - dom-to-image-more lacks TypeScript definitions
 import * as domtoimage from 'dom-to-image-more';
 import { ScreenshotStorageService } from './screenshotStorage';
+import { flattenAnnotations, type ScreenshotAnnotation } from './screenshotAnnotation';
 
 export interface ScreenshotOptions {
   width?: number;
@@ -23,6 +24,16 @@ export interface ScreenshotOptions {
   autoSaveToIndexedDB?: boolean; // IndexedDBへの自動保存
 }
 
+/**
+ * スナップショット撮影時点のデータセット状況（前回スナップショットとの差分）
+ */
+export interface ScreenshotDatasetInfo {
+  companyCount: number;
+  addedCount: number;
+  removedCount: number;
+  updatedCount: number;
+}
+
 export interface AnalysisScreenshot {
   id: string;
   name: string;
@@ -32,6 +43,9 @@ export interface AnalysisScreenshot {
   height: number;
   timestamp: number;
   tabId: string;
+  annotations?: ScreenshotAnnotation[]; // 画像に焼き込まず保持する注釈
+  kind?: 'manual' | 'snapshot'; // 未指定は手動キャプチャ
+  dataset?: ScreenshotDatasetInfo; // スナップショットのみ
 }
 
 export class ScreenshotCaptureService {
@@ -157,7 +171,8 @@ export class ScreenshotCaptureService {
   static async captureSelectedAnalysisScreens(
     selectedTabIds: string[],
     onProgress?: (current: number, total: number, screenName: string) => void,
-    options: Partial<ScreenshotOptions> = {}
+    options: Partial<ScreenshotOptions> = {},
+    returnTabId = 'gallery'
   ): Promise<AnalysisScreenshot[]> {
     const screenshots: AnalysisScreenshot[] = [];
     
@@ -192,9 +207,9 @@ export class ScreenshotCaptureService {
       }
     }
 
-    // 撮影完了後は必ずギャラリータブに戻る
-    await this.switchToAnalysisTab('gallery');
-    await new Promise(resolve => setTimeout(resolve, 300)); // ギャラリータブの描画完了を待機
+    // 撮影完了後は指定タブ（既定はギャラリー）に戻る
+    await this.switchToAnalysisTab(returnTabId);
+    await new Promise(resolve => setTimeout(resolve, 300)); // 戻り先タブの描画完了を待機
 
     // IndexedDBへの一括自動保存
     if (options.autoSaveToIndexedDB && screenshots.length > 0) {
@@ -369,7 +384,7 @@ export class ScreenshotCaptureService {
   /**
    * 現在アクティブなタブを取得
    */
-  private static getCurrentActiveTab(): string | null {
+  static getCurrentActiveTab(): string | null {
     // アクティブなタブボタンを探す（通常はborder-blue-500クラスを持つ）
     const activeTabButton = document.querySelector('[data-tab-id].border-blue-500') as HTMLElement;
     if (activeTabButton) {
@@ -537,10 +552,11 @@ export class ScreenshotCaptureService {
    */
 
   /**
-   * スクリーンショットをBlob形式で取得
+   * スクリーンショットをBlob形式で取得（注釈は焼き込む）
    */
   static async screenshotToBlob(screenshot: AnalysisScreenshot): Promise<Blob> {
-    const response = await fetch(screenshot.dataUrl);
+    const flattened = await flattenAnnotations(screenshot);
+    const response = await fetch(flattened.dataUrl);
     return response.blob();
   }
 
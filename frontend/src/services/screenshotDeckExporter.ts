@@ -0,0 +1,290 @@
+/**
+ * スクリーンショットのスライド資料（PPTX）書き出し
+ * 選択した順にスクリーンショット1枚を1スライドとし、タイトル・説明・撮影日時を添える。
+ * PowerPointのOOXMLパッケージをJSZipで直接組み立てる
+ */
+
+import { saveAs } from 'file-saver';
+import type { AnalysisScreenshot } from './screenshotCapture';
+import { renderAnnotatedImage } from './screenshotAnnotation';
+
+export interface ScreenshotDeckOptions {
+  title: string;
+  includeCoverSlide: boolean;
+}
+
+// 16:9（EMU単位、1インチ = 914400）
+const SLIDE_WIDTH = 12192000;
+const SLIDE_HEIGHT = 6858000;
+const MARGIN = 457200;
+const CONTENT_WIDTH = SLIDE_WIDTH - MARGIN * 2;
+const TITLE_Y = 228600;
+const TITLE_HEIGHT = 609600;
+const IMAGE_Y = 914400;
+const IMAGE_HEIGHT = 4754880;
+const CAPTION_Y = IMAGE_Y + IMAGE_HEIGHT + 91440;
+const CAPTION_HEIGHT = SLIDE_HEIGHT - CAPTION_Y - 182880;
+
+const FONT = 'Meiryo';
+
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" '
+  + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" '
+  + 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml';
+
+// XML 1.0で使えない制御文字（タブ・改行以外）を除く
+const isXmlChar = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (value: string): string =>
+  Array.from(value)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const relationships = (items: Array<{ id: string; type: string; target: string }>): string =>
+  `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + items.map(item => `<Relationship Id="${item.id}" Type="${item.type}" Target="${item.target}"/>`).join('')
+  + '</Relationships>';
+
+const EMPTY_GROUP = '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>'
+  + '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+interface TextRun {
+  text: string;
+  size: number; // 1/100pt
+  color: string;
+  bold?: boolean;
+}
+
+const textBox = (
+  id: number,
+  name: string,
+  frame: { x: number; y: number; cx: number; cy: number },
+  paragraphs: TextRun[],
+  align: 'l' | 'ctr' = 'l'
+): string =>
+  `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>`
+  + `<p:spPr><a:xfrm><a:off x="${frame.x}" y="${frame.y}"/><a:ext cx="${frame.cx}" cy="${frame.cy}"/></a:xfrm>`
+  + '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr>'
+  + '<p:txBody><a:bodyPr wrap="square" rtlCol="0" anchor="t"><a:normAutofit/></a:bodyPr><a:lstStyle/>'
+  + paragraphs.map(run =>
+    `<a:p><a:pPr algn="${align}"/><a:r><a:rPr lang="ja-JP" sz="${run.size}"${run.bold ? ' b="1"' : ''} dirty="0">`
+    + `<a:solidFill><a:srgbClr val="${run.color}"/></a:solidFill><a:latin typeface="${FONT}"/><a:ea typeface="${FONT}"/></a:rPr>`
+    + `<a:t>${escapeXml(run.text)}</a:t></a:r></a:p>`
+  ).join('')
+  + '</p:txBody></p:sp>';
+
+const slideXml = (shapes: string): string =>
+  `${XML_HEADER}<p:sld ${NS}><p:cSld><p:spTree>${EMPTY_GROUP}${shapes}</p:spTree></p:cSld>`
+  + '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>';
+
+/**
+ * 画像を枠内に縦横比を保って収める
+ */
+export const fitImage = (
+  width: number,
+  height: number,
+  box: { x: number; y: number; cx: number; cy: number }
+): { x: number; y: number; cx: number; cy: number } => {
+  const scale = Math.min(box.cx / Math.max(width, 1), box.cy / Math.max(height, 1));
+  const cx = Math.round(width * scale);
+  const cy = Math.round(height * scale);
+  return { x: box.x + Math.round((box.cx - cx) / 2), y: box.y, cx, cy };
+};
+
+const formatCaptureTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('ja-JP');
+
+const screenshotSlide = (
+  screenshot: AnalysisScreenshot,
+  image: { width: number; height: number }
+): string => {
+  const frame = fitImage(image.width, image.height, { x: MARGIN, y: IMAGE_Y, cx: CONTENT_WIDTH, cy: IMAGE_HEIGHT });
+  const picture = '<p:pic><p:nvPicPr>'
+    + `<p:cNvPr id="3" name="Screenshot" descr="${escapeXml(screenshot.name)}"/>`
+    + '<p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>'
+    + '<p:blipFill><a:blip r:embed="rId2"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>'
+    + `<p:spPr><a:xfrm><a:off x="${frame.x}" y="${frame.y}"/><a:ext cx="${frame.cx}" cy="${frame.cy}"/></a:xfrm>`
+    + '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>'
+    + '<a:ln w="9525"><a:solidFill><a:srgbClr val="D1D5DB"/></a:solidFill></a:ln></p:spPr></p:pic>';
+
+  return slideXml(
+    textBox(2, 'Title', { x: MARGIN, y: TITLE_Y, cx: CONTENT_WIDTH, cy: TITLE_HEIGHT }, [
+      { text: screenshot.name, size: 2800, color: '1F2937', bold: true }
+    ])
+    + picture
+    + textBox(4, 'Caption', { x: MARGIN, y: CAPTION_Y, cx: CONTENT_WIDTH, cy: CAPTION_HEIGHT }, [
+      { text: screenshot.description, size: 1400, color: '374151' },
+      { text: `撮影日時: ${formatCaptureTime(screenshot.timestamp)}`, size: 1100, color: '6B7280' }
+    ])
+  );
+};
+
+const coverSlide = (title: string, slideCount: number, createdAt: Date): string =>
+  slideXml(
+    textBox(2, 'Title', { x: MARGIN, y: 2286000, cx: CONTENT_WIDTH, cy: 1143000 }, [
+      { text: title, size: 4000, color: '1F2937', bold: true }
+    ], 'ctr')
+    + textBox(3, 'Subtitle', { x: MARGIN, y: 3566160, cx: CONTENT_WIDTH, cy: 731520 }, [
+      { text: `${createdAt.toLocaleDateString('ja-JP')} ・ ${slideCount}枚`, size: 1800, color: '6B7280' }
+    ], 'ctr')
+  );
+
+const THEME_XML = `${XML_HEADER}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="MVV Analysis">`
+  + '<a:themeElements><a:clrScheme name="MVV Analysis">'
+  + '<a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1><a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>'
+  + '<a:dk2><a:srgbClr val="1F2937"/></a:dk2><a:lt2><a:srgbClr val="F3F4F6"/></a:lt2>'
+  + ['2563EB', '16A34A', 'F59E0B', 'DC2626', '7C3AED', '0891B2']
+    .map((color, index) => `<a:accent${index + 1}><a:srgbClr val="${color}"/></a:accent${index + 1}>`).join('')
+  + '<a:hlink><a:srgbClr val="2563EB"/></a:hlink><a:folHlink><a:srgbClr val="7C3AED"/></a:folHlink></a:clrScheme>'
+  + '<a:fontScheme name="MVV Analysis">'
+  + `<a:majorFont><a:latin typeface="${FONT}"/><a:ea typeface="${FONT}"/><a:cs typeface=""/></a:majorFont>`
+  + `<a:minorFont><a:latin typeface="${FONT}"/><a:ea typeface="${FONT}"/><a:cs typeface=""/></a:minorFont></a:fontScheme>`
+  + '<a:fmtScheme name="MVV Analysis">'
+  + `<a:fillStyleLst>${'<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3)}</a:fillStyleLst>`
+  + `<a:lnStyleLst>${'<a:ln w="9525"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>'.repeat(3)}</a:lnStyleLst>`
+  + `<a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst>`
+  + `<a:bgFillStyleLst>${'<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3)}</a:bgFillStyleLst>`
+  + '</a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>';
+
+const SLIDE_MASTER_XML = `${XML_HEADER}<p:sldMaster ${NS}>`
+  + `<p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${EMPTY_GROUP}</p:spTree></p:cSld>`
+  + '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" '
+  + 'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>'
+  + '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>'
+  + '<p:txStyles><p:titleStyle><a:lvl1pPr><a:defRPr sz="3200"/></a:lvl1pPr></p:titleStyle>'
+  + '<p:bodyStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:bodyStyle>'
+  + '<p:otherStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:otherStyle></p:txStyles></p:sldMaster>';
+
+const SLIDE_LAYOUT_XML = `${XML_HEADER}<p:sldLayout ${NS} type="blank" preserve="1">`
+  + `<p:cSld name="Blank"><p:spTree>${EMPTY_GROUP}</p:spTree></p:cSld>`
+  + '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>';
+
+const dataUrlToImage = (dataUrl: string): { base64: string; extension: 'png' | 'jpeg' } => {
+  const [header, base64] = dataUrl.split(',');
+  return { base64, extension: /image\/jpe?g/.test(header) ? 'jpeg' : 'png' };
+};
+
+export class ScreenshotDeckExporter {
+  /**
+   * スクリーンショットを指定順のスライドにしたPPTXを生成
+   */
+  static async buildPptx(screenshots: AnalysisScreenshot[], options: ScreenshotDeckOptions): Promise<Blob> {
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+    const createdAt = new Date();
+
+    const slides: string[] = [];
+    const slideRels: string[] = [];
+    const mediaExtensions = new Set<string>();
+    const layoutRel = { id: 'rId1', type: `${REL_TYPE}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' };
+
+    if (options.includeCoverSlide) {
+      slides.push(coverSlide(options.title, screenshots.length, createdAt));
+      slideRels.push(relationships([layoutRel]));
+    }
+
+    for (const [index, screenshot] of screenshots.entries()) {
+      // 注釈（墨消しを含む）は画像に焼き込んでから埋め込む
+      const rendered = await renderAnnotatedImage(screenshot);
+      const image = dataUrlToImage(rendered.dataUrl);
+      const mediaName = `image${index + 1}.${image.extension}`;
+      mediaExtensions.add(image.extension);
+      zip.file(`ppt/media/${mediaName}`, image.base64, { base64: true });
+
+      slides.push(screenshotSlide(screenshot, rendered));
+      slideRels.push(relationships([
+        layoutRel,
+        { id: 'rId2', type: `${REL_TYPE}/image`, target: `../media/${mediaName}` }
+      ]));
+    }
+
+    slides.forEach((slide, index) => {
+      zip.file(`ppt/slides/slide${index + 1}.xml`, slide);
+      zip.file(`ppt/slides/_rels/slide${index + 1}.xml.rels`, slideRels[index]);
+    });
+
+    zip.file('[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + [...mediaExtensions].map(extension => `<Default Extension="${extension}" ContentType="image/${extension}"/>`).join('')
+      + `<Override PartName="/ppt/presentation.xml" ContentType="${CONTENT_TYPE}.presentation.main+xml"/>`
+      + `<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="${CONTENT_TYPE}.slideMaster+xml"/>`
+      + `<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="${CONTENT_TYPE}.slideLayout+xml"/>`
+      + '<Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/>'
+      + `<Override PartName="/ppt/presProps.xml" ContentType="${CONTENT_TYPE}.presProps+xml"/>`
+      + `<Override PartName="/ppt/viewProps.xml" ContentType="${CONTENT_TYPE}.viewProps+xml"/>`
+      + `<Override PartName="/ppt/tableStyles.xml" ContentType="${CONTENT_TYPE}.tableStyles+xml"/>`
+      + slides.map((_, index) => `<Override PartName="/ppt/slides/slide${index + 1}.xml" ContentType="${CONTENT_TYPE}.slide+xml"/>`).join('')
+      + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+      + '<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>'
+      + '</Types>');
+
+    zip.file('_rels/.rels', relationships([
+      { id: 'rId1', type: `${REL_TYPE}/officeDocument`, target: 'ppt/presentation.xml' },
+      { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+      { id: 'rId3', type: `${REL_TYPE}/extended-properties`, target: 'docProps/app.xml' }
+    ]));
+
+    zip.file('docProps/core.xml', `${XML_HEADER}<cp:coreProperties `
+      + 'xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" '
+      + 'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" '
+      + 'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+      + `<dc:title>${escapeXml(options.title)}</dc:title>`
+      + `<dcterms:created xsi:type="dcterms:W3CDTF">${createdAt.toISOString()}</dcterms:created>`
+      + '</cp:coreProperties>');
+    zip.file('docProps/app.xml', `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">`
+      + `<Application>MVV Analysis</Application><Slides>${slides.length}</Slides></Properties>`);
+
+    // presentation.xml の関係IDは rId1 がマスター、rId2〜 がスライド、その後に付属パーツ
+    const extraRelStart = slides.length + 2;
+    zip.file('ppt/presentation.xml', `${XML_HEADER}<p:presentation ${NS} saveSubsetFonts="1">`
+      + '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>'
+      + `<p:sldIdLst>${slides.map((_, index) => `<p:sldId id="${256 + index}" r:id="rId${index + 2}"/>`).join('')}</p:sldIdLst>`
+      + `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="6858000" cy="9144000"/>`
+      + '</p:presentation>');
+    zip.file('ppt/_rels/presentation.xml.rels', relationships([
+      { id: 'rId1', type: `${REL_TYPE}/slideMaster`, target: 'slideMasters/slideMaster1.xml' },
+      ...slides.map((_, index) => ({ id: `rId${index + 2}`, type: `${REL_TYPE}/slide`, target: `slides/slide${index + 1}.xml` })),
+      { id: `rId${extraRelStart}`, type: `${REL_TYPE}/presProps`, target: 'presProps.xml' },
+      { id: `rId${extraRelStart + 1}`, type: `${REL_TYPE}/viewProps`, target: 'viewProps.xml' },
+      { id: `rId${extraRelStart + 2}`, type: `${REL_TYPE}/theme`, target: 'theme/theme1.xml' },
+      { id: `rId${extraRelStart + 3}`, type: `${REL_TYPE}/tableStyles`, target: 'tableStyles.xml' }
+    ]));
+
+    zip.file('ppt/presProps.xml', `${XML_HEADER}<p:presentationPr ${NS}/>`);
+    zip.file('ppt/viewProps.xml', `${XML_HEADER}<p:viewPr ${NS}/>`);
+    zip.file('ppt/tableStyles.xml', `${XML_HEADER}<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`);
+    zip.file('ppt/theme/theme1.xml', THEME_XML);
+    zip.file('ppt/slideMasters/slideMaster1.xml', SLIDE_MASTER_XML);
+    zip.file('ppt/slideMasters/_rels/slideMaster1.xml.rels', relationships([
+      { id: 'rId1', type: `${REL_TYPE}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+      { id: 'rId2', type: `${REL_TYPE}/theme`, target: '../theme/theme1.xml' }
+    ]));
+    zip.file('ppt/slideLayouts/slideLayout1.xml', SLIDE_LAYOUT_XML);
+    zip.file('ppt/slideLayouts/_rels/slideLayout1.xml.rels', relationships([
+      { id: 'rId1', type: `${REL_TYPE}/slideMaster`, target: '../slideMasters/slideMaster1.xml' }
+    ]));
+
+    return await zip.generateAsync({
+      type: 'blob',
+      mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+    });
+  }
+
+  /**
+   * PPTXを生成してダウンロード
+   */
+  static async exportToPptx(screenshots: AnalysisScreenshot[], options: ScreenshotDeckOptions): Promise<void> {
+    const blob = await this.buildPptx(screenshots, options);
+    saveAs(blob, `mvv_analysis_deck_${new Date().toISOString().split('T')[0]}.pptx`);
+  }
+}
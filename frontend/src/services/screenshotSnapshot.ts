@@ -0,0 +1,185 @@
+/**
+ * 分析画面の時系列スナップショット
+ * データセットが一定以上変化したときに設定済みの分析画面を撮影し、
+ * 画面（tabId）ごとの時系列としてIndexedDBに保存する
+ */
+
+import { CONSTANTS } from '../utils/constants';
+import { ScreenshotCaptureService, type AnalysisScreenshot, type ScreenshotDatasetInfo } from './screenshotCapture';
+import { ScreenshotStorageService } from './screenshotStorage';
+
+export interface SnapshotModeConfig {
+  enabled: boolean;
+  tabIds: string[];
+  minChangedCompanies: number;
+}
+
+/**
+ * 前回スナップショット時点の企業一覧（企業ID → 最終更新日時）
+ */
+interface SnapshotState {
+  companies: Record<string, string>;
+  capturedAt: number;
+}
+
+export interface SnapshotCompany {
+  id: string;
+  lastUpdated?: string;
+}
+
+const DEFAULT_SNAPSHOT_CONFIG: SnapshotModeConfig = {
+  enabled: false,
+  tabIds: [...CONSTANTS.SCREENSHOT_SNAPSHOT.DEFAULT_TAB_IDS],
+  minChangedCompanies: CONSTANTS.SCREENSHOT_SNAPSHOT.DEFAULT_MIN_CHANGED_COMPANIES
+};
+
+/**
+ * 前回スナップショットからの企業の追加・削除・更新件数
+ */
+export const diffDataset = (
+  companies: SnapshotCompany[],
+  previous: Record<string, string> | null
+): ScreenshotDatasetInfo => {
+  const current = new Set(companies.map(company => company.id));
+  const previousIds = previous ? Object.keys(previous) : [];
+
+  return {
+    companyCount: companies.length,
+    addedCount: companies.filter(company => !previous || !(company.id in previous)).length,
+    removedCount: previousIds.filter(id => !current.has(id)).length,
+    updatedCount: previous
+      ? companies.filter(company => company.id in previous && previous[company.id] !== (company.lastUpdated || '')).length
+      : 0
+  };
+};
+
+export const countChangedCompanies = (dataset: ScreenshotDatasetInfo): number =>
+  dataset.addedCount + dataset.removedCount + dataset.updatedCount;
+
+export class ScreenshotSnapshotService {
+  private static isCapturing = false;
+
+  static getConfig(): SnapshotModeConfig {
+    try {
+      const stored = localStorage.getItem(CONSTANTS.SCREENSHOT_SNAPSHOT.STORAGE_KEY);
+      return stored
+        ? { ...DEFAULT_SNAPSHOT_CONFIG, ...(JSON.parse(stored) as Partial<SnapshotModeConfig>) }
+        : DEFAULT_SNAPSHOT_CONFIG;
+    } catch (error) {
+      console.warn('Failed to load snapshot config:', error);
+      return DEFAULT_SNAPSHOT_CONFIG;
+    }
+  }
+
+  static saveConfig(config: Partial<SnapshotModeConfig>): SnapshotModeConfig {
+    const next: SnapshotModeConfig = {
+      ...this.getConfig(),
+      ...config
+    };
+    next.minChangedCompanies = Math.max(1, Math.round(next.minChangedCompanies));
+
+    try {
+      localStorage.setItem(CONSTANTS.SCREENSHOT_SNAPSHOT.STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.warn('Failed to save snapshot config:', error);
+    }
+    return next;
+  }
+
+  /**
+   * 前回スナップショットとの差分（一度も撮影していなければ全件が追加扱い）
+   */
+  static getPendingChanges(companies: SnapshotCompany[]): ScreenshotDatasetInfo {
+    return diffDataset(companies, this.loadState()?.companies ?? null);
+  }
+
+  /**
+   * スナップショットモードが有効で、データセットが十分に変化していれば撮影する
+   * @returns 保存したスナップショット（撮影しなかった場合はnull）
+   */
+  static async captureIfChanged(
+    companies: SnapshotCompany[],
+    onProgress?: (current: number, total: number, screenName: string) => void
+  ): Promise<AnalysisScreenshot[] | null> {
+    const config = this.getConfig();
+    if (!config.enabled || this.isCapturing || companies.length === 0) return null;
+
+    const state = this.loadState();
+    const changes = diffDataset(companies, state?.companies ?? null);
+    // 初回は比較の起点となるスナップショットを必ず撮る
+    if (state && countChangedCompanies(changes) < config.minChangedCompanies) return null;
+
+    console.log(`📸 データセットの変化を検知: +${changes.addedCount} -${changes.removedCount} ~${changes.updatedCount}`);
+    return this.captureSnapshots(companies, onProgress);
+  }
+
+  /**
+   * 設定済みの分析画面を撮影してスナップショットとして保存する
+   */
+  static async captureSnapshots(
+    companies: SnapshotCompany[],
+    onProgress?: (current: number, total: number, screenName: string) => void
+  ): Promise<AnalysisScreenshot[]> {
+    if (this.isCapturing) {
+      throw new Error('スナップショットを撮影中です');
+    }
+
+    const config = this.getConfig();
+    this.isCapturing = true;
+    try {
+      const dataset = this.getPendingChanges(companies);
+      const returnTabId = ScreenshotCaptureService.getCurrentActiveTab() || 'gallery';
+      const captured = await ScreenshotCaptureService.captureSelectedAnalysisScreens(
+        config.tabIds,
+        onProgress,
+        {
+          width: 1400,
+          height: 900,
+          quality: 0.95,
+          scale: 1.5,
+          optimizeForExcel: true
+        },
+        returnTabId
+      );
+
+      const snapshots: AnalysisScreenshot[] = captured.map(screenshot => ({
+        ...screenshot,
+        id: `snapshot_${screenshot.tabId}_${screenshot.timestamp}`,
+        kind: 'snapshot',
+        dataset
+      }));
+
+      if (snapshots.length > 0) {
+        await ScreenshotStorageService.saveSnapshots(snapshots);
+        this.saveState(companies);
+      }
+
+      return snapshots;
+    } finally {
+      this.isCapturing = false;
+    }
+  }
+
+  private static loadState(): SnapshotState | null {
+    try {
+      const stored = localStorage.getItem(CONSTANTS.SCREENSHOT_SNAPSHOT.STATE_STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as SnapshotState) : null;
+    } catch (error) {
+      console.warn('Failed to load snapshot state:', error);
+      return null;
+    }
+  }
+
+  private static saveState(companies: SnapshotCompany[]): void {
+    const state: SnapshotState = {
+      companies: Object.fromEntries(companies.map(company => [company.id, company.lastUpdated || ''])),
+      capturedAt: Date.now()
+    };
+
+    try {
+      localStorage.setItem(CONSTANTS.SCREENSHOT_SNAPSHOT.STATE_STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.warn('Failed to save snapshot state:', error);
+    }
+  }
+}
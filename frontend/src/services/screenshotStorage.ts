@@ -3,7 +3,8 @@
  * スクリーンショットデータの永続化と高効率管理
  */
 
-import type { AnalysisScreenshot } from './screenshotCapture';
+import type { AnalysisScreenshot, ScreenshotDatasetInfo } from './screenshotCapture';
+import type { ScreenshotAnnotation } from './screenshotAnnotation';
 
 interface ScreenshotMetadata {
   id: string;
@@ -14,12 +15,15 @@ interface ScreenshotMetadata {
   width: number;
   height: number;
   size: number; // データサイズ（bytes）
+  kind?: 'manual' | 'snapshot';
+  dataset?: ScreenshotDatasetInfo;
 }
 
 interface ScreenshotData {
   id: string;
   dataUrl: string;
   metadata: ScreenshotMetadata;
+  annotations?: ScreenshotAnnotation[];
 }
 
 type StorageEventListener = (screenshots: AnalysisScreenshot[]) => void;
@@ -29,7 +33,8 @@ export class ScreenshotStorageService {
   private static readonly DB_VERSION = 2; // セッション管理削除のためバージョンアップ
   private static readonly STORE_NAME = 'screenshots';
   private static readonly METADATA_STORE = 'metadata';
-  private static readonly MAX_SCREENSHOTS = 50; // 最大保存数
+  private static readonly MAX_SCREENSHOTS = 50; // 手動キャプチャの最大保存数
+  private static readonly MAX_SNAPSHOTS_PER_TAB = 20; // スナップショットの画面別最大保存数
   
   private static db: IDBDatabase | null = null;
   private static listeners: Set<StorageEventListener> = new Set();
@@ -87,13 +92,16 @@ export class ScreenshotStorageService {
       tabId: screenshot.tabId,
       width: screenshot.width,
       height: screenshot.height,
-      size: screenshot.dataUrl.length * 0.75 // Base64サイズ概算
+      size: screenshot.dataUrl.length * 0.75, // Base64サイズ概算
+      kind: screenshot.kind || 'manual',
+      dataset: screenshot.dataset
     };
 
     const data: ScreenshotData = {
       id: screenshot.id,
       dataUrl: screenshot.dataUrl,
-      metadata
+      metadata,
+      annotations: screenshot.annotations
     };
 
     return new Promise((resolve, reject) => {
@@ -137,6 +145,16 @@ export class ScreenshotStorageService {
     console.log(`📦 Bulk saved ${screenshots.length} screenshots to IndexedDB`);
   }
 
+  /**
+   * スナップショットを保存し、画面ごとの保存数を上限内に保つ
+   */
+  static async saveSnapshots(snapshots: AnalysisScreenshot[]): Promise<void> {
+    await Promise.all(snapshots.map(snapshot => this.saveScreenshot({ ...snapshot, kind: 'snapshot' })));
+    await this.cleanupOldSnapshots();
+
+    console.log(`📦 Saved ${snapshots.length} snapshots to IndexedDB`);
+  }
+
 
   /**
    * すべてのスクリーンショットを取得（時系列順）
@@ -162,7 +180,10 @@ export class ScreenshotStorageService {
             width: data.metadata.width,
             height: data.metadata.height,
             timestamp: data.metadata.timestamp,
-            tabId: data.metadata.tabId
+            tabId: data.metadata.tabId,
+            annotations: data.annotations || [],
+            kind: data.metadata.kind || 'manual',
+            dataset: data.metadata.dataset
           }));
 
         resolve(screenshots);
@@ -174,6 +195,40 @@ export class ScreenshotStorageService {
     });
   }
 
+  /**
+   * スクリーンショットの注釈を更新（画像データは変更しない）
+   */
+  static async updateAnnotations(id: string, annotations: ScreenshotAnnotation[]): Promise<void> {
+    await this.initialize();
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(this.STORE_NAME);
+      const request = store.get(id);
+
+      request.onsuccess = () => {
+        const data = request.result as ScreenshotData | undefined;
+        if (!data) {
+          transaction.abort();
+          reject(new Error(`Screenshot not found: ${id}`));
+          return;
+        }
+        store.put({ ...data, annotations });
+      };
+
+      transaction.oncomplete = () => {
+        console.log(`✏️ Screenshot annotations updated: ${id} (${annotations.length})`);
+        this.notifyListeners();
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        reject(transaction.error);
+      };
+    });
+  }
+
   /**
    * スクリーンショットを削除
    */
@@ -203,10 +258,10 @@ export class ScreenshotStorageService {
   }
 
   /**
-   * すべてのスクリーンショットを削除
+   * すべてのスクリーンショットを削除（種類を指定した場合はその種類のみ）
    */
-  static async clearAllScreenshots(): Promise<void> {
-    const screenshots = await this.getScreenshots();
+  static async clearAllScreenshots(kind?: 'manual' | 'snapshot'): Promise<void> {
+    const screenshots = (await this.getScreenshots()).filter(screenshot => !kind || screenshot.kind === kind);
     const promises = screenshots.map(screenshot => this.deleteScreenshot(screenshot.id));
     await Promise.all(promises);
     console.log(`🧹 Cleared ${screenshots.length} screenshots from storage`);
@@ -219,7 +274,8 @@ export class ScreenshotStorageService {
     await this.initialize();
     if (!this.db) return;
 
-    const allScreenshots = await this.getScreenshots();
+    // スナップショットは時系列として別枠で管理する
+    const allScreenshots = (await this.getScreenshots()).filter(screenshot => screenshot.kind !== 'snapshot');
     
     if (allScreenshots.length <= this.MAX_SCREENSHOTS) return;
 
@@ -234,6 +290,26 @@ export class ScreenshotStorageService {
     console.log(`🧹 Cleaned up ${toDelete.length} old screenshots`);
   }
 
+  /**
+   * 古いスナップショットのクリーンアップ（画面ごとに新しいものから上限数を残す）
+   */
+  static async cleanupOldSnapshots(): Promise<void> {
+    // getScreenshotsは新しい順
+    const snapshots = (await this.getScreenshots()).filter(screenshot => screenshot.kind === 'snapshot');
+    const keptByTab: Record<string, number> = {};
+    const toDelete = snapshots
+      .filter(snapshot => {
+        keptByTab[snapshot.tabId] = (keptByTab[snapshot.tabId] || 0) + 1;
+        return keptByTab[snapshot.tabId] > this.MAX_SNAPSHOTS_PER_TAB;
+      })
+      .map(snapshot => snapshot.id);
+
+    if (toDelete.length === 0) return;
+
+    await Promise.all(toDelete.map(id => this.deleteScreenshot(id)));
+    console.log(`🧹 Cleaned up ${toDelete.length} old snapshots`);
+  }
+
   /**
    * ストレージ使用量を取得
    */
@@ -261,7 +337,7 @@ export class ScreenshotStorageService {
   }
 
   /**
-   * TabID別のスクリーンショット数を効率的に取得
+   * TabID別のスクリーンショット数を効率的に取得（手動キャプチャのみ）
    */
   static async getScreenshotCountsByTabId(): Promise<Record<string, number>> {
     await this.initialize();
@@ -281,7 +357,9 @@ export class ScreenshotStorageService {
         const cursor = (event.target as IDBRequest).result;
         if (cursor) {
           const tabId = cursor.key as string;
-          counts[tabId] = (counts[tabId] || 0) + 1;
+          if ((cursor.value as ScreenshotData).metadata.kind !== 'snapshot') {
+            counts[tabId] = (counts[tabId] || 0) + 1;
+          }
           cursor.continue();
         } else {
           // カーソル完了
@@ -296,19 +374,21 @@ export class ScreenshotStorageService {
   }
 
   /**
-   * 総スクリーンショット数を効率的に取得
+   * 総スクリーンショット数を効率的に取得（手動キャプチャのみ）
    */
   static async getTotalScreenshotCount(): Promise<number> {
     await this.initialize();
     if (!this.db) return 0;
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.STORE_NAME], 'readonly');
-      const store = transaction.objectStore(this.STORE_NAME);
-      const countRequest = store.count();
+      // メタデータストアには画像データが無いため軽量に数えられる
+      const transaction = this.db!.transaction([this.METADATA_STORE], 'readonly');
+      const store = transaction.objectStore(this.METADATA_STORE);
+      const countRequest = store.getAll();
 
       countRequest.onsuccess = () => {
-        resolve(countRequest.result);
+        const metadata = countRequest.result as ScreenshotMetadata[];
+        resolve(metadata.filter(meta => meta.kind !== 'snapshot').length);
       };
 
       countRequest.onerror = () => {
@@ -0,0 +1,477 @@
+/**
+ * 形態素解析辞書サービス
+ * 業種プロファイル（複合語・ストップワード・重要語）をIndexedDBに保存し、
+ * 同期的に参照できるようメモリ上に保持する。汎用プロファイルは全プロファイルに合成される
+ */
+
+import { db } from './storage';
+import type {
+  ResolvedSegmentationProfile,
+  SegmentationDictionaryField,
+  SegmentationProfile
+} from '../types/segmentation';
+
+export const GENERAL_PROFILE_ID = 'general';
+export const AUTO_PROFILE_ID = 'auto';
+
+// 他タブ・分析ワーカーへの変更通知用
+const CHANNEL_NAME = 'mvv-segmentation-dictionary';
+
+type DefaultProfile = Omit<SegmentationProfile, 'builtIn' | 'createdAt' | 'updatedAt'>;
+
+const DEFAULT_PROFILES: DefaultProfile[] = [
+  {
+    id: GENERAL_PROFILE_ID,
+    name: '汎用（全業種共通）',
+    description: '全てのプロファイルに共通して適用される辞書',
+    jsicMajorNames: [],
+    compounds: [
+      // 社会・環境
+      '社会課題', '社会貢献', '社会責任', '社会価値', '社会問題', '社会保障', '社会保険', '社会福祉', '社会制度',
+      '持続可能', '地球環境', '環境保護', '環境配慮', '環境負荷', '循環型社会', '脱炭素', '温室効果', '生物多様性',
+      // ビジネス・経営
+      '顧客満足', '顧客中心', '顧客価値', '顧客体験', '顧客志向', '顧客第一', '顧客サービス', '顧客関係', '顧客基盤',
+      '品質管理', '品質向上', '品質改善', '品質保証', '品質第一', '経済発展', '経済成長', '経済効率',
+      '事業展開', '事業拡大', '事業戦略', '企業価値', '企業成長', '企業文化', '企業理念',
+      // 組織・人材
+      '人材育成', '人材開発', '働き方改革', 'ワークライフバランス', 'ダイバーシティ', '女性活躍',
+      '高齢化社会', '少子高齢化', '労働力不足', '生産性向上', '業務効率',
+      // 国際・グローバル
+      'グローバル企業', 'グローバル展開', '国際協力', '国際貢献', '国際標準', '持続可能な開発',
+      'SDGs', 'ESG経営', 'コーポレートガバナンス', 'ステークホルダー'
+    ],
+    stopWords: [
+      'の', 'は', 'を', 'が', 'に', 'で', 'と', 'も', 'から', 'まで', 'より',
+      'こと', 'もの', 'これ', 'それ', 'あれ', 'この', 'その', 'あの', 'ため', 'など',
+      'です', 'ます', 'である', 'によって', 'について', 'において', 'により', 'として',
+      'という', 'といった', 'なお', 'また', 'さらに', 'ただし', 'しかし', 'そして', 'そのため',
+      'て', 'た', 'だ', 'し', 'り', 'れ', 'る', 'ら', 'か', 'や', 'ば', 'ね', 'な', 'よ', 'へ',
+      'では', 'とき', 'ところ', 'による', 'した', 'して', 'する', 'され', 'させ', 'られ',
+      'いる', 'ある', 'なる', 'やっ', 'いっ', 'どの', 'すべて', 'わたし', 'わたくし', 'あなた'
+    ],
+    importantTerms: [
+      '社会課題', '社会貢献', '社会責任', '社会価値', '持続可能', '地球環境', '環境保護',
+      '顧客満足', '品質管理', '高い品質', '企業価値', 'グローバル企業', '高齢社会', '生活の質',
+      '社会', '貢献', '価値', '品質', '技術', '革新', '創造', '発展', '成長', '向上',
+      '安全', '信頼', '責任', '持続', '環境', '未来', '世界', '地域', '人々', '顧客',
+      'サービス', '製品', '事業', '企業', '組織', 'チーム', '協力', '連携', '推進',
+      'イノベーション', 'グローバル', 'リーダー', 'パートナー', 'ソリューション',
+      '生活', '課題', '解決', '実現', '提供', '商品', '豊か', '使命', '尊重', '誠実', '支援', '改善',
+      '国際', '地球', '先進', '創出', 'エネルギー', 'インフラ', 'ブランド', '消費者'
+    ]
+  },
+  {
+    id: 'healthcare',
+    name: '医療・ヘルスケア',
+    jsicMajorNames: ['医療，福祉'],
+    compounds: [
+      '医療従事者', '患者中心', '患者安全', '患者満足', '医療技術', '医療機器', '医療サービス', '医療システム',
+      '医療情報', '医療費', '予防医学', '在宅医療', '地域医療', '高度医療',
+      '健康寿命', '健康管理', '健康増進', '健康維持', '健康指導', '生活習慣', '疾病予防', '早期発見',
+      '早期治療', '診断技術', '治療方法', '治療効果', '副作用', '安全性'
+    ],
+    stopWords: [],
+    importantTerms: [
+      '医療従事者', '患者中心', '患者様', 'ヘルスケア', '医療技術', '人々の健康', '健康寿命', '医療情報', '医療コスト',
+      '医療', '健康', '患者', '福祉', 'ケア', 'いのち', '生命', '命', '治療', '診断', '予防', '看護', '介護'
+    ]
+  },
+  {
+    id: 'technology',
+    name: '技術・IT',
+    jsicMajorNames: ['情報通信業', '学術研究，専門・技術サービス業'],
+    compounds: [
+      '次世代技術', '人工知能', '機械学習', '深層学習', '自然言語処理', '画像認識', '音声認識', 'IoT技術',
+      'クラウド技術', 'ブロックチェーン', '量子コンピュータ',
+      'デジタルトランスフォーメーション', 'デジタル化', 'デジタル技術', '情報技術', '情報システム',
+      'データ分析', 'ビッグデータ', 'データサイエンス', 'サイバーセキュリティ', '情報セキュリティ'
+    ],
+    stopWords: [],
+    importantTerms: [
+      '次世代技術', '人工知能', 'デジタルトランスフォーメーション', '情報インフラ',
+      'AI', 'DX', 'デジタル', 'データ', 'テクノロジー', 'システム', 'プラットフォーム',
+      'クラウド', 'IoT', 'ネットワーク', 'セキュリティ', 'インフラ'
+    ]
+  },
+  {
+    id: 'manufacturing',
+    name: '製造業',
+    jsicMajorNames: ['製造業'],
+    compounds: [
+      'ものづくり', '生産技術', '製造技術', '生産性向上', '品質保証', 'サプライチェーン', '安定供給',
+      '省エネルギー', 'カーボンニュートラル', '技術革新', '研究開発', '素材開発', '製品開発', '安全第一'
+    ],
+    stopWords: [],
+    importantTerms: ['ものづくり', '製造', '生産', '工場', '製品', '素材', '加工', '開発', '供給']
+  },
+  {
+    id: 'finance',
+    name: '金融・保険',
+    jsicMajorNames: ['金融業，保険業'],
+    compounds: [
+      '金融サービス', '資産運用', '資産形成', '金融包摂', '顧客本位', 'リスク管理', '地域経済',
+      '地域金融', '資本市場', '決済サービス', '安心安全', '金融仲介'
+    ],
+    stopWords: [],
+    importantTerms: ['金融', '保険', '資産', '投資', 'ファイナンス', '安心', '地域経済', 'リスク', '決済', '顧客本位']
+  }
+];
+
+type DictionaryListener = () => void;
+
+/**
+ * 選択値（'auto' またはプロファイルID）と企業カテゴリーから適用プロファイルIDを決定
+ * 自動選択で該当する大分類が無い場合・存在しないIDの場合は汎用プロファイル
+ */
+export function resolveProfileIdFromProfiles(
+  profiles: SegmentationProfile[],
+  selection: string,
+  category?: string | null
+): string {
+  if (selection === AUTO_PROFILE_ID) {
+    const matched = category ? profiles.find(profile => profile.jsicMajorNames.includes(category)) : undefined;
+    return matched?.id ?? GENERAL_PROFILE_ID;
+  }
+  return profiles.some(profile => profile.id === selection) ? selection : GENERAL_PROFILE_ID;
+}
+
+const uniqueTerms = (terms: string[]): string[] =>
+  [...new Set(terms.map(term => term.trim()).filter(term => term.length > 0))];
+
+const createDefaultProfile = (profile: DefaultProfile, now: number): SegmentationProfile => ({
+  ...profile,
+  jsicMajorNames: [...profile.jsicMajorNames],
+  compounds: [...profile.compounds],
+  stopWords: [...profile.stopWords],
+  importantTerms: [...profile.importantTerms],
+  builtIn: true,
+  createdAt: now,
+  updatedAt: now
+});
+
+class SegmentationDictionaryService {
+  private profiles = new Map<string, SegmentationProfile>();
+  private resolvedCache = new Map<string, ResolvedSegmentationProfile>();
+  private sortedProfiles: SegmentationProfile[] | null = null;
+  private rejectedCompounds = new Set<string>();
+  private listeners = new Set<DictionaryListener>();
+  private channel: BroadcastChannel | null = null;
+  private loading: Promise<void> | null = null;
+  private version = 0;
+
+  constructor() {
+    // IndexedDBの読み込み完了前でも解析できるよう初期プロファイルを保持しておく
+    const now = Date.now();
+    DEFAULT_PROFILES.forEach(profile => {
+      this.profiles.set(profile.id, createDefaultProfile(profile, now));
+    });
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = () => {
+        void this.reload();
+      };
+    }
+
+    if (typeof indexedDB !== 'undefined') {
+      void this.load();
+    }
+  }
+
+  /**
+   * IndexedDBからプロファイルを読み込む（初回は初期プロファイルを保存）
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.reload();
+    }
+    return this.loading;
+  }
+
+  private async reload(): Promise<void> {
+    try {
+      let stored = await db.segmentationProfiles.toArray();
+
+      // 新しく追加された初期プロファイルを補完
+      const storedIds = new Set(stored.map(profile => profile.id));
+      const missingDefaults = DEFAULT_PROFILES
+        .filter(profile => !storedIds.has(profile.id))
+        .map(profile => createDefaultProfile(profile, Date.now()));
+      if (missingDefaults.length > 0) {
+        await db.segmentationProfiles.bulkPut(missingDefaults);
+        stored = [...stored, ...missingDefaults];
+      }
+
+      const rejected = await db.rejectedCompoundTerms.toArray();
+
+      this.profiles = new Map(stored.map(profile => [profile.id, profile]));
+      this.rejectedCompounds = new Set(rejected.map(item => item.term));
+      this.notify();
+    } catch (error) {
+      console.error('Failed to load segmentation dictionary:', error);
+    }
+  }
+
+  /**
+   * 変更検知用のバージョン（useMemoの依存に使う）
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * 初期プロファイル（汎用が先頭）→ ユーザー作成の順（辞書更新まで同じ配列を返す）
+   */
+  getProfiles(): SegmentationProfile[] {
+    if (!this.sortedProfiles) {
+      this.sortedProfiles = Array.from(this.profiles.values()).sort((a, b) => {
+        if (a.builtIn !== b.builtIn) return a.builtIn ? -1 : 1;
+        if (a.builtIn) {
+          return DEFAULT_PROFILES.findIndex(item => item.id === a.id) - DEFAULT_PROFILES.findIndex(item => item.id === b.id);
+        }
+        return a.createdAt - b.createdAt;
+      });
+    }
+    return this.sortedProfiles;
+  }
+
+  getProfile(profileId: string): SegmentationProfile | undefined {
+    return this.profiles.get(profileId);
+  }
+
+  /**
+   * JSIC大分類名（企業カテゴリー）に対応するプロファイルIDを返す
+   */
+  getProfileIdForCategory(category?: string | null): string {
+    return resolveProfileIdFromProfiles(this.getProfiles(), AUTO_PROFILE_ID, category);
+  }
+
+  /**
+   * 選択値（'auto' またはプロファイルID）と企業カテゴリーから適用プロファイルIDを決定
+   */
+  resolveProfileId(selection: string, category?: string | null): string {
+    return resolveProfileIdFromProfiles(this.getProfiles(), selection, category);
+  }
+
+  /**
+   * 汎用プロファイルを合成した辞書を返す
+   */
+  getResolvedProfile(profileId: string = GENERAL_PROFILE_ID): ResolvedSegmentationProfile {
+    const cached = this.resolvedCache.get(profileId);
+    if (cached) return cached;
+
+    const general = this.profiles.get(GENERAL_PROFILE_ID);
+    const profile = this.profiles.get(profileId) ?? general;
+    const layers = [general, profile !== general ? profile : undefined]
+      .filter((layer): layer is SegmentationProfile => !!layer);
+
+    const resolved: ResolvedSegmentationProfile = {
+      id: profile?.id ?? GENERAL_PROFILE_ID,
+      name: profile?.name ?? '汎用',
+      compounds: uniqueTerms(layers.flatMap(layer => layer.compounds))
+        .sort((a, b) => b.length - a.length),
+      stopWords: new Set(uniqueTerms(layers.flatMap(layer => layer.stopWords))),
+      importantTerms: new Set(uniqueTerms(layers.flatMap(layer => layer.importantTerms)))
+    };
+
+    this.resolvedCache.set(profileId, resolved);
+    return resolved;
+  }
+
+  async createProfile(input: {
+    name: string;
+    description?: string;
+    jsicMajorNames?: string[];
+    copyFromId?: string;
+  }): Promise<SegmentationProfile> {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('プロファイル名を入力してください');
+    }
+
+    const source = input.copyFromId ? this.profiles.get(input.copyFromId) : undefined;
+    const now = Date.now();
+    const profile: SegmentationProfile = {
+      id: `profile_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      description: input.description?.trim() || undefined,
+      jsicMajorNames: [],
+      compounds: source && source.id !== GENERAL_PROFILE_ID ? [...source.compounds] : [],
+      stopWords: source && source.id !== GENERAL_PROFILE_ID ? [...source.stopWords] : [],
+      importantTerms: source && source.id !== GENERAL_PROFILE_ID ? [...source.importantTerms] : [],
+      builtIn: false,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.save(profile);
+    if (input.jsicMajorNames?.length) {
+      return this.setJsicMajorNames(profile.id, input.jsicMajorNames);
+    }
+    return profile;
+  }
+
+  async updateProfile(
+    profileId: string,
+    updates: Partial<Pick<SegmentationProfile, 'name' | 'description'>>
+  ): Promise<SegmentationProfile> {
+    const profile = this.requireProfile(profileId);
+    const name = updates.name !== undefined ? updates.name.trim() : profile.name;
+    if (!name) {
+      throw new Error('プロファイル名を入力してください');
+    }
+
+    const updated: SegmentationProfile = {
+      ...profile,
+      name,
+      description: updates.description !== undefined ? updates.description.trim() || undefined : profile.description,
+      updatedAt: Date.now()
+    };
+    await this.save(updated);
+    return updated;
+  }
+
+  /**
+   * 自動選択の対象となるJSIC大分類を設定
+   * 1つの大分類は1つのプロファイルにのみ割り当てる（他プロファイルからは外す）
+   */
+  async setJsicMajorNames(profileId: string, jsicMajorNames: string[]): Promise<SegmentationProfile> {
+    const profile = this.requireProfile(profileId);
+    if (profile.id === GENERAL_PROFILE_ID) {
+      throw new Error('汎用プロファイルには業種を割り当てられません');
+    }
+
+    const assigned = uniqueTerms(jsicMajorNames);
+    const now = Date.now();
+    const changed: SegmentationProfile[] = [];
+
+    this.profiles.forEach(other => {
+      if (other.id === profileId) return;
+      const remaining = other.jsicMajorNames.filter(name => !assigned.includes(name));
+      if (remaining.length !== other.jsicMajorNames.length) {
+        changed.push({ ...other, jsicMajorNames: remaining, updatedAt: now });
+      }
+    });
+
+    const updated: SegmentationProfile = { ...profile, jsicMajorNames: assigned, updatedAt: now };
+    changed.push(updated);
+
+    await db.segmentationProfiles.bulkPut(changed);
+    changed.forEach(item => this.profiles.set(item.id, item));
+    this.handleChanged();
+    return updated;
+  }
+
+  async addTerms(profileId: string, field: SegmentationDictionaryField, terms: string[]): Promise<SegmentationProfile> {
+    const profile = this.requireProfile(profileId);
+    const updated: SegmentationProfile = {
+      ...profile,
+      [field]: uniqueTerms([...profile[field], ...terms]),
+      updatedAt: Date.now()
+    };
+    await this.save(updated);
+    return updated;
+  }
+
+  async removeTerm(profileId: string, field: SegmentationDictionaryField, term: string): Promise<SegmentationProfile> {
+    const profile = this.requireProfile(profileId);
+    const updated: SegmentationProfile = {
+      ...profile,
+      [field]: profile[field].filter(existing => existing !== term),
+      updatedAt: Date.now()
+    };
+    await this.save(updated);
+    return updated;
+  }
+
+  async deleteProfile(profileId: string): Promise<void> {
+    const profile = this.requireProfile(profileId);
+    if (profile.builtIn) {
+      throw new Error('初期プロファイルは削除できません');
+    }
+
+    await db.segmentationProfiles.delete(profileId);
+    this.profiles.delete(profileId);
+    this.handleChanged();
+  }
+
+  /**
+   * 初期プロファイルを既定の内容に戻す
+   */
+  async resetProfile(profileId: string): Promise<SegmentationProfile> {
+    const profile = this.requireProfile(profileId);
+    const defaults = DEFAULT_PROFILES.find(item => item.id === profileId);
+    if (!profile.builtIn || !defaults) {
+      throw new Error('初期プロファイルのみリセットできます');
+    }
+
+    const reset = { ...createDefaultProfile(defaults, Date.now()), createdAt: profile.createdAt };
+    await this.save(reset);
+    // 既定の業種割り当ても復元する
+    return defaults.jsicMajorNames.length > 0
+      ? this.setJsicMajorNames(profileId, defaults.jsicMajorNames)
+      : reset;
+  }
+
+  /**
+   * 自動検出で却下した複合語候補
+   */
+  getRejectedCompounds(): Set<string> {
+    return this.rejectedCompounds;
+  }
+
+  async rejectCompound(term: string): Promise<void> {
+    await db.rejectedCompoundTerms.put({ term, rejectedAt: Date.now() });
+    this.rejectedCompounds = new Set(this.rejectedCompounds).add(term);
+    this.handleChanged();
+  }
+
+  async restoreRejectedCompound(term: string): Promise<void> {
+    await db.rejectedCompoundTerms.delete(term);
+    const next = new Set(this.rejectedCompounds);
+    next.delete(term);
+    this.rejectedCompounds = next;
+    this.handleChanged();
+  }
+
+  subscribe(listener: DictionaryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private requireProfile(profileId: string): SegmentationProfile {
+    const profile = this.profiles.get(profileId);
+    if (!profile) {
+      throw new Error(`プロファイルが見つかりません: ${profileId}`);
+    }
+    return profile;
+  }
+
+  private async save(profile: SegmentationProfile): Promise<void> {
+    await db.segmentationProfiles.put(profile);
+    this.profiles.set(profile.id, profile);
+    this.handleChanged();
+  }
+
+  private handleChanged(): void {
+    this.notify();
+    this.channel?.postMessage({ type: 'changed' });
+  }
+
+  private notify(): void {
+    this.version++;
+    this.resolvedCache.clear();
+    this.sortedProfiles = null;
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Segmentation dictionary listener error:', error);
+      }
+    });
+  }
+}
+
+export const segmentationDictionary = new SegmentationDictionaryService();
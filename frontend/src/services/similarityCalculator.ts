@@ -4,9 +4,13 @@
  * Combines embeddings similarity with morphological text analysis
  */
 
-import type { Company } from '../types';
+import type { Company, CompanyFieldEmbeddings } from '../types';
+import type { MVVField } from './mvvFieldEmbeddings';
 import { similarityCache } from './similarityCache';
 import { enhancedSegmentationService } from './enhancedSegmentationService';
+import { segmentationDictionary } from './segmentationDictionary';
+import { embeddingsIndex } from './embeddingsIndex';
+import { CONSTANTS } from '../utils/constants';
 
 export interface SimilarityResult {
   companyA: Company;
@@ -25,6 +29,17 @@ export interface CompanyWithSimilarity {
   similarity: number;
 }
 
+/**
+ * Field used for per-field comparison ('valueItems' compares individual value items)
+ */
+export type FieldComparisonTarget = MVVField | 'valueItems';
+
+export interface FieldSimilarityMatch<T> {
+  company: T;
+  similarity: number;
+  matchedValue?: { source: string; target: string }; // best matching value item pair
+}
+
 export class SimilarityCalculator {
   /**
    * Calculate cosine similarity between two embedding vectors
@@ -63,6 +78,8 @@ export class SimilarityCalculator {
    * - "医療従事者" being split into "医療" + "従事" + "者"
    * 
    * Now preserves meaningful compound words for better semantic similarity calculation.
+   * Compounds, stop words and important terms come from the user-editable dictionary profile
+   * selected by each company's JSIC major category.
    */
   public static calculateTextSimilarity(companyA: Company | any, companyB: Company | any): number {
     // Extract text from MVV data
@@ -73,54 +90,32 @@ export class SimilarityCalculator {
     
     if (!textA || !textB) return 0;
 
-    // Enhanced segmentation with compound word preservation
+    // Enhanced segmentation with the dictionary profile of each company's JSIC major category
+    const profileA = segmentationDictionary.getResolvedProfile(
+      segmentationDictionary.getProfileIdForCategory(companyA.category)
+    );
+    const profileB = segmentationDictionary.getResolvedProfile(
+      segmentationDictionary.getProfileIdForCategory(companyB.category)
+    );
     const resultA = enhancedSegmentationService.segmentWithCompounds(textA, {
       preserveCompounds: true,
       enableCustomRules: true,
-      industryFocus: 'healthcare' // Focus on healthcare industry for better compound detection
+      profileId: profileA.id
     });
     const resultB = enhancedSegmentationService.segmentWithCompounds(textB, {
       preserveCompounds: true,
       enableCustomRules: true,
-      industryFocus: 'healthcare'
+      profileId: profileB.id
     });
     
     const segmentsA = resultA.segments;
     const segmentsB = resultB.segments;
 
-    // Define important terms and stop words (now including compound words that are preserved)
-    const importantTerms = new Set([
-      // Compound words (now properly preserved by enhanced segmentation)
-      '社会課題', '社会貢献', '社会責任', '社会価値', '持続可能', '地球環境', '環境保護',
-      '医療従事者', '患者中心', '患者様', 'ヘルスケア', '医療技術', '人々の健康',
-      '次世代技術', '人工知能', 'デジタルトランスフォーメーション', '情報インフラ',
-      '顧客満足', '品質管理', '高い品質', '企業価値', 'グローバル企業',
-      '高齢社会', '健康寿命', '生活の質', '医療情報', '医療コスト',
-      
-      // General business terms
-      '社会', '貢献', '価値', '品質', '技術', '革新', '創造', '発展', '成長', '向上',
-      '安全', '信頼', '責任', '持続', '環境', '未来', '世界', '地域', '人々', '顧客',
-      'サービス', '製品', '事業', '企業', '組織', 'チーム', '協力', '連携', '推進',
-      'イノベーション', 'グローバル', 'リーダー', 'パートナー', 'ソリューション',
-      
-      // Digital/IT terms
-      'AI', 'DX', 'デジタル', 'データ', 'テクノロジー', 'システム', 'プラットフォーム',
-      'クラウド', 'IoT', 'ネットワーク', 'セキュリティ', 'インフラ',
-      
-      // Medical/Healthcare terms
-      '医療', '健康', '患者', '福祉', 'ケア', 'いのち', '生命', '命', '治療', 
-      '診断', '予防', '看護', '介護'
-    ]);
-
-    const stopWords = new Set([
-      'の', 'は', 'を', 'が', 'に', 'で', 'と', 'も', 'から', 'まで', 'より',
-      'こと', 'これ', 'それ', 'あれ', 'この', 'その', 'あの', 'ため', 'によって',
-      'について', 'において', 'により', 'として', 'という', 'といった', 'なお',
-      'また', 'さらに', 'ただし', 'しかし', 'また', 'そして', 'そのため'
-    ]);
+    // Important terms of both profiles are boosted
+    const importantTerms = new Set([...profileA.importantTerms, ...profileB.importantTerms]);
 
     // Extract keywords
-    const extractKeywords = (segments: string[]) => {
+    const extractKeywords = (segments: string[], stopWords: Set<string>) => {
       return segments
         .filter(word => {
           if (word.length < 2) return false;
@@ -139,8 +134,8 @@ export class SimilarityCalculator {
         .filter(word => word.length >= 2);
     };
 
-    const keywordsA = extractKeywords(segmentsA);
-    const keywordsB = extractKeywords(segmentsB);
+    const keywordsA = extractKeywords(segmentsA, profileA.stopWords);
+    const keywordsB = extractKeywords(segmentsB, profileB.stopWords);
 
     if (keywordsA.length === 0 || keywordsB.length === 0) return 0;
 
@@ -187,6 +182,33 @@ export class SimilarityCalculator {
     return scaled;
   }
 
+  /**
+   * Narrow down comparison candidates with the ANN index when the company set is large.
+   * Falls back to the full list when the index is not ready or cannot return enough candidates.
+   */
+  public static selectCandidates<T extends { id: string; embeddings?: number[] }>(
+    targetCompany: T,
+    companies: T[],
+    limit: number
+  ): T[] {
+    if (!targetCompany.embeddings || !embeddingsIndex.shouldUse(companies.length)) {
+      return companies;
+    }
+
+    const companyMap = new Map(companies.map(company => [company.id, company]));
+    const candidateCount = Math.max(limit * CONSTANTS.ANN_INDEX.CANDIDATE_MULTIPLIER, limit + 10);
+    const neighbours = embeddingsIndex.search(targetCompany.embeddings, candidateCount, {
+      excludeId: targetCompany.id,
+      allowedIds: new Set(companyMap.keys())
+    });
+
+    if (neighbours.length < Math.min(limit, companies.length - 1)) {
+      return companies;
+    }
+
+    return neighbours.map(neighbour => companyMap.get(neighbour.companyId)!);
+  }
+
   /**
    * Find similar companies for a given company (with caching)
    */
@@ -201,7 +223,7 @@ export class SimilarityCalculator {
 
     const similarities: CompanyWithSimilarity[] = [];
 
-    for (const company of companies) {
+    for (const company of this.selectCandidates(targetCompany, companies, limit)) {
       // Skip self comparison
       if (company.id === targetCompany.id) {
         continue;
@@ -231,6 +253,58 @@ export class SimilarityCalculator {
       .slice(0, limit);
   }
 
+  /**
+   * Find similar companies by comparing a single MVV field's embeddings
+   * For 'valueItems', each company scores the best match between value items
+   * (optionally restricted to one value item of the target company)
+   */
+  public static findSimilarCompaniesByField<T extends { id: string; fieldEmbeddings?: CompanyFieldEmbeddings }>(
+    targetCompany: T,
+    companies: T[],
+    field: FieldComparisonTarget,
+    limit: number = 5,
+    valueItemIndex?: number
+  ): FieldSimilarityMatch<T>[] {
+    const matches: FieldSimilarityMatch<T>[] = [];
+
+    if (field === 'valueItems') {
+      const targetItems = targetCompany.fieldEmbeddings?.valueItems ?? [];
+      const sourceItems = valueItemIndex === undefined
+        ? targetItems
+        : targetItems.slice(valueItemIndex, valueItemIndex + 1);
+      if (sourceItems.length === 0) return [];
+
+      for (const company of companies) {
+        if (company.id === targetCompany.id) continue;
+
+        let best: FieldSimilarityMatch<T> | null = null;
+        for (const source of sourceItems) {
+          for (const item of company.fieldEmbeddings?.valueItems ?? []) {
+            if (item.embedding.length !== source.embedding.length) continue;
+            const similarity = this.cosineSimilarity(source.embedding, item.embedding);
+            if (!best || similarity > best.similarity) {
+              best = { company, similarity, matchedValue: { source: source.text, target: item.text } };
+            }
+          }
+        }
+        if (best) matches.push(best);
+      }
+    } else {
+      const targetVector = targetCompany.fieldEmbeddings?.[field];
+      if (!targetVector?.length) return [];
+
+      for (const company of companies) {
+        const vector = company.fieldEmbeddings?.[field];
+        if (company.id === targetCompany.id || vector?.length !== targetVector.length) continue;
+        matches.push({ company, similarity: this.cosineSimilarity(targetVector, vector) });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
   /**
    * Calculate similarity matrix for all companies with embeddings (optimized)
    */
@@ -1,6 +1,7 @@
 import Dexie from 'dexie';
 import type { Table } from 'dexie';
 import type { Company, MVVData, ProcessingLog, CompanyInfo } from '../types';
+import type { RejectedCompoundTerm, SegmentationProfile } from '../types/segmentation';
 import { CONSTANTS } from '../utils/constants';
 
 export interface DBCompany extends Omit<Company, 'createdAt' | 'updatedAt' | 'lastProcessed'> {
@@ -21,11 +22,33 @@ export interface DBCompanyInfo extends Omit<CompanyInfo, 'lastUpdated'> {
   lastUpdated: number;
 }
 
+// ANNインデックス（HNSW）のノード。ベクトル本体はcompaniesテーブルから復元する
+export interface DBEmbeddingsIndexNode {
+  companyId: string;
+  level: number;
+  neighbors: string[][];
+  signature: string; // ベクトル変更検知用
+}
+
+export interface DBEmbeddingsIndexMeta {
+  key: string;
+  entryPoint: string | null;
+  maxLevel: number;
+  dimension: number;
+  m: number;
+  efConstruction: number;
+  updatedAt: number;
+}
+
 class MVVDatabase extends Dexie {
   companies!: Table<DBCompany>;
   mvvData!: Table<DBMVVData>;
   processingLogs!: Table<DBProcessingLog>;
   companyInfo!: Table<DBCompanyInfo>;
+  embeddingsIndexNodes!: Table<DBEmbeddingsIndexNode>;
+  embeddingsIndexMeta!: Table<DBEmbeddingsIndexMeta>;
+  segmentationProfiles!: Table<SegmentationProfile>;
+  rejectedCompoundTerms!: Table<RejectedCompoundTerm>;
 
   constructor() {
     super(CONSTANTS.DB_NAME);
@@ -113,6 +136,39 @@ class MVVDatabase extends Dexie {
         }
       });
     });
+
+    // Version 5 - Add approximate nearest neighbour index for embeddings similarity search
+    this.version(5).stores({
+      companies: 'id, name, status, category, createdAt, updatedAt, mission, vision, values, embeddings',
+      mvvData: '++id, companyId, version, isActive, extractedAt',
+      processingLogs: '++id, companyId, status, timestamp',
+      companyInfo: '++id, companyId, listingStatus, foundedYear, employeeCount, revenue, prefecture, city, postalCode, jsicMajorCategory, jsicMajorName, primaryIndustry, businessType, lastUpdated',
+      embeddingsIndexNodes: 'companyId, level',
+      embeddingsIndexMeta: 'key'
+    });
+
+    // Version 6 - Add user-editable segmentation dictionary profiles
+    this.version(6).stores({
+      companies: 'id, name, status, category, createdAt, updatedAt, mission, vision, values, embeddings',
+      mvvData: '++id, companyId, version, isActive, extractedAt',
+      processingLogs: '++id, companyId, status, timestamp',
+      companyInfo: '++id, companyId, listingStatus, foundedYear, employeeCount, revenue, prefecture, city, postalCode, jsicMajorCategory, jsicMajorName, primaryIndustry, businessType, lastUpdated',
+      embeddingsIndexNodes: 'companyId, level',
+      embeddingsIndexMeta: 'key',
+      segmentationProfiles: 'id, name, updatedAt'
+    });
+
+    // Version 7 - Remember rejected compound term candidates
+    this.version(7).stores({
+      companies: 'id, name, status, category, createdAt, updatedAt, mission, vision, values, embeddings',
+      mvvData: '++id, companyId, version, isActive, extractedAt',
+      processingLogs: '++id, companyId, status, timestamp',
+      companyInfo: '++id, companyId, listingStatus, foundedYear, employeeCount, revenue, prefecture, city, postalCode, jsicMajorCategory, jsicMajorName, primaryIndustry, businessType, lastUpdated',
+      embeddingsIndexNodes: 'companyId, level',
+      embeddingsIndexMeta: 'key',
+      segmentationProfiles: 'id, name, updatedAt',
+      rejectedCompoundTerms: 'term, rejectedAt'
+    });
   }
 }
 
@@ -206,7 +262,13 @@ export const companyStorage = {
     if (updates.values !== undefined) updateData.values = updates.values;
     
     // Handle embeddings array
+    // 項目別Embeddingsは統合ベクトルと同じMVVテキストから作るため、統合ベクトルだけが更新された場合は破棄する
     if (updates.embeddings !== undefined) updateData.embeddings = updates.embeddings;
+    if (updates.fieldEmbeddings !== undefined) {
+      updateData.fieldEmbeddings = updates.fieldEmbeddings;
+    } else if (updates.embeddings !== undefined) {
+      updateData.fieldEmbeddings = {};
+    }
     
     // Convert Date objects to numbers
     if (updates.createdAt) {
@@ -244,6 +306,56 @@ export const companyStorage = {
     });
   },
 
+  /**
+   * 重複企業の統合
+   * 統合元のMVV履歴・処理ログ・企業詳細情報を統合先に付け替え、統合元を削除する
+   */
+  async merge(
+    survivorId: string,
+    duplicateId: string,
+    survivorUpdates: Partial<Company>,
+    options: { useDuplicateMVV: boolean; useDuplicateInfo: boolean }
+  ): Promise<{ mvvVersions: number; processingLogs: number; companyInfo: 'survivor' | 'duplicate' | 'none' }> {
+    return await db.transaction('rw', [db.companies, db.mvvData, db.processingLogs, db.companyInfo], async () => {
+      await this.update(survivorId, survivorUpdates);
+
+      // MVV履歴は抽出日時順に通し番号を振り直し、アクティブ版は選択した側のものを残す
+      const movedMVV = await db.mvvData.where('companyId').equals(duplicateId).toArray();
+      const history = [...await db.mvvData.where('companyId').equals(survivorId).toArray(), ...movedMVV]
+        .sort((a, b) => a.extractedAt - b.extractedAt);
+      const activeOwner = options.useDuplicateMVV && movedMVV.some(mvv => mvv.isActive) ? duplicateId : survivorId;
+      for (const [index, mvv] of history.entries()) {
+        await db.mvvData.update(mvv.id!, {
+          companyId: survivorId,
+          version: index + 1,
+          isActive: mvv.isActive && mvv.companyId === activeOwner
+        });
+      }
+
+      const processingLogs = await db.processingLogs
+        .where('companyId')
+        .equals(duplicateId)
+        .modify({ companyId: survivorId });
+
+      const survivorInfo = await db.companyInfo.where('companyId').equals(survivorId).first();
+      const duplicateInfo = await db.companyInfo.where('companyId').equals(duplicateId).first();
+      let companyInfo: 'survivor' | 'duplicate' | 'none' = survivorInfo ? 'survivor' : 'none';
+      if (duplicateInfo && (options.useDuplicateInfo || !survivorInfo)) {
+        if (survivorInfo) {
+          await db.companyInfo.delete(survivorInfo.id!);
+        }
+        await db.companyInfo.update(duplicateInfo.id!, { companyId: survivorId });
+        companyInfo = 'duplicate';
+      } else if (duplicateInfo) {
+        await db.companyInfo.delete(duplicateInfo.id!);
+      }
+
+      await db.companies.delete(duplicateId);
+
+      return { mvvVersions: movedMVV.length, processingLogs, companyInfo };
+    });
+  },
+
   async deleteAll(): Promise<void> {
     await db.transaction('rw', db.companies, db.mvvData, db.processingLogs, async () => {
       await db.companies.clear();
@@ -256,13 +368,44 @@ export const companyStorage = {
 // MVVデータ関連の操作
 export const mvvStorage = {
   async create(mvvData: MVVData): Promise<number> {
-    // 既存のアクティブなデータを非アクティブ化
-    await db.mvvData
-      .where('companyId')
-      .equals(mvvData.companyId)
-      .modify({ isActive: false });
-    
-    return await db.mvvData.add(toDBMVVData(mvvData));
+    return await db.transaction('rw', db.mvvData, async () => {
+      // 既存バージョンの最大値から次のバージョン番号を決定
+      const existing = await db.mvvData.where('companyId').equals(mvvData.companyId).toArray();
+      const nextVersion = existing.reduce((max, mvv) => Math.max(max, mvv.version || 0), 0) + 1;
+
+      // 既存のアクティブなデータを非アクティブ化
+      await db.mvvData
+        .where('companyId')
+        .equals(mvvData.companyId)
+        .modify({ isActive: false });
+
+      return await db.mvvData.add(toDBMVVData({ ...mvvData, version: nextVersion }));
+    });
+  },
+
+  /**
+   * バックアップからのリストア用
+   * create と異なり採番せず、元の version / isActive のまま同じバージョンの行を置き換える
+   */
+  async restore(mvvData: MVVData): Promise<number> {
+    return await db.transaction('rw', db.mvvData, async () => {
+      const existing = await db.mvvData.where('companyId').equals(mvvData.companyId).toArray();
+      const sameVersion = existing.find(mvv => mvv.version === mvvData.version);
+
+      // アクティブなバージョンは企業ごとに1つだけに保つ
+      if (mvvData.isActive) {
+        await db.mvvData
+          .where('companyId')
+          .equals(mvvData.companyId)
+          .modify({ isActive: false });
+      }
+
+      const record = toDBMVVData({ ...mvvData, id: sameVersion?.id });
+      if (record.id === undefined) {
+        delete record.id;
+      }
+      return await db.mvvData.put(record);
+    });
   },
 
   async getAll(activeOnly = true): Promise<MVVData[]> {
@@ -294,6 +437,33 @@ export const mvvStorage = {
     return results[0];
   },
 
+  async getById(id: number): Promise<MVVData | undefined> {
+    const dbMVVData = await db.mvvData.get(id);
+    return dbMVVData ? fromDBMVVData(dbMVVData) : undefined;
+  },
+
+  async getHistory(companyId: string): Promise<MVVData[]> {
+    const history = await this.getByCompanyId(companyId, false);
+    return history.sort((a, b) => b.version - a.version);
+  },
+
+  async activate(id: number): Promise<MVVData> {
+    return await db.transaction('rw', db.mvvData, async () => {
+      const target = await db.mvvData.get(id);
+      if (!target) {
+        throw new Error(`MVV data not found: ${id}`);
+      }
+
+      await db.mvvData
+        .where('companyId')
+        .equals(target.companyId)
+        .modify({ isActive: false });
+      await db.mvvData.update(id, { isActive: true });
+
+      return fromDBMVVData({ ...target, isActive: true });
+    });
+  },
+
   async update(id: number, updates: Partial<MVVData>): Promise<void> {
     const updateData: Partial<DBMVVData> = {
       id: updates.id,
@@ -0,0 +1,217 @@
+/**
+ * 独自性スコアの根拠分析（企業ごとのドリルダウン）
+ * - 全体・同業界それぞれで最も近い企業／最も遠い企業
+ * - コーパス全体で珍しいMVVキーワード（形態素解析キーワードのTF-IDF）
+ * - ミッション・ビジョン・バリューのどの項目が他社との距離を生んでいるか（項目別Embeddings）
+ */
+
+import { SimilarityCalculator } from './similarityCalculator';
+import {
+  checkCancelled,
+  extractMVVKeywords,
+  type ComputeCompany,
+  type ComputeContext
+} from './analysisCompute';
+import { MVV_FIELDS, type MVVField } from './mvvFieldEmbeddings';
+
+export interface UniquenessNeighbor {
+  companyId: string;
+  companyName: string;
+  category: string;
+  similarity: number;
+}
+
+export interface RareKeyword {
+  term: string;
+  count: number;               // 対象企業での出現回数
+  documentFrequency: number;   // 出現企業数
+  tfidf: number;
+}
+
+export interface FieldDistanceBreakdown {
+  field: MVVField;
+  avgDistance: number;         // 対象企業と他社の平均距離（1 − コサイン類似度）
+  corpusAvgDistance: number;   // 全企業ペアの平均距離
+  excessDistance: number;      // avgDistance − corpusAvgDistance（正なら他社より離れている）
+  comparedCount: number;
+}
+
+export interface UniquenessExplanation {
+  companyId: string;
+  companyName: string;
+  category: string;
+  nearest: UniquenessNeighbor[];
+  farthest: UniquenessNeighbor[];
+  nearestInCategory: UniquenessNeighbor[];
+  farthestInCategory: UniquenessNeighbor[];
+  rareKeywords: RareKeyword[];
+  documentCount: number;
+  /** 項目別Embeddingsがある項目のみ */
+  fieldDistances: FieldDistanceBreakdown[];
+  /** 全体より最も大きく離れている項目（どの項目も平均以下なら null） */
+  drivingField: MVVField | null;
+}
+
+export interface UniquenessExplanationOptions {
+  neighborCount: number;
+  keywordCount: number;
+}
+
+export const DEFAULT_UNIQUENESS_EXPLANATION_OPTIONS: UniquenessExplanationOptions = {
+  neighborCount: 5,
+  keywordCount: 10
+};
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+/**
+ * 全ペアの平均コサイン類似度（正規化ベクトルの和を使い O(n·d) で求める）
+ */
+const meanPairwiseSimilarity = (vectors: number[][]): number => {
+  const m = vectors.length;
+  if (m < 2) return 0;
+  const normalized = vectors.map(normalize);
+  const sum = new Array<number>(normalized[0].length).fill(0);
+  normalized.forEach(vector => vector.forEach((value, k) => {
+    sum[k] += value;
+  }));
+  const sumSquared = sum.reduce((total, value) => total + value * value, 0);
+  const selfSimilarity = normalized.reduce((total, vector) => total + vector.reduce((s, v) => s + v * v, 0), 0);
+  return (sumSquared - selfSimilarity) / (m * (m - 1));
+};
+
+/**
+ * 形態素解析キーワードのTF-IDFで、対象企業が使うコーパス内で珍しい語を抽出
+ */
+const findRareKeywords = (
+  companies: ComputeCompany[],
+  targetIndex: number,
+  keywordCount: number,
+  context: ComputeContext<never>
+): RareKeyword[] => {
+  const documentFrequency = new Map<string, number>();
+  let targetTokens: string[] = [];
+
+  companies.forEach((company, index) => {
+    if (index % 50 === 0) checkCancelled(context);
+    const tokens = extractMVVKeywords(company);
+    if (index === targetIndex) targetTokens = tokens;
+    new Set(tokens).forEach(term => {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    });
+    context.reportProgress({ phase: 'explanation', completed: index + 1, total: companies.length + 1 });
+  });
+
+  if (targetTokens.length === 0) return [];
+
+  const termCounts = new Map<string, number>();
+  targetTokens.forEach(term => termCounts.set(term, (termCounts.get(term) ?? 0) + 1));
+
+  const n = companies.length;
+  return [...termCounts.entries()]
+    .map(([term, count]) => {
+      const df = documentFrequency.get(term) ?? 1;
+      return {
+        term,
+        count,
+        documentFrequency: df,
+        tfidf: (count / targetTokens.length) * Math.log(n / df)
+      };
+    })
+    // 全企業が使う語（IDF = 0）は独自性の根拠にならない
+    .filter(keyword => keyword.tfidf > 0)
+    .sort((a, b) => b.tfidf - a.tfidf || a.term.localeCompare(b.term))
+    .slice(0, keywordCount);
+};
+
+/**
+ * 項目別Embeddingsで、対象企業と他社の距離を全体平均と比較
+ */
+const computeFieldDistances = (companies: ComputeCompany[], target: ComputeCompany): FieldDistanceBreakdown[] =>
+  MVV_FIELDS.flatMap(field => {
+    const targetVector = target.fieldEmbeddings?.[field];
+    if (!targetVector?.length) return [];
+
+    const vectors = companies
+      .map(company => company.fieldEmbeddings?.[field])
+      .filter((vector): vector is number[] => !!vector && vector.length === targetVector.length);
+    const others = companies.filter(company =>
+      company.id !== target.id && company.fieldEmbeddings?.[field]?.length === targetVector.length
+    );
+    if (others.length === 0) return [];
+
+    const avgDistance = others.reduce(
+      (sum, company) => sum + (1 - SimilarityCalculator.cosineSimilarity(targetVector, company.fieldEmbeddings![field]!)),
+      0
+    ) / others.length;
+    const corpusAvgDistance = 1 - meanPairwiseSimilarity(vectors);
+
+    return [{
+      field,
+      avgDistance,
+      corpusAvgDistance,
+      excessDistance: avgDistance - corpusAvgDistance,
+      comparedCount: others.length
+    }];
+  });
+
+/**
+ * 指定企業の独自性の根拠を分析
+ */
+export const explainUniqueness = (
+  companies: ComputeCompany[],
+  companyId: string,
+  context: ComputeContext<never>,
+  options: UniquenessExplanationOptions = DEFAULT_UNIQUENESS_EXPLANATION_OPTIONS
+): UniquenessExplanation => {
+  const targetIndex = companies.findIndex(company => company.id === companyId);
+  if (targetIndex < 0) {
+    throw new Error('対象企業が見つかりません');
+  }
+  const target = companies[targetIndex];
+
+  // 1. 統合Embeddingsでの近傍・遠方企業
+  const neighbors: UniquenessNeighbor[] = target.embeddings?.length
+    ? companies
+      .filter(company => company.id !== target.id && company.embeddings?.length === target.embeddings!.length)
+      .map(company => ({
+        companyId: company.id,
+        companyName: company.name,
+        category: company.category,
+        similarity: SimilarityCalculator.cosineSimilarity(target.embeddings!, company.embeddings!)
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+    : [];
+  const sameCategory = neighbors.filter(neighbor => neighbor.category === target.category);
+  const takeFarthest = (list: UniquenessNeighbor[]) => list.slice(-options.neighborCount).reverse();
+
+  checkCancelled(context);
+
+  // 2. 珍しいキーワード
+  const rareKeywords = findRareKeywords(companies, targetIndex, options.keywordCount, context);
+
+  // 3. 項目別の距離
+  const fieldDistances = computeFieldDistances(companies, target);
+  const driving = fieldDistances
+    .filter(breakdown => breakdown.excessDistance > 0)
+    .sort((a, b) => b.excessDistance - a.excessDistance)[0];
+
+  context.reportProgress({ phase: 'explanation', completed: companies.length + 1, total: companies.length + 1 });
+
+  return {
+    companyId: target.id,
+    companyName: target.name,
+    category: target.category,
+    nearest: neighbors.slice(0, options.neighborCount),
+    farthest: takeFarthest(neighbors),
+    nearestInCategory: sameCategory.slice(0, options.neighborCount),
+    farthestInCategory: takeFarthest(sameCategory),
+    rareKeywords,
+    documentCount: companies.length,
+    fieldDistances,
+    drivingField: driving?.field ?? null
+  };
+};
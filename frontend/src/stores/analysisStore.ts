@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import type { AnalysisFilters } from '../types/analysis';
 import { type HybridAnalysisData, type HybridCompany } from '../services/hybridDataLoader';
 import { companyStorage } from '../services/storage';
+import { embeddingsIndex } from '../services/embeddingsIndex';
 // import { generateEmbeddings } from '../services/openai';
 
 interface AnalysisStore {
@@ -56,6 +57,9 @@ export const useAnalysisStore = create<AnalysisStore>((set, get) => ({
     try {
       // 1. 企業管理（IndexedDB）から全企業を取得
       const managedCompanies = await companyStorage.getAll();
+
+      // 類似企業検索用のANNインデックスを差分同期（バックグラウンド）
+      embeddingsIndex.sync(managedCompanies);
       
       // 2. 分析済み企業（embeddings持ち）をHybridCompany形式に変換
       console.log(`IndexedDBから${managedCompanies.length}社を取得`);
@@ -84,6 +88,7 @@ export const useAnalysisStore = create<AnalysisStore>((set, get) => ({
           vision: company.vision || '',
           values: company.values || '',
           embeddings: company.embeddings!,
+          fieldEmbeddings: company.fieldEmbeddings,
           confidenceScores: {
             mission: 0.8,
             vision: 0.8,
@@ -2,6 +2,8 @@ import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import type { Company, CompanyFormData, CompanyImportData } from '../types';
 import { companyStorage } from '../services/storage';
+import { embeddingsIndex } from '../services/embeddingsIndex';
+import { companyDeduplicationService, type MergeResult, type MergeSelection } from '../services/companyDeduplication';
 import { generateId } from '../utils/formatters';
 
 interface CompanyState {
@@ -22,6 +24,7 @@ interface CompanyActions {
   updateCompany: (id: string, updates: Partial<Company>) => Promise<void>;
   deleteCompany: (id: string) => Promise<void>;
   deleteAllCompanies: () => Promise<void>;
+  mergeCompanies: (survivorId: string, duplicateId: string, selection: MergeSelection) => Promise<MergeResult>;
   selectCompany: (company: Company | null) => void;
   setError: (error: string | null) => void;
   clearError: () => void;
@@ -165,6 +168,7 @@ export const useCompanyStore = create<CompanyStore>()(
         set({ loading: true, error: null });
         try {
           await companyStorage.delete(id);
+          await embeddingsIndex.remove(id);
           const companies = await companyStorage.getAll();
           
           set(state => ({
@@ -182,6 +186,7 @@ export const useCompanyStore = create<CompanyStore>()(
         set({ loading: true, error: null });
         try {
           await companyStorage.deleteAll();
+          await embeddingsIndex.clear();
           set({ companies: [], selectedCompany: null, loading: false });
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to delete all companies';
@@ -189,6 +194,33 @@ export const useCompanyStore = create<CompanyStore>()(
         }
       },
 
+      mergeCompanies: async (survivorId: string, duplicateId: string, selection: MergeSelection) => {
+        set({ loading: true, error: null });
+        try {
+          const survivor = await companyStorage.getById(survivorId);
+          const duplicate = await companyStorage.getById(duplicateId);
+          if (!survivor || !duplicate) {
+            throw new Error('統合対象の企業が見つかりません');
+          }
+
+          const result = await companyDeduplicationService.merge(survivor, duplicate, selection);
+          const companies = await companyStorage.getAll();
+
+          set(state => ({
+            companies,
+            loading: false,
+            selectedCompany: state.selectedCompany && [survivorId, duplicateId].includes(state.selectedCompany.id)
+              ? companies.find(company => company.id === survivorId) ?? null
+              : state.selectedCompany
+          }));
+          return result;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to merge companies';
+          set({ error: errorMessage, loading: false });
+          throw error;
+        }
+      },
+
       selectCompany: (company: Company | null) => {
         set({ selectedCompany: company });
       },
@@ -7,6 +7,7 @@ import { create } from 'zustand';
 import type { Company, MVVData } from '../types';
 import { companyStorage, mvvStorage } from '../services/storage';
 import { SimilarityCalculator, type CompanyWithSimilarity } from '../services/similarityCalculator';
+import { embeddingsIndex } from '../services/embeddingsIndex';
 // import { ProgressiveCalculator } from '../services/progressiveCalculator';
 // import { similarityCache } from '../services/similarityCache';
 
@@ -101,6 +102,9 @@ export const useEmbeddingsAnalysisStore = create<EmbeddingsAnalysisStore>((set,
       
       // Load all companies from IndexedDB
       const allCompanies = await companyStorage.getAll();
+
+      // Keep the ANN index in sync with stored embeddings (runs in background)
+      embeddingsIndex.sync(allCompanies);
       
       // Load all MVV data
       const allMVVData = await mvvStorage.getAll();
@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import type { MVVData } from '../types';
 import { mvvStorage } from '../services/storage';
+import { activateMVVVersion } from '../services/mvvHistory';
 
 interface MVVState {
   mvvData: MVVData[];
@@ -15,6 +16,7 @@ interface MVVActions {
   getMVVByCompanyId: (companyId: string) => MVVData | undefined;
   addMVVData: (mvvData: MVVData) => Promise<void>;
   updateMVVData: (id: number, updates: Partial<MVVData>) => Promise<void>;
+  activateVersion: (mvvId: number) => Promise<MVVData>;
   setError: (error: string | null) => void;
   clearError: () => void;
 }
@@ -61,7 +63,7 @@ export const useMVVStore = create<MVVStore>()(
         set({ loading: true, error: null });
         try {
           const id = await mvvStorage.create(mvvData);
-          const newMVVData = { ...mvvData, id: Number(id) };
+          const newMVVData = (await mvvStorage.getById(Number(id))) || { ...mvvData, id: Number(id) };
           
           set(state => {
             const updatedData = [...state.mvvData.filter(m => m.companyId !== mvvData.companyId), newMVVData];
@@ -109,6 +111,31 @@ export const useMVVStore = create<MVVStore>()(
         }
       },
 
+      activateVersion: async (mvvId: number) => {
+        set({ loading: true, error: null });
+        try {
+          const activated = await activateMVVVersion(mvvId);
+
+          set(state => {
+            const updatedData = [...state.mvvData.filter(m => m.companyId !== activated.companyId), activated];
+            const updatedMap = new Map(state.mvvDataMap);
+            updatedMap.set(activated.companyId, activated);
+
+            return {
+              mvvData: updatedData,
+              mvvDataMap: updatedMap,
+              loading: false
+            };
+          });
+
+          return activated;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to activate MVV version';
+          set({ error: errorMessage, loading: false });
+          throw error;
+        }
+      },
+
       setError: (error: string | null) => {
         set({ error });
       },
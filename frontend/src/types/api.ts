@@ -3,6 +3,14 @@ export interface ApiResponse<T> {
   data?: T;
   error?: string;
   message?: string;
+  metadata?: ApiUsageMetadata;
+}
+
+// 課金対象APIがレスポンスに含める利用量
+export interface ApiUsageMetadata {
+  model?: string;
+  tokensUsed?: number;
+  estimatedCost?: number;
 }
 
 export interface ApiError {
@@ -0,0 +1,57 @@
+/**
+ * AI利用予算の型定義
+ * 月間・日次・処理種別ごとの上限と警告しきい値を設定し、上限到達時はジョブキューを一時停止する
+ */
+
+export type BudgetOperationType =
+  | 'extract-mvv'
+  | 'extract-company-info'
+  | 'generate-ideas'
+  | 'verify-ideas';
+
+export interface BudgetConfig {
+  enabled: boolean;
+  monthlyLimit: number | null;   // USD（null は上限なし）
+  dailyLimit: number | null;
+  operationLimits: Record<BudgetOperationType, number | null>; // 処理種別ごとの月間上限
+  warningThresholds: number[];   // 上限に対する割合（%）で警告する
+}
+
+export type BudgetScope = 'monthly' | 'daily' | BudgetOperationType;
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetScopeStatus {
+  scope: BudgetScope;
+  label: string;
+  limit: number;
+  spent: number;
+  ratio: number;                 // spent / limit
+  level: BudgetLevel;
+  threshold?: number;            // 到達済みの最大しきい値（%）
+}
+
+export interface BudgetSpendSummary {
+  monthly: number;
+  daily: number;
+  byOperation: Record<BudgetOperationType, number>; // 今月分
+  callCounts: Record<BudgetOperationType, number>;  // 今月分（1回あたりの推定コスト算出用）
+  updatedAt: number;
+}
+
+export interface BudgetStatus {
+  config: BudgetConfig;
+  spend: BudgetSpendSummary;
+  scopes: BudgetScopeStatus[];   // 上限が設定されている範囲のみ
+  level: BudgetLevel;
+  queuePaused: boolean;          // 上限到達によりジョブキューを停止中
+}
+
+export interface BudgetCheckResult {
+  allowed: boolean;
+  level: BudgetLevel;
+  estimatedCost: number;         // 次の呼び出しの推定コスト
+  blockingScopes: BudgetScopeStatus[];
+  warningScopes: BudgetScopeStatus[];
+  message?: string;
+}
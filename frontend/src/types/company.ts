@@ -7,6 +7,25 @@ export type CompanyStatus =
   | 'embeddings_generation_error' // Phase 2 エラー
   | 'error';                    // 一般的なエラー（後方互換性のため）
 
+/**
+ * バリューの1項目とそのEmbeddings（text は生成時の項目テキスト。変更検知に使う）
+ */
+export interface ValueItemEmbedding {
+  text: string;
+  embedding: number[];
+}
+
+/**
+ * ミッション・ビジョン・バリューそれぞれのEmbeddings（未入力の項目は持たない）
+ */
+export interface CompanyFieldEmbeddings {
+  mission?: number[];
+  vision?: number[];
+  values?: number[];
+  valueItems?: ValueItemEmbedding[]; // バリューを項目ごとに分割したEmbeddings
+  sourceHashes?: { mission?: string; vision?: string; values?: string }; // 生成時の入力テキストのハッシュ（変更検知用）
+}
+
 export interface Company {
   id: string;
   name: string;
@@ -20,6 +39,7 @@ export interface Company {
   errorMessage?: string;
   // Phase 2で追加されるフィールド
   embeddings?: number[];
+  fieldEmbeddings?: CompanyFieldEmbeddings; // MVV項目別のEmbeddings（統合ベクトルとは別）
   // MVV情報（Phase 1で追加）
   mission?: string;
   vision?: string;
@@ -174,6 +174,9 @@ export interface CompanyInfoExtractionResponse {
     processingTime: number;
     timestamp: string;
     source: 'perplexity' | 'openai' | 'claude';
+    model?: string;
+    tokensUsed?: number;
+    estimatedCost?: number;
   };
 }
 
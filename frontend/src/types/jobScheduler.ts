@@ -0,0 +1,128 @@
+/**
+ * AIジョブスケジューラ型定義
+ * MVV抽出・企業情報抽出・Embeddings生成・アイデア検証を単一キューで実行する
+ */
+
+import type { BudgetOperationType } from './budget';
+
+// background: 非同期タスク（Background Function）の完了待ち。長時間枠を保持するため抽出処理と枠を分ける
+export type JobProvider = 'openai' | 'perplexity' | 'background';
+
+export type JobKind =
+  | 'mvv-extraction'
+  | 'company-info'
+  | 'embeddings'
+  | 'idea-verification'
+  | 'other';
+
+export type JobPriority = 'high' | 'normal' | 'low';
+
+export type JobStatus =
+  | 'queued'     // 実行待ち
+  | 'running'    // 実行中
+  | 'retrying'   // リトライ待機中（バックオフ）
+  | 'completed'  // 完了
+  | 'failed'     // 失敗（リトライ上限到達）
+  | 'cancelled'; // キャンセル
+
+export interface JobRetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;           // 指数バックオフの初期待機時間
+  maxDelayMs: number;
+  retryOn?: (error: unknown) => boolean; // 未指定時はレート制限エラーのみリトライ
+}
+
+export interface JobSubmitOptions<T> {
+  id?: string;                   // 未指定時は自動採番（非同期タスクIDなど外部IDで追跡する場合に指定）
+  kind: JobKind;
+  provider: JobProvider;
+  label: string;                 // キュー表示用（企業名など）
+  run: () => Promise<T>;
+  priority?: JobPriority;
+  retryPolicy?: Partial<JobRetryPolicy>;
+  groupId?: string;              // バッチ単位の一時停止・キャンセル用
+  groupLabel?: string;
+  budgetOperation?: BudgetOperationType; // 予算チェック対象の処理種別
+  onStart?: () => void;          // 実行開始時（リトライ時も含む）
+}
+
+/**
+ * キュー表示用のジョブ情報
+ */
+export interface SchedulerJob {
+  id: string;
+  kind: JobKind;
+  provider: JobProvider;
+  label: string;
+  priority: JobPriority;
+  status: JobStatus;
+  attempts: number;
+  maxRetries: number;
+  groupId?: string;
+  groupLabel?: string;
+  budgetOperation?: BudgetOperationType;
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  nextAttemptAt?: number;
+  holdReason?: string;           // 開始判定で見送られている理由（処理種別ごとの予算上限など）
+}
+
+export interface SchedulerGroupSummary {
+  id: string;
+  label: string;
+  total: number;
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  paused: boolean;
+  createdAt: number;
+}
+
+export interface SchedulerProviderSummary {
+  provider: JobProvider;
+  concurrency: number;
+  running: number;
+  queued: number;
+  cooldownUntil?: number;        // レート制限検知後の待機終了時刻
+}
+
+export interface SchedulerSnapshot {
+  jobs: SchedulerJob[];
+  groups: SchedulerGroupSummary[];
+  providers: SchedulerProviderSummary[];
+  paused: boolean;
+  pauseReason?: string;          // 予算上限到達など自動停止の理由
+}
+
+/**
+ * 開始を見送る判定結果
+ * - queue: キュー全体を一時停止する（月間・日次の予算上限など）
+ * - job: このジョブだけを待機させ、他のジョブは開始を続ける（処理種別ごとの予算上限など）
+ */
+export interface JobStartBlock {
+  scope: 'queue' | 'job';
+  reason: string;
+}
+
+/**
+ * ジョブ開始前の判定
+ * 開始を見送る場合は JobStartBlock を返す（ジョブは待機状態のまま）
+ */
+export type JobStartGuard = (job: SchedulerJob) => JobStartBlock | null;
+
+/**
+ * キャンセルされたジョブの Promise はこのエラーで reject される
+ */
+export class JobCancelledError extends Error {
+  public jobId: string;
+
+  constructor(jobId: string) {
+    super('ジョブはキャンセルされました');
+    this.name = 'JobCancelledError';
+    this.jobId = jobId;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * 形態素解析の辞書プロファイル型定義
+ * 業種ごとの複合語・ストップワード・重要語をユーザーが編集できるようにする
+ */
+
+export interface SegmentationProfile {
+  id: string;
+  name: string;
+  description?: string;
+  jsicMajorNames: string[];   // 自動選択の対象となるJSIC大分類名（企業カテゴリーと照合）
+  compounds: string[];        // 分割せずに保持する複合語
+  stopWords: string[];        // キーワード抽出から除外する語
+  importantTerms: string[];   // 類似度計算で重み付けする語
+  builtIn: boolean;           // 初期プロファイル（削除不可、初期状態に戻せる）
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 汎用プロファイルを合成した実行時の辞書
+export interface ResolvedSegmentationProfile {
+  id: string;
+  name: string;
+  compounds: string[];        // 長い語から順に照合する
+  stopWords: Set<string>;
+  importantTerms: Set<string>;
+}
+
+export type SegmentationDictionaryField = 'compounds' | 'stopWords' | 'importantTerms';
+
+// 自動検出で却下した複合語候補（再提案しない）
+export interface RejectedCompoundTerm {
+  term: string;
+  rejectedAt: number;
+}
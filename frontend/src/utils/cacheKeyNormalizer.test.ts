@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  normalizeCompanyName,
+  normalizeRequestParams,
+  normalizeText,
+  normalizeUrl,
+  stableHash
+} from './cacheKeyNormalizer';
+
+describe('normalizeCompanyName', () => {
+  it.each([
+    // 前株・後株・略記
+    ['株式会社サンプル', 'サンプル'],
+    ['サンプル株式会社', 'サンプル'],
+    ['(株)サンプル', 'サンプル'],
+    ['サンプル（株）', 'サンプル'],
+    ['㈱サンプル', 'サンプル'],
+    ['一般社団法人サンプル協会', 'サンプル協会'],
+    // 全角・半角
+    ['ｻﾝﾌﾟﾙ（株）', 'サンプル'],
+    ['ＡＢＣ株式会社', 'abc'],
+    ['ABC株式会社', 'abc'],
+    // 空白・区切り記号
+    ['株式会社 サンプル ', 'サンプル'],
+    ['サンプル　ホールディングス株式会社', 'サンプルホールディングス'],
+    ['サンプル・テクノロジーズ', 'サンプルテクノロジーズ']
+  ])('normalizes %s to %s', (input, expected) => {
+    expect(normalizeCompanyName(input)).toBe(expected);
+  });
+
+  it.each([
+    // 区切り記号に続く英語の法人格は除く
+    ['Acme Inc.', 'acme'],
+    ['Acme, Inc.', 'acme'],
+    ['ACME CORPORATION', 'acme'],
+    ['Acme Co., Ltd.', 'acme'],
+    ['Acme Company Limited', 'acme'],
+    ['Acme K.K.', 'acme'],
+    ['Sample Group Corp', 'samplegroup'],
+    ['Kintsugi Ltd', 'kintsugi'],
+    // 英数字に続く場合は社名の一部なので除かない
+    ['Zinc', 'zinc'],
+    ['Lincorp', 'lincorp'],
+    // 法人格だけの名前は空にしない
+    ['Inc.', 'inc'],
+    ['株式会社', '株式会社']
+  ])('handles English legal suffix in %s', (input, expected) => {
+    expect(normalizeCompanyName(input)).toBe(expected);
+  });
+
+  it('maps prefixed and suffixed forms of the same company to one key', () => {
+    const variants = ['株式会社サンプル', 'サンプル株式会社', 'ｻﾝﾌﾟﾙ（株）', ' サンプル '];
+    expect(new Set(variants.map(normalizeCompanyName))).toEqual(new Set(['サンプル']));
+  });
+});
+
+describe('normalizeUrl', () => {
+  it.each([
+    ['https://www.example.co.jp/about/', 'example.co.jp'],
+    ['http://example.co.jp', 'example.co.jp'],
+    ['example.co.jp/', 'example.co.jp'],
+    ['www.example.co.jp', 'example.co.jp'],
+    ['https://www2.example.com:8080/path?query=1#top', 'example.com'],
+    ['HTTPS://WWW.Example.COM', 'example.com'],
+    ['ｈｔｔｐｓ：／／ｗｗｗ．ｅｘａｍｐｌｅ．ｃｏｍ', 'example.com'],
+    ['  https://example.com.  ', 'example.com'],
+    ['https://sub.example.com/', 'sub.example.com']
+  ])('normalizes %s to %s', (input, expected) => {
+    expect(normalizeUrl(input)).toBe(expected);
+  });
+
+  it('returns an empty key for missing URLs', () => {
+    expect(normalizeUrl(undefined)).toBe('');
+    expect(normalizeUrl('')).toBe('');
+  });
+});
+
+describe('normalizeText', () => {
+  it.each([
+    ['  情報・通信業 ', '情報・通信業'],
+    ['ＩＴ　サービス', 'it サービス'],
+    ['Software\n\tas a Service', 'software as a service']
+  ])('normalizes %j to %j', (input, expected) => {
+    expect(normalizeText(input)).toBe(expected);
+  });
+});
+
+describe('normalizeRequestParams', () => {
+  it('sorts keys, normalizes strings and drops empty values', () => {
+    expect(normalizeRequestParams({
+      website: 'https://example.com',
+      companyName: ' Ａｃｍｅ ',
+      note: '',
+      extra: null,
+      tags: ['ＡＩ', ' SaaS ']
+    })).toEqual({
+      companyName: 'acme',
+      tags: ['ai', 'saas'],
+      website: 'https://example.com'
+    });
+  });
+});
+
+describe('stableHash', () => {
+  it('does not depend on key order', () => {
+    expect(stableHash({ a: 1, b: { c: 2, d: 3 } })).toBe(stableHash({ b: { d: 3, c: 2 }, a: 1 }));
+  });
+
+  it('differs for different values', () => {
+    expect(stableHash({ a: 1 })).not.toBe(stableHash({ a: 2 }));
+  });
+});
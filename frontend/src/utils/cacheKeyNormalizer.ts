@@ -0,0 +1,133 @@
+/**
+ * AIキャッシュのキー正規化ユーティリティ
+ * 表記ゆれのある企業名・URL・リクエストパラメータを同じキーにまとめる
+ */
+
+// 法人格（前株・後株どちらも除去する）。長いものから順に照合する
+const LEGAL_ENTITY_TERMS = [
+  '特定非営利活動法人',
+  '国立研究開発法人',
+  '地方独立行政法人',
+  '独立行政法人',
+  '一般社団法人',
+  '一般財団法人',
+  '公益社団法人',
+  '公益財団法人',
+  '社会福祉法人',
+  '株式会社',
+  '有限会社',
+  '合同会社',
+  '合名会社',
+  '合資会社',
+  '相互会社',
+  '学校法人',
+  '医療法人',
+  'npo法人',
+  '(株)',
+  '(有)',
+  '(合)',
+  '(同)'
+];
+
+// 英語表記の法人格（末尾のみ。英数字に続く場合は社名の一部なので除かない: 「Zinc」の「inc」など）
+const ENGLISH_LEGAL_SUFFIX = /(?<=[^a-z0-9])(co[\s.,]*ltd|company[\s.,]*limited|corporation|corp|inc|incorporated|limited|ltd|llc|k[\s.]*k)[\s.]*$/;
+
+// 区切り記号として無視する文字
+const IGNORED_SYMBOLS = /[\s・･.,、。'"’”`]/g;
+
+/**
+ * 全角・半角と大文字・小文字をそろえる（NFKCで全角英数字・半角カナ・㈱などを統一）
+ */
+export const normalizeWidth = (value: string): string =>
+  value.normalize('NFKC').toLowerCase();
+
+/**
+ * 企業名の正規化
+ * 例: 「株式会社サンプル」「サンプル株式会社」「ｻﾝﾌﾟﾙ（株）」→「サンプル」
+ */
+export const normalizeCompanyName = (name: string): string => {
+  let normalized = normalizeWidth(name).replace(/\s+/g, ' ').trim();
+
+  LEGAL_ENTITY_TERMS.forEach(term => {
+    normalized = normalized.split(term).join('');
+  });
+
+  // 英語の法人格は区切り記号が残っている状態で末尾を判定し、その後で区切り記号を除く
+  const compact = normalized.replace(IGNORED_SYMBOLS, '');
+  const withoutSuffix = normalized.replace(ENGLISH_LEGAL_SUFFIX, '').replace(IGNORED_SYMBOLS, '');
+
+  // 法人格だけの名前は空にしない
+  return withoutSuffix || compact || normalizeWidth(name).trim();
+};
+
+/**
+ * URLの正規化（スキーム・www・ポート・パス・クエリを除いたホスト名）
+ * 例: 「https://www.example.co.jp/about/」→「example.co.jp」
+ */
+export const normalizeUrl = (url: string | undefined): string => {
+  if (!url) return '';
+
+  const host = normalizeWidth(url.trim())
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .split(/[/?#]/)[0]
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '');
+
+  return host.replace(/^www\d*\./, '');
+};
+
+/**
+ * 業界名などの自由記述の正規化
+ */
+export const normalizeText = (value: string): string =>
+  normalizeWidth(value).replace(/\s+/g, ' ').trim();
+
+/**
+ * リクエストパラメータの正規化（キーを並べ替え、文字列値を正規化、空値を除去）
+ */
+export const normalizeRequestParams = (params: unknown): unknown => {
+  if (Array.isArray(params)) {
+    return params.map(normalizeRequestParams);
+  }
+  if (params && typeof params === 'object') {
+    return Object.fromEntries(
+      Object.keys(params)
+        .sort()
+        .filter(key => {
+          const value = (params as Record<string, unknown>)[key];
+          return value !== undefined && value !== null && value !== '';
+        })
+        .map(key => [key, normalizeRequestParams((params as Record<string, unknown>)[key])])
+    );
+  }
+  return typeof params === 'string' ? normalizeText(params) : params;
+};
+
+/**
+ * 任意の値から安定したハッシュ文字列を作る（cyrb53、キー順に依存しない）
+ */
+export const stableHash = (value: unknown): string => {
+  const text = JSON.stringify(sortKeys(value)) ?? '';
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+};
@@ -0,0 +1,120 @@
+/**
+ * 企業の同一性判定ユーティリティ
+ * 表記ゆれを正規化した企業名の類似度とドメインの一致から、同じ企業かどうかを判定する
+ */
+
+import { normalizeCompanyName, normalizeUrl } from './cacheKeyNormalizer';
+
+// これ以上の企業名類似度は同一企業の候補とみなす
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * ドメインの正規化（スキーム・www・パスを除く）
+ */
+export const normalizeDomain = (website: string | undefined): string => normalizeUrl(website);
+
+const bigrams = (value: string): string[] => {
+  if (value.length < 2) return value ? [value] : [];
+  const result: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    result.push(value.slice(i, i + 2));
+  }
+  return result;
+};
+
+const diceCoefficient = (gramsA: string[], gramsB: string[]): number => {
+  const total = gramsA.length + gramsB.length;
+  if (total === 0) return 0;
+
+  const counts = new Map<string, number>();
+  gramsB.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+
+  let overlap = 0;
+  gramsA.forEach(gram => {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  });
+  return (2 * overlap) / total;
+};
+
+/**
+ * 正規化した企業名の文字バイグラムによるDice係数（0〜1）
+ */
+export const companyNameSimilarity = (a: string, b: string): number =>
+  normalizedNameSimilarity(normalizeCompanyName(a), normalizeCompanyName(b));
+
+/**
+ * 正規化済みの企業名どうしの類似度（多数のペアを比較する場合に正規化を使い回す）
+ */
+export const normalizedNameSimilarity = (normalizedA: string, normalizedB: string): number => {
+  if (!normalizedA || !normalizedB) return 0;
+  if (normalizedA === normalizedB) return 1;
+  return diceCoefficient(bigrams(normalizedA), bigrams(normalizedB));
+};
+
+export interface CompanyMatch<T> {
+  company: T;
+  reason: 'domain' | 'name';
+  nameSimilarity: number;
+}
+
+interface IndexedCompany<T> {
+  company: T;
+  normalizedName: string;
+  grams: string[];
+}
+
+/**
+ * 企業一覧を正規化済みの名前・ドメインで索引し、同一企業の候補を探す
+ * ドメイン一致を優先し、次に企業名の類似度が高いものを返す
+ */
+export class CompanyMatcher<T extends { name: string; website: string }> {
+  private entries: IndexedCompany<T>[] = [];
+  private byDomain = new Map<string, IndexedCompany<T>[]>();
+  private threshold: number;
+
+  constructor(companies: T[] = [], threshold: number = NAME_SIMILARITY_THRESHOLD) {
+    this.threshold = threshold;
+    companies.forEach(company => this.add(company));
+  }
+
+  add(company: T): void {
+    const normalizedName = normalizeCompanyName(company.name);
+    const entry = { company, normalizedName, grams: bigrams(normalizedName) };
+    this.entries.push(entry);
+
+    const domain = normalizeDomain(company.website);
+    if (domain) {
+      this.byDomain.set(domain, [...(this.byDomain.get(domain) || []), entry]);
+    }
+  }
+
+  findMatch(target: { name: string; website: string }): CompanyMatch<T> | null {
+    const normalizedName = normalizeCompanyName(target.name);
+    const grams = bigrams(normalizedName);
+    const similarityTo = (entry: IndexedCompany<T>) =>
+      !normalizedName || !entry.normalizedName ? 0
+        : normalizedName === entry.normalizedName ? 1
+        : diceCoefficient(grams, entry.grams);
+
+    const domainMatches = this.byDomain.get(normalizeDomain(target.website)) || [];
+    if (domainMatches.length > 0) {
+      const best = domainMatches
+        .map(entry => ({ entry, similarity: similarityTo(entry) }))
+        .sort((a, b) => b.similarity - a.similarity)[0];
+      return { company: best.entry.company, reason: 'domain', nameSimilarity: best.similarity };
+    }
+
+    let best: CompanyMatch<T> | null = null;
+    for (const entry of this.entries) {
+      const similarity = similarityTo(entry);
+      if (similarity >= this.threshold && similarity > (best?.nameSimilarity ?? 0)) {
+        best = { company: entry.company, reason: 'name', nameSimilarity: similarity };
+      }
+    }
+    return best;
+  }
+}
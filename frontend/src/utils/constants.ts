@@ -4,16 +4,103 @@ export const CONSTANTS = {
   API_SECRET: import.meta.env.VITE_API_SECRET || '',
   ENVIRONMENT: import.meta.env.VITE_ENVIRONMENT || 'development',
 
-  // バッチ処理設定
-  BATCH_SIZE: import.meta.env.PROD ? 2 : 5, // プロダクション環境では並列数を削減
+  // リトライ設定
   MAX_RETRIES: 3,
   RETRY_DELAY: 1000, // ミリ秒
-  PROCESSING_DELAY: import.meta.env.PROD ? 2000 : 1000, // プロダクション環境では処理間隔を増加
+
+  // AIジョブスケジューラ設定（全てのAI処理がプロバイダ単位の上限を共有する）
+  JOB_SCHEDULER: {
+    PROVIDERS: {
+      // プロダクション環境では並列数を削減し、開始間隔を広げる
+      perplexity: {
+        CONCURRENCY: import.meta.env.PROD ? 2 : 3,
+        MIN_START_INTERVAL_MS: import.meta.env.PROD ? 2000 : 1000
+      },
+      openai: {
+        CONCURRENCY: import.meta.env.PROD ? 3 : 5,
+        MIN_START_INTERVAL_MS: 500
+      },
+      // 非同期タスクは完了まで枠を保持するため、抽出処理とは別枠で同時実行数を制限する
+      background: {
+        CONCURRENCY: import.meta.env.PROD ? 2 : 3,
+        MIN_START_INTERVAL_MS: import.meta.env.PROD ? 2000 : 1000
+      }
+    },
+    RATE_LIMIT_COOLDOWN_MS: 30000, // 429検知後、同一プロバイダの新規開始を止める時間
+    MAX_FINISHED_JOBS: 200          // キュー表示に残す終了済みジョブ数
+  },
+
+  // AI利用予算設定
+  BUDGET: {
+    STORAGE_KEY: 'mvv_ai_budget_config',
+    DEFAULT_WARNING_THRESHOLDS: [50, 80],
+    // 利用実績が無い処理の1回あたり推定コスト（USD）
+    DEFAULT_CALL_COSTS: {
+      'extract-mvv': 0.011,
+      'extract-company-info': 0.011,
+      'generate-ideas': 0.005,
+      'verify-ideas': 0.05
+    }
+  },
+
+  // セマンティックキャッシュ設定
+  SEMANTIC_CACHE: {
+    STORAGE_KEY: 'mvv_semantic_cache_config',
+    DEFAULT_SIMILARITY_THRESHOLD: 0.92, // リクエスト内容のEmbeddingsのコサイン類似度
+    RECENT_LOOKUP_LIMIT: 20             // CacheStatus に表示する直近の参照数
+  },
+
+  // 企業インポート設定
+  COMPANY_IMPORT: {
+    TEMPLATE_STORAGE_KEY: 'mvv_company_import_templates'
+  },
+
+  // 重複企業の検出・統合設定
+  COMPANY_DEDUP: {
+    DISMISSED_STORAGE_KEY: 'mvv_company_dedup_dismissed',
+    SCORE_THRESHOLD: 0.6,          // これ以上のスコアのペアを重複候補として表示
+    EMBEDDING_SIMILARITY_FLOOR: 0.8, // これ未満のEmbeddings類似度は同一性の根拠としない
+    ANN_NEIGHBORS: 5               // 大規模データでEmbeddings近傍を探す件数
+  },
+
+  // アイデアポートフォリオ設定
+  IDEA_PORTFOLIO: {
+    WEIGHT_PRESETS_STORAGE_KEY: 'mvv_portfolio_weight_presets'
+  },
+
+  // 分析画面の時系列スナップショット設定
+  SCREENSHOT_SNAPSHOT: {
+    STORAGE_KEY: 'mvv_screenshot_snapshot_config',
+    STATE_STORAGE_KEY: 'mvv_screenshot_snapshot_state',
+    DEFAULT_TAB_IDS: ['positioning', 'wordcloud'],
+    DEFAULT_MIN_CHANGED_COMPANIES: 3 // 追加・削除・更新された企業数がこれ以上で撮影
+  },
+
+  // ポジショニングマップの固定レイアウト設定
+  POSITIONING_LAYOUT: {
+    STORAGE_KEY: 'mvv_positioning_layouts',
+    MAX_LAYOUTS: 10 // 保存するデータセット（投影手法 × 埋め込み次元 × 企業構成）の上限
+  },
+
+  // 概念アンカー軸（カスタム軸ポジショニング）設定
+  CONCEPT_AXES: {
+    STORAGE_KEY: 'mvv_concept_axis_presets',
+    ACTIVE_STORAGE_KEY: 'mvv_concept_axis_active_preset'
+  },
 
   // ストレージ設定
   DB_NAME: 'mvv_extraction_db',
   DB_VERSION: 2,
 
+  // 類似企業検索の近似最近傍インデックス（HNSW）設定
+  ANN_INDEX: {
+    MIN_COMPANIES: 200, // これ未満の企業数では全件比較の方が正確かつ十分高速
+    M: 16,              // 各ノードの近傍数（レイヤー0は2倍）
+    EF_CONSTRUCTION: 100,
+    EF_SEARCH: 64,
+    CANDIDATE_MULTIPLIER: 4 // 複合類似度で再ランキングする候補数の倍率
+  },
+
   // UI設定
   DEFAULT_PAGE_SIZE: 20,
   TOAST_DURATION: 3000,
@@ -0,0 +1,39 @@
+/**
+ * 再現性のある疑似乱数
+ * 同じシードなら同じ系列を返すため、クラスタリングや投影の結果を実行ごとに揃えられる
+ */
+
+/**
+ * mulberry32 による [0, 1) の一様乱数
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * 文字列から32bitのシード値を作る（FNV-1a）
+ */
+export const hashStringToSeed = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * 標準正規分布に従う乱数（Box-Muller法）
+ */
+export const gaussianRandom = (random: () => number): number => {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
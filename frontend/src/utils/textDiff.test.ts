@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { diffValueLists, diffWords, hasChanges, tokenizeForDiff } from './textDiff';
+
+describe('tokenizeForDiff', () => {
+  it('returns no tokens for empty input', () => {
+    expect(tokenizeForDiff('')).toEqual([]);
+  });
+
+  it('splits Japanese text without spaces by character class', () => {
+    expect(tokenizeForDiff('顧客の課題をAIで解決する')).toEqual(['顧客', 'の', '課題', 'を', 'AI', 'で', '解決', 'する']);
+  });
+
+  it('keeps whitespace and punctuation so tokens join back to the input', () => {
+    const text = 'Make the world  better, 世界を「より良く」。';
+    expect(tokenizeForDiff(text).join('')).toBe(text);
+  });
+});
+
+describe('diffWords', () => {
+  it('returns no segments when both sides are empty', () => {
+    expect(diffWords('', '')).toEqual([]);
+    expect(diffWords(null, undefined)).toEqual([]);
+  });
+
+  it('returns a single equal segment for identical input', () => {
+    const segments = diffWords('Empower every person', 'Empower every person');
+    expect(segments).toEqual([{ type: 'equal', text: 'Empower every person' }]);
+    expect(hasChanges(segments)).toBe(false);
+  });
+
+  it('treats text added to an empty value as a pure insert', () => {
+    expect(diffWords('', '新しいミッション')).toEqual([{ type: 'added', text: '新しいミッション' }]);
+  });
+
+  it('treats a cleared value as a pure delete', () => {
+    expect(diffWords('旧ビジョン', null)).toEqual([{ type: 'removed', text: '旧ビジョン' }]);
+  });
+
+  it('reports an inserted word between unchanged words', () => {
+    expect(diffWords('Empower every person', 'Empower every single person')).toEqual([
+      { type: 'equal', text: 'Empower every ' },
+      { type: 'added', text: 'single ' },
+      { type: 'equal', text: 'person' }
+    ]);
+  });
+
+  it('reports a deleted word between unchanged words', () => {
+    expect(diffWords('Empower every single person', 'Empower every person')).toEqual([
+      { type: 'equal', text: 'Empower every ' },
+      { type: 'removed', text: 'single ' },
+      { type: 'equal', text: 'person' }
+    ]);
+  });
+
+  it('diffs Japanese text without spaces at word granularity', () => {
+    const segments = diffWords('顧客の課題を解決する', '社会の課題を解決する');
+    expect(segments).toEqual([
+      { type: 'removed', text: '顧客' },
+      { type: 'added', text: '社会' },
+      { type: 'equal', text: 'の課題を解決する' }
+    ]);
+    expect(hasChanges(segments)).toBe(true);
+  });
+});
+
+describe('diffValueLists', () => {
+  it('pairs an adjacent removal and addition as a modification', () => {
+    expect(diffValueLists(['誠実', '挑戦'], ['誠実', '挑戦と創造'])).toEqual([
+      { type: 'unchanged', before: '誠実', after: '誠実' },
+      {
+        type: 'modified',
+        before: '挑戦',
+        after: '挑戦と創造',
+        segments: [
+          { type: 'equal', text: '挑戦' },
+          { type: 'added', text: 'と創造' }
+        ]
+      }
+    ]);
+  });
+
+  it('ignores surrounding whitespace when matching items', () => {
+    expect(diffValueLists([' 誠実 '], ['誠実'])).toEqual([
+      { type: 'unchanged', before: '誠実', after: '誠実' }
+    ]);
+  });
+
+  it('reports items that only exist on one side', () => {
+    expect(diffValueLists([], ['誠実'])).toEqual([{ type: 'added', after: '誠実' }]);
+    expect(diffValueLists(['誠実'], [])).toEqual([{ type: 'removed', before: '誠実' }]);
+  });
+});
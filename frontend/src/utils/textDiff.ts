@@ -0,0 +1,125 @@
+/**
+ * 単語レベルのテキスト差分ユーティリティ
+ * 日本語は空白で区切られないため、文字種（漢字・ひらがな・カタカナ・英数字）の連続を1語として扱う
+ */
+
+export type DiffOperation = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffOperation;
+  text: string;
+}
+
+export interface ValueDiffEntry {
+  type: 'unchanged' | 'added' | 'removed' | 'modified';
+  before?: string;
+  after?: string;
+  segments?: DiffSegment[];
+}
+
+const TOKEN_PATTERN = /[一-鿿㐀-䶿々〆ヶ]+|[ぁ-ゟ]+|[゠-ヿｦ-ﾟー]+|[A-Za-z0-9Ａ-Ｚａ-ｚ０-９]+|\s+|./gu;
+
+/**
+ * 差分用にテキストを単語に分割（連結すると元の文字列に戻る）
+ */
+export const tokenizeForDiff = (text: string): string[] => {
+  if (!text) return [];
+  return text.match(TOKEN_PATTERN) || [];
+};
+
+/**
+ * 最長共通部分列（LCS）に基づく汎用差分
+ */
+const diffSequences = <T>(
+  before: T[],
+  after: T[],
+  isEqual: (a: T, b: T) => boolean = (a, b) => a === b
+): Array<{ type: DiffOperation; item: T }> => {
+  const n = before.length;
+  const m = after.length;
+  const table: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = isEqual(before[i], after[j])
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const result: Array<{ type: DiffOperation; item: T }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (isEqual(before[i], after[j])) {
+      result.push({ type: 'equal', item: after[j] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      result.push({ type: 'removed', item: before[i] });
+      i++;
+    } else {
+      result.push({ type: 'added', item: after[j] });
+      j++;
+    }
+  }
+  while (i < n) result.push({ type: 'removed', item: before[i++] });
+  while (j < m) result.push({ type: 'added', item: after[j++] });
+
+  return result;
+};
+
+/**
+ * 2つのテキストの単語レベル差分（連続する同種の操作は1セグメントにまとめる）
+ */
+export const diffWords = (before: string | null | undefined, after: string | null | undefined): DiffSegment[] => {
+  const operations = diffSequences(tokenizeForDiff(before || ''), tokenizeForDiff(after || ''));
+
+  return operations.reduce<DiffSegment[]>((segments, op) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += op.item;
+    } else {
+      segments.push({ type: op.type, text: op.item });
+    }
+    return segments;
+  }, []);
+};
+
+/**
+ * Values（配列）の差分
+ * 削除と追加が隣接する場合は「変更」として単語差分を付与する
+ */
+export const diffValueLists = (before: string[], after: string[]): ValueDiffEntry[] => {
+  const operations = diffSequences(before, after, (a, b) => a.trim() === b.trim());
+  const entries: ValueDiffEntry[] = [];
+
+  for (let k = 0; k < operations.length; k++) {
+    const op = operations[k];
+    const next = operations[k + 1];
+
+    if (op.type === 'equal') {
+      entries.push({ type: 'unchanged', before: op.item, after: op.item });
+    } else if (op.type === 'removed' && next?.type === 'added') {
+      entries.push({
+        type: 'modified',
+        before: op.item,
+        after: next.item,
+        segments: diffWords(op.item, next.item)
+      });
+      k++;
+    } else if (op.type === 'removed') {
+      entries.push({ type: 'removed', before: op.item });
+    } else {
+      entries.push({ type: 'added', after: op.item });
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * 差分に変更が含まれるかどうか
+ */
+export const hasChanges = (segments: DiffSegment[]): boolean =>
+  segments.some(segment => segment.type !== 'equal');